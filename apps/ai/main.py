@@ -2,6 +2,7 @@ import os
 import json
 import boto3
 from fastapi import FastAPI, HTTPException
+from fastapi.responses import StreamingResponse
 from mangum import Mangum
 from pydantic import BaseModel
 from botocore.exceptions import ClientError
@@ -102,4 +103,57 @@ def generate(request: GenerateRequest):
         )
 
 
+@app.post("/generate/stream")
+@app.post("/prod/generate/stream")
+def generate_stream(request: GenerateRequest):
+    """
+    Generate text using Amazon Bedrock Claude model, streaming the text as
+    plain-text chunks while it is produced (for servers that can stream;
+    Lambda invocations keep using /generate)
+    """
+    body = json.dumps(
+        {
+            "anthropic_version": "bedrock-2023-05-31",
+            "max_tokens": 4096,
+            "temperature": 0.7,
+            "messages": [
+                {
+                    "role": "user",
+                    "content": request.prompt,
+                }
+            ],
+        }
+    )
+
+    try:
+        response = bedrock_runtime.invoke_model_with_response_stream(
+            modelId=bedrock_model_id,
+            body=body,
+            contentType="application/json",
+            accept="application/json",
+        )
+    except ClientError as e:
+        error_code = e.response.get("Error", {}).get("Code", "Unknown")
+        error_message = e.response.get("Error", {}).get("Message", str(e))
+        print(f"Bedrock ClientError: {error_code} - {error_message}")
+        raise HTTPException(
+            status_code=500,
+            detail=f"Bedrock invocation failed: {error_code} - {error_message}",
+        )
+
+    def text_chunks():
+        # Claude streams content_block_delta events carrying text deltas
+        for event in response["body"]:
+            chunk = event.get("chunk")
+            if not chunk:
+                continue
+            data = json.loads(chunk["bytes"])
+            if data.get("type") == "content_block_delta":
+                text = data.get("delta", {}).get("text", "")
+                if text:
+                    yield text
+
+    return StreamingResponse(text_chunks(), media_type="text/plain; charset=utf-8")
+
+
 handler = Mangum(app)
@@ -0,0 +1,7 @@
+#!/bin/bash
+# Entry point under the Lambda Web Adapter (AI_RESPONSE_STREAMING=true in
+# scripts/ai_create.sh): serves the FastAPI app with uvicorn so
+# /generate/stream responses stream instead of being buffered by Mangum
+PATH=$PATH:$LAMBDA_TASK_ROOT/bin \
+    PYTHONPATH=$PYTHONPATH:/opt/python:$LAMBDA_RUNTIME_DIR \
+    exec python -m uvicorn --port="${PORT:-8080}" main:app
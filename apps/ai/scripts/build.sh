@@ -23,8 +23,9 @@ fi
 TEMP_DIR=$(mktemp -d)
 trap "rm -rf $TEMP_DIR" EXIT
 
-# Copy source files
-cp main.py "$TEMP_DIR/"
+# Copy source files (run.sh starts the app under the Lambda Web Adapter)
+cp main.py run.sh "$TEMP_DIR/"
+chmod +x "$TEMP_DIR/run.sh"
 
 # Install dependencies to temp directory
 echo "  Installing dependencies for Linux (Lambda)..."
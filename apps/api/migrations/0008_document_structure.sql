@@ -0,0 +1,11 @@
+-- Add structured extraction model next to extracted_text
+-- Migration: 0008_document_structure.sql
+
+BEGIN;
+
+ALTER TABLE documents
+ADD COLUMN IF NOT EXISTS structure JSONB;
+
+COMMENT ON COLUMN documents.structure IS 'Structured extraction model: pages, headings, paragraphs, list items and tables with character offsets into extracted_text';
+
+COMMIT;
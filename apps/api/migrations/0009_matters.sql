@@ -0,0 +1,29 @@
+-- Add matters (cases) that group several ingested source documents
+-- Migration: 0009_matters.sql
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS matters (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  owner_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  title VARCHAR(255) NOT NULL,
+  description TEXT,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+COMMENT ON TABLE matters IS 'Matters (cases) grouping the source documents a draft is generated from';
+COMMENT ON COLUMN matters.id IS 'Unique matter identifier (UUID)';
+COMMENT ON COLUMN matters.owner_id IS 'User who owns this matter';
+COMMENT ON COLUMN matters.title IS 'Matter display name (e.g. client and incident)';
+COMMENT ON COLUMN matters.description IS 'Optional notes about the matter';
+
+ALTER TABLE documents
+ADD COLUMN IF NOT EXISTS matter_id UUID REFERENCES matters(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN documents.matter_id IS 'Matter this document belongs to; generation composes from every document in the matter';
+
+CREATE INDEX IF NOT EXISTS idx_matters_owner ON matters(owner_id, updated_at DESC);
+CREATE INDEX IF NOT EXISTS idx_documents_matter ON documents(matter_id) WHERE matter_id IS NOT NULL;
+
+COMMIT;
@@ -0,0 +1,37 @@
+-- Track asynchronous ingestion jobs (download, extract, chunk) for uploads
+-- Migration: 0010_ingest_jobs.sql
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS ingest_jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  owner_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  document_id UUID REFERENCES documents(id) ON DELETE SET NULL,
+  matter_id UUID REFERENCES matters(id) ON DELETE SET NULL,
+  key VARCHAR(512) NOT NULL,
+  original_name VARCHAR(512) NOT NULL,
+  mime VARCHAR(255) NOT NULL,
+  size BIGINT,
+  phase VARCHAR(50) NOT NULL DEFAULT 'queued',
+  progress INTEGER NOT NULL DEFAULT 0,
+  error TEXT,
+  result JSONB,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  completed_at TIMESTAMP
+);
+
+COMMENT ON TABLE ingest_jobs IS 'Asynchronous ingestion jobs for uploaded files, polled by the client';
+COMMENT ON COLUMN ingest_jobs.document_id IS 'Document being populated (NULL for ZIP archives, which create one document per entry)';
+COMMENT ON COLUMN ingest_jobs.matter_id IS 'Matter the ingested documents are added to';
+COMMENT ON COLUMN ingest_jobs.key IS 'S3 object key of the uploaded file';
+COMMENT ON COLUMN ingest_jobs.phase IS 'Job phase: queued|downloading|extracting|chunking|done|failed';
+COMMENT ON COLUMN ingest_jobs.progress IS 'Approximate progress percentage (0-100)';
+COMMENT ON COLUMN ingest_jobs.error IS 'Error message when phase is failed';
+COMMENT ON COLUMN ingest_jobs.result IS 'Ingestion summary returned to the client when the job is done';
+
+COMMENT ON COLUMN documents.status IS 'Document lifecycle status: uploaded|downloading|extracting|chunking|extracted|failed|draft_generated|exported';
+
+CREATE INDEX IF NOT EXISTS idx_ingest_jobs_owner ON ingest_jobs(owner_id, created_at DESC);
+
+COMMIT;
@@ -0,0 +1,14 @@
+-- Record detected PII/PHI spans and a per-document redaction policy
+-- Migration: 0011_pii_redaction.sql
+
+BEGIN;
+
+ALTER TABLE documents
+  ADD COLUMN IF NOT EXISTS pii_spans JSONB,
+  ADD COLUMN IF NOT EXISTS redaction_policy VARCHAR(20) NOT NULL DEFAULT 'tokenize'
+    CHECK (redaction_policy IN ('none', 'mask', 'tokenize', 'drop'));
+
+COMMENT ON COLUMN documents.pii_spans IS 'Detected PII/PHI spans in extracted_text: [{type, start, end, text, ignored?}] (type: ssn|dob|mrn|phone|email|account_number)';
+COMMENT ON COLUMN documents.redaction_policy IS 'How PII spans are treated in prompts and exports: none|mask|tokenize|drop';
+
+COMMIT;
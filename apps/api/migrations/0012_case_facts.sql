@@ -0,0 +1,13 @@
+-- Store structured case facts extracted from a document's sources
+-- Migration: 0012_case_facts.sql
+
+BEGIN;
+
+ALTER TABLE documents
+  ADD COLUMN IF NOT EXISTS case_facts JSONB,
+  ADD COLUMN IF NOT EXISTS case_facts_confirmed_at TIMESTAMP;
+
+COMMENT ON COLUMN documents.case_facts IS 'Structured case facts (claimant, defendant, insurer, incident date, injuries, providers, medical specials, lost wages), each with a source span';
+COMMENT ON COLUMN documents.case_facts_confirmed_at IS 'When the user confirmed the case facts; confirmed facts drive draft generation';
+
+COMMIT;
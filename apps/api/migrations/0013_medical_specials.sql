@@ -0,0 +1,34 @@
+-- Medical specials ledger: billing line items parsed from source documents
+-- Migration: 0013_medical_specials.sql
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS medical_specials (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  document_id UUID NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+  origin VARCHAR(20) NOT NULL DEFAULT 'parsed' CHECK (origin IN ('parsed', 'manual')),
+  provider VARCHAR(255) NOT NULL,
+  service_date DATE,
+  code VARCHAR(20),
+  description TEXT NOT NULL DEFAULT '',
+  billed NUMERIC(12, 2) NOT NULL,
+  paid NUMERIC(12, 2) NOT NULL DEFAULT 0,
+  adjusted NUMERIC(12, 2) NOT NULL DEFAULT 0,
+  source_start INTEGER,
+  source_end INTEGER,
+  excluded BOOLEAN,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+COMMENT ON TABLE medical_specials IS 'Billing line items (medical specials) for a source document; totals are computed from these rows';
+COMMENT ON COLUMN medical_specials.origin IS 'parsed (from extracted text, replaced on re-parse) or manual (entered by a user)';
+COMMENT ON COLUMN medical_specials.code IS 'CPT/HCPCS procedure code';
+COMMENT ON COLUMN medical_specials.adjusted IS 'Contractual adjustments and write-offs';
+COMMENT ON COLUMN medical_specials.source_start IS 'Start of the billing line in documents.extracted_text';
+COMMENT ON COLUMN medical_specials.source_end IS 'End of the billing line in documents.extracted_text (exclusive)';
+COMMENT ON COLUMN medical_specials.excluded IS 'NULL lets duplicate detection decide; TRUE/FALSE when a user excluded or included the item';
+
+CREATE INDEX IF NOT EXISTS idx_medical_specials_document ON medical_specials(document_id, service_date);
+
+COMMIT;
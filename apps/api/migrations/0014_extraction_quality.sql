@@ -0,0 +1,32 @@
+-- Store an extraction quality report per document and pending re-extractions
+-- Migration: 0014_extraction_quality.sql
+
+BEGIN;
+
+ALTER TABLE documents
+  ADD COLUMN IF NOT EXISTS extraction_quality JSONB;
+
+COMMENT ON COLUMN documents.extraction_quality IS 'Quality report for extracted_text: character count, garbage ratio, detected language, empty pages, encoding issues and warnings';
+
+CREATE TABLE IF NOT EXISTS document_reextractions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  document_id UUID NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+  requested_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  options JSONB NOT NULL DEFAULT '{}',
+  base_hash VARCHAR(64) NOT NULL,
+  extracted_text TEXT NOT NULL,
+  structure JSONB NOT NULL,
+  ocr_pages JSONB NOT NULL DEFAULT '[]',
+  quality JSONB NOT NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  applied_at TIMESTAMP
+);
+
+COMMENT ON TABLE document_reextractions IS 'Re-extraction results previewed as a diff before they replace documents.extracted_text';
+COMMENT ON COLUMN document_reextractions.options IS 'Extraction options used: forceOcr, alternateParser';
+COMMENT ON COLUMN document_reextractions.base_hash IS 'SHA-256 of the extracted_text the preview was diffed against; applying fails if it has changed';
+COMMENT ON COLUMN document_reextractions.applied_at IS 'When the result replaced the document text (NULL while pending)';
+
+CREATE INDEX IF NOT EXISTS idx_document_reextractions_document ON document_reextractions(document_id, created_at DESC);
+
+COMMIT;
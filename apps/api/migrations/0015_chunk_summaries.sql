@@ -0,0 +1,12 @@
+-- Cache per-chunk summaries for map-reduce generation
+-- Migration: 0015_chunk_summaries.sql
+
+BEGIN;
+
+-- Summaries written by earlier versions were never used; clear them so every
+-- cached summary comes from the summarization prompt
+UPDATE doc_chunks SET summary = NULL WHERE summary IS NOT NULL;
+
+COMMENT ON COLUMN doc_chunks.summary IS 'Cached summary of the chunk written by the map step of generation (PII values restored); NULL until first summarized, cleared when the document is re-extracted';
+
+COMMIT;
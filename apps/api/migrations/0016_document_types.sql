@@ -0,0 +1,18 @@
+-- Store the letter type each document's draft is generated as
+-- Migration: 0016_document_types.sql
+
+BEGIN;
+
+ALTER TABLE documents
+  ADD COLUMN IF NOT EXISTS document_type VARCHAR(40) NOT NULL DEFAULT 'demand_letter'
+    CHECK (document_type IN (
+      'demand_letter',
+      'preservation_letter',
+      'representation_letter',
+      'settlement_counter_offer',
+      'records_request'
+    ));
+
+COMMENT ON COLUMN documents.document_type IS 'Letter type the draft is generated as: demand_letter|preservation_letter|representation_letter|settlement_counter_offer|records_request';
+
+COMMIT;
@@ -0,0 +1,11 @@
+-- Declare the typed merge-field variables a template's content uses
+-- Migration: 0017_template_variables.sql
+
+BEGIN;
+
+ALTER TABLE templates
+  ADD COLUMN IF NOT EXISTS variables JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+COMMENT ON COLUMN templates.variables IS 'Merge-field variable schema: [{name, type: text|date|money|number|list, label, required}] for {{name}} tags in content';
+
+COMMIT;
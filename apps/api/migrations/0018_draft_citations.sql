@@ -0,0 +1,11 @@
+-- Store the claims of each generated draft with their supporting source spans
+-- Migration: 0018_draft_citations.sql
+
+BEGIN;
+
+ALTER TABLE documents
+  ADD COLUMN IF NOT EXISTS draft_citations JSONB;
+
+COMMENT ON COLUMN documents.draft_citations IS 'Claims of the generated draft: {claims: [{start, end, text, figures, supports, supported}], unsupportedCount}; offsets into draft_text as generated';
+
+COMMIT;
@@ -0,0 +1,44 @@
+-- Record every draft generation with its inputs, model and token usage
+-- Migration: 0019_generation_runs.sql
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS generation_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  document_id UUID NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  template_id UUID REFERENCES templates(id) ON DELETE SET NULL,
+  template_version TIMESTAMP,
+  instructions TEXT,
+  document_type VARCHAR(50),
+  prompt_hash VARCHAR(64),
+  model_id VARCHAR(255) NOT NULL,
+  strategy VARCHAR(20) NOT NULL CHECK (strategy IN ('single', 'map-reduce', 'merge')),
+  chunk_count INTEGER NOT NULL DEFAULT 0,
+  model_calls INTEGER NOT NULL DEFAULT 0,
+  input_tokens INTEGER NOT NULL DEFAULT 0,
+  output_tokens INTEGER NOT NULL DEFAULT 0,
+  latency_ms INTEGER NOT NULL,
+  streamed BOOLEAN NOT NULL DEFAULT false,
+  outcome VARCHAR(20) NOT NULL CHECK (outcome IN ('succeeded', 'failed', 'cancelled')),
+  error TEXT,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+COMMENT ON TABLE generation_runs IS 'One row per draft generation that reached the model step, whatever its outcome';
+COMMENT ON COLUMN generation_runs.user_id IS 'User who requested the generation';
+COMMENT ON COLUMN generation_runs.template_version IS 'templates.updated_at when the run started, identifying the template content used';
+COMMENT ON COLUMN generation_runs.prompt_hash IS 'SHA-256 of the letter prompt sent to the model (NULL for merge-only runs)';
+COMMENT ON COLUMN generation_runs.strategy IS 'single (one prompt), map-reduce (chunk summaries, then the letter) or merge (template filled without the model)';
+COMMENT ON COLUMN generation_runs.chunk_count IS 'Source chunks in a map-reduce run';
+COMMENT ON COLUMN generation_runs.model_calls IS 'Model requests made, including chunk summaries (cached summaries make none)';
+COMMENT ON COLUMN generation_runs.input_tokens IS 'Prompt tokens sent, counted with the API tokenizer';
+COMMENT ON COLUMN generation_runs.output_tokens IS 'Tokens the model returned (up to cancellation), counted with the API tokenizer';
+COMMENT ON COLUMN generation_runs.latency_ms IS 'Time from the request to the draft being saved, or to the failure';
+COMMENT ON COLUMN generation_runs.outcome IS 'succeeded|failed|cancelled';
+COMMENT ON COLUMN generation_runs.error IS 'Error message when the run failed';
+
+CREATE INDEX IF NOT EXISTS idx_generation_runs_document ON generation_runs(document_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_generation_runs_user ON generation_runs(user_id, created_at DESC);
+
+COMMIT;
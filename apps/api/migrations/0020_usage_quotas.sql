@@ -0,0 +1,45 @@
+-- AI usage quotas: organizations, per-user and per-organization limits, and
+-- token counts for refinements
+-- Migration: 0020_usage_quotas.sql
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS organizations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name VARCHAR(255) NOT NULL,
+  requests_per_minute INTEGER,
+  tokens_per_day BIGINT,
+  tokens_per_month BIGINT,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+COMMENT ON TABLE organizations IS 'Firms whose users share AI usage quotas';
+COMMENT ON COLUMN organizations.requests_per_minute IS 'AI requests per minute across the organization (NULL: AI_ORG_REQUESTS_PER_MINUTE)';
+COMMENT ON COLUMN organizations.tokens_per_day IS 'AI tokens per UTC day across the organization (NULL: AI_ORG_TOKENS_PER_DAY)';
+COMMENT ON COLUMN organizations.tokens_per_month IS 'AI tokens per UTC calendar month across the organization (NULL: AI_ORG_TOKENS_PER_MONTH)';
+
+ALTER TABLE users
+  ADD COLUMN IF NOT EXISTS organization_id UUID REFERENCES organizations(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS requests_per_minute INTEGER,
+  ADD COLUMN IF NOT EXISTS tokens_per_day BIGINT,
+  ADD COLUMN IF NOT EXISTS tokens_per_month BIGINT;
+
+COMMENT ON COLUMN users.organization_id IS 'Organization whose quotas also apply to the user';
+COMMENT ON COLUMN users.requests_per_minute IS 'AI requests per minute for the user (NULL: AI_USER_REQUESTS_PER_MINUTE)';
+COMMENT ON COLUMN users.tokens_per_day IS 'AI tokens per UTC day for the user (NULL: AI_USER_TOKENS_PER_DAY)';
+COMMENT ON COLUMN users.tokens_per_month IS 'AI tokens per UTC calendar month for the user (NULL: AI_USER_TOKENS_PER_MONTH)';
+
+CREATE INDEX IF NOT EXISTS idx_users_organization ON users(organization_id);
+
+ALTER TABLE refinements
+  ADD COLUMN IF NOT EXISTS user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS input_tokens INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS output_tokens INTEGER NOT NULL DEFAULT 0;
+
+COMMENT ON COLUMN refinements.user_id IS 'User who requested the refinement';
+COMMENT ON COLUMN refinements.input_tokens IS 'Prompt tokens sent, counted with the API tokenizer';
+COMMENT ON COLUMN refinements.output_tokens IS 'Tokens the model returned, counted with the API tokenizer';
+
+CREATE INDEX IF NOT EXISTS idx_refinements_user ON refinements(user_id, created_at DESC);
+
+COMMIT;
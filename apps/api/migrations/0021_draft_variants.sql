@@ -0,0 +1,32 @@
+-- Candidate drafts generated side by side, kept until one is chosen
+-- Migration: 0021_draft_variants.sql
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS draft_variants (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  document_id UUID NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+  batch_id UUID NOT NULL,
+  idx INTEGER NOT NULL,
+  label VARCHAR(100) NOT NULL,
+  template_id UUID REFERENCES templates(id) ON DELETE SET NULL,
+  instructions TEXT,
+  document_type VARCHAR(50),
+  draft_text TEXT NOT NULL,
+  citations JSONB,
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE (batch_id, idx)
+);
+
+COMMENT ON TABLE draft_variants IS 'Candidate drafts from one generation request; documents.draft_text is unchanged until one is applied';
+COMMENT ON COLUMN draft_variants.batch_id IS 'Variants generated by the same request share a batch';
+COMMENT ON COLUMN draft_variants.idx IS 'Position of the variant in its batch, from 0';
+COMMENT ON COLUMN draft_variants.label IS 'Name shown in the comparison, e.g. Variant 1 or a tone the user chose';
+COMMENT ON COLUMN draft_variants.instructions IS 'Instructions the variant was written with';
+COMMENT ON COLUMN draft_variants.draft_text IS 'Draft text with PII tokens restored';
+COMMENT ON COLUMN draft_variants.citations IS 'Claims of the variant grounded in the sources (same shape as documents.draft_citations)';
+
+CREATE INDEX IF NOT EXISTS idx_draft_variants_document ON draft_variants(document_id, created_at DESC);
+
+COMMIT;
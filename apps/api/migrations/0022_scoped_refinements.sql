@@ -0,0 +1,18 @@
+-- Refinements that rewrite one passage of the draft
+-- Migration: 0022_scoped_refinements.sql
+
+BEGIN;
+
+ALTER TABLE refinements
+  ADD COLUMN IF NOT EXISTS scope_start INTEGER,
+  ADD COLUMN IF NOT EXISTS scope_end INTEGER,
+  ADD COLUMN IF NOT EXISTS original_text TEXT,
+  ADD COLUMN IF NOT EXISTS replacement TEXT;
+
+COMMENT ON COLUMN refinements.result IS 'Whole draft after the refinement';
+COMMENT ON COLUMN refinements.scope_start IS 'Start of the passage rewritten, as an offset into the draft before the refinement (NULL: whole draft)';
+COMMENT ON COLUMN refinements.scope_end IS 'End of the passage rewritten (exclusive)';
+COMMENT ON COLUMN refinements.original_text IS 'The passage before the refinement';
+COMMENT ON COLUMN refinements.replacement IS 'The passage the model wrote in its place';
+
+COMMIT;
@@ -0,0 +1,34 @@
+-- Refinements offered as tracked changes to accept or reject one by one
+-- Migration: 0023_draft_suggestions.sql
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS draft_suggestions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  document_id UUID NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+  refinement_id UUID NOT NULL REFERENCES refinements(id) ON DELETE CASCADE,
+  idx INTEGER NOT NULL,
+  start_offset INTEGER NOT NULL,
+  end_offset INTEGER NOT NULL,
+  original_text TEXT NOT NULL,
+  replacement_text TEXT NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'accepted', 'rejected')),
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  decided_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  decided_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE (refinement_id, idx)
+);
+
+COMMENT ON TABLE draft_suggestions IS 'Word-level changes proposed by a refinement; the draft changes only as they are accepted';
+COMMENT ON COLUMN draft_suggestions.start_offset IS 'Start of original_text in the draft the refinement was made on';
+COMMENT ON COLUMN draft_suggestions.end_offset IS 'End of original_text (exclusive)';
+COMMENT ON COLUMN draft_suggestions.original_text IS 'Text the suggestion replaces (insertions include the word before them)';
+COMMENT ON COLUMN draft_suggestions.replacement_text IS 'Text proposed in its place (empty for a deletion)';
+COMMENT ON COLUMN draft_suggestions.status IS 'pending|accepted|rejected';
+COMMENT ON COLUMN draft_suggestions.created_by IS 'User who asked for the refinement';
+COMMENT ON COLUMN draft_suggestions.decided_by IS 'Editor or owner who accepted or rejected the suggestion';
+
+CREATE INDEX IF NOT EXISTS idx_draft_suggestions_document ON draft_suggestions(document_id, status);
+
+COMMIT;
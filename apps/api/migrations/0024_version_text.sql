@@ -0,0 +1,16 @@
+-- Keep the draft text of generation runs and collaborative snapshots so any
+-- two versions of a document can be compared
+-- Migration: 0024_version_text.sql
+
+BEGIN;
+
+ALTER TABLE generation_runs
+  ADD COLUMN IF NOT EXISTS draft_text TEXT;
+
+ALTER TABLE doc_snapshots
+  ADD COLUMN IF NOT EXISTS draft_text TEXT;
+
+COMMENT ON COLUMN generation_runs.draft_text IS 'Draft saved by a succeeded run (NULL for failed and cancelled runs, and runs recorded before this column)';
+COMMENT ON COLUMN doc_snapshots.draft_text IS 'documents.draft_text when the snapshot was taken (NULL for snapshots taken before this column)';
+
+COMMIT;
@@ -0,0 +1,22 @@
+-- One version timeline per document: who made each collaborative edit, and
+-- named checkpoints users save by hand
+-- Migration: 0025_version_timeline.sql
+
+BEGIN;
+
+ALTER TABLE doc_ops
+  ADD COLUMN IF NOT EXISTS user_id UUID REFERENCES users(id) ON DELETE SET NULL;
+
+ALTER TABLE doc_snapshots
+  ADD COLUMN IF NOT EXISTS name VARCHAR(200),
+  ADD COLUMN IF NOT EXISTS created_by UUID REFERENCES users(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_doc_snapshots_checkpoints
+  ON doc_snapshots(document_id, created_at DESC)
+  WHERE name IS NOT NULL;
+
+COMMENT ON COLUMN doc_ops.user_id IS 'User whose edit this operation is (NULL for operations saved before this column)';
+COMMENT ON COLUMN doc_snapshots.name IS 'Set for checkpoints saved by a user; periodic snapshots have none and only they are used to sync clients';
+COMMENT ON COLUMN doc_snapshots.created_by IS 'User who saved the checkpoint (NULL for periodic snapshots)';
+
+COMMIT;
@@ -0,0 +1,46 @@
+-- Checkpoints that cannot change, and working drafts branched from them
+-- Migration: 0026_draft_branches.sql
+
+BEGIN;
+
+-- A checkpoint is referred to by its name ("Sent to client v1")
+CREATE UNIQUE INDEX IF NOT EXISTS idx_doc_snapshots_checkpoint_names
+  ON doc_snapshots(document_id, name)
+  WHERE name IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION prevent_checkpoint_update() RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'Checkpoint % cannot be changed', OLD.id;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS doc_snapshots_checkpoint_immutable ON doc_snapshots;
+CREATE TRIGGER doc_snapshots_checkpoint_immutable
+  BEFORE UPDATE ON doc_snapshots
+  FOR EACH ROW
+  WHEN (OLD.name IS NOT NULL)
+  EXECUTE FUNCTION prevent_checkpoint_update();
+
+CREATE TABLE IF NOT EXISTS draft_branches (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  document_id UUID NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+  name VARCHAR(200) NOT NULL,
+  checkpoint_id UUID NOT NULL REFERENCES doc_snapshots(id) ON DELETE CASCADE,
+  draft_text TEXT NOT NULL,
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  updated_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  merged_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE (document_id, name)
+);
+
+COMMENT ON TABLE draft_branches IS 'Working drafts forked from a checkpoint, edited apart from the main draft and merged back';
+COMMENT ON COLUMN draft_branches.checkpoint_id IS 'Checkpoint the branch was forked from; its text is the base of three-way merges';
+COMMENT ON COLUMN draft_branches.draft_text IS 'The branch draft, starting as the checkpoint text';
+COMMENT ON COLUMN draft_branches.updated_by IS 'User who last saved the branch draft';
+COMMENT ON COLUMN draft_branches.merged_at IS 'When the branch was last merged into another draft';
+
+CREATE INDEX IF NOT EXISTS idx_draft_branches_document ON draft_branches(document_id, updated_at DESC);
+
+COMMIT;
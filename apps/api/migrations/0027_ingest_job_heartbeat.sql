@@ -0,0 +1,18 @@
+-- Heartbeats for running ingestion jobs, so a job whose Lambda crashed or
+-- timed out is reported as failed instead of running forever
+-- Migration: 0027_ingest_job_heartbeat.sql
+
+BEGIN;
+
+ALTER TABLE ingest_jobs
+  ADD COLUMN IF NOT EXISTS started_at TIMESTAMP,
+  ADD COLUMN IF NOT EXISTS heartbeat_at TIMESTAMP;
+
+CREATE INDEX IF NOT EXISTS idx_ingest_jobs_running
+  ON ingest_jobs(owner_id, heartbeat_at)
+  WHERE phase IN ('downloading', 'extracting', 'chunking');
+
+COMMENT ON COLUMN ingest_jobs.started_at IS 'When a worker claimed the job';
+COMMENT ON COLUMN ingest_jobs.heartbeat_at IS 'Last sign of life from the worker running the job; running jobs without one for INGEST_JOB_STALE_SECONDS are marked failed';
+
+COMMIT;
@@ -0,0 +1,38 @@
+-- AI quota accounting shared by every API instance: model calls per minute
+-- for the per-minute limits, and the tokens of AI calls that are neither
+-- generations nor refinements (case fact extraction, export filenames)
+-- Migration: 0028_ai_request_counts.sql
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS ai_request_counts (
+  scope VARCHAR(20) NOT NULL CHECK (scope IN ('user', 'organization')),
+  subject_id UUID NOT NULL,
+  window_start TIMESTAMP NOT NULL,
+  requests INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (scope, subject_id, window_start)
+);
+
+COMMENT ON TABLE ai_request_counts IS 'Model calls per user and organization per UTC minute, for the per-minute limits';
+COMMENT ON COLUMN ai_request_counts.window_start IS 'Start of the UTC minute counted; rows of past minutes are pruned';
+
+CREATE INDEX IF NOT EXISTS idx_ai_request_counts_window ON ai_request_counts(window_start);
+
+CREATE TABLE IF NOT EXISTS ai_usage (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  document_id UUID REFERENCES documents(id) ON DELETE SET NULL,
+  purpose VARCHAR(40) NOT NULL CHECK (purpose IN ('case_facts', 'export_filename')),
+  input_tokens INTEGER NOT NULL DEFAULT 0,
+  output_tokens INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+COMMENT ON TABLE ai_usage IS 'Tokens of model calls outside generations and refinements, counted against token quotas';
+COMMENT ON COLUMN ai_usage.purpose IS 'What the call was for: case_facts or export_filename';
+COMMENT ON COLUMN ai_usage.input_tokens IS 'Prompt tokens sent, counted with the API tokenizer';
+COMMENT ON COLUMN ai_usage.output_tokens IS 'Tokens the model returned, counted with the API tokenizer';
+
+CREATE INDEX IF NOT EXISTS idx_ai_usage_user ON ai_usage(user_id, created_at DESC);
+
+COMMIT;
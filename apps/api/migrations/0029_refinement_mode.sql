@@ -0,0 +1,19 @@
+-- Refinements offered as suggestions are not versions of the draft until
+-- their changes are accepted
+-- Migration: 0029_refinement_mode.sql
+
+BEGIN;
+
+ALTER TABLE refinements
+  ADD COLUMN IF NOT EXISTS mode VARCHAR(10) NOT NULL DEFAULT 'apply' CHECK (mode IN ('apply', 'suggest'));
+
+-- Refinements made before this column that stored suggestions were suggest mode
+UPDATE refinements r
+SET mode = 'suggest'
+WHERE EXISTS (
+  SELECT 1 FROM draft_suggestions s WHERE s.refinement_id = r.id
+);
+
+COMMENT ON COLUMN refinements.mode IS 'apply|suggest; a suggest refinement becomes a version of the draft (history, diff, timeline) once every one of its suggestions is accepted';
+
+COMMIT;
@@ -0,0 +1,31 @@
+-- Checkpoints that cannot be deleted, and the Y.js state of draft branches
+-- Migration: 0030_checkpoint_state.sql
+
+BEGIN;
+
+-- Deleting the document still deletes its checkpoints: the cascade runs
+-- inside the foreign key's trigger, after the document row is gone
+CREATE OR REPLACE FUNCTION prevent_checkpoint_update() RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'DELETE'
+     AND pg_trigger_depth() > 1
+     AND NOT EXISTS (SELECT 1 FROM documents WHERE id = OLD.document_id) THEN
+    RETURN OLD;
+  END IF;
+  RAISE EXCEPTION 'Checkpoint % cannot be changed', OLD.id;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS doc_snapshots_checkpoint_immutable ON doc_snapshots;
+CREATE TRIGGER doc_snapshots_checkpoint_immutable
+  BEFORE UPDATE OR DELETE ON doc_snapshots
+  FOR EACH ROW
+  WHEN (OLD.name IS NOT NULL)
+  EXECUTE FUNCTION prevent_checkpoint_update();
+
+ALTER TABLE draft_branches
+  ADD COLUMN IF NOT EXISTS state BYTEA;
+
+COMMENT ON COLUMN draft_branches.state IS 'Y.js state of the branch draft, starting as the checkpoint state (NULL for branches saved before it was kept)';
+
+COMMIT;
@@ -17,6 +17,14 @@ cp -r dist/middleware dist/package/ 2>/dev/null || true
 cp -r dist/lib dist/package/ 2>/dev/null || true
 cp -r dist/realtime dist/package/ 2>/dev/null || true
 
+# OCR language data is bundled so scanned PDFs are recognized without any network calls
+if [ ! -f tessdata/eng.traineddata ]; then
+  echo "❌ Missing tessdata/eng.traineddata - scanned PDFs cannot be OCR'd without it" >&2
+  echo "   Download it from https://github.com/tesseract-ocr/tessdata_fast into apps/api/tessdata/" >&2
+  exit 1
+fi
+cp -r tessdata dist/package/
+
 cp package.json dist/package/
 cd dist/package
 npm install --omit=dev
@@ -1,10 +1,14 @@
-import { Pool, QueryResult } from "pg";
+import { Pool, PoolClient, QueryResult } from "pg";
 import {
   SecretsManagerClient,
   GetSecretValueCommand,
 } from "@aws-sdk/client-secrets-manager";
 import { retry } from "../lib/retry";
 import { generateInvitationToken } from "../lib/token";
+import { LedgerItem, SpecialsItem } from "../lib/specials";
+import { QuotaOverrides } from "../lib/quotas";
+import { SuggestedChange, SuggestionStatus } from "../lib/suggestions";
+import { VersionKind } from "../lib/versions";
 
 let pool: Pool | null = null;
 let initPromise: Promise<Pool> | null = null;
@@ -185,6 +189,7 @@ export interface DocOp {
 
 /**
  * Get the latest snapshot for a document
+ * Named checkpoints are skipped: clients sync from periodic snapshots only
  * @param documentId Document ID
  * @returns Latest snapshot or null if none exists
  */
@@ -195,7 +200,7 @@ export async function getLatestSnapshot(
   const result = await dbPool.query<Snapshot>(
     `SELECT id, document_id, version, snapshot_bytes, created_at 
      FROM doc_snapshots 
-     WHERE document_id = $1 
+     WHERE document_id = $1 AND name IS NULL 
      ORDER BY version DESC 
      LIMIT 1`,
     [documentId]
@@ -245,30 +250,47 @@ export async function getOpsSince(
 
 /**
  * Save a snapshot for a document
+ * The saved draft text is kept with it so the snapshot can be compared with
+ * other versions without decoding the Y.js state.
  * @param documentId Document ID
  * @param version Snapshot version number
  * @param snapshotBytes Y.js encoded snapshot bytes
+ * @param checkpoint Name and author of a checkpoint saved by a user
  * @returns Created snapshot
+ * @throws CHECKPOINT_NAME_TAKEN if the document has a checkpoint by that name
  */
 export async function saveSnapshot(
   documentId: string,
   version: number,
-  snapshotBytes: Buffer
+  snapshotBytes: Buffer,
+  checkpoint?: { name: string; createdBy: string }
 ): Promise<Snapshot | null> {
   const dbPool = await getPool();
   try {
     const result = await dbPool.query<Snapshot>(
-      `INSERT INTO doc_snapshots (document_id, version, snapshot_bytes) 
-       VALUES ($1, $2, $3) 
+      `INSERT INTO doc_snapshots
+         (document_id, version, snapshot_bytes, draft_text, name, created_by) 
+       VALUES ($1, $2, $3, (SELECT draft_text FROM documents WHERE id = $1),
+               $4, $5) 
        ON CONFLICT (document_id, version) DO NOTHING
        RETURNING id, document_id, version, snapshot_bytes, created_at`,
-      [documentId, version, snapshotBytes]
+      [
+        documentId,
+        version,
+        snapshotBytes,
+        checkpoint?.name ?? null,
+        checkpoint?.createdBy ?? null,
+      ]
     );
     // If no row returned, it means the snapshot already exists (race condition)
     return result.rows[0] || null;
   } catch (error: any) {
     // Handle duplicate key error gracefully
     if (error.code === "23505") {
+      // A checkpoint by the same name was saved at the same time
+      if (error.constraint === "idx_doc_snapshots_checkpoint_names") {
+        throw new Error("CHECKPOINT_NAME_TAKEN");
+      }
       // Unique constraint violation - snapshot already exists
       return null;
     }
@@ -281,19 +303,21 @@ export async function saveSnapshot(
  * @param documentId Document ID
  * @param opBytes Y.js operation bytes
  * @param sessionId WebSocket session/connection ID
+ * @param userId User who made the edit
  * @returns Created operation
  */
 export async function saveOp(
   documentId: string,
   opBytes: Buffer,
-  sessionId: string
+  sessionId: string,
+  userId: string | null = null
 ): Promise<DocOp> {
   const dbPool = await getPool();
   const result = await dbPool.query<DocOp>(
-    `INSERT INTO doc_ops (document_id, op_bytes, session_id) 
-     VALUES ($1, $2, $3) 
+    `INSERT INTO doc_ops (document_id, op_bytes, session_id, user_id) 
+     VALUES ($1, $2, $3, $4) 
      RETURNING id, document_id, op_bytes, created_at, session_id`,
-    [documentId, opBytes, sessionId]
+    [documentId, opBytes, sessionId, userId]
   );
   return result.rows[0];
 }
@@ -333,7 +357,7 @@ export async function countOpsSinceLastSnapshot(
        AND created_at > COALESCE(
          (SELECT created_at 
           FROM doc_snapshots 
-          WHERE document_id = $1 
+          WHERE document_id = $1 AND name IS NULL 
           ORDER BY version DESC 
           LIMIT 1),
          '1970-01-01'::timestamp
@@ -383,6 +407,25 @@ export async function checkDocumentAccess(
   return null;
 }
 
+/**
+ * Check if user owns a matter (matters are not shared; access to their
+ * documents goes through document collaborators)
+ * @param matterId Matter ID
+ * @param userId User ID
+ * @returns True if the matter exists and belongs to the user
+ */
+export async function isMatterOwner(
+  matterId: string,
+  userId: string
+): Promise<boolean> {
+  const dbPool = await getPool();
+  const result = await dbPool.query<{ owner_id: string }>(
+    `SELECT owner_id FROM matters WHERE id = $1`,
+    [matterId]
+  );
+  return result.rows[0]?.owner_id === userId;
+}
+
 export interface BasicUserInfo {
   id: string;
   email: string;
@@ -842,3 +885,1268 @@ export async function updateCollaboratorRole(
   );
   return (result.rowCount ?? 0) > 0;
 }
+
+// ============================================================================
+// MEDICAL SPECIALS HELPERS
+// ============================================================================
+
+/**
+ * Get the medical specials ledger rows for one or more source documents
+ * @param documentIds Source document IDs (a document, or every file in its matter)
+ * @returns Items ordered by date of service
+ */
+export async function getSpecialsItems(
+  documentIds: string[]
+): Promise<LedgerItem[]> {
+  const dbPool = await getPool();
+  const result = await dbPool.query(
+    `SELECT id, document_id, origin, provider,
+            to_char(service_date, 'YYYY-MM-DD') AS service_date,
+            code, description, billed, paid, adjusted,
+            source_start, source_end, excluded
+     FROM medical_specials
+     WHERE document_id = ANY($1)
+     ORDER BY service_date ASC NULLS LAST, created_at ASC`,
+    [documentIds]
+  );
+  return result.rows.map((row) => ({
+    id: row.id,
+    documentId: row.document_id,
+    origin: row.origin,
+    provider: row.provider,
+    serviceDate: row.service_date,
+    code: row.code,
+    description: row.description,
+    // NUMERIC columns come back as strings
+    billed: parseFloat(row.billed),
+    paid: parseFloat(row.paid),
+    adjusted: parseFloat(row.adjusted),
+    source:
+      row.source_start === null
+        ? null
+        : { start: row.source_start, end: row.source_end },
+    excluded: row.excluded,
+  }));
+}
+
+/**
+ * Replace a document's parsed line items using a client in an open transaction
+ */
+async function writeParsedSpecials(
+  client: PoolClient,
+  documentId: string,
+  items: SpecialsItem[]
+): Promise<void> {
+  await client.query(
+    `DELETE FROM medical_specials WHERE document_id = $1 AND origin = 'parsed'`,
+    [documentId]
+  );
+  for (const item of items) {
+    await client.query(
+      `INSERT INTO medical_specials
+         (document_id, origin, provider, service_date, code, description,
+          billed, paid, adjusted, source_start, source_end)
+       VALUES ($1, 'parsed', $2, $3, $4, $5, $6, $7, $8, $9, $10)`,
+      [
+        documentId,
+        item.provider,
+        item.serviceDate,
+        item.code,
+        item.description,
+        item.billed,
+        item.paid,
+        item.adjusted,
+        item.source?.start ?? null,
+        item.source?.end ?? null,
+      ]
+    );
+  }
+}
+
+/**
+ * Replace the parsed line items of a document; manual items are kept
+ * @param documentId Source document ID
+ * @param items Line items parsed from the document's extracted text
+ */
+export async function replaceParsedSpecials(
+  documentId: string,
+  items: SpecialsItem[]
+): Promise<void> {
+  const dbPool = await getPool();
+  const client = await dbPool.connect();
+  try {
+    await client.query("BEGIN");
+    await writeParsedSpecials(client, documentId, items);
+    await client.query("COMMIT");
+  } catch (error) {
+    await client.query("ROLLBACK");
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+// ============================================================================
+// EXTRACTION HELPERS
+// ============================================================================
+
+export interface DocumentExtractionWrite {
+  extractedText: string;
+  structure: unknown;
+  piiSpans: unknown;
+  quality: unknown;
+  specials: SpecialsItem[];
+  chunks: Array<{ idx: number; start: number; end: number; summary?: string }>;
+}
+
+export interface ExtractedDocument {
+  id: string;
+  title: string;
+  status: string;
+  matterId: string | null;
+  createdAt: string;
+}
+
+/**
+ * Store a document's extraction in one transaction: text, structure, PII
+ * spans, parsed line items and chunks are replaced together, so a crash part
+ * way through never leaves new text beside the old chunks
+ * Documents re-extracted after drafting keep their draft status; others
+ * become "extracted"
+ * @param documentId Document ID
+ * @param write Extraction results to store
+ * @returns The updated document
+ */
+export async function saveDocumentExtraction(
+  documentId: string,
+  write: DocumentExtractionWrite
+): Promise<ExtractedDocument> {
+  const dbPool = await getPool();
+  const client = await dbPool.connect();
+  try {
+    await client.query("BEGIN");
+    await client.query(
+      `UPDATE documents
+       SET extracted_text = $1, structure = $2, pii_spans = $3,
+           extraction_quality = $4, updated_at = NOW()
+       WHERE id = $5`,
+      [
+        write.extractedText,
+        JSON.stringify(write.structure),
+        JSON.stringify(write.piiSpans),
+        JSON.stringify(write.quality),
+        documentId,
+      ]
+    );
+
+    // Re-ingesting a document replaces its parsed items but keeps those
+    // entered by hand
+    await writeParsedSpecials(client, documentId, write.specials);
+
+    await client.query(`DELETE FROM doc_chunks WHERE document_id = $1`, [
+      documentId,
+    ]);
+    for (const chunk of write.chunks) {
+      await client.query(
+        `INSERT INTO doc_chunks (document_id, idx, start, "end", summary)
+         VALUES ($1, $2, $3, $4, $5)`,
+        [documentId, chunk.idx, chunk.start, chunk.end, chunk.summary || null]
+      );
+    }
+
+    const result = await client.query(
+      `UPDATE documents
+       SET status = CASE WHEN status IN ('draft_generated', 'exported')
+                         THEN status ELSE 'extracted' END,
+           updated_at = NOW()
+       WHERE id = $1
+       RETURNING id, title, status, matter_id, created_at`,
+      [documentId]
+    );
+    if (result.rows.length === 0) {
+      throw new Error("DOCUMENT_NOT_FOUND");
+    }
+    await client.query("COMMIT");
+
+    const row = result.rows[0];
+    return {
+      id: row.id,
+      title: row.title,
+      status: row.status,
+      matterId: row.matter_id,
+      createdAt: row.created_at,
+    };
+  } catch (error) {
+    await client.query("ROLLBACK");
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+// ============================================================================
+// GENERATION RUN HELPERS
+// ============================================================================
+
+export type GenerationOutcome = "succeeded" | "failed" | "cancelled";
+
+/**
+ * A draft generation as recorded in generation_runs
+ */
+export interface GenerationRun {
+  id: string;
+  documentId: string;
+  userId: string;
+  templateId: string | null;
+  templateVersion: string | null; // templates.updated_at when the run started
+  instructions: string | null;
+  documentType: string | null;
+  promptHash: string | null; // SHA-256 of the letter prompt
+  modelId: string;
+  strategy: "single" | "map-reduce" | "merge";
+  chunkCount: number;
+  modelCalls: number;
+  inputTokens: number;
+  outputTokens: number;
+  latencyMs: number;
+  streamed: boolean;
+  outcome: GenerationOutcome;
+  error: string | null;
+  createdAt: string;
+}
+
+/**
+ * Token use and outcomes of one user's generations over a period
+ */
+export interface GenerationUsage {
+  since: string;
+  runCount: number;
+  succeeded: number;
+  failed: number;
+  cancelled: number;
+  modelCalls: number;
+  inputTokens: number;
+  outputTokens: number;
+  averageLatencyMs: number; // of succeeded runs
+  byModel: {
+    modelId: string;
+    runCount: number;
+    inputTokens: number;
+    outputTokens: number;
+  }[];
+  byDay: {
+    date: string; // YYYY-MM-DD
+    runCount: number;
+    inputTokens: number;
+    outputTokens: number;
+  }[];
+}
+
+/**
+ * Record a finished (or failed, or cancelled) generation
+ * @param run Everything but the generated id and timestamp, with the saved
+ *   draft of a successful run (kept as a version of the document)
+ */
+export async function recordGenerationRun(
+  run: Omit<GenerationRun, "id" | "createdAt"> & { draftText: string | null }
+): Promise<void> {
+  const dbPool = await getPool();
+  await dbPool.query(
+    `INSERT INTO generation_runs
+       (document_id, user_id, template_id, template_version, instructions,
+        document_type, prompt_hash, model_id, strategy, chunk_count,
+        model_calls, input_tokens, output_tokens, latency_ms, streamed,
+        outcome, error, draft_text)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15,
+             $16, $17, $18)`,
+    [
+      run.documentId,
+      run.userId,
+      run.templateId,
+      run.templateVersion,
+      run.instructions,
+      run.documentType,
+      run.promptHash,
+      run.modelId,
+      run.strategy,
+      run.chunkCount,
+      run.modelCalls,
+      run.inputTokens,
+      run.outputTokens,
+      run.latencyMs,
+      run.streamed,
+      run.outcome,
+      run.error,
+      run.draftText,
+    ]
+  );
+}
+
+/**
+ * Get the generation runs of a document, newest first
+ * @param documentId Document ID
+ * @param limit Maximum number of runs returned
+ */
+export async function getGenerationRuns(
+  documentId: string,
+  limit: number
+): Promise<GenerationRun[]> {
+  const dbPool = await getPool();
+  const result = await dbPool.query(
+    `SELECT id, document_id, user_id, template_id, template_version,
+            instructions, document_type, prompt_hash, model_id, strategy,
+            chunk_count, model_calls, input_tokens, output_tokens, latency_ms,
+            streamed, outcome, error, created_at
+     FROM generation_runs
+     WHERE document_id = $1
+     ORDER BY created_at DESC
+     LIMIT $2`,
+    [documentId, limit]
+  );
+  return result.rows.map((row) => ({
+    id: row.id,
+    documentId: row.document_id,
+    userId: row.user_id,
+    templateId: row.template_id,
+    templateVersion: row.template_version
+      ? new Date(row.template_version).toISOString()
+      : null,
+    instructions: row.instructions,
+    documentType: row.document_type,
+    promptHash: row.prompt_hash,
+    modelId: row.model_id,
+    strategy: row.strategy,
+    chunkCount: row.chunk_count,
+    modelCalls: row.model_calls,
+    inputTokens: row.input_tokens,
+    outputTokens: row.output_tokens,
+    latencyMs: row.latency_ms,
+    streamed: row.streamed,
+    outcome: row.outcome,
+    error: row.error,
+    createdAt: new Date(row.created_at).toISOString(),
+  }));
+}
+
+/**
+ * Summarize a user's generations since a point in time
+ * @param userId User who requested the generations
+ * @param since Start of the period
+ */
+export async function getGenerationUsage(
+  userId: string,
+  since: Date
+): Promise<GenerationUsage> {
+  const dbPool = await getPool();
+  // SUM and COUNT come back as strings (bigint)
+  const totals = await dbPool.query(
+    `SELECT COUNT(*) AS run_count,
+            COUNT(*) FILTER (WHERE outcome = 'succeeded') AS succeeded,
+            COUNT(*) FILTER (WHERE outcome = 'failed') AS failed,
+            COUNT(*) FILTER (WHERE outcome = 'cancelled') AS cancelled,
+            COALESCE(SUM(model_calls), 0) AS model_calls,
+            COALESCE(SUM(input_tokens), 0) AS input_tokens,
+            COALESCE(SUM(output_tokens), 0) AS output_tokens,
+            COALESCE(ROUND(AVG(latency_ms) FILTER (WHERE outcome = 'succeeded')), 0)
+              AS average_latency_ms
+     FROM generation_runs
+     WHERE user_id = $1 AND created_at >= $2`,
+    [userId, since]
+  );
+  const byModel = await dbPool.query(
+    `SELECT model_id, COUNT(*) AS run_count,
+            SUM(input_tokens) AS input_tokens, SUM(output_tokens) AS output_tokens
+     FROM generation_runs
+     WHERE user_id = $1 AND created_at >= $2
+     GROUP BY model_id
+     ORDER BY model_id`,
+    [userId, since]
+  );
+  const byDay = await dbPool.query(
+    `SELECT to_char(created_at, 'YYYY-MM-DD') AS date, COUNT(*) AS run_count,
+            SUM(input_tokens) AS input_tokens, SUM(output_tokens) AS output_tokens
+     FROM generation_runs
+     WHERE user_id = $1 AND created_at >= $2
+     GROUP BY 1
+     ORDER BY 1`,
+    [userId, since]
+  );
+
+  const row = totals.rows[0];
+  return {
+    since: since.toISOString(),
+    runCount: Number(row.run_count),
+    succeeded: Number(row.succeeded),
+    failed: Number(row.failed),
+    cancelled: Number(row.cancelled),
+    modelCalls: Number(row.model_calls),
+    inputTokens: Number(row.input_tokens),
+    outputTokens: Number(row.output_tokens),
+    averageLatencyMs: Number(row.average_latency_ms),
+    byModel: byModel.rows.map((model) => ({
+      modelId: model.model_id,
+      runCount: Number(model.run_count),
+      inputTokens: Number(model.input_tokens),
+      outputTokens: Number(model.output_tokens),
+    })),
+    byDay: byDay.rows.map((day) => ({
+      date: day.date,
+      runCount: Number(day.run_count),
+      inputTokens: Number(day.input_tokens),
+      outputTokens: Number(day.output_tokens),
+    })),
+  };
+}
+
+// ============================================================================
+// USAGE QUOTA HELPERS
+// ============================================================================
+
+/**
+ * Quota limits stored for a user and their organization
+ */
+export interface QuotaSubject {
+  organizationId: string | null;
+  user: QuotaOverrides;
+  organization: QuotaOverrides | null;
+}
+
+/**
+ * Get the stored quota limits of a user and of their organization
+ * @param userId User ID
+ * @returns null if the user does not exist
+ */
+export async function getQuotaSubject(
+  userId: string
+): Promise<QuotaSubject | null> {
+  const dbPool = await getPool();
+  const result = await dbPool.query(
+    `SELECT u.organization_id, u.requests_per_minute, u.tokens_per_day,
+            u.tokens_per_month,
+            o.requests_per_minute AS org_requests_per_minute,
+            o.tokens_per_day AS org_tokens_per_day,
+            o.tokens_per_month AS org_tokens_per_month
+     FROM users u
+     LEFT JOIN organizations o ON o.id = u.organization_id
+     WHERE u.id = $1`,
+    [userId]
+  );
+  const row = result.rows[0];
+  if (!row) return null;
+
+  return {
+    organizationId: row.organization_id,
+    user: {
+      requestsPerMinute: row.requests_per_minute,
+      tokensPerDay: row.tokens_per_day,
+      tokensPerMonth: row.tokens_per_month,
+    },
+    organization: row.organization_id
+      ? {
+          requestsPerMinute: row.org_requests_per_minute,
+          tokensPerDay: row.org_tokens_per_day,
+          tokensPerMonth: row.org_tokens_per_month,
+        }
+      : null,
+  };
+}
+
+/**
+ * Count the AI tokens (prompt + output) of generations, refinements and
+ * other AI calls by a user, or by every user of an organization
+ * @param scope Whose tokens to count
+ * @param id User or organization ID
+ * @param dayStart Start of the current day
+ * @param monthStart Start of the current month
+ */
+export async function getTokenUsage(
+  scope: "user" | "organization",
+  id: string,
+  dayStart: Date,
+  monthStart: Date
+): Promise<{ dayTokens: number; monthTokens: number }> {
+  const dbPool = await getPool();
+  const users =
+    scope === "user"
+      ? "SELECT $1::uuid"
+      : "SELECT id FROM users WHERE organization_id = $1";
+  // SUM comes back as a string (numeric)
+  const result = await dbPool.query(
+    `SELECT COALESCE(SUM(tokens) FILTER (WHERE created_at >= $2), 0) AS day_tokens,
+            COALESCE(SUM(tokens), 0) AS month_tokens
+     FROM (
+       SELECT input_tokens + output_tokens AS tokens, created_at
+       FROM generation_runs
+       WHERE user_id IN (${users}) AND created_at >= $3
+       UNION ALL
+       SELECT input_tokens + output_tokens AS tokens, created_at
+       FROM refinements
+       WHERE user_id IN (${users}) AND created_at >= $3
+       UNION ALL
+       SELECT input_tokens + output_tokens AS tokens, created_at
+       FROM ai_usage
+       WHERE user_id IN (${users}) AND created_at >= $3
+     ) usage`,
+    [id, dayStart, monthStart]
+  );
+  return {
+    dayTokens: Number(result.rows[0].day_tokens),
+    monthTokens: Number(result.rows[0].month_tokens),
+  };
+}
+
+/**
+ * Model calls counted for a user or organization in a minute
+ * @param windowStart Start of the minute
+ */
+export async function getAiRequestCount(
+  scope: "user" | "organization",
+  id: string,
+  windowStart: Date
+): Promise<number> {
+  const dbPool = await getPool();
+  const result = await dbPool.query(
+    `SELECT requests FROM ai_request_counts
+     WHERE scope = $1 AND subject_id = $2 AND window_start = $3`,
+    [scope, id, windowStart]
+  );
+  return result.rows[0]?.requests ?? 0;
+}
+
+/**
+ * Count model calls against the per-minute limits of users and
+ * organizations, dropping the counts of minutes more than an hour old
+ * @param subjects Whose limits the calls count against
+ * @param windowStart Start of the current minute
+ * @param calls Number of model calls
+ */
+export async function addAiRequests(
+  subjects: { scope: "user" | "organization"; id: string }[],
+  windowStart: Date,
+  calls: number
+): Promise<void> {
+  const dbPool = await getPool();
+  for (const { scope, id } of subjects) {
+    await dbPool.query(
+      `INSERT INTO ai_request_counts (scope, subject_id, window_start, requests)
+       VALUES ($1, $2, $3, $4)
+       ON CONFLICT (scope, subject_id, window_start)
+       DO UPDATE SET requests = ai_request_counts.requests + EXCLUDED.requests`,
+      [scope, id, windowStart, calls]
+    );
+  }
+  await dbPool.query(
+    `DELETE FROM ai_request_counts
+     WHERE window_start < $1::timestamp - INTERVAL '1 hour'`,
+    [windowStart]
+  );
+}
+
+export type AiUsagePurpose = "case_facts" | "export_filename";
+
+/**
+ * Record the tokens of a model call outside generations and refinements,
+ * so they count against token quotas
+ */
+export async function recordAiUsage(
+  userId: string,
+  documentId: string | null,
+  purpose: AiUsagePurpose,
+  inputTokens: number,
+  outputTokens: number
+): Promise<void> {
+  const dbPool = await getPool();
+  await dbPool.query(
+    `INSERT INTO ai_usage
+       (user_id, document_id, purpose, input_tokens, output_tokens)
+     VALUES ($1, $2, $3, $4, $5)`,
+    [userId, documentId, purpose, inputTokens, outputTokens]
+  );
+}
+
+// ============================================================================
+// SUGGESTION HELPERS
+// ============================================================================
+
+/**
+ * A refinement's suggested change with who asked for it and who decided it
+ */
+export interface DraftSuggestion {
+  id: string;
+  documentId: string;
+  refinementId: string;
+  prompt: string; // the refinement request
+  idx: number;
+  start: number; // offsets into the draft the refinement was made on
+  end: number;
+  original: string;
+  replacement: string;
+  status: SuggestionStatus;
+  createdBy: string | null;
+  createdByEmail: string | null;
+  decidedBy: string | null;
+  decidedByEmail: string | null;
+  decidedAt: string | null;
+  createdAt: string;
+}
+
+const SUGGESTION_COLUMNS = `s.id, s.document_id, s.refinement_id, r.prompt, s.idx,
+  s.start_offset, s.end_offset, s.original_text, s.replacement_text, s.status,
+  s.created_by, creator.email AS created_by_email, s.decided_by,
+  decider.email AS decided_by_email, s.decided_at, s.created_at`;
+
+const SUGGESTION_JOINS = `JOIN refinements r ON r.id = s.refinement_id
+  LEFT JOIN users creator ON creator.id = s.created_by
+  LEFT JOIN users decider ON decider.id = s.decided_by`;
+
+function toDraftSuggestion(row: any): DraftSuggestion {
+  return {
+    id: row.id,
+    documentId: row.document_id,
+    refinementId: row.refinement_id,
+    prompt: row.prompt,
+    idx: row.idx,
+    start: row.start_offset,
+    end: row.end_offset,
+    original: row.original_text,
+    replacement: row.replacement_text,
+    status: row.status,
+    createdBy: row.created_by,
+    createdByEmail: row.created_by_email ?? null,
+    decidedBy: row.decided_by,
+    decidedByEmail: row.decided_by_email ?? null,
+    decidedAt: row.decided_at ? new Date(row.decided_at).toISOString() : null,
+    createdAt: new Date(row.created_at).toISOString(),
+  };
+}
+
+/**
+ * Store the suggested changes of a refinement, all pending
+ * @param userId User who asked for the refinement
+ */
+export async function createSuggestions(
+  documentId: string,
+  refinementId: string,
+  userId: string,
+  changes: SuggestedChange[]
+): Promise<void> {
+  const dbPool = await getPool();
+  for (const [idx, change] of changes.entries()) {
+    await dbPool.query(
+      `INSERT INTO draft_suggestions
+         (document_id, refinement_id, idx, start_offset, end_offset,
+          original_text, replacement_text, created_by)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
+      [
+        documentId,
+        refinementId,
+        idx,
+        change.start,
+        change.end,
+        change.original,
+        change.replacement,
+        userId,
+      ]
+    );
+  }
+}
+
+/**
+ * Get a document's suggestions, oldest refinement first
+ * @param status Only suggestions with this status (all when null)
+ */
+export async function getSuggestions(
+  documentId: string,
+  status: SuggestionStatus | null
+): Promise<DraftSuggestion[]> {
+  const dbPool = await getPool();
+  const result = await dbPool.query(
+    `SELECT ${SUGGESTION_COLUMNS}
+     FROM draft_suggestions s
+     ${SUGGESTION_JOINS}
+     WHERE s.document_id = $1 AND ($2::varchar IS NULL OR s.status = $2)
+     ORDER BY s.created_at ASC, s.idx ASC`,
+    [documentId, status]
+  );
+  return result.rows.map(toDraftSuggestion);
+}
+
+/**
+ * Get one of a document's suggestions
+ */
+export async function getSuggestion(
+  documentId: string,
+  suggestionId: string
+): Promise<DraftSuggestion | null> {
+  const dbPool = await getPool();
+  const result = await dbPool.query(
+    `SELECT ${SUGGESTION_COLUMNS}
+     FROM draft_suggestions s
+     ${SUGGESTION_JOINS}
+     WHERE s.id = $1 AND s.document_id = $2`,
+    [suggestionId, documentId]
+  );
+  return result.rows[0] ? toDraftSuggestion(result.rows[0]) : null;
+}
+
+/**
+ * Accept or reject a pending suggestion
+ * @throws Error("SUGGESTION_NOT_FOUND") or Error("SUGGESTION_ACCEPTED" |
+ *   "SUGGESTION_REJECTED") when it was already decided
+ */
+export async function decideSuggestion(
+  documentId: string,
+  suggestionId: string,
+  userId: string,
+  status: Exclude<SuggestionStatus, "pending">
+): Promise<DraftSuggestion> {
+  const dbPool = await getPool();
+  // Only a pending suggestion changes, so concurrent decisions cannot both win
+  const updated = await dbPool.query(
+    `UPDATE draft_suggestions
+     SET status = $1, decided_by = $2, decided_at = NOW()
+     WHERE id = $3 AND document_id = $4 AND status = 'pending'
+     RETURNING id`,
+    [status, userId, suggestionId, documentId]
+  );
+
+  const suggestion = await getSuggestion(documentId, suggestionId);
+  if (!suggestion) {
+    throw new Error("SUGGESTION_NOT_FOUND");
+  }
+  if (updated.rows.length === 0) {
+    throw new Error(`SUGGESTION_${suggestion.status.toUpperCase()}`);
+  }
+  return suggestion;
+}
+
+// ============================================================================
+// VERSION HELPERS
+// ============================================================================
+
+/**
+ * SQL condition that a refinement (the table or its alias) is a version of
+ * the draft: apply-mode refinements are, suggest-mode ones only once every
+ * one of their suggestions is accepted
+ */
+export function refinementIsVersion(alias: string): string {
+  return `(${alias}.mode = 'apply' OR (
+    SELECT bool_and(s.status = 'accepted')
+    FROM draft_suggestions s
+    WHERE s.refinement_id = ${alias}.id
+  ))`;
+}
+
+/**
+ * The text of one version of a document's draft
+ */
+export interface VersionText {
+  kind: VersionKind;
+  id: string | null; // null for the current draft
+  label: string;
+  text: string | null; // null when the version's text was not kept
+  createdAt: string;
+}
+
+/**
+ * Get the draft text of one version of a document
+ * @param id Refinement, generation run, snapshot or branch ID (ignored for
+ *   current)
+ * @returns null if the version does not exist or belongs to another document
+ */
+export async function getVersionText(
+  documentId: string,
+  kind: VersionKind,
+  id: string | null
+): Promise<VersionText | null> {
+  const dbPool = await getPool();
+  let result;
+  switch (kind) {
+    case "current":
+      result = await dbPool.query(
+        `SELECT NULL AS id, 'Current draft' AS label, draft_text AS text,
+                updated_at AS created_at
+         FROM documents
+         WHERE id = $1`,
+        [documentId]
+      );
+      break;
+    case "refinement":
+      result = await dbPool.query(
+        `SELECT id, 'Refinement: ' || prompt AS label, result AS text,
+                created_at
+         FROM refinements
+         WHERE id = $1 AND document_id = $2
+           AND ${refinementIsVersion("refinements")}`,
+        [id, documentId]
+      );
+      break;
+    case "run":
+      result = await dbPool.query(
+        `SELECT id, 'Generated draft' AS label, draft_text AS text, created_at
+         FROM generation_runs
+         WHERE id = $1 AND document_id = $2`,
+        [id, documentId]
+      );
+      break;
+    case "snapshot":
+      result = await dbPool.query(
+        `SELECT id, COALESCE(name, 'Snapshot ' || version) AS label,
+                draft_text AS text, created_at
+         FROM doc_snapshots
+         WHERE id = $1 AND document_id = $2`,
+        [id, documentId]
+      );
+      break;
+    case "branch":
+      result = await dbPool.query(
+        `SELECT id, 'Branch: ' || name AS label, draft_text AS text,
+                updated_at AS created_at
+         FROM draft_branches
+         WHERE id = $1 AND document_id = $2`,
+        [id, documentId]
+      );
+      break;
+  }
+
+  const row = result.rows[0];
+  if (!row) {
+    return null;
+  }
+  return {
+    kind,
+    id: row.id,
+    label: row.label,
+    text: row.text,
+    createdAt: new Date(row.created_at).toISOString(),
+  };
+}
+
+/**
+ * What made a version on a document's timeline
+ */
+export type TimelineEntryType =
+  | "current"
+  | "generation"
+  | "refinement"
+  | "snapshot"
+  | "checkpoint";
+
+export interface TimelineContributor {
+  userId: string;
+  email: string | null;
+}
+
+/**
+ * One version on a document's timeline. kind and id name it as a version
+ * reference; checkpoints are snapshots with a name.
+ */
+export interface TimelineEntry {
+  kind: VersionKind;
+  id: string | null;
+  type: TimelineEntryType;
+  label: string;
+  createdAt: string;
+  contributors: TimelineContributor[];
+  restorable: boolean; // false when the version's text was not kept
+}
+
+/**
+ * Get every version of a document's draft, newest first: the current draft,
+ * AI generations, refinements, periodic collaborative snapshots and named
+ * checkpoints. A snapshot's contributors are the users whose edits came
+ * after the snapshot before it; the current draft's, those since the last
+ * snapshot.
+ * @returns Empty array if the document does not exist
+ */
+export async function getVersionTimeline(
+  documentId: string
+): Promise<TimelineEntry[]> {
+  const dbPool = await getPool();
+  const documentResult = await dbPool.query(
+    `SELECT d.updated_at, d.draft_text IS NOT NULL AS has_text, d.owner_id,
+            u.email
+     FROM documents d
+     LEFT JOIN users u ON u.id = d.owner_id
+     WHERE d.id = $1`,
+    [documentId]
+  );
+  const document = documentResult.rows[0];
+  if (!document) {
+    return [];
+  }
+
+  const [runs, refinements, snapshots, checkpoints, recentEditors] =
+    await Promise.all([
+      dbPool.query(
+        `SELECT r.id, r.created_at, r.draft_text IS NOT NULL AS has_text,
+                r.user_id, u.email
+         FROM generation_runs r
+         LEFT JOIN users u ON u.id = r.user_id
+         WHERE r.document_id = $1 AND r.outcome = 'succeeded'`,
+        [documentId]
+      ),
+      dbPool.query(
+        `SELECT f.id, f.prompt, f.created_at, f.user_id, u.email
+         FROM refinements f
+         LEFT JOIN users u ON u.id = f.user_id
+         WHERE f.document_id = $1 AND ${refinementIsVersion("f")}`,
+        [documentId]
+      ),
+      // One row per snapshot and user who edited since the snapshot before
+      dbPool.query(
+        `WITH periodic AS (
+           SELECT id, version, created_at, draft_text IS NOT NULL AS has_text,
+                  LAG(created_at) OVER (ORDER BY version) AS previous_at
+           FROM doc_snapshots
+           WHERE document_id = $1 AND name IS NULL
+         )
+         SELECT p.id, p.version, p.created_at, p.has_text, c.user_id, c.email
+         FROM periodic p
+         LEFT JOIN LATERAL (
+           SELECT DISTINCT o.user_id, u.email
+           FROM doc_ops o
+           JOIN users u ON u.id = o.user_id
+           WHERE o.document_id = $1
+             AND o.created_at <= p.created_at
+             AND (p.previous_at IS NULL OR o.created_at > p.previous_at)
+         ) c ON TRUE`,
+        [documentId]
+      ),
+      dbPool.query(
+        `SELECT s.id, s.name, s.created_at, s.draft_text IS NOT NULL AS has_text,
+                s.created_by, u.email
+         FROM doc_snapshots s
+         LEFT JOIN users u ON u.id = s.created_by
+         WHERE s.document_id = $1 AND s.name IS NOT NULL`,
+        [documentId]
+      ),
+      dbPool.query(
+        `SELECT DISTINCT o.user_id, u.email
+         FROM doc_ops o
+         JOIN users u ON u.id = o.user_id
+         WHERE o.document_id = $1
+           AND o.created_at > COALESCE(
+             (SELECT MAX(created_at) FROM doc_snapshots
+              WHERE document_id = $1 AND name IS NULL),
+             '-infinity'::timestamp)`,
+        [documentId]
+      ),
+    ]);
+
+  const contributor = (row: any): TimelineContributor[] =>
+    row.user_id ? [{ userId: row.user_id, email: row.email ?? null }] : [];
+
+  const entries: TimelineEntry[] = [
+    {
+      kind: "current",
+      id: null,
+      type: "current",
+      label: "Current draft",
+      createdAt: new Date(document.updated_at).toISOString(),
+      contributors:
+        recentEditors.rows.length > 0
+          ? recentEditors.rows.flatMap(contributor)
+          : contributor({ user_id: document.owner_id, email: document.email }),
+      restorable: false,
+    },
+    ...runs.rows.map(
+      (row): TimelineEntry => ({
+        kind: "run",
+        id: row.id,
+        type: "generation",
+        label: "Generated draft",
+        createdAt: new Date(row.created_at).toISOString(),
+        contributors: contributor(row),
+        restorable: row.has_text,
+      })
+    ),
+    ...refinements.rows.map(
+      (row): TimelineEntry => ({
+        kind: "refinement",
+        id: row.id,
+        type: "refinement",
+        label: `Refinement: ${row.prompt}`,
+        createdAt: new Date(row.created_at).toISOString(),
+        contributors: contributor(row),
+        restorable: true,
+      })
+    ),
+    ...checkpoints.rows.map(
+      (row): TimelineEntry => ({
+        kind: "snapshot",
+        id: row.id,
+        type: "checkpoint",
+        label: row.name,
+        createdAt: new Date(row.created_at).toISOString(),
+        contributors: contributor({ user_id: row.created_by, email: row.email }),
+        restorable: row.has_text,
+      })
+    ),
+  ];
+
+  const snapshotEntries = new Map<string, TimelineEntry>();
+  for (const row of snapshots.rows) {
+    let entry = snapshotEntries.get(row.id);
+    if (!entry) {
+      entry = {
+        kind: "snapshot",
+        id: row.id,
+        type: "snapshot",
+        label: `Snapshot ${row.version}`,
+        createdAt: new Date(row.created_at).toISOString(),
+        contributors: [],
+        restorable: row.has_text,
+      };
+      snapshotEntries.set(row.id, entry);
+    }
+    entry.contributors.push(...contributor(row));
+  }
+  entries.push(...snapshotEntries.values());
+
+  // The current draft stays first even when a version was saved after the
+  // draft was last written
+  return [
+    entries[0],
+    ...entries
+      .slice(1)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt)),
+  ];
+}
+
+/**
+ * A named checkpoint of a document's draft
+ */
+export interface Checkpoint {
+  id: string;
+  version: number;
+  name: string;
+  createdBy: string;
+  createdAt: string;
+}
+
+/**
+ * Save a named checkpoint: the saved draft text and the Y.js state as they
+ * are now, kept in doc_snapshots beside the periodic snapshots. Checkpoints
+ * cannot be changed or deleted afterwards (see migrations 0026 and 0030).
+ * @param stateBytes Y.js encoded document state, as the server holds it
+ * @returns Created checkpoint
+ * @throws CHECKPOINT_NAME_TAKEN if the document has a checkpoint by that name
+ */
+export async function createCheckpoint(
+  documentId: string,
+  userId: string,
+  name: string,
+  stateBytes: Buffer
+): Promise<Checkpoint> {
+  const dbPool = await getPool();
+  const existing = await dbPool.query(
+    `SELECT 1 FROM doc_snapshots WHERE document_id = $1 AND name = $2`,
+    [documentId, name]
+  );
+  if (existing.rows.length > 0) {
+    throw new Error("CHECKPOINT_NAME_TAKEN");
+  }
+
+  // Periodic snapshots take version numbers too; retry when one is saved
+  // between reading the next version and inserting
+  for (let attempt = 0; attempt < 3; attempt++) {
+    const version = await getNextSnapshotVersion(documentId);
+    const snapshot = await saveSnapshot(documentId, version, stateBytes, {
+      name,
+      createdBy: userId,
+    });
+    if (snapshot) {
+      return {
+        id: snapshot.id,
+        version: snapshot.version,
+        name,
+        createdBy: userId,
+        createdAt: new Date(snapshot.created_at).toISOString(),
+      };
+    }
+  }
+  throw new Error("CHECKPOINT_CONFLICT");
+}
+
+// ============================================================================
+// BRANCH HELPERS
+// ============================================================================
+
+/**
+ * A working draft forked from a checkpoint
+ */
+export interface DraftBranch {
+  id: string;
+  documentId: string;
+  name: string;
+  checkpointId: string;
+  checkpointName: string;
+  draftText: string;
+  createdBy: string | null;
+  createdByEmail: string | null;
+  updatedBy: string | null;
+  updatedByEmail: string | null;
+  mergedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+const BRANCH_COLUMNS = `b.id, b.document_id, b.name, b.checkpoint_id,
+  checkpoint.name AS checkpoint_name, b.draft_text, b.created_by,
+  creator.email AS created_by_email, b.updated_by,
+  updater.email AS updated_by_email, b.merged_at, b.created_at, b.updated_at`;
+
+const BRANCH_JOINS = `JOIN doc_snapshots checkpoint ON checkpoint.id = b.checkpoint_id
+  LEFT JOIN users creator ON creator.id = b.created_by
+  LEFT JOIN users updater ON updater.id = b.updated_by`;
+
+function toDraftBranch(row: any): DraftBranch {
+  return {
+    id: row.id,
+    documentId: row.document_id,
+    name: row.name,
+    checkpointId: row.checkpoint_id,
+    checkpointName: row.checkpoint_name,
+    draftText: row.draft_text,
+    createdBy: row.created_by,
+    createdByEmail: row.created_by_email ?? null,
+    updatedBy: row.updated_by,
+    updatedByEmail: row.updated_by_email ?? null,
+    mergedAt: row.merged_at ? new Date(row.merged_at).toISOString() : null,
+    createdAt: new Date(row.created_at).toISOString(),
+    updatedAt: new Date(row.updated_at).toISOString(),
+  };
+}
+
+/**
+ * Get a document's branches, most recently edited first
+ */
+export async function getBranches(documentId: string): Promise<DraftBranch[]> {
+  const dbPool = await getPool();
+  const result = await dbPool.query(
+    `SELECT ${BRANCH_COLUMNS}
+     FROM draft_branches b
+     ${BRANCH_JOINS}
+     WHERE b.document_id = $1
+     ORDER BY b.updated_at DESC`,
+    [documentId]
+  );
+  return result.rows.map(toDraftBranch);
+}
+
+/**
+ * Get one branch of a document
+ * @returns null if the branch does not exist or belongs to another document
+ */
+export async function getBranch(
+  documentId: string,
+  branchId: string
+): Promise<DraftBranch | null> {
+  const dbPool = await getPool();
+  const result = await dbPool.query(
+    `SELECT ${BRANCH_COLUMNS}
+     FROM draft_branches b
+     ${BRANCH_JOINS}
+     WHERE b.document_id = $1 AND b.id = $2`,
+    [documentId, branchId]
+  );
+  return result.rows[0] ? toDraftBranch(result.rows[0]) : null;
+}
+
+/**
+ * Fork a branch from a checkpoint; the branch starts as the checkpoint text
+ * and Y.js state
+ * @returns Created branch
+ * @throws CHECKPOINT_NOT_FOUND unless checkpointId is a checkpoint of the
+ *   document with its text kept
+ * @throws BRANCH_NAME_TAKEN if the document has a branch by that name
+ */
+export async function createBranch(
+  documentId: string,
+  userId: string,
+  name: string,
+  checkpointId: string
+): Promise<DraftBranch> {
+  const dbPool = await getPool();
+  let result;
+  try {
+    result = await dbPool.query<{ id: string }>(
+      `INSERT INTO draft_branches
+         (document_id, name, checkpoint_id, draft_text, state, created_by,
+          updated_by)
+       SELECT $1, $2, s.id, s.draft_text, s.snapshot_bytes, $4, $4
+       FROM doc_snapshots s
+       WHERE s.id = $3 AND s.document_id = $1
+         AND s.name IS NOT NULL AND s.draft_text IS NOT NULL
+       RETURNING id`,
+      [documentId, name, checkpointId, userId]
+    );
+  } catch (error: any) {
+    if (error.code === "23505") {
+      throw new Error("BRANCH_NAME_TAKEN");
+    }
+    throw error;
+  }
+  if (result.rows.length === 0) {
+    throw new Error("CHECKPOINT_NOT_FOUND");
+  }
+  return (await getBranch(documentId, result.rows[0].id))!;
+}
+
+/**
+ * Get the Y.js state of a branch draft
+ * @returns null if the branch does not exist; state is null for branches
+ *   saved before their state was kept
+ */
+export async function getBranchState(
+  documentId: string,
+  branchId: string
+): Promise<{ state: Buffer | null } | null> {
+  const dbPool = await getPool();
+  const result = await dbPool.query<{ state: Buffer | null }>(
+    `SELECT state FROM draft_branches WHERE document_id = $1 AND id = $2`,
+    [documentId, branchId]
+  );
+  return result.rows[0] ?? null;
+}
+
+/**
+ * Save a branch draft and the Y.js state holding it
+ * @returns Updated branch, or null if the branch does not exist
+ */
+export async function updateBranchText(
+  documentId: string,
+  branchId: string,
+  userId: string,
+  draftText: string,
+  state: Buffer
+): Promise<DraftBranch | null> {
+  const dbPool = await getPool();
+  const result = await dbPool.query(
+    `UPDATE draft_branches
+     SET draft_text = $1, state = $2, updated_by = $3, updated_at = NOW()
+     WHERE document_id = $4 AND id = $5`,
+    [draftText, state, userId, documentId, branchId]
+  );
+  if (result.rowCount === 0) {
+    return null;
+  }
+  return getBranch(documentId, branchId);
+}
+
+/**
+ * Record that a branch was merged into another draft
+ */
+export async function markBranchMerged(
+  documentId: string,
+  branchId: string
+): Promise<void> {
+  const dbPool = await getPool();
+  await dbPool.query(
+    `UPDATE draft_branches
+     SET merged_at = NOW()
+     WHERE document_id = $1 AND id = $2`,
+    [documentId, branchId]
+  );
+}
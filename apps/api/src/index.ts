@@ -7,11 +7,21 @@ import authRouter from "./routes/auth";
 import { authenticateToken } from "./middleware/auth";
 import templatesRouter from "./routes/templates";
 import promptsRouter from "./routes/prompts";
+import mattersRouter from "./routes/matters";
+import factsRouter from "./routes/facts";
+import specialsRouter from "./routes/specials";
+import reextractRouter from "./routes/reextract";
+import documentTypesRouter from "./routes/document_types";
+import usageRouter from "./routes/usage";
 import generateRouter from "./routes/generate";
 import refineRouter from "./routes/refine";
+import suggestionsRouter from "./routes/suggestions";
+import versionsRouter from "./routes/versions";
+import branchesRouter from "./routes/branches";
 import exportRouter from "./routes/export";
 import { query } from "./db/pg";
 import { errorHandler } from "./middleware/errors";
+import { isIngestJobEvent, runIngestJob } from "./jobs/ingest_job";
 import { idempotencyMiddleware } from "./middleware/idempotency";
 import presenceRouter from "./routes/presence";
 import {
@@ -130,6 +140,30 @@ app.use("/:stage/templates", templatesRouter);
 app.use("/prompts", promptsRouter);
 app.use("/:stage/prompts", promptsRouter);
 
+// Matter routes (groups of source documents) - handle both with and without stage prefix
+app.use("/matters", mattersRouter);
+app.use("/:stage/matters", mattersRouter);
+
+// Case facts routes (structured fact extraction and review) - handle both with and without stage prefix
+app.use("/documents", factsRouter);
+app.use("/:stage/documents", factsRouter);
+
+// Medical specials routes (billing line item ledger) - handle both with and without stage prefix
+app.use("/documents", specialsRouter);
+app.use("/:stage/documents", specialsRouter);
+
+// Re-extraction routes (extraction options and diff preview) - handle both with and without stage prefix
+app.use("/documents", reextractRouter);
+app.use("/:stage/documents", reextractRouter);
+
+// Document type routes (letter types for generation) - handle both with and without stage prefix
+app.use("/document-types", documentTypesRouter);
+app.use("/:stage/document-types", documentTypesRouter);
+
+// Usage routes (generation token use per user) - handle both with and without stage prefix
+app.use("/usage", usageRouter);
+app.use("/:stage/usage", usageRouter);
+
 // Generate routes (draft generation) - handle both with and without stage prefix
 // Apply idempotency middleware to POST routes
 app.use("/documents", generateRouter);
@@ -142,6 +176,18 @@ app.use("/:stage/ai", refineRouter);
 app.use("/documents", refineRouter);
 app.use("/:stage/documents", refineRouter);
 
+// Suggestion routes (refinements as tracked changes) - handle both with and without stage prefix
+app.use("/documents", suggestionsRouter);
+app.use("/:stage/documents", suggestionsRouter);
+
+// Version routes (word-level diffs between draft versions) - handle both with and without stage prefix
+app.use("/documents", versionsRouter);
+app.use("/:stage/documents", versionsRouter);
+
+// Draft branch routes (working drafts forked from checkpoints) - handle both with and without stage prefix
+app.use("/documents", branchesRouter);
+app.use("/:stage/documents", branchesRouter);
+
 // Presence routes - register before export routes to ensure correct matching
 app.use("/documents", presenceRouter);
 app.use("/:stage/documents", presenceRouter);
@@ -206,7 +252,17 @@ app.post("/:stage/migrate", async (req: Request, res: Response) => {
 // Global error handler - MUST be registered last
 app.use(errorHandler);
 
-export const handler = serverless(app);
+const httpHandler = serverless(app);
+
+// Ingestion jobs re-invoke this function asynchronously with a job event
+// instead of an API Gateway request (see jobs/ingest_job.ts)
+export const handler = async (event: any, context: any) => {
+  if (isIngestJobEvent(event)) {
+    await runIngestJob(event.jobId);
+    return { jobId: event.jobId };
+  }
+  return httpHandler(event, context);
+};
 
 // Local development server (only runs if not in Lambda environment)
 if (process.env.NODE_ENV !== "production" && require.main === module) {
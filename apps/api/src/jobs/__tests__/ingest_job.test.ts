@@ -0,0 +1,80 @@
+/**
+ * Unit tests for ingest_job.ts
+ */
+
+import { getIngestJob, saveExtraction } from "../ingest_job";
+import { query, saveDocumentExtraction } from "../../db/pg";
+import { buildDocumentModel } from "../../lib/document_model";
+import { assessExtraction } from "../../lib/extraction_quality";
+
+jest.mock("../../db/pg");
+
+const mockQuery = query as jest.MockedFunction<typeof query>;
+const mockSaveDocumentExtraction =
+  saveDocumentExtraction as jest.MockedFunction<typeof saveDocumentExtraction>;
+
+describe("ingest_job", () => {
+  const originalEnv = { ...process.env };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockQuery.mockReset();
+  });
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+  });
+
+  describe("getIngestJob", () => {
+    it("should fail the user's jobs that stopped sending heartbeats first", async () => {
+      process.env.INGEST_JOB_STALE_SECONDS = "120";
+      mockQuery
+        .mockResolvedValueOnce({ rows: [], rowCount: 1 } as any)
+        .mockResolvedValueOnce({
+          rows: [{ id: "job-1", phase: "failed" }],
+        } as any);
+
+      const job = await getIngestJob("job-1", "user-1");
+
+      expect(job).toMatchObject({ id: "job-1", phase: "failed" });
+      const [staleSql, staleParams] = mockQuery.mock.calls[0];
+      expect(staleSql).toContain("COALESCE(heartbeat_at, updated_at)");
+      expect(staleSql).toContain("UPDATE documents SET status = 'failed'");
+      expect(staleParams).toEqual(["user-1", expect.any(String), 120]);
+      expect(mockQuery.mock.calls[1][1]).toEqual(["job-1", "user-1"]);
+    });
+  });
+
+  describe("saveExtraction", () => {
+    it("should store text, specials and chunks in one write", async () => {
+      mockSaveDocumentExtraction.mockResolvedValue({
+        id: "doc-1",
+        title: "records",
+        status: "extracted",
+        matterId: null,
+        createdAt: "2024-01-01T00:00:00Z",
+      });
+      const text = "Visit on 01/15/2024 for neck pain.";
+      const structure = buildDocumentModel(text);
+
+      const summary = await saveExtraction("doc-1", {
+        text,
+        ocrPages: [],
+        structure,
+        quality: assessExtraction(text, structure),
+      });
+
+      expect(mockSaveDocumentExtraction).toHaveBeenCalledWith(
+        "doc-1",
+        expect.objectContaining({ extractedText: text, chunks: [] })
+      );
+      expect(mockQuery).not.toHaveBeenCalled();
+      expect(summary).toMatchObject({
+        documentId: "doc-1",
+        status: "extracted",
+        extractedLength: text.length,
+        isChunked: false,
+      });
+    });
+  });
+});
@@ -0,0 +1,535 @@
+/**
+ * Asynchronous ingestion jobs
+ * POST /documents/ingest records a job and returns immediately; the job runs
+ * in a separate asynchronous invocation of the API Lambda (or in-process during
+ * local development) so large files are not bound by the API Gateway timeout.
+ */
+
+import { v4 as uuidv4 } from "uuid";
+import { S3Client, PutObjectCommand } from "@aws-sdk/client-s3";
+import {
+  LambdaClient,
+  InvokeCommand,
+  InvokeCommandInput,
+} from "@aws-sdk/client-lambda";
+import { query, saveDocumentExtraction } from "../db/pg";
+import {
+  downloadObject,
+  extractFromBuffer,
+  ExtractionResult,
+} from "../lib/extract_basic";
+import { chunkText, needsChunking } from "../lib/extract_chunked";
+import { expandZip, ExpandedArchive } from "../lib/extract_archive";
+import {
+  extensionForMimeType,
+  isArchiveMimeType,
+  resolveMimeType,
+} from "../lib/file_types";
+import { retry } from "../lib/retry";
+import { detectPii } from "../lib/pii";
+import { parseBillingItems } from "../lib/specials";
+
+export type IngestPhase =
+  | "queued"
+  | "downloading"
+  | "extracting"
+  | "chunking"
+  | "done"
+  | "failed";
+
+export interface IngestJobRow {
+  id: string;
+  owner_id: string;
+  document_id: string | null;
+  matter_id: string | null;
+  key: string;
+  original_name: string;
+  mime: string;
+  size: number | null;
+  phase: IngestPhase;
+  progress: number;
+  error: string | null;
+  result: Record<string, unknown> | null;
+  created_at: string;
+  updated_at: string;
+  completed_at: string | null;
+  started_at: string | null;
+  heartbeat_at: string | null;
+}
+
+export interface ArchiveEntryResult {
+  path: string;
+  status: "extracted" | "skipped" | "failed";
+  documentId?: string;
+  extractedLength?: number;
+  reason?: string;
+}
+
+// Marks a Lambda event as an ingestion job rather than an HTTP request
+export const INGEST_JOB_EVENT_SOURCE = "stenoai.ingest-job";
+
+// Running jobs touch heartbeat_at this often, even mid-extraction
+const HEARTBEAT_INTERVAL_MS = 30 * 1000;
+
+const s3Client = new S3Client({
+  region: process.env.REGION || "us-east-1",
+});
+
+/**
+ * Check whether a Lambda event is an ingestion job dispatched by dispatchIngestJob
+ */
+export function isIngestJobEvent(
+  event: unknown
+): event is { source: string; jobId: string } {
+  return (
+    typeof event === "object" &&
+    event !== null &&
+    (event as { source?: unknown }).source === INGEST_JOB_EVENT_SOURCE &&
+    typeof (event as { jobId?: unknown }).jobId === "string"
+  );
+}
+
+/**
+ * Seconds without a heartbeat after which a running job is considered dead
+ * (its Lambda crashed or timed out); must exceed HEARTBEAT_INTERVAL_MS
+ */
+export function getIngestJobStaleSeconds(): number {
+  const value = parseInt(process.env.INGEST_JOB_STALE_SECONDS || "", 10);
+  return Number.isFinite(value) && value > 0 ? value : 300;
+}
+
+/**
+ * Derive a document title from a file name (extension removed)
+ * Truncated to 255 chars to match database VARCHAR(255) constraint
+ */
+export function titleFromFileName(fileName: string): string {
+  return fileName.replace(/\.[^/.]+$/, "").substring(0, 255);
+}
+
+/**
+ * Record an ingestion job for an uploaded file
+ * Single files get their document row up front (status "uploaded") so the
+ * client can link to it while extraction runs; archives create documents
+ * per entry as the job runs.
+ * @returns Job ID and the placeholder document ID (null for archives)
+ */
+export async function createIngestJob(params: {
+  userId: string;
+  key: string;
+  originalName: string;
+  mime: string;
+  size: number;
+  matterId: string | null;
+}): Promise<{ jobId: string; documentId: string | null }> {
+  const { userId, key, originalName, mime, size, matterId } = params;
+  let documentId: string | null = null;
+
+  if (!isArchiveMimeType(resolveMimeType(mime, originalName))) {
+    documentId = uuidv4();
+    await query(
+      `INSERT INTO documents (id, owner_id, key, title, status, matter_id, created_at, updated_at)
+       VALUES ($1, $2, $3, $4, $5, $6, NOW(), NOW())`,
+      [documentId, userId, key, titleFromFileName(originalName), "uploaded", matterId]
+    );
+  }
+
+  const result = await query(
+    `INSERT INTO ingest_jobs (owner_id, document_id, matter_id, key, original_name, mime, size, phase, progress)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, 'queued', 0)
+     RETURNING id`,
+    [userId, documentId, matterId, key, originalName, mime, size]
+  );
+
+  return { jobId: result.rows[0].id as string, documentId };
+}
+
+/**
+ * Start a recorded job without waiting for it
+ * On Lambda the API function invokes itself asynchronously; elsewhere the
+ * job runs in-process after the current request completes.
+ */
+export async function dispatchIngestJob(jobId: string): Promise<void> {
+  const functionName =
+    process.env.INGEST_FUNCTION_NAME || process.env.AWS_LAMBDA_FUNCTION_NAME;
+
+  if (!functionName) {
+    setImmediate(() => {
+      runIngestJob(jobId).catch((error) =>
+        console.error(`Ingest job ${jobId} crashed:`, error)
+      );
+    });
+    return;
+  }
+
+  const lambdaClient = new LambdaClient({
+    region: process.env.REGION || "us-east-1",
+  });
+  const invokeParams: InvokeCommandInput = {
+    FunctionName: functionName,
+    InvocationType: "Event",
+    Payload: JSON.stringify({ source: INGEST_JOB_EVENT_SOURCE, jobId }),
+  };
+
+  try {
+    await retry(() => lambdaClient.send(new InvokeCommand(invokeParams)), {
+      maxAttempts: 3,
+    });
+  } catch (error: any) {
+    // Don't leave a job queued forever if it could not be started
+    await query(
+      `UPDATE ingest_jobs
+       SET phase = 'failed', progress = 100, error = $1, updated_at = NOW(), completed_at = NOW()
+       WHERE id = $2`,
+      [`Failed to start ingestion: ${error.message}`, jobId]
+    );
+    await query(
+      `UPDATE documents SET status = 'failed', updated_at = NOW()
+       WHERE id = (SELECT document_id FROM ingest_jobs WHERE id = $1)`,
+      [jobId]
+    );
+    throw error;
+  }
+}
+
+/**
+ * Mark the user's running jobs that stopped sending heartbeats as failed,
+ * along with their documents
+ * A Lambda that crashes or times out never records its own failure, and a
+ * retried invocation cannot claim a job that is no longer queued.
+ */
+export async function failStaleIngestJobs(userId: string): Promise<void> {
+  await query(
+    `WITH stale AS (
+       UPDATE ingest_jobs
+       SET phase = 'failed', progress = 100, error = $2,
+           updated_at = NOW(), completed_at = NOW()
+       WHERE owner_id = $1
+         AND phase IN ('downloading', 'extracting', 'chunking')
+         AND COALESCE(heartbeat_at, updated_at) < NOW() - make_interval(secs => $3)
+       RETURNING document_id
+     )
+     UPDATE documents SET status = 'failed', updated_at = NOW()
+     WHERE id IN (SELECT document_id FROM stale)`,
+    [
+      userId,
+      "Ingestion stopped responding. Please upload the file again.",
+      getIngestJobStaleSeconds(),
+    ]
+  );
+}
+
+/**
+ * Fetch a job visible to the given user
+ * Jobs whose worker died are failed first so pollers never wait forever
+ */
+export async function getIngestJob(
+  jobId: string,
+  userId: string
+): Promise<IngestJobRow | null> {
+  await failStaleIngestJobs(userId);
+
+  const result = await query(
+    `SELECT id, owner_id, document_id, matter_id, key, original_name, mime, size,
+            phase, progress, error, result, created_at, updated_at, completed_at,
+            started_at, heartbeat_at
+       FROM ingest_jobs
+       WHERE id = $1 AND owner_id = $2`,
+    [jobId, userId]
+  );
+  return (result.rows[0] as IngestJobRow) ?? null;
+}
+
+/**
+ * Move a job (and its document, if any) to a new phase
+ * Documents mirror the job phase, except that "done" means "extracted"
+ */
+async function setPhase(
+  job: IngestJobRow,
+  phase: IngestPhase,
+  progress: number,
+  extra: { error?: string; result?: Record<string, unknown> } = {}
+): Promise<void> {
+  const finished = phase === "done" || phase === "failed";
+  await query(
+    `UPDATE ingest_jobs
+     SET phase = $1, progress = $2, error = $3, result = $4, updated_at = NOW(),
+         heartbeat_at = NOW(),
+         completed_at = CASE WHEN $5 THEN NOW() ELSE completed_at END
+     WHERE id = $6`,
+    [
+      phase,
+      Math.round(progress),
+      extra.error ?? null,
+      extra.result ? JSON.stringify(extra.result) : null,
+      finished,
+      job.id,
+    ]
+  );
+
+  if (job.document_id) {
+    await query(
+      `UPDATE documents SET status = $1, updated_at = NOW() WHERE id = $2`,
+      [phase === "done" ? "extracted" : phase, job.document_id]
+    );
+  }
+}
+
+/**
+ * Save extracted text and structure on a document and create its chunks
+ * Existing chunks are replaced so a re-run job (or an applied re-extraction)
+ * does not duplicate them; everything is written in one transaction
+ * @param title - Document title, the provider of bill items when the bill
+ *   names none
+ * @returns Summary fields for the job result
+ */
+export async function saveExtraction(
+  documentId: string,
+  extraction: ExtractionResult,
+  title?: string
+) {
+  const extractedText = extraction.text;
+
+  // Check if document needs chunking
+  const isChunked = needsChunking(extractedText);
+
+  // Spans are recorded for review; the document's redaction policy applies
+  // them when the text is sent to the model or exported
+  const piiSpans = detectPii(extractedText);
+
+  // Billing line items feed the medical specials ledger
+  const specials = parseBillingItems(extractedText, title || documentId);
+
+  // Split on page/heading/block boundaries from the structured model
+  const chunks = isChunked
+    ? chunkText(extractedText, undefined, undefined, extraction.structure)
+    : [];
+
+  // Only marked extracted once the chunks generation relies on exist;
+  // documents re-extracted after drafting keep their draft status
+  const document = await saveDocumentExtraction(documentId, {
+    extractedText,
+    structure: extraction.structure,
+    piiSpans,
+    quality: extraction.quality,
+    specials,
+    chunks,
+  });
+
+  return {
+    documentId: document.id,
+    title: document.title,
+    status: document.status,
+    extractedLength: extractedText.length,
+    isChunked,
+    ...(isChunked && { chunkCount: chunks.length }),
+    ocrPages: extraction.ocrPages,
+    pageCount: extraction.structure.pages.length,
+    piiCount: piiSpans.length,
+    specialsCount: specials.length,
+    quality: extraction.quality,
+    ...(extraction.email && { email: extraction.email }),
+    matterId: document.matterId,
+    createdAt: document.createdAt,
+  };
+}
+
+/**
+ * Extract every supported file in an expanded archive into its own document
+ * Each entry is stored as its own S3 object so it can be downloaded later.
+ * Documents are grouped into the job's matter, or a new matter named after
+ * the archive once the first entry extracts successfully.
+ */
+async function ingestArchiveEntries(
+  job: IngestJobRow,
+  archive: ExpandedArchive,
+  uploadBucket: string
+) {
+  const entries: ArchiveEntryResult[] = archive.skipped.map((entry) => ({
+    path: entry.path,
+    status: "skipped",
+    reason: entry.reason,
+  }));
+  const documents: Awaited<ReturnType<typeof saveExtraction>>[] = [];
+  let matterId = job.matter_id;
+
+  for (const [index, file] of archive.files.entries()) {
+    // Extraction spans 20-95% of the job, split evenly across entries
+    await setPhase(job, "extracting", 20 + (75 * index) / archive.files.length);
+
+    let extraction: ExtractionResult;
+    try {
+      extraction = await extractFromBuffer(
+        file.content,
+        file.mimeType,
+        file.path
+      );
+    } catch (extractError: any) {
+      console.error(`Text extraction failed for ${file.path}:`, extractError);
+      entries.push({
+        path: file.path,
+        status: "failed",
+        reason: extractError.message,
+      });
+      continue;
+    }
+
+    if (!matterId) {
+      const matterResult = await query(
+        `INSERT INTO matters (owner_id, title) VALUES ($1, $2) RETURNING id`,
+        [job.owner_id, titleFromFileName(job.original_name)]
+      );
+      matterId = matterResult.rows[0].id as string;
+      await query(`UPDATE ingest_jobs SET matter_id = $1 WHERE id = $2`, [
+        matterId,
+        job.id,
+      ]);
+    }
+
+    const entryKey = `uploads/${uuidv4()}.${extensionForMimeType(
+      file.mimeType
+    )}`;
+    await retry(
+      () =>
+        s3Client.send(
+          new PutObjectCommand({
+            Bucket: uploadBucket,
+            Key: entryKey,
+            Body: file.content,
+            ContentType: file.mimeType,
+          })
+        ),
+      { maxAttempts: 3 }
+    );
+
+    const documentId = uuidv4();
+    await query(
+      `INSERT INTO documents (id, owner_id, key, title, status, matter_id, created_at, updated_at)
+       VALUES ($1, $2, $3, $4, $5, $6, NOW(), NOW())`,
+      [
+        documentId,
+        job.owner_id,
+        entryKey,
+        titleFromFileName(file.fileName),
+        "chunking",
+        matterId,
+      ]
+    );
+
+    const stored = await saveExtraction(
+      documentId,
+      extraction,
+      titleFromFileName(file.fileName)
+    );
+    documents.push(stored);
+    entries.push({
+      path: file.path,
+      status: "extracted",
+      documentId: stored.documentId,
+      extractedLength: stored.extractedLength,
+    });
+  }
+
+  return { matterId, documents, entries };
+}
+
+/**
+ * Run an ingestion job to completion, recording failures on the job
+ * Never throws for extraction errors: asynchronous Lambda invocations are
+ * retried on error, and a failed extraction will not succeed on retry.
+ */
+export async function runIngestJob(jobId: string): Promise<void> {
+  // Claim the job so a duplicate invocation does not run it twice
+  const claimed = await query(
+    `UPDATE ingest_jobs
+     SET phase = 'downloading', progress = 5, updated_at = NOW(),
+         started_at = NOW(), heartbeat_at = NOW()
+     WHERE id = $1 AND phase = 'queued'
+     RETURNING id, owner_id, document_id, matter_id, key, original_name, mime, size,
+               phase, progress, error, result, created_at, updated_at, completed_at,
+               started_at, heartbeat_at`,
+    [jobId]
+  );
+
+  if (claimed.rows.length === 0) {
+    console.warn(`Ingest job ${jobId} not found or already started`);
+    return;
+  }
+
+  const job = claimed.rows[0] as IngestJobRow;
+  console.log(`Running ingest job ${job.id} for ${job.key}`);
+
+  // Long extractions (OCR, large archives) stay in one phase for minutes;
+  // the heartbeat tells pollers the worker is still alive
+  const heartbeat = setInterval(() => {
+    query(`UPDATE ingest_jobs SET heartbeat_at = NOW() WHERE id = $1`, [
+      job.id,
+    ]).catch((error) =>
+      console.warn(`Failed to record heartbeat for job ${job.id}:`, error)
+    );
+  }, HEARTBEAT_INTERVAL_MS);
+
+  try {
+    const uploadBucket = process.env.S3_UPLOAD_BUCKET;
+    if (!uploadBucket) {
+      throw new Error("Server configuration error: S3_UPLOAD_BUCKET not configured");
+    }
+
+    await setPhase(job, "downloading", 5);
+    const buffer = await downloadObject(uploadBucket, job.key);
+
+    // Browsers often send .msg/.eml/.zip as application/octet-stream
+    const mimeType = resolveMimeType(job.mime, job.original_name);
+
+    if (isArchiveMimeType(mimeType)) {
+      await setPhase(job, "extracting", 15);
+      const archive = await expandZip(buffer);
+      const result = await ingestArchiveEntries(job, archive, uploadBucket);
+
+      if (result.documents.length === 0) {
+        await setPhase(job, "failed", 100, {
+          error: "No supported files in the archive could be extracted",
+          result: { archive: true, entries: result.entries },
+        });
+        return;
+      }
+
+      await setPhase(job, "done", 100, {
+        result: {
+          archive: true,
+          documentId: result.documents[0].documentId,
+          matterId: result.matterId,
+          documents: result.documents,
+          entries: result.entries,
+        },
+      });
+      return;
+    }
+
+    if (!job.document_id) {
+      throw new Error("Ingest job has no document");
+    }
+
+    // Extract text from file (scanned PDF pages are OCR'd locally)
+    await setPhase(job, "extracting", 20);
+    const extraction = await extractFromBuffer(buffer, mimeType, job.key);
+
+    await setPhase(job, "chunking", 80);
+    const summary = await saveExtraction(
+      job.document_id,
+      extraction,
+      titleFromFileName(job.original_name)
+    );
+
+    await setPhase(job, "done", 100, { result: summary });
+    console.log(`Ingest job ${job.id} completed`);
+  } catch (error: any) {
+    console.error(`Ingest job ${job.id} failed:`, error);
+    await setPhase(job, "failed", 100, {
+      error: error.message || "Unknown error",
+    }).catch((updateError) =>
+      console.error(`Failed to record failure for job ${job.id}:`, updateError)
+    );
+  } finally {
+    clearInterval(heartbeat);
+  }
+}
@@ -0,0 +1,245 @@
+/**
+ * Unit tests for ai_client.ts
+ */
+
+import axios from "axios";
+import { LambdaClient } from "@aws-sdk/client-lambda";
+import {
+  AiProvider,
+  createHttpProvider,
+  createLambdaProvider,
+  createStubProvider,
+  invokeAiModel,
+  providerFromEnv,
+  setAiProvider,
+  streamAiModel,
+} from "../ai_client";
+
+jest.mock("axios");
+
+const mockAxios = axios as jest.Mocked<typeof axios>;
+
+describe("providerFromEnv", () => {
+  const originalEnv = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+  });
+
+  it("should default to the Lambda provider", () => {
+    delete process.env.AI_PROVIDER;
+    expect(providerFromEnv().name).toBe("lambda");
+  });
+
+  it("should select the stub and HTTP providers", () => {
+    process.env.AI_PROVIDER = "stub";
+    expect(providerFromEnv().name).toBe("stub");
+
+    process.env.AI_PROVIDER = "http";
+    process.env.AI_HTTP_URL = "http://localhost:8000/generate";
+    expect(providerFromEnv().name).toBe("http");
+  });
+
+  it("should reject unknown providers and HTTP without a URL", () => {
+    process.env.AI_PROVIDER = "openai";
+    expect(() => providerFromEnv()).toThrow('Unknown AI_PROVIDER "openai"');
+
+    process.env.AI_PROVIDER = "http";
+    delete process.env.AI_HTTP_URL;
+    expect(() => providerFromEnv()).toThrow("AI_HTTP_URL not configured");
+  });
+});
+
+describe("createStubProvider", () => {
+  const stub = createStubProvider();
+
+  it("should answer the same prompt the same way", async () => {
+    const first = await stub.generate("Draft a demand letter", 1000);
+    expect(await stub.generate("Draft a demand letter", 1000)).toBe(first);
+    expect(await stub.generate("Draft a reply letter", 1000)).not.toBe(first);
+  });
+
+  it("should return parseable answers for JSON and filename prompts", async () => {
+    expect(
+      await stub.generate("Return ONLY a JSON object with exactly these keys", 1000)
+    ).toBe("{}");
+    expect(
+      await stub.generate("Generate only the filename (no extension):", 1000)
+    ).toBe("Stub_Draft");
+  });
+});
+
+describe("createHttpProvider", () => {
+  it("should post the prompt and return the text", async () => {
+    mockAxios.post.mockResolvedValue({ data: { text: "Dear Sir" } });
+    const provider = createHttpProvider("http://localhost:8000/generate", "key");
+
+    expect(await provider.generate("Write a letter", 5000)).toBe("Dear Sir");
+    expect(mockAxios.post).toHaveBeenCalledWith(
+      "http://localhost:8000/generate",
+      { prompt: "Write a letter" },
+      expect.objectContaining({
+        timeout: 5000,
+        headers: expect.objectContaining({ authorization: "Bearer key" }),
+      })
+    );
+  });
+});
+
+describe("createLambdaProvider", () => {
+  const encoder = new TextEncoder();
+  let send: jest.SpyInstance;
+
+  /**
+   * Answer the next invocation with a response stream of these chunks
+   */
+  function mockStream(chunks: (string | Uint8Array)[]) {
+    send.mockResolvedValueOnce({
+      EventStream: (async function* () {
+        for (const chunk of chunks) {
+          yield {
+            PayloadChunk: {
+              Payload: typeof chunk === "string" ? encoder.encode(chunk) : chunk,
+            },
+          };
+        }
+        yield { InvokeComplete: {} };
+      })(),
+    });
+  }
+
+  const prelude = (statusCode: number) =>
+    Buffer.concat([
+      Buffer.from(JSON.stringify({ statusCode, headers: {} })),
+      Buffer.alloc(8),
+    ]);
+
+  beforeEach(() => {
+    send = jest.spyOn(LambdaClient.prototype, "send");
+  });
+
+  afterEach(() => {
+    send.mockRestore();
+  });
+
+  it("should report streamed text as each chunk arrives", async () => {
+    mockStream([Buffer.concat([prelude(200), Buffer.from("Dear ")]), "Sir,", " thanks"]);
+    const pieces: string[] = [];
+
+    const text = await createLambdaProvider("ai-fn").stream!(
+      "Draft",
+      1000,
+      (piece) => pieces.push(piece)
+    );
+
+    expect(text).toBe("Dear Sir, thanks");
+    expect(pieces).toEqual(["Dear ", "Sir,", " thanks"]);
+    const command = send.mock.calls[0][0];
+    expect(command.input.FunctionName).toBe("ai-fn");
+    expect(JSON.parse(command.input.Payload).rawPath).toBe("/generate/stream");
+  });
+
+  it("should report a buffered response at once", async () => {
+    const envelope = JSON.stringify({ statusCode: 200, body: "Dear Sir" });
+    mockStream([envelope.slice(0, 10), envelope.slice(10)]);
+    const pieces: string[] = [];
+
+    const text = await createLambdaProvider("ai-fn").stream!(
+      "Draft",
+      1000,
+      (piece) => pieces.push(piece)
+    );
+
+    expect(text).toBe("Dear Sir");
+    expect(pieces).toEqual(["Dear Sir"]);
+  });
+
+  it("should fail on an error status without reporting its body", async () => {
+    mockStream([prelude(500), "Internal error"]);
+    const onText = jest.fn();
+
+    await expect(
+      createLambdaProvider("ai-fn").stream!("Draft", 1000, onText)
+    ).rejects.toThrow("AI Lambda returned error: 500 - Internal error");
+    expect(onText).not.toHaveBeenCalled();
+  });
+
+  it("should read buffered and streamed /generate responses", async () => {
+    send
+      .mockResolvedValueOnce({
+        Payload: encoder.encode(
+          JSON.stringify({ statusCode: 200, body: '{"text":"Buffered"}' })
+        ),
+      })
+      .mockResolvedValueOnce({
+        Payload: Buffer.concat([prelude(200), Buffer.from('{"text":"Streamed"}')]),
+      });
+    const provider = createLambdaProvider("ai-fn");
+
+    expect(await provider.generate("Draft", 1000)).toBe("Buffered");
+    expect(await provider.generate("Draft", 1000)).toBe("Streamed");
+  });
+});
+
+describe("invokeAiModel", () => {
+  afterEach(() => {
+    setAiProvider(null);
+  });
+
+  it("should retry transient provider failures", async () => {
+    const generate = jest
+      .fn<Promise<string>, [string, number, AbortSignal?]>()
+      .mockRejectedValueOnce(Object.assign(new Error("busy"), { code: "ThrottlingException" }))
+      .mockResolvedValueOnce("Draft text");
+    const provider: AiProvider = { name: "stub", generate };
+    setAiProvider(provider);
+
+    await expect(invokeAiModel("Prompt", { timeoutMs: 2000 })).resolves.toBe(
+      "Draft text"
+    );
+    expect(generate).toHaveBeenCalledTimes(2);
+    expect(generate).toHaveBeenCalledWith("Prompt", 2000, undefined);
+  });
+});
+
+describe("streamAiModel", () => {
+  afterEach(() => {
+    setAiProvider(null);
+  });
+
+  it("should report the stub's answer piece by piece", async () => {
+    setAiProvider(createStubProvider(() => "One two three"));
+    const pieces: string[] = [];
+
+    await expect(
+      streamAiModel("Prompt", (text) => pieces.push(text))
+    ).resolves.toBe("One two three");
+    expect(pieces).toEqual(["One ", "two ", "three"]);
+  });
+
+  it("should stop when aborted", async () => {
+    setAiProvider(createStubProvider(() => "One two three"));
+    const controller = new AbortController();
+    const pieces: string[] = [];
+
+    await expect(
+      streamAiModel(
+        "Prompt",
+        (text) => {
+          pieces.push(text);
+          controller.abort();
+        },
+        { signal: controller.signal }
+      )
+    ).rejects.toThrow();
+    expect(pieces).toEqual(["One "]);
+  });
+
+  it("should report whole responses from providers that cannot stream", async () => {
+    setAiProvider({ name: "lambda", generate: async () => "Full draft" });
+    const pieces: string[] = [];
+
+    await streamAiModel("Prompt", (text) => pieces.push(text));
+    expect(pieces).toEqual(["Full draft"]);
+  });
+});
@@ -0,0 +1,170 @@
+/**
+ * Unit tests for case_facts.ts
+ */
+
+import {
+  emptyCaseFacts,
+  formatCaseFacts,
+  locateQuote,
+  mergeCaseFacts,
+  normalizeCaseFacts,
+  parseFactsResponse,
+} from "../case_facts";
+
+const SOURCE = `On January 15, 2024 our client Jane Doe was rear-ended by
+John Smith. Mr. Smith is insured by Acme Insurance.
+City Clinic   ER visit 01/16/2024   $450.00`;
+
+const RESPONSE = `\`\`\`json
+{
+  "claimant": {"value": "Jane Doe", "quote": "our client Jane Doe"},
+  "defendant": {"value": "John Smith", "quote": "rear-ended by John Smith"},
+  "insurer": {"value": "Acme Insurance", "quote": "insured by Acme Insurance"},
+  "incidentDate": {"value": "2024-01-15", "quote": "January 15, 2024"},
+  "injuries": [{"value": "Whiplash", "quote": "not in the source"}],
+  "treatmentProviders": [{"value": "City Clinic", "quote": "City Clinic"}],
+  "medicalSpecials": [
+    {"provider": "City Clinic", "date": "2024-01-16", "description": "ER visit", "amount": "$450.00", "quote": "City Clinic ER visit"}
+  ],
+  "lostWages": []
+}
+\`\`\``;
+
+describe("case_facts", () => {
+  describe("locateQuote", () => {
+    it("should find exact and whitespace-insensitive matches", () => {
+      expect(locateQuote(SOURCE, "Jane Doe")).toEqual({
+        start: SOURCE.indexOf("Jane Doe"),
+        end: SOURCE.indexOf("Jane Doe") + 8,
+      });
+
+      const span = locateQuote(SOURCE, "rear-ended by john smith");
+      expect(span).not.toBeNull();
+      expect(SOURCE.slice(span!.start, span!.end)).toBe(
+        "rear-ended by\nJohn Smith"
+      );
+    });
+
+    it("should return null for quotes that are not in the text", () => {
+      expect(locateQuote(SOURCE, "Broken arm")).toBeNull();
+    });
+  });
+
+  describe("parseFactsResponse", () => {
+    it("should parse facts and attach source spans", () => {
+      const facts = parseFactsResponse(RESPONSE, {
+        documentId: "doc-1",
+        text: SOURCE,
+        offset: 100,
+      });
+
+      expect(facts.claimant?.value).toBe("Jane Doe");
+      expect(facts.claimant?.source).toEqual({
+        documentId: "doc-1",
+        start: 100 + SOURCE.indexOf("our client Jane Doe"),
+        end: 100 + SOURCE.indexOf("our client Jane Doe") + 19,
+        quote: "our client Jane Doe",
+      });
+      expect(facts.injuries).toEqual([{ value: "Whiplash", source: null }]);
+      expect(facts.medicalSpecials[0]).toMatchObject({
+        provider: "City Clinic",
+        date: "2024-01-16",
+        amount: 450,
+      });
+      expect(facts.medicalSpecials[0].source?.quote).toBe(
+        "City Clinic   ER visit"
+      );
+    });
+
+    it("should restore placeholder tokens before locating quotes", () => {
+      const facts = parseFactsResponse(
+        '{"claimant": {"value": "Jane Doe", "quote": "our client [NAME_1]"}}',
+        { documentId: "doc-1", text: SOURCE, offset: 0 },
+        (text) => text.replace("[NAME_1]", "Jane Doe")
+      );
+      expect(facts.claimant?.source?.quote).toBe("our client Jane Doe");
+    });
+
+    it("should reject responses without JSON", () => {
+      expect(() =>
+        parseFactsResponse("I could not find any facts.", {
+          documentId: "doc-1",
+          text: SOURCE,
+          offset: 0,
+        })
+      ).toThrow("invalid JSON");
+    });
+  });
+
+  describe("mergeCaseFacts", () => {
+    it("should keep the first single value and de-duplicate lists", () => {
+      const first = {
+        ...emptyCaseFacts(),
+        claimant: { value: "Jane Doe", source: null },
+        medicalSpecials: [
+          { provider: "City Clinic", date: "2024-01-16", description: "ER", amount: 450, source: null },
+        ],
+      };
+      const second = {
+        ...emptyCaseFacts(),
+        claimant: { value: "J. Doe", source: null },
+        insurer: { value: "Acme Insurance", source: null },
+        medicalSpecials: [
+          { provider: "city clinic", date: "2024-01-16", description: "ER visit", amount: 450, source: null },
+          { provider: "Physio Plus", date: null, description: "PT", amount: 1200, source: null },
+        ],
+      };
+
+      const merged = mergeCaseFacts(first, second);
+
+      expect(merged.claimant?.value).toBe("Jane Doe");
+      expect(merged.insurer?.value).toBe("Acme Insurance");
+      expect(merged.medicalSpecials.map((s) => s.provider)).toEqual([
+        "City Clinic",
+        "Physio Plus",
+      ]);
+    });
+  });
+
+  describe("normalizeCaseFacts", () => {
+    it("should accept edited facts and drop malformed sources", () => {
+      const facts = normalizeCaseFacts({
+        claimant: { value: " Jane Doe ", source: { documentId: "doc-1", start: "x" } },
+        injuries: [{ value: "Whiplash" }, { value: "" }],
+        lostWages: [{ description: "Two weeks missed", amount: "1,500" }],
+      });
+
+      expect(facts).toEqual({
+        ...emptyCaseFacts(),
+        claimant: { value: "Jane Doe", source: null },
+        injuries: [{ value: "Whiplash", source: null }],
+        lostWages: [
+          { description: "Two weeks missed", amount: 1500, source: null },
+        ],
+      });
+    });
+
+    it("should reject invalid shapes and amounts", () => {
+      expect(normalizeCaseFacts("facts")).toBeNull();
+      expect(normalizeCaseFacts({ injuries: "Whiplash" })).toBeNull();
+      expect(
+        normalizeCaseFacts({ medicalSpecials: [{ provider: "Clinic", amount: "n/a" }] })
+      ).toBeNull();
+    });
+  });
+
+  describe("formatCaseFacts", () => {
+    it("should list lost wages with a total", () => {
+      const text = formatCaseFacts({
+        ...emptyCaseFacts(),
+        lostWages: [
+          { description: "Missed shifts", amount: 800, source: null },
+          { description: "Overtime", amount: 200.5, source: null },
+        ],
+      });
+      expect(text).toBe(
+        "Lost wages:\n- Missed shifts — $800.00\n- Overtime — $200.50\nTotal lost wages: $1,000.50"
+      );
+    });
+  });
+});
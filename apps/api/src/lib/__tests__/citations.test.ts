@@ -0,0 +1,129 @@
+/**
+ * Unit tests for citations.ts
+ */
+
+import { groundDraft, splitSentences } from "../citations";
+import { emptyCaseFacts } from "../case_facts";
+import { buildLedger } from "../specials";
+
+const RECORDS =
+  "Patient seen at City Hospital on 03/05/2024 after a rear-end collision. " +
+  "Diagnosis: cervical strain with radiating neck pain. Charges: 1,250.00.";
+
+const source = { documentId: "doc-1", label: "records.pdf", text: RECORDS };
+
+describe("citations", () => {
+  describe("splitSentences", () => {
+    it("should split on full stops and line breaks but not abbreviations", () => {
+      const text = "Dear Mr. Smith:\nOn Mar. 5, 2024 Dr. Lee saw her. She paid $1,250.00. Thanks!";
+
+      expect(splitSentences(text).map((sentence) => sentence.text)).toEqual([
+        "Dear Mr. Smith:",
+        "On Mar. 5, 2024 Dr. Lee saw her.",
+        "She paid $1,250.00.",
+        "Thanks!",
+      ]);
+      const [, second] = splitSentences(text);
+      expect(text.slice(second.start, second.end)).toBe(second.text);
+    });
+  });
+
+  describe("groundDraft", () => {
+    it("should link figures to the source spans that state them", () => {
+      const draft =
+        "Ms. Doe was treated on March 5, 2024. The charges came to $1,250.00.";
+
+      const { claims, unsupportedCount } = groundDraft(draft, {
+        sources: [source],
+      });
+
+      expect(unsupportedCount).toBe(0);
+      expect(claims).toHaveLength(2);
+      expect(claims[0].figures).toEqual([
+        {
+          text: "March 5, 2024",
+          kind: "date",
+          start: draft.indexOf("March"),
+          end: draft.indexOf("March") + "March 5, 2024".length,
+          supported: true,
+        },
+      ]);
+      expect(claims[0].supports[0]).toMatchObject({
+        type: "source",
+        documentId: "doc-1",
+        label: "records.pdf",
+        quote: "03/05/2024",
+        start: RECORDS.indexOf("03/05/2024"),
+      });
+      expect(claims[1].supports[0].quote).toBe("1,250.00");
+    });
+
+    it("should flag claims with figures found nowhere", () => {
+      const draft =
+        "Her medical bills total $4,800.00. She missed 14 days of work.";
+
+      const { claims, unsupportedCount } = groundDraft(draft, {
+        sources: [source],
+      });
+
+      expect(unsupportedCount).toBe(2);
+      expect(claims.map((claim) => claim.supported)).toEqual([false, false]);
+      expect(claims[1].figures[0]).toMatchObject({ text: "14", supported: false });
+    });
+
+    it("should accept figures from case facts, the specials ledger and the template", () => {
+      const facts = {
+        ...emptyCaseFacts(),
+        lostWages: [
+          { description: "Two weeks", amount: 1600, source: null },
+          { description: "Follow-up", amount: 400, source: null },
+        ],
+      };
+      const specials = buildLedger([
+        {
+          id: "item-1",
+          documentId: "doc-1",
+          origin: "parsed",
+          excluded: null,
+          provider: "City Hospital",
+          serviceDate: "2024-03-05",
+          code: null,
+          description: "ER visit",
+          billed: 1250,
+          paid: 250,
+          adjusted: 0,
+          source: { start: RECORDS.indexOf("Charges"), end: RECORDS.length },
+        },
+      ]);
+      const draft =
+        "The balance owed is $1,000.00. Lost wages total $2,000.00. Please respond within 30 days.";
+
+      const { claims, unsupportedCount } = groundDraft(draft, {
+        sources: [source],
+        caseFacts: facts,
+        specials,
+        references: ["Demand a response within 30 days."],
+      });
+
+      expect(unsupportedCount).toBe(0);
+      expect(claims.map((claim) => claim.supports[0].label)).toEqual([
+        "Balance (specials ledger)",
+        "Total lost wages (case facts)",
+        "Template or instructions",
+      ]);
+    });
+
+    it("should link figure-free sentences to the source sentence they restate", () => {
+      const draft =
+        "She was diagnosed with a cervical strain and radiating neck pain. We look forward to hearing from you.";
+
+      const { claims } = groundDraft(draft, { sources: [source] });
+
+      expect(claims).toHaveLength(1);
+      expect(claims[0]).toMatchObject({ figures: [], supported: true });
+      expect(claims[0].supports[0].quote).toBe(
+        "Diagnosis: cervical strain with radiating neck pain."
+      );
+    });
+  });
+});
@@ -2,7 +2,12 @@
  * Unit tests for composePrompt.ts
  */
 
-import { composePrompt } from "../composePrompt";
+import {
+  composeChunkSummaryPrompt,
+  composePrompt,
+  formatSources,
+} from "../composePrompt";
+import { buildLedger } from "../specials";
 
 describe("composePrompt", () => {
   it("should compose a basic prompt with extracted text and template", () => {
@@ -102,4 +107,215 @@ describe("composePrompt", () => {
     expect(prompt.length).toBeGreaterThan(10000);
     expect(prompt).toContain(longText);
   });
+
+  it("should label each excerpt with its source file", () => {
+    const prompt = composePrompt(
+      [
+        { label: "medical_bills.pdf", text: "City Clinic: $450.00" },
+        { label: "police_report.pdf", text: "Collision on 2024-01-15." },
+      ],
+      "Template."
+    );
+
+    expect(prompt).toContain(
+      "--- Source: medical_bills.pdf ---\nCity Clinic: $450.00\n\n--- Source: police_report.pdf ---\nCollision on 2024-01-15."
+    );
+    expect(prompt).toContain("labeled by source file");
+  });
+
+  it("should skip empty sources and fall back when none have text", () => {
+    expect(
+      formatSources([
+        { label: "empty.pdf", text: "  " },
+        { label: "notes.txt", text: "Notes" },
+      ])
+    ).toBe("--- Source: notes.txt ---\nNotes");
+
+    const prompt = composePrompt([{ label: "empty.pdf", text: "" }], "Template.");
+    expect(prompt).toContain("No extracted text available");
+  });
+
+  it("should not add source labelling guidance for single-text prompts", () => {
+    const prompt = composePrompt("Client: John", "Template.");
+    expect(prompt).not.toContain("--- Source:");
+    expect(prompt).not.toContain("labeled by source file");
+  });
+
+  it("should explain placeholders for tokenized source text", () => {
+    const prompt = composePrompt(
+      "Client SSN: [SSN_1]",
+      "Template.",
+      undefined,
+      { redactionPolicies: ["tokenize", "tokenize"] }
+    );
+    expect(prompt).toContain("copy its placeholder exactly");
+    expect(prompt.match(/copy its placeholder exactly/g)).toHaveLength(1);
+    expect(composePrompt("Client", "Template.")).not.toContain("placeholder");
+  });
+
+  it("should put confirmed case facts ahead of the extracted text", () => {
+    const prompt = composePrompt("Raw records", "Template.", undefined, {
+      caseFacts: {
+        claimant: { value: "Jane Doe", source: null },
+        defendant: null,
+        insurer: null,
+        incidentDate: { value: "2024-01-15", source: null },
+        injuries: [{ value: "Whiplash", source: null }],
+        treatmentProviders: [],
+        medicalSpecials: [
+          {
+            provider: "City Clinic",
+            date: "2024-01-20",
+            description: "ER visit",
+            amount: 450,
+            source: null,
+          },
+        ],
+        lostWages: [],
+      },
+    });
+
+    expect(prompt).toContain("**Confirmed Case Facts:**\nClaimant: Jane Doe");
+    expect(prompt).toContain("- City Clinic (2024-01-20): ER visit — $450.00");
+    expect(prompt).toContain("Total medical specials: $450.00");
+    expect(prompt.indexOf("Confirmed Case Facts")).toBeLessThan(
+      prompt.indexOf("Extracted Information")
+    );
+    expect(prompt).toContain("prefer them over the extracted information");
+  });
+
+  it("should use the specials ledger totals instead of fact specials", () => {
+    const specials = buildLedger([
+      {
+        id: "item-1",
+        documentId: "doc-1",
+        origin: "parsed",
+        excluded: null,
+        provider: "City Clinic",
+        serviceDate: "2024-01-16",
+        code: "99283",
+        description: "ER visit",
+        billed: 450,
+        paid: 300,
+        adjusted: 50,
+        source: null,
+      },
+    ]);
+    const prompt = composePrompt("Raw bills", "Template.", undefined, {
+      caseFacts: {
+        claimant: { value: "Jane Doe", source: null },
+        defendant: null,
+        insurer: null,
+        incidentDate: null,
+        injuries: [],
+        treatmentProviders: [],
+        medicalSpecials: [
+          {
+            provider: "City Clinic",
+            date: "2024-01-16",
+            description: "ER visit",
+            amount: 400,
+            source: null,
+          },
+        ],
+        lostWages: [],
+      },
+      specials,
+    });
+
+    expect(prompt).toContain("**Medical Specials (verified totals):**");
+    expect(prompt).toContain(
+      "| City Clinic | 2024-01-16 | 99283 | ER visit | $450.00 | $300.00 | $50.00 |"
+    );
+    expect(prompt).toContain("Outstanding balance: $100.00");
+    expect(prompt).not.toContain("Total medical specials");
+    expect(prompt).toContain("do not add up, recompute or estimate amounts");
+    expect(
+      composePrompt("Raw", "Template.", undefined, { specials: buildLedger([]) })
+    ).not.toContain("Medical Specials");
+  });
+
+  it("should ask for one coherent letter when sources are summarized", () => {
+    const prompt = composePrompt(
+      [
+        { label: "records.pdf (part 1 of 2)", text: "- ER visit 01/15/2024" },
+        { label: "records.pdf (part 2 of 2)", text: "- Physical therapy" },
+      ],
+      "Template.",
+      undefined,
+      { summarizedSources: true }
+    );
+
+    expect(prompt).toContain("--- Source: records.pdf (part 1 of 2) ---");
+    expect(prompt).toContain("Write a single coherent letter from all parts");
+    expect(composePrompt("Raw", "Template.")).not.toContain(
+      "summarized part by part"
+    );
+  });
+});
+
+describe("composePrompt document types", () => {
+  it("should write a demand letter by default", () => {
+    const prompt = composePrompt("Raw", "Template.");
+
+    expect(prompt).toContain("Generate a professional demand letter");
+    expect(prompt).toContain("demands payment from the insurer");
+    expect(prompt).toContain(
+      "The demand letter must state the claimant's full name, the insurance company"
+    );
+  });
+
+  it("should use the task, required facts and rules of the chosen type", () => {
+    const prompt = composePrompt("Raw", "Template.", undefined, {
+      documentType: "preservation_letter",
+    });
+
+    expect(prompt).toContain(
+      "Generate a professional preservation of evidence letter based on the following:"
+    );
+    expect(prompt).toContain("preserve all evidence of the incident");
+    expect(prompt).toContain(
+      "must state the claimant's full name, the at-fault party, the date of the incident."
+    );
+    expect(prompt).toContain(
+      "Rules for this preservation of evidence letter:\n- List the categories"
+    );
+    expect(prompt).toContain(
+      "Return ONLY the preservation of evidence letter text"
+    );
+    expect(prompt).not.toContain("demand letter");
+  });
+});
+
+describe("composeChunkSummaryPrompt", () => {
+  it("should ask for a summary of the labeled part", () => {
+    const prompt = composeChunkSummaryPrompt(
+      "  Patient seen on 01/15/2024 for neck pain. Charges: $450.  ",
+      "records.pdf (part 3 of 5)"
+    );
+
+    expect(prompt).toContain("**Source:** records.pdf (part 3 of 5)");
+    expect(prompt).toContain(
+      "**Excerpt:**\nPatient seen on 01/15/2024 for neck pain. Charges: $450.\n"
+    );
+    expect(prompt).toContain("every dollar amount");
+    expect(prompt).toContain("Return ONLY the summary");
+    expect(prompt).not.toContain("Template");
+    expect(prompt).not.toContain("placeholder");
+  });
+
+  it("should explain placeholders in tokenized parts", () => {
+    const prompt = composeChunkSummaryPrompt(
+      "SSN [SSN_1]",
+      "records.pdf (part 1 of 2)",
+      "tokenize"
+    );
+
+    expect(prompt).toContain(
+      "When the summary needs one of these values, copy its placeholder exactly"
+    );
+    expect(composeChunkSummaryPrompt("", "")).toContain(
+      "No extracted text available."
+    );
+  });
 });
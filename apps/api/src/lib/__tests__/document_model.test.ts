@@ -0,0 +1,205 @@
+/**
+ * Unit tests for document_model.ts
+ */
+
+import {
+  alignBlocks,
+  buildDocumentModel,
+  decodeEntities,
+  detectPages,
+  parseHtmlBlocks,
+} from "../document_model";
+
+describe("document_model", () => {
+  describe("detectPages", () => {
+    it("should treat text without page markers as a single page", () => {
+      const text = "Just one page of text.";
+      expect(detectPages(text)).toEqual([
+        { number: 1, start: 0, end: text.length },
+      ]);
+    });
+
+    it("should split pages on extraction page markers", () => {
+      const text = "Page one text.\n-- 1 of 2 --\n\nPage two text.\n-- 2 of 2 --";
+      const pages = detectPages(text);
+
+      expect(pages).toHaveLength(2);
+      expect(pages[0].number).toBe(1);
+      expect(text.substring(pages[0].start, pages[0].end)).toContain(
+        "Page one text."
+      );
+      expect(text.substring(pages[1].start, pages[1].end)).toContain(
+        "Page two text."
+      );
+      expect(pages[1].end).toBe(text.length);
+    });
+  });
+
+  describe("buildDocumentModel", () => {
+    it("should classify headings, paragraphs, list items and tables", () => {
+      const text = [
+        "MEDICAL SUMMARY",
+        "",
+        "The patient was seen on March 3 for neck pain.",
+        "Follow-up was scheduled in two weeks.",
+        "",
+        "- Cervical strain",
+        "- Lumbar sprain",
+        "",
+        "Date        Provider        Amount",
+        "03/03/2024  City Clinic     $450.00",
+      ].join("\n");
+
+      const model = buildDocumentModel(text);
+      const types = model.blocks.map((block) => block.type);
+
+      expect(types).toEqual([
+        "heading",
+        "paragraph",
+        "list_item",
+        "list_item",
+        "table",
+      ]);
+      expect(model.blocks[1].text).toBe(
+        "The patient was seen on March 3 for neck pain.\nFollow-up was scheduled in two weeks."
+      );
+      expect(model.blocks[4].rows).toEqual([
+        ["Date", "Provider", "Amount"],
+        ["03/03/2024", "City Clinic", "$450.00"],
+      ]);
+    });
+
+    it("should record offsets that map back into the source text", () => {
+      const text = "INTRODUCTION\n\nFirst paragraph.\n\nSecond paragraph.";
+      const model = buildDocumentModel(text);
+
+      model.blocks.forEach((block) => {
+        expect(text.substring(block.start, block.end)).toBe(block.text);
+      });
+    });
+
+    it("should assign blocks to the page they start on", () => {
+      const text =
+        "Page one paragraph.\n-- 1 of 2 --\n\nPage two paragraph.\n-- 2 of 2 --";
+      const model = buildDocumentModel(text);
+
+      expect(model.pages).toHaveLength(2);
+      expect(model.blocks.map((block) => block.page)).toEqual([1, 2]);
+      expect(model.blocks.some((block) => block.text.includes("--"))).toBe(
+        false
+      );
+    });
+
+    it("should handle empty text", () => {
+      const model = buildDocumentModel("");
+      expect(model.blocks).toEqual([]);
+      expect(model.pages).toHaveLength(1);
+    });
+  });
+
+  describe("parseHtmlBlocks", () => {
+    it("should parse mammoth HTML into typed blocks", () => {
+      const html =
+        "<h1>Demand</h1><p>Dear Sir &amp; Madam,</p><ul><li>Item one</li><li>Item two</li></ul>" +
+        "<table><tr><td><p>Date</p></td><td><p>Amount</p></td></tr><tr><td>03/03</td><td>$10</td></tr></table>";
+
+      const blocks = parseHtmlBlocks(html);
+
+      expect(blocks.map((block) => block.type)).toEqual([
+        "heading",
+        "paragraph",
+        "list_item",
+        "list_item",
+        "table",
+      ]);
+      expect(blocks[0].level).toBe(1);
+      expect(blocks[1].text).toBe("Dear Sir & Madam,");
+      expect(blocks[4].rows).toEqual([
+        ["Date", "Amount"],
+        ["03/03", "$10"],
+      ]);
+    });
+
+    it("should keep nested list items", () => {
+      const blocks = parseHtmlBlocks(
+        "<ul><li>Parent<ul><li>Child</li></ul></li></ul>"
+      );
+      expect(blocks.map((block) => block.text)).toEqual(["Parent", "Child"]);
+    });
+  });
+
+  describe("decodeEntities", () => {
+    it("should decode named, decimal and hex entities", () => {
+      expect(decodeEntities("&sect; 12 &#8211; &#x201C;Claim&#x201D;")).toBe(
+        "§ 12 – “Claim”"
+      );
+    });
+
+    it("should keep entities outside the Unicode range as text", () => {
+      expect(decodeEntities("A &#x110000; B &#99999999; C")).toBe(
+        "A &#x110000; B &#99999999; C"
+      );
+    });
+  });
+
+  describe("alignBlocks", () => {
+    it("should locate source blocks in the extracted text", () => {
+      const text = "Demand\n\nDear Sir,\n\nDate\n\nAmount\n\n03/03\n\n$10";
+      const model = alignBlocks(text, [
+        { type: "heading", text: "Demand", level: 1 },
+        { type: "paragraph", text: "Dear Sir," },
+        {
+          type: "table",
+          text: "",
+          rows: [
+            ["Date", "Amount"],
+            ["03/03", "$10"],
+          ],
+        },
+      ]);
+
+      expect(model.blocks).toHaveLength(3);
+      expect(model.blocks[0]).toMatchObject({ type: "heading", start: 0, end: 6 });
+      expect(model.blocks[2].start).toBe(text.indexOf("Date"));
+      expect(model.blocks[2].end).toBe(text.length);
+    });
+
+    it("should drop blocks that cannot be found", () => {
+      const model = alignBlocks("Only this text.", [
+        { type: "paragraph", text: "Missing paragraph" },
+        { type: "paragraph", text: "Only this text." },
+      ]);
+
+      expect(model.blocks).toHaveLength(1);
+      expect(model.blocks[0].text).toBe("Only this text.");
+    });
+
+    it("should match blocks whose whitespace differs with their real offsets", () => {
+      const text = "Intro.\n\nThe claimant was\ntreated  at (St. Mary's).";
+      const model = alignBlocks(text, [
+        { type: "paragraph", text: "The claimant was treated at (St. Mary's)." },
+      ]);
+
+      expect(model.blocks).toHaveLength(1);
+      expect(model.blocks[0]).toMatchObject({
+        start: text.indexOf("The"),
+        end: text.length,
+        text: "The claimant was\ntreated  at (St. Mary's).",
+      });
+    });
+
+    it("should drop blocks that only share a prefix with the text", () => {
+      const model = alignBlocks(
+        "The claimant was treated at the county hospital for two days.",
+        [
+          {
+            type: "paragraph",
+            text: "The claimant was treated at the county hospital for six weeks.",
+          },
+        ]
+      );
+
+      expect(model.blocks).toHaveLength(0);
+    });
+  });
+});
@@ -0,0 +1,53 @@
+/**
+ * Unit tests for document_types.ts
+ */
+
+import {
+  DEFAULT_DOCUMENT_TYPE,
+  getDocumentType,
+  listDocumentTypes,
+  missingRequiredFacts,
+  parseDocumentType,
+} from "../document_types";
+import { emptyCaseFacts } from "../case_facts";
+
+describe("document_types", () => {
+  it("should list every type with a task, required facts and rules", () => {
+    const types = listDocumentTypes();
+
+    expect(types.map((type) => type.id)).toEqual([
+      "demand_letter",
+      "preservation_letter",
+      "representation_letter",
+      "settlement_counter_offer",
+      "records_request",
+    ]);
+    types.forEach((type) => {
+      expect(type.purpose).toBeTruthy();
+      expect(type.requiredFacts.length).toBeGreaterThan(0);
+      expect(type.outputRules.length).toBeGreaterThan(0);
+    });
+  });
+
+  it("should parse only registered type ids", () => {
+    expect(parseDocumentType("records_request")).toBe("records_request");
+    expect(parseDocumentType("cover_letter")).toBeNull();
+    expect(parseDocumentType(undefined)).toBeNull();
+    expect(getDocumentType("cover_letter").id).toBe(DEFAULT_DOCUMENT_TYPE);
+  });
+
+  it("should report required facts missing from the case facts", () => {
+    const facts = {
+      ...emptyCaseFacts(),
+      claimant: { value: "Jane Doe", source: null },
+      insurer: { value: " ", source: null },
+    };
+
+    expect(
+      missingRequiredFacts(getDocumentType("representation_letter"), facts)
+    ).toEqual(["insurer", "incidentDate"]);
+    expect(
+      missingRequiredFacts(getDocumentType("demand_letter"), facts, true)
+    ).toEqual(["insurer", "incidentDate", "injuries"]);
+  });
+});
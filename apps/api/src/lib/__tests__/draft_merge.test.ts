@@ -0,0 +1,69 @@
+/**
+ * Unit tests for draft_merge.ts
+ */
+
+import { mergeDrafts } from "../draft_merge";
+
+const BASE =
+  "Dear Adjuster,\n\nOur client was injured on March 3.\n\nDamages total $12,000.\n\nWe expect payment.";
+
+describe("mergeDrafts", () => {
+  it("should keep changes both drafts made to different words", () => {
+    const target = BASE.replace("Dear Adjuster", "Dear Ms. Lee");
+    const branch = BASE.replace("$12,000", "$14,500").replace(
+      "expect",
+      "demand"
+    );
+
+    const result = mergeDrafts(BASE, target, branch);
+
+    expect(result.text).toBe(
+      "Dear Ms. Lee,\n\nOur client was injured on March 3.\n\nDamages total $14,500.\n\nWe demand payment."
+    );
+    expect(result.applied).toBe(2);
+    expect(result.conflicts).toEqual([]);
+  });
+
+  it("should not count a change both drafts made as taken from the branch", () => {
+    const edited = BASE.replace("expect", "demand");
+
+    const result = mergeDrafts(BASE, edited, edited);
+
+    expect(result.text).toBe(edited);
+    expect(result.applied).toBe(0);
+    expect(result.conflicts).toEqual([]);
+  });
+
+  it("should report words changed differently and keep the preferred side", () => {
+    const target = BASE.replace("$12,000", "$13,000");
+    const branch = BASE.replace("$12,000", "$14,500");
+
+    const kept = mergeDrafts(BASE, target, branch);
+    expect(kept.text).toBe(target);
+    expect(kept.applied).toBe(0);
+    expect(kept.conflicts).toEqual([
+      {
+        start: target.indexOf("$13,000."),
+        end: target.indexOf("$13,000.") + "$13,000.".length,
+        base: "$12,000.",
+        target: "$13,000.",
+        branch: "$14,500.",
+      },
+    ]);
+
+    const taken = mergeDrafts(BASE, target, branch, "branch");
+    expect(taken.text).toBe(branch);
+    expect(taken.applied).toBe(1);
+    expect(taken.conflicts).toHaveLength(1);
+  });
+
+  it("should treat text inserted at the same place as a conflict", () => {
+    const target = BASE.replace("We expect", "We respectfully expect");
+    const branch = BASE.replace("We expect", "We firmly expect");
+
+    const result = mergeDrafts(BASE, target, branch);
+
+    expect(result.text).toBe(target);
+    expect(result.conflicts).toHaveLength(1);
+  });
+});
@@ -0,0 +1,46 @@
+/**
+ * Unit tests for draft_state.ts
+ */
+
+import * as Y from "yjs";
+import { mergeDraftUpdates, readDraftText, setDraftText } from "../draft_state";
+
+describe("setDraftText", () => {
+  it("should start an empty document when there is no state", () => {
+    const state = setDraftText(null, "Dear Adjuster,\n\nDamages total $12,000.");
+
+    expect(readDraftText(state)).toBe("Dear Adjuster,\n\nDamages total $12,000.");
+  });
+
+  it("should change only the words that differ", () => {
+    const doc = new Y.Doc();
+    doc.getText("draft").insert(0, "Dear Adjuster,\n\nDamages total $12,000.");
+    const before = Y.encodeStateAsUpdate(doc);
+
+    const after = setDraftText(before, "Dear Adjuster,\n\nDamages total $15,400.");
+
+    expect(readDraftText(after)).toBe("Dear Adjuster,\n\nDamages total $15,400.");
+    // Edits made elsewhere on the original state still merge in
+    doc.getText("draft").insert(0, "Re: Claim 7\n");
+    const merged = new Y.Doc();
+    Y.applyUpdate(merged, after);
+    Y.applyUpdate(merged, Y.encodeStateAsUpdate(doc));
+    expect(merged.getText("draft").toString()).toBe(
+      "Re: Claim 7\nDear Adjuster,\n\nDamages total $15,400."
+    );
+  });
+});
+
+describe("mergeDraftUpdates", () => {
+  it("should combine a snapshot and later updates into one state", () => {
+    const doc = new Y.Doc();
+    const updates: Uint8Array[] = [];
+    doc.on("update", (update: Uint8Array) => updates.push(update));
+    doc.getText("draft").insert(0, "Damages total $12,000.");
+    doc.getText("draft").insert(22, " Payment is due.");
+
+    expect(readDraftText(mergeDraftUpdates(updates))).toBe(
+      "Damages total $12,000. Payment is due."
+    );
+  });
+});
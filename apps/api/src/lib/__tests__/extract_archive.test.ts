@@ -0,0 +1,107 @@
+/**
+ * Unit tests for extract_archive.ts
+ */
+
+import JSZip from "jszip";
+import {
+  expandZip,
+  getZipMaxEntries,
+  getZipMaxTotalBytes,
+  normalizeEntryPath,
+} from "../extract_archive";
+
+async function buildZip(files: Record<string, string>): Promise<Buffer> {
+  const zip = new JSZip();
+  for (const [name, content] of Object.entries(files)) {
+    zip.file(name, content, { createFolders: false });
+  }
+  return zip.generateAsync({ type: "nodebuffer", compression: "DEFLATE" });
+}
+
+describe("extract_archive", () => {
+  const originalEnv = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+  });
+
+  describe("normalizeEntryPath", () => {
+    it("should accept nested relative paths", () => {
+      expect(normalizeEntryPath("records/bills/clinic.pdf")).toBe(
+        "records/bills/clinic.pdf"
+      );
+      expect(normalizeEntryPath("records\\notes.txt")).toBe("records/notes.txt");
+    });
+
+    it("should reject paths that escape the archive root", () => {
+      expect(normalizeEntryPath("../etc/passwd")).toBeNull();
+      expect(normalizeEntryPath("records/../../secret.txt")).toBeNull();
+      expect(normalizeEntryPath("/etc/passwd")).toBeNull();
+      expect(normalizeEntryPath("C:/Windows/win.ini")).toBeNull();
+    });
+  });
+
+  describe("limits", () => {
+    it("should use defaults when env vars are missing or invalid", () => {
+      delete process.env.ZIP_MAX_ENTRIES;
+      process.env.ZIP_MAX_TOTAL_BYTES = "-1";
+
+      expect(getZipMaxEntries()).toBe(100);
+      expect(getZipMaxTotalBytes()).toBe(100 * 1024 * 1024);
+    });
+  });
+
+  describe("expandZip", () => {
+    it("should return supported files and report skipped entries", async () => {
+      const buffer = await buildZip({
+        "records/notes.txt": "Treatment notes",
+        "records/photo.jpg": "not really a jpeg",
+        "nested.zip": "PK",
+        "__MACOSX/records/._notes.txt": "resource fork",
+        "../escape.txt": "outside",
+        "empty.txt": "",
+      });
+
+      const result = await expandZip(buffer);
+
+      expect(result.files).toHaveLength(1);
+      expect(result.files[0]).toMatchObject({
+        path: "records/notes.txt",
+        fileName: "notes.txt",
+        mimeType: "text/plain",
+      });
+      expect(result.files[0].content.toString("utf-8")).toBe("Treatment notes");
+      expect(result.skipped).toEqual(
+        expect.arrayContaining([
+          { path: "records/photo.jpg", reason: "Unsupported file type" },
+          { path: "nested.zip", reason: "Nested archives are not supported" },
+          { path: "../escape.txt", reason: "Unsafe path" },
+          { path: "empty.txt", reason: "Empty file" },
+        ])
+      );
+      expect(result.skipped).toHaveLength(4);
+    });
+
+    it("should reject archives with too many entries", async () => {
+      const buffer = await buildZip({ "a.txt": "a", "b.txt": "b", "c.txt": "c" });
+
+      await expect(
+        expandZip(buffer, { maxEntries: 2, maxTotalBytes: 1024 })
+      ).rejects.toThrow("maximum is 2");
+    });
+
+    it("should stop inflating once the uncompressed size limit is exceeded", async () => {
+      const buffer = await buildZip({ "large.txt": "x".repeat(50000) });
+
+      await expect(
+        expandZip(buffer, { maxEntries: 10, maxTotalBytes: 1000 })
+      ).rejects.toThrow("maximum uncompressed size");
+    });
+
+    it("should reject files that are not ZIP archives", async () => {
+      await expect(expandZip(Buffer.from("not a zip"))).rejects.toThrow(
+        "valid ZIP archive"
+      );
+    });
+  });
+});
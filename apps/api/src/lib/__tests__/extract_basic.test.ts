@@ -5,6 +5,20 @@
  * Full integration testing should be done via the manual test script.
  */
 
+import { extractFromBuffer } from "../extract_basic";
+import { recognizePages } from "../ocr";
+
+jest.mock("pdf-parse", () => ({ PDFParse: jest.fn() }));
+jest.mock("../ocr", () => ({
+  ...jest.requireActual("../ocr"),
+  recognizePages: jest.fn(),
+}));
+
+const { PDFParse } = require("pdf-parse") as { PDFParse: jest.Mock };
+const mockRecognizePages = recognizePages as jest.MockedFunction<
+  typeof recognizePages
+>;
+
 describe("extract_basic - Test Structure", () => {
   it("should have extractText function exported", () => {
     // Verify the module structure
@@ -26,3 +40,92 @@ describe("extract_basic - Test Structure", () => {
     });
   });
 });
+
+describe("extract_basic - PDF OCR fallback", () => {
+  const summary =
+    "Patient presented with lower back pain after the collision on 3 March.";
+  let getScreenshot: jest.Mock;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, "log").mockImplementation(() => undefined);
+    jest.spyOn(console, "warn").mockImplementation(() => undefined);
+
+    // Page 1 has a text layer, page 2 is a scan, page 3 only has a page number
+    getScreenshot = jest.fn().mockResolvedValue({
+      pages: [
+        { pageNumber: 2, data: new Uint8Array([2]) },
+        { pageNumber: 3, data: new Uint8Array([3]) },
+      ],
+    });
+    PDFParse.mockImplementation(() => ({
+      getText: jest.fn().mockResolvedValue({
+        total: 3,
+        pages: [
+          { num: 1, text: summary },
+          { num: 2, text: "" },
+          { num: 3, text: "Page 3" },
+        ],
+      }),
+      getScreenshot,
+      destroy: jest.fn().mockResolvedValue(undefined),
+    }));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("should OCR only image-only pages and merge them in page order", async () => {
+    mockRecognizePages.mockResolvedValue([
+      { page: 2, text: "MRI of the lumbar spine", confidence: 88.5 },
+      { page: 3, text: "Follow-up in two weeks", confidence: 92 },
+    ]);
+
+    const result = await extractFromBuffer(
+      Buffer.from("%PDF-1.7"),
+      "application/pdf",
+      "records.pdf"
+    );
+
+    expect(getScreenshot).toHaveBeenCalledWith(
+      expect.objectContaining({ partial: [2, 3] })
+    );
+    expect(result.text).toBe(
+      [
+        `${summary}\n-- 1 of 3 --`,
+        "MRI of the lumbar spine\n-- 2 of 3 --",
+        "Follow-up in two weeks\n-- 3 of 3 --",
+      ].join("\n\n")
+    );
+    expect(result.ocrPages).toEqual([
+      { page: 2, confidence: 88.5, characters: 23 },
+      { page: 3, confidence: 92, characters: 22 },
+    ]);
+  });
+
+  it("should keep the text layer for pages OCR could not read", async () => {
+    mockRecognizePages.mockResolvedValue([
+      { page: 2, text: "", confidence: 0, error: "eng.traineddata missing" },
+      { page: 3, text: "", confidence: 0, error: "eng.traineddata missing" },
+    ]);
+
+    const result = await extractFromBuffer(
+      Buffer.from("%PDF-1.7"),
+      "application/pdf",
+      "records.pdf"
+    );
+
+    expect(result.text).toBe(
+      [
+        `${summary}\n-- 1 of 3 --`,
+        "-- 2 of 3 --",
+        "Page 3\n-- 3 of 3 --",
+      ].join("\n\n")
+    );
+    expect(result.ocrPages).toEqual([
+      { page: 2, confidence: 0, characters: 0, ocrFailed: true },
+      { page: 3, confidence: 0, characters: 6, ocrFailed: true },
+    ]);
+  });
+});
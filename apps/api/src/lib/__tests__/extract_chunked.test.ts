@@ -8,19 +8,22 @@ import {
   chunkText,
   Chunk,
 } from "../extract_chunked";
+import { buildDocumentModel } from "../document_model";
 
 describe("extract_chunked", () => {
   describe("estimateTokens", () => {
-    it("should estimate tokens using 4-char heuristic", () => {
+    it("should count tokens with the prompt tokenizer", () => {
       expect(estimateTokens("")).toBe(0);
-      expect(estimateTokens("test")).toBe(1); // 4 chars = 1 token
-      expect(estimateTokens("hello world")).toBe(3); // 11 chars = 3 tokens (rounded up)
-      expect(estimateTokens("a".repeat(4000))).toBe(1000); // 4000 chars = 1000 tokens
+      expect(estimateTokens("test")).toBe(1);
+      expect(estimateTokens("hello world")).toBe(2); // one token per common word
+      expect(estimateTokens("a".repeat(4000))).toBe(1000); // long runs ~4 chars/token
     });
 
-    it("should round up for partial tokens", () => {
-      expect(estimateTokens("abc")).toBe(1); // 3 chars rounds up to 1 token
-      expect(estimateTokens("abcdefg")).toBe(2); // 7 chars = 2 tokens (rounded up)
+    it("should count dates and amounts as more tokens than plain words", () => {
+      expect(estimateTokens("abcdefg")).toBe(1);
+      expect(estimateTokens("01/15/2024 $1,250.00")).toBeGreaterThan(
+        Math.ceil("01/15/2024 $1,250.00".length / 4)
+      );
     });
   });
 
@@ -41,6 +44,12 @@ describe("extract_chunked", () => {
       expect(needsChunking(mediumText, 2000)).toBe(false);
     });
 
+    it("should chunk documents over the per-call prompt budget by default", () => {
+      const records = "The client was injured. ".repeat(7000); // ~35000 tokens
+      expect(needsChunking(records)).toBe(true);
+      expect(needsChunking("The client was injured. ".repeat(1000))).toBe(false);
+    });
+
     it("should return false at exact threshold", () => {
       const exactText = "a".repeat(16000); // exactly 4000 tokens
       expect(needsChunking(exactText, 4000)).toBe(false);
@@ -130,5 +139,42 @@ describe("extract_chunked", () => {
       expect(firstStart).toBe(0);
       expect(lastEnd).toBe(text.length);
     });
+    it("should split at structural boundaries when a document model is provided", () => {
+      // Section 2 heading sits in the back half of the first window, where
+      // no paragraph break exists for the text heuristic to find
+      const section1 = "SECTION ONE\n\n" + "a".repeat(1200) + "\n";
+      const section2 = "SECTION TWO\n\n" + "b".repeat(3000);
+      const text = section1 + section2;
+      const structure = buildDocumentModel(text);
+
+      const chunks = chunkText(text, 500, 0, structure);
+
+      expect(chunks.length).toBeGreaterThan(1);
+      expect(chunks[0].end).toBe(text.indexOf("SECTION TWO"));
+      expect(chunks[1].text.startsWith("SECTION TWO")).toBe(true);
+    });
+
+    it("should never split inside a table block", () => {
+      const rows = Array.from(
+        { length: 25 },
+        (_, i) => `03/${String(i).padStart(2, "0")}/2024  Clinic ${i}  $${i}.00`
+      ).join("\n");
+      const text = "Intro paragraph.\n\n" + "x".repeat(1000) + "\n\n" + rows;
+      const structure = buildDocumentModel(text);
+      const table = structure.blocks.find((block) => block.type === "table")!;
+
+      const chunks = chunkText(text, 500, 0, structure);
+
+      chunks.slice(0, -1).forEach((chunk) => {
+        const splitsTable = chunk.end > table.start && chunk.end < table.end;
+        // Only allowed when the table alone exceeds the window (hard split)
+        if (splitsTable) {
+          expect(
+            estimateTokens(text.substring(table.start, table.end))
+          ).toBeGreaterThan(500);
+        }
+      });
+      expect(chunks[chunks.length - 1].end).toBe(text.length);
+    });
   });
 });
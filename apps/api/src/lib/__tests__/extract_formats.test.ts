@@ -0,0 +1,246 @@
+/**
+ * Unit tests for extract_formats.ts
+ */
+
+import JSZip from "jszip";
+import {
+  decodeText,
+  extractEML,
+  extractODT,
+  htmlToText,
+  rtfToText,
+} from "../extract_formats";
+import { resolveMimeType } from "../file_types";
+
+describe("extract_formats", () => {
+  describe("rtfToText", () => {
+    it("should extract paragraphs and drop font and color tables", () => {
+      const rtf =
+        "{\\rtf1\\ansi{\\fonttbl{\\f0 Arial;}}{\\colortbl;\\red0\\green0\\blue0;}" +
+        "\\f0\\fs24 Dear Adjuster,\\par\\par Please find \\b enclosed\\b0  records.\\par}";
+
+      expect(rtfToText(rtf)).toBe(
+        "Dear Adjuster,\n\nPlease find enclosed records."
+      );
+    });
+
+    it("should decode escaped, code-page and unicode characters", () => {
+      const rtf =
+        "{\\rtf1 Caf\\'e9 \\{x\\} \\u8212?  total \\ldblquote due\\rdblquote}";
+
+      expect(rtfToText(rtf)).toBe("Café {x} — total “due”");
+    });
+
+    it("should skip ignorable destinations", () => {
+      const rtf = "{\\rtf1{\\*\\generator Writer;}Visible text}";
+      expect(rtfToText(rtf)).toBe("Visible text");
+    });
+
+    it("should reject non-RTF input", () => {
+      expect(() => rtfToText("plain text")).toThrow("valid RTF");
+    });
+  });
+
+  describe("htmlToText", () => {
+    it("should keep block structure and drop scripts and styles", () => {
+      const html =
+        "<html><head><style>p{}</style></head><body><h1>Notice</h1>" +
+        "<p>Hello&nbsp;<b>world</b> &amp; friends</p><script>x()</script>" +
+        "<ul><li>One</li><li>Two</li></ul></body></html>";
+
+      expect(htmlToText(html)).toBe(
+        "Notice\n\nHello world & friends\n\n- One\n- Two"
+      );
+    });
+
+    it("should separate table cells with tabs", () => {
+      const html =
+        "<table><tr><td>Date</td><td>Amount</td></tr><tr><td>03/03</td><td>$10</td></tr></table>";
+
+      expect(htmlToText(html)).toBe("Date\tAmount\n03/03\t$10");
+    });
+  });
+
+  describe("extractODT", () => {
+    it("should read paragraphs, headings and lists from content.xml", async () => {
+      const zip = new JSZip();
+      zip.file(
+        "content.xml",
+        '<?xml version="1.0"?><office:document-content><office:body><office:text>' +
+          '<text:h text:outline-level="1">Demand</text:h>' +
+          "<text:p>Claimant&apos;s injuries<text:s text:c=\"2\"/>were severe.</text:p>" +
+          "<text:list><text:list-item><text:p>Neck</text:p></text:list-item></text:list>" +
+          "</office:text></office:body></office:document-content>"
+      );
+      const buffer = await zip.generateAsync({ type: "nodebuffer" });
+
+      expect(await extractODT(buffer)).toBe(
+        "Demand\n\nClaimant's injuries were severe.\n\n- Neck"
+      );
+    });
+
+    it("should reject files without content.xml", async () => {
+      const buffer = await new JSZip().generateAsync({ type: "nodebuffer" });
+      await expect(extractODT(buffer)).rejects.toThrow("content.xml");
+    });
+  });
+
+  describe("extractEML", () => {
+    const eml = [
+      "From: Jane Adjuster <jane@insurer.example>",
+      "To: Counsel <counsel@firm.example>",
+      "Subject: Claim 123",
+      "Date: Tue, 05 Mar 2024 10:00:00 +0000",
+      "MIME-Version: 1.0",
+      'Content-Type: multipart/mixed; boundary="b1"',
+      "",
+      "--b1",
+      "Content-Type: text/plain",
+      "",
+      "Please see the attached notes.",
+      "--b1",
+      "Content-Type: text/plain",
+      'Content-Disposition: attachment; filename="notes.txt"',
+      "",
+      "Attachment body",
+      "--b1",
+      "Content-Type: image/png",
+      'Content-Disposition: attachment; filename="photo.png"',
+      "Content-Transfer-Encoding: base64",
+      "",
+      "iVBORw0KGgo=",
+      "--b1--",
+      "",
+    ].join("\r\n");
+
+    it("should render headers, body and supported attachments", async () => {
+      const extractAttachment = jest.fn(async (buffer: Buffer) =>
+        buffer.toString("utf-8").trim()
+      );
+
+      const result = await extractEML(Buffer.from(eml), extractAttachment);
+
+      expect(result.headers).toEqual({
+        from: '"Jane Adjuster" <jane@insurer.example>',
+        to: '"Counsel" <counsel@firm.example>',
+        cc: "",
+        date: "2024-03-05T10:00:00.000Z",
+        subject: "Claim 123",
+      });
+      expect(result.text).toContain("Subject: Claim 123");
+      expect(result.text).toContain("Please see the attached notes.");
+      expect(result.text).toContain(
+        "=== Attachment: notes.txt ===\nAttachment body"
+      );
+      expect(extractAttachment).toHaveBeenCalledTimes(1);
+      expect(result.attachments).toEqual([
+        {
+          fileName: "notes.txt",
+          mimeType: "text/plain",
+          status: "extracted",
+          characters: "Attachment body".length,
+        },
+        {
+          fileName: "photo.png",
+          mimeType: "image/png",
+          status: "skipped",
+          reason: "Unsupported file type",
+        },
+      ]);
+    });
+
+    it("should report attachments that fail to extract", async () => {
+      const result = await extractEML(Buffer.from(eml), async () => {
+        throw new Error("boom");
+      });
+
+      expect(result.attachments[0]).toMatchObject({
+        fileName: "notes.txt",
+        status: "failed",
+        reason: "boom",
+      });
+      expect(result.text).not.toContain("=== Attachment");
+    });
+  });
+
+  describe("decodeText", () => {
+    it("should decode bytes in the declared charset", () => {
+      const bytes = Buffer.from([0x93, 0x63, 0x61, 0x66, 0xe9, 0x94]);
+
+      expect(decodeText(bytes, "windows-1252")).toBe("\u201ccaf\u00e9\u201d");
+      expect(decodeText(Buffer.from([0x63, 0x61, 0x66, 0xe9]), "ISO-8859-1")).toBe(
+        "caf\u00e9"
+      );
+    });
+
+    it("should fall back to UTF-8 without a known charset", () => {
+      const bytes = Buffer.from("caf\u00e9", "utf-8");
+
+      expect(decodeText(bytes)).toBe("caf\u00e9");
+      expect(decodeText(bytes, "x-unknown")).toBe("caf\u00e9");
+    });
+  });
+
+  describe("extractEML charsets", () => {
+    const eml = Buffer.concat([
+      Buffer.from(
+        [
+          "From: Clinic <records@clinic.example>",
+          "To: Counsel <counsel@firm.example>",
+          "Subject: Records",
+          "MIME-Version: 1.0",
+          'Content-Type: multipart/mixed; boundary="b1"',
+          "",
+          "--b1",
+          "Content-Type: text/plain; charset=windows-1252",
+          "Content-Transfer-Encoding: quoted-printable",
+          "",
+          "Patient seen at the caf=E9 =93after=94 the fall.",
+          "--b1",
+          'Content-Type: text/plain; charset="iso-8859-1"',
+          'Content-Disposition: attachment; filename="notes.txt"',
+          "Content-Transfer-Encoding: 8bit",
+          "",
+          "",
+        ].join("\r\n"),
+        "latin1"
+      ),
+      Buffer.from([0x52, 0xe9, 0x73, 0x75, 0x6d, 0xe9]),
+      Buffer.from("\r\n--b1--\r\n"),
+    ]);
+
+    it("should decode the body and pass attachment charsets on", async () => {
+      const extractAttachment = jest.fn(
+        async (buffer: Buffer, _type: string, _name: string, charset?: string) =>
+          decodeText(buffer, charset).trim()
+      );
+
+      const result = await extractEML(eml, extractAttachment);
+
+      expect(result.text).toContain(
+        "Patient seen at the caf\u00e9 \u201cafter\u201d the fall."
+      );
+      expect(extractAttachment).toHaveBeenCalledWith(
+        expect.any(Buffer),
+        "text/plain",
+        "notes.txt",
+        "iso-8859-1"
+      );
+      expect(result.text).toContain(
+        "=== Attachment: notes.txt ===\nR\u00e9sum\u00e9"
+      );
+    });
+  });
+
+  describe("resolveMimeType", () => {
+    it("should fall back to the file extension for generic types", () => {
+      expect(resolveMimeType("application/octet-stream", "mail.MSG")).toBe(
+        "application/vnd.ms-outlook"
+      );
+      expect(resolveMimeType("", "uploads/abc.eml")).toBe("message/rfc822");
+      expect(resolveMimeType("text/html; charset=utf-8", "page.htm")).toBe(
+        "text/html"
+      );
+    });
+  });
+});
@@ -0,0 +1,80 @@
+/**
+ * Unit tests for extraction_quality.ts
+ */
+
+import {
+  assessExtraction,
+  detectLanguage,
+  garbageRatio,
+} from "../extraction_quality";
+import { buildDocumentModel } from "../document_model";
+
+const ENGLISH =
+  "The claimant was driving to work on the morning of the accident. " +
+  "She stopped at the light and was struck from behind by the defendant, " +
+  "who was traveling at speed. The police report notes that the road was dry " +
+  "and that the defendant admitted fault at the scene of the collision.";
+
+const SPANISH =
+  "El demandante conducía hacia el trabajo en la mañana del accidente. " +
+  "Se detuvo en el semáforo y fue golpeado por detrás por el demandado, " +
+  "que circulaba a gran velocidad. El informe de la policía indica que la " +
+  "carretera estaba seca y que el demandado admitió la culpa en el lugar.";
+
+describe("garbageRatio", () => {
+  it("should be zero for ordinary prose", () => {
+    expect(garbageRatio(ENGLISH)).toBe(0);
+  });
+
+  it("should count control bytes and symbol runs", () => {
+    const ratio = garbageRatio("abcd\u0001\u0002 ¤¤¤¤ efgh");
+    expect(ratio).toBeGreaterThan(0.3);
+    expect(ratio).toBeLessThan(1);
+  });
+});
+
+describe("detectLanguage", () => {
+  it("should detect English and Spanish from function words", () => {
+    expect(detectLanguage(ENGLISH)).toBe("en");
+    expect(detectLanguage(SPANISH)).toBe("es");
+  });
+
+  it("should return null for too few words", () => {
+    expect(detectLanguage("Invoice 1234 total due")).toBeNull();
+  });
+});
+
+describe("assessExtraction", () => {
+  it("should report empty pages and encoding problems", () => {
+    const text = [
+      `${ENGLISH} The clientâ€™s car was a total loss.`,
+      "-- 1 of 3 --",
+      "",
+      "-- 2 of 3 --",
+      `${ENGLISH} Treatment continued for six weeks �.`,
+      "-- 3 of 3 --",
+    ].join("\n");
+
+    const report = assessExtraction(text, buildDocumentModel(text));
+
+    expect(report.characterCount).toBe(text.length);
+    expect(report.language).toBe("en");
+    expect(report.emptyPages).toEqual([2]);
+    expect(report.encodingIssues.map((issue) => issue.kind)).toEqual([
+      "replacement_character",
+      "mojibake",
+    ]);
+    expect(report.encodingIssues[1].sample).toContain("client");
+    expect(report.warnings).toEqual([
+      "Page 2 has no text",
+      "Possible encoding problems: 1 replacement character, 1 mojibake",
+    ]);
+  });
+
+  it("should flag very short extractions", () => {
+    const report = assessExtraction("Page 1", buildDocumentModel("Page 1"));
+
+    expect(report.warnings).toEqual(["Very little text was extracted"]);
+    expect(report.language).toBeNull();
+  });
+});
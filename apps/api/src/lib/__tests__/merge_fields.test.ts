@@ -0,0 +1,232 @@
+/**
+ * Unit tests for merge_fields.ts
+ */
+
+import {
+  TemplateVariable,
+  buildMergeContext,
+  normalizeTemplateVariables,
+  normalizeVariableValues,
+  renderMergeTemplate,
+  validateMergeTemplate,
+} from "../merge_fields";
+import { emptyCaseFacts } from "../case_facts";
+import { buildLedger } from "../specials";
+
+const variable = (
+  name: string,
+  type: TemplateVariable["type"],
+  required = false
+): TemplateVariable => ({ name, type, label: name, required });
+
+describe("merge_fields", () => {
+  describe("normalizeTemplateVariables", () => {
+    it("should default labels and required flags", () => {
+      const { variables, problems } = normalizeTemplateVariables([
+        { name: "claimant.name", type: "text", required: true },
+        { name: "firm.attorney", type: "text", label: " Attorney " },
+      ]);
+
+      expect(problems).toEqual([]);
+      expect(variables).toEqual([
+        { name: "claimant.name", type: "text", label: "Claimant", required: true },
+        {
+          name: "firm.attorney",
+          type: "text",
+          label: "Attorney",
+          required: false,
+        },
+      ]);
+    });
+
+    it("should reject bad names, unknown types and mistyped built-ins", () => {
+      const { problems } = normalizeTemplateVariables([
+        { name: "claimant name", type: "text" },
+        { name: "offer", type: "currency" },
+        { name: "incident.date", type: "text" },
+        { name: "offer", type: "money" },
+        { name: "offer", type: "money" },
+      ]);
+
+      expect(problems).toEqual([
+        expect.stringContaining("Variable 1 needs a name"),
+        expect.stringContaining('"offer" must have a type'),
+        expect.stringContaining('"incident.date" is filled from the case file'),
+        'Variable "offer" is declared twice',
+      ]);
+      expect(normalizeTemplateVariables("claimant").problems).toEqual([
+        "variables must be an array",
+      ]);
+    });
+  });
+
+  describe("validateMergeTemplate", () => {
+    const variables = [
+      variable("claimant.name", "text"),
+      variable("injuries", "list"),
+      variable("specials.items", "list"),
+    ];
+
+    it("should accept declared fields, sections and item fields", () => {
+      const content = `Re: {{claimant.name|upper}}
+{{#if injuries}}{{#each injuries}}- {{this}}
+{{/each}}{{else}}No injuries.{{/if}}
+{{#each specials.items}}{{provider}} {{date|date:short}} {{billed|money}}{{/each}}`;
+
+      expect(validateMergeTemplate(content, variables)).toEqual([]);
+    });
+
+    it("should report undeclared variables and misused sections", () => {
+      const problems = validateMergeTemplate(
+        "{{insurer.name}} {{this}} {{#each claimant.name}}{{/each}}",
+        variables
+      );
+
+      expect(problems).toEqual([
+        '"insurer.name" is not a declared variable',
+        '"{{this}}" is only allowed inside {{#each}}',
+        "{{#each claimant.name}} needs a list variable",
+      ]);
+    });
+
+    it("should report syntax errors and unknown formatters", () => {
+      const problems = validateMergeTemplate(
+        "{{#if claimant.name}}{{claimant.name|date:fancy}} {{/each}}",
+        variables
+      );
+
+      expect(problems).toEqual([
+        expect.stringContaining('unknown formatter "date:fancy"'),
+        '"{{/each}}" does not close an open section',
+        '"{{#if claimant.name}}" is never closed',
+      ]);
+    });
+  });
+
+  describe("normalizeVariableValues", () => {
+    const variables = [
+      variable("offer.amount", "money"),
+      variable("offer.date", "date"),
+      variable("exhibits", "list"),
+      variable("claimant.name", "text"),
+    ];
+
+    it("should convert supplied values to their types", () => {
+      const { values, problems } = normalizeVariableValues(variables, {
+        "offer.amount": "$12,500.00",
+        "offer.date": "3/15/2024",
+        exhibits: ["Police report", " ", "Photos"],
+      });
+
+      expect(problems).toEqual([]);
+      expect(values).toEqual({
+        "offer.amount": 12500,
+        "offer.date": "2024-03-15",
+        exhibits: ["Police report", "Photos"],
+      });
+    });
+
+    it("should reject invalid values and values for built-ins", () => {
+      const { problems } = normalizeVariableValues(variables, {
+        "offer.amount": "a lot",
+        "offer.date": "soon",
+        "claimant.name": "Jane Doe",
+        unknown: "x",
+      });
+
+      expect(problems).toEqual([
+        '"offer.amount" must be a number',
+        '"offer.date" must be a date',
+        expect.stringContaining('"claimant.name" is not a variable'),
+        expect.stringContaining('"unknown" is not a variable'),
+      ]);
+    });
+  });
+
+  describe("renderMergeTemplate", () => {
+    const facts = {
+      ...emptyCaseFacts(),
+      claimant: { value: "Jane Doe", source: null },
+      incidentDate: { value: "2024-03-05", source: null },
+      injuries: [
+        { value: "Cervical strain", source: null },
+        { value: "Concussion", source: null },
+      ],
+    };
+    const specials = buildLedger([
+      {
+        id: "item-1",
+        documentId: "doc-1",
+        origin: "parsed",
+        excluded: null,
+        provider: "City Hospital",
+        serviceDate: "2024-03-05",
+        code: "99284",
+        description: "ER visit",
+        billed: 1250,
+        paid: 0,
+        adjusted: 0,
+        source: null,
+      },
+    ]);
+    const context = buildMergeContext(facts, specials, "2024-06-01");
+
+    it("should fill fields by type and formatter", () => {
+      const result = renderMergeTemplate(
+        "{{today}}\nRe: {{claimant.name|upper}}, injured {{incident.date|date:short}}\nTotal: {{specials.billed}}",
+        [
+          variable("today", "date"),
+          variable("claimant.name", "text"),
+          variable("incident.date", "date"),
+          variable("specials.billed", "money"),
+        ],
+        context
+      );
+
+      expect(result.text).toBe(
+        "June 1, 2024\nRe: JANE DOE, injured 03/05/2024\nTotal: $1,250.00"
+      );
+      expect(result.fieldCount).toBe(4);
+      expect(result.missing).toEqual([]);
+    });
+
+    it("should render conditional and repeating sections", () => {
+      const result = renderMergeTemplate(
+        "{{#each injuries}}- {{this}}\n{{/each}}{{#if insurer.name}}Insurer: {{insurer.name}}{{else}}No insurer{{/if}}\n{{#each specials.items}}{{provider}} ({{date|date:long}}): {{billed}}{{/each}}",
+        [
+          variable("injuries", "list"),
+          variable("insurer.name", "text"),
+          variable("specials.items", "list"),
+        ],
+        context
+      );
+
+      expect(result.text).toBe(
+        "- Cervical strain\n- Concussion\nNo insurer\nCity Hospital (March 5, 2024): $1,250.00"
+      );
+    });
+
+    it("should bracket missing values and report required ones", () => {
+      const result = renderMergeTemplate(
+        "Dear {{insurer.name}}, the offer of {{offer.amount}} {{undeclared}}",
+        [
+          { ...variable("insurer.name", "text", true), label: "Insurer" },
+          variable("offer.amount", "money"),
+        ],
+        context
+      );
+
+      expect(result.text).toBe(
+        "Dear [Insurer], the offer of [offer.amount] {{undeclared}}"
+      );
+      expect(result.filled).toEqual([]);
+      expect(result.missing.map(({ name }) => name)).toEqual(["insurer.name"]);
+    });
+
+    it("should leave content without merge fields unchanged", () => {
+      const content = "Dear {client_name},\n\nPlease find {{ enclosed }} records.";
+
+      expect(renderMergeTemplate(content, [], context).text).toBe(content);
+    });
+  });
+});
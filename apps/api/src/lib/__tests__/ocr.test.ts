@@ -0,0 +1,111 @@
+/**
+ * Unit tests for ocr.ts
+ */
+
+import {
+  isImageOnlyPage,
+  getOcrMinPageChars,
+  getOcrMaxPages,
+  isOcrEnabled,
+  recognizePages,
+} from "../ocr";
+
+jest.mock("tesseract.js", () => ({ createWorker: jest.fn() }));
+
+const { createWorker } = require("tesseract.js") as { createWorker: jest.Mock };
+
+describe("ocr", () => {
+  const originalEnv = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+  });
+
+  describe("isImageOnlyPage", () => {
+    it("should flag pages with no text layer", () => {
+      expect(isImageOnlyPage("")).toBe(true);
+      expect(isImageOnlyPage("   \n\n  ")).toBe(true);
+    });
+
+    it("should flag pages with only a few stray glyphs", () => {
+      expect(isImageOnlyPage("1 . ~")).toBe(true);
+    });
+
+    it("should not flag pages with real text", () => {
+      expect(
+        isImageOnlyPage("Patient presented with lower back pain after collision.")
+      ).toBe(false);
+    });
+
+    it("should ignore whitespace when counting characters", () => {
+      expect(isImageOnlyPage("a b c d e", 5)).toBe(false);
+      expect(isImageOnlyPage("a b c d", 5)).toBe(true);
+    });
+  });
+
+  describe("configuration", () => {
+    it("should use defaults when env vars are missing or invalid", () => {
+      delete process.env.OCR_MIN_PAGE_CHARS;
+      process.env.OCR_MAX_PAGES = "not-a-number";
+
+      expect(getOcrMinPageChars()).toBe(20);
+      expect(getOcrMaxPages()).toBe(50);
+      expect(isOcrEnabled()).toBe(true);
+    });
+
+    it("should respect env overrides", () => {
+      process.env.OCR_MIN_PAGE_CHARS = "5";
+      process.env.OCR_MAX_PAGES = "3";
+      process.env.OCR_ENABLED = "false";
+
+      expect(getOcrMinPageChars()).toBe(5);
+      expect(getOcrMaxPages()).toBe(3);
+      expect(isOcrEnabled()).toBe(false);
+    });
+  });
+
+  describe("recognizePages", () => {
+    it("should return an empty list without starting a worker when there are no pages", async () => {
+      await expect(recognizePages([])).resolves.toEqual([]);
+      expect(createWorker).not.toHaveBeenCalled();
+    });
+
+    const images = [
+      { pageNumber: 2, data: new Uint8Array([1]) },
+      { pageNumber: 3, data: new Uint8Array([2]) },
+    ];
+
+    it("should report every page as failed when the worker cannot start", async () => {
+      createWorker.mockRejectedValueOnce(
+        new Error("ENOENT: no such file or directory, eng.traineddata")
+      );
+
+      const results = await recognizePages(images);
+
+      expect(results).toEqual([
+        expect.objectContaining({ page: 2, text: "", confidence: 0 }),
+        expect.objectContaining({ page: 3, text: "", confidence: 0 }),
+      ]);
+      expect(results[0].error).toContain("eng.traineddata");
+    });
+
+    it("should keep recognizing after a page fails", async () => {
+      const terminate = jest.fn().mockResolvedValue(undefined);
+      const recognize = jest
+        .fn()
+        .mockRejectedValueOnce(new Error("Image too large"))
+        .mockResolvedValueOnce({
+          data: { text: "  Discharge summary \n", confidence: 91.26 },
+        });
+      createWorker.mockResolvedValueOnce({ recognize, terminate });
+
+      const results = await recognizePages(images);
+
+      expect(results).toEqual([
+        { page: 2, text: "", confidence: 0, error: "Image too large" },
+        { page: 3, text: "Discharge summary", confidence: 91.3 },
+      ]);
+      expect(terminate).toHaveBeenCalled();
+    });
+  });
+});
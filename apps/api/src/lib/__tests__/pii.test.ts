@@ -0,0 +1,124 @@
+/**
+ * Unit tests for pii.ts
+ */
+
+import {
+  detectPii,
+  parseRedactionPolicy,
+  redactForExport,
+  redactText,
+  restoreTokens,
+  spansInRange,
+  PiiTokenMap,
+} from "../pii";
+
+const RECORD = `Patient: Jane Doe
+DOB: 04/12/1980   MRN: A1234567
+SSN 123-45-6789
+Phone (555) 123-4567, email jane.doe@example.com
+Policy Number: PX-99887766
+Date of service: 03/02/2024`;
+
+describe("pii", () => {
+  describe("detectPii", () => {
+    it("should detect typed spans with offsets into the text", () => {
+      const spans = detectPii(RECORD);
+
+      expect(spans.map((span) => [span.type, span.text])).toEqual([
+        ["dob", "04/12/1980"],
+        ["mrn", "A1234567"],
+        ["ssn", "123-45-6789"],
+        ["phone", "(555) 123-4567"],
+        ["email", "jane.doe@example.com"],
+        ["account_number", "PX-99887766"],
+      ]);
+      for (const span of spans) {
+        expect(RECORD.slice(span.start, span.end)).toBe(span.text);
+      }
+    });
+
+    it("should not flag unlabeled dates or labels without numbers", () => {
+      const spans = detectPii(
+        "Date of service: 03/02/2024. Account Summary attached."
+      );
+      expect(spans).toEqual([]);
+    });
+  });
+
+  describe("redactText", () => {
+    const spans = detectPii("SSN 123-45-6789, call 555-123-4567");
+    const text = "SSN 123-45-6789, call 555-123-4567";
+
+    it("should mask all but the last four characters", () => {
+      expect(redactText(text, spans, "mask")).toBe(
+        "SSN ***-**-6789, call ***-***-4567"
+      );
+    });
+
+    it("should drop values", () => {
+      expect(redactText(text, spans, "drop")).toBe(
+        "SSN [REDACTED], call [REDACTED]"
+      );
+    });
+
+    it("should leave ignored spans and the none policy untouched", () => {
+      const reviewed = spans.map((span) => ({
+        ...span,
+        ignored: span.type === "phone",
+      }));
+      expect(redactText(text, reviewed, "drop")).toBe(
+        "SSN [REDACTED], call 555-123-4567"
+      );
+      expect(redactText(text, spans, "none")).toBe(text);
+    });
+
+    it("should tokenize values and restore them", () => {
+      const tokens: PiiTokenMap = {};
+      const first = redactText(text, spans, "tokenize", tokens);
+      const again = redactText("123-45-6789", detectPii("123-45-6789"), "tokenize", tokens);
+
+      expect(first).toBe("SSN [SSN_1], call [PHONE_1]");
+      expect(again).toBe("[SSN_1]");
+      expect(restoreTokens("Claimant SSN: [SSN_1]", tokens)).toBe(
+        "Claimant SSN: 123-45-6789"
+      );
+    });
+  });
+
+  describe("spansInRange", () => {
+    it("should shift and clip spans to a slice", () => {
+      const spans = detectPii(RECORD);
+      const start = RECORD.indexOf("SSN");
+      const end = RECORD.indexOf("email");
+      const slice = RECORD.slice(start, end);
+
+      const shifted = spansInRange(spans, start, end);
+
+      expect(shifted.map((span) => span.type)).toEqual(["ssn", "phone"]);
+      for (const span of shifted) {
+        expect(slice.slice(span.start, span.end)).toBe(span.text);
+      }
+    });
+  });
+
+  describe("redactForExport", () => {
+    const draft = "Our client (SSN 123-45-6789) can be reached at 555-123-4567.";
+
+    it("should keep restored values for the tokenize policy", () => {
+      expect(redactForExport(draft, "tokenize")).toBe(draft);
+    });
+
+    it("should re-scan the draft for mask and drop, honouring ignored values", () => {
+      expect(redactForExport(draft, "drop", ["555-123-4567"])).toBe(
+        "Our client (SSN [REDACTED]) can be reached at 555-123-4567."
+      );
+    });
+  });
+
+  describe("parseRedactionPolicy", () => {
+    it("should accept known policies only", () => {
+      expect(parseRedactionPolicy("mask")).toBe("mask");
+      expect(parseRedactionPolicy("shred")).toBeNull();
+    });
+  });
+});
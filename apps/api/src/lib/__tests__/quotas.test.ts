@@ -0,0 +1,112 @@
+/**
+ * Unit tests for quotas.ts
+ */
+
+import {
+  defaultQuotaLimits,
+  exhaustedQuota,
+  periodEnd,
+  periodStart,
+  quotaStatuses,
+  resolveQuotaLimits,
+} from "../quotas";
+
+describe("quotas", () => {
+  afterEach(() => {
+    delete process.env.AI_USER_REQUESTS_PER_MINUTE;
+    delete process.env.AI_USER_TOKENS_PER_DAY;
+    delete process.env.AI_ORG_TOKENS_PER_MONTH;
+  });
+
+  describe("defaultQuotaLimits", () => {
+    it("should limit only user requests per minute unless configured", () => {
+      expect(defaultQuotaLimits("user")).toEqual({
+        requestsPerMinute: 20,
+        tokensPerDay: null,
+        tokensPerMonth: null,
+      });
+      expect(defaultQuotaLimits("organization")).toEqual({
+        requestsPerMinute: null,
+        tokensPerDay: null,
+        tokensPerMonth: null,
+      });
+    });
+
+    it("should read limits from the environment, 0 lifting a limit", () => {
+      process.env.AI_USER_REQUESTS_PER_MINUTE = "0";
+      process.env.AI_USER_TOKENS_PER_DAY = "200000";
+      process.env.AI_ORG_TOKENS_PER_MONTH = "lots";
+
+      expect(defaultQuotaLimits("user")).toEqual({
+        requestsPerMinute: null,
+        tokensPerDay: 200000,
+        tokensPerMonth: null,
+      });
+      expect(defaultQuotaLimits("organization").tokensPerMonth).toBeNull();
+    });
+  });
+
+  describe("resolveQuotaLimits", () => {
+    it("should prefer stored limits and fall back to the defaults", () => {
+      process.env.AI_USER_TOKENS_PER_DAY = "200000";
+
+      expect(
+        resolveQuotaLimits("user", {
+          requestsPerMinute: 0,
+          tokensPerDay: null,
+          tokensPerMonth: "3000000", // BIGINT columns come back as strings
+        })
+      ).toEqual({
+        requestsPerMinute: null,
+        tokensPerDay: 200000,
+        tokensPerMonth: 3000000,
+      });
+    });
+  });
+
+  describe("periods", () => {
+    it("should start and end minutes, days and months in UTC", () => {
+      const now = new Date("2024-12-31T23:59:30.500Z");
+
+      expect(periodStart("minute", now).toISOString()).toBe(
+        "2024-12-31T23:59:00.000Z"
+      );
+      expect(periodEnd("minute", now).toISOString()).toBe(
+        "2025-01-01T00:00:00.000Z"
+      );
+      expect(periodStart("day", now).toISOString()).toBe(
+        "2024-12-31T00:00:00.000Z"
+      );
+      expect(periodStart("month", now).toISOString()).toBe(
+        "2024-12-01T00:00:00.000Z"
+      );
+      expect(periodEnd("month", now).toISOString()).toBe(
+        "2025-01-01T00:00:00.000Z"
+      );
+    });
+  });
+
+  describe("exhaustedQuota", () => {
+    it("should report the used-up limit that resets last", () => {
+      const now = new Date("2024-03-15T10:20:30Z");
+      const statuses = quotaStatuses(
+        "user",
+        { requestsPerMinute: 5, tokensPerDay: 1000, tokensPerMonth: 50000 },
+        { requests: 5, dayTokens: 1200, monthTokens: 9000 },
+        now
+      );
+
+      expect(statuses.map((status) => status.remaining)).toEqual([0, 0, 41000]);
+      expect(exhaustedQuota(statuses)).toEqual({
+        scope: "user",
+        period: "day",
+        unit: "tokens",
+        limit: 1000,
+        used: 1200,
+        remaining: 0,
+        resetAt: "2024-03-16T00:00:00.000Z",
+      });
+      expect(exhaustedQuota(statuses.slice(2))).toBeNull();
+    });
+  });
+});
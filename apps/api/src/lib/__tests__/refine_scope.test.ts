@@ -0,0 +1,95 @@
+/**
+ * Unit tests for refine_scope.ts
+ */
+
+import {
+  nearestOccurrence,
+  replaceScope,
+  resolveRefineScope,
+} from "../refine_scope";
+
+const draft =
+  "Dear Adjuster,\n\nDamages total $12,000.\n\nWe expect payment.\n\nDamages total $12,000.";
+
+describe("resolveRefineScope", () => {
+  it("should refine the whole draft without a selection or paragraphs", () => {
+    expect(resolveRefineScope(draft, undefined, undefined)).toEqual({
+      scope: null,
+    });
+  });
+
+  it("should use the selection where the saved draft still has its text", () => {
+    const start = draft.indexOf("We expect");
+    expect(
+      resolveRefineScope(
+        draft,
+        { start, end: start + 19, text: "We expect payment.\n" },
+        undefined
+      )
+    ).toEqual({ scope: { start, end: start + 19 } });
+  });
+
+  it("should find selected text that moved, nearest the selection", () => {
+    const last = draft.lastIndexOf("Damages");
+    expect(
+      resolveRefineScope(
+        draft,
+        { start: last - 5, end: last + 17, text: "Damages total $12,000." },
+        undefined
+      )
+    ).toEqual({ scope: { start: last, end: last + 22 } });
+    expect(
+      resolveRefineScope(
+        draft,
+        { start: 0, end: 5, text: "Not in the draft" },
+        undefined
+      )
+    ).toEqual({ scope: null, problem: "missing" });
+  });
+
+  it("should cover the paragraphs from the first to the last index", () => {
+    const { scope } = resolveRefineScope(draft, undefined, [2, 1]);
+    expect(draft.slice(scope!.start, scope!.end)).toBe(
+      "Damages total $12,000.\n\nWe expect payment."
+    );
+  });
+
+  it("should reject malformed selections and unknown paragraphs", () => {
+    for (const [selection, paragraphs] of [
+      [{ start: 4, end: 4 }, undefined],
+      [{ start: 0, end: draft.length + 1 }, undefined],
+      [{ start: 0, end: 3, text: "  " }, undefined],
+      [undefined, []],
+      [undefined, [9]],
+    ]) {
+      expect(resolveRefineScope(draft, selection, paragraphs).problem).toBe(
+        "invalid"
+      );
+    }
+  });
+});
+
+describe("nearestOccurrence", () => {
+  it("should pick the occurrence closest to the offset", () => {
+    expect(nearestOccurrence("ab ab ab", "ab", 4)).toBe(3);
+    expect(nearestOccurrence("ab ab ab", "cd", 4)).toBe(-1);
+  });
+});
+
+describe("replaceScope", () => {
+  it("should replace only the passage and keep its surrounding whitespace", () => {
+    const start = draft.indexOf("\n\nWe expect");
+    const end = draft.indexOf("payment.") + "payment.".length;
+
+    const result = replaceScope(
+      draft,
+      { start, end },
+      "  Payment is due within 30 days.\n"
+    );
+
+    expect(result.replacement).toBe("\n\nPayment is due within 30 days.");
+    expect(result.draftText).toBe(
+      "Dear Adjuster,\n\nDamages total $12,000.\n\nPayment is due within 30 days.\n\nDamages total $12,000."
+    );
+  });
+});
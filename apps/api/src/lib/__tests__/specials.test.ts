@@ -0,0 +1,246 @@
+/**
+ * Unit tests for specials.ts
+ */
+
+import {
+  LedgerItem,
+  UNKNOWN_PROVIDER,
+  buildLedger,
+  detectStatementProvider,
+  formatSpecialsTable,
+  normalizeSpecialsItem,
+  parseBillingItems,
+  parseMoney,
+  parseServiceDate,
+} from "../specials";
+
+const ITEMIZED_BILL = [
+  "Provider: City Clinic",
+  "Date of Service\tCPT\tDescription\tCharges\tPaid\tAdjustment\tBalance",
+  "01/16/2024\t99283\tER visit\t$450.00\t$300.00\t$50.00\t$100.00",
+  "01/16/2024\t72040\tX-ray cervical spine\t$180.00\t-\t-\t$180.00",
+  "Total charges\t$630.00",
+].join("\n");
+
+const STATEMENT = `Physio Plus statement
+02/03/24 97110 Therapeutic exercise $120.00 $80.00 $10.00
+02/10/2024 Payment - Acme Insurance ($80.00)
+Date of service: 2024-02-05
+97140 Manual therapy 95.00
+Amount due: $125.00`;
+
+const item = (id: string, overrides: Partial<LedgerItem> = {}): LedgerItem => ({
+  id,
+  documentId: "doc-1",
+  origin: "parsed",
+  excluded: null,
+  provider: "City Clinic",
+  serviceDate: "2024-01-16",
+  code: "99283",
+  description: "ER visit",
+  billed: 450,
+  paid: 300,
+  adjusted: 50,
+  source: null,
+  ...overrides,
+});
+
+describe("specials", () => {
+  describe("parseServiceDate / parseMoney", () => {
+    it("should normalise dates and amounts", () => {
+      expect(parseServiceDate("DOS 1/6/24")).toBe("2024-01-06");
+      expect(parseServiceDate("2024-02-05")).toBe("2024-02-05");
+      expect(parseServiceDate("13/40/2024")).toBeNull();
+      expect(parseMoney("$1,250.00")).toBe(1250);
+      expect(parseMoney("(300.00)")).toBe(-300);
+      expect(parseMoney("ER visit")).toBeNull();
+    });
+  });
+
+  describe("parseBillingItems", () => {
+    it("should read table rows by column and skip totals", () => {
+      const items = parseBillingItems(ITEMIZED_BILL);
+
+      expect(items).toHaveLength(2);
+      expect(items[0]).toEqual({
+        provider: "City Clinic",
+        serviceDate: "2024-01-16",
+        code: "99283",
+        description: "ER visit",
+        billed: 450,
+        paid: 300,
+        adjusted: 50,
+        source: {
+          start: ITEMIZED_BILL.indexOf("01/16/2024\t99283"),
+          end: ITEMIZED_BILL.indexOf("\n01/16/2024\t72040"),
+        },
+      });
+      expect(items[1]).toMatchObject({
+        code: "72040",
+        description: "X-ray cervical spine",
+        billed: 180,
+        paid: 0,
+        adjusted: 0,
+      });
+    });
+
+    it("should read free-form lines and skip payments", () => {
+      const items = parseBillingItems(STATEMENT, "Physio Plus");
+
+      expect(items).toEqual([
+        expect.objectContaining({
+          provider: "Physio Plus",
+          serviceDate: "2024-02-03",
+          code: "97110",
+          description: "Therapeutic exercise",
+          billed: 120,
+          paid: 80,
+          adjusted: 10,
+        }),
+        expect.objectContaining({
+          serviceDate: "2024-02-05",
+          code: "97140",
+          description: "Manual therapy",
+          billed: 95,
+        }),
+      ]);
+    });
+  });
+
+  describe("detectStatementProvider", () => {
+    const LETTERHEAD_BILL = [
+      "RIVERSIDE ORTHOPEDIC ASSOCIATES",
+      "1200 River Road, Suite 4",
+      "Springfield, MD 21201",
+      "(555) 123-4567",
+      "STATEMENT",
+      "Patient: Jane Doe",
+      "Date  CPT  Description  Charges  Paid",
+      "01/20/2024  99204  New patient visit  $325.00  $0.00",
+    ].join("\n");
+
+    it("should read the provider from a bill's letterhead", () => {
+      expect(detectStatementProvider(LETTERHEAD_BILL)).toBe(
+        "RIVERSIDE ORTHOPEDIC ASSOCIATES"
+      );
+      expect(parseBillingItems(LETTERHEAD_BILL, "Document title")).toEqual([
+        expect.objectContaining({
+          provider: "RIVERSIDE ORTHOPEDIC ASSOCIATES",
+          code: "99204",
+          billed: 325,
+        }),
+      ]);
+    });
+
+    it("should drop statement words printed beside the name", () => {
+      expect(detectStatementProvider(STATEMENT)).toBe("Physio Plus");
+    });
+
+    it("should fall back to the default provider without a letterhead", () => {
+      const bill = "01/20/2024  99204  New patient visit  $325.00";
+
+      expect(detectStatementProvider(bill)).toBeNull();
+      expect(parseBillingItems(bill, "ER bill March")[0].provider).toBe(
+        "ER bill March"
+      );
+    });
+  });
+
+  describe("buildLedger", () => {
+    it("should flag duplicates and leave them out of the totals", () => {
+      const ledger = buildLedger([
+        item("a"),
+        item("b", { documentId: "doc-2", provider: "City  Clinic" }),
+        item("c", { code: "72040", billed: 180, paid: 0, adjusted: 0 }),
+      ]);
+
+      expect(ledger.items.map((i) => [i.duplicateOf, i.counted])).toEqual([
+        [null, true],
+        ["a", false],
+        [null, true],
+      ]);
+      expect(ledger.totals).toEqual({
+        billed: 630,
+        paid: 300,
+        adjusted: 50,
+        balance: 280,
+        itemCount: 2,
+        excludedCount: 1,
+      });
+    });
+
+    it("should respect explicit inclusion and exclusion", () => {
+      const ledger = buildLedger([
+        item("a", { excluded: true }),
+        item("b"),
+        item("c", { excluded: false }),
+      ]);
+
+      // An excluded item is not the original of a duplicate
+      expect(ledger.items[1]).toMatchObject({ duplicateOf: null, counted: true });
+      expect(ledger.items[2]).toMatchObject({ duplicateOf: "b", counted: true });
+      expect(ledger.totals.billed).toBe(900);
+    });
+
+    it("should only match unknown-provider items within the same bill", () => {
+      const ledger = buildLedger([
+        item("a", { provider: UNKNOWN_PROVIDER }),
+        item("b", { provider: UNKNOWN_PROVIDER, documentId: "doc-2" }),
+        item("c", { provider: UNKNOWN_PROVIDER }),
+      ]);
+
+      expect(ledger.items.map((i) => i.duplicateOf)).toEqual([null, null, "a"]);
+    });
+  });
+
+  describe("normalizeSpecialsItem", () => {
+    it("should accept edited items and reject invalid fields", () => {
+      expect(
+        normalizeSpecialsItem({
+          provider: " Physio Plus ",
+          serviceDate: "02/05/2024",
+          code: "97140",
+          billed: "$95.00",
+        })
+      ).toEqual({
+        provider: "Physio Plus",
+        serviceDate: "2024-02-05",
+        code: "97140",
+        description: "",
+        billed: 95,
+        paid: 0,
+        adjusted: 0,
+      });
+
+      expect(normalizeSpecialsItem({ provider: "Clinic" })).toBeNull();
+      expect(normalizeSpecialsItem({ provider: "Clinic", billed: -5 })).toBeNull();
+      expect(
+        normalizeSpecialsItem({ provider: "Clinic", billed: 5, serviceDate: "soon" })
+      ).toBeNull();
+    });
+  });
+
+  describe("formatSpecialsTable", () => {
+    it("should list counted items with computed totals", () => {
+      const text = formatSpecialsTable(
+        buildLedger([
+          item("a"),
+          item("b"),
+          item("c", { code: null, description: "", billed: 100.1, paid: 0, adjusted: 0 }),
+        ])
+      );
+
+      expect(text.split("\n")).toEqual([
+        "| Provider | Date of service | Code | Description | Billed | Paid | Adjusted |",
+        "| --- | --- | --- | --- | --- | --- | --- |",
+        "| City Clinic | 2024-01-16 | 99283 | ER visit | $450.00 | $300.00 | $50.00 |",
+        "| City Clinic | 2024-01-16 | — | — | $100.10 | $0.00 | $0.00 |",
+        "",
+        "Total billed: $550.10",
+        "Total paid: $300.00",
+        "Total adjustments: $50.00",
+        "Outstanding balance: $200.10",
+      ]);
+    });
+  });
+});
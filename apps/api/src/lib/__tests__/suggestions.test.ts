@@ -0,0 +1,89 @@
+/**
+ * Unit tests for suggestions.ts
+ */
+
+import { suggestChanges } from "../suggestions";
+
+/**
+ * Apply suggestions from last to first, as accepting all of them would
+ */
+const acceptAll = (
+  draft: string,
+  suggestions: ReturnType<typeof suggestChanges>
+) =>
+  [...suggestions]
+    .reverse()
+    .reduce(
+      (text, { start, end, replacement }) =>
+        text.slice(0, start) + replacement + text.slice(end),
+      draft
+    );
+
+describe("suggestChanges", () => {
+  const draft = "Dear Adjuster,\n\nDamages total $12,000.\n\nWe expect payment.";
+
+  it("should turn a refined draft into word-level suggestions", () => {
+    const refined =
+      "Dear Adjuster,\n\nDamages total $12,000 to date.\n\nWe demand payment.";
+
+    const suggestions = suggestChanges(
+      draft,
+      { start: 0, end: draft.length },
+      refined
+    );
+
+    expect(suggestions).toEqual([
+      {
+        start: draft.indexOf("$12,000."),
+        end: draft.indexOf("$12,000.") + 8,
+        original: "$12,000.",
+        replacement: "$12,000 to date.",
+      },
+      {
+        start: draft.indexOf("expect"),
+        end: draft.indexOf("expect") + 6,
+        original: "expect",
+        replacement: "demand",
+      },
+    ]);
+    expect(acceptAll(draft, suggestions)).toBe(refined);
+  });
+
+  it("should anchor insertions to the word before them", () => {
+    const suggestions = suggestChanges(
+      draft,
+      { start: 0, end: draft.length },
+      draft + "\n\nSincerely,"
+    );
+
+    expect(suggestions).toEqual([
+      {
+        start: draft.indexOf("payment."),
+        end: draft.length,
+        original: "payment.",
+        replacement: "payment.\n\nSincerely,",
+      },
+    ]);
+  });
+
+  it("should offset suggestions for a passage by its start", () => {
+    const start = draft.indexOf("We expect");
+    const suggestions = suggestChanges(
+      draft,
+      { start, end: draft.length },
+      "We expect prompt payment."
+    );
+
+    expect(suggestions).toEqual([
+      {
+        start: draft.indexOf("expect"),
+        end: draft.indexOf("expect") + 7,
+        original: "expect ",
+        replacement: "expect prompt ",
+      },
+    ]);
+    expect(acceptAll(draft, suggestions)).toBe(
+      "Dear Adjuster,\n\nDamages total $12,000.\n\nWe expect prompt payment."
+    );
+  });
+});
@@ -0,0 +1,151 @@
+/**
+ * Unit tests for text_diff.ts
+ */
+
+import {
+  diffLines,
+  diffSequence,
+  diffWordHunks,
+  diffWords,
+  revertHunks,
+} from "../text_diff";
+
+const lines = (count: number, prefix = "line") =>
+  Array.from({ length: count }, (_, index) => `${prefix} ${index + 1}`);
+
+describe("diffSequence", () => {
+  it("should keep common lines and mark insertions and deletions", () => {
+    expect(diffSequence(["a", "b", "c", "d"], ["a", "c", "x", "d"])).toEqual([
+      { type: "equal", text: "a" },
+      { type: "delete", text: "b" },
+      { type: "equal", text: "c" },
+      { type: "insert", text: "x" },
+      { type: "equal", text: "d" },
+    ]);
+  });
+});
+
+describe("diffLines", () => {
+  it("should report no hunks for identical text", () => {
+    const text = lines(5).join("\n");
+    expect(diffLines(text, text)).toEqual({
+      addedLines: 0,
+      removedLines: 0,
+      unchangedLines: 5,
+      hunks: [],
+      truncated: false,
+    });
+  });
+
+  it("should group changes into hunks with context and line numbers", () => {
+    const before = lines(20);
+    const after = [...before];
+    after[2] = "changed 3";
+    after.splice(15, 1);
+
+    const diff = diffLines(before.join("\n"), after.join("\r\n"));
+
+    expect(diff.addedLines).toBe(1);
+    expect(diff.removedLines).toBe(2);
+    expect(diff.hunks).toHaveLength(2);
+    expect(diff.hunks[0]).toMatchObject({
+      beforeStart: 1,
+      beforeLines: 5,
+      afterStart: 1,
+      afterLines: 5,
+    });
+    expect(diff.hunks[0].lines.map((line) => line.type)).toEqual([
+      "context",
+      "context",
+      "removed",
+      "added",
+      "context",
+      "context",
+    ]);
+    expect(diff.hunks[1]).toMatchObject({
+      beforeStart: 14,
+      beforeLines: 5,
+      afterStart: 14,
+      afterLines: 4,
+    });
+  });
+
+  it("should treat empty previous text as all additions", () => {
+    const diff = diffLines("", "first\nsecond");
+
+    expect(diff.addedLines).toBe(2);
+    expect(diff.hunks[0].lines).toEqual([
+      { type: "added", text: "first" },
+      { type: "added", text: "second" },
+    ]);
+  });
+});
+
+describe("diffWords", () => {
+  it("should report changed words with offsets into the old text", () => {
+    const before = "Dear Adjuster,\nThe quick brown fox paid $100.\nRegards.";
+    const after = "Dear Adjuster,\nThe slow red fox paid $250 promptly.\nRegards.";
+
+    const changes = diffWords(before, after);
+
+    expect(changes).toEqual([
+      {
+        start: before.indexOf("quick"),
+        end: before.indexOf(" fox"),
+        deleted: "quick brown",
+        inserted: "slow red",
+      },
+      {
+        start: before.indexOf("$100."),
+        end: before.indexOf("$100.") + 5,
+        deleted: "$100.",
+        inserted: "$250 promptly.",
+      },
+    ]);
+  });
+
+  it("should not merge changes across lines", () => {
+    expect(diffWords("one\ntwo", "uno\ndos")).toEqual([
+      { start: 0, end: 3, deleted: "one", inserted: "uno" },
+      { start: 4, end: 7, deleted: "two", inserted: "dos" },
+    ]);
+  });
+
+  it("should report nothing for identical text", () => {
+    expect(diffWords("same text", "same text")).toEqual([]);
+  });
+});
+
+describe("diffWordHunks", () => {
+  const before =
+    "Dear Adjuster,\n\nOur client was injured on March 3 and incurred $12,000 in bills.\n\nWe expect payment.";
+  const after =
+    "Dear Adjuster,\n\nOur client was seriously injured on March 3 and incurred $14,500 in bills.\n\nWe demand payment.";
+
+  it("should give offsets into both texts and the words around each change", () => {
+    const diff = diffWordHunks(before, after);
+
+    expect(diff).toMatchObject({ addedWords: 3, removedWords: 2, truncated: false });
+    expect(diff.hunks).toHaveLength(3);
+    for (const hunk of diff.hunks) {
+      expect(before.slice(hunk.beforeStart, hunk.beforeEnd)).toBe(hunk.deleted);
+      expect(after.slice(hunk.afterStart, hunk.afterEnd)).toBe(hunk.inserted);
+    }
+    expect(diff.hunks[1]).toMatchObject({
+      index: 1,
+      deleted: "$12,000",
+      inserted: "$14,500",
+      contextBefore: "injured on March 3 and incurred ",
+      contextAfter: " in bills.\n\nWe ",
+    });
+  });
+
+  it("should put back the old text of only the hunks reverted", () => {
+    const { hunks } = diffWordHunks(before, after);
+
+    expect(revertHunks(after, [hunks[0], hunks[2]])).toBe(
+      "Dear Adjuster,\n\nOur client was injured on March 3 and incurred $14,500 in bills.\n\nWe expect payment."
+    );
+    expect(revertHunks(after, hunks)).toBe(before);
+  });
+});
@@ -0,0 +1,115 @@
+/**
+ * Unit tests for token_budget.ts
+ */
+
+import {
+  DEFAULT_MODEL_ID,
+  chunkTokenLimit,
+  getModelProfile,
+  planGeneration,
+  sourceTokenLimit,
+} from "../token_budget";
+
+describe("token_budget", () => {
+  afterEach(() => {
+    delete process.env.BEDROCK_MODEL_ID;
+    delete process.env.AI_CONTEXT_TOKENS;
+    delete process.env.AI_MAX_PROMPT_TOKENS;
+  });
+
+  describe("getModelProfile", () => {
+    it("should use the context window of the configured model", () => {
+      expect(getModelProfile()).toEqual({
+        modelId: DEFAULT_MODEL_ID,
+        contextWindow: 200000,
+        maxOutputTokens: 4096,
+        maxPromptTokens: 32000,
+      });
+
+      process.env.BEDROCK_MODEL_ID = "anthropic.claude-instant-v1";
+      expect(getModelProfile().contextWindow).toBe(100000);
+    });
+
+    it("should let AI_CONTEXT_TOKENS override the window and cap output", () => {
+      process.env.AI_CONTEXT_TOKENS = "8000";
+      expect(getModelProfile()).toEqual(
+        expect.objectContaining({
+          contextWindow: 8000,
+          maxOutputTokens: 2000,
+          maxPromptTokens: 5600, // 7600 - 2000
+        })
+      );
+    });
+
+    it("should let AI_MAX_PROMPT_TOKENS set the per-call prompt budget", () => {
+      process.env.AI_MAX_PROMPT_TOKENS = "100000";
+      expect(getModelProfile().maxPromptTokens).toBe(100000);
+
+      // Never more than the window leaves after the output
+      process.env.AI_MAX_PROMPT_TOKENS = "500000";
+      expect(getModelProfile().maxPromptTokens).toBe(185904); // 190000 - 4096
+    });
+  });
+
+  describe("limits", () => {
+    it("should size chunks and whole documents to the per-call budget", () => {
+      const large = getModelProfile();
+      expect(chunkTokenLimit(large)).toBe(24000);
+      expect(sourceTokenLimit(large)).toBe(24000); // 32000 - 8000
+
+      process.env.AI_CONTEXT_TOKENS = "8000";
+      const small = getModelProfile();
+      expect(chunkTokenLimit(small)).toBeLessThan(5600);
+      expect(sourceTokenLimit(small)).toBe(4200); // 5600 - 1400
+    });
+  });
+
+  describe("planGeneration", () => {
+    const parts = {
+      prompt: "Template: Dear adjuster\nInstructions: Be firm\nSources: The client was injured",
+      template: "Dear adjuster",
+      instructions: "Be firm",
+      sources: ["The client was injured"],
+    };
+
+    it("should plan a single prompt when it fits with the expected output", () => {
+      const budget = planGeneration(getModelProfile(), parts);
+
+      expect(budget.strategy).toBe("single");
+      expect(budget.chunkTokens).toBeUndefined();
+      expect(budget.outputTokens).toBe(4096);
+      expect(budget.promptTokens).toEqual({
+        template: 3, // "adjuster" is two tokens
+        instructions: 2,
+        sources: 4,
+        system: budget.promptTokens.total - 9,
+        total: expect.any(Number),
+      });
+      expect(budget.maxPromptTokens).toBe(32000);
+      expect(budget.availableTokens).toBe(32000 - budget.promptTokens.total);
+    });
+
+    it("should plan map-reduce when the prompt does not fit", () => {
+      process.env.AI_CONTEXT_TOKENS = "20";
+      const budget = planGeneration(getModelProfile(), parts);
+
+      expect(budget.strategy).toBe("map-reduce");
+      expect(budget.availableTokens).toBeLessThan(0);
+      expect(budget.chunkTokens).toBe(500);
+    });
+
+    it("should plan map-reduce for sources over the per-call budget", () => {
+      const sources = "The client was injured. ".repeat(8000); // ~40000 tokens
+      const budget = planGeneration(getModelProfile(), {
+        ...parts,
+        prompt: parts.prompt + sources,
+        sources: [sources],
+      });
+
+      // Fits the 200K context window, but not one call
+      expect(budget.promptTokens.total).toBeLessThan(190000 - 4096);
+      expect(budget.strategy).toBe("map-reduce");
+      expect(budget.chunkTokens).toBe(24000);
+    });
+  });
+});
@@ -0,0 +1,134 @@
+/**
+ * Unit tests for tokenizer.ts
+ */
+
+import { countTokens, prefixWithinTokens } from "../tokenizer";
+
+describe("countTokens", () => {
+  it("should count common words as one token each", () => {
+    expect(countTokens("")).toBe(0);
+    expect(countTokens("The client was injured")).toBe(4);
+  });
+
+  it("should split long words, numbers and punctuation", () => {
+    expect(countTokens("hospitalization")).toBe(4); // 15 letters
+    expect(countTokens("2024")).toBe(2); // digits in groups of 3
+    expect(countTokens("$1,250.00")).toBe(6); // $ 1 , 250 . 00
+    expect(countTokens("SSN 123-45-6789")).toBe(7);
+  });
+
+  it("should count line breaks", () => {
+    expect(countTokens("Dear Sir,\n\nThank you")).toBe(7); // 2 line breaks
+  });
+
+  it("should merge runs of spaces", () => {
+    expect(countTokens("Q.        And")).toBe(4); // Q . 8 spaces And
+  });
+});
+
+/**
+ * Case-file text with its token count from Claude's tokenizer
+ * (@anthropic-ai/tokenizer countTokens)
+ */
+const CLAUDE_SAMPLES: { name: string; claudeTokens: number; text: string }[] = [
+  {
+    name: "demand letter",
+    claudeTokens: 144,
+    text: `Dear Claims Adjuster,
+
+This firm represents Maria Gonzalez in connection with injuries she sustained in a motor vehicle collision on March 14, 2023, at the intersection of Fifth Avenue and Main Street in Springfield, Illinois. Your insured, Robert Thompson, failed to yield the right of way and struck our client's vehicle on the driver's side.
+
+As a direct result of the collision, Ms. Gonzalez suffered a cervical strain, a lumbar disc herniation at L4-L5, and a concussion. She was transported by ambulance to Springfield Memorial Hospital, where she was evaluated in the emergency department and released the same day with instructions to follow up with her primary care physician.`,
+  },
+  {
+    name: "medical record",
+    claudeTokens: 291,
+    text: `PATIENT: GONZALEZ, MARIA   DOB: 07/22/1981   MRN: 004417823
+DATE OF SERVICE: 03/14/2023   PROVIDER: Springfield Memorial Hospital ED
+
+CHIEF COMPLAINT: Neck pain, low back pain, headache s/p MVC.
+HPI: 41 y/o F restrained driver in T-bone collision, driver side impact, approx. 35 mph. +LOC x ~30 sec per EMS. Denies N/V. Reports 8/10 neck pain, 7/10 LBP radiating to L buttock.
+
+VITALS: BP 142/88, HR 96, RR 18, SpO2 98% RA, T 98.6F
+EXAM: C-spine TTP midline C5-C7. Paraspinal spasm bilat. L SLR + at 45 deg. Strength 5/5 BLE. GCS 15.
+
+IMAGING: CT head w/o contrast - neg for acute intracranial abnormality. XR C-spine 3V - straightening of lordosis, no fx. MRI L-spine (04/02/2023): L4-L5 broad-based disc protrusion w/ L paracentral extrusion contacting traversing L5 nerve root.
+
+ASSESSMENT:`,
+  },
+  {
+    name: "billing statement",
+    claudeTokens: 256,
+    text: `STATEMENT OF ACCOUNT                         Account #: 7781-2290-01
+Springfield Orthopedic Associates, LLC       Statement Date: 10/31/2023
+1200 W. Jefferson Blvd., Suite 400
+Springfield, IL 62702                        Phone: (217) 555-0143
+
+DATE        CPT     DESCRIPTION                          CHARGES    PAYMENTS    BALANCE
+04/05/2023  99204   New patient office visit, level 4     $425.00       $0.00    $425.00
+04/05/2023  72148   MRI lumbar spine w/o contrast       $2,150.00       $0.00  $2,575.00
+05/10/2023  62323   Lumbar epidural steroid injection   $1,875.00    -$312.50  $4,137.50
+06/21/2023  62323   Lumbar epidural steroid injection   $1,875.00       $0.00  $6,012.50
+07/19/2023  99214   Established patient visit, level 4    $235.00       $0.00  $6,247.50`,
+  },
+  {
+    name: "email with headers and a URL",
+    claudeTokens: 169,
+    text: `From: "Whitfield, Jonathan" <jwhitfield@whitfieldlaw.com>
+To: claims.intake@midwestmutual-insurance.com
+Cc: paralegal.team@whitfieldlaw.com
+Subject: RE: Claim No. MWM-2023-0448172 / Insured: Robert Thompson / DOL 3/14/2023
+Date: Tue, 7 Nov 2023 16:42:09 -0600
+
+Good afternoon Ms. Okonkwo-Bauer,
+
+Following up on our call today: attached please find the supplemental records from Dr. Nguyễn (orthopedics) and the updated itemized billing ledger. Per your request, I've also included the HIPAA authorization executed 11/02/2023.
+`,
+  },
+  {
+    name: "deposition transcript",
+    claudeTokens: 147,
+    text: `     1          Q.   And what happened when you reached the
+     2     intersection?
+     3          A.   The light was green for me, so I kept going.
+     4     I was maybe going thirty, thirty-five.
+     5          Q.   Did you see the defendant's vehicle before
+     6     the impact?
+     7          A.   No. I -- I didn't see anything until it hit
+     8     me.  It just came out of nowhere.
+     9               MR. HARRINGTON:  Objection; form.
+    10          Q.   (BY MR. WHITFIELD)  You can answer.
+    11          A.   I didn't see it.`,
+  },
+];
+
+describe("countTokens against Claude's tokenizer", () => {
+  it.each(CLAUDE_SAMPLES)(
+    "should count the $name within the safety margin or above",
+    ({ text, claudeTokens }) => {
+      const tokens = countTokens(text);
+      // Under-counting past the budget's 5% safety margin overflows prompts
+      expect(tokens).toBeGreaterThanOrEqual(Math.floor(claudeTokens * 0.95));
+      // Over-counting wastes context but must stay close
+      expect(tokens).toBeLessThanOrEqual(Math.ceil(claudeTokens * 1.3));
+    }
+  );
+});
+
+describe("prefixWithinTokens", () => {
+  it("should return the whole text when it fits", () => {
+    expect(prefixWithinTokens("The client was injured", 10)).toBe(22);
+  });
+
+  it("should stop at the last piece that fits", () => {
+    const text = "The client was injured";
+    const length = prefixWithinTokens(text, 2);
+    expect(text.slice(0, length)).toBe("The client");
+    expect(countTokens(text.slice(0, length))).toBeLessThanOrEqual(2);
+  });
+
+  it("should cut a long piece in proportion to its tokens", () => {
+    expect(prefixWithinTokens("x".repeat(4000), 500)).toBe(2000);
+    expect(prefixWithinTokens("hospitalization", 0)).toBe(1);
+  });
+});
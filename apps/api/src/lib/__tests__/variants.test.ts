@@ -0,0 +1,105 @@
+/**
+ * Unit tests for variants.ts
+ */
+
+import { Claim } from "../citations";
+import { composeFromVariants, splitParagraphs } from "../variants";
+
+const claimAt = (text: string, sentence: string, supported = true): Claim => {
+  const start = text.indexOf(sentence);
+  return {
+    start,
+    end: start + sentence.length,
+    text: sentence,
+    figures: [
+      {
+        text: "$100",
+        kind: "money",
+        start: start + sentence.indexOf("$100"),
+        end: start + sentence.indexOf("$100") + 4,
+        supported,
+      },
+    ],
+    supports: [],
+    supported,
+  };
+};
+
+describe("splitParagraphs", () => {
+  it("should split at blank lines and keep offsets into the draft", () => {
+    const text = "Dear Adjuster,\n\nFirst line\nsecond line.\n \n\nClosing.\n";
+    const paragraphs = splitParagraphs(text);
+
+    expect(paragraphs.map((paragraph) => paragraph.text)).toEqual([
+      "Dear Adjuster,",
+      "First line\nsecond line.",
+      "Closing.",
+    ]);
+    for (const paragraph of paragraphs) {
+      expect(text.slice(paragraph.start, paragraph.end)).toBe(paragraph.text);
+    }
+  });
+
+  it("should return no paragraphs for blank text", () => {
+    expect(splitParagraphs(" \n\n ")).toEqual([]);
+  });
+});
+
+describe("composeFromVariants", () => {
+  const first = "Dear Adjuster,\n\nBills total $100 to date.\n\nSincerely.";
+  const second = "To the adjuster:\n\nCharges came to $100 overall.\n\nRegards.";
+  const variants = [
+    {
+      id: "v1",
+      draftText: first,
+      citations: {
+        claims: [claimAt(first, "Bills total $100 to date.")],
+        unsupportedCount: 0,
+      },
+    },
+    {
+      id: "v2",
+      draftText: second,
+      citations: {
+        claims: [claimAt(second, "Charges came to $100 overall.", false)],
+        unsupportedCount: 1,
+      },
+    },
+  ];
+
+  it("should join picked paragraphs and move their claims", () => {
+    const result = composeFromVariants(
+      [
+        { variantId: "v1", index: 0 },
+        { variantId: "v2", index: 1 },
+        { variantId: "v1", index: 2 },
+      ],
+      variants
+    );
+
+    expect(result.problems).toEqual([]);
+    expect(result.draftText).toBe(
+      "Dear Adjuster,\n\nCharges came to $100 overall.\n\nSincerely."
+    );
+    expect(result.citations.unsupportedCount).toBe(1);
+    const [claim] = result.citations.claims;
+    expect(result.draftText.slice(claim.start, claim.end)).toBe(claim.text);
+    const [figure] = claim.figures;
+    expect(result.draftText.slice(figure.start, figure.end)).toBe("$100");
+  });
+
+  it("should report unknown variants and paragraphs", () => {
+    const result = composeFromVariants(
+      [
+        { variantId: "missing", index: 0 },
+        { variantId: "v1", index: 7 },
+      ],
+      variants
+    );
+
+    expect(result.problems).toEqual([
+      "paragraphs[0]: variant not found",
+      "paragraphs[1]: the variant has no paragraph 7",
+    ]);
+  });
+});
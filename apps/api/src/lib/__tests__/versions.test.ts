@@ -0,0 +1,39 @@
+/**
+ * Unit tests for versions.ts
+ */
+
+import { formatVersionRef, parseVersionRef } from "../versions";
+
+const ID = "3f2b8c1e-4d5a-4b6c-9e7f-0a1b2c3d4e5f";
+
+describe("parseVersionRef", () => {
+  it("should read the current draft and kinds with an ID", () => {
+    expect(parseVersionRef("current")).toEqual({ kind: "current", id: null });
+    expect(parseVersionRef(`refinement:${ID}`)).toEqual({
+      kind: "refinement",
+      id: ID,
+    });
+    expect(parseVersionRef(`snapshot:${ID}`)).toEqual({
+      kind: "snapshot",
+      id: ID,
+    });
+    expect(parseVersionRef(`branch:${ID}`)).toEqual({
+      kind: "branch",
+      id: ID,
+    });
+  });
+
+  it("should reject unknown kinds and IDs that are not UUIDs", () => {
+    for (const value of [`draft:${ID}`, "run:42", `:${ID}`, ID, 7, undefined]) {
+      expect(parseVersionRef(value)).toBeNull();
+    }
+  });
+});
+
+describe("formatVersionRef", () => {
+  it("should write references parseVersionRef reads back", () => {
+    for (const value of ["current", `run:${ID}`]) {
+      expect(formatVersionRef(parseVersionRef(value)!)).toBe(value);
+    }
+  });
+});
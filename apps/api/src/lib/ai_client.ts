@@ -0,0 +1,486 @@
+/**
+ * AI model access behind a pluggable provider
+ * - lambda: direct invocation of the AI Lambda (Mangum/FastAPI wrapper around
+ *   Bedrock) with the API Gateway HTTP API v2 event it expects (default);
+ *   streams with Lambda response streaming
+ * - http: POST to a model endpoint speaking the AI service's /generate
+ *   contract ({ prompt } in, { text } out), e.g. the FastAPI app run locally
+ * - stub: deterministic local responses so generate/refine/export run
+ *   offline in tests and local development
+ * Select with AI_PROVIDER; every call goes through invokeAiModel, or
+ * streamAiModel when the caller shows text as it is produced.
+ */
+
+import crypto from "crypto";
+import axios from "axios";
+import {
+  LambdaClient,
+  InvokeCommand,
+  InvokeCommandInput,
+  InvokeWithResponseStreamCommand,
+} from "@aws-sdk/client-lambda";
+import { retry } from "./retry";
+
+export interface AiInvokeOptions {
+  timeoutMs?: number; // per-invocation request timeout
+  maxAttempts?: number;
+  signal?: AbortSignal; // aborts the upstream call (e.g. the user cancelled)
+}
+
+export type AiProviderName = "lambda" | "http" | "stub";
+
+export interface AiProvider {
+  name: AiProviderName;
+  /**
+   * Send one prompt to the model (no retries; invokeAiModel retries)
+   * @returns Raw generated text (not cleaned)
+   */
+  generate(
+    prompt: string,
+    timeoutMs: number,
+    signal?: AbortSignal
+  ): Promise<string>;
+  /**
+   * Send one prompt and report text as the model produces it
+   * Providers without streaming omit this; streamAiModel then reports the
+   * whole response at once.
+   * @returns Raw generated text (not cleaned)
+   */
+  stream?(
+    prompt: string,
+    timeoutMs: number,
+    onText: (text: string) => void,
+    signal?: AbortSignal
+  ): Promise<string>;
+}
+
+const AI_PROVIDER_NAMES: AiProviderName[] = ["lambda", "http", "stub"];
+
+/**
+ * Name of the AI Lambda function for the current app/environment
+ */
+export function getAiFunctionName(): string {
+  return (
+    process.env.AI_FUNCTION_NAME ||
+    `${process.env.APP || "stenoai"}-${process.env.ENV || "dev"}-ai`
+  );
+}
+
+/**
+ * Event the AI Lambda's Mangum adapter expects (API Gateway HTTP API v2)
+ */
+function lambdaHttpEvent(path: string, prompt: string) {
+  return {
+    version: "2.0",
+    routeKey: `POST ${path}`,
+    rawPath: path,
+    rawQueryString: "",
+    headers: {
+      "content-type": "application/json",
+      host: "localhost",
+      "user-agent": "lambda-invoke",
+    },
+    requestContext: {
+      http: {
+        method: "POST",
+        path,
+        sourceIp: "127.0.0.1",
+        userAgent: "lambda-invoke",
+      },
+      requestId: `req-${Date.now()}`,
+      domainName: "lambda.internal",
+      stage: "prod",
+    },
+    body: JSON.stringify({ prompt }),
+    isBase64Encoded: false,
+  };
+}
+
+// A function using response streaming (e.g. behind the Lambda Web Adapter)
+// starts its response with a JSON prelude holding the status code, ended by
+// 8 NUL bytes, then sends the body as it is produced
+const STREAM_PRELUDE_END = Buffer.alloc(8);
+
+interface LambdaHttpResponse {
+  statusCode?: number;
+  body: string;
+}
+
+/**
+ * Read an AI Lambda response, either a buffered Mangum response
+ * ({ statusCode, body }) or a streamed prelude followed by the body
+ */
+function parseLambdaHttpResponse(payload: Uint8Array): LambdaHttpResponse {
+  const bytes = Buffer.from(payload);
+  const preludeEnd = bytes.indexOf(STREAM_PRELUDE_END);
+  if (preludeEnd !== -1) {
+    const prelude = JSON.parse(bytes.subarray(0, preludeEnd).toString("utf8"));
+    return {
+      statusCode: prelude.statusCode ?? 200,
+      body: bytes.subarray(preludeEnd + STREAM_PRELUDE_END.length).toString("utf8"),
+    };
+  }
+
+  const parsed = JSON.parse(bytes.toString("utf8"));
+  if (parsed?.statusCode) {
+    return { statusCode: parsed.statusCode, body: parsed.body || "" };
+  }
+  // Direct response without the HTTP envelope
+  return { body: JSON.stringify(parsed) };
+}
+
+function lambdaHttpError(response: LambdaHttpResponse): Error {
+  return new Error(
+    `AI Lambda returned error: ${response.statusCode} - ${response.body}`
+  );
+}
+
+/**
+ * Provider invoking the AI Lambda directly (works within the VPC)
+ * Streams by invoking /generate/stream with response streaming, so text
+ * arrives as the model writes it when the function streams its responses;
+ * a function that buffers them reports the whole draft at once.
+ */
+export function createLambdaProvider(
+  functionName: string = getAiFunctionName()
+): AiProvider {
+  const clients = new Map<number, LambdaClient>();
+  const clientFor = (timeoutMs: number) => {
+    let client = clients.get(timeoutMs);
+    if (!client) {
+      client = new LambdaClient({
+        region: process.env.REGION || "us-east-1",
+        requestHandler: { requestTimeout: timeoutMs },
+      });
+      clients.set(timeoutMs, client);
+    }
+    return client;
+  };
+
+  return {
+    name: "lambda",
+    async generate(prompt, timeoutMs, signal) {
+      const invokeParams: InvokeCommandInput = {
+        FunctionName: functionName,
+        Payload: JSON.stringify(lambdaHttpEvent("/generate", prompt)),
+        InvocationType: "RequestResponse",
+      };
+
+      console.log(`Invoking AI Lambda: ${functionName}`);
+      const startTime = Date.now();
+      const response = await clientFor(timeoutMs).send(
+        new InvokeCommand(invokeParams),
+        { abortSignal: signal }
+      );
+      console.log(`AI Lambda invocation completed in ${Date.now() - startTime}ms`);
+
+      if (response.FunctionError) {
+        const errorPayload = response.Payload
+          ? JSON.parse(new TextDecoder().decode(response.Payload))
+          : null;
+        throw new Error(
+          `Lambda invocation failed: ${
+            response.FunctionError
+          } - ${JSON.stringify(errorPayload)}`
+        );
+      }
+
+      const result = parseLambdaHttpResponse(response.Payload ?? new Uint8Array());
+      if (result.statusCode && result.statusCode !== 200) {
+        throw lambdaHttpError(result);
+      }
+      if (!result.body) return "";
+      return (JSON.parse(result.body)?.text as string) || "";
+    },
+    async stream(prompt, timeoutMs, onText, signal) {
+      console.log(`Invoking AI Lambda with response streaming: ${functionName}`);
+      const response = await clientFor(timeoutMs).send(
+        new InvokeWithResponseStreamCommand({
+          FunctionName: functionName,
+          Payload: JSON.stringify(lambdaHttpEvent("/generate/stream", prompt)),
+        }),
+        { abortSignal: signal }
+      );
+
+      const decoder = new TextDecoder();
+      // Bytes received before the prelude (or the whole buffered response)
+      let head = Buffer.alloc(0);
+      let streaming = false;
+      let failed: LambdaHttpResponse | null = null;
+      let text = "";
+      const report = (bytes: Uint8Array) => {
+        const piece = decoder.decode(bytes, { stream: true });
+        if (!piece) return;
+        if (failed) {
+          failed.body += piece;
+          return;
+        }
+        text += piece;
+        onText(piece);
+      };
+
+      for await (const event of response.EventStream ?? []) {
+        if (event.InvokeComplete?.ErrorCode) {
+          throw new Error(
+            `Lambda invocation failed: ${event.InvokeComplete.ErrorCode} - ${
+              event.InvokeComplete.ErrorDetails || ""
+            }`
+          );
+        }
+        const chunk = event.PayloadChunk?.Payload;
+        if (!chunk) continue;
+        if (streaming) {
+          report(chunk);
+          continue;
+        }
+
+        head = Buffer.concat([head, chunk]);
+        const preludeEnd = head.indexOf(STREAM_PRELUDE_END);
+        if (preludeEnd === -1) continue;
+        const { statusCode = 200 } = JSON.parse(
+          head.subarray(0, preludeEnd).toString("utf8")
+        );
+        streaming = true;
+        if (statusCode !== 200) {
+          failed = { statusCode, body: "" };
+        }
+        report(head.subarray(preludeEnd + STREAM_PRELUDE_END.length));
+      }
+
+      if (!streaming) {
+        // The function buffered its response: the body is the whole text
+        const result = parseLambdaHttpResponse(head);
+        if (result.statusCode && result.statusCode !== 200) {
+          throw lambdaHttpError(result);
+        }
+        if (result.body) onText(result.body);
+        return result.body;
+      }
+
+      const rest = decoder.decode();
+      if (failed) {
+        failed.body += rest;
+        throw lambdaHttpError(failed);
+      }
+      if (rest) {
+        text += rest;
+        onText(rest);
+      }
+      return text;
+    },
+  };
+}
+
+/**
+ * Provider calling a model endpoint over HTTP
+ * Streams from `${url}/stream`, which returns the text as a plain-text
+ * chunked response (the AI service's /generate/stream).
+ * @param url - Full endpoint URL, e.g. http://localhost:8000/generate
+ * @param apiKey - Sent as a bearer token when set
+ */
+export function createHttpProvider(url: string, apiKey?: string): AiProvider {
+  const headers = {
+    "content-type": "application/json",
+    ...(apiKey && { authorization: `Bearer ${apiKey}` }),
+  };
+
+  return {
+    name: "http",
+    async generate(prompt, timeoutMs, signal) {
+      const response = await axios.post(
+        url,
+        { prompt },
+        { timeout: timeoutMs, headers, signal }
+      );
+      return (response.data?.text as string) || "";
+    },
+    async stream(prompt, timeoutMs, onText, signal) {
+      const response = await axios.post(
+        `${url.replace(/\/+$/, "")}/stream`,
+        { prompt },
+        { timeout: timeoutMs, headers, signal, responseType: "stream" }
+      );
+
+      const decoder = new TextDecoder();
+      let text = "";
+      for await (const chunk of response.data as AsyncIterable<Buffer>) {
+        const piece = decoder.decode(chunk, { stream: true });
+        if (piece) {
+          text += piece;
+          onText(piece);
+        }
+      }
+      const rest = decoder.decode();
+      if (rest) {
+        text += rest;
+        onText(rest);
+      }
+      return text;
+    },
+  };
+}
+
+/**
+ * Deterministic provider for tests and offline development
+ * The same prompt always gets the same response: "{}" for JSON extraction
+ * prompts, a filename for export filename prompts, and otherwise a short
+ * placeholder draft naming the prompt's fingerprint.
+ * @param respond - Optional override producing the response for a prompt
+ */
+export function createStubProvider(
+  respond?: (prompt: string) => string
+): AiProvider {
+  const answer = (prompt: string): string => {
+    if (respond) {
+      return respond(prompt);
+    }
+    if (/return only a json object/i.test(prompt)) {
+      return "{}";
+    }
+    if (/generate only the filename/i.test(prompt)) {
+      return "Stub_Draft";
+    }
+    const fingerprint = crypto
+      .createHash("sha256")
+      .update(prompt)
+      .digest("hex")
+      .substring(0, 12);
+    return `This draft was written by the local stub AI provider.\n\nPrompt fingerprint: ${fingerprint} (${prompt.length} characters).`;
+  };
+
+  return {
+    name: "stub",
+    async generate(prompt, _timeoutMs, signal) {
+      signal?.throwIfAborted();
+      return answer(prompt);
+    },
+    // Reports the answer word by word, yielding between words so callers
+    // can cancel part-way like a real stream
+    async stream(prompt, _timeoutMs, onText, signal) {
+      const text = answer(prompt);
+      for (const piece of text.match(/\S+\s*|\s+/g) || []) {
+        await new Promise((resolve) => setImmediate(resolve));
+        signal?.throwIfAborted();
+        onText(piece);
+      }
+      return text;
+    },
+  };
+}
+
+let activeProvider: AiProvider | null = null;
+
+/**
+ * Build the provider selected by AI_PROVIDER (default: lambda)
+ * @throws Error if AI_PROVIDER is unknown or http is missing AI_HTTP_URL
+ */
+export function providerFromEnv(): AiProvider {
+  const name = (process.env.AI_PROVIDER || "lambda").toLowerCase();
+  if (!AI_PROVIDER_NAMES.includes(name as AiProviderName)) {
+    throw new Error(
+      `Unknown AI_PROVIDER "${name}" (expected ${AI_PROVIDER_NAMES.join(", ")})`
+    );
+  }
+
+  switch (name as AiProviderName) {
+    case "http": {
+      const url = process.env.AI_HTTP_URL;
+      if (!url) {
+        throw new Error("Server configuration error: AI_HTTP_URL not configured");
+      }
+      return createHttpProvider(url, process.env.AI_HTTP_API_KEY);
+    }
+    case "stub":
+      return createStubProvider();
+    default:
+      return createLambdaProvider();
+  }
+}
+
+/**
+ * Provider used by invokeAiModel, created from the environment on first use
+ */
+export function getAiProvider(): AiProvider {
+  if (!activeProvider) {
+    activeProvider = providerFromEnv();
+  }
+  return activeProvider;
+}
+
+/**
+ * Replace the provider (tests, local tooling); null re-reads the environment
+ */
+export function setAiProvider(provider: AiProvider | null): void {
+  activeProvider = provider;
+}
+
+/**
+ * Send a prompt to the configured AI provider
+ * @param prompt - Complete prompt text
+ * @param options - Timeout, retry and cancellation settings
+ * @returns Raw generated text (not cleaned)
+ * @throws Error if the invocation fails after all retries
+ */
+export async function invokeAiModel(
+  prompt: string,
+  options: AiInvokeOptions = {}
+): Promise<string> {
+  const { timeoutMs = 110000, maxAttempts = 5, signal } = options;
+  const provider = getAiProvider();
+
+  return retry(() => provider.generate(prompt, timeoutMs, signal), {
+    maxAttempts,
+    initialDelayMs: 100,
+  });
+}
+
+/**
+ * Send a prompt to the configured AI provider and report text as it arrives
+ * Providers that cannot stream report the whole response once it is ready.
+ * A stream is retried only until its first text has been reported.
+ * @param prompt - Complete prompt text
+ * @param onText - Called with each new piece of text
+ * @param options - Timeout, retry and cancellation settings
+ * @returns Raw generated text (not cleaned)
+ * @throws Error if the invocation fails or is aborted
+ */
+export async function streamAiModel(
+  prompt: string,
+  onText: (text: string) => void,
+  options: AiInvokeOptions = {}
+): Promise<string> {
+  const { timeoutMs = 110000, maxAttempts = 5, signal } = options;
+  const provider = getAiProvider();
+
+  if (!provider.stream) {
+    const text = await invokeAiModel(prompt, options);
+    if (text) onText(text);
+    return text;
+  }
+
+  const stream = provider.stream.bind(provider);
+  let started = false;
+  const result = await retry(
+    async (): Promise<{ text: string } | { error: unknown }> => {
+      try {
+        const text = await stream(
+          prompt,
+          timeoutMs,
+          (piece) => {
+            started = true;
+            onText(piece);
+          },
+          signal
+        );
+        return { text };
+      } catch (error) {
+        // Text already reported cannot be taken back, so stop retrying
+        if (started) return { error };
+        throw error;
+      }
+    },
+    { maxAttempts, initialDelayMs: 100 }
+  );
+  if ("error" in result) throw result.error;
+  return result.text;
+}
@@ -0,0 +1,442 @@
+/**
+ * Structured case facts extracted from source documents
+ * The model returns each fact with a verbatim quote; the quote is located in
+ * the source text so every fact carries a character span users can check.
+ */
+
+export interface FactSource {
+  documentId: string;
+  start: number; // offsets into the source document's extracted_text
+  end: number;
+  quote: string;
+}
+
+export interface Fact {
+  value: string;
+  source: FactSource | null; // null when entered by hand or the quote was not found
+}
+
+export interface MedicalSpecial {
+  provider: string;
+  date: string | null; // YYYY-MM-DD
+  description: string;
+  amount: number;
+  source: FactSource | null;
+}
+
+export interface LostWages {
+  description: string;
+  amount: number;
+  source: FactSource | null;
+}
+
+export interface CaseFacts {
+  claimant: Fact | null;
+  defendant: Fact | null;
+  insurer: Fact | null;
+  incidentDate: Fact | null; // YYYY-MM-DD
+  injuries: Fact[];
+  treatmentProviders: Fact[];
+  medicalSpecials: MedicalSpecial[];
+  lostWages: LostWages[];
+}
+
+/**
+ * A slice of one source document sent to the model in one extraction call
+ */
+export interface FactWindow {
+  documentId: string;
+  text: string; // original (unredacted) text of the slice
+  offset: number; // start of the slice in the document's extracted_text
+}
+
+const SCALAR_FACTS = ["claimant", "defendant", "insurer", "incidentDate"] as const;
+const LIST_FACTS = ["injuries", "treatmentProviders"] as const;
+
+export function emptyCaseFacts(): CaseFacts {
+  return {
+    claimant: null,
+    defendant: null,
+    insurer: null,
+    incidentDate: null,
+    injuries: [],
+    treatmentProviders: [],
+    medicalSpecials: [],
+    lostWages: [],
+  };
+}
+
+/**
+ * Compose the fact-extraction prompt for one slice of source text
+ */
+export function buildFactsPrompt(text: string): string {
+  return `You are a paralegal extracting case facts for a personal injury demand letter. Read the source text and return the facts below as JSON.
+
+**Source Text:**
+${text.trim() || "No extracted text available."}
+
+Return ONLY a JSON object with exactly these keys:
+{
+  "claimant": {"value": "injured person's full name", "quote": "..."} or null,
+  "defendant": {"value": "at-fault party's name", "quote": "..."} or null,
+  "insurer": {"value": "defendant's insurance company", "quote": "..."} or null,
+  "incidentDate": {"value": "YYYY-MM-DD", "quote": "..."} or null,
+  "injuries": [{"value": "injury or diagnosis", "quote": "..."}],
+  "treatmentProviders": [{"value": "provider or facility name", "quote": "..."}],
+  "medicalSpecials": [{"provider": "...", "date": "YYYY-MM-DD or null", "description": "service billed", "amount": 123.45, "quote": "..."}],
+  "lostWages": [{"description": "...", "amount": 123.45, "quote": "..."}]
+}
+
+Rules:
+- "quote" must be copied verbatim from the source text (a short phrase that states the fact).
+- Only include facts stated in the source text. Use null or [] when a fact is not present; never guess.
+- Amounts are plain numbers in dollars without currency symbols or thousands separators.
+- Return the JSON object only, with no explanation or markdown.`;
+}
+
+/**
+ * Find a quote in source text, tolerating differences in whitespace and case
+ * @returns Character span of the quote, or null if it does not appear
+ */
+export function locateQuote(
+  text: string,
+  quote: string
+): { start: number; end: number } | null {
+  const trimmed = (quote || "").trim();
+  if (!trimmed || !text) {
+    return null;
+  }
+
+  const exact = text.indexOf(trimmed);
+  if (exact !== -1) {
+    return { start: exact, end: exact + trimmed.length };
+  }
+
+  const pattern = trimmed
+    .split(/\s+/)
+    .map((word) => word.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"))
+    .join("\\s+");
+  const match = new RegExp(pattern, "i").exec(text);
+  return match ? { start: match.index, end: match.index + match[0].length } : null;
+}
+
+function asString(value: unknown): string | null {
+  if (typeof value === "string" && value.trim()) {
+    return value.trim();
+  }
+  if (typeof value === "number" && Number.isFinite(value)) {
+    return String(value);
+  }
+  return null;
+}
+
+function asAmount(value: unknown): number | null {
+  const amount =
+    typeof value === "number"
+      ? value
+      : typeof value === "string"
+      ? parseFloat(value.replace(/[$,\s]/g, ""))
+      : NaN;
+  return Number.isFinite(amount) && amount >= 0
+    ? Math.round(amount * 100) / 100
+    : null;
+}
+
+/**
+ * Extract the JSON object from a model response (tolerates code fences)
+ * @throws Error if no JSON object can be parsed
+ */
+function parseJsonObject(raw: string): Record<string, any> {
+  const start = raw.indexOf("{");
+  const end = raw.lastIndexOf("}");
+  if (start !== -1 && end > start) {
+    try {
+      const parsed = JSON.parse(raw.slice(start, end + 1));
+      if (parsed && typeof parsed === "object" && !Array.isArray(parsed)) {
+        return parsed;
+      }
+    } catch {
+      // Fall through to the error below
+    }
+  }
+  throw new Error("Fact extraction returned invalid JSON");
+}
+
+/**
+ * Parse the model's JSON response for one window into CaseFacts
+ * @param raw - Model response text
+ * @param window - Source slice the response was generated from
+ * @param restore - Maps placeholder tokens in the response back to the
+ *   original values so quotes can be located in the unredacted text
+ * @throws Error if the response is not valid JSON
+ */
+export function parseFactsResponse(
+  raw: string,
+  window: FactWindow,
+  restore: (text: string) => string = (text) => text
+): CaseFacts {
+  const data = parseJsonObject(raw);
+  const facts = emptyCaseFacts();
+
+  const sourceFor = (quote: unknown): FactSource | null => {
+    const text = asString(quote);
+    const span = text ? locateQuote(window.text, restore(text)) : null;
+    if (!span) {
+      return null;
+    }
+    return {
+      documentId: window.documentId,
+      start: window.offset + span.start,
+      end: window.offset + span.end,
+      quote: window.text.slice(span.start, span.end),
+    };
+  };
+
+  const toFact = (item: any): Fact | null => {
+    const value = asString(item?.value);
+    return value ? { value, source: sourceFor(item?.quote) } : null;
+  };
+
+  for (const key of SCALAR_FACTS) {
+    facts[key] = toFact(data[key]);
+  }
+
+  for (const key of LIST_FACTS) {
+    facts[key] = (Array.isArray(data[key]) ? data[key] : [])
+      .map(toFact)
+      .filter((fact: Fact | null): fact is Fact => fact !== null);
+  }
+
+  for (const item of Array.isArray(data.medicalSpecials)
+    ? data.medicalSpecials
+    : []) {
+    const provider = asString(item?.provider);
+    const amount = asAmount(item?.amount);
+    if (!provider || amount === null) continue;
+    facts.medicalSpecials.push({
+      provider,
+      date: asString(item?.date),
+      description: asString(item?.description) ?? "",
+      amount,
+      source: sourceFor(item?.quote),
+    });
+  }
+
+  for (const item of Array.isArray(data.lostWages) ? data.lostWages : []) {
+    const amount = asAmount(item?.amount);
+    if (amount === null) continue;
+    facts.lostWages.push({
+      description: asString(item?.description) ?? "Lost wages",
+      amount,
+      source: sourceFor(item?.quote),
+    });
+  }
+
+  return facts;
+}
+
+/**
+ * Combine facts from several windows
+ * Single-valued facts keep the first value found; list entries are
+ * de-duplicated so overlapping windows do not double-count specials.
+ */
+export function mergeCaseFacts(base: CaseFacts, next: CaseFacts): CaseFacts {
+  const dedupe = <T>(items: T[], keyOf: (item: T) => string): T[] => {
+    const seen = new Set<string>();
+    return items.filter((item) => {
+      const key = keyOf(item).toLowerCase().replace(/\s+/g, " ");
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+  };
+
+  return {
+    claimant: base.claimant ?? next.claimant,
+    defendant: base.defendant ?? next.defendant,
+    insurer: base.insurer ?? next.insurer,
+    incidentDate: base.incidentDate ?? next.incidentDate,
+    injuries: dedupe([...base.injuries, ...next.injuries], (f) => f.value),
+    treatmentProviders: dedupe(
+      [...base.treatmentProviders, ...next.treatmentProviders],
+      (f) => f.value
+    ),
+    medicalSpecials: dedupe(
+      [...base.medicalSpecials, ...next.medicalSpecials],
+      (s) => `${s.provider}|${s.date ?? ""}|${s.amount}`
+    ),
+    lostWages: dedupe(
+      [...base.lostWages, ...next.lostWages],
+      (w) => `${w.description}|${w.amount}`
+    ),
+  };
+}
+
+function normalizeSource(source: any): FactSource | null {
+  if (
+    !source ||
+    typeof source.documentId !== "string" ||
+    !Number.isInteger(source.start) ||
+    !Number.isInteger(source.end) ||
+    source.end < source.start
+  ) {
+    return null;
+  }
+  return {
+    documentId: source.documentId,
+    start: source.start,
+    end: source.end,
+    quote: typeof source.quote === "string" ? source.quote : "",
+  };
+}
+
+/**
+ * Validate facts submitted from the Editor
+ * Sources are kept when well-formed so edited values still point at their span
+ * @returns Normalised facts, or null if the input is not a CaseFacts object
+ */
+export function normalizeCaseFacts(input: unknown): CaseFacts | null {
+  if (!input || typeof input !== "object" || Array.isArray(input)) {
+    return null;
+  }
+  const data = input as Record<string, any>;
+  const facts = emptyCaseFacts();
+
+  const toFact = (item: any): Fact | null => {
+    const value = asString(item?.value);
+    return value ? { value, source: normalizeSource(item?.source) } : null;
+  };
+
+  for (const key of SCALAR_FACTS) {
+    if (data[key] !== null && data[key] !== undefined && typeof data[key] !== "object") {
+      return null;
+    }
+    facts[key] = toFact(data[key]);
+  }
+
+  for (const key of [...LIST_FACTS, "medicalSpecials", "lostWages"]) {
+    if (data[key] !== undefined && !Array.isArray(data[key])) {
+      return null;
+    }
+  }
+
+  for (const key of LIST_FACTS) {
+    facts[key] = (data[key] ?? [])
+      .map(toFact)
+      .filter((fact: Fact | null): fact is Fact => fact !== null);
+  }
+
+  for (const item of data.medicalSpecials ?? []) {
+    const provider = asString(item?.provider);
+    const amount = asAmount(item?.amount);
+    if (!provider || amount === null) return null;
+    facts.medicalSpecials.push({
+      provider,
+      date: asString(item?.date),
+      description: asString(item?.description) ?? "",
+      amount,
+      source: normalizeSource(item?.source),
+    });
+  }
+
+  for (const item of data.lostWages ?? []) {
+    const amount = asAmount(item?.amount);
+    if (amount === null) return null;
+    facts.lostWages.push({
+      description: asString(item?.description) ?? "Lost wages",
+      amount,
+      source: normalizeSource(item?.source),
+    });
+  }
+
+  return facts;
+}
+
+export function formatAmount(amount: number): string {
+  return amount.toLocaleString("en-US", { style: "currency", currency: "USD" });
+}
+
+/**
+ * Render confirmed facts for the generation prompt
+ */
+export function formatCaseFacts(facts: CaseFacts): string {
+  const lines: string[] = [];
+  const scalar = (label: string, fact: Fact | null) => {
+    if (fact) lines.push(`${label}: ${fact.value}`);
+  };
+
+  scalar("Claimant", facts.claimant);
+  scalar("Defendant", facts.defendant);
+  scalar("Insurer", facts.insurer);
+  scalar("Incident date", facts.incidentDate);
+
+  if (facts.injuries.length > 0) {
+    lines.push("Injuries:", ...facts.injuries.map((fact) => `- ${fact.value}`));
+  }
+
+  if (facts.treatmentProviders.length > 0) {
+    lines.push(
+      "Treatment providers:",
+      ...facts.treatmentProviders.map((fact) => `- ${fact.value}`)
+    );
+  }
+
+  if (facts.medicalSpecials.length > 0) {
+    const total = facts.medicalSpecials.reduce((sum, s) => sum + s.amount, 0);
+    lines.push(
+      "Medical specials:",
+      ...facts.medicalSpecials.map(
+        (s) =>
+          `- ${s.provider}${s.date ? ` (${s.date})` : ""}${
+            s.description ? `: ${s.description}` : ""
+          } — ${formatAmount(s.amount)}`
+      ),
+      `Total medical specials: ${formatAmount(total)}`
+    );
+  }
+
+  if (facts.lostWages.length > 0) {
+    const total = facts.lostWages.reduce((sum, w) => sum + w.amount, 0);
+    lines.push(
+      "Lost wages:",
+      ...facts.lostWages.map(
+        (w) => `- ${w.description} — ${formatAmount(w.amount)}`
+      ),
+      `Total lost wages: ${formatAmount(total)}`
+    );
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Apply a transform to every free-text value in a facts record
+ * (used to redact values before they are sent to the model)
+ */
+export function mapFactValues(
+  facts: CaseFacts,
+  transform: (value: string) => string
+): CaseFacts {
+  const mapFact = (fact: Fact | null): Fact | null =>
+    fact ? { ...fact, value: transform(fact.value) } : null;
+
+  return {
+    claimant: mapFact(facts.claimant),
+    defendant: mapFact(facts.defendant),
+    insurer: mapFact(facts.insurer),
+    incidentDate: mapFact(facts.incidentDate),
+    injuries: facts.injuries.map((fact) => mapFact(fact) as Fact),
+    treatmentProviders: facts.treatmentProviders.map(
+      (fact) => mapFact(fact) as Fact
+    ),
+    medicalSpecials: facts.medicalSpecials.map((special) => ({
+      ...special,
+      provider: transform(special.provider),
+      description: transform(special.description),
+    })),
+    lostWages: facts.lostWages.map((wages) => ({
+      ...wages,
+      description: transform(wages.description),
+    })),
+  };
+}
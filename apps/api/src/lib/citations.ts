@@ -0,0 +1,498 @@
+/**
+ * Citation grounding for generated drafts
+ * Every sentence of a draft that states a figure (an amount, a date or a
+ * number) is a claim. Each figure is looked up in the source text, the
+ * confirmed case facts, the specials ledger and the template and
+ * instructions; claims with a figure found nowhere are flagged so the
+ * attorney checks them before export. Sentences without figures are linked
+ * to the source sentence they restate when one is close enough.
+ */
+
+import { CaseFacts, formatAmount } from "./case_facts";
+import { SpecialsLedger, parseServiceDate } from "./specials";
+
+export type FigureKind = "money" | "date" | "number";
+
+export interface ClaimFigure {
+  text: string;
+  kind: FigureKind;
+  start: number; // offsets into the draft
+  end: number;
+  supported: boolean;
+}
+
+/**
+ * Where a claim's figure or wording was found
+ */
+export interface ClaimSupport {
+  type: "source" | "case_facts" | "specials" | "template";
+  label: string; // source file, fact or ledger total
+  quote: string; // the supporting text
+  // Source spans: offsets into the document's extracted_text, with the text
+  // around the quote so it can be shown without loading the document
+  documentId?: string;
+  start?: number;
+  end?: number;
+  before?: string;
+  after?: string;
+}
+
+export interface Claim {
+  start: number; // offsets of the sentence in the draft
+  end: number;
+  text: string;
+  figures: ClaimFigure[];
+  supports: ClaimSupport[];
+  supported: boolean; // every figure was found
+}
+
+export interface DraftCitations {
+  claims: Claim[];
+  unsupportedCount: number; // claims with a figure found nowhere
+}
+
+export interface GroundingSource {
+  documentId: string;
+  label: string; // source file name
+  text: string; // extracted_text (not redacted)
+}
+
+export interface GroundingInput {
+  sources: GroundingSource[];
+  caseFacts?: CaseFacts | null; // confirmed facts only
+  specials?: SpecialsLedger | null;
+  // Template and instructions: figures the user supplied
+  references?: string[];
+}
+
+interface FoundFigure {
+  text: string;
+  kind: FigureKind;
+  key: string; // normalized value, e.g. "date:2024-03-05" or "num:125000"
+  start: number;
+  end: number;
+}
+
+const MONTH_NAMES = [
+  "jan",
+  "feb",
+  "mar",
+  "apr",
+  "may",
+  "jun",
+  "jul",
+  "aug",
+  "sep",
+  "oct",
+  "nov",
+  "dec",
+];
+
+const MONTH_DATE_PATTERN =
+  /\b(Jan(?:uary)?|Feb(?:ruary)?|Mar(?:ch)?|Apr(?:il)?|May|June?|July?|Aug(?:ust)?|Sept?(?:ember)?|Oct(?:ober)?|Nov(?:ember)?|Dec(?:ember)?)\.?\s+(\d{1,2})(?:st|nd|rd|th)?,?\s+(\d{4})\b/gi;
+const NUMERIC_DATE_PATTERN = /\b\d{4}-\d{2}-\d{2}\b|\b\d{1,2}\/\d{1,2}\/(?:\d{4}|\d{2})\b/g;
+const MONEY_PATTERN = /\$\s?\d{1,3}(?:,\d{3})+(?:\.\d{2})?|\$\s?\d+(?:\.\d{2})?/g;
+const NUMBER_PATTERN = /\b\d{1,3}(?:,\d{3})+(?:\.\d+)?%?|\b\d+(?:\.\d+)?%?/g;
+
+// Sentence ends that are abbreviations rather than full stops
+const ABBREVIATIONS = new Set([
+  "mr",
+  "mrs",
+  "ms",
+  "dr",
+  "st",
+  "jr",
+  "sr",
+  "no",
+  "inc",
+  "co",
+  "ltd",
+  "vs",
+  "etc",
+  "re",
+  ...MONTH_NAMES,
+  "sept",
+]);
+
+const STOPWORDS = new Set([
+  "that",
+  "this",
+  "with",
+  "from",
+  "have",
+  "were",
+  "been",
+  "which",
+  "their",
+  "there",
+  "would",
+  "your",
+  "these",
+  "those",
+  "into",
+  "also",
+  "when",
+  "they",
+  "them",
+  "after",
+  "before",
+  "other",
+  "such",
+  "will",
+  "shall",
+  "client",
+]);
+
+// A figure-free sentence restates a source sentence when most of its
+// content words appear there
+const MIN_SHARED_WORDS = 3;
+const MIN_SHARED_RATIO = 0.6;
+
+const CONTEXT_CHARS = 60;
+const MAX_SPANS_PER_VALUE = 3;
+
+function numberKey(text: string): string | null {
+  const value = parseFloat(text.replace(/[$,%\s]/g, ""));
+  return Number.isFinite(value) ? `num:${Math.round(value * 100)}` : null;
+}
+
+/**
+ * Find the amounts, dates and numbers in text
+ * Numbers inside dates and amounts are not figures of their own; plain
+ * numbers under 10 are skipped because they are usually counts written
+ * either way ("3 weeks", "three weeks").
+ */
+function findFigures(text: string): FoundFigure[] {
+  const figures: FoundFigure[] = [];
+  const taken = (start: number, end: number) =>
+    figures.some((figure) => start < figure.end && end > figure.start);
+
+  for (const match of text.matchAll(MONTH_DATE_PATTERN)) {
+    const month =
+      MONTH_NAMES.indexOf(match[1].slice(0, 3).toLowerCase()) + 1;
+    const day = parseInt(match[2], 10);
+    if (day < 1 || day > 31) continue;
+    figures.push({
+      text: match[0],
+      kind: "date",
+      key: `date:${match[3]}-${String(month).padStart(2, "0")}-${String(
+        day
+      ).padStart(2, "0")}`,
+      start: match.index!,
+      end: match.index! + match[0].length,
+    });
+  }
+
+  for (const match of text.matchAll(NUMERIC_DATE_PATTERN)) {
+    const date = parseServiceDate(match[0]);
+    const start = match.index!;
+    const end = start + match[0].length;
+    if (date && !taken(start, end)) {
+      figures.push({ text: match[0], kind: "date", key: `date:${date}`, start, end });
+    }
+  }
+
+  for (const match of text.matchAll(MONEY_PATTERN)) {
+    const start = match.index!;
+    const end = start + match[0].length;
+    const key = numberKey(match[0]);
+    if (key && !taken(start, end)) {
+      figures.push({ text: match[0], kind: "money", key, start, end });
+    }
+  }
+
+  for (const match of text.matchAll(NUMBER_PATTERN)) {
+    const start = match.index!;
+    const end = start + match[0].length;
+    const key = numberKey(match[0]);
+    const digits = match[0].replace(/\D/g, "");
+    if (key && !taken(start, end) && (digits.length > 1 || match[0].endsWith("%"))) {
+      figures.push({ text: match[0], kind: "number", key, start, end });
+    }
+  }
+
+  return figures.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Split text into sentences with their offsets
+ * Line breaks always end a sentence (letters put headings, addresses and
+ * table rows on their own lines).
+ */
+export function splitSentences(
+  text: string
+): { start: number; end: number; text: string }[] {
+  const sentences: { start: number; end: number; text: string }[] = [];
+  const push = (start: number, end: number) => {
+    const raw = text.slice(start, end);
+    const lead = raw.length - raw.trimStart().length;
+    const trimmed = raw.trim();
+    if (trimmed) {
+      sentences.push({
+        start: start + lead,
+        end: start + lead + trimmed.length,
+        text: trimmed,
+      });
+    }
+  };
+
+  for (const line of text.matchAll(/[^\n]+/g)) {
+    const lineStart = line.index!;
+    let sentenceStart = lineStart;
+    for (const stop of line[0].matchAll(/[.!?]+["”)]?\s+(?=["“(]?[A-Z0-9])/g)) {
+      const word = line[0]
+        .slice(0, stop.index!)
+        .match(/([A-Za-z]+)$/)?.[1]
+        ?.toLowerCase();
+      if (word && (ABBREVIATIONS.has(word) || word.length === 1)) continue;
+      const end = lineStart + stop.index! + stop[0].length;
+      push(sentenceStart, end);
+      sentenceStart = end;
+    }
+    push(sentenceStart, lineStart + line[0].length);
+  }
+  return sentences;
+}
+
+function contentWords(text: string): Set<string> {
+  return new Set(
+    (text.toLowerCase().match(/[a-z]{4,}/g) || []).filter(
+      (word) => !STOPWORDS.has(word)
+    )
+  );
+}
+
+/**
+ * Figure values and sentences of the material a draft may draw on
+ */
+function buildIndex(input: GroundingInput) {
+  const supportsByKey = new Map<string, ClaimSupport[]>();
+  const add = (key: string, support: ClaimSupport) => {
+    const list = supportsByKey.get(key) ?? [];
+    if (list.length < MAX_SPANS_PER_VALUE) {
+      list.push(support);
+      supportsByKey.set(key, list);
+    }
+  };
+  const sourceSpan = (
+    source: GroundingSource,
+    start: number,
+    end: number
+  ): ClaimSupport => ({
+    type: "source",
+    label: source.label,
+    quote: source.text.slice(start, end),
+    documentId: source.documentId,
+    start,
+    end,
+    before: source.text.slice(Math.max(0, start - CONTEXT_CHARS), start),
+    after: source.text.slice(end, end + CONTEXT_CHARS),
+  });
+
+  const sentences: {
+    source: GroundingSource;
+    start: number;
+    end: number;
+    words: Set<string>;
+  }[] = [];
+
+  for (const source of input.sources) {
+    for (const figure of findFigures(source.text)) {
+      const span = sourceSpan(source, figure.start, figure.end);
+      add(figure.key, span);
+      // The year of a source date supports a year stated on its own
+      if (figure.kind === "date") {
+        add(numberKey(figure.key.slice(5, 9))!, span);
+      }
+    }
+    for (const sentence of splitSentences(source.text)) {
+      sentences.push({
+        source,
+        start: sentence.start,
+        end: sentence.end,
+        words: contentWords(sentence.text),
+      });
+    }
+  }
+
+  const sourceById = new Map(
+    input.sources.map((source) => [source.documentId, source])
+  );
+  const derived = (
+    key: string | null,
+    label: string,
+    quote: string,
+    type: ClaimSupport["type"],
+    span?: { documentId: string; start: number; end: number } | null
+  ) => {
+    if (!key) return;
+    const source = span ? sourceById.get(span.documentId) : undefined;
+    add(
+      key,
+      source && span
+        ? { ...sourceSpan(source, span.start, span.end), label }
+        : { type, label, quote }
+    );
+  };
+  const amountKey = (amount: number) => `num:${Math.round(amount * 100)}`;
+
+  const facts = input.caseFacts;
+  if (facts) {
+    const date = facts.incidentDate
+      ? parseServiceDate(facts.incidentDate.value)
+      : null;
+    if (date && facts.incidentDate) {
+      derived(
+        `date:${date}`,
+        "Incident date (case facts)",
+        facts.incidentDate.value,
+        "case_facts",
+        facts.incidentDate.source
+      );
+    }
+    for (const special of facts.medicalSpecials) {
+      derived(
+        amountKey(special.amount),
+        `${special.provider} (case facts)`,
+        formatAmount(special.amount),
+        "case_facts",
+        special.source
+      );
+    }
+    for (const wage of facts.lostWages) {
+      derived(
+        amountKey(wage.amount),
+        "Lost wages (case facts)",
+        formatAmount(wage.amount),
+        "case_facts",
+        wage.source
+      );
+    }
+    const sums: [string, number[]][] = [
+      ["Total medical specials (case facts)", facts.medicalSpecials.map((s) => s.amount)],
+      ["Total lost wages (case facts)", facts.lostWages.map((w) => w.amount)],
+    ];
+    for (const [label, amounts] of sums) {
+      if (amounts.length > 1) {
+        const total = amounts.reduce((sum, amount) => sum + amount, 0);
+        derived(amountKey(total), label, formatAmount(total), "case_facts");
+      }
+    }
+  }
+
+  const specials = input.specials;
+  if (specials) {
+    for (const item of specials.items.filter((entry) => entry.counted)) {
+      const span = item.source && { documentId: item.documentId, ...item.source };
+      const label = `${item.provider} (specials ledger)`;
+      for (const amount of [item.billed, item.paid, item.adjusted]) {
+        if (amount) {
+          derived(amountKey(amount), label, formatAmount(amount), "specials", span);
+        }
+      }
+      if (item.serviceDate) {
+        derived(`date:${item.serviceDate}`, label, item.serviceDate, "specials", span);
+      }
+    }
+    const { totals } = specials;
+    const ledgerTotals: [string, number][] = [
+      ["Total billed", totals.billed],
+      ["Total paid", totals.paid],
+      ["Total adjusted", totals.adjusted],
+      ["Balance", totals.balance],
+    ];
+    for (const [label, amount] of ledgerTotals) {
+      derived(
+        amountKey(amount),
+        `${label} (specials ledger)`,
+        formatAmount(amount),
+        "specials"
+      );
+    }
+  }
+
+  for (const reference of input.references ?? []) {
+    for (const figure of findFigures(reference || "")) {
+      derived(figure.key, "Template or instructions", figure.text, "template");
+    }
+  }
+
+  return { supportsByKey, sentences, sourceSpan };
+}
+
+/**
+ * Ground a draft in the material it was generated from
+ * @param draftText - Draft with PII values restored
+ * @param input - Source texts, confirmed case facts, the specials ledger and
+ *   the template and instructions
+ * @returns Claims in draft order, and how many are unsupported
+ */
+export function groundDraft(
+  draftText: string,
+  input: GroundingInput
+): DraftCitations {
+  const { supportsByKey, sentences, sourceSpan } = buildIndex(input);
+  const claims: Claim[] = [];
+
+  for (const sentence of splitSentences(draftText)) {
+    const figures = findFigures(sentence.text);
+    const supports: ClaimSupport[] = [];
+    const addSupport = (support: ClaimSupport) => {
+      const duplicate = supports.some(
+        (existing) =>
+          existing.quote === support.quote &&
+          existing.label === support.label &&
+          existing.start === support.start
+      );
+      if (!duplicate) supports.push(support);
+    };
+
+    const claimFigures = figures.map((figure) => {
+      const found = supportsByKey.get(figure.key) ?? [];
+      if (found.length > 0) addSupport(found[0]);
+      return {
+        text: figure.text,
+        kind: figure.kind,
+        start: sentence.start + figure.start,
+        end: sentence.start + figure.end,
+        supported: found.length > 0,
+      };
+    });
+
+    // Figure-free sentences are claims only when a source sentence backs them
+    const words = contentWords(sentence.text);
+    if (words.size >= MIN_SHARED_WORDS) {
+      let best: { shared: number; entry: (typeof sentences)[number] } | null =
+        null;
+      for (const entry of sentences) {
+        let shared = 0;
+        for (const word of words) {
+          if (entry.words.has(word)) shared += 1;
+        }
+        if (!best || shared > best.shared) best = { shared, entry };
+      }
+      if (
+        best &&
+        best.shared >= MIN_SHARED_WORDS &&
+        best.shared / words.size >= MIN_SHARED_RATIO
+      ) {
+        addSupport(sourceSpan(best.entry.source, best.entry.start, best.entry.end));
+      }
+    }
+
+    if (claimFigures.length === 0 && supports.length === 0) continue;
+    claims.push({
+      start: sentence.start,
+      end: sentence.end,
+      text: sentence.text,
+      figures: claimFigures,
+      supports,
+      supported: claimFigures.every((figure) => figure.supported),
+    });
+  }
+
+  return {
+    claims,
+    unsupportedCount: claims.filter((claim) => !claim.supported).length,
+  };
+}
@@ -29,6 +29,8 @@ export function cleanAiResponse(text: string): string {
     /^Here is the draft:\s*/i,
     /^Based on the provided template and case information, here's a professional demand letter:\s*/i,
     /^Based on the template and case information:\s*/i,
+    // Other letter types ("Here is the letter of representation:", ...)
+    /^Here(?:'s| is) (?:a|the) [\w ,-]{0,60}(?:letter|request|counter-offer)(?: [\w ,-]{0,60})?:\s*/i,
   ];
 
   let cleaned = text.trim();
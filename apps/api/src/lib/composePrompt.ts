@@ -3,28 +3,125 @@
  * Combines extracted text, template content, and optional instructions
  */
 
+import { RedactionPolicy } from "./pii";
+import { CaseFacts, formatCaseFacts } from "./case_facts";
+import { SpecialsLedger, formatSpecialsTable } from "./specials";
+import { DocumentTypeId, describeFact, getDocumentType } from "./document_types";
+
+/**
+ * Optional inputs that shape the prompt beyond the source text
+ */
+export interface PromptOptions {
+  // Redaction policies already applied to the extracted text (one per source
+  // document), so the model knows how to treat placeholders and masked values
+  redactionPolicies?: RedactionPolicy[];
+  // Facts confirmed by the user; they take precedence over the source text
+  caseFacts?: CaseFacts | null;
+  // Medical specials ledger with computed totals; replaces any specials in the
+  // case facts, and the model must not add up amounts itself
+  specials?: SpecialsLedger | null;
+  // Long source files reach the model as per-part summaries (map-reduce
+  // generation) rather than their full text
+  summarizedSources?: boolean;
+  // Letter type to write (default: demand letter)
+  documentType?: DocumentTypeId;
+  // The template's merge fields were filled in from the case file
+  mergedFields?: boolean;
+}
+
+/**
+ * Guidance for each redaction policy applied to the source text
+ */
+const REDACTION_GUIDANCE: Record<Exclude<RedactionPolicy, "none">, string> = {
+  tokenize: `Sensitive identifiers in the extracted information have been replaced with placeholders such as [SSN_1], [DOB_1] or [PHONE_1]. When the letter needs one of these values, copy its placeholder exactly; it will be replaced with the real value afterwards. Never invent or alter placeholder values.`,
+  mask: `Some identifiers in the extracted information are partially masked with "*". Reproduce masked values exactly as shown and never guess the hidden characters.`,
+  drop: `Sensitive identifiers have been removed from the extracted information and appear as [REDACTED]. Leave them out of the letter rather than guessing them.`,
+};
+
+/**
+ * One excerpt of source material, labeled with the file it came from
+ */
+export interface PromptSource {
+  label: string; // source file name shown to the model
+  text: string;
+}
+
+/**
+ * Render labeled source excerpts so the model can tell files apart
+ * Excerpts without text are dropped
+ */
+export function formatSources(sources: PromptSource[]): string {
+  return sources
+    .filter((source) => source.text?.trim())
+    .map(
+      (source) =>
+        `--- Source: ${source.label.trim() || "Untitled"} ---\n${source.text.trim()}`
+    )
+    .join("\n\n");
+}
+
 /**
  * Compose a structured prompt for Bedrock Claude model
- * @param extractedText - Text extracted from uploaded document
+ * @param extractedText - Text extracted from uploaded document, or labeled
+ *   excerpts from several source documents in a matter
  * @param templateContent - Template content to follow
  * @param instructions - Optional additional user instructions
+ * @param options - Redaction policies, confirmed case facts, the specials
+ *   ledger, the letter type and whether merge fields were filled
  * @returns Formatted prompt string
  */
 export function composePrompt(
-  extractedText: string,
+  extractedText: string | PromptSource[],
   templateContent: string,
-  instructions?: string
+  instructions?: string,
+  options: PromptOptions = {}
 ): string {
+  const {
+    redactionPolicies = [],
+    caseFacts,
+    specials,
+    summarizedSources = false,
+    documentType,
+    mergedFields = false,
+  } = options;
+  const type = getDocumentType(documentType);
   // Handle empty/null inputs gracefully
-  const safeExtracted = extractedText?.trim() || "No extracted text available.";
+  const isMultiSource = Array.isArray(extractedText);
+  const sourceText = isMultiSource
+    ? formatSources(extractedText)
+    : extractedText;
+  const safeExtracted = sourceText?.trim() || "No extracted text available.";
   const safeTemplate = templateContent?.trim() || "No template provided.";
   const safeInstructions = instructions?.trim();
+  const specialsText =
+    specials && specials.totals.itemCount > 0 ? formatSpecialsTable(specials) : "";
+  const factsText = caseFacts
+    ? formatCaseFacts(
+        specialsText ? { ...caseFacts, medicalSpecials: [] } : caseFacts
+      )
+    : "";
 
-  let prompt = `You are a legal drafting assistant. Generate a professional demand letter based on the following:
+  let prompt = `You are a legal drafting assistant. Generate a professional ${type.noun} based on the following:
 
 **Template:**
 ${safeTemplate}
+`;
+
+  if (factsText) {
+    prompt += `
+**Confirmed Case Facts:**
+${factsText}
+`;
+  }
+
+  if (specialsText) {
+    prompt += `
+**Medical Specials (verified totals):**
+${specialsText}
+`;
+  }
 
+  prompt += `
 **Extracted Information:**
 ${safeExtracted}
 `;
@@ -33,9 +130,85 @@ ${safeExtracted}
     prompt += `\n**Additional Instructions:**\n${safeInstructions}\n\n`;
   }
 
-  prompt += `\nGenerate a complete, polished demand letter following the template structure and incorporating all relevant information from the extracted text. Be professional, precise, and legally appropriate.
+  if (isMultiSource) {
+    prompt += `\nThe extracted information is labeled by source file: each excerpt starts with a "--- Source: <file> ---" line. Combine facts across all sources, and when sources disagree, prefer the most specific document (e.g. a bill over correspondence).\n`;
+  }
+
+  if (summarizedSources) {
+    prompt += `\nLong source files were summarized part by part; their excerpts are labeled "(part N of M)" and read in order as one continuous record. Write a single coherent letter from all parts together: do not repeat facts that appear in several parts, and do not structure the letter by part.\n`;
+  }
+
+  if (mergedFields) {
+    prompt += `\nThe template's merge fields have already been filled in from the case file. Keep those values exactly as written. Bracketed labels in the template, such as [Insurer], are values the case file does not have: fill them in from the extracted information, or leave them in brackets if it does not state them.\n`;
+  }
+
+  if (factsText) {
+    prompt += `\nThe confirmed case facts were reviewed by the attorney. Use them for parties, dates, injuries and amounts, and prefer them over the extracted information whenever the two differ. Use the extracted information for narrative detail only.\n`;
+  }
+
+  if (specialsText) {
+    prompt += `\nThe medical specials table was itemized from the billing records and its totals were computed exactly. Use these line items and totals verbatim for medical expenses; do not add up, recompute or estimate amounts from the extracted information.\n`;
+  }
+
+  for (const policy of new Set(redactionPolicies)) {
+    if (policy !== "none") {
+      prompt += `\n${REDACTION_GUIDANCE[policy]}\n`;
+    }
+  }
+
+  prompt += `\n${type.purpose}\n`;
+
+  prompt += `\nThe ${type.noun} must state ${type.requiredFacts
+    .map(describeFact)
+    .join(", ")}. Take them from the confirmed case facts or the extracted information; if one is not available, write its name in square brackets, such as [Insurer], rather than inventing it.\n`;
+
+  if (type.outputRules.length > 0) {
+    prompt += `\nRules for this ${type.noun}:\n${type.outputRules
+      .map((rule) => `- ${rule}`)
+      .join("\n")}\n`;
+  }
+
+  prompt += `\nGenerate a complete, polished ${type.noun} following the template structure and incorporating all relevant information from the extracted text. Be professional, precise, and legally appropriate.
+
+IMPORTANT: Return ONLY the ${type.noun} text. Do not include any introductory text, explanations, meta-commentary, or phrases like "Here's a professional ${type.noun}" or "Here is the ${type.noun}". Start directly with the letter content (e.g., sender address, date, recipient address, salutation).`;
+
+  return prompt;
+}
+
+/**
+ * Compose the map-step prompt summarizing one part of a long source file
+ * The summary is cached and later stands in for the part's full text when
+ * the letter is written, so it keeps every fact any letter type may need.
+ * @param excerpt - Text of the part (already redacted)
+ * @param label - Source file name with its part number
+ * @param redactionPolicy - Redaction policy applied to the excerpt
+ * @returns Formatted prompt string
+ */
+export function composeChunkSummaryPrompt(
+  excerpt: string,
+  label: string,
+  redactionPolicy: RedactionPolicy = "none"
+): string {
+  const safeExcerpt = excerpt?.trim() || "No extracted text available.";
+
+  let prompt = `You are a legal assistant preparing notes for letters about a personal injury claim. Summarize the following part of a longer source record.
+
+**Source:** ${label.trim() || "Untitled"}
+
+**Excerpt:**
+${safeExcerpt}
+
+Keep every fact such a letter may rely on: parties and their roles, dates, the incident and liability, injuries and diagnoses, treatment and providers, work or activities missed, and every dollar amount with what it is for. Copy names, dates and amounts exactly. Leave out boilerplate, page headers and repeated text. Write concise bullet points; if the excerpt holds nothing relevant, write "No relevant facts."
+`;
+
+  if (redactionPolicy !== "none") {
+    prompt += `\n${REDACTION_GUIDANCE[redactionPolicy].replace(
+      /the letter/g,
+      "the summary"
+    )}\n`;
+  }
 
-IMPORTANT: Return ONLY the demand letter text. Do not include any introductory text, explanations, meta-commentary, or phrases like "Here's a professional demand letter" or "Here is the demand letter". Start directly with the letter content (e.g., sender address, date, recipient address, salutation).`;
+  prompt += `\nIMPORTANT: Return ONLY the summary. Do not include any introductory text or commentary.`;
 
   return prompt;
 }
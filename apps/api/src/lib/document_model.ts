@@ -0,0 +1,413 @@
+/**
+ * Structured document model built during extraction
+ * Preserves pages, headings, paragraphs, list items and tables with character
+ * offsets into documents.extracted_text so later stages (chunking, citations)
+ * can work with the source layout instead of a flat string
+ */
+
+export type BlockType = "heading" | "paragraph" | "list_item" | "table";
+
+export interface DocumentBlock {
+  type: BlockType;
+  text: string;
+  start: number; // character position in extracted_text
+  end: number; // character position in extracted_text (exclusive)
+  page: number; // 1-based page the block starts on
+  level?: number; // heading level (1 = top level)
+  rows?: string[][]; // table cells, row by row
+}
+
+export interface DocumentPage {
+  number: number;
+  start: number;
+  end: number;
+}
+
+export interface DocumentModel {
+  version: 1;
+  pages: DocumentPage[];
+  blocks: DocumentBlock[];
+}
+
+/**
+ * Block hint produced by a format-aware parser (e.g. DOCX via mammoth HTML)
+ * before it has been located in the extracted text
+ */
+export interface SourceBlock {
+  type: BlockType;
+  text: string;
+  level?: number;
+  rows?: string[][];
+}
+
+// Matches the page boundary marker written by extract_basic for PDFs
+const PAGE_MARKER = /^-- (\d+) of (\d+) --$/;
+const LIST_ITEM = /^(?:[-•*▪●◦]|\(?\d{1,3}[.)]|\(?[a-z][.)])\s+\S/;
+const TABLE_CELL_SEPARATOR = /\t| {2,}/;
+const MARKDOWN_HEADING = /^(#{1,6})\s+\S/;
+const NUMBERED_HEADING = /^(?:\d+(?:\.\d+)*|[IVXLC]+)\.?\s+[A-Z]/;
+
+type LineKind = "blank" | "marker" | BlockType;
+
+interface Line {
+  text: string; // trimmed line text
+  start: number; // offset of first non-whitespace char
+  end: number; // offset after last non-whitespace char
+  kind: LineKind;
+  level?: number;
+}
+
+function classifyLine(trimmed: string): { kind: LineKind; level?: number } {
+  if (trimmed.length === 0) {
+    return { kind: "blank" };
+  }
+
+  if (PAGE_MARKER.test(trimmed)) {
+    return { kind: "marker" };
+  }
+
+  const markdown = trimmed.match(MARKDOWN_HEADING);
+  if (markdown) {
+    return { kind: "heading", level: markdown[1].length };
+  }
+
+  if (LIST_ITEM.test(trimmed)) {
+    return { kind: "list_item" };
+  }
+
+  if (trimmed.split(TABLE_CELL_SEPARATOR).filter(Boolean).length >= 3) {
+    return { kind: "table" };
+  }
+
+  // Headings are short, unpunctuated lines - either ALL CAPS, numbered
+  // section titles, or labels ending in a colon
+  if (trimmed.length <= 80 && !/[.,;]$/.test(trimmed)) {
+    const letters = trimmed.replace(/[^A-Za-z]/g, "");
+    if (letters.length >= 3 && letters === letters.toUpperCase()) {
+      return { kind: "heading", level: 1 };
+    }
+    if (NUMBERED_HEADING.test(trimmed) && trimmed.length <= 60) {
+      return { kind: "heading", level: 2 };
+    }
+    if (trimmed.endsWith(":") && trimmed.length <= 60) {
+      return { kind: "heading", level: 2 };
+    }
+  }
+
+  return { kind: "paragraph" };
+}
+
+function splitLines(text: string): Line[] {
+  const lines: Line[] = [];
+  let pos = 0;
+
+  while (pos <= text.length) {
+    const newline = text.indexOf("\n", pos);
+    const lineEnd = newline === -1 ? text.length : newline;
+    const raw = text.substring(pos, lineEnd);
+    const leading = raw.length - raw.trimStart().length;
+    const trimmed = raw.trim();
+
+    lines.push({
+      text: trimmed,
+      start: pos + leading,
+      end: pos + leading + trimmed.length,
+      ...classifyLine(trimmed),
+    });
+
+    if (newline === -1) break;
+    pos = newline + 1;
+  }
+
+  return lines;
+}
+
+function pageAt(pages: DocumentPage[], offset: number): number {
+  for (const page of pages) {
+    if (offset < page.end) {
+      return page.number;
+    }
+  }
+  return pages.length > 0 ? pages[pages.length - 1].number : 1;
+}
+
+/**
+ * Compute page ranges from the page markers in extracted text
+ * Text without markers (DOCX, TXT) is treated as a single page
+ */
+export function detectPages(text: string): DocumentPage[] {
+  const pages: DocumentPage[] = [];
+  let pageStart = 0;
+
+  for (const line of splitLines(text)) {
+    if (line.kind !== "marker") continue;
+    const match = line.text.match(PAGE_MARKER);
+    if (!match) continue;
+
+    pages.push({ number: parseInt(match[1], 10), start: pageStart, end: line.end });
+    pageStart = line.end;
+  }
+
+  if (pages.length === 0) {
+    return [{ number: 1, start: 0, end: text.length }];
+  }
+
+  // Trailing text after the last marker belongs to the last page
+  if (pageStart < text.length) {
+    pages[pages.length - 1].end = text.length;
+  }
+
+  return pages;
+}
+
+/**
+ * Build a structured model from plain extracted text using layout heuristics
+ * (page markers, blank lines, list bullets, column-aligned tables, short
+ * capitalised headings)
+ * @param text - Extracted text as stored in documents.extracted_text
+ * @returns Document model with offsets into text
+ */
+export function buildDocumentModel(text: string): DocumentModel {
+  const source = text || "";
+  const pages = detectPages(source);
+  const blocks: DocumentBlock[] = [];
+  let current: { kind: BlockType; lines: Line[]; level?: number } | null =
+    null;
+
+  const flush = () => {
+    if (!current || current.lines.length === 0) {
+      current = null;
+      return;
+    }
+
+    const first = current.lines[0];
+    const last = current.lines[current.lines.length - 1];
+    const block: DocumentBlock = {
+      type: current.kind,
+      text: source.substring(first.start, last.end),
+      start: first.start,
+      end: last.end,
+      page: pageAt(pages, first.start),
+    };
+
+    if (current.kind === "heading") {
+      block.level = current.level ?? 1;
+    }
+    if (current.kind === "table") {
+      block.rows = current.lines.map((line) =>
+        line.text
+          .split(TABLE_CELL_SEPARATOR)
+          .map((cell) => cell.trim())
+          .filter(Boolean)
+      );
+    }
+
+    blocks.push(block);
+    current = null;
+  };
+
+  for (const line of splitLines(source)) {
+    if (line.kind === "blank" || line.kind === "marker") {
+      flush();
+      continue;
+    }
+
+    const kind = line.kind;
+    const continuesBlock =
+      current !== null &&
+      current.kind === kind &&
+      (kind === "paragraph" || kind === "table");
+
+    if (!continuesBlock) {
+      flush();
+      current = { kind, lines: [], level: line.level };
+    }
+
+    current!.lines.push(line);
+  }
+  flush();
+
+  return { version: 1, pages, blocks };
+}
+
+/**
+ * Locate format-aware source blocks in the extracted text to recover offsets
+ * Blocks are matched in order, allowing whitespace to differ between words;
+ * any block whose words cannot all be found is dropped rather than given a
+ * guessed position.
+ * @param text - Extracted text as stored in documents.extracted_text
+ * @param sourceBlocks - Blocks produced by a structured parser, in document order
+ * @returns Document model with offsets into text
+ */
+export function alignBlocks(
+  text: string,
+  sourceBlocks: SourceBlock[]
+): DocumentModel {
+  const pages = detectPages(text);
+  const blocks: DocumentBlock[] = [];
+  let cursor = 0;
+
+  // Offsets of the needle at or after the cursor; whitespace inside the block
+  // may differ (a DOCX line break extracted as a space) but every word must match
+  const locate = (needle: string): { start: number; end: number } | null => {
+    const trimmed = needle.trim();
+    if (!trimmed) return null;
+    const exact = text.indexOf(trimmed, cursor);
+    if (exact !== -1) return { start: exact, end: exact + trimmed.length };
+
+    const pattern = new RegExp(
+      trimmed
+        .split(/\s+/)
+        .map((word) => word.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"))
+        .join("\\s+"),
+      "g"
+    );
+    pattern.lastIndex = cursor;
+    const match = pattern.exec(text);
+    return match
+      ? { start: match.index, end: match.index + match[0].length }
+      : null;
+  };
+
+  for (const source of sourceBlocks) {
+    if (source.type === "table" && source.rows && source.rows.length > 0) {
+      const cells = source.rows.flat().filter((cell) => cell.trim());
+      if (cells.length === 0) continue;
+
+      const first = locate(cells[0]);
+      if (!first) continue;
+
+      const start = first.start;
+      let end = first.end;
+      cursor = end;
+      for (const cell of cells.slice(1)) {
+        const found = locate(cell);
+        if (!found) continue;
+        end = found.end;
+        cursor = end;
+      }
+
+      blocks.push({
+        type: "table",
+        text: text.substring(start, end),
+        start,
+        end,
+        page: pageAt(pages, start),
+        rows: source.rows,
+      });
+      continue;
+    }
+
+    const found = locate(source.text);
+    if (!found) continue;
+
+    const { start, end } = found;
+    cursor = end;
+
+    blocks.push({
+      type: source.type,
+      text: text.substring(start, end),
+      start,
+      end,
+      page: pageAt(pages, start),
+      ...(source.type === "heading" && { level: source.level ?? 1 }),
+    });
+  }
+
+  return { version: 1, pages, blocks };
+}
+
+const NAMED_ENTITIES: Record<string, string> = {
+  nbsp: " ",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  ndash: "–",
+  mdash: "—",
+  lsquo: "‘",
+  rsquo: "’",
+  ldquo: "“",
+  rdquo: "”",
+  bull: "•",
+  hellip: "…",
+  sect: "§",
+  amp: "&",
+};
+
+/**
+ * Decode HTML/XML character entities (named, decimal and hex)
+ */
+export function decodeEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === "#") {
+      const point = /^#x/i.test(code)
+        ? parseInt(code.substring(2), 16)
+        : parseInt(code.substring(1), 10);
+      // Beyond the Unicode range fromCodePoint throws; keep the entity as text
+      return Number.isFinite(point) && point >= 0 && point <= 0x10ffff
+        ? String.fromCodePoint(point)
+        : entity;
+    }
+    return NAMED_ENTITIES[code.toLowerCase()] ?? entity;
+  });
+}
+
+function stripTags(html: string): string {
+  return decodeEntities(html.replace(/<br\s*\/?>/gi, "\n").replace(/<[^>]+>/g, ""))
+    .replace(/[ \t]+/g, " ")
+    .trim();
+}
+
+/**
+ * Parse the simple HTML emitted by mammoth into source blocks
+ * Only handles the tags mammoth produces (h1-h6, p, li, table/tr/td/th)
+ * @param html - HTML string from mammoth.convertToHtml
+ * @returns Blocks in document order
+ */
+export function parseHtmlBlocks(html: string): SourceBlock[] {
+  const blocks: SourceBlock[] = [];
+  const pattern =
+    /<table[^>]*>([\s\S]*?)<\/table>|<h([1-6])[^>]*>([\s\S]*?)<\/h\2>|<li[^>]*>([\s\S]*?)(?=<\/?(?:li|ul|ol)[\s>])|<p[^>]*>([\s\S]*?)<\/p>/gi;
+
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(html)) !== null) {
+    const [, table, headingLevel, heading, listItem, paragraph] = match;
+
+    if (table !== undefined) {
+      const rows: string[][] = [];
+      const rowPattern = /<tr[^>]*>([\s\S]*?)<\/tr>/gi;
+      let row: RegExpExecArray | null;
+      while ((row = rowPattern.exec(table)) !== null) {
+        const cells: string[] = [];
+        const cellPattern = /<t[dh][^>]*>([\s\S]*?)<\/t[dh]>/gi;
+        let cell: RegExpExecArray | null;
+        while ((cell = cellPattern.exec(row[1])) !== null) {
+          cells.push(stripTags(cell[1]));
+        }
+        if (cells.length > 0) rows.push(cells);
+      }
+      if (rows.length > 0) {
+        blocks.push({
+          type: "table",
+          text: rows.map((cells) => cells.join("\t")).join("\n"),
+          rows,
+        });
+      }
+    } else if (heading !== undefined) {
+      const text = stripTags(heading);
+      if (text) {
+        blocks.push({ type: "heading", text, level: parseInt(headingLevel, 10) });
+      }
+    } else if (listItem !== undefined) {
+      // Item text stops at a nested list; nested items are matched on their own
+      const text = stripTags(listItem);
+      if (text) blocks.push({ type: "list_item", text });
+    } else if (paragraph !== undefined) {
+      const text = stripTags(paragraph);
+      if (text) blocks.push({ type: "paragraph", text });
+    }
+  }
+
+  return blocks;
+}
@@ -0,0 +1,161 @@
+/**
+ * Registry of the letter types a draft can be generated as
+ * Each type has its own task for the model, the case facts the letter cannot
+ * do without and rules for the finished text. The type is chosen at
+ * generation time and stored on the document (documents.document_type).
+ */
+
+import { CaseFacts } from "./case_facts";
+
+export type DocumentTypeId =
+  | "demand_letter"
+  | "preservation_letter"
+  | "representation_letter"
+  | "settlement_counter_offer"
+  | "records_request";
+
+export type RequiredFact = keyof CaseFacts;
+
+export interface DocumentType {
+  id: DocumentTypeId;
+  label: string; // shown in the type picker
+  description: string;
+  noun: string; // how prompts name the document ("demand letter")
+  purpose: string; // what the letter must achieve, told to the model
+  requiredFacts: RequiredFact[];
+  outputRules: string[];
+}
+
+export const DEFAULT_DOCUMENT_TYPE: DocumentTypeId = "demand_letter";
+
+const DOCUMENT_TYPES: Record<DocumentTypeId, DocumentType> = {
+  demand_letter: {
+    id: "demand_letter",
+    label: "Demand letter",
+    description: "Demand payment from the insurer for the client's injuries and losses",
+    noun: "demand letter",
+    purpose:
+      "The letter sets out liability, the client's injuries and treatment, and the damages, and demands payment from the insurer.",
+    requiredFacts: ["claimant", "insurer", "incidentDate", "injuries", "medicalSpecials"],
+    outputRules: [
+      "State the amount demanded and a deadline for a response.",
+    ],
+  },
+  preservation_letter: {
+    id: "preservation_letter",
+    label: "Preservation of evidence letter",
+    description: "Put the other side on notice to preserve evidence of the incident",
+    noun: "preservation of evidence letter",
+    purpose:
+      "The letter puts the recipient on notice of the claim and demands that they preserve all evidence of the incident, including physical evidence, video footage, photographs, maintenance and inspection records, incident reports, and electronic data.",
+    requiredFacts: ["claimant", "defendant", "incidentDate"],
+    outputRules: [
+      "List the categories of evidence to preserve as a bulleted list.",
+      "Warn that destroying or altering evidence may lead to sanctions for spoliation.",
+      "Do not discuss injuries, treatment or damages beyond what identifies the claim.",
+    ],
+  },
+  representation_letter: {
+    id: "representation_letter",
+    label: "Letter of representation",
+    description: "Notify the insurer that the firm represents the client",
+    noun: "letter of representation",
+    purpose:
+      "The letter notifies the insurer that the firm represents the client for the incident, directs all further contact to the firm, and requests the policy and claim information.",
+    requiredFacts: ["claimant", "insurer", "incidentDate"],
+    outputRules: [
+      "Ask that all communication about the claim go through the firm and that the insurer not contact the client directly.",
+      "Request the declarations page, policy limits and the claim number.",
+      "Keep it to one page; do not argue liability or state damages.",
+    ],
+  },
+  settlement_counter_offer: {
+    id: "settlement_counter_offer",
+    label: "Settlement counter-offer",
+    description: "Answer the insurer's settlement offer with a counter-offer",
+    noun: "settlement counter-offer letter",
+    purpose:
+      "The letter responds to the insurer's settlement offer, explains why the offer undervalues the claim, and makes a counter-offer.",
+    requiredFacts: ["claimant", "insurer", "incidentDate", "medicalSpecials"],
+    outputRules: [
+      "Take the insurer's offer and the counter-offer amount from the additional instructions; if either is missing, write it in square brackets, such as [Offer Amount], rather than inventing one.",
+      "Address the reasons the offer is too low point by point.",
+      "State how long the counter-offer remains open.",
+    ],
+  },
+  records_request: {
+    id: "records_request",
+    label: "Medical records request",
+    description: "Request the client's medical records and bills from a provider",
+    noun: "medical records request",
+    purpose:
+      "The letter asks a treatment provider for the client's complete medical records and itemized bills for the treatment related to the incident.",
+    requiredFacts: ["claimant", "treatmentProviders", "incidentDate"],
+    outputRules: [
+      "Address the letter to the provider's medical records department.",
+      "Ask for records and itemized billing from the incident date to the present, and mention that a signed HIPAA authorization is enclosed.",
+      "Do not discuss liability, the other party or damages.",
+    ],
+  },
+};
+
+// How required facts are named in prompts and responses
+const FACT_LABELS: Record<RequiredFact, string> = {
+  claimant: "the claimant's full name",
+  defendant: "the at-fault party",
+  insurer: "the insurance company",
+  incidentDate: "the date of the incident",
+  injuries: "the injuries",
+  treatmentProviders: "the treatment providers",
+  medicalSpecials: "the medical expenses",
+  lostWages: "the lost wages",
+};
+
+export const DOCUMENT_TYPE_IDS = Object.keys(DOCUMENT_TYPES) as DocumentTypeId[];
+
+/**
+ * Validate a document type id from a request or the database
+ * @returns The id, or null when it is not a registered type
+ */
+export function parseDocumentType(value: unknown): DocumentTypeId | null {
+  return DOCUMENT_TYPE_IDS.includes(value as DocumentTypeId)
+    ? (value as DocumentTypeId)
+    : null;
+}
+
+/**
+ * Look up a registered document type (the default type for unknown ids)
+ */
+export function getDocumentType(id?: string | null): DocumentType {
+  return DOCUMENT_TYPES[parseDocumentType(id) ?? DEFAULT_DOCUMENT_TYPE];
+}
+
+/**
+ * Every registered type, in picker order
+ */
+export function listDocumentTypes(): DocumentType[] {
+  return DOCUMENT_TYPE_IDS.map((id) => DOCUMENT_TYPES[id]);
+}
+
+/**
+ * Name a required fact for the model or the user
+ */
+export function describeFact(fact: RequiredFact): string {
+  return FACT_LABELS[fact];
+}
+
+/**
+ * Required facts of a type that the confirmed case facts leave empty
+ * @param hasSpecials - A specials ledger supplies the medical expenses
+ */
+export function missingRequiredFacts(
+  type: DocumentType,
+  caseFacts: CaseFacts,
+  hasSpecials = false
+): RequiredFact[] {
+  return type.requiredFacts.filter((fact) => {
+    if (fact === "medicalSpecials" && hasSpecials) return false;
+    const value = caseFacts[fact];
+    return Array.isArray(value) ? value.length === 0 : !value?.value?.trim();
+  });
+}
@@ -0,0 +1,123 @@
+/**
+ * Three-way merge of draft branches
+ * Both drafts are diffed word by word against the text they started from.
+ * Changes to different parts of the base text are all kept; changes that
+ * touch the same words differently are conflicts, resolved in favour of one
+ * side.
+ */
+
+import { WordChange, diffWords } from "./text_diff";
+
+export type MergeSide = "target" | "branch";
+
+/**
+ * Words both drafts changed differently, with what each made of them
+ */
+export interface MergeConflict {
+  start: number; // offsets into the merged text
+  end: number;
+  base: string;
+  target: string;
+  branch: string;
+}
+
+export interface MergeResult {
+  text: string;
+  applied: number; // changes taken from the branch
+  conflicts: MergeConflict[];
+}
+
+interface SidedChange extends WordChange {
+  side: MergeSide;
+}
+
+/**
+ * Whether a change touches the base text between start and end; an
+ * insertion touches the point it is inserted at
+ */
+function touches(change: WordChange, start: number, end: number): boolean {
+  return change.start === start || (change.start < end && start < change.end);
+}
+
+/**
+ * Apply changes (sorted, not overlapping) to the base text between start
+ * and end
+ */
+function applyChanges(
+  base: string,
+  start: number,
+  end: number,
+  changes: WordChange[]
+): string {
+  let text = "";
+  let position = start;
+  for (const change of changes) {
+    text += base.slice(position, change.start) + change.inserted;
+    position = change.end;
+  }
+  return text + base.slice(position, end);
+}
+
+/**
+ * Merge a branch into a target draft, both edited from base
+ * @param prefer Side whose text is kept where the drafts conflict
+ */
+export function mergeDrafts(
+  base: string,
+  target: string,
+  branch: string,
+  prefer: MergeSide = "target"
+): MergeResult {
+  const changes: SidedChange[] = [
+    ...diffWords(base, target).map((change) => ({
+      ...change,
+      side: "target" as const,
+    })),
+    ...diffWords(base, branch).map((change) => ({
+      ...change,
+      side: "branch" as const,
+    })),
+  ].sort((a, b) => a.start - b.start || a.end - b.end);
+
+  const result: MergeResult = { text: "", applied: 0, conflicts: [] };
+  let position = 0;
+  let index = 0;
+  while (index < changes.length) {
+    // Gather the changes touching the same stretch of the base text
+    const group = [changes[index]];
+    const start = changes[index].start;
+    let end = changes[index].end;
+    for (index++; index < changes.length; index++) {
+      if (!touches(changes[index], start, end)) break;
+      group.push(changes[index]);
+      end = Math.max(end, changes[index].end);
+    }
+    result.text += base.slice(position, start);
+    position = end;
+
+    const targetChanges = group.filter((change) => change.side === "target");
+    const branchChanges = group.filter((change) => change.side === "branch");
+    const targetText = applyChanges(base, start, end, targetChanges);
+    const branchText = applyChanges(base, start, end, branchChanges);
+
+    if (targetChanges.length === 0) {
+      result.text += branchText;
+      result.applied += branchChanges.length;
+    } else if (branchChanges.length === 0 || targetText === branchText) {
+      result.text += targetText;
+    } else {
+      const kept = prefer === "target" ? targetText : branchText;
+      result.conflicts.push({
+        start: result.text.length,
+        end: result.text.length + kept.length,
+        base: base.slice(start, end),
+        target: targetText,
+        branch: branchText,
+      });
+      result.text += kept;
+      if (prefer === "branch") result.applied += branchChanges.length;
+    }
+  }
+  result.text += base.slice(position);
+  return result;
+}
@@ -0,0 +1,57 @@
+/**
+ * Y.js state of a draft kept by the API
+ * Checkpoints freeze the collaborative document as the server holds it
+ * (the latest snapshot and the updates saved after it), and branches keep
+ * their own state, changed word by word as their text is saved.
+ */
+
+import * as Y from "yjs";
+import { diffWords } from "./text_diff";
+
+// Shared text the Editor binds the draft to
+const DRAFT_TEXT = "draft";
+
+/**
+ * Combine a snapshot and the updates saved after it into one Y.js update
+ */
+export function mergeDraftUpdates(updates: Uint8Array[]): Buffer {
+  return Buffer.from(Y.mergeUpdates(updates));
+}
+
+/**
+ * The draft text of a Y.js state
+ */
+export function readDraftText(state: Uint8Array): string {
+  const doc = new Y.Doc();
+  Y.applyUpdate(doc, state);
+  const text = doc.getText(DRAFT_TEXT).toString();
+  doc.destroy();
+  return text;
+}
+
+/**
+ * Change the draft text of a Y.js state to text, editing only the words
+ * that differ so the state keeps the history of the rest
+ * @param state - State to start from (an empty document when null)
+ * @returns The changed state
+ */
+export function setDraftText(state: Uint8Array | null, text: string): Buffer {
+  const doc = new Y.Doc();
+  if (state) {
+    Y.applyUpdate(doc, state);
+  }
+  const ytext = doc.getText(DRAFT_TEXT);
+
+  // Last change first, so the offsets of earlier changes still hold
+  const changes = diffWords(ytext.toString(), text).reverse();
+  doc.transact(() => {
+    for (const change of changes) {
+      ytext.delete(change.start, change.end - change.start);
+      ytext.insert(change.start, change.inserted);
+    }
+  });
+
+  const updated = Buffer.from(Y.encodeStateAsUpdate(doc));
+  doc.destroy();
+  return updated;
+}
@@ -0,0 +1,183 @@
+/**
+ * Safe expansion of ZIP archives uploaded as case bundles
+ * Enforces entry-count, uncompressed-size and path limits before any entry
+ * reaches the extraction pipeline
+ */
+
+import path from "path";
+import JSZip from "jszip";
+import {
+  extensionForMimeType,
+  isArchiveMimeType,
+  mimeTypeForFilename,
+} from "./file_types";
+
+export interface ArchiveLimits {
+  maxEntries: number; // files in the archive (directories excluded)
+  maxTotalBytes: number; // total uncompressed size across all entries
+}
+
+export interface ArchiveFile {
+  path: string; // normalised path inside the archive
+  fileName: string; // base name, used as the document title
+  mimeType: string;
+  content: Buffer;
+}
+
+export interface SkippedArchiveEntry {
+  path: string;
+  reason: string;
+}
+
+export interface ExpandedArchive {
+  files: ArchiveFile[]; // supported entries, in archive order
+  skipped: SkippedArchiveEntry[];
+  totalBytes: number;
+}
+
+/**
+ * Maximum number of files accepted in one archive
+ */
+export function getZipMaxEntries(): number {
+  const value = parseInt(process.env.ZIP_MAX_ENTRIES || "", 10);
+  return Number.isFinite(value) && value > 0 ? value : 100;
+}
+
+/**
+ * Maximum total uncompressed size of one archive (guards against zip bombs)
+ */
+export function getZipMaxTotalBytes(): number {
+  const value = parseInt(process.env.ZIP_MAX_TOTAL_BYTES || "", 10);
+  return Number.isFinite(value) && value > 0 ? value : 100 * 1024 * 1024;
+}
+
+/**
+ * Normalise an archive entry name and reject anything that could escape
+ * the archive root (absolute paths, drive letters, ".." segments)
+ * @returns Safe relative path, or null if the entry name is unsafe
+ */
+export function normalizeEntryPath(entryName: string): string | null {
+  const name = (entryName || "").replace(/\\/g, "/");
+  if (!name || name.includes("\0")) return null;
+  if (name.startsWith("/") || /^[a-z]:/i.test(name)) return null;
+  if (name.split("/").includes("..")) return null;
+
+  const normalized = path.posix.normalize(name);
+  if (normalized.startsWith("..") || normalized === ".") return null;
+  return normalized;
+}
+
+/**
+ * Inflate one entry, aborting as soon as the running total exceeds the limit
+ * (declared sizes in the ZIP headers cannot be trusted)
+ */
+function readEntry(
+  entry: JSZip.JSZipObject,
+  remainingBytes: number
+): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    const stream = entry.nodeStream("nodebuffer");
+
+    stream.on("data", (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > remainingBytes) {
+        stream.removeAllListeners("data");
+        stream.pause();
+        reject(
+          new Error(
+            "Archive exceeds the maximum uncompressed size. Please split it into smaller archives."
+          )
+        );
+        return;
+      }
+      chunks.push(chunk);
+    });
+    stream.on("error", reject);
+    stream.on("end", () => resolve(Buffer.concat(chunks)));
+  });
+}
+
+/**
+ * Expand a ZIP archive into the files the extraction pipeline supports
+ * Unsupported and unsafe entries are reported as skipped; exceeding the
+ * entry-count or size limits rejects the whole archive.
+ * @param buffer - ZIP file contents
+ * @param limits - Override limits (defaults to ZIP_MAX_* env settings)
+ * @returns Supported files plus skipped entries
+ * @throws Error if the archive is invalid or exceeds a limit
+ */
+export async function expandZip(
+  buffer: Buffer,
+  limits: ArchiveLimits = {
+    maxEntries: getZipMaxEntries(),
+    maxTotalBytes: getZipMaxTotalBytes(),
+  }
+): Promise<ExpandedArchive> {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(buffer);
+  } catch (error: any) {
+    throw new Error(
+      `File does not appear to be a valid ZIP archive: ${error.message}`
+    );
+  }
+
+  // Directories and macOS resource forks are packaging noise, not entries
+  const entries = Object.values(zip.files).filter(
+    (entry) =>
+      !entry.dir &&
+      !entry.name.startsWith("__MACOSX/") &&
+      !path.posix.basename(entry.name.replace(/\\/g, "/")).startsWith("._")
+  );
+
+  if (entries.length === 0) {
+    throw new Error("Archive is empty");
+  }
+
+  if (entries.length > limits.maxEntries) {
+    throw new Error(
+      `Archive contains ${entries.length} files; the maximum is ${limits.maxEntries}`
+    );
+  }
+
+  const files: ArchiveFile[] = [];
+  const skipped: SkippedArchiveEntry[] = [];
+  let totalBytes = 0;
+
+  for (const entry of entries) {
+    // JSZip rewrites "../" names on load; check the name as stored in the archive
+    const originalName = entry.unsafeOriginalName ?? entry.name;
+    const entryPath = normalizeEntryPath(originalName);
+    if (!entryPath) {
+      skipped.push({ path: originalName, reason: "Unsafe path" });
+      continue;
+    }
+
+    const fileName = path.posix.basename(entryPath);
+    const mimeType = mimeTypeForFilename(fileName);
+
+    if (mimeType && isArchiveMimeType(mimeType)) {
+      skipped.push({ path: entryPath, reason: "Nested archives are not supported" });
+      continue;
+    }
+
+    if (!mimeType || !extensionForMimeType(mimeType)) {
+      skipped.push({ path: entryPath, reason: "Unsupported file type" });
+      continue;
+    }
+
+    const content = await readEntry(entry, limits.maxTotalBytes - totalBytes);
+    totalBytes += content.length;
+
+    if (content.length === 0) {
+      skipped.push({ path: entryPath, reason: "Empty file" });
+      continue;
+    }
+
+    files.push({ path: entryPath, fileName, mimeType, content });
+  }
+
+  return { files, skipped, totalBytes };
+}
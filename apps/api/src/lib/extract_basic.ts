@@ -1,20 +1,42 @@
 import { S3Client, GetObjectCommand } from "@aws-sdk/client-s3";
 import { Readable } from "stream";
 import mammoth from "mammoth";
+import {
+  OcrPageResult,
+  getOcrMaxPages,
+  isImageOnlyPage,
+  isOcrEnabled,
+  recognizePages,
+} from "./ocr";
+import {
+  DocumentModel,
+  SourceBlock,
+  alignBlocks,
+  buildDocumentModel,
+  parseHtmlBlocks,
+} from "./document_model";
+import {
+  EmailAttachmentReport,
+  EmailHeaders,
+  extractEML,
+  extractMSG,
+  extractODT,
+  decodeText,
+  htmlToText,
+  rtfToText,
+} from "./extract_formats";
+import { resolveMimeType } from "./file_types";
+import { ExtractionQuality, assessExtraction } from "./extraction_quality";
 
 // pdf-parse is a CommonJS module - lazy load to avoid Lambda initialization issues
 // Only import when actually needed for PDF parsing
-let pdfParse:
-  | ((buffer: Buffer) => Promise<{ text: string; [key: string]: any }>)
-  | null = null;
+type PdfParseModule = typeof import("pdf-parse");
+let pdfParse: PdfParseModule | null = null;
 
-function getPdfParse() {
+function getPdfParse(): PdfParseModule {
   if (!pdfParse) {
     try {
-      pdfParse = require("pdf-parse") as (buffer: Buffer) => Promise<{
-        text: string;
-        [key: string]: any;
-      }>;
+      pdfParse = require("pdf-parse") as PdfParseModule;
     } catch (error) {
       throw new Error("PDF parsing not available in this environment");
     }
@@ -22,6 +44,77 @@ function getPdfParse() {
   return pdfParse;
 }
 
+// textract shells out to converters (pdftotext, antiword, unrtf) for some
+// formats - lazy load so it is only required for alternate-parser runs
+interface TextractModule {
+  fromBufferWithMime(
+    type: string,
+    buffer: Buffer,
+    config: Record<string, unknown>,
+    callback: (error: Error | null, text: string) => void
+  ): void;
+}
+let textract: TextractModule | null = null;
+
+function getTextract(): TextractModule {
+  if (!textract) {
+    try {
+      textract = require("textract") as TextractModule;
+    } catch (error) {
+      throw new Error("Alternate parser not available in this environment");
+    }
+  }
+  return textract;
+}
+
+/**
+ * Per-page OCR summary reported back to the client
+ */
+export interface OcrPageSummary {
+  page: number;
+  confidence: number;
+  characters: number;
+  ocrFailed?: boolean; // OCR errored; the page keeps its text layer
+}
+
+/**
+ * Result of extracting a single uploaded file
+ */
+export interface ExtractionResult {
+  text: string;
+  ocrPages: OcrPageSummary[]; // empty when no page needed OCR
+  structure: DocumentModel; // pages/headings/paragraphs/tables with offsets into text
+  email?: {
+    headers: EmailHeaders;
+    attachments: EmailAttachmentReport[];
+  }; // set for EML/MSG uploads
+  quality: ExtractionQuality;
+}
+
+/**
+ * Options for re-running extraction on a stored upload
+ */
+export interface ExtractionOptions {
+  forceOcr?: boolean; // OCR every PDF page, ignoring the embedded text layer
+  alternateParser?: boolean; // extract with textract instead of the built-in parser
+  charset?: string; // declared charset of a text attachment (defaults to UTF-8)
+}
+
+// Formats textract can read (emails keep their own parser for attachments)
+const ALTERNATE_PARSER_MIME_TYPES = new Set([
+  "application/pdf",
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  "application/msword",
+  "text/plain",
+  "application/rtf",
+  "text/rtf",
+  "application/vnd.oasis.opendocument.text",
+  "text/html",
+]);
+
+// Emails can attach emails; stop recursing after this many levels
+const MAX_ATTACHMENT_DEPTH = 3;
+
 const s3Client = new S3Client({
   region: process.env.REGION || "us-east-1",
 });
@@ -38,12 +131,115 @@ async function streamToBuffer(stream: Readable): Promise<Buffer> {
 }
 
 /**
- * Extract text from PDF using pdf-parse
+ * Page boundary marker used in extracted PDF text (matches pdf-parse's default joiner)
+ */
+function pageMarker(pageNumber: number, totalPages: number): string {
+  return `-- ${pageNumber} of ${totalPages} --`;
+}
+
+/**
+ * Extract text from PDF using pdf-parse, falling back to local OCR for
+ * pages that have no usable text layer (scanned records, faxed reports)
  */
-async function extractPDF(buffer: Buffer): Promise<string> {
-  const pdfParser = getPdfParse();
-  const data = await pdfParser(buffer);
-  return data.text.trim();
+async function extractPDF(
+  buffer: Buffer,
+  forceOcr = false
+): Promise<Pick<ExtractionResult, "text" | "ocrPages">> {
+  const { PDFParse } = getPdfParse();
+  const parser = new PDFParse({ data: buffer });
+
+  try {
+    const textResult = await parser.getText({ pageJoiner: "" });
+    const totalPages = textResult.total;
+    const pageTexts = new Map<number, string>(
+      textResult.pages.map((page) => [page.num, page.text.trim()])
+    );
+
+    // Forced OCR re-reads every page, e.g. when the text layer is garbled
+    const imageOnlyPages = forceOcr
+      ? textResult.pages.map((page) => page.num)
+      : isOcrEnabled()
+        ? textResult.pages
+            .filter((page) => isImageOnlyPage(page.text))
+            .map((page) => page.num)
+        : [];
+
+    let ocrResults: OcrPageResult[] = [];
+    if (imageOnlyPages.length > 0) {
+      const pagesToOcr = imageOnlyPages.slice(0, getOcrMaxPages());
+      if (pagesToOcr.length < imageOnlyPages.length) {
+        console.warn(
+          `Skipping OCR for ${
+            imageOnlyPages.length - pagesToOcr.length
+          } page(s) beyond OCR_MAX_PAGES`
+        );
+      }
+
+      console.log(
+        `${forceOcr ? "Forcing OCR on" : "Detected"} ${imageOnlyPages.length} ${
+          forceOcr ? "" : "image-only "
+        }page(s), running OCR on pages: ${pagesToOcr.join(", ")}`
+      );
+
+      // Render at 2x so small print on scanned records stays legible to Tesseract
+      const screenshots = await parser.getScreenshot({
+        partial: pagesToOcr,
+        scale: 2,
+        imageDataUrl: false,
+        imageBuffer: true,
+      });
+
+      ocrResults = await recognizePages(
+        screenshots.pages.map((shot) => ({
+          pageNumber: shot.pageNumber,
+          data: shot.data,
+        }))
+      );
+
+      // Failed or empty OCR keeps whatever the text layer had for the page
+      for (const result of ocrResults) {
+        if (!result.error && result.text) {
+          pageTexts.set(result.page, result.text);
+        }
+      }
+    }
+
+    // A PDF with no text layer and nothing OCR could read has no content at all
+    const hasContent = Array.from(pageTexts.values()).some(
+      (pageText) => pageText.length > 0
+    );
+
+    // Merge native and OCR'd pages back together in page order with markers
+    const merged: string[] = [];
+    for (let pageNumber = 1; pageNumber <= totalPages; pageNumber++) {
+      const pageText = pageTexts.get(pageNumber) || "";
+      merged.push(
+        pageText
+          ? `${pageText}\n${pageMarker(pageNumber, totalPages)}`
+          : pageMarker(pageNumber, totalPages)
+      );
+    }
+
+    return {
+      text: hasContent ? merged.join("\n\n").trim() : "",
+      ocrPages: ocrResults.map((result) =>
+        result.error
+          ? {
+              page: result.page,
+              confidence: 0,
+              characters: (pageTexts.get(result.page) || "").length,
+              ocrFailed: true,
+            }
+          : {
+              page: result.page,
+              confidence: result.confidence,
+              characters: result.text.length,
+            }
+      ),
+    };
+  } finally {
+    await parser.destroy();
+  }
 }
 
 /**
@@ -122,6 +318,24 @@ async function extractDOCX(buffer: Buffer): Promise<string> {
   }
 }
 
+/**
+ * Read heading, list and table structure from a DOCX via mammoth's HTML output
+ * Best-effort: returns null if the conversion fails so extraction still succeeds
+ */
+async function extractDOCXStructure(
+  buffer: Buffer
+): Promise<SourceBlock[] | null> {
+  try {
+    const result = await mammoth.convertToHtml({ buffer });
+    return parseHtmlBlocks(result.value);
+  } catch (error: any) {
+    console.warn(
+      `Failed to read DOCX structure, falling back to text heuristics: ${error.message}`
+    );
+    return null;
+  }
+}
+
 /**
  * Extract text from DOC (old Microsoft Word format)
  * Note: Old DOC files are binary format and difficult to parse in Lambda.
@@ -244,21 +458,60 @@ async function extractDOC(buffer: Buffer): Promise<string> {
 }
 
 /**
- * Main extraction function - downloads from S3 and extracts text
- * @param bucket - S3 bucket name
- * @param key - S3 object key
- * @param mimeType - MIME type of the file
- * @returns Extracted text content
- * @throws Error if file type is unsupported or extraction fails
+ * Extract text with textract (the alternate parser offered on re-extraction)
+ * Line breaks are kept so page and table heuristics still apply
  */
-export async function extractText(
-  bucket: string,
-  key: string,
+async function extractWithTextract(
+  buffer: Buffer,
   mimeType: string
 ): Promise<string> {
-  console.log(`Extracting text from ${key}, MIME type: ${mimeType}`);
+  const parser = getTextract();
+  const text = await new Promise<string>((resolve, reject) => {
+    parser.fromBufferWithMime(
+      mimeType,
+      buffer,
+      { preserveLineBreaks: true },
+      (error, result) => (error ? reject(error) : resolve(result || ""))
+    );
+  });
+  return text.trim();
+}
+
+/**
+ * Check that re-extraction options apply to a file type
+ * @returns A message describing the problem, or null if the options are usable
+ */
+export function validateExtractionOptions(
+  mimeType: string,
+  options: ExtractionOptions
+): string | null {
+  if (options.forceOcr && options.alternateParser) {
+    return "Choose either forceOcr or alternateParser, not both";
+  }
+  if (options.forceOcr) {
+    if (mimeType !== "application/pdf") {
+      return "OCR can only be forced for PDF files";
+    }
+    if (!isOcrEnabled()) {
+      return "OCR is disabled on this server";
+    }
+  }
+  if (options.alternateParser && !ALTERNATE_PARSER_MIME_TYPES.has(mimeType)) {
+    return "No alternate parser is available for this file type";
+  }
+  return null;
+}
 
-  // Download file from S3
+/**
+ * Download an uploaded file from S3
+ * @param bucket - S3 bucket name
+ * @param key - S3 object key
+ * @returns File contents
+ */
+export async function downloadObject(
+  bucket: string,
+  key: string
+): Promise<Buffer> {
   const command = new GetObjectCommand({ Bucket: bucket, Key: key });
   const response = await s3Client.send(command);
 
@@ -268,18 +521,60 @@ export async function extractText(
 
   const buffer = await streamToBuffer(response.Body as Readable);
   console.log(`Downloaded file, size: ${buffer.length} bytes`);
+  return buffer;
+}
+
+/**
+ * Main extraction function - downloads from S3 and extracts text
+ * @param bucket - S3 bucket name
+ * @param key - S3 object key
+ * @param mimeType - MIME type of the file
+ * @returns Extracted text content and OCR details for scanned pages
+ * @throws Error if file type is unsupported or extraction fails
+ */
+export async function extractText(
+  bucket: string,
+  key: string,
+  mimeType: string
+): Promise<ExtractionResult> {
+  console.log(`Extracting text from ${key}, MIME type: ${mimeType}`);
 
+  const buffer = await downloadObject(bucket, key);
+
+  // Browsers often send .msg/.eml as application/octet-stream
+  return extractFromBuffer(buffer, resolveMimeType(mimeType, key), key);
+}
+
+/**
+ * Extract text from file contents already in memory
+ * Used for S3 downloads and, recursively, for email attachments
+ * @param buffer - File contents
+ * @param mimeType - MIME type of the file
+ * @param fileName - File name or S3 key (used in log messages)
+ * @param depth - Attachment nesting level (0 for the uploaded file)
+ * @param options - Re-extraction options (forced OCR, alternate parser)
+ * @returns Extracted text content, OCR details for scanned pages and a
+ *   quality report
+ * @throws Error if file type is unsupported or extraction fails
+ */
+export async function extractFromBuffer(
+  buffer: Buffer,
+  mimeType: string,
+  fileName: string,
+  depth = 0,
+  options: ExtractionOptions = {}
+): Promise<ExtractionResult> {
   // Validate buffer is not empty
   if (buffer.length === 0) {
     throw new Error("Downloaded file is empty");
   }
 
   // Check if file is actually a DOCX (ZIP) but was misidentified as DOC
-  if (mimeType === "application/msword") {
+  if (mimeType === "application/msword" && !options.alternateParser) {
     const zipSignature = buffer.readUInt32LE(0);
     if (zipSignature === 0x04034b50 || zipSignature === 0x504b0304) {
       console.warn(
-        `File ${key} is actually a DOCX (ZIP archive) but was identified as DOC. Attempting DOCX extraction.`
+        `File ${fileName} is actually a DOCX (ZIP archive) but was identified as DOC. Attempting DOCX extraction.`
       );
       // Try DOCX extraction instead
       try {
@@ -287,7 +582,16 @@ export async function extractText(
         console.log(
           `Successfully extracted ${docxText.length} characters using DOCX method`
         );
-        return docxText;
+        const docxBlocks = await extractDOCXStructure(buffer);
+        const docxStructure = docxBlocks
+          ? alignBlocks(docxText, docxBlocks)
+          : buildDocumentModel(docxText);
+        return {
+          text: docxText,
+          ocrPages: [],
+          structure: docxStructure,
+          quality: assessExtraction(docxText, docxStructure),
+        };
       } catch (docxError: any) {
         throw new Error(
           `File appears to be DOCX format but DOCX extraction failed. Please ensure the file is correctly identified: ${docxError.message}`
@@ -297,16 +601,47 @@ export async function extractText(
   }
 
   let extractedText: string;
+  let ocrPages: OcrPageSummary[] = [];
+  let sourceBlocks: SourceBlock[] | null = null;
+  let email: ExtractionResult["email"];
+
+  // Attachments go back through this pipeline, one level deeper
+  const extractAttachment = async (
+    attachment: Buffer,
+    attachmentType: string,
+    attachmentName: string,
+    charset?: string
+  ): Promise<string> => {
+    if (depth >= MAX_ATTACHMENT_DEPTH) {
+      throw new Error("Attachment nesting is too deep");
+    }
+    const result = await extractFromBuffer(
+      attachment,
+      attachmentType,
+      attachmentName,
+      depth + 1,
+      { charset }
+    );
+    return result.text;
+  };
 
   // Extract based on MIME type
   try {
-    switch (mimeType) {
-      case "application/pdf":
-        extractedText = await extractPDF(buffer);
+    switch (options.alternateParser ? "alternate" : mimeType) {
+      case "alternate":
+        extractedText = await extractWithTextract(buffer, mimeType);
+        break;
+
+      case "application/pdf": {
+        const pdfResult = await extractPDF(buffer, options.forceOcr);
+        extractedText = pdfResult.text;
+        ocrPages = pdfResult.ocrPages;
         break;
+      }
 
       case "application/vnd.openxmlformats-officedocument.wordprocessingml.document":
         extractedText = await extractDOCX(buffer);
+        sourceBlocks = await extractDOCXStructure(buffer);
         break;
 
       case "application/msword":
@@ -314,9 +649,36 @@ export async function extractText(
         break;
 
       case "text/plain":
-        extractedText = buffer.toString("utf-8").trim();
+        extractedText = decodeText(buffer, options.charset).trim();
+        break;
+
+      case "application/rtf":
+      case "text/rtf":
+        extractedText = rtfToText(buffer.toString("latin1"));
+        break;
+
+      case "application/vnd.oasis.opendocument.text":
+        extractedText = await extractODT(buffer);
+        break;
+
+      case "text/html":
+        extractedText = htmlToText(decodeText(buffer, options.charset));
         break;
 
+      case "message/rfc822":
+      case "application/vnd.ms-outlook": {
+        const emailResult =
+          mimeType === "message/rfc822"
+            ? await extractEML(buffer, extractAttachment)
+            : await extractMSG(buffer, extractAttachment);
+        extractedText = emailResult.text;
+        email = {
+          headers: emailResult.headers,
+          attachments: emailResult.attachments,
+        };
+        break;
+      }
+
       default:
         throw new Error(`Unsupported file type: ${mimeType}`);
     }
@@ -356,31 +718,34 @@ export async function extractText(
       }
     }
 
-    const nonPrintableRatio =
-      (extractedText.match(/[\x00-\x08\x0E-\x1F\x7F-\x9F]/g) || []).length /
-      extractedText.length;
-    // Be more lenient with DOC files as they may have more binary artifacts
-    const threshold = mimeType === "application/msword" ? 0.15 : 0.05;
-    if (nonPrintableRatio > threshold && extractedText.length > 100) {
-      if (mimeType === "application/msword") {
-        console.warn(
-          `Warning: DOC file has high ratio of non-printable characters (${(
-            nonPrintableRatio * 100
-          ).toFixed(1)}%)`
-        );
-      } else {
-        console.warn(
-          `Warning: High ratio of non-printable characters (${(
-            nonPrintableRatio * 100
-          ).toFixed(1)}%)`
-        );
-      }
-    }
-
     console.log(
-      `Successfully extracted ${extractedText.length} characters of text`
+      `Successfully extracted ${extractedText.length} characters of text${
+        ocrPages.length > 0
+          ? ` (${ocrPages.filter((page) => !page.ocrFailed).length} page(s) via OCR)`
+          : ""
+      }`
     );
-    return extractedText;
+    // DOCX keeps its real headings/tables; other formats use layout heuristics
+    const structure = sourceBlocks
+      ? alignBlocks(extractedText, sourceBlocks)
+      : buildDocumentModel(extractedText);
+
+    // Unreadable characters, empty pages and encoding problems are reported
+    // rather than failing the upload; the user can re-extract with other options
+    const quality = assessExtraction(extractedText, structure);
+    if (quality.warnings.length > 0) {
+      console.warn(
+        `Extraction quality warnings for ${fileName}: ${quality.warnings.join("; ")}`
+      );
+    }
+
+    return {
+      text: extractedText,
+      ocrPages,
+      structure,
+      ...(email && { email }),
+      quality,
+    };
   } catch (error: any) {
     console.error(`Extraction failed for ${mimeType}:`, error);
     throw error;
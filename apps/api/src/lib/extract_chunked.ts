@@ -3,48 +3,106 @@
  * Splits text into manageable chunks based on token limits and natural boundaries
  */
 
+import { DocumentModel } from "./document_model";
+import { countTokens, prefixWithinTokens } from "./tokenizer";
+import { chunkTokenLimit, sourceTokenLimit } from "./token_budget";
+
 export interface Chunk {
   idx: number;
   text: string;
   start: number; // character position in original text
   end: number; // character position in original text
-  summary?: string; // optional contextual summary (unused in MVP)
+  summary?: string; // summary cached by map-reduce generation (set later)
 }
 
 /**
- * Estimate token count using heuristic: 1 token ≈ 4 characters
- * This is a rough approximation for Claude models (English legal text)
+ * Count tokens with the prompt tokenizer (see tokenizer.ts)
  */
 export function estimateTokens(text: string): number {
-  return Math.ceil(text.length / 4);
+  return countTokens(text);
 }
 
 /**
  * Determine if document needs chunking based on token threshold
  * @param text - Full extracted text
- * @param threshold - Token threshold (default: 4000 from CHUNK_TOKEN_LIMIT)
+ * @param threshold - Token threshold (default: the largest document the
+ *   configured model can take whole, see sourceTokenLimit)
  * @returns true if text exceeds threshold
  */
-export function needsChunking(text: string, threshold: number = 4000): boolean {
+export function needsChunking(
+  text: string,
+  threshold: number = sourceTokenLimit()
+): boolean {
   return estimateTokens(text) > threshold;
 }
 
+/**
+ * Collect candidate split positions from a document model
+ * Page and heading starts are "strong" boundaries (a new section begins there);
+ * every other block start is a "weak" boundary. Splitting only at block starts
+ * means a table or list item is never cut in half.
+ */
+function structuralBoundaries(structure: DocumentModel): {
+  strong: number[];
+  weak: number[];
+} {
+  const strong = new Set<number>();
+  const weak = new Set<number>();
+
+  for (const page of structure.pages) {
+    if (page.start > 0) strong.add(page.start);
+  }
+
+  for (const block of structure.blocks) {
+    if (block.start <= 0) continue;
+    if (block.type === "heading") {
+      strong.add(block.start);
+    } else {
+      weak.add(block.start);
+    }
+  }
+
+  const sort = (values: Set<number>) =>
+    Array.from(values).sort((a, b) => a - b);
+  return { strong: sort(strong), weak: sort(weak) };
+}
+
+/**
+ * Find the last boundary in (minPos, maxPos], or -1 if none
+ */
+function lastBoundaryWithin(
+  boundaries: number[],
+  minPos: number,
+  maxPos: number
+): number {
+  for (let i = boundaries.length - 1; i >= 0; i--) {
+    const pos = boundaries[i];
+    if (pos <= maxPos) {
+      return pos > minPos ? pos : -1;
+    }
+  }
+  return -1;
+}
+
 /**
  * Split text into chunks respecting token limits and natural boundaries
  * @param text - Full extracted text
- * @param maxTokens - Maximum tokens per chunk (default: 4000)
+ * @param maxTokens - Maximum tokens per chunk (default: the largest chunk the
+ *   configured model can summarize, see chunkTokenLimit)
  * @param overlapChars - Character overlap between chunks (default: 200)
+ * @param structure - Optional document model; when provided, chunks are split at
+ *   page/heading/block boundaries instead of guessing at paragraph and sentence ends
  * @returns Array of chunks with metadata
  */
 export function chunkText(
   text: string,
-  maxTokens: number = 4000,
-  overlapChars: number = 200
+  maxTokens: number = chunkTokenLimit(),
+  overlapChars: number = 200,
+  structure?: DocumentModel
 ): Chunk[] {
-  const maxChars = maxTokens * 4; // Convert tokens to approximate characters
   const chunks: Chunk[] = [];
 
-  if (text.length <= maxChars) {
+  if (estimateTokens(text) <= maxTokens) {
     // Text fits in single chunk
     return [
       {
@@ -56,6 +114,8 @@ export function chunkText(
     ];
   }
 
+  const boundaries = structure ? structuralBoundaries(structure) : null;
+
   let currentIdx = 0;
   let currentPos = 0;
 
@@ -65,7 +125,8 @@ export function chunkText(
       currentIdx > 0 ? Math.max(0, currentPos - overlapChars) : currentPos;
 
     const remainingText = text.substring(chunkStart);
-    const targetLength = maxChars;
+    // Characters of the remaining text that fit in the token budget
+    const targetLength = prefixWithinTokens(remainingText, maxTokens);
 
     // Strategy: Find best split point respecting natural boundaries
     let chunkEnd = text.length;
@@ -78,30 +139,25 @@ export function chunkText(
     } else {
       // Find best split point within target length
       const searchWindow = Math.min(targetLength, remainingText.length);
-      let splitPos = searchWindow;
-
-      // Try to split at paragraph boundary (double newline)
-      const paraBreak = remainingText.lastIndexOf("\n\n", searchWindow);
-      if (paraBreak > targetLength * 0.5) {
-        // Found paragraph break in reasonable position
-        splitPos = paraBreak + 2; // Include the newlines
-      } else {
-        // Try single newline
-        const lineBreak = remainingText.lastIndexOf("\n", searchWindow);
-        if (lineBreak > targetLength * 0.5) {
-          splitPos = lineBreak + 1;
-        } else {
-          // Try sentence boundary (period + space)
-          const sentenceBreak = remainingText.lastIndexOf(". ", searchWindow);
-          if (sentenceBreak > targetLength * 0.5) {
-            splitPos = sentenceBreak + 2;
-          } else {
-            // Hard split at target length
-            splitPos = searchWindow;
-          }
+      let splitPos = -1;
+
+      if (boundaries) {
+        // Prefer structural boundaries (absolute positions) in the back half of the window
+        const minPos = Math.max(currentPos, chunkStart + targetLength * 0.5);
+        const maxPos = chunkStart + searchWindow;
+        let boundary = lastBoundaryWithin(boundaries.strong, minPos, maxPos);
+        if (boundary === -1) {
+          boundary = lastBoundaryWithin(boundaries.weak, minPos, maxPos);
+        }
+        if (boundary !== -1) {
+          splitPos = boundary - chunkStart;
         }
       }
 
+      if (splitPos === -1) {
+        splitPos = findTextSplitPos(remainingText, searchWindow, targetLength);
+      }
+
       chunkText = remainingText.substring(0, splitPos);
       chunkEnd = chunkStart + splitPos;
     }
@@ -121,3 +177,35 @@ export function chunkText(
 
   return chunks;
 }
+
+/**
+ * Find a split point in unstructured text: paragraph break, then line break,
+ * then sentence end, falling back to a hard split at the window size
+ */
+function findTextSplitPos(
+  remainingText: string,
+  searchWindow: number,
+  targetLength: number
+): number {
+  // Try to split at paragraph boundary (double newline)
+  const paraBreak = remainingText.lastIndexOf("\n\n", searchWindow);
+  if (paraBreak > targetLength * 0.5) {
+    // Found paragraph break in reasonable position
+    return paraBreak + 2; // Include the newlines
+  }
+
+  // Try single newline
+  const lineBreak = remainingText.lastIndexOf("\n", searchWindow);
+  if (lineBreak > targetLength * 0.5) {
+    return lineBreak + 1;
+  }
+
+  // Try sentence boundary (period + space)
+  const sentenceBreak = remainingText.lastIndexOf(". ", searchWindow);
+  if (sentenceBreak > targetLength * 0.5) {
+    return sentenceBreak + 2;
+  }
+
+  // Hard split at target length
+  return searchWindow;
+}
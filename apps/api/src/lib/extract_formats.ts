@@ -0,0 +1,664 @@
+/**
+ * Extractors for additional upload formats: RTF, ODT, HTML, EML and MSG
+ * Email extractors capture headers and hand attachments back to the main
+ * extraction pipeline so supported attachments are extracted recursively
+ */
+
+import iconv from "iconv-lite";
+import JSZip from "jszip";
+import { simpleParser, AddressObject, Headers } from "mailparser";
+import MsgReader from "@kenjiuno/msgreader";
+import { decodeEntities } from "./document_model";
+import { extensionForMimeType, resolveMimeType } from "./file_types";
+
+export interface EmailHeaders {
+  from: string;
+  to: string;
+  cc: string;
+  date: string | null; // ISO 8601 when the date could be parsed
+  subject: string;
+}
+
+export interface EmailAttachmentReport {
+  fileName: string;
+  mimeType: string;
+  status: "extracted" | "skipped" | "failed";
+  reason?: string;
+  characters?: number;
+}
+
+export interface EmailExtraction {
+  text: string;
+  headers: EmailHeaders;
+  attachments: EmailAttachmentReport[];
+}
+
+/**
+ * Callback used to extract an email attachment with the main pipeline
+ * Should throw for unsupported types or failed extraction
+ */
+export type AttachmentExtractor = (
+  buffer: Buffer,
+  mimeType: string,
+  fileName: string,
+  charset?: string
+) => Promise<string>;
+
+/**
+ * Decode text bytes in their declared charset (windows-1252, iso-8859-1...),
+ * falling back to UTF-8 when none is declared or the label is unknown
+ * @param buffer - Raw text bytes
+ * @param charset - Charset label, e.g. from a Content-Type header
+ * @returns Decoded text
+ */
+export function decodeText(buffer: Buffer, charset?: string | null): string {
+  const label = (charset || "").trim().replace(/^["']|["']$/g, "");
+  if (label && !iconv.encodingExists(label)) {
+    console.warn(`Unknown charset "${label}", decoding as UTF-8`);
+  }
+  return iconv.decode(
+    buffer,
+    label && iconv.encodingExists(label) ? label : "utf-8"
+  );
+}
+
+// Windows code pages Outlook records for a message, as charset labels
+const CODEPAGE_CHARSETS: Record<number, string> = {
+  874: "windows-874",
+  932: "shift_jis",
+  936: "gbk",
+  949: "euc-kr",
+  950: "big5",
+  20127: "us-ascii",
+  20866: "koi8-r",
+  65001: "utf-8",
+};
+
+function codepageCharset(codepage: number | undefined): string | undefined {
+  if (!codepage) return undefined;
+  if (codepage >= 1250 && codepage <= 1258) return `windows-${codepage}`;
+  if (codepage >= 28591 && codepage <= 28605) {
+    return `iso-8859-${codepage - 28590}`;
+  }
+  return CODEPAGE_CHARSETS[codepage];
+}
+
+/**
+ * Collapse whitespace while keeping paragraph breaks and tab-separated table cells
+ */
+function normalizeWhitespace(text: string): string {
+  return text
+    .replace(/\r\n?/g, "\n")
+    .replace(/[  ]+/g, " ")
+    .split("\n")
+    .map((line) => line.trim())
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+/**
+ * Convert HTML to plain text, keeping block boundaries as blank lines,
+ * list items as "- " bullets and table cells tab-separated
+ */
+export function htmlToText(html: string): string {
+  const text = html
+    .replace(/<(script|style|head|title)[^>]*>[\s\S]*?<\/\1>/gi, "")
+    .replace(/<!--[\s\S]*?-->/g, "")
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<li[^>]*>/gi, "\n- ")
+    .replace(/<\/t[dh]>/gi, "\t")
+    .replace(/<\/tr>/gi, "\n")
+    .replace(
+      /<\/?(p|div|h[1-6]|ul|ol|table|blockquote|pre|section|article|header|footer|hr)[^>]*>/gi,
+      "\n\n"
+    )
+    .replace(/<[^>]+>/g, "");
+
+  return normalizeWhitespace(decodeEntities(text));
+}
+
+// RTF destinations whose content is metadata, not document text
+const RTF_SKIP_DESTINATIONS = new Set([
+  "fonttbl",
+  "colortbl",
+  "stylesheet",
+  "info",
+  "pict",
+  "object",
+  "listtable",
+  "listoverridetable",
+  "rsidtbl",
+  "generator",
+  "themedata",
+  "colorschememapping",
+  "datastore",
+  "latentstyles",
+  "xmlnstbl",
+  "fldinst",
+  "header",
+  "footer",
+  "headerl",
+  "headerr",
+  "footerl",
+  "footerr",
+]);
+
+const RTF_SYMBOLS: Record<string, string> = {
+  par: "\n",
+  line: "\n",
+  sect: "\n\n",
+  page: "\n\n",
+  tab: "\t",
+  cell: "\t",
+  row: "\n",
+  emdash: "—",
+  endash: "–",
+  bullet: "•",
+  lquote: "‘",
+  rquote: "’",
+  ldblquote: "“",
+  rdblquote: "”",
+  emspace: " ",
+  enspace: " ",
+};
+
+// Windows-1252 code points that differ from Latin-1 in the 0x80-0x9F range
+const CP1252: Record<number, string> = {
+  0x80: "€",
+  0x85: "…",
+  0x91: "‘",
+  0x92: "’",
+  0x93: "“",
+  0x94: "”",
+  0x95: "•",
+  0x96: "–",
+  0x97: "—",
+  0x99: "™",
+};
+
+/**
+ * Convert RTF to plain text
+ * Handles groups, escaped characters, \'hh code-page escapes and \uN unicode
+ * escapes; formatting and metadata destinations are dropped.
+ */
+export function rtfToText(rtf: string): string {
+  if (!rtf.trimStart().startsWith("{\\rtf")) {
+    throw new Error("File does not appear to be a valid RTF document");
+  }
+
+  let output = "";
+  let skipDepth = 0; // > 0 while inside a skipped destination
+  let depth = 0;
+  let unicodeSkip = 1; // chars to skip after \uN (set by \ucN)
+  let pendingSkip = 0;
+  const ucStack: number[] = [];
+  let i = 0;
+
+  const emit = (value: string) => {
+    if (pendingSkip > 0) {
+      pendingSkip--;
+      return;
+    }
+    if (skipDepth === 0) output += value;
+  };
+
+  while (i < rtf.length) {
+    const ch = rtf[i];
+
+    if (ch === "{") {
+      depth++;
+      ucStack.push(unicodeSkip);
+      i++;
+      continue;
+    }
+
+    if (ch === "}") {
+      if (skipDepth > 0 && depth <= skipDepth) {
+        skipDepth = 0;
+      }
+      depth--;
+      unicodeSkip = ucStack.pop() ?? 1;
+      i++;
+      continue;
+    }
+
+    if (ch === "\\") {
+      const next = rtf[i + 1];
+
+      if (next === "\\" || next === "{" || next === "}") {
+        emit(next);
+        i += 2;
+        continue;
+      }
+
+      if (next === "'") {
+        const code = parseInt(rtf.substring(i + 2, i + 4), 16);
+        if (Number.isFinite(code)) {
+          emit(CP1252[code] ?? String.fromCharCode(code));
+        }
+        i += 4;
+        continue;
+      }
+
+      if (next === "*") {
+        // Ignorable destination: skip the whole group
+        if (skipDepth === 0) skipDepth = depth;
+        i += 2;
+        continue;
+      }
+
+      if (next === "~") {
+        emit(" ");
+        i += 2;
+        continue;
+      }
+
+      if (next === "_") {
+        emit("-");
+        i += 2;
+        continue;
+      }
+
+      if (next === "\n" || next === "\r") {
+        emit("\n");
+        i += 2;
+        continue;
+      }
+
+      const match = rtf.substring(i + 1).match(/^([a-z]+)(-?\d+)? ?/i);
+      if (!match) {
+        // Other control symbols (\-, \|, \:) carry no text
+        i += 2;
+        continue;
+      }
+
+      const [token, word, param] = match;
+      i += 1 + token.length;
+
+      if (RTF_SKIP_DESTINATIONS.has(word)) {
+        if (skipDepth === 0) skipDepth = depth;
+        continue;
+      }
+
+      if (word === "uc") {
+        unicodeSkip = param ? parseInt(param, 10) : 1;
+        continue;
+      }
+
+      if (word === "u" && param) {
+        let code = parseInt(param, 10);
+        if (code < 0) code += 65536;
+        emit(String.fromCharCode(code));
+        pendingSkip = unicodeSkip;
+        continue;
+      }
+
+      const symbol = RTF_SYMBOLS[word];
+      if (symbol) {
+        emit(symbol);
+      }
+      continue;
+    }
+
+    if (ch === "\r" || ch === "\n") {
+      // Raw line breaks in RTF source are not significant
+      i++;
+      continue;
+    }
+
+    emit(ch);
+    i++;
+  }
+
+  return normalizeWhitespace(output);
+}
+
+/**
+ * Extract text from an OpenDocument text file (.odt)
+ * Reads content.xml from the ZIP package and converts paragraphs, headings,
+ * list items and table cells to plain text
+ */
+export async function extractODT(buffer: Buffer): Promise<string> {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(buffer);
+  } catch (error: any) {
+    throw new Error(
+      `File does not appear to be a valid ODT file: ${error.message}`
+    );
+  }
+
+  const content = zip.file("content.xml");
+  if (!content) {
+    throw new Error("ODT file is missing content.xml");
+  }
+
+  const xml = await content.async("string");
+  const bodyStart = xml.indexOf("<office:body");
+  const body = bodyStart === -1 ? xml : xml.substring(bodyStart);
+
+  let output = "";
+  let cellDepth = 0;
+  let annotationDepth = 0;
+
+  for (const token of body.split(/(<[^>]+>)/)) {
+    if (!token) continue;
+
+    if (!token.startsWith("<")) {
+      if (annotationDepth === 0) output += decodeEntities(token);
+      continue;
+    }
+
+    const match = token.match(/^<(\/?)([\w:.-]+)([^>]*?)(\/?)>$/);
+    if (!match) continue;
+    const [, closing, name, attributes, selfClosing] = match;
+
+    if (name === "office:annotation") {
+      if (!closing && !selfClosing) annotationDepth++;
+      else if (closing) annotationDepth = Math.max(0, annotationDepth - 1);
+      continue;
+    }
+    if (annotationDepth > 0) continue;
+
+    switch (name) {
+      case "text:p":
+      case "text:h":
+        if (closing || selfClosing) output += cellDepth > 0 ? " " : "\n\n";
+        break;
+      case "text:list-item":
+        if (!closing) output += "- ";
+        break;
+      case "text:tab":
+        output += "\t";
+        break;
+      case "text:line-break":
+        output += "\n";
+        break;
+      case "text:s": {
+        const count = attributes.match(/text:c="(\d+)"/);
+        output += " ".repeat(count ? parseInt(count[1], 10) : 1);
+        break;
+      }
+      case "table:table-cell":
+        if (closing) {
+          cellDepth = Math.max(0, cellDepth - 1);
+          output = output.replace(/ +$/, "") + "\t";
+        } else if (!selfClosing) {
+          cellDepth++;
+        }
+        break;
+      case "table:table-row":
+        if (closing) output = output.replace(/\t$/, "") + "\n";
+        break;
+      case "table:table":
+        if (closing) output += "\n";
+        break;
+    }
+  }
+
+  return normalizeWhitespace(output);
+}
+
+/**
+ * Charset declared on a MIME part's Content-Type, if any
+ */
+function declaredCharset(headers: Headers): string | undefined {
+  const contentType = headers.get("content-type");
+  if (contentType && typeof contentType === "object" && "params" in contentType) {
+    return contentType.params.charset;
+  }
+  return undefined;
+}
+
+function addressText(
+  address: AddressObject | AddressObject[] | undefined
+): string {
+  if (!address) return "";
+  const list = Array.isArray(address) ? address : [address];
+  return list.map((entry) => entry.text).join(", ");
+}
+
+/**
+ * Render headers, body and attachment texts into one plain text document
+ */
+function formatEmail(
+  headers: EmailHeaders,
+  body: string,
+  attachmentSections: Array<{ fileName: string; text: string }>
+): string {
+  const headerLines = [
+    `From: ${headers.from}`,
+    `To: ${headers.to}`,
+    ...(headers.cc ? [`Cc: ${headers.cc}`] : []),
+    `Date: ${headers.date ?? "Unknown"}`,
+    `Subject: ${headers.subject}`,
+  ];
+
+  const sections = [headerLines.join("\n"), body.trim()];
+  for (const attachment of attachmentSections) {
+    sections.push(`=== Attachment: ${attachment.fileName} ===\n${attachment.text}`);
+  }
+
+  return sections.filter(Boolean).join("\n\n");
+}
+
+/**
+ * Run each attachment through the main extraction pipeline, recording
+ * which ones were extracted, skipped as unsupported, or failed
+ */
+async function extractAttachments(
+  attachments: Array<{
+    fileName: string;
+    mimeType: string;
+    content: Buffer;
+    charset?: string;
+  }>,
+  extractAttachment: AttachmentExtractor
+): Promise<{
+  sections: Array<{ fileName: string; text: string }>;
+  reports: EmailAttachmentReport[];
+}> {
+  const sections: Array<{ fileName: string; text: string }> = [];
+  const reports: EmailAttachmentReport[] = [];
+
+  for (const attachment of attachments) {
+    const mimeType = resolveMimeType(attachment.mimeType, attachment.fileName);
+
+    if (!extensionForMimeType(mimeType)) {
+      reports.push({
+        fileName: attachment.fileName,
+        mimeType: attachment.mimeType || "unknown",
+        status: "skipped",
+        reason: "Unsupported file type",
+      });
+      continue;
+    }
+
+    try {
+      const text = await extractAttachment(
+        attachment.content,
+        mimeType,
+        attachment.fileName,
+        attachment.charset
+      );
+      sections.push({ fileName: attachment.fileName, text });
+      reports.push({
+        fileName: attachment.fileName,
+        mimeType,
+        status: "extracted",
+        characters: text.length,
+      });
+    } catch (error: any) {
+      console.warn(
+        `Failed to extract attachment ${attachment.fileName}: ${error.message}`
+      );
+      reports.push({
+        fileName: attachment.fileName,
+        mimeType,
+        status: "failed",
+        reason: error.message,
+      });
+    }
+  }
+
+  return { sections, reports };
+}
+
+/**
+ * Extract an RFC 822 email (.eml): headers, body and supported attachments
+ */
+export async function extractEML(
+  buffer: Buffer,
+  extractAttachment: AttachmentExtractor
+): Promise<EmailExtraction> {
+  const mail = await simpleParser(buffer);
+
+  const headers: EmailHeaders = {
+    from: addressText(mail.from),
+    to: addressText(mail.to),
+    cc: addressText(mail.cc),
+    date: mail.date ? mail.date.toISOString() : null,
+    subject: mail.subject || "",
+  };
+
+  // mailparser decodes body parts in their declared charset
+  const body = mail.text || (mail.html ? htmlToText(mail.html) : "");
+
+  // Inline (related) parts are signature logos and embedded images, not records
+  const { sections, reports } = await extractAttachments(
+    mail.attachments
+      .filter((attachment) => !attachment.related)
+      .map((attachment, index) => ({
+        fileName: attachment.filename || `attachment-${index + 1}`,
+        mimeType: attachment.contentType,
+        content: attachment.content,
+        charset: declaredCharset(attachment.headers),
+      })),
+    extractAttachment
+  );
+
+  return {
+    text: formatEmail(headers, body, sections),
+    headers,
+    attachments: reports,
+  };
+}
+
+/**
+ * Extract an Outlook message (.msg): headers, body and supported attachments
+ * Embedded .msg attachments are extracted recursively like any other attachment
+ */
+export async function extractMSG(
+  buffer: Buffer,
+  extractAttachment: AttachmentExtractor
+): Promise<EmailExtraction> {
+  let reader: MsgReader;
+  let data: ReturnType<MsgReader["getFileData"]>;
+  try {
+    const arrayBuffer = buffer.buffer.slice(
+      buffer.byteOffset,
+      buffer.byteOffset + buffer.byteLength
+    ) as ArrayBuffer;
+    reader = new MsgReader(arrayBuffer);
+    data = reader.getFileData();
+
+    // Non-Unicode messages store their text in the message code page, which
+    // is only known after a first pass
+    const ansiCharset = codepageCharset(data.messageCodepage);
+    if (ansiCharset && !data.error) {
+      reader = new MsgReader(arrayBuffer);
+      reader.parserConfig = { ansiEncoding: ansiCharset };
+      data = reader.getFileData();
+    }
+  } catch (error: any) {
+    throw new Error(
+      `File does not appear to be a valid Outlook message: ${error.message}`
+    );
+  }
+
+  if (data.error) {
+    throw new Error(`Failed to read Outlook message: ${data.error}`);
+  }
+
+  const recipients = data.recipients || [];
+  const formatRecipients = (type: "to" | "cc") =>
+    recipients
+      .filter((recipient) => (recipient.recipType || "to") === type)
+      .map((recipient) =>
+        recipient.name && recipient.email && recipient.name !== recipient.email
+          ? `${recipient.name} <${recipient.email}>`
+          : recipient.email || recipient.name || ""
+      )
+      .filter(Boolean)
+      .join(", ");
+
+  const sentAt = data.messageDeliveryTime || data.clientSubmitTime;
+  const parsedDate = sentAt ? new Date(sentAt) : null;
+
+  const headers: EmailHeaders = {
+    from:
+      data.senderName && data.senderEmail
+        ? `${data.senderName} <${data.senderEmail}>`
+        : data.senderEmail || data.senderName || "",
+    to: formatRecipients("to"),
+    cc: formatRecipients("cc"),
+    date:
+      parsedDate && !isNaN(parsedDate.getTime())
+        ? parsedDate.toISOString()
+        : null,
+    subject: data.subject || "",
+  };
+
+  // The HTML body is stored as bytes in the message's internet code page
+  const body =
+    data.body ||
+    (data.bodyHtml
+      ? htmlToText(data.bodyHtml)
+      : data.html
+        ? htmlToText(
+            decodeText(
+              Buffer.from(data.html),
+              codepageCharset(data.internetCodepage)
+            )
+          )
+        : "");
+
+  const attachments: Array<{
+    fileName: string;
+    mimeType: string;
+    content: Buffer;
+  }> = [];
+  for (const [index, attachment] of (data.attachments || []).entries()) {
+    try {
+      const file = reader.getAttachment(attachment);
+      const fileName =
+        file.fileName ||
+        attachment.fileName ||
+        attachment.fileNameShort ||
+        `attachment-${index + 1}`;
+      attachments.push({
+        fileName: attachment.innerMsgContent
+          ? fileName.replace(/(\.msg)?$/i, ".msg")
+          : fileName,
+        mimeType: attachment.innerMsgContent
+          ? "application/vnd.ms-outlook"
+          : attachment.attachMimeTag || "",
+        content: Buffer.from(file.content),
+      });
+    } catch (error: any) {
+      console.warn(`Failed to read MSG attachment ${index}: ${error.message}`);
+    }
+  }
+
+  const { sections, reports } = await extractAttachments(
+    attachments,
+    extractAttachment
+  );
+
+  return {
+    text: formatEmail(headers, body, sections),
+    headers,
+    attachments: reports,
+  };
+}
@@ -0,0 +1,209 @@
+/**
+ * Extraction quality report
+ * Scores extracted text so users can spot bad extractions (scanned pages
+ * without OCR, mis-decoded text, binary noise) before drafting from them.
+ */
+
+import { DocumentModel } from "./document_model";
+
+export type EncodingIssueKind =
+  | "replacement_character" // U+FFFD left by a failed decode
+  | "mojibake" // UTF-8 bytes decoded as Latin-1/Windows-1252 (e.g. "â€™")
+  | "control_character"; // stray control bytes from binary formats
+
+export interface EncodingIssue {
+  kind: EncodingIssueKind;
+  count: number;
+  sample: string; // surrounding text of the first occurrence
+}
+
+export interface ExtractionQuality {
+  characterCount: number;
+  garbageRatio: number; // share of non-whitespace characters that are unreadable (0-1)
+  language: string | null; // ISO 639-1 code, null when it could not be detected
+  emptyPages: number[]; // 1-based pages with no text
+  encodingIssues: EncodingIssue[];
+  warnings: string[]; // human-readable summary of the problems above
+}
+
+// Above this share of unreadable characters the extraction is flagged
+const GARBAGE_WARNING_RATIO = 0.05;
+// Texts shorter than this are flagged as suspiciously short
+const MIN_CHARACTERS = 200;
+// Language detection needs a few words to be meaningful
+const MIN_LANGUAGE_WORDS = 20;
+// Only the start of long documents is scanned for language
+const LANGUAGE_SAMPLE_CHARS = 20000;
+
+// Common function words per language; the best-scoring language wins
+const STOPWORDS: Record<string, string[]> = {
+  en: ["the", "and", "of", "to", "in", "is", "that", "for", "was", "with", "on", "as", "by", "this", "are", "be", "from", "at", "or", "have"],
+  es: ["el", "la", "de", "que", "y", "en", "los", "se", "del", "las", "por", "un", "para", "con", "una", "su", "al", "es", "lo", "como"],
+  fr: ["le", "la", "de", "et", "les", "des", "en", "un", "du", "une", "que", "est", "pour", "qui", "dans", "par", "au", "sur", "pas", "avec"],
+  de: ["der", "die", "und", "in", "den", "von", "zu", "das", "mit", "sich", "des", "auf", "ist", "im", "dem", "nicht", "ein", "eine", "als", "auch"],
+  pt: ["de", "a", "o", "que", "e", "do", "da", "em", "um", "para", "com", "não", "uma", "os", "no", "se", "na", "por", "mais", "as"],
+  it: ["di", "e", "il", "la", "che", "in", "per", "un", "del", "non", "una", "sono", "della", "le", "con", "si", "da", "al", "lo", "gli"],
+};
+
+const PAGE_MARKER_LINE = /^-- \d+ of \d+ --$/gm;
+const CONTROL_CHARACTERS = /[\x00-\x08\x0B\x0C\x0E-\x1F\x7F-\x9F]/g;
+const REPLACEMENT_CHARACTERS = /\uFFFD/g;
+const PRIVATE_USE_CHARACTERS = /[\uE000-\uF8FF]/g;
+// Runs of symbols with no letters or digits (OCR noise, binary artifacts)
+const SYMBOL_RUNS = /[^\p{L}\p{N}\s.,;:!?'"()[\]\-_/$%&*#@+=]{3,}/gu;
+const MOJIBAKE =
+  /\u00C3[\u0080-\u00BF]|\u00E2\u20AC[\u0080-\u00BF\u0153\u0161\u2018-\u201E\u2122]|\u00C2[\u00A0-\u00BF]/g;
+
+const round = (value: number) => Math.round(value * 10000) / 10000;
+
+/**
+ * Count regex matches (and matched characters) in text
+ */
+function countMatches(text: string, pattern: RegExp) {
+  const matches = text.match(pattern) || [];
+  return {
+    count: matches.length,
+    characters: matches.reduce((sum, match) => sum + match.length, 0),
+  };
+}
+
+/**
+ * Text around the first match, for showing users what went wrong
+ */
+function sampleAround(text: string, pattern: RegExp): string {
+  const match = new RegExp(pattern.source, pattern.flags.replace("g", "")).exec(text);
+  if (!match) return "";
+  const start = Math.max(0, match.index - 20);
+  const end = Math.min(text.length, match.index + match[0].length + 20);
+  return text
+    .substring(start, end)
+    .replace(CONTROL_CHARACTERS, "·")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * Share of non-whitespace characters that are control bytes, replacement or
+ * private-use characters, or runs of symbols
+ */
+export function garbageRatio(text: string): number {
+  const visible = (text || "").replace(/\s+/g, "");
+  if (visible.length === 0) return 0;
+
+  const unreadable =
+    countMatches(visible, CONTROL_CHARACTERS).characters +
+    countMatches(visible, REPLACEMENT_CHARACTERS).characters +
+    countMatches(visible, PRIVATE_USE_CHARACTERS).characters +
+    countMatches(visible, SYMBOL_RUNS).characters;
+  return round(Math.min(1, unreadable / visible.length));
+}
+
+/**
+ * Guess the document language from common function words
+ * @returns ISO 639-1 code, or null if there are too few words or no clear winner
+ */
+export function detectLanguage(text: string): string | null {
+  const words = (text || "")
+    .substring(0, LANGUAGE_SAMPLE_CHARS)
+    .toLowerCase()
+    .match(/\p{L}+/gu);
+  if (!words || words.length < MIN_LANGUAGE_WORDS) return null;
+
+  const counts = new Map<string, number>();
+  for (const word of words) {
+    counts.set(word, (counts.get(word) || 0) + 1);
+  }
+
+  const scores = Object.entries(STOPWORDS)
+    .map(([language, stopwords]) => ({
+      language,
+      score: stopwords.reduce((sum, word) => sum + (counts.get(word) || 0), 0),
+    }))
+    .sort((a, b) => b.score - a.score);
+
+  const [best, runnerUp] = scores;
+  // Function words should make up a noticeable share of running text, and the
+  // winner has to stand out from languages that share words (e.g. es/pt)
+  if (best.score < words.length * 0.05 || best.score < runnerUp.score * 1.2) {
+    return null;
+  }
+  return best.language;
+}
+
+/**
+ * Pages whose text (ignoring the page marker) is empty
+ */
+function findEmptyPages(text: string, structure: DocumentModel): number[] {
+  return structure.pages
+    .filter(
+      (page) =>
+        text
+          .substring(page.start, page.end)
+          .replace(PAGE_MARKER_LINE, "")
+          .trim().length === 0
+    )
+    .map((page) => page.number);
+}
+
+/**
+ * Build the quality report for one extraction
+ * @param text - Extracted text as stored in documents.extracted_text
+ * @param structure - Document model built from the text (for page ranges)
+ */
+export function assessExtraction(
+  text: string,
+  structure: DocumentModel
+): ExtractionQuality {
+  const source = text || "";
+  const content = source.replace(PAGE_MARKER_LINE, "");
+
+  const encodingIssues: EncodingIssue[] = [];
+  const checks: Array<[EncodingIssueKind, RegExp]> = [
+    ["replacement_character", REPLACEMENT_CHARACTERS],
+    ["mojibake", MOJIBAKE],
+    ["control_character", CONTROL_CHARACTERS],
+  ];
+  for (const [kind, pattern] of checks) {
+    const { count } = countMatches(content, pattern);
+    if (count > 0) {
+      encodingIssues.push({ kind, count, sample: sampleAround(content, pattern) });
+    }
+  }
+
+  const report: ExtractionQuality = {
+    characterCount: source.length,
+    garbageRatio: garbageRatio(content),
+    language: detectLanguage(content),
+    emptyPages: findEmptyPages(source, structure),
+    encodingIssues,
+    warnings: [],
+  };
+
+  if (content.trim().length < MIN_CHARACTERS) {
+    report.warnings.push("Very little text was extracted");
+  }
+  if (report.garbageRatio > GARBAGE_WARNING_RATIO) {
+    report.warnings.push(
+      `${(report.garbageRatio * 100).toFixed(1)}% of characters look unreadable`
+    );
+  }
+  if (report.emptyPages.length > 0) {
+    report.warnings.push(
+      `${report.emptyPages.length === 1 ? "Page" : "Pages"} ${report.emptyPages.join(", ")} ${
+        report.emptyPages.length === 1 ? "has" : "have"
+      } no text`
+    );
+  }
+  if (encodingIssues.length > 0) {
+    report.warnings.push(
+      `Possible encoding problems: ${encodingIssues
+        .map((issue) => `${issue.count} ${issue.kind.replace(/_/g, " ")}`)
+        .join(", ")}`
+    );
+  }
+  if (!report.language && content.trim().length >= MIN_CHARACTERS) {
+    report.warnings.push("Could not detect the document language");
+  }
+
+  return report;
+}
@@ -0,0 +1,100 @@
+/**
+ * Supported upload file types
+ * Single source of truth for MIME type <-> extension mapping used by the
+ * presigned upload route and the extraction pipeline
+ */
+
+// MIME type -> canonical file extension
+export const SUPPORTED_MIME_TYPES: Record<string, string> = {
+  "application/pdf": "pdf",
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document":
+    "docx",
+  "application/msword": "doc",
+  "text/plain": "txt",
+  "application/rtf": "rtf",
+  "text/rtf": "rtf",
+  "application/vnd.oasis.opendocument.text": "odt",
+  "text/html": "html",
+  "message/rfc822": "eml",
+  "application/vnd.ms-outlook": "msg",
+};
+
+// Archive MIME types: expanded at ingest, never extracted directly
+const ARCHIVE_MIME_TYPES: Record<string, string> = {
+  "application/zip": "zip",
+  "application/x-zip-compressed": "zip",
+};
+
+// File extension -> MIME type (used when the browser sends no useful type,
+// which is common for .msg and .eml files)
+const EXTENSION_MIME_TYPES: Record<string, string> = {
+  pdf: "application/pdf",
+  docx: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  doc: "application/msword",
+  txt: "text/plain",
+  rtf: "application/rtf",
+  odt: "application/vnd.oasis.opendocument.text",
+  html: "text/html",
+  htm: "text/html",
+  eml: "message/rfc822",
+  msg: "application/vnd.ms-outlook",
+  zip: "application/zip",
+};
+
+/**
+ * Strip parameters (e.g. "; charset=utf-8") and normalise case
+ */
+export function baseMimeType(contentType: string): string {
+  return (contentType || "").split(";")[0].trim().toLowerCase();
+}
+
+/**
+ * Get the canonical extension for a MIME type, or undefined if unsupported
+ */
+export function extensionForMimeType(contentType: string): string | undefined {
+  return SUPPORTED_MIME_TYPES[baseMimeType(contentType)];
+}
+
+/**
+ * Check whether a MIME type is a ZIP archive of source files
+ */
+export function isArchiveMimeType(contentType: string): boolean {
+  return baseMimeType(contentType) in ARCHIVE_MIME_TYPES;
+}
+
+/**
+ * Get the S3 key extension for an upload: supported documents and archives
+ */
+export function uploadExtensionForMimeType(
+  contentType: string
+): string | undefined {
+  return (
+    extensionForMimeType(contentType) ||
+    ARCHIVE_MIME_TYPES[baseMimeType(contentType)]
+  );
+}
+
+/**
+ * Infer a supported MIME type from a file name or S3 key
+ * @returns MIME type, or undefined if the extension is not supported
+ */
+export function mimeTypeForFilename(fileName: string): string | undefined {
+  const match = (fileName || "").match(/\.([^./\\]+)$/);
+  if (!match) return undefined;
+  return EXTENSION_MIME_TYPES[match[1].toLowerCase()];
+}
+
+/**
+ * Resolve the MIME type to extract with: trust a specific declared type,
+ * otherwise fall back to the file extension
+ */
+export function resolveMimeType(
+  declaredType: string | undefined,
+  fileName: string
+): string {
+  const declared = baseMimeType(declaredType || "");
+  if (declared && declared !== "application/octet-stream") {
+    return declared;
+  }
+  return mimeTypeForFilename(fileName) || declared;
+}
@@ -0,0 +1,614 @@
+/**
+ * Template merge fields
+ * Template content can reference typed variables declared on the template
+ * (templates.variables):
+ * - {{claimant.name}} - a value, formatted by its type
+ * - {{incident.date|date:long}} - a value through formatters (date:long,
+ *   date:short, date:iso, money, upper, lower)
+ * - {{#if insurer.name}}...{{else}}...{{/if}} - a conditional section
+ * - {{#each injuries}}- {{this}}{{/each}} - a section repeated per list item;
+ *   items of built-in lists have their own fields ({{#each specials.items}}
+ *   {{provider}}: {{billed}}{{/each}})
+ * Built-in variables are filled from the confirmed case facts and the
+ * specials ledger; other variables take values supplied at generation time.
+ */
+
+import { CaseFacts, formatAmount } from "./case_facts";
+import { SpecialsLedger, parseMoney, parseServiceDate } from "./specials";
+
+export type VariableType = "text" | "date" | "money" | "number" | "list";
+
+export interface TemplateVariable {
+  name: string; // dotted path used in the content, e.g. "claimant.name"
+  type: VariableType;
+  label: string; // shown to users, and in brackets when the value is missing
+  required: boolean;
+}
+
+export interface BuiltinVariable {
+  name: string;
+  type: VariableType;
+  label: string;
+  fields?: Record<string, VariableType>; // fields of each item of a list
+}
+
+type MergeScalar = string | number;
+type MergeItem = MergeScalar | Record<string, MergeScalar | null>;
+type MergeValue = MergeScalar | MergeItem[] | null;
+
+/**
+ * Values for variables, keyed by variable name
+ */
+export type MergeContext = Record<string, MergeValue>;
+
+interface Formatter {
+  name: string;
+  arg?: string;
+}
+
+type MergeNode =
+  | { kind: "text"; text: string }
+  | { kind: "field"; path: string; formatters: Formatter[]; tag: string }
+  | { kind: "if"; path: string; then: MergeNode[]; otherwise: MergeNode[] }
+  | { kind: "each"; path: string; body: MergeNode[] };
+
+export interface MergeResult {
+  text: string; // content with fields filled in
+  fieldCount: number; // declared variables referenced in the content
+  filled: string[]; // referenced variables that had a value
+  missing: TemplateVariable[]; // required variables without a value
+}
+
+export const VARIABLE_TYPES: VariableType[] = [
+  "text",
+  "date",
+  "money",
+  "number",
+  "list",
+];
+
+const BUILTIN_VARIABLES: BuiltinVariable[] = [
+  { name: "claimant.name", type: "text", label: "Claimant" },
+  { name: "defendant.name", type: "text", label: "Defendant" },
+  { name: "insurer.name", type: "text", label: "Insurer" },
+  { name: "incident.date", type: "date", label: "Incident Date" },
+  { name: "injuries", type: "list", label: "Injuries" },
+  { name: "providers", type: "list", label: "Treatment Providers" },
+  { name: "specials.billed", type: "money", label: "Total Billed" },
+  { name: "specials.paid", type: "money", label: "Total Paid" },
+  { name: "specials.balance", type: "money", label: "Balance" },
+  {
+    name: "specials.items",
+    type: "list",
+    label: "Medical Specials",
+    fields: {
+      provider: "text",
+      date: "date",
+      code: "text",
+      description: "text",
+      billed: "money",
+      paid: "money",
+      adjusted: "money",
+    },
+  },
+  { name: "wages.total", type: "money", label: "Lost Wages" },
+  {
+    name: "wages.items",
+    type: "list",
+    label: "Lost Wage Items",
+    fields: { description: "text", amount: "money" },
+  },
+  { name: "today", type: "date", label: "Today's Date" },
+];
+
+const VARIABLE_NAME_PATTERN = /^[A-Za-z_]\w*(\.[A-Za-z_]\w*)*$/;
+const TAG_PATTERN = /\{\{\s*([^{}]*?)\s*\}\}/g;
+const DATE_STYLES = ["long", "short", "iso"];
+const FORMATTERS = ["date", "money", "upper", "lower"];
+
+const MONTHS = [
+  "January",
+  "February",
+  "March",
+  "April",
+  "May",
+  "June",
+  "July",
+  "August",
+  "September",
+  "October",
+  "November",
+  "December",
+];
+
+/**
+ * Variables filled from the case file, in the order the editor lists them
+ */
+export function listBuiltinVariables(): BuiltinVariable[] {
+  return BUILTIN_VARIABLES;
+}
+
+function findBuiltin(name: string): BuiltinVariable | undefined {
+  return BUILTIN_VARIABLES.find((builtin) => builtin.name === name);
+}
+
+/**
+ * Parse template content into merge nodes
+ * Malformed tags are kept as literal text and reported as problems, so
+ * content written before merge fields existed renders unchanged.
+ */
+function parseContent(content: string): {
+  nodes: MergeNode[];
+  problems: string[];
+} {
+  const problems: string[] = [];
+  const root: MergeNode[] = [];
+  // Open sections, innermost last; "target" is where nodes are appended
+  const stack: {
+    node: Extract<MergeNode, { kind: "if" | "each" }>;
+    target: MergeNode[];
+    tag: string;
+  }[] = [];
+  const target = () =>
+    stack.length > 0 ? stack[stack.length - 1].target : root;
+  const pushText = (text: string) => {
+    if (text) target().push({ kind: "text", text });
+  };
+
+  let last = 0;
+  for (const match of content.matchAll(TAG_PATTERN)) {
+    const tag = match[0];
+    const body = match[1];
+    pushText(content.slice(last, match.index));
+    last = match.index! + tag.length;
+
+    const open = body.match(/^#(if|each)\s+(\S+)$/);
+    if (open) {
+      const [, kind, path] = open;
+      if (!VARIABLE_NAME_PATTERN.test(path)) {
+        problems.push(`"${tag}" does not name a variable`);
+        pushText(tag);
+        continue;
+      }
+      const node: Extract<MergeNode, { kind: "if" | "each" }> =
+        kind === "if"
+          ? { kind: "if", path, then: [], otherwise: [] }
+          : { kind: "each", path, body: [] };
+      target().push(node);
+      stack.push({
+        node,
+        target: node.kind === "if" ? node.then : node.body,
+        tag,
+      });
+      continue;
+    }
+
+    if (body === "else") {
+      const section = stack[stack.length - 1];
+      if (section?.node.kind === "if" && section.target === section.node.then) {
+        section.target = section.node.otherwise;
+      } else {
+        problems.push(`"${tag}" is outside an {{#if}} section`);
+        pushText(tag);
+      }
+      continue;
+    }
+
+    const close = body.match(/^\/(if|each)$/);
+    if (close) {
+      if (stack[stack.length - 1]?.node.kind === close[1]) {
+        stack.pop();
+      } else {
+        problems.push(`"${tag}" does not close an open section`);
+        pushText(tag);
+      }
+      continue;
+    }
+
+    const [path, ...formatterTexts] = body.split("|").map((part) => part.trim());
+    if (path !== "this" && !VARIABLE_NAME_PATTERN.test(path)) {
+      problems.push(`"${tag}" does not name a variable`);
+      pushText(tag);
+      continue;
+    }
+    const formatters = formatterTexts.map((text) => {
+      const [name, arg] = text.split(":").map((part) => part.trim());
+      return arg ? { name, arg } : { name };
+    });
+    const badFormatter = formatters.find(
+      (formatter) =>
+        !FORMATTERS.includes(formatter.name) ||
+        (formatter.name === "date" &&
+          formatter.arg !== undefined &&
+          !DATE_STYLES.includes(formatter.arg))
+    );
+    if (badFormatter) {
+      problems.push(
+        `"${tag}" uses an unknown formatter "${badFormatter.name}${
+          badFormatter.arg ? `:${badFormatter.arg}` : ""
+        }" (use date:long, date:short, date:iso, money, upper or lower)`
+      );
+      pushText(tag);
+      continue;
+    }
+    target().push({ kind: "field", path, formatters, tag });
+  }
+  pushText(content.slice(last));
+
+  for (const section of stack) {
+    problems.push(`"${section.tag}" is never closed`);
+  }
+  return { nodes: root, problems };
+}
+
+/**
+ * Validate a variable schema submitted with a template
+ * @returns The normalized variables and any problems found
+ */
+export function normalizeTemplateVariables(input: unknown): {
+  variables: TemplateVariable[];
+  problems: string[];
+} {
+  if (input === undefined || input === null) {
+    return { variables: [], problems: [] };
+  }
+  if (!Array.isArray(input)) {
+    return { variables: [], problems: ["variables must be an array"] };
+  }
+
+  const problems: string[] = [];
+  const variables: TemplateVariable[] = [];
+  input.forEach((entry, index) => {
+    const data = (entry && typeof entry === "object" ? entry : {}) as Record<
+      string,
+      unknown
+    >;
+    const name = typeof data.name === "string" ? data.name.trim() : "";
+    if (!VARIABLE_NAME_PATTERN.test(name)) {
+      problems.push(
+        `Variable ${index + 1} needs a name such as "claimant.name" (letters, digits, _ and dots)`
+      );
+      return;
+    }
+    if (variables.some((variable) => variable.name === name)) {
+      problems.push(`Variable "${name}" is declared twice`);
+      return;
+    }
+    if (!VARIABLE_TYPES.includes(data.type as VariableType)) {
+      problems.push(
+        `Variable "${name}" must have a type: ${VARIABLE_TYPES.join(", ")}`
+      );
+      return;
+    }
+    const builtin = findBuiltin(name);
+    if (builtin && builtin.type !== data.type) {
+      problems.push(
+        `Variable "${name}" is filled from the case file and must have type ${builtin.type}`
+      );
+      return;
+    }
+    const label = typeof data.label === "string" ? data.label.trim() : "";
+    variables.push({
+      name,
+      type: data.type as VariableType,
+      label: label || builtin?.label || name,
+      required: data.required === true,
+    });
+  });
+  return { variables, problems };
+}
+
+/**
+ * Check template content against its variable schema: every tag must parse,
+ * every referenced variable must be declared, and sections and formatters
+ * must suit the variable's type
+ * @returns Problems found (empty when the template is valid)
+ */
+export function validateMergeTemplate(
+  content: string,
+  variables: TemplateVariable[]
+): string[] {
+  const { nodes, problems } = parseContent(content);
+  const declared = new Map(variables.map((variable) => [variable.name, variable]));
+
+  const check = (items: MergeNode[], lists: string[]) => {
+    for (const node of items) {
+      if (node.kind === "text") continue;
+
+      // Inside {{#each}}, "this" and item fields refer to the current item
+      const list = lists[lists.length - 1];
+      const itemFields = list ? findBuiltin(list)?.fields : undefined;
+      if (list && (node.path === "this" || itemFields?.[node.path])) {
+        if (node.kind === "each") {
+          problems.push(`{{#each ${node.path}}} does not name a list`);
+        } else if (node.kind === "if") {
+          check(node.then, lists);
+          check(node.otherwise, lists);
+        }
+        continue;
+      }
+
+      const variable = declared.get(node.path);
+      if (!variable) {
+        problems.push(
+          node.path === "this"
+            ? `"{{this}}" is only allowed inside {{#each}}`
+            : `"${node.path}" is not a declared variable`
+        );
+        continue;
+      }
+      if (node.kind === "each") {
+        if (variable.type !== "list") {
+          problems.push(`{{#each ${node.path}}} needs a list variable`);
+        }
+        check(node.body, [...lists, node.path]);
+      } else if (node.kind === "if") {
+        check(node.then, lists);
+        check(node.otherwise, lists);
+      }
+    }
+  };
+  check(nodes, []);
+
+  return problems;
+}
+
+/**
+ * Convert values supplied at generation time to their variables' types
+ * Built-in variables come from the case file and cannot be supplied.
+ * @returns The typed values and any problems found
+ */
+export function normalizeVariableValues(
+  variables: TemplateVariable[],
+  input: unknown
+): { values: MergeContext; problems: string[] } {
+  if (input === undefined || input === null) {
+    return { values: {}, problems: [] };
+  }
+  if (typeof input !== "object" || Array.isArray(input)) {
+    return { values: {}, problems: ["variables must be an object"] };
+  }
+
+  const values: MergeContext = {};
+  const problems: string[] = [];
+  for (const [name, raw] of Object.entries(input as Record<string, unknown>)) {
+    const variable = variables.find((entry) => entry.name === name);
+    if (!variable || findBuiltin(name)) {
+      problems.push(`"${name}" is not a variable the template takes a value for`);
+      continue;
+    }
+    if (raw === undefined || raw === null || raw === "") continue;
+
+    const text = typeof raw === "string" ? raw.trim() : String(raw);
+    switch (variable.type) {
+      case "date": {
+        const date = parseServiceDate(text);
+        if (date) values[name] = date;
+        else problems.push(`"${name}" must be a date`);
+        break;
+      }
+      case "money":
+      case "number": {
+        const amount =
+          typeof raw === "number"
+            ? raw
+            : variable.type === "money"
+            ? parseMoney(text)
+            : Number(text);
+        if (amount !== null && Number.isFinite(amount)) values[name] = amount;
+        else problems.push(`"${name}" must be a number`);
+        break;
+      }
+      case "list":
+        if (Array.isArray(raw)) {
+          values[name] = raw
+            .map((item) => String(item ?? "").trim())
+            .filter(Boolean);
+        } else {
+          problems.push(`"${name}" must be a list`);
+        }
+        break;
+      default:
+        if (text) values[name] = text;
+    }
+  }
+  return { values, problems };
+}
+
+/**
+ * Values of the built-in variables
+ * @param caseFacts - Confirmed case facts (null when not confirmed)
+ * @param specials - Specials ledger (null when there are no line items)
+ * @param today - Today's date as YYYY-MM-DD
+ */
+export function buildMergeContext(
+  caseFacts: CaseFacts | null,
+  specials: SpecialsLedger | null,
+  today: string
+): MergeContext {
+  const context: MergeContext = { today };
+
+  if (caseFacts) {
+    context["claimant.name"] = caseFacts.claimant?.value || null;
+    context["defendant.name"] = caseFacts.defendant?.value || null;
+    context["insurer.name"] = caseFacts.insurer?.value || null;
+    context["incident.date"] = caseFacts.incidentDate?.value || null;
+    context.injuries = caseFacts.injuries.map((fact) => fact.value);
+    context.providers = caseFacts.treatmentProviders.map((fact) => fact.value);
+    if (caseFacts.lostWages.length > 0) {
+      context["wages.total"] = caseFacts.lostWages.reduce(
+        (sum, wage) => sum + wage.amount,
+        0
+      );
+      context["wages.items"] = caseFacts.lostWages.map((wage) => ({
+        description: wage.description,
+        amount: wage.amount,
+      }));
+    }
+  }
+
+  if (specials) {
+    context["specials.billed"] = specials.totals.billed;
+    context["specials.paid"] = specials.totals.paid;
+    context["specials.balance"] = specials.totals.balance;
+    context["specials.items"] = specials.items
+      .filter((item) => item.counted)
+      .map((item) => ({
+        provider: item.provider,
+        date: item.serviceDate,
+        code: item.code,
+        description: item.description,
+        billed: item.billed,
+        paid: item.paid,
+        adjusted: item.adjusted,
+      }));
+  }
+
+  return context;
+}
+
+function hasValue(value: MergeValue | undefined): boolean {
+  if (value === undefined || value === null) return false;
+  if (Array.isArray(value)) return value.length > 0;
+  return String(value).trim().length > 0;
+}
+
+function formatDate(value: string, style = "long"): string {
+  const match = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!match || style === "iso") return value;
+  const [, year, month, day] = match;
+  return style === "short"
+    ? `${month}/${day}/${year}`
+    : `${MONTHS[Number(month) - 1]} ${Number(day)}, ${year}`;
+}
+
+/**
+ * Render a value by its formatters, or by its type when it has none
+ */
+function formatValue(
+  value: MergeScalar | MergeItem[],
+  type: VariableType,
+  formatters: Formatter[]
+): string {
+  let text: string;
+  if (Array.isArray(value)) {
+    text = value.filter((item) => typeof item !== "object").join(", ");
+  } else if (formatters.length === 0 && type === "date") {
+    text = formatDate(String(value));
+  } else if (formatters.length === 0 && type === "money" && typeof value === "number") {
+    text = formatAmount(value);
+  } else {
+    text = String(value);
+  }
+
+  for (const formatter of formatters) {
+    switch (formatter.name) {
+      case "date":
+        text = formatDate(text, formatter.arg);
+        break;
+      case "money": {
+        const amount = typeof value === "number" ? value : parseMoney(text);
+        if (amount !== null) text = formatAmount(amount);
+        break;
+      }
+      case "upper":
+        text = text.toUpperCase();
+        break;
+      case "lower":
+        text = text.toLowerCase();
+        break;
+    }
+  }
+  return text;
+}
+
+/**
+ * Fill the merge fields of template content
+ * Fields of declared variables without a value render as the variable's
+ * label in square brackets ([Insurer]), which the model fills in from the
+ * sources or leaves for the attorney. Tags that do not reference a declared
+ * variable are left as written.
+ * @param content - Template content
+ * @param variables - The template's variable schema
+ * @param context - Built-in values and values supplied at generation time
+ */
+export function renderMergeTemplate(
+  content: string,
+  variables: TemplateVariable[],
+  context: MergeContext
+): MergeResult {
+  const declared = new Map(variables.map((variable) => [variable.name, variable]));
+  const referenced = new Set<string>();
+  const filled = new Set<string>();
+
+  type Scope = { item: MergeItem; fields?: Record<string, VariableType> };
+  const lookup = (
+    path: string,
+    scopes: Scope[]
+  ): {
+    value: MergeValue | undefined;
+    type: VariableType;
+    variable?: TemplateVariable; // unset for the current item and its fields
+  } | null => {
+    const scope = scopes[scopes.length - 1];
+    if (scope && path === "this") {
+      return {
+        value: typeof scope.item === "object" ? null : scope.item,
+        type: "text",
+      };
+    }
+    if (scope?.fields?.[path] && typeof scope.item === "object") {
+      return { value: scope.item[path], type: scope.fields[path] };
+    }
+    const variable = declared.get(path);
+    if (!variable) return null;
+    referenced.add(path);
+    const value = context[path];
+    if (hasValue(value)) filled.add(path);
+    return { value, type: variable.type, variable };
+  };
+
+  const render = (nodes: MergeNode[], scopes: Scope[]): string =>
+    nodes
+      .map((node) => {
+        if (node.kind === "text") return node.text;
+
+        const found = lookup(node.path, scopes);
+        if (node.kind === "field") {
+          if (!found) return node.tag;
+          if (!hasValue(found.value)) {
+            return found.variable ? `[${found.variable.label}]` : "";
+          }
+          return formatValue(
+            found.value as MergeScalar | MergeItem[],
+            found.type,
+            node.formatters
+          );
+        }
+        if (node.kind === "if") {
+          return render(
+            found && hasValue(found.value) ? node.then : node.otherwise,
+            scopes
+          );
+        }
+        const items =
+          found && Array.isArray(found.value) ? (found.value as MergeItem[]) : [];
+        const fields = findBuiltin(node.path)?.fields;
+        return items
+          .map((item) => render(node.body, [...scopes, { item, fields }]))
+          .join("");
+      })
+      .join("");
+
+  const { nodes } = parseContent(content);
+  const text = render(nodes, []);
+
+  return {
+    text,
+    fieldCount: referenced.size,
+    filled: Array.from(filled),
+    missing: variables.filter(
+      (variable) => variable.required && !hasValue(context[variable.name])
+    ),
+  };
+}
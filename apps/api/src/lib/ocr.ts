@@ -0,0 +1,142 @@
+/**
+ * OCR utilities for scanned PDF pages
+ * Runs Tesseract (WASM) inside the Lambda so page images never leave our infrastructure
+ */
+
+import path from "path";
+
+export interface OcrPageResult {
+  page: number; // 1-based page number in the source PDF
+  text: string;
+  confidence: number; // mean confidence reported by Tesseract (0-100)
+  error?: string; // set when the page could not be recognized
+}
+
+export interface OcrPageImage {
+  pageNumber: number;
+  data: Uint8Array; // rendered PNG bytes
+}
+
+// tesseract.js is large - lazy load so non-PDF ingestion doesn't pay the init cost
+let tesseract: typeof import("tesseract.js") | null = null;
+
+function getTesseract() {
+  if (!tesseract) {
+    try {
+      tesseract = require("tesseract.js") as typeof import("tesseract.js");
+    } catch (error) {
+      throw new Error("OCR not available in this environment");
+    }
+  }
+  return tesseract;
+}
+
+/**
+ * Minimum number of non-whitespace characters a page needs before we trust
+ * the embedded text layer (scanned pages usually have none or a few stray glyphs)
+ */
+export function getOcrMinPageChars(): number {
+  const value = parseInt(process.env.OCR_MIN_PAGE_CHARS || "", 10);
+  return Number.isFinite(value) && value >= 0 ? value : 20;
+}
+
+/**
+ * Maximum number of pages we will rasterize and OCR for a single document
+ */
+export function getOcrMaxPages(): number {
+  const value = parseInt(process.env.OCR_MAX_PAGES || "", 10);
+  return Number.isFinite(value) && value > 0 ? value : 50;
+}
+
+/**
+ * OCR is on by default; set OCR_ENABLED=false to skip the fallback entirely
+ */
+export function isOcrEnabled(): boolean {
+  return process.env.OCR_ENABLED !== "false";
+}
+
+/**
+ * Determine if a page's embedded text is too sparse to be real content
+ * @param pageText - Text extracted from the PDF text layer for one page
+ * @param minChars - Minimum non-whitespace characters (default: OCR_MIN_PAGE_CHARS)
+ * @returns true if the page should be OCR'd
+ */
+export function isImageOnlyPage(
+  pageText: string,
+  minChars: number = getOcrMinPageChars()
+): boolean {
+  const meaningful = (pageText || "").replace(/\s+/g, "");
+  return meaningful.length < minChars;
+}
+
+/**
+ * Recognize text on rendered page images
+ * Language data is read from OCR_LANG_PATH (bundled with the Lambda package),
+ * never fetched from a CDN. A failure never rejects: pages that could not be
+ * recognized come back with an error and no text.
+ * @param images - Rendered page images
+ * @returns OCR result per page, in the same order as the input
+ */
+export async function recognizePages(
+  images: OcrPageImage[]
+): Promise<OcrPageResult[]> {
+  if (images.length === 0) {
+    return [];
+  }
+
+  const failed = (image: OcrPageImage, error: any): OcrPageResult => ({
+    page: image.pageNumber,
+    text: "",
+    confidence: 0,
+    error: error?.message || String(error),
+  });
+
+  let worker: import("tesseract.js").Worker;
+  try {
+    const { createWorker } = getTesseract();
+    const lang = process.env.OCR_LANG || "eng";
+    const langPath =
+      process.env.OCR_LANG_PATH || path.join(__dirname, "..", "tessdata");
+
+    worker = await createWorker(lang, undefined, {
+      langPath,
+      cachePath: "/tmp",
+      gzip: false,
+    });
+  } catch (error) {
+    // Missing language data or WASM - every page keeps its text layer
+    console.error("OCR worker failed to start:", error);
+    return images.map((image) => failed(image, error));
+  }
+
+  try {
+    const results: OcrPageResult[] = [];
+
+    for (const image of images) {
+      const startTime = Date.now();
+      try {
+        const { data } = await worker.recognize(Buffer.from(image.data));
+        console.log(
+          `OCR completed for page ${image.pageNumber} in ${
+            Date.now() - startTime
+          }ms (confidence: ${data.confidence.toFixed(1)})`
+        );
+
+        results.push({
+          page: image.pageNumber,
+          text: (data.text || "").trim(),
+          confidence: Math.round(data.confidence * 10) / 10,
+        });
+      } catch (error) {
+        console.error(`OCR failed for page ${image.pageNumber}:`, error);
+        results.push(failed(image, error));
+      }
+    }
+
+    return results;
+  } finally {
+    await worker.terminate().catch((error) => {
+      console.warn("Failed to terminate OCR worker:", error);
+    });
+  }
+}
@@ -0,0 +1,278 @@
+/**
+ * PII/PHI detection and redaction for extracted source text
+ * Spans are detected at ingest and stored on the document; each document's
+ * redaction policy decides how they are treated in prompts and exports.
+ */
+
+export type PiiType =
+  | "ssn"
+  | "dob"
+  | "mrn"
+  | "phone"
+  | "email"
+  | "account_number";
+
+/**
+ * How detected spans are treated before text leaves the service
+ * - none: sent and exported as-is
+ * - mask: all but the last four characters are replaced with "*"
+ * - tokenize: replaced with placeholders (e.g. [SSN_1]) in the prompt and
+ *   restored in the generated draft
+ * - drop: replaced with a [REDACTED] marker and never restored
+ */
+export type RedactionPolicy = "none" | "mask" | "tokenize" | "drop";
+
+export const REDACTION_POLICIES: RedactionPolicy[] = [
+  "none",
+  "mask",
+  "tokenize",
+  "drop",
+];
+
+export const DEFAULT_REDACTION_POLICY: RedactionPolicy = "tokenize";
+
+export interface PiiSpan {
+  type: PiiType;
+  start: number; // offset in the text the span was detected in
+  end: number;
+  text: string;
+  ignored?: boolean; // marked as a false positive during review
+}
+
+/**
+ * Placeholder token -> original value, shared across all excerpts of one prompt
+ */
+export type PiiTokenMap = Record<string, string>;
+
+interface PiiPattern {
+  type: PiiType;
+  // The sensitive value must be the last capture group and end the match,
+  // so labels such as "DOB:" stay readable
+  regex: RegExp;
+}
+
+const DATE =
+  "\\d{1,2}[/.-]\\d{1,2}[/.-]\\d{2,4}|\\d{4}-\\d{2}-\\d{2}|[A-Z][a-z]{2,8}\\.? \\d{1,2}, \\d{4}";
+
+const PATTERNS: PiiPattern[] = [
+  {
+    type: "ssn",
+    regex: /\b((?!000|666|9\d\d)\d{3}-(?!00)\d{2}-(?!0000)\d{4})\b/g,
+  },
+  {
+    type: "ssn",
+    regex: /\b(?:SSN|Social Security (?:No\.?|Number|#))\s*[:#]?\s*(\d{9})\b/gi,
+  },
+  {
+    type: "email",
+    regex: /\b([A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,})\b/gi,
+  },
+  {
+    type: "dob",
+    regex: new RegExp(
+      `\\b(?:DOB|D\\.O\\.B\\.|Date of Birth|Birth ?date)\\s*[:#-]?\\s*(${DATE})`,
+      "gi"
+    ),
+  },
+  {
+    type: "mrn",
+    regex:
+      /\b(?:MRN|Medical Record (?:No\.?|Number|#))\s*[:#]?\s*([A-Z0-9][A-Z0-9-]{3,}\b)/gi,
+  },
+  {
+    type: "account_number",
+    regex:
+      /\b(?:Account|Acct\.?|Policy|Member ID)\s*(?:No\.?|Number|#)?\s*[:#]?\s*([A-Z0-9][A-Z0-9-]{4,}\b)/gi,
+  },
+  {
+    type: "phone",
+    regex:
+      /(?<![\w-])((?:\+?1[-.\s]?)?(?:\(\d{3}\)\s?|\d{3}[-.\s])\d{3}[-.\s]\d{4})\b/g,
+  },
+];
+
+// Record numbers must contain digits; labels alone ("Account Summary") are not PII
+const NEEDS_DIGITS: PiiType[] = ["mrn", "account_number"];
+
+/**
+ * Detect PII/PHI spans in text
+ * Overlapping matches keep the earliest (then longest) span
+ * @param text - Text to scan
+ * @returns Non-overlapping spans sorted by start offset
+ */
+export function detectPii(text: string): PiiSpan[] {
+  if (!text) {
+    return [];
+  }
+
+  const candidates: PiiSpan[] = [];
+  for (const { type, regex } of PATTERNS) {
+    regex.lastIndex = 0;
+    for (const match of text.matchAll(regex)) {
+      const value = match[match.length - 1];
+      if (!value) continue;
+      if (NEEDS_DIGITS.includes(type) && (value.match(/\d/g) || []).length < 4) {
+        continue;
+      }
+      const end = (match.index as number) + match[0].length;
+      candidates.push({ type, start: end - value.length, end, text: value });
+    }
+  }
+
+  candidates.sort((a, b) => a.start - b.start || b.end - a.end);
+
+  const spans: PiiSpan[] = [];
+  for (const candidate of candidates) {
+    const previous = spans[spans.length - 1];
+    if (previous && candidate.start < previous.end) continue;
+    spans.push(candidate);
+  }
+  return spans;
+}
+
+/**
+ * Spans that fall inside a slice of the text, shifted to the slice's offsets
+ * Spans crossing the slice boundaries are clipped to it
+ */
+export function spansInRange(
+  spans: PiiSpan[],
+  start: number,
+  end: number
+): PiiSpan[] {
+  return spans
+    .filter((span) => span.start < end && span.end > start)
+    .map((span) => {
+      const clippedStart = Math.max(span.start, start);
+      const clippedEnd = Math.min(span.end, end);
+      return {
+        ...span,
+        start: clippedStart - start,
+        end: clippedEnd - start,
+        text: span.text.slice(clippedStart - span.start, clippedEnd - span.start),
+      };
+    });
+}
+
+/**
+ * Mask all but the last four letters/digits, keeping separators
+ */
+function maskValue(value: string): string {
+  let keep = 4;
+  return value
+    .split("")
+    .reverse()
+    .map((char) => {
+      if (!/[A-Za-z0-9]/.test(char)) return char;
+      if (keep > 0) {
+        keep--;
+        return char;
+      }
+      return "*";
+    })
+    .reverse()
+    .join("");
+}
+
+/**
+ * Placeholder for a value, reusing the existing token when the same value
+ * appears more than once so the model can tell repeated references apart
+ */
+function tokenFor(span: PiiSpan, tokens: PiiTokenMap): string {
+  const prefix = span.type.toUpperCase();
+  const existing = Object.entries(tokens).find(
+    ([token, value]) => value === span.text && token.startsWith(`[${prefix}_`)
+  );
+  if (existing) {
+    return existing[0];
+  }
+
+  const count = Object.keys(tokens).filter((token) =>
+    token.startsWith(`[${prefix}_`)
+  ).length;
+  const token = `[${prefix}_${count + 1}]`;
+  tokens[token] = span.text;
+  return token;
+}
+
+/**
+ * Apply a redaction policy to text
+ * @param text - Text the spans were detected in
+ * @param spans - Spans relative to text; ignored spans are left untouched
+ * @param policy - Redaction policy
+ * @param tokens - Token map to fill when tokenizing (shared across excerpts)
+ * @returns Redacted text
+ */
+export function redactText(
+  text: string,
+  spans: PiiSpan[],
+  policy: RedactionPolicy,
+  tokens: PiiTokenMap = {}
+): string {
+  if (!text || policy === "none") {
+    return text;
+  }
+
+  let result = "";
+  let cursor = 0;
+  const active = spans
+    .filter((span) => !span.ignored)
+    .sort((a, b) => a.start - b.start);
+
+  for (const span of active) {
+    if (span.start < cursor) continue;
+    result += text.slice(cursor, span.start);
+    if (policy === "mask") {
+      result += maskValue(span.text);
+    } else if (policy === "tokenize") {
+      result += tokenFor(span, tokens);
+    } else {
+      result += "[REDACTED]";
+    }
+    cursor = span.end;
+  }
+
+  return result + text.slice(cursor);
+}
+
+/**
+ * Replace placeholder tokens in generated text with their original values
+ */
+export function restoreTokens(text: string, tokens: PiiTokenMap): string {
+  let restored = text;
+  for (const [token, value] of Object.entries(tokens)) {
+    restored = restored.split(token).join(value);
+  }
+  return restored;
+}
+
+/**
+ * Redact a draft before export
+ * Tokenized values were restored into the draft on purpose and are kept;
+ * mask and drop re-scan the draft so no value slips into the exported file.
+ * @param text - Draft text
+ * @param policy - Redaction policy of the source document
+ * @param ignoredValues - Values the user marked as not sensitive
+ */
+export function redactForExport(
+  text: string,
+  policy: RedactionPolicy,
+  ignoredValues: string[] = []
+): string {
+  if (policy !== "mask" && policy !== "drop") {
+    return text;
+  }
+
+  const spans = detectPii(text).filter(
+    (span) => !ignoredValues.includes(span.text)
+  );
+  return redactText(text, spans, policy);
+}
+
+/**
+ * Normalise a stored or requested policy value
+ */
+export function parseRedactionPolicy(value: unknown): RedactionPolicy | null {
+  return REDACTION_POLICIES.includes(value as RedactionPolicy)
+    ? (value as RedactionPolicy)
+    : null;
+}
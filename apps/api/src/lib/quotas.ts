@@ -0,0 +1,179 @@
+/**
+ * AI usage quotas
+ * Each user, and each organization across its users, may be limited to a
+ * number of AI requests per minute and of tokens (prompt + output) per UTC
+ * day and calendar month. Limits come from the users/organizations rows,
+ * falling back to environment defaults; 0 means no limit.
+ */
+
+export type QuotaScope = "user" | "organization";
+export type QuotaPeriod = "minute" | "day" | "month";
+
+/**
+ * Limits of one user or organization; null means no limit
+ */
+export interface QuotaLimits {
+  requestsPerMinute: number | null;
+  tokensPerDay: number | null;
+  tokensPerMonth: number | null;
+}
+
+/**
+ * Limits stored on a users or organizations row (null: use the default)
+ */
+export type QuotaOverrides = {
+  [K in keyof QuotaLimits]: number | string | null;
+};
+
+/**
+ * Use of one limit in the current period
+ */
+export interface QuotaStatus {
+  scope: QuotaScope;
+  period: QuotaPeriod;
+  unit: "requests" | "tokens";
+  limit: number;
+  used: number;
+  remaining: number;
+  resetAt: string; // ISO time the period ends
+}
+
+// Requests per minute a user gets unless configured otherwise
+const DEFAULT_USER_REQUESTS_PER_MINUTE = 20;
+
+const ENV_NAMES: Record<QuotaScope, Record<keyof QuotaLimits, string>> = {
+  user: {
+    requestsPerMinute: "AI_USER_REQUESTS_PER_MINUTE",
+    tokensPerDay: "AI_USER_TOKENS_PER_DAY",
+    tokensPerMonth: "AI_USER_TOKENS_PER_MONTH",
+  },
+  organization: {
+    requestsPerMinute: "AI_ORG_REQUESTS_PER_MINUTE",
+    tokensPerDay: "AI_ORG_TOKENS_PER_DAY",
+    tokensPerMonth: "AI_ORG_TOKENS_PER_MONTH",
+  },
+};
+
+/**
+ * A configured limit: positive numbers limit, 0 lifts the limit, anything
+ * else is unset
+ * @returns The limit, null for no limit, undefined when unset
+ */
+function parseLimit(
+  value: number | string | null | undefined
+): number | null | undefined {
+  const limit = typeof value === "number" ? value : parseInt(value ?? "", 10);
+  if (!Number.isFinite(limit) || limit < 0) return undefined;
+  return limit === 0 ? null : limit;
+}
+
+/**
+ * Default limits for a scope from the environment
+ * Users get 20 requests per minute unless configured; every other limit is
+ * off until configured.
+ */
+export function defaultQuotaLimits(scope: QuotaScope): QuotaLimits {
+  const names = ENV_NAMES[scope];
+  const requestsPerMinute = parseLimit(process.env[names.requestsPerMinute]);
+  return {
+    requestsPerMinute:
+      requestsPerMinute !== undefined
+        ? requestsPerMinute
+        : scope === "user"
+        ? DEFAULT_USER_REQUESTS_PER_MINUTE
+        : null,
+    tokensPerDay: parseLimit(process.env[names.tokensPerDay]) ?? null,
+    tokensPerMonth: parseLimit(process.env[names.tokensPerMonth]) ?? null,
+  };
+}
+
+/**
+ * Limits of a user or organization: its stored limits where set, the
+ * defaults otherwise
+ */
+export function resolveQuotaLimits(
+  scope: QuotaScope,
+  overrides: QuotaOverrides | null
+): QuotaLimits {
+  const defaults = defaultQuotaLimits(scope);
+  const pick = (key: keyof QuotaLimits) => {
+    const stored = parseLimit(overrides?.[key]);
+    return stored !== undefined ? stored : defaults[key];
+  };
+  return {
+    requestsPerMinute: pick("requestsPerMinute"),
+    tokensPerDay: pick("tokensPerDay"),
+    tokensPerMonth: pick("tokensPerMonth"),
+  };
+}
+
+/**
+ * Start of the UTC minute, day or month containing a time
+ */
+export function periodStart(period: QuotaPeriod, now: Date): Date {
+  const start = new Date(now.getTime());
+  if (period === "minute") {
+    start.setUTCSeconds(0, 0);
+  } else {
+    start.setUTCHours(0, 0, 0, 0);
+    if (period === "month") start.setUTCDate(1);
+  }
+  return start;
+}
+
+/**
+ * End of the UTC minute, day or month containing a time (when it resets)
+ */
+export function periodEnd(period: QuotaPeriod, now: Date): Date {
+  const end = periodStart(period, now);
+  if (period === "minute") {
+    end.setUTCMinutes(end.getUTCMinutes() + 1);
+  } else if (period === "day") {
+    end.setUTCDate(end.getUTCDate() + 1);
+  } else {
+    end.setUTCMonth(end.getUTCMonth() + 1);
+  }
+  return end;
+}
+
+/**
+ * Status of every limit that is set
+ * @param used - Requests this minute and tokens this day and month
+ */
+export function quotaStatuses(
+  scope: QuotaScope,
+  limits: QuotaLimits,
+  used: { requests: number; dayTokens: number; monthTokens: number },
+  now: Date
+): QuotaStatus[] {
+  const entries: [QuotaPeriod, QuotaStatus["unit"], number | null, number][] = [
+    ["minute", "requests", limits.requestsPerMinute, used.requests],
+    ["day", "tokens", limits.tokensPerDay, used.dayTokens],
+    ["month", "tokens", limits.tokensPerMonth, used.monthTokens],
+  ];
+  return entries
+    .filter(([, , limit]) => limit !== null)
+    .map(([period, unit, limit, count]) => ({
+      scope,
+      period,
+      unit,
+      limit: limit!,
+      used: count,
+      remaining: Math.max(0, limit! - count),
+      resetAt: periodEnd(period, now).toISOString(),
+    }));
+}
+
+/**
+ * The exhausted limit that resets last, since the request is refused until
+ * every exhausted limit has reset
+ */
+export function exhaustedQuota(statuses: QuotaStatus[]): QuotaStatus | null {
+  return statuses
+    .filter((status) => status.remaining === 0)
+    .reduce<QuotaStatus | null>(
+      (latest, status) =>
+        !latest || status.resetAt > latest.resetAt ? status : latest,
+      null
+    );
+}
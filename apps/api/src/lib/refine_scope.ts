@@ -0,0 +1,134 @@
+/**
+ * Refinement scope
+ * A refinement can rewrite one passage of the draft - a text selection or a
+ * run of paragraphs - instead of the whole draft. The passage is found in
+ * the saved draft, the model rewrites only that passage, and the edit is
+ * applied to that span so the rest of the draft is left as it was.
+ */
+
+import { splitParagraphs } from "./variants";
+
+/**
+ * A passage of the draft: offsets into draft_text
+ */
+export interface RefineScope {
+  start: number;
+  end: number;
+}
+
+/**
+ * A selection in the client's copy of the draft; text is what was selected,
+ * used to find the passage if the saved draft has moved on
+ */
+export interface RefineSelection {
+  start: number;
+  end: number;
+  text?: string;
+}
+
+/**
+ * Occurrence of text in draft nearest to an offset
+ * @returns Its start, or -1 when the draft does not contain it
+ */
+export function nearestOccurrence(
+  draft: string,
+  text: string,
+  near: number
+): number {
+  let best = -1;
+  for (
+    let index = draft.indexOf(text);
+    index !== -1;
+    index = draft.indexOf(text, index + 1)
+  ) {
+    if (best === -1 || Math.abs(index - near) < Math.abs(best - near)) {
+      best = index;
+    }
+  }
+  return best;
+}
+
+/**
+ * Find the passage a refinement request asks for in the saved draft
+ * @param selection - { start, end, text? } in the client's copy of the draft
+ * @param paragraphs - Paragraph indexes (blank-line separated, from 0); the
+ *   passage runs from the first to the last of them
+ * @returns The passage, null for the whole draft, or the problem: "invalid"
+ *   for a malformed request, "missing" when the selected text is not in the
+ *   saved draft
+ */
+export function resolveRefineScope(
+  draft: string,
+  selection: unknown,
+  paragraphs: unknown
+): { scope: RefineScope | null; problem?: "invalid" | "missing" } {
+  if (selection !== undefined && selection !== null) {
+    const { start, end, text } = selection as RefineSelection;
+    if (
+      !Number.isInteger(start) ||
+      !Number.isInteger(end) ||
+      start < 0 ||
+      end <= start ||
+      (text !== undefined && typeof text !== "string")
+    ) {
+      return { scope: null, problem: "invalid" };
+    }
+
+    if (text === undefined) {
+      return end <= draft.length
+        ? { scope: { start, end } }
+        : { scope: null, problem: "invalid" };
+    }
+    if (!text.trim()) {
+      return { scope: null, problem: "invalid" };
+    }
+    if (draft.slice(start, end) === text) {
+      return { scope: { start, end } };
+    }
+    const found = nearestOccurrence(draft, text, start);
+    return found === -1
+      ? { scope: null, problem: "missing" }
+      : { scope: { start: found, end: found + text.length } };
+  }
+
+  if (paragraphs !== undefined && paragraphs !== null) {
+    const all = splitParagraphs(draft);
+    if (
+      !Array.isArray(paragraphs) ||
+      paragraphs.length === 0 ||
+      !paragraphs.every(
+        (index) => Number.isInteger(index) && index >= 0 && index < all.length
+      )
+    ) {
+      return { scope: null, problem: "invalid" };
+    }
+    return {
+      scope: {
+        start: all[Math.min(...paragraphs)].start,
+        end: all[Math.max(...paragraphs)].end,
+      },
+    };
+  }
+
+  return { scope: null };
+}
+
+/**
+ * Put a rewritten passage in place of the original, keeping the whitespace
+ * around the original so the passage sits as it did
+ * @returns The replacement as inserted and the whole new draft
+ */
+export function replaceScope(
+  draft: string,
+  scope: RefineScope,
+  rewritten: string
+): { replacement: string; draftText: string } {
+  const original = draft.slice(scope.start, scope.end);
+  const leading = original.match(/^\s*/)![0];
+  const trailing = original.slice(leading.length).match(/\s*$/)![0];
+  const replacement = `${leading}${rewritten.trim()}${trailing}`;
+  return {
+    replacement,
+    draftText: draft.slice(0, scope.start) + replacement + draft.slice(scope.end),
+  };
+}
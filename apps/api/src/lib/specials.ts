@@ -0,0 +1,470 @@
+/**
+ * Medical specials ledger: billing line items parsed from extracted bills
+ * Totals are computed here rather than by the model, so the damages table in
+ * a generated letter always adds up.
+ */
+
+import { formatAmount } from "./case_facts";
+
+export interface SpecialsItem {
+  provider: string;
+  serviceDate: string | null; // YYYY-MM-DD
+  code: string | null; // CPT/HCPCS procedure code
+  description: string;
+  billed: number;
+  paid: number;
+  adjusted: number; // contractual adjustments and write-offs
+  source: { start: number; end: number } | null; // line in extracted_text
+}
+
+/**
+ * A stored ledger row; `excluded` is null while duplicate detection decides
+ * whether the item counts, true/false once the user has chosen
+ */
+export interface LedgerItem extends SpecialsItem {
+  id: string;
+  documentId: string;
+  origin: "parsed" | "manual";
+  excluded: boolean | null;
+}
+
+export interface LedgerEntry extends LedgerItem {
+  duplicateOf: string | null; // id of the earlier item this one repeats
+  counted: boolean; // whether the item is part of the totals
+}
+
+export interface SpecialsTotals {
+  billed: number;
+  paid: number;
+  adjusted: number;
+  balance: number; // billed - paid - adjusted
+  itemCount: number; // items counted in the totals
+  excludedCount: number; // duplicates and excluded items left out
+}
+
+export interface SpecialsLedger {
+  items: LedgerEntry[];
+  totals: SpecialsTotals;
+}
+
+type Column =
+  | "provider"
+  | "date"
+  | "code"
+  | "description"
+  | "billed"
+  | "paid"
+  | "adjusted"
+  | "balance";
+
+// Header keywords, checked in order so "Date of service" is a date column
+const COLUMN_PATTERNS: Array<[Column, RegExp]> = [
+  ["date", /\b(date|dos)\b/i],
+  ["code", /\b(cpt|hcpcs|code|proc)\b/i],
+  ["provider", /\b(provider|facility|physician|doctor)\b/i],
+  ["paid", /\b(paid|payments?|pmts?)\b/i],
+  ["adjusted", /\b(adj\.?|adjustments?|adjusted|write[- ]?offs?|discounts?|contractual)\b/i],
+  ["balance", /\b(balance|due|patient resp(onsibility)?)\b/i],
+  ["billed", /\b(charges?|charged|billed|fees?|amount)\b/i],
+  ["description", /\b(description|services?|procedure|treatment)\b/i],
+];
+const MONEY_COLUMNS: Column[] = ["billed", "paid", "adjusted", "balance"];
+
+// Table cells are separated by tabs or runs of spaces (see document_model)
+const CELL_SEPARATOR = /\t| {2,}|\s\|\s?/;
+const DATE_PATTERN = /\b(\d{4})-(\d{1,2})-(\d{1,2})\b|\b(\d{1,2})[/-](\d{1,2})[/-](\d{4}|\d{2})\b/;
+const MONEY_PATTERN = /\(?-?\$?\s?(?:\d{1,3}(?:,\d{3})+|\d+)\.\d{2}\)?/g;
+const CODE_PATTERN = /\b(?:\d{4}[0-9FTU]|[A-V]\d{4})(?:-[A-Z0-9]{2})?\b/;
+const PROVIDER_LABEL =
+  /^\s*(?:billing |rendering )?(?:provider|facility|practice|physician)(?: name)?\s*:\s*(.+?)\s*$/i;
+const SERVICE_DATE_LABEL = /^\s*(?:date of service|service date|dos)\s*:\s*(.+)$/i;
+const TOTAL_LINE = /^\s*(?:grand |sub)?totals?\b|\bbalance (?:due|forward)\b|\bamount due\b/i;
+// Words that mark a letterhead line as the name of a medical provider
+const PROVIDER_NAME =
+  /\b(?:hospital|clinic|medical|medicine|health(?:care)?|cent(?:er|re)|physicians?|therapy|physio\w*|rehab(?:ilitation)?|radiology|imaging|chiropractic|orthopa?edics?|neurology|associates|urgent care|ambulance|pharmacy|laborator(?:y|ies)|surgery|surgical|dental|llc|inc|p\.?c|m\.?d)\b\.?/i;
+// Document-type words printed beside the provider name ("Physio Plus statement")
+const STATEMENT_WORDS =
+  /[\s\-–—|,]*\b(?:itemi[sz]ed |patient |billing )?(?:statement|invoice|bill)(?: of (?:account|charges))?\b[\s\-–—|,]*/gi;
+// Header lines scanned for a letterhead before giving up
+const LETTERHEAD_LINES = 8;
+
+export const UNKNOWN_PROVIDER = "Unknown provider";
+
+const toCents = (amount: number) => Math.round(amount * 100);
+const fromCents = (cents: number) => cents / 100;
+
+/**
+ * Parse a date in MM/DD/YYYY, MM/DD/YY or YYYY-MM-DD form
+ * @returns ISO date (YYYY-MM-DD) or null if the text holds no valid date
+ */
+export function parseServiceDate(text: string): string | null {
+  const match = text.match(DATE_PATTERN);
+  if (!match) return null;
+
+  const [, isoYear, isoMonth, isoDay, month, day, year] = match;
+  const y = isoYear
+    ? parseInt(isoYear, 10)
+    : year.length === 2
+      ? 2000 + parseInt(year, 10)
+      : parseInt(year, 10);
+  const m = parseInt(isoMonth ?? month, 10);
+  const d = parseInt(isoDay ?? day, 10);
+  if (m < 1 || m > 12 || d < 1 || d > 31) return null;
+
+  return `${y}-${String(m).padStart(2, "0")}-${String(d).padStart(2, "0")}`;
+}
+
+/**
+ * Parse a money amount such as "$1,250.00", "(300.00)" or "-45.10"
+ * Parentheses and minus signs mark credits and are returned as negatives
+ * @returns Amount in dollars, or null if the text is not an amount
+ */
+export function parseMoney(text: string): number | null {
+  const trimmed = text.trim();
+  const match = trimmed.match(
+    /^(\()?(-)?\$?\s?((?:\d{1,3}(?:,\d{3})+|\d+)(?:\.\d{1,2})?)\)?$/
+  );
+  if (!match) return null;
+  const value = parseFloat(match[3].replace(/,/g, ""));
+  return match[1] || match[2] ? -value : value;
+}
+
+/**
+ * Recognise a column header row (e.g. "Date  CPT  Description  Charges  Paid")
+ * @returns Column role per cell, or null if the cells are not a header
+ */
+function parseHeader(cells: string[]): Column[] | null {
+  if (cells.length < 3) return null;
+  if (cells.some((cell) => parseMoney(cell) !== null || parseServiceDate(cell))) {
+    return null;
+  }
+
+  const columns = cells.map(
+    (cell) =>
+      COLUMN_PATTERNS.find(([, pattern]) => pattern.test(cell))?.[0] ??
+      "description"
+  );
+  const moneyColumns = columns.filter((column) => MONEY_COLUMNS.includes(column));
+  return moneyColumns.length >= 2 ||
+    (moneyColumns.length === 1 && columns.includes("date"))
+    ? columns
+    : null;
+}
+
+/**
+ * Find the provider named in a bill's letterhead, e.g. "RIVERSIDE
+ * ORTHOPEDIC ASSOCIATES" above the address and the line items
+ * Only the first few lines before any dated or priced line are considered,
+ * and only lines naming a kind of medical provider count; addresses, phone
+ * numbers and labelled fields ("Patient: ...") are skipped.
+ * @returns Provider name, or null if the header names none
+ */
+export function detectStatementProvider(text: string): string | null {
+  const lines = (text || "")
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .slice(0, LETTERHEAD_LINES);
+
+  for (const line of lines) {
+    // The letterhead ends where the account details and line items begin
+    if (DATE_PATTERN.test(line) || line.match(MONEY_PATTERN)) break;
+    if (line.includes(":") || line.length > 80) continue;
+    // Street addresses, ZIP codes and phone numbers
+    if (/^\d|\b\d{5}(?:-\d{4})?\b|\(?\d{3}\)?[\s.-]\d{3}[.-]\d{4}/.test(line)) {
+      continue;
+    }
+    if (!PROVIDER_NAME.test(line)) continue;
+
+    const name = line.replace(STATEMENT_WORDS, " ").replace(/\s+/g, " ").trim();
+    if (name) return name;
+  }
+  return null;
+}
+
+/**
+ * Read a row whose cells line up with a recognised header
+ */
+function parseTableRow(
+  cells: string[],
+  columns: Column[]
+): Omit<SpecialsItem, "source"> | null {
+  const item = {
+    provider: "",
+    serviceDate: null as string | null,
+    code: null as string | null,
+    description: "",
+    billed: 0,
+    paid: 0,
+    adjusted: 0,
+  };
+  const descriptions: string[] = [];
+
+  for (const [index, cell] of cells.entries()) {
+    const column = columns[index];
+    if (MONEY_COLUMNS.includes(column)) {
+      if (column === "balance") continue;
+      const amount = cell === "-" ? 0 : parseMoney(cell);
+      if (amount === null) return null;
+      item[column as "billed" | "paid" | "adjusted"] =
+        column === "billed" ? amount : Math.abs(amount);
+    } else if (column === "date") {
+      item.serviceDate = parseServiceDate(cell);
+    } else if (column === "code") {
+      item.code = cell.match(CODE_PATTERN)?.[0] ?? null;
+    } else if (column === "provider") {
+      item.provider = cell;
+    } else {
+      descriptions.push(cell);
+    }
+  }
+
+  item.description = descriptions.join(" ");
+  return item;
+}
+
+/**
+ * Read a free-form line: the first date is the date of service, amounts are
+ * billed, paid and adjusted in that order, and a procedure code may appear
+ * anywhere in the remaining text
+ */
+function parseFreeLine(
+  line: string,
+  defaultDate: string | null
+): Omit<SpecialsItem, "source"> | null {
+  const amounts = line.match(MONEY_PATTERN) ?? [];
+  if (amounts.length === 0) return null;
+
+  let rest = line.replace(MONEY_PATTERN, " ");
+  const lineDate = parseServiceDate(rest);
+  rest = rest.replace(DATE_PATTERN, " ");
+  const code = rest.match(CODE_PATTERN)?.[0] ?? null;
+  if (code) rest = rest.replace(code, " ");
+
+  // Under a "Date of service:" label, a procedure code marks a line item
+  const serviceDate = lineDate ?? (code ? defaultDate : null);
+  if (!serviceDate) return null;
+
+  const [billed, paid = 0, adjusted = 0] = amounts.map(
+    (amount) => parseMoney(amount.replace(/\s/g, "")) ?? 0
+  );
+  return {
+    provider: "",
+    serviceDate,
+    code,
+    description: rest,
+    billed,
+    paid: Math.abs(paid),
+    adjusted: Math.abs(adjusted),
+  };
+}
+
+/**
+ * Parse billing line items (provider, date of service, CPT code/description,
+ * billed, paid, adjusted) out of a bill's extracted text
+ * Rows under a recognised header are read by column; other lines count as
+ * items when they carry an amount plus a date of service or procedure code.
+ * Payment and credit lines (negative billed amounts) and totals are skipped.
+ * Items take their provider from a "Provider:" line, else from the bill's
+ * letterhead, else from defaultProvider.
+ * @param text - Extracted text of the bill
+ * @param defaultProvider - Provider when the bill names none, e.g. the
+ *   document title, so items from different bills are never taken as
+ *   duplicates of each other
+ */
+export function parseBillingItems(
+  text: string,
+  defaultProvider: string = UNKNOWN_PROVIDER
+): SpecialsItem[] {
+  const items: SpecialsItem[] = [];
+  let provider = detectStatementProvider(text) ?? defaultProvider;
+  let columns: Column[] | null = null;
+  let defaultDate: string | null = null;
+  let offset = 0;
+
+  for (const rawLine of (text || "").split("\n")) {
+    const lineStart = offset;
+    offset += rawLine.length + 1;
+
+    const line = rawLine.trimEnd();
+    if (!line.trim()) {
+      columns = null;
+      continue;
+    }
+
+    const providerMatch = line.match(PROVIDER_LABEL);
+    if (providerMatch) {
+      provider = providerMatch[1];
+      continue;
+    }
+    const dateMatch = line.match(SERVICE_DATE_LABEL);
+    if (dateMatch && !dateMatch[1].match(MONEY_PATTERN)) {
+      defaultDate = parseServiceDate(dateMatch[1]);
+      continue;
+    }
+
+    const cells = line
+      .split(CELL_SEPARATOR)
+      .map((cell) => cell.trim())
+      .filter(Boolean);
+    const header = parseHeader(cells);
+    if (header) {
+      columns = header;
+      continue;
+    }
+    if (TOTAL_LINE.test(line)) continue;
+
+    const parsed =
+      (columns && cells.length === columns.length
+        ? parseTableRow(cells, columns)
+        : null) ?? parseFreeLine(line, defaultDate);
+    if (!parsed || parsed.billed <= 0) continue;
+
+    const leading = rawLine.length - rawLine.trimStart().length;
+    items.push({
+      ...parsed,
+      provider: parsed.provider || provider,
+      serviceDate: parsed.serviceDate ?? defaultDate,
+      description: parsed.description
+        .replace(/[|\t]/g, " ")
+        .replace(/\s+/g, " ")
+        .replace(/^[\s\-–—:,;]+|[\s\-–—:,;]+$/g, ""),
+      source: { start: lineStart + leading, end: lineStart + line.length },
+    });
+  }
+
+  return items;
+}
+
+/**
+ * Key identifying the same charge billed twice (e.g. on a statement and again
+ * on an itemized bill): provider, date of service, code and billed amount
+ * Items without a known provider can only repeat charges on the same bill.
+ */
+function duplicateKey(item: LedgerItem): string {
+  return [
+    item.provider === UNKNOWN_PROVIDER
+      ? `${UNKNOWN_PROVIDER}:${item.documentId}`
+      : item.provider.toLowerCase().replace(/[^a-z0-9]/g, ""),
+    item.serviceDate ?? "",
+    item.code?.toUpperCase() ??
+      item.description.toLowerCase().replace(/\s+/g, " "),
+    toCents(item.billed),
+  ].join("|");
+}
+
+/**
+ * Flag duplicates and compute totals over the counted items
+ * Duplicates are left out unless the user included them explicitly; items the
+ * user excluded never count as the original of a duplicate.
+ */
+export function buildLedger(items: LedgerItem[]): SpecialsLedger {
+  const seen = new Map<string, string>();
+  const sums = { billed: 0, paid: 0, adjusted: 0 };
+  let itemCount = 0;
+
+  const entries = items.map((item) => {
+    const key = duplicateKey(item);
+    const duplicateOf = seen.get(key) ?? null;
+    if (!duplicateOf && item.excluded !== true) {
+      seen.set(key, item.id);
+    }
+
+    const counted = item.excluded === null ? !duplicateOf : !item.excluded;
+    if (counted) {
+      sums.billed += toCents(item.billed);
+      sums.paid += toCents(item.paid);
+      sums.adjusted += toCents(item.adjusted);
+      itemCount += 1;
+    }
+    return { ...item, duplicateOf, counted };
+  });
+
+  return {
+    items: entries,
+    totals: {
+      billed: fromCents(sums.billed),
+      paid: fromCents(sums.paid),
+      adjusted: fromCents(sums.adjusted),
+      balance: fromCents(sums.billed - sums.paid - sums.adjusted),
+      itemCount,
+      excludedCount: entries.length - itemCount,
+    },
+  };
+}
+
+/**
+ * Validate a line item submitted from the Editor
+ * @returns The item without a source span, or null if a field is invalid
+ */
+export function normalizeSpecialsItem(
+  input: unknown
+): Omit<SpecialsItem, "source"> | null {
+  if (!input || typeof input !== "object" || Array.isArray(input)) {
+    return null;
+  }
+  const data = input as Record<string, any>;
+
+  const text = (value: unknown) =>
+    typeof value === "string" ? value.trim() : "";
+  const amount = (value: unknown, fallback: number | null) => {
+    if (value === undefined || value === null || value === "") return fallback;
+    const parsed =
+      typeof value === "number" ? value : parseMoney(String(value));
+    return parsed !== null && Number.isFinite(parsed) && parsed >= 0
+      ? parsed
+      : null;
+  };
+
+  const provider = text(data.provider);
+  const billed = amount(data.billed, null);
+  const paid = amount(data.paid, 0);
+  const adjusted = amount(data.adjusted, 0);
+  if (!provider || billed === null || paid === null || adjusted === null) {
+    return null;
+  }
+
+  let serviceDate: string | null = null;
+  if (data.serviceDate) {
+    serviceDate = parseServiceDate(text(data.serviceDate));
+    if (!serviceDate) return null;
+  }
+
+  return {
+    provider,
+    serviceDate,
+    code: text(data.code).toUpperCase() || null,
+    description: text(data.description),
+    billed,
+    paid,
+    adjusted,
+  };
+}
+
+/**
+ * Render the counted items and their totals for the generation prompt
+ */
+export function formatSpecialsTable(ledger: SpecialsLedger): string {
+  const rows = ledger.items
+    .filter((item) => item.counted)
+    .map(
+      (item) =>
+        `| ${item.provider} | ${item.serviceDate ?? "—"} | ${
+          item.code ?? "—"
+        } | ${item.description || "—"} | ${formatAmount(
+          item.billed
+        )} | ${formatAmount(item.paid)} | ${formatAmount(item.adjusted)} |`
+    );
+  const { totals } = ledger;
+
+  return [
+    "| Provider | Date of service | Code | Description | Billed | Paid | Adjusted |",
+    "| --- | --- | --- | --- | --- | --- | --- |",
+    ...rows,
+    "",
+    `Total billed: ${formatAmount(totals.billed)}`,
+    `Total paid: ${formatAmount(totals.paid)}`,
+    `Total adjustments: ${formatAmount(totals.adjusted)}`,
+    `Outstanding balance: ${formatAmount(totals.balance)}`,
+  ].join("\n");
+}
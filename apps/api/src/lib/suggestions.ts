@@ -0,0 +1,61 @@
+/**
+ * Suggested changes
+ * A refinement is offered as tracked changes: the refined text is compared
+ * word by word with the draft, and each change becomes a suggestion that
+ * editors accept or reject on its own.
+ */
+
+import { RefineScope } from "./refine_scope";
+import { diffWords } from "./text_diff";
+
+export type SuggestionStatus = "pending" | "accepted" | "rejected";
+
+/**
+ * One suggested change: replace original (at start..end of the draft the
+ * refinement was made on) with replacement
+ */
+export interface SuggestedChange {
+  start: number;
+  end: number;
+  original: string;
+  replacement: string;
+}
+
+/**
+ * Suggestions turning a passage of the draft into its refined version
+ * Pure insertions take in the word before them (or after, at the start of
+ * the draft) so every suggestion replaces text that can be found again.
+ */
+export function suggestChanges(
+  draft: string,
+  scope: RefineScope,
+  refined: string
+): SuggestedChange[] {
+  const suggestions: SuggestedChange[] = [];
+  for (const change of diffWords(draft.slice(scope.start, scope.end), refined)) {
+    let start = scope.start + change.start;
+    let end = scope.start + change.end;
+    let replacement = change.inserted;
+
+    if (start === end) {
+      const lastEnd = suggestions[suggestions.length - 1]?.end ?? 0;
+      const before = draft.slice(0, start).match(/\S+\s*$/)?.[0];
+      const after = draft.slice(end).match(/^\s*\S+/)?.[0];
+      if (before && start - before.length >= lastEnd) {
+        start -= before.length;
+        replacement = before + replacement;
+      } else if (after) {
+        end += after.length;
+        replacement = replacement + after;
+      }
+    }
+
+    suggestions.push({
+      start,
+      end,
+      original: draft.slice(start, end),
+      replacement,
+    });
+  }
+  return suggestions;
+}
@@ -0,0 +1,381 @@
+/**
+ * Line and word diffs between two versions of a text
+ * Line diffs preview what re-extraction would change before the stored text
+ * is replaced; word diffs turn a refined draft into suggested changes and
+ * compare versions of a draft.
+ */
+
+export type DiffLineType = "context" | "added" | "removed";
+
+export interface DiffLine {
+  type: DiffLineType;
+  text: string;
+}
+
+export interface DiffHunk {
+  beforeStart: number; // 1-based first line in the old text
+  beforeLines: number;
+  afterStart: number; // 1-based first line in the new text
+  afterLines: number;
+  lines: DiffLine[];
+}
+
+export interface TextDiff {
+  addedLines: number;
+  removedLines: number;
+  unchangedLines: number;
+  hunks: DiffHunk[];
+  truncated: boolean; // true when hunks were cut off at the limit
+}
+
+export interface DiffEdit {
+  type: "equal" | "insert" | "delete";
+  text: string;
+}
+
+/**
+ * A word-level change: the span of the old text replaced and what replaces
+ * it (either may be empty)
+ */
+export interface WordChange {
+  start: number; // offsets into the old text
+  end: number;
+  deleted: string;
+  inserted: string;
+}
+
+/**
+ * A word-level change between two versions with offsets into both and the
+ * unchanged words around it
+ */
+export interface WordHunk {
+  index: number;
+  beforeStart: number; // offsets into the old text
+  beforeEnd: number;
+  afterStart: number; // offsets into the new text
+  afterEnd: number;
+  deleted: string;
+  inserted: string;
+  contextBefore: string;
+  contextAfter: string;
+}
+
+export interface WordDiff {
+  addedWords: number;
+  removedWords: number;
+  hunks: WordHunk[];
+  truncated: boolean; // true when hunks were cut off at the limit
+}
+
+// Lines of unchanged text shown around each change
+const CONTEXT_LINES = 2;
+// Words of unchanged text shown around each word hunk
+const CONTEXT_WORDS = 8;
+// Hunks returned to the client; the counts always cover the whole diff
+const MAX_HUNKS = 200;
+// Above this many cells the LCS table is skipped and the changed middle is
+// reported as one replacement
+const MAX_LCS_CELLS = 4_000_000;
+
+/**
+ * Shortest edit script between two line arrays via a longest common
+ * subsequence table (common prefix/suffix are trimmed first)
+ */
+export function diffSequence(before: string[], after: string[]): DiffEdit[] {
+  let prefix = 0;
+  while (
+    prefix < before.length &&
+    prefix < after.length &&
+    before[prefix] === after[prefix]
+  ) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < before.length - prefix &&
+    suffix < after.length - prefix &&
+    before[before.length - 1 - suffix] === after[after.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const a = before.slice(prefix, before.length - suffix);
+  const b = after.slice(prefix, after.length - suffix);
+  const middle: DiffEdit[] = [];
+
+  if (a.length * b.length > MAX_LCS_CELLS) {
+    middle.push(
+      ...a.map((text): DiffEdit => ({ type: "delete", text })),
+      ...b.map((text): DiffEdit => ({ type: "insert", text }))
+    );
+  } else {
+    // lcs[i * (m + 1) + j] = LCS length of a[i..] and b[j..]
+    const n = a.length;
+    const m = b.length;
+    const lcs = new Uint32Array((n + 1) * (m + 1));
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        lcs[i * (m + 1) + j] =
+          a[i] === b[j]
+            ? lcs[(i + 1) * (m + 1) + j + 1] + 1
+            : Math.max(lcs[(i + 1) * (m + 1) + j], lcs[i * (m + 1) + j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < n || j < m) {
+      if (i < n && j < m && a[i] === b[j]) {
+        middle.push({ type: "equal", text: a[i] });
+        i++;
+        j++;
+      } else if (
+        j < m &&
+        // On ties delete first so replacements read old-then-new
+        (i === n || lcs[i * (m + 1) + j + 1] > lcs[(i + 1) * (m + 1) + j])
+      ) {
+        middle.push({ type: "insert", text: b[j] });
+        j++;
+      } else {
+        middle.push({ type: "delete", text: a[i] });
+        i++;
+      }
+    }
+  }
+
+  return [
+    ...before.slice(0, prefix).map((text): DiffEdit => ({ type: "equal", text })),
+    ...middle,
+    ...before
+      .slice(before.length - suffix)
+      .map((text): DiffEdit => ({ type: "equal", text })),
+  ];
+}
+
+/**
+ * Diff two texts line by line and group the changes into hunks with context
+ */
+export function diffLines(before: string, after: string): TextDiff {
+  const split = (text: string) => (text ? text.split(/\r?\n/) : []);
+  const edits = diffSequence(split(before), split(after));
+
+  const diff: TextDiff = {
+    addedLines: 0,
+    removedLines: 0,
+    unchangedLines: 0,
+    hunks: [],
+    truncated: false,
+  };
+
+  // Line numbers (1-based) of each edit in the old and new text
+  let beforeLine = 1;
+  let afterLine = 1;
+  const positions = edits.map((edit) => {
+    const position = { before: beforeLine, after: afterLine };
+    if (edit.type !== "insert") beforeLine++;
+    if (edit.type !== "delete") afterLine++;
+    if (edit.type === "insert") diff.addedLines++;
+    else if (edit.type === "delete") diff.removedLines++;
+    else diff.unchangedLines++;
+    return position;
+  });
+
+  let index = 0;
+  while (index < edits.length) {
+    if (edits[index].type === "equal") {
+      index++;
+      continue;
+    }
+    if (diff.hunks.length === MAX_HUNKS) {
+      diff.truncated = true;
+      break;
+    }
+
+    // Extend the hunk until CONTEXT_LINES * 2 unchanged lines separate changes
+    const start = Math.max(0, index - CONTEXT_LINES);
+    let end = index;
+    let unchangedRun = 0;
+    while (end < edits.length && unchangedRun <= CONTEXT_LINES * 2) {
+      unchangedRun = edits[end].type === "equal" ? unchangedRun + 1 : 0;
+      end++;
+    }
+    // Keep only CONTEXT_LINES of the trailing unchanged run
+    end -= Math.max(0, unchangedRun - CONTEXT_LINES);
+
+    const slice = edits.slice(start, end);
+    diff.hunks.push({
+      beforeStart: positions[start].before,
+      beforeLines: slice.filter((edit) => edit.type !== "insert").length,
+      afterStart: positions[start].after,
+      afterLines: slice.filter((edit) => edit.type !== "delete").length,
+      lines: slice.map((edit) => ({
+        type:
+          edit.type === "equal"
+            ? "context"
+            : edit.type === "insert"
+              ? "added"
+              : "removed",
+        text: edit.text,
+      })),
+    });
+    index = end;
+  }
+
+  return diff;
+}
+
+/**
+ * Words and the whitespace between them, in order
+ */
+function splitWords(text: string): string[] {
+  return text.match(/\s+|[^\s]+/g) ?? [];
+}
+
+/**
+ * Diff two texts word by word
+ * Lines are matched first and only changed runs of lines are compared word
+ * by word, which keeps long drafts fast. Edits separated by nothing but
+ * spaces are merged into one change.
+ */
+export function diffWords(before: string, after: string): WordChange[] {
+  const splitLines = (text: string) => text.split(/(?<=\n)/).filter(Boolean);
+  const lineEdits = diffSequence(splitLines(before), splitLines(after));
+
+  const changes: WordChange[] = [];
+  const addChange = (change: WordChange) => {
+    const last = changes[changes.length - 1];
+    const gap = last ? before.slice(last.end, change.start) : "";
+    if (last && /^[^\S\n]*$/.test(gap)) {
+      last.end = change.end;
+      last.deleted += gap + change.deleted;
+      last.inserted += gap + change.inserted;
+    } else {
+      changes.push({ ...change });
+    }
+  };
+
+  // Compare a changed run of lines word by word; offset is where it starts
+  const diffRun = (deleted: string, inserted: string, offset: number) => {
+    let position = offset;
+    let pending: WordChange | null = null;
+    for (const edit of diffSequence(splitWords(deleted), splitWords(inserted))) {
+      if (edit.type === "equal") {
+        if (pending) addChange(pending);
+        pending = null;
+        position += edit.text.length;
+        continue;
+      }
+      pending ??= { start: position, end: position, deleted: "", inserted: "" };
+      if (edit.type === "delete") {
+        pending.deleted += edit.text;
+        pending.end += edit.text.length;
+        position += edit.text.length;
+      } else {
+        pending.inserted += edit.text;
+      }
+    }
+    if (pending) addChange(pending);
+  };
+
+  let offset = 0;
+  let runStart = 0;
+  let deleted = "";
+  let inserted = "";
+  for (const edit of [...lineEdits, null]) {
+    if (!edit || edit.type === "equal") {
+      if (deleted || inserted) diffRun(deleted, inserted, runStart);
+      deleted = "";
+      inserted = "";
+      if (edit) offset += edit.text.length;
+      runStart = offset;
+    } else if (edit.type === "delete") {
+      deleted += edit.text;
+      offset += edit.text.length;
+    } else {
+      inserted += edit.text;
+    }
+  }
+  return changes;
+}
+
+/**
+ * Up to CONTEXT_WORDS words from the end (or the start) of a text
+ */
+function contextWords(text: string, fromEnd: boolean): string {
+  // Only the edge of the text is split; a word cut there is shown in part
+  const edge = CONTEXT_WORDS * 40;
+  const tokens = splitWords(fromEnd ? text.slice(-edge) : text.slice(0, edge));
+  if (fromEnd) tokens.reverse();
+  const kept: string[] = [];
+  let words = 0;
+  for (const token of tokens) {
+    if (/\S/.test(token)) {
+      if (words === CONTEXT_WORDS) break;
+      words++;
+    }
+    kept.push(token);
+  }
+  if (fromEnd) kept.reverse();
+  return kept.join("");
+}
+
+/**
+ * Diff two versions word by word, with offsets into both texts and a few
+ * unchanged words around each change
+ */
+export function diffWordHunks(before: string, after: string): WordDiff {
+  const changes = diffWords(before, after);
+  const countWords = (text: string) => text.match(/\S+/g)?.length ?? 0;
+
+  const diff: WordDiff = {
+    addedWords: 0,
+    removedWords: 0,
+    hunks: [],
+    truncated: false,
+  };
+  // Offset of the old text's position in the new text so far
+  let shift = 0;
+  changes.forEach((change, index) => {
+    diff.addedWords += countWords(change.inserted);
+    diff.removedWords += countWords(change.deleted);
+    const afterStart = change.start + shift;
+    shift += change.inserted.length - change.deleted.length;
+
+    if (diff.hunks.length === MAX_HUNKS) {
+      diff.truncated = true;
+      return;
+    }
+    // Context stays within the unchanged text between neighbouring changes
+    const previousEnd = index > 0 ? changes[index - 1].end : 0;
+    const nextStart =
+      index < changes.length - 1 ? changes[index + 1].start : before.length;
+    const leading = before.slice(previousEnd, change.start);
+    const trailing = before.slice(change.end, nextStart);
+    diff.hunks.push({
+      index,
+      beforeStart: change.start,
+      beforeEnd: change.end,
+      afterStart,
+      afterEnd: afterStart + change.inserted.length,
+      deleted: change.deleted,
+      inserted: change.inserted,
+      contextBefore: contextWords(leading, true),
+      contextAfter: contextWords(trailing, false),
+    });
+  });
+  return diff;
+}
+
+/**
+ * Undo some hunks of a word diff in the new text, putting back what the old
+ * text had there
+ */
+export function revertHunks(after: string, hunks: WordHunk[]): string {
+  return [...hunks]
+    .sort((a, b) => b.afterStart - a.afterStart)
+    .reduce(
+      (text, hunk) =>
+        text.slice(0, hunk.afterStart) + hunk.deleted + text.slice(hunk.afterEnd),
+      after
+    );
+}
@@ -0,0 +1,171 @@
+/**
+ * Token budget planning for generation prompts
+ * Sizes prompts and chunks to what one model call can take - the context
+ * window, capped by the prompt size a call can process within the AI
+ * service's timeout: a generation runs as one prompt when the template,
+ * instructions and sources fit, and map-reduce over chunks otherwise.
+ */
+
+import { countTokens } from "./tokenizer";
+import { composeChunkSummaryPrompt } from "./composePrompt";
+
+/**
+ * Limits of the model the AI service calls
+ */
+export interface ModelProfile {
+  modelId: string;
+  contextWindow: number; // prompt + output tokens per request
+  maxOutputTokens: number; // max_tokens the AI service requests
+  maxPromptTokens: number; // largest prompt sent in one call
+}
+
+/**
+ * Planned token use of a generation, reported in the generate response
+ */
+export interface GenerationBudget {
+  modelId: string;
+  contextWindow: number;
+  maxPromptTokens: number; // per-call prompt budget
+  outputTokens: number; // reserved for the letter
+  promptTokens: {
+    template: number;
+    instructions: number;
+    sources: number;
+    system: number; // everything else: guidance, case facts, specials table
+    total: number;
+  };
+  availableTokens: number; // per-call prompt budget left after the prompt
+  strategy: "single" | "map-reduce";
+  chunkTokens?: number; // largest chunk summarized in one request (map-reduce)
+}
+
+export const DEFAULT_MODEL_ID = "anthropic.claude-3-5-sonnet-20240620-v1:0";
+
+// The AI service requests max_tokens 4096 for every model
+const AI_SERVICE_MAX_OUTPUT_TOKENS = 4096;
+
+// Context windows by Bedrock model id (cross-region ids such as
+// "us.anthropic..." match too)
+const CONTEXT_WINDOWS: { pattern: RegExp; tokens: number }[] = [
+  { pattern: /anthropic\.claude-3/, tokens: 200000 },
+  { pattern: /anthropic\.claude-(sonnet|opus|haiku)-4/, tokens: 200000 },
+  { pattern: /anthropic\.claude-v2:1/, tokens: 200000 },
+  { pattern: /anthropic\.claude-(v2|instant)/, tokens: 100000 },
+];
+
+// Share of the context window held back for tokenizer error
+const SAFETY_MARGIN = 0.05;
+
+// Chunks stay small enough for the map step to summarize them faithfully
+const MAX_CHUNK_TOKENS = 24000;
+const MIN_CHUNK_TOKENS = 500;
+
+// Held back at ingestion for the template, instructions and case facts,
+// which are only known when a draft is generated
+const PROMPT_RESERVE_TOKENS = 8000;
+
+// Largest prompt per call by default: reading a longer one before writing
+// 4096 tokens does not finish within the AI Lambda's 60s timeout
+const DEFAULT_MAX_PROMPT_TOKENS = 32000;
+
+/**
+ * Limits of the model configured by BEDROCK_MODEL_ID
+ * AI_CONTEXT_TOKENS overrides the context window (e.g. for a model served
+ * over AI_PROVIDER=http); output is capped at a quarter of the window.
+ * AI_MAX_PROMPT_TOKENS sets the prompt budget of one call, which never
+ * exceeds what the window leaves after the output and safety margin.
+ */
+export function getModelProfile(): ModelProfile {
+  const modelId = process.env.BEDROCK_MODEL_ID || DEFAULT_MODEL_ID;
+  const override = parseInt(process.env.AI_CONTEXT_TOKENS || "", 10);
+  const contextWindow =
+    override > 0
+      ? override
+      : CONTEXT_WINDOWS.find(({ pattern }) => pattern.test(modelId))?.tokens ??
+        200000;
+
+  const maxOutputTokens = Math.min(
+    AI_SERVICE_MAX_OUTPUT_TOKENS,
+    Math.floor(contextWindow / 4)
+  );
+  const promptOverride = parseInt(process.env.AI_MAX_PROMPT_TOKENS || "", 10);
+  const fitsWindow =
+    Math.floor(contextWindow * (1 - SAFETY_MARGIN)) - maxOutputTokens;
+
+  return {
+    modelId,
+    contextWindow,
+    maxOutputTokens,
+    maxPromptTokens: Math.min(
+      promptOverride > 0 ? promptOverride : DEFAULT_MAX_PROMPT_TOKENS,
+      fitsWindow
+    ),
+  };
+}
+
+/**
+ * Largest chunk the map step can summarize in one request
+ */
+export function chunkTokenLimit(profile: ModelProfile = getModelProfile()): number {
+  const summaryPromptTokens = countTokens(composeChunkSummaryPrompt("", ""));
+  const available = profile.maxPromptTokens - summaryPromptTokens;
+  return Math.max(MIN_CHUNK_TOKENS, Math.min(MAX_CHUNK_TOKENS, available));
+}
+
+/**
+ * Largest document that can go to the model whole in one call, leaving room
+ * for a typical template and instructions; larger documents are chunked at
+ * ingestion
+ */
+export function sourceTokenLimit(profile: ModelProfile = getModelProfile()): number {
+  const reserve = Math.min(
+    PROMPT_RESERVE_TOKENS,
+    Math.floor(profile.maxPromptTokens / 4)
+  );
+  return Math.max(MIN_CHUNK_TOKENS, profile.maxPromptTokens - reserve);
+}
+
+/**
+ * Plan a generation from its single-pass prompt
+ * @param profile - Model limits
+ * @param parts - The complete single-pass prompt and the pieces of it
+ *   supplied by the user or the sources
+ * @returns Token budget, with "map-reduce" when the prompt does not fit the
+ *   per-call prompt budget
+ */
+export function planGeneration(
+  profile: ModelProfile,
+  parts: {
+    prompt: string;
+    template: string;
+    instructions?: string;
+    sources: string[];
+  }
+): GenerationBudget {
+  const template = countTokens(parts.template);
+  const instructions = countTokens(parts.instructions || "");
+  const sources = parts.sources.reduce(
+    (sum, text) => sum + countTokens(text),
+    0
+  );
+  const total = countTokens(parts.prompt);
+  const availableTokens = profile.maxPromptTokens - total;
+  const strategy = availableTokens >= 0 ? "single" : "map-reduce";
+
+  return {
+    modelId: profile.modelId,
+    contextWindow: profile.contextWindow,
+    maxPromptTokens: profile.maxPromptTokens,
+    outputTokens: profile.maxOutputTokens,
+    promptTokens: {
+      template,
+      instructions,
+      sources,
+      system: Math.max(0, total - template - instructions - sources),
+      total,
+    },
+    availableTokens,
+    strategy,
+    ...(strategy === "map-reduce" && { chunkTokens: chunkTokenLimit(profile) }),
+  };
+}
@@ -0,0 +1,85 @@
+/**
+ * Token counting for prompt budgets
+ * Splits text the way byte-pair tokenizers pre-tokenize it (words with their
+ * leading space, digit runs, punctuation runs, whitespace) and prices each
+ * piece by how Claude's tokenizer encodes that kind of piece. Much closer
+ * than characters / 4 for text full of dates, amounts, codes and names.
+ * Prices lean high, so prompts are sized with room to spare; the tests
+ * check counts against Claude's tokenizer (@anthropic-ai/tokenizer).
+ */
+
+/**
+ * Pieces a byte-pair tokenizer never merges across
+ * Order matters: words, then digits, then other symbols, then whitespace.
+ */
+const PIECE_PATTERN = / ?[A-Za-z]+| ?\d+| ?[^\sA-Za-z\d]+|\s+/g;
+
+/**
+ * Tokens for one pre-tokenized piece
+ * - words: common words up to 7 letters are one token; longer words split
+ *   into ~4-letter pieces; all-caps words into ~3-letter pieces
+ * - digits: groups of up to 3
+ * - punctuation and non-Latin characters: one per character
+ * - whitespace: one per line break, plus one per 8 other whitespace characters
+ *   (runs of spaces in transcripts and tables merge)
+ */
+function pieceTokens(piece: string): number {
+  const body = piece.startsWith(" ") && piece.length > 1 ? piece.slice(1) : piece;
+
+  if (/^[A-Za-z]+$/.test(body)) {
+    if (body.length > 3 && body === body.toUpperCase()) {
+      return Math.ceil(body.length / 3);
+    }
+    return body.length <= 7 ? 1 : Math.ceil(body.length / 4);
+  }
+  if (/^\d+$/.test(body)) {
+    return Math.ceil(body.length / 3);
+  }
+  if (/^\s+$/.test(body)) {
+    const lineBreaks = (body.match(/\n/g) || []).length;
+    const other = body.length - lineBreaks;
+    return lineBreaks + Math.ceil(other / 8);
+  }
+  return Array.from(body).length;
+}
+
+/**
+ * Count the tokens in text
+ */
+export function countTokens(text: string): number {
+  if (!text) {
+    return 0;
+  }
+
+  let total = 0;
+  for (const match of text.matchAll(PIECE_PATTERN)) {
+    total += pieceTokens(match[0]);
+  }
+  return total;
+}
+
+/**
+ * Length of the longest prefix of text that fits in a token budget
+ * A piece that does not fit whole is cut in proportion to its tokens, so a
+ * budget always covers at least one character of non-empty text.
+ * @param text - Text to measure
+ * @param maxTokens - Token budget for the prefix
+ * @returns Prefix length in characters
+ */
+export function prefixWithinTokens(text: string, maxTokens: number): number {
+  let used = 0;
+  const pattern = new RegExp(PIECE_PATTERN.source, "g");
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(text)) !== null) {
+    const tokens = pieceTokens(match[0]);
+    if (used + tokens > maxTokens) {
+      const share = Math.floor(
+        (match[0].length * (maxTokens - used)) / tokens
+      );
+      return Math.max(match.index + share, 1);
+    }
+    used += tokens;
+  }
+  return text.length;
+}
@@ -0,0 +1,131 @@
+/**
+ * Draft variants
+ * Candidate drafts of one document are compared paragraph by paragraph; the
+ * user keeps one whole or picks paragraphs from several, and the chosen
+ * paragraphs keep the citations grounded for them.
+ */
+
+import { Claim, DraftCitations } from "./citations";
+
+export interface Paragraph {
+  start: number; // offsets into the draft
+  end: number;
+  text: string;
+}
+
+/**
+ * A stored variant, as needed to compose a draft from it
+ */
+export interface VariantText {
+  id: string;
+  draftText: string;
+  citations: DraftCitations | null;
+}
+
+/**
+ * One paragraph of the composed draft: paragraph `index` of a variant
+ */
+export interface ParagraphPick {
+  variantId: string;
+  index: number;
+}
+
+/**
+ * Split a draft into paragraphs at blank lines
+ * Blank paragraphs are skipped; offsets point into the draft.
+ */
+export function splitParagraphs(text: string): Paragraph[] {
+  const paragraphs: Paragraph[] = [];
+  const separator = /\n[ \t]*\n\s*/g;
+  let start = 0;
+  const push = (end: number) => {
+    const raw = text.slice(start, end);
+    const leading = raw.length - raw.trimStart().length;
+    const trimmed = raw.trim();
+    if (trimmed) {
+      paragraphs.push({
+        start: start + leading,
+        end: start + leading + trimmed.length,
+        text: trimmed,
+      });
+    }
+  };
+
+  let match: RegExpExecArray | null;
+  while ((match = separator.exec(text)) !== null) {
+    push(match.index);
+    start = match.index + match[0].length;
+  }
+  push(text.length);
+  return paragraphs;
+}
+
+/**
+ * Move a claim and its figures by shift characters
+ */
+function shiftClaim(claim: Claim, shift: number): Claim {
+  return {
+    ...claim,
+    start: claim.start + shift,
+    end: claim.end + shift,
+    figures: claim.figures.map((figure) => ({
+      ...figure,
+      start: figure.start + shift,
+      end: figure.end + shift,
+    })),
+  };
+}
+
+/**
+ * Join picked paragraphs into one draft, separated by blank lines
+ * Claims inside a picked paragraph move with it; claims spanning paragraphs
+ * are dropped.
+ * @returns The draft and its citations, or problems naming unknown variants
+ *   and paragraphs
+ */
+export function composeFromVariants(
+  picks: ParagraphPick[],
+  variants: VariantText[]
+): { draftText: string; citations: DraftCitations; problems: string[] } {
+  const byId = new Map(variants.map((variant) => [variant.id, variant]));
+  const paragraphsById = new Map<string, Paragraph[]>();
+  const problems: string[] = [];
+
+  let draftText = "";
+  const claims: Claim[] = [];
+  picks.forEach((pick, position) => {
+    const variant = byId.get(pick.variantId);
+    if (!variant) {
+      problems.push(`paragraphs[${position}]: variant not found`);
+      return;
+    }
+    if (!paragraphsById.has(variant.id)) {
+      paragraphsById.set(variant.id, splitParagraphs(variant.draftText));
+    }
+    const paragraph = paragraphsById.get(variant.id)![pick.index];
+    if (!paragraph) {
+      problems.push(
+        `paragraphs[${position}]: the variant has no paragraph ${pick.index}`
+      );
+      return;
+    }
+
+    if (draftText) draftText += "\n\n";
+    const shift = draftText.length - paragraph.start;
+    for (const claim of variant.citations?.claims ?? []) {
+      if (claim.start >= paragraph.start && claim.end <= paragraph.end) {
+        claims.push(shiftClaim(claim, shift));
+      }
+    }
+    draftText += paragraph.text;
+  });
+
+  return {
+    draftText,
+    citations: {
+      claims,
+      unsupportedCount: claims.filter((claim) => !claim.supported).length,
+    },
+    problems,
+  };
+}
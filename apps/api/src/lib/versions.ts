@@ -0,0 +1,52 @@
+/**
+ * Version references
+ * Requests name a version of a document's draft as "current" or
+ * "<kind>:<id>", where kind says where the version is kept.
+ */
+
+import { isValidUUID } from "../realtime/validation";
+
+/**
+ * Where a version of a draft is kept: the document itself (current), a
+ * refinement, a generation run, a collaborative snapshot or checkpoint, or
+ * a draft branch
+ */
+export type VersionKind =
+  | "current"
+  | "refinement"
+  | "run"
+  | "snapshot"
+  | "branch";
+
+export interface VersionRef {
+  kind: VersionKind;
+  id: string | null; // null for the current draft
+}
+
+const VERSION_KINDS: VersionKind[] = ["refinement", "run", "snapshot", "branch"];
+
+/**
+ * Parse a version reference
+ * @returns null unless value is "current" or a known kind with a UUID
+ */
+export function parseVersionRef(value: unknown): VersionRef | null {
+  if (value === "current") {
+    return { kind: "current", id: null };
+  }
+  if (typeof value !== "string") {
+    return null;
+  }
+  const separator = value.indexOf(":");
+  const kind = value.slice(0, separator) as VersionKind;
+  const id = value.slice(separator + 1);
+  return separator > 0 && VERSION_KINDS.includes(kind) && isValidUUID(id)
+    ? { kind, id }
+    : null;
+}
+
+/**
+ * The reference naming a version, as parseVersionRef reads it
+ */
+export function formatVersionRef(ref: VersionRef): string {
+  return ref.kind === "current" ? "current" : `${ref.kind}:${ref.id}`;
+}
@@ -0,0 +1,218 @@
+import { Request, Response, NextFunction } from "express";
+import {
+  addAiRequests,
+  getAiRequestCount,
+  getQuotaSubject,
+  getTokenUsage,
+} from "../db/pg";
+import {
+  QuotaOverrides,
+  QuotaScope,
+  QuotaStatus,
+  exhaustedQuota,
+  periodStart,
+  quotaStatuses,
+  resolveQuotaLimits,
+} from "../lib/quotas";
+
+/**
+ * Counts a request's model calls against the per-minute limits of the user
+ * and their organization
+ */
+export interface AiCallMeter {
+  /**
+   * Count model calls, before they are made
+   * @param calls - Number of calls (default 1)
+   */
+  charge(calls?: number): Promise<void>;
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      aiCalls?: AiCallMeter; // set by aiQuotaMiddleware
+    }
+  }
+}
+
+/**
+ * AI quotas of a user, loaded before model calls are made
+ */
+export interface AiQuota {
+  statuses: QuotaStatus[];
+  exhausted: QuotaStatus | null; // a limit that is used up, if any
+  meter: AiCallMeter;
+}
+
+/**
+ * Load the limits that apply to a user - their own and their organization's
+ * - with current use. Request counts are kept in Postgres, so they are
+ * shared by every API instance.
+ */
+export async function loadAiQuota(
+  userId: string,
+  now: Date = new Date()
+): Promise<AiQuota> {
+  const subject = await getQuotaSubject(userId);
+  const subjects: {
+    scope: QuotaScope;
+    id: string;
+    overrides: QuotaOverrides | null;
+  }[] = [{ scope: "user", id: userId, overrides: subject?.user ?? null }];
+  if (subject?.organizationId) {
+    subjects.push({
+      scope: "organization",
+      id: subject.organizationId,
+      overrides: subject.organization,
+    });
+  }
+
+  const windowStart = periodStart("minute", now);
+  const statuses: QuotaStatus[] = [];
+  for (const { scope, id, overrides } of subjects) {
+    const limits = resolveQuotaLimits(scope, overrides);
+    // Counts are only queried for limits that are set
+    const requests =
+      limits.requestsPerMinute !== null
+        ? await getAiRequestCount(scope, id, windowStart)
+        : 0;
+    const tokens =
+      limits.tokensPerDay !== null || limits.tokensPerMonth !== null
+        ? await getTokenUsage(
+            scope,
+            id,
+            periodStart("day", now),
+            periodStart("month", now)
+          )
+        : { dayTokens: 0, monthTokens: 0 };
+    statuses.push(
+      ...quotaStatuses(scope, limits, { requests, ...tokens }, now)
+    );
+  }
+
+  const counted = subjects.map(({ scope, id }) => ({ scope, id }));
+  return {
+    statuses,
+    exhausted: exhaustedQuota(statuses),
+    meter: {
+      charge: (calls = 1) =>
+        addAiRequests(counted, periodStart("minute", new Date()), calls),
+    },
+  };
+}
+
+/**
+ * Current use of every limit that applies to a user (for the usage summary)
+ */
+export async function getQuotaStatuses(
+  userId: string,
+  now: Date = new Date()
+): Promise<QuotaStatus[]> {
+  return (await loadAiQuota(userId, now)).statuses;
+}
+
+/**
+ * Explain a refused request
+ */
+function describeExhausted(status: QuotaStatus): string {
+  const who =
+    status.scope === "user" ? "You have" : "Your organization has";
+  const what =
+    status.unit === "requests"
+      ? `AI requests allowed per ${status.period}`
+      : `AI tokens allowed per ${status.period}`;
+  return `${who} used ${status.used} of the ${status.limit} ${what}. Try again after ${status.resetAt}.`;
+}
+
+/**
+ * AI quota middleware
+ * Refuses requests that would call the model once the user or their
+ * organization has used up a limit. Handlers count each model call they
+ * make with req.aiCalls.charge(), so a request making several calls
+ * (variants, chunk summaries, fact extraction) uses several requests of the
+ * per-minute limit.
+ *
+ * Responds 429 with a Retry-After header and
+ * { error, code, message, scope, period, limit, used, resetAt, retryAfter }
+ * (code RATE_LIMIT_EXCEEDED for requests per minute, QUOTA_EXCEEDED for
+ * tokens). Limits are checked before the request, so the request that
+ * crosses a limit still completes. If the limits cannot be loaded the
+ * request is refused with 503 (QUOTA_UNAVAILABLE). Place it after
+ * idempotencyMiddleware so replayed responses are not counted.
+ *
+ * @example
+ * ```typescript
+ * router.post('/generate',
+ *   authenticateToken,
+ *   idempotencyMiddleware,
+ *   aiQuotaMiddleware,
+ *   generateHandler
+ * );
+ * ```
+ */
+export async function aiQuotaMiddleware(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  const userId = req.user?.userId;
+  if (!userId) {
+    return next();
+  }
+
+  const now = new Date();
+  let quota: AiQuota;
+  try {
+    quota = await loadAiQuota(userId, now);
+  } catch (error) {
+    console.error("Failed to load AI quotas, refusing request:", error);
+    res.status(503).json({
+      error: "AI quotas unavailable",
+      code: "QUOTA_UNAVAILABLE",
+      message: "AI usage limits could not be checked. Try again shortly.",
+    });
+    return;
+  }
+
+  const { exhausted } = quota;
+  if (exhausted) {
+    const retryAfter = Math.max(
+      1,
+      Math.ceil((Date.parse(exhausted.resetAt) - now.getTime()) / 1000)
+    );
+    res.setHeader("Retry-After", String(retryAfter));
+    res.status(429).json({
+      error:
+        exhausted.unit === "requests"
+          ? "Rate limit exceeded"
+          : "Token quota exceeded",
+      code:
+        exhausted.unit === "requests"
+          ? "RATE_LIMIT_EXCEEDED"
+          : "QUOTA_EXCEEDED",
+      message: describeExhausted(exhausted),
+      scope: exhausted.scope,
+      period: exhausted.period,
+      limit: exhausted.limit,
+      used: exhausted.used,
+      resetAt: exhausted.resetAt,
+      retryAfter,
+    });
+    return;
+  }
+
+  req.aiCalls = quota.meter;
+
+  const minute = quota.statuses.find(
+    (status) => status.scope === "user" && status.period === "minute"
+  );
+  if (minute) {
+    res.setHeader("X-RateLimit-Limit", String(minute.limit));
+    res.setHeader("X-RateLimit-Remaining", String(minute.remaining - 1));
+    res.setHeader(
+      "X-RateLimit-Reset",
+      String(Math.ceil(Date.parse(minute.resetAt) / 1000))
+    );
+  }
+  next();
+}
@@ -180,3 +180,50 @@ export async function broadcastToDocument(
   }
 }
 
+
+/**
+ * Channel to one user's connections on a document, for messages only they
+ * should see (e.g. the text of a draft they are generating)
+ * Connections are looked up on the first send; messages are delivered in
+ * the order they were sent, and connections that fail are dropped.
+ */
+export function createUserDocumentChannel(
+  userId: string,
+  documentId: string
+): { send(message: any): Promise<void> } {
+  let targets: Promise<ConnectionRecord[]> | null = null;
+  let queue: Promise<void> = Promise.resolve();
+
+  return {
+    send(message: any): Promise<void> {
+      targets ??= getConnectionsByUser(userId)
+        .then((connections) =>
+          connections.filter((conn) => conn.documentId === documentId)
+        )
+        .catch((error) => {
+          console.error("Failed to fetch user connections:", error);
+          return [];
+        });
+
+      queue = queue.then(async () => {
+        const connections = await targets!;
+        const failed = new Set<string>();
+        await Promise.allSettled(
+          connections.map((conn) =>
+            sendToConnection(conn.connectionId, conn.endpoint, message).catch(
+              () => {
+                failed.add(conn.connectionId);
+              }
+            )
+          )
+        );
+        if (failed.size > 0) {
+          targets = Promise.resolve(
+            connections.filter((conn) => !failed.has(conn.connectionId))
+          );
+        }
+      });
+      return queue;
+    },
+  };
+}
@@ -7,6 +7,7 @@ import {
   countOpsSinceLastSnapshot,
   checkDocumentAccess,
 } from "../db/pg";
+import { mergeDraftUpdates } from "../lib/draft_state";
 
 // Constants for snapshot creation
 const SNAPSHOT_INTERVAL_OPS = 100;
@@ -63,12 +64,14 @@ export async function joinRoom(
  * @param documentId Document ID
  * @param opBytes Y.js operation bytes
  * @param sessionId WebSocket session ID
+ * @param userId User who made the edit
  * @returns Whether a new snapshot was created
  */
 export async function saveOperation(
   documentId: string,
   opBytes: Buffer,
-  sessionId: string
+  sessionId: string,
+  userId: string | null = null
 ): Promise<boolean> {
   // CRITICAL: Validate documentId before calling saveOp
   // This is an additional safety check even though ws_handler should have validated it
@@ -88,7 +91,7 @@ export async function saveOperation(
   }
   
   // Save the operation (saveOp will also validate, but this catches it earlier)
-  await saveOp(trimmedId, opBytes, sessionId);
+  await saveOp(trimmedId, opBytes, sessionId, userId);
 
   // Check if snapshot is needed (use trimmedId to ensure consistency)
   const opCount = await countOpsSinceLastSnapshot(trimmedId);
@@ -165,3 +168,14 @@ export async function getSyncData(
     version,
   };
 }
+
+/**
+ * Get the document's Y.js state as the server holds it: the latest snapshot
+ * and every operation saved after it, combined into one update
+ * @param documentId Document ID
+ * @returns Y.js encoded state
+ */
+export async function getDocumentState(documentId: string): Promise<Buffer> {
+  const { snapshot, ops } = await getSyncData(documentId);
+  return mergeDraftUpdates(snapshot ? [snapshot, ...ops] : ops);
+}
@@ -1266,7 +1266,8 @@ export const handler: APIGatewayProxyWebsocketHandlerV2 = async (
           shouldSnapshot = await saveOperation(
             finalDocumentId,
             updateBuffer,
-            connectionId
+            connectionId,
+            conn.userId
           );
         } catch (error) {
           // Log error but continue - we still want to broadcast the update
@@ -0,0 +1,286 @@
+import request from "supertest";
+import express from "express";
+import branchesRouter from "../branches";
+import { authenticateToken } from "../../middleware/auth";
+import {
+  checkDocumentAccess,
+  createBranch,
+  DraftBranch,
+  getBranch,
+  getBranchState,
+  getVersionText,
+  markBranchMerged,
+  query,
+  updateBranchText,
+  VersionText,
+} from "../../db/pg";
+import { readDraftText, setDraftText } from "../../lib/draft_state";
+import { broadcastToDocument } from "../../realtime/broadcast";
+
+// Mock dependencies
+jest.mock("../../middleware/auth");
+jest.mock("../../db/pg");
+jest.mock("../../realtime/broadcast");
+
+const mockAuthenticateToken = authenticateToken as jest.MockedFunction<
+  typeof authenticateToken
+>;
+const mockCheckDocumentAccess = checkDocumentAccess as jest.MockedFunction<
+  typeof checkDocumentAccess
+>;
+const mockCreateBranch = createBranch as jest.MockedFunction<
+  typeof createBranch
+>;
+const mockGetBranch = getBranch as jest.MockedFunction<typeof getBranch>;
+const mockGetBranchState = getBranchState as jest.MockedFunction<
+  typeof getBranchState
+>;
+const mockUpdateBranchText = updateBranchText as jest.MockedFunction<
+  typeof updateBranchText
+>;
+const mockGetVersionText = getVersionText as jest.MockedFunction<
+  typeof getVersionText
+>;
+const mockMarkBranchMerged = markBranchMerged as jest.MockedFunction<
+  typeof markBranchMerged
+>;
+const mockQuery = query as jest.MockedFunction<typeof query>;
+const mockBroadcastToDocument = broadcastToDocument as jest.MockedFunction<
+  typeof broadcastToDocument
+>;
+
+const CHECKPOINT_ID = "3f2b8c1e-4d5a-4b6c-9e7f-0a1b2c3d4e5f";
+const CHECKPOINT_TEXT =
+  "Dear Adjuster,\n\nDamages total $12,000.\n\nWe expect payment.";
+
+const branch = (draftText: string): DraftBranch => ({
+  id: "branch-1",
+  documentId: "doc-1",
+  name: "Client review",
+  checkpointId: CHECKPOINT_ID,
+  checkpointName: "Sent to client v1",
+  draftText,
+  createdBy: "test-user-id",
+  createdByEmail: "test@example.com",
+  updatedBy: "test-user-id",
+  updatedByEmail: "test@example.com",
+  mergedAt: null,
+  createdAt: "2024-01-01T00:00:00.000Z",
+  updatedAt: "2024-01-02T00:00:00.000Z",
+});
+
+const version = (
+  kind: VersionText["kind"],
+  text: string
+): VersionText => ({
+  kind,
+  id: kind === "current" ? null : CHECKPOINT_ID,
+  label: kind === "current" ? "Current draft" : "Sent to client v1",
+  text,
+  createdAt: "2024-01-01T00:00:00.000Z",
+});
+
+describe("Branch Routes", () => {
+  let app: express.Application;
+
+  beforeEach(() => {
+    app = express();
+    app.use(express.json());
+    app.use("/documents", branchesRouter);
+
+    jest.clearAllMocks();
+
+    mockAuthenticateToken.mockImplementation(async (req, res, next) => {
+      req.user = { userId: "test-user-id", email: "test@example.com" };
+      next();
+    });
+    mockBroadcastToDocument.mockResolvedValue(undefined);
+  });
+
+  describe("POST /documents/:id/branches", () => {
+    it("should fork a branch from a checkpoint", async () => {
+      mockCheckDocumentAccess.mockResolvedValue("editor");
+      mockCreateBranch.mockResolvedValue(branch(CHECKPOINT_TEXT));
+
+      const response = await request(app)
+        .post("/documents/doc-1/branches")
+        .set("Idempotency-Key", "test-branch")
+        .send({ checkpointId: CHECKPOINT_ID, name: " Client review " });
+
+      expect(response.status).toBe(201);
+      expect(response.body.branch.draftText).toBe(CHECKPOINT_TEXT);
+      expect(mockCreateBranch).toHaveBeenCalledWith(
+        "doc-1",
+        "test-user-id",
+        "Client review",
+        CHECKPOINT_ID
+      );
+    });
+
+    it("should answer 404 for a snapshot that is not a checkpoint", async () => {
+      mockCheckDocumentAccess.mockResolvedValue("owner");
+      mockCreateBranch.mockRejectedValue(new Error("CHECKPOINT_NOT_FOUND"));
+
+      const response = await request(app)
+        .post("/documents/doc-1/branches")
+        .set("Idempotency-Key", "test-branch-missing")
+        .send({ checkpointId: CHECKPOINT_ID, name: "Client review" });
+
+      expect(response.status).toBe(404);
+      expect(response.body.error).toBe("Checkpoint not found");
+    });
+
+    it("should not let viewers fork branches", async () => {
+      mockCheckDocumentAccess.mockResolvedValue("viewer");
+
+      const response = await request(app)
+        .post("/documents/doc-1/branches")
+        .set("Idempotency-Key", "test-branch-viewer")
+        .send({ checkpointId: CHECKPOINT_ID, name: "Client review" });
+
+      expect(response.status).toBe(403);
+      expect(mockCreateBranch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("PUT /documents/:id/branches/:branchId", () => {
+    it("should save the draft with its Y.js state changed to match", async () => {
+      const edited = CHECKPOINT_TEXT.replace("$12,000", "$15,400");
+      mockCheckDocumentAccess.mockResolvedValue("editor");
+      mockGetBranchState.mockResolvedValue({
+        state: setDraftText(null, CHECKPOINT_TEXT),
+      });
+      mockUpdateBranchText.mockResolvedValue(branch(edited));
+
+      const response = await request(app)
+        .put("/documents/doc-1/branches/branch-1")
+        .send({ draftText: edited });
+
+      expect(response.status).toBe(200);
+      expect(response.body.branch.draftText).toBe(edited);
+      const [documentId, branchId, userId, draftText, state] =
+        mockUpdateBranchText.mock.calls[0];
+      expect([documentId, branchId, userId, draftText]).toEqual([
+        "doc-1",
+        "branch-1",
+        "test-user-id",
+        edited,
+      ]);
+      expect(readDraftText(state)).toBe(edited);
+    });
+
+    it("should answer 404 for an unknown branch", async () => {
+      mockCheckDocumentAccess.mockResolvedValue("owner");
+      mockGetBranchState.mockResolvedValue(null);
+
+      const response = await request(app)
+        .put("/documents/doc-1/branches/branch-9")
+        .send({ draftText: CHECKPOINT_TEXT });
+
+      expect(response.status).toBe(404);
+      expect(mockUpdateBranchText).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("POST /documents/:id/branches/:branchId/merge", () => {
+    it("should merge changes to different words into the main draft", async () => {
+      mockCheckDocumentAccess.mockResolvedValue("editor");
+      mockGetBranch.mockResolvedValue(
+        branch(CHECKPOINT_TEXT.replace("$12,000", "$14,500"))
+      );
+      mockGetVersionText.mockImplementation(async (_documentId, kind) =>
+        kind === "current"
+          ? version("current", CHECKPOINT_TEXT.replace("expect", "demand"))
+          : version("snapshot", CHECKPOINT_TEXT)
+      );
+      mockQuery.mockResolvedValueOnce({ rows: [], rowCount: 1 } as any);
+
+      const response = await request(app)
+        .post("/documents/doc-1/branches/branch-1/merge")
+        .set("Idempotency-Key", "test-merge")
+        .send({});
+
+      const merged =
+        "Dear Adjuster,\n\nDamages total $14,500.\n\nWe demand payment.";
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({
+        draftText: merged,
+        into: "current",
+        applied: 1,
+        conflicts: [],
+      });
+      expect(mockGetVersionText).toHaveBeenCalledWith(
+        "doc-1",
+        "snapshot",
+        CHECKPOINT_ID
+      );
+      expect(mockQuery).toHaveBeenCalledWith(
+        expect.stringContaining("UPDATE documents"),
+        [merged, "doc-1"]
+      );
+      expect(mockBroadcastToDocument).toHaveBeenCalledWith("doc-1", {
+        type: "restore_complete",
+        documentId: "doc-1",
+        draftText: merged,
+      });
+      expect(mockMarkBranchMerged).toHaveBeenCalledWith("doc-1", "branch-1");
+    });
+
+    it("should answer 422 when the checkpoint text was not kept", async () => {
+      mockCheckDocumentAccess.mockResolvedValue("owner");
+      mockGetBranch.mockResolvedValue(branch(CHECKPOINT_TEXT));
+      mockGetVersionText.mockImplementation(async (_documentId, kind) =>
+        kind === "current"
+          ? version("current", CHECKPOINT_TEXT)
+          : { ...version("snapshot", CHECKPOINT_TEXT), text: null }
+      );
+
+      const response = await request(app)
+        .post("/documents/doc-1/branches/branch-1/merge")
+        .set("Idempotency-Key", "test-merge-no-base")
+        .send({ prefer: "branch" });
+
+      expect(response.status).toBe(422);
+      expect(mockQuery).not.toHaveBeenCalled();
+      expect(mockMarkBranchMerged).not.toHaveBeenCalled();
+    });
+
+    it("should answer 409 with the conflicts until a side is preferred", async () => {
+      mockCheckDocumentAccess.mockResolvedValue("owner");
+      mockGetBranch.mockResolvedValue(
+        branch(CHECKPOINT_TEXT.replace("$12,000", "$14,500"))
+      );
+      mockGetVersionText.mockImplementation(async (_documentId, kind) =>
+        kind === "current"
+          ? version("current", CHECKPOINT_TEXT.replace("$12,000", "$13,000"))
+          : version("snapshot", CHECKPOINT_TEXT)
+      );
+
+      const response = await request(app)
+        .post("/documents/doc-1/branches/branch-1/merge")
+        .set("Idempotency-Key", "test-merge-conflict")
+        .send({ into: "current" });
+
+      expect(response.status).toBe(409);
+      expect(response.body.conflicts).toEqual([
+        expect.objectContaining({
+          base: "$12,000.",
+          target: "$13,000.",
+          branch: "$14,500.",
+        }),
+      ]);
+      expect(mockQuery).not.toHaveBeenCalled();
+      expect(mockMarkBranchMerged).not.toHaveBeenCalled();
+    });
+
+    it("should not merge a branch into itself", async () => {
+      const response = await request(app)
+        .post(`/documents/doc-1/branches/${CHECKPOINT_ID}/merge`)
+        .set("Idempotency-Key", "test-merge-self")
+        .send({ into: `branch:${CHECKPOINT_ID}` });
+
+      expect(response.status).toBe(400);
+      expect(mockCheckDocumentAccess).not.toHaveBeenCalled();
+    });
+  });
+});
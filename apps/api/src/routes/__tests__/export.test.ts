@@ -2,7 +2,8 @@ import request from "supertest";
 import express from "express";
 import exportRouter from "../export";
 import { authenticateToken } from "../../middleware/auth";
-import { query } from "../../db/pg";
+import { getAiRequestCount, query, recordAiUsage } from "../../db/pg";
+import { createStubProvider, setAiProvider } from "../../lib/ai_client";
 import {
   S3Client,
   PutObjectCommand,
@@ -28,6 +29,12 @@ const mockAuthenticateToken = authenticateToken as jest.MockedFunction<
   typeof authenticateToken
 >;
 const mockQuery = query as jest.MockedFunction<typeof query>;
+const mockGetAiRequestCount = getAiRequestCount as jest.MockedFunction<
+  typeof getAiRequestCount
+>;
+const mockRecordAiUsage = recordAiUsage as jest.MockedFunction<
+  typeof recordAiUsage
+>;
 const mockS3Client = S3Client as jest.MockedClass<typeof S3Client>;
 const mockPutObjectCommand = PutObjectCommand as jest.MockedClass<
   typeof PutObjectCommand
@@ -203,6 +210,118 @@ describe("Export Routes", () => {
       expect(mockPutObjectCommand).toHaveBeenCalled();
     });
 
+    describe("AI filename", () => {
+      const generate = jest.fn(async () => "Demand_Letter_Doe");
+
+      beforeEach(() => {
+        setAiProvider({ ...createStubProvider(), generate });
+        generate.mockClear();
+        mockQuery
+          .mockResolvedValueOnce({
+            rows: [
+              {
+                id: "doc-id",
+                owner_id: "test-user-id",
+                title: "Test Document",
+                draft_text: "Dear Sir,\n\nOur client was injured.",
+              },
+            ],
+          } as any)
+          .mockResolvedValueOnce({
+            rows: [{ id: "export-id", created_at: new Date() }],
+          } as any);
+        mockS3Client.mockImplementation(
+          () => ({ send: jest.fn().mockResolvedValue({}) } as any)
+        );
+        mockGetSignedUrl.mockResolvedValue(
+          "https://s3-presigned-url.com/file.docx"
+        );
+      });
+
+      afterEach(() => {
+        setAiProvider(null);
+        delete process.env.AI_USER_REQUESTS_PER_MINUTE;
+      });
+
+      it("should name the file with the model and record its tokens", async () => {
+        mockGetAiRequestCount.mockResolvedValue(0);
+
+        const response = await request(app)
+          .post("/documents/export/doc-id")
+          .set("Idempotency-Key", "test-export-ai-name")
+          .send({});
+
+        expect(response.status).toBe(200);
+        expect(response.body.fileName).toBe("Demand_Letter_Doe.docx");
+        expect(mockRecordAiUsage).toHaveBeenCalledWith(
+          "test-user-id",
+          "doc-id",
+          "export_filename",
+          expect.any(Number),
+          expect.any(Number)
+        );
+      });
+
+      it("should use the title without the model once the AI quota is used up", async () => {
+        process.env.AI_USER_REQUESTS_PER_MINUTE = "5";
+        mockGetAiRequestCount.mockResolvedValue(5);
+
+        const response = await request(app)
+          .post("/documents/export/doc-id")
+          .set("Idempotency-Key", "test-export-quota")
+          .send({});
+
+        expect(response.status).toBe(200);
+        expect(response.body.fileName).toBe("Test Document.docx");
+        expect(generate).not.toHaveBeenCalled();
+        expect(mockRecordAiUsage).not.toHaveBeenCalled();
+      });
+    });
+
+    it("should apply the document's redaction policy to the exported text", async () => {
+      const { TextRun } = jest.requireMock("docx");
+
+      mockQuery
+        .mockResolvedValueOnce({
+          rows: [
+            {
+              id: "doc-id",
+              owner_id: "test-user-id",
+              title: "Test Document",
+              draft_text: "Claimant SSN: 123-45-6789",
+              pii_spans: [],
+              redaction_policy: "mask",
+            },
+          ],
+          rowCount: 1,
+          command: "SELECT",
+          oid: 0,
+          fields: [],
+        } as any)
+        .mockResolvedValueOnce({
+          rows: [{ id: "export-id", created_at: new Date() }],
+          rowCount: 1,
+          command: "INSERT",
+          oid: 0,
+          fields: [],
+        } as any);
+
+      mockS3Client.mockImplementation(
+        () => ({ send: jest.fn().mockResolvedValue({}) } as any)
+      );
+      mockGetSignedUrl.mockResolvedValue(
+        "https://s3-presigned-url.com/file.docx"
+      );
+
+      const response = await request(app)
+        .post("/documents/export/doc-id")
+        .set("Idempotency-Key", "test-export-redaction")
+        .send({});
+
+      expect(response.status).toBe(200);
+      expect(TextRun).toHaveBeenCalledWith("Claimant SSN: ***-**-6789");
+    });
+
     it("should return 500 if S3 bucket not configured", async () => {
       delete process.env.S3_EXPORT_BUCKET;
 
@@ -0,0 +1,173 @@
+import request from "supertest";
+import express from "express";
+import factsRouter from "../facts";
+import { authenticateToken } from "../../middleware/auth";
+import {
+  addAiRequests,
+  checkDocumentAccess,
+  getAiRequestCount,
+  query,
+  recordAiUsage,
+} from "../../db/pg";
+import { invokeAiModel } from "../../lib/ai_client";
+
+// Mock dependencies
+jest.mock("../../middleware/auth");
+jest.mock("../../db/pg");
+jest.mock("../../lib/ai_client");
+
+const mockAuthenticateToken = authenticateToken as jest.MockedFunction<
+  typeof authenticateToken
+>;
+const mockCheckDocumentAccess = checkDocumentAccess as jest.MockedFunction<
+  typeof checkDocumentAccess
+>;
+const mockQuery = query as jest.MockedFunction<typeof query>;
+const mockGetAiRequestCount = getAiRequestCount as jest.MockedFunction<
+  typeof getAiRequestCount
+>;
+const mockAddAiRequests = addAiRequests as jest.MockedFunction<
+  typeof addAiRequests
+>;
+const mockRecordAiUsage = recordAiUsage as jest.MockedFunction<
+  typeof recordAiUsage
+>;
+const mockInvokeAiModel = invokeAiModel as jest.MockedFunction<
+  typeof invokeAiModel
+>;
+
+const SOURCE_TEXT =
+  "Claimant Jane Doe (SSN 123-45-6789) was injured on 2024-01-15.";
+
+describe("Case Facts Routes", () => {
+  let app: express.Application;
+
+  beforeEach(() => {
+    app = express();
+    app.use(express.json());
+    app.use("/documents", factsRouter);
+
+    jest.clearAllMocks();
+    mockGetAiRequestCount.mockResolvedValue(0);
+
+    mockAuthenticateToken.mockImplementation(async (req, res, next) => {
+      req.user = { userId: "test-user-id", email: "test@example.com" };
+      next();
+    });
+  });
+
+  describe("POST /documents/:id/facts/extract", () => {
+    it("should not let viewers extract facts", async () => {
+      mockCheckDocumentAccess.mockResolvedValue("viewer");
+
+      const response = await request(app).post("/documents/doc-1/facts/extract");
+
+      expect(response.status).toBe(403);
+      expect(mockInvokeAiModel).not.toHaveBeenCalled();
+    });
+
+    it("should extract facts with source spans and clear confirmation", async () => {
+      mockCheckDocumentAccess.mockResolvedValue("owner");
+      mockQuery
+        .mockResolvedValueOnce({
+          rows: [
+            {
+              id: "doc-1",
+              extracted_text: SOURCE_TEXT,
+              pii_spans: null,
+              redaction_policy: "tokenize",
+              matter_id: null,
+            },
+          ],
+        } as any)
+        .mockResolvedValueOnce({ rows: [] } as any) // doc_chunks
+        .mockResolvedValueOnce({ rows: [], rowCount: 1 } as any); // UPDATE
+      mockInvokeAiModel.mockResolvedValue(
+        JSON.stringify({
+          claimant: { value: "Jane Doe", quote: "Claimant Jane Doe" },
+          incidentDate: { value: "2024-01-15", quote: "injured on 2024-01-15" },
+        })
+      );
+
+      const response = await request(app).post("/documents/doc-1/facts/extract");
+
+      expect(response.status).toBe(200);
+      expect(response.body.confirmedAt).toBeNull();
+      expect(response.body.facts.claimant).toEqual({
+        value: "Jane Doe",
+        source: {
+          documentId: "doc-1",
+          start: 0,
+          end: 17,
+          quote: "Claimant Jane Doe",
+        },
+      });
+
+      // Identifiers are tokenized before the text reaches the model
+      const prompt = mockInvokeAiModel.mock.calls[0][0];
+      expect(prompt).toContain("[SSN_1]");
+      expect(prompt).not.toContain("123-45-6789");
+
+      const updateCall = mockQuery.mock.calls[2];
+      expect(updateCall[0]).toContain("case_facts_confirmed_at = NULL");
+
+      // The call counts against the quotas
+      expect(mockAddAiRequests).toHaveBeenCalledWith(
+        [{ scope: "user", id: "test-user-id" }],
+        expect.any(Date),
+        1
+      );
+      expect(mockRecordAiUsage).toHaveBeenCalledWith(
+        "test-user-id",
+        "doc-1",
+        "case_facts",
+        expect.any(Number),
+        expect.any(Number)
+      );
+    });
+
+    it("should refuse extraction over the per-minute limit", async () => {
+      mockGetAiRequestCount.mockResolvedValue(20);
+
+      const response = await request(app).post("/documents/doc-1/facts/extract");
+
+      expect(response.status).toBe(429);
+      expect(response.body.code).toBe("RATE_LIMIT_EXCEEDED");
+      expect(mockInvokeAiModel).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("PUT /documents/:id/facts", () => {
+    it("should reject malformed facts", async () => {
+      const response = await request(app)
+        .put("/documents/doc-1/facts")
+        .send({ facts: { injuries: "Whiplash" } });
+
+      expect(response.status).toBe(400);
+      expect(mockQuery).not.toHaveBeenCalled();
+    });
+
+    it("should save and confirm facts", async () => {
+      mockCheckDocumentAccess.mockResolvedValue("editor");
+      mockQuery.mockResolvedValueOnce({
+        rows: [
+          {
+            case_facts: { claimant: { value: "Jane Doe", source: null } },
+            case_facts_confirmed_at: "2024-02-01T00:00:00Z",
+          },
+        ],
+      } as any);
+
+      const response = await request(app)
+        .put("/documents/doc-1/facts")
+        .send({
+          facts: { claimant: { value: "Jane Doe", source: null } },
+          confirmed: true,
+        });
+
+      expect(response.status).toBe(200);
+      expect(response.body.confirmedAt).toBe("2024-02-01T00:00:00Z");
+      expect(mockQuery.mock.calls[0][1]?.[1]).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,1177 @@
+import request from "supertest";
+import express from "express";
+import generateRouter from "../generate";
+import { authenticateToken } from "../../middleware/auth";
+import {
+  addAiRequests,
+  checkDocumentAccess,
+  getAiRequestCount,
+  getGenerationRuns,
+  getQuotaSubject,
+  getSpecialsItems,
+  getTokenUsage,
+  query,
+  recordGenerationRun,
+} from "../../db/pg";
+import { createStubProvider, setAiProvider } from "../../lib/ai_client";
+import { createUserDocumentChannel } from "../../realtime/broadcast";
+
+// Mock dependencies
+jest.mock("../../middleware/auth");
+jest.mock("../../db/pg");
+jest.mock("../../realtime/broadcast");
+
+const mockAuthenticateToken = authenticateToken as jest.MockedFunction<
+  typeof authenticateToken
+>;
+const mockCheckDocumentAccess = checkDocumentAccess as jest.MockedFunction<
+  typeof checkDocumentAccess
+>;
+const mockGetSpecialsItems = getSpecialsItems as jest.MockedFunction<
+  typeof getSpecialsItems
+>;
+const mockQuery = query as jest.MockedFunction<typeof query>;
+const mockRecordGenerationRun = recordGenerationRun as jest.MockedFunction<
+  typeof recordGenerationRun
+>;
+const mockGetGenerationRuns = getGenerationRuns as jest.MockedFunction<
+  typeof getGenerationRuns
+>;
+const mockGetQuotaSubject = getQuotaSubject as jest.MockedFunction<
+  typeof getQuotaSubject
+>;
+const mockGetTokenUsage = getTokenUsage as jest.MockedFunction<
+  typeof getTokenUsage
+>;
+const mockGetAiRequestCount = getAiRequestCount as jest.MockedFunction<
+  typeof getAiRequestCount
+>;
+const mockAddAiRequests = addAiRequests as jest.MockedFunction<
+  typeof addAiRequests
+>;
+const mockCreateUserDocumentChannel =
+  createUserDocumentChannel as jest.MockedFunction<
+    typeof createUserDocumentChannel
+  >;
+
+/**
+ * Queue the queries generation makes for an unchunked single document
+ */
+function mockGenerationQueries(
+  extractedText: string,
+  documentFields: Record<string, unknown> = {},
+  templateFields: Record<string, unknown> = {}
+) {
+  mockQuery
+    .mockResolvedValueOnce({
+      rows: [
+        {
+          id: "doc-1",
+          key: "uploads/user/report.pdf",
+          title: "report",
+          extracted_text: extractedText,
+          pii_spans: null,
+          redaction_policy: "tokenize",
+          matter_id: null,
+          ...documentFields,
+        },
+      ],
+    } as any)
+    .mockResolvedValueOnce({
+      rows: [
+        {
+          id: "template-1",
+          content: "Demand letter template",
+          ...templateFields,
+        },
+      ],
+    } as any)
+    .mockResolvedValueOnce({ rows: [] } as any) // template last_used_at
+    .mockResolvedValueOnce({ rows: [] } as any) // doc_chunks
+    .mockResolvedValueOnce({ rows: [], rowCount: 1 } as any); // save draft
+}
+
+/**
+ * Queue the queries generation makes for a document split into two chunks,
+ * with the given cached summaries
+ */
+function mockChunkedGenerationQueries(
+  summaries: [string | null, string | null]
+) {
+  const extractedText =
+    "Part one: the client SSN 123-45-6789 was rear-ended. Part two: therapy.";
+  mockQuery
+    .mockResolvedValueOnce({
+      rows: [
+        {
+          id: "doc-1",
+          key: "uploads/user/records.pdf",
+          title: "records",
+          extracted_text: extractedText,
+          pii_spans: null,
+          redaction_policy: "tokenize",
+          matter_id: null,
+        },
+      ],
+    } as any)
+    .mockResolvedValueOnce({
+      rows: [{ id: "template-1", content: "Demand letter template" }],
+    } as any)
+    .mockResolvedValueOnce({ rows: [] } as any) // template last_used_at
+    .mockResolvedValueOnce({
+      rows: [
+        {
+          id: "chunk-1",
+          document_id: "doc-1",
+          idx: 0,
+          start: 0,
+          end: 52,
+          summary: summaries[0],
+        },
+        {
+          id: "chunk-2",
+          document_id: "doc-1",
+          idx: 1,
+          start: 53,
+          end: extractedText.length,
+          summary: summaries[1],
+        },
+      ],
+    } as any);
+  mockQuery.mockResolvedValue({ rows: [], rowCount: 1 } as any); // updates
+}
+
+/**
+ * Parse a server-sent events body into { event, data } pairs
+ */
+function parseEvents(body: string) {
+  return body
+    .split("\n\n")
+    .filter(Boolean)
+    .map((block) => {
+      const [eventLine, dataLine] = block.split("\n");
+      return {
+        event: eventLine.replace("event: ", ""),
+        data: JSON.parse(dataLine.replace("data: ", "")),
+      };
+    });
+}
+
+describe("Generate Routes", () => {
+  let app: express.Application;
+
+  beforeEach(() => {
+    app = express();
+    app.use(express.json());
+    app.use("/documents", generateRouter);
+
+    jest.clearAllMocks();
+    // Model calls counted this minute, shared like the ai_request_counts table
+    let modelCalls = 0;
+    mockGetAiRequestCount.mockImplementation(async () => modelCalls);
+    mockAddAiRequests.mockImplementation(async (_subjects, _window, calls) => {
+      modelCalls += calls;
+    });
+    mockGetSpecialsItems.mockResolvedValue([]);
+
+    mockAuthenticateToken.mockImplementation(async (req, res, next) => {
+      req.user = { userId: "test-user-id", email: "test@example.com" };
+      next();
+    });
+  });
+
+  afterEach(() => {
+    setAiProvider(null);
+  });
+
+  describe("POST /documents/generate", () => {
+    it("should generate and save a draft with the stub provider", async () => {
+      setAiProvider(createStubProvider());
+      mockCheckDocumentAccess.mockResolvedValue("owner");
+      mockGenerationQueries("The claimant was injured on 01/15/2024.");
+
+      const response = await request(app)
+        .post("/documents/generate")
+        .set("Idempotency-Key", "generate-stub")
+        .send({ documentId: "doc-1", templateId: "template-1" });
+
+      expect(response.status).toBe(200);
+      expect(response.body.draftText).toContain("local stub AI provider");
+      expect(mockQuery.mock.calls[4][1]).toEqual([
+        response.body.draftText,
+        "draft_generated",
+        "demand_letter",
+        expect.any(String), // draft citations
+        "doc-1",
+      ]);
+    });
+  });
+
+  describe("matters", () => {
+    it("should only draw on matter documents the user can open", async () => {
+      setAiProvider(createStubProvider());
+      mockCheckDocumentAccess.mockResolvedValue("editor");
+      mockQuery.mockReset();
+      const document = {
+        id: "doc-1",
+        key: "uploads/owner/report.pdf",
+        title: "report",
+        extracted_text: "The claimant was injured on 01/15/2024.",
+        pii_spans: null,
+        redaction_policy: "tokenize",
+        matter_id: "matter-1",
+      };
+      mockQuery
+        .mockResolvedValueOnce({ rows: [document] } as any)
+        .mockResolvedValueOnce({ rows: [document] } as any) // matter sources
+        .mockResolvedValueOnce({
+          rows: [{ id: "template-1", content: "Demand letter template" }],
+        } as any);
+      mockQuery.mockResolvedValue({ rows: [], rowCount: 1 } as any);
+
+      const response = await request(app)
+        .post("/documents/generate")
+        .set("Idempotency-Key", "generate-matter-collaborator")
+        .send({ documentId: "doc-1", templateId: "template-1" });
+
+      expect(response.status).toBe(200);
+      const [sql, params] = mockQuery.mock.calls[1];
+      expect(sql).toContain("document_collaborators");
+      expect(params).toEqual(["matter-1", "test-user-id"]);
+    });
+  });
+
+  describe("citations", () => {
+    it("should ground the draft's figures and flag unsupported ones", async () => {
+      setAiProvider(
+        createStubProvider(
+          () =>
+            "The collision occurred on January 15, 2024. Her bills total $9,999.00."
+        )
+      );
+      mockCheckDocumentAccess.mockResolvedValue("owner");
+      mockQuery.mockReset();
+      mockGenerationQueries("The claimant was injured on 01/15/2024.");
+
+      const response = await request(app)
+        .post("/documents/generate")
+        .set("Idempotency-Key", "generate-citations")
+        .send({ documentId: "doc-1", templateId: "template-1" });
+
+      expect(response.status).toBe(200);
+      const { claims, unsupportedCount } = response.body.citations;
+      expect(unsupportedCount).toBe(1);
+      expect(claims[0].supports[0]).toMatchObject({
+        type: "source",
+        documentId: "doc-1",
+        label: "report.pdf",
+        quote: "01/15/2024",
+      });
+      expect(claims[1].figures[0]).toMatchObject({
+        text: "$9,999.00",
+        supported: false,
+      });
+      expect(JSON.parse(mockQuery.mock.calls[4][1]![3] as string)).toEqual(
+        response.body.citations
+      );
+    });
+  });
+
+  describe("document types", () => {
+    it("should reject an unknown document type", async () => {
+      const response = await request(app)
+        .post("/documents/generate")
+        .set("Idempotency-Key", "generate-bad-type")
+        .send({
+          documentId: "doc-1",
+          templateId: "template-1",
+          documentType: "cover_letter",
+        });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toContain("documentType must be one of");
+      expect(mockQuery).not.toHaveBeenCalled();
+    });
+
+    it("should write the chosen type, store it and report missing facts", async () => {
+      const prompts: string[] = [];
+      setAiProvider(
+        createStubProvider((prompt) => {
+          prompts.push(prompt);
+          return "Dear Records Department,";
+        })
+      );
+      mockCheckDocumentAccess.mockResolvedValue("owner");
+      mockQuery.mockReset();
+      mockGenerationQueries("Treated at City Clinic after the crash.", {
+        document_type: "demand_letter",
+        case_facts: {
+          claimant: { value: "Jane Doe", source: null },
+          defendant: null,
+          insurer: null,
+          incidentDate: null,
+          injuries: [],
+          treatmentProviders: [{ value: "City Clinic", source: null }],
+          medicalSpecials: [],
+          lostWages: [],
+        },
+        case_facts_confirmed_at: "2024-03-01T00:00:00Z",
+      });
+
+      const response = await request(app)
+        .post("/documents/generate")
+        .set("Idempotency-Key", "generate-records-request")
+        .send({
+          documentId: "doc-1",
+          templateId: "template-1",
+          documentType: "records_request",
+        });
+
+      expect(response.status).toBe(200);
+      expect(response.body.documentType).toBe("records_request");
+      expect(response.body.missingFacts).toEqual(["incidentDate"]);
+      expect(prompts[0]).toContain("Generate a professional medical records request");
+      expect(mockQuery.mock.calls[4][1]).toEqual([
+        "Dear Records Department,",
+        "draft_generated",
+        "records_request",
+        expect.any(String), // draft citations
+        "doc-1",
+      ]);
+    });
+  });
+
+  describe("merge fields", () => {
+    const mergeTemplate = {
+      content:
+        "Dear {{insurer.name}},\n\nRe: {{claimant.name}}, injured {{incident.date}}. Offer: {{offer.amount}}",
+      variables: [
+        { name: "insurer.name", type: "text", label: "Insurer", required: true },
+        { name: "claimant.name", type: "text", label: "Claimant", required: true },
+        { name: "incident.date", type: "date", label: "Incident Date", required: false },
+        { name: "offer.amount", type: "money", label: "Offer", required: false },
+      ],
+    };
+    const confirmedFacts = {
+      case_facts: {
+        claimant: { value: "Jane Doe", source: null },
+        defendant: null,
+        insurer: null,
+        incidentDate: { value: "2024-01-15", source: null },
+        injuries: [],
+        treatmentProviders: [],
+        medicalSpecials: [],
+        lostWages: [],
+      },
+      case_facts_confirmed_at: "2024-03-01T00:00:00Z",
+      redaction_policy: "none",
+    };
+
+    beforeEach(() => {
+      mockQuery.mockReset();
+      mockCheckDocumentAccess.mockResolvedValue("owner");
+    });
+
+    it("should fill merge fields before the model and report missing ones", async () => {
+      const prompts: string[] = [];
+      setAiProvider(
+        createStubProvider((prompt) => {
+          prompts.push(prompt);
+          return "Dear Acme Insurance,";
+        })
+      );
+      mockGenerationQueries(
+        "The claimant was rear-ended.",
+        confirmedFacts,
+        mergeTemplate
+      );
+
+      const response = await request(app)
+        .post("/documents/generate")
+        .set("Idempotency-Key", "generate-merge-fields")
+        .send({
+          documentId: "doc-1",
+          templateId: "template-1",
+          variables: { "offer.amount": "5000" },
+        });
+
+      expect(response.status).toBe(200);
+      expect(prompts[0]).toContain(
+        "Dear [Insurer],\n\nRe: Jane Doe, injured January 15, 2024. Offer: $5,000.00"
+      );
+      expect(prompts[0]).toContain("merge fields have already been filled in");
+      expect(response.body.missingFields).toEqual([
+        { name: "insurer.name", label: "Insurer" },
+      ]);
+      expect(response.body.mergeOnly).toBeUndefined();
+    });
+
+    it("should save the filled template without the model when mergeOnly", async () => {
+      setAiProvider(
+        createStubProvider(() => {
+          throw new Error("model should not be called");
+        })
+      );
+      mockGenerationQueries(
+        "The claimant was rear-ended.",
+        confirmedFacts,
+        mergeTemplate
+      );
+
+      const response = await request(app)
+        .post("/documents/generate")
+        .set("Idempotency-Key", "generate-merge-only")
+        .send({ documentId: "doc-1", templateId: "template-1", mergeOnly: true });
+
+      const merged =
+        "Dear [Insurer],\n\nRe: Jane Doe, injured January 15, 2024. Offer: [Offer]";
+      expect(response.status).toBe(200);
+      expect(response.body.draftText).toBe(merged);
+      expect(response.body.mergeOnly).toBe(true);
+      expect(mockQuery.mock.calls[4][1]).toEqual([
+        merged,
+        "draft_generated",
+        "demand_letter",
+        expect.any(String), // draft citations
+        "doc-1",
+      ]);
+    });
+
+    it("should reject values that do not match the variable type", async () => {
+      // Values are checked right after the template is loaded
+      mockQuery
+        .mockResolvedValueOnce({
+          rows: [{ id: "doc-1", extracted_text: "Text", ...confirmedFacts }],
+        } as any)
+        .mockResolvedValueOnce({
+          rows: [{ id: "template-1", ...mergeTemplate }],
+        } as any);
+
+      const response = await request(app)
+        .post("/documents/generate")
+        .set("Idempotency-Key", "generate-merge-bad-value")
+        .send({
+          documentId: "doc-1",
+          templateId: "template-1",
+          variables: { "offer.amount": "a lot", "claimant.name": "John" },
+        });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toContain('"offer.amount" must be a number');
+      expect(response.body.error).toContain('"claimant.name" is not a variable');
+    });
+  });
+
+  describe("POST /documents/generate/stream", () => {
+    it("should stream the draft with PII restored and then save it", async () => {
+      setAiProvider(
+        createStubProvider(() => "Dear Sir,\n\nOur client [SSN_1] was injured.")
+      );
+      mockCheckDocumentAccess.mockResolvedValue("editor");
+      mockGenerationQueries("Client SSN 123-45-6789 was injured.");
+
+      const response = await request(app)
+        .post("/documents/generate/stream")
+        .send({ documentId: "doc-1", templateId: "template-1" });
+
+      expect(response.status).toBe(200);
+      expect(response.headers["content-type"]).toContain("text/event-stream");
+
+      const events = parseEvents(response.text);
+      const texts = events.filter((event) => event.event === "text");
+      expect(texts.length).toBeGreaterThan(1);
+      expect(texts.map((event) => event.data.text).join("")).toBe(
+        "Dear Sir,\n\nOur client 123-45-6789 was injured."
+      );
+      expect(events[events.length - 1]).toEqual({
+        event: "done",
+        data: expect.objectContaining({
+          documentId: "doc-1",
+          draftText: "Dear Sir,\n\nOur client 123-45-6789 was injured.",
+        }),
+      });
+      expect(mockQuery).toHaveBeenCalledTimes(5);
+    });
+
+    it("should send the text over the realtime channel when given a streamId", async () => {
+      const sent: any[] = [];
+      mockCreateUserDocumentChannel.mockReturnValue({
+        send: jest.fn(async (message: any) => {
+          sent.push(message);
+        }),
+      });
+      setAiProvider(
+        createStubProvider(() => "Dear Sir,\n\nOur client [SSN_1] was injured.")
+      );
+      mockCheckDocumentAccess.mockResolvedValue("editor");
+      mockGenerationQueries("Client SSN 123-45-6789 was injured.");
+
+      const response = await request(app)
+        .post("/documents/generate/stream")
+        .send({
+          documentId: "doc-1",
+          templateId: "template-1",
+          streamId: "stream-1",
+        });
+
+      expect(mockCreateUserDocumentChannel).toHaveBeenCalledWith(
+        "test-user-id",
+        "doc-1"
+      );
+      expect(sent.length).toBeGreaterThan(0);
+      expect(sent.every((message) => message.type === "generation_text")).toBe(
+        true
+      );
+      expect(sent[0]).toMatchObject({ documentId: "doc-1", streamId: "stream-1" });
+      expect(sent.map((message) => message.text).join("")).toBe(
+        "Dear Sir,\n\nOur client 123-45-6789 was injured."
+      );
+
+      const events = parseEvents(response.text);
+      expect(events.map((event) => event.event)).toEqual(["done"]);
+      expect(events[0].data.draftText).toBe(
+        "Dear Sir,\n\nOur client 123-45-6789 was injured."
+      );
+    });
+
+    it("should reject a malformed streamId", async () => {
+      const response = await request(app)
+        .post("/documents/generate/stream")
+        .send({
+          documentId: "doc-1",
+          templateId: "template-1",
+          streamId: "not a stream id!",
+        });
+
+      expect(response.status).toBe(400);
+      expect(mockCreateUserDocumentChannel).not.toHaveBeenCalled();
+    });
+
+    it("should answer with a plain error before streaming starts", async () => {
+      mockCheckDocumentAccess.mockResolvedValue("viewer");
+
+      const response = await request(app)
+        .post("/documents/generate/stream")
+        .send({ documentId: "doc-1", templateId: "template-1" });
+
+      expect(response.status).toBe(403);
+      expect(response.body.error).toBe("Viewers cannot generate drafts");
+    });
+
+    it("should report model failures as an error event without saving", async () => {
+      setAiProvider(
+        createStubProvider(() => {
+          throw new Error("Model unavailable");
+        })
+      );
+      mockCheckDocumentAccess.mockResolvedValue("owner");
+      mockGenerationQueries("The claimant was injured.");
+
+      const response = await request(app)
+        .post("/documents/generate/stream")
+        .send({ documentId: "doc-1", templateId: "template-1" });
+
+      expect(parseEvents(response.text)).toEqual([
+        {
+          event: "error",
+          data: { error: "Generation failed", message: "Model unavailable" },
+        },
+      ]);
+      expect(mockQuery).toHaveBeenCalledTimes(4);
+    });
+  });
+
+  describe("generation runs", () => {
+    beforeEach(() => {
+      mockQuery.mockReset(); // drop responses queued but unused by earlier tests
+      mockCheckDocumentAccess.mockResolvedValue("owner");
+    });
+
+    it("should record a successful run with its inputs and token use", async () => {
+      setAiProvider(createStubProvider());
+      mockGenerationQueries(
+        "The claimant was injured on 01/15/2024.",
+        {},
+        { updated_at: "2024-03-01T00:00:00Z" }
+      );
+
+      const response = await request(app)
+        .post("/documents/generate")
+        .set("Idempotency-Key", "generate-run")
+        .send({
+          documentId: "doc-1",
+          templateId: "template-1",
+          instructions: "Keep it short",
+        });
+
+      expect(response.status).toBe(200);
+      expect(mockRecordGenerationRun).toHaveBeenCalledTimes(1);
+      const run = mockRecordGenerationRun.mock.calls[0][0];
+      expect(run).toEqual(
+        expect.objectContaining({
+          documentId: "doc-1",
+          userId: "test-user-id",
+          templateId: "template-1",
+          templateVersion: "2024-03-01T00:00:00.000Z",
+          instructions: "Keep it short",
+          documentType: "demand_letter",
+          promptHash: expect.stringMatching(/^[0-9a-f]{64}$/),
+          modelId: response.body.budget.modelId,
+          strategy: "single",
+          chunkCount: 0,
+          modelCalls: 1,
+          streamed: false,
+          outcome: "succeeded",
+          error: null,
+        })
+      );
+      expect(run.inputTokens).toBeGreaterThan(0);
+      expect(run.outputTokens).toBeGreaterThan(0);
+    });
+
+    it("should record a failed streamed run with its error", async () => {
+      setAiProvider(
+        createStubProvider(() => {
+          throw new Error("Model unavailable");
+        })
+      );
+      mockGenerationQueries("The claimant was injured.");
+
+      await request(app)
+        .post("/documents/generate/stream")
+        .send({ documentId: "doc-1", templateId: "template-1" });
+
+      expect(mockRecordGenerationRun).toHaveBeenCalledWith(
+        expect.objectContaining({
+          streamed: true,
+          outcome: "failed",
+          error: "Model unavailable",
+          outputTokens: 0,
+        })
+      );
+    });
+
+    it("should not record requests rejected before generation", async () => {
+      const response = await request(app)
+        .post("/documents/generate")
+        .set("Idempotency-Key", "generate-run-invalid")
+        .send({ documentId: "doc-1" });
+
+      expect(response.status).toBe(400);
+      expect(mockRecordGenerationRun).not.toHaveBeenCalled();
+    });
+
+    it("should list a document's runs with a capped limit", async () => {
+      mockGetGenerationRuns.mockResolvedValue([]);
+
+      const response = await request(app).get("/documents/doc-1/runs?limit=500");
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({ runs: [] });
+      expect(mockGetGenerationRuns).toHaveBeenCalledWith("doc-1", 200);
+    });
+
+    it("should not list runs of documents the user cannot access", async () => {
+      mockCheckDocumentAccess.mockResolvedValue(null);
+
+      const response = await request(app).get("/documents/doc-1/runs");
+
+      expect(response.status).toBe(404);
+      expect(mockGetGenerationRuns).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("draft variants", () => {
+    const documentRow = {
+      id: "doc-1",
+      key: "uploads/user/report.pdf",
+      title: "report",
+      extracted_text: "Medical bills total $1,200.",
+      pii_spans: null,
+      redaction_policy: "tokenize",
+      matter_id: null,
+    };
+
+    const VARIANT_1 = "6f1c2a3b-4d5e-4f60-8a7b-9c0d1e2f3a4b";
+    const VARIANT_2 = "0a9b8c7d-6e5f-4a3b-9c2d-1e0f9a8b7c6d";
+
+    /**
+     * Queue the queries preparing one variant makes
+     */
+    const mockPrepareQueries = () => {
+      mockQuery
+        .mockResolvedValueOnce({ rows: [documentRow] } as any)
+        .mockResolvedValueOnce({
+          rows: [{ id: "template-1", content: "Demand letter template" }],
+        } as any)
+        .mockResolvedValueOnce({ rows: [] } as any) // template last_used_at
+        .mockResolvedValueOnce({ rows: [] } as any); // doc_chunks
+    };
+
+    beforeEach(() => {
+      mockQuery.mockReset(); // drop responses queued but unused by earlier tests
+      mockCheckDocumentAccess.mockResolvedValue("owner");
+    });
+
+    it("should store one candidate draft per parameter set and leave the draft unchanged", async () => {
+      const prompts: string[] = [];
+      setAiProvider(
+        createStubProvider((prompt) => {
+          prompts.push(prompt);
+          return `Draft ${prompts.length}: medical bills total $1,200.`;
+        })
+      );
+      mockPrepareQueries();
+      mockPrepareQueries();
+      mockQuery
+        .mockResolvedValueOnce({
+          rows: [{ id: "variant-1", created_at: "2024-03-01T00:00:00Z" }],
+        } as any)
+        .mockResolvedValueOnce({
+          rows: [{ id: "variant-2", created_at: "2024-03-01T00:00:01Z" }],
+        } as any);
+
+      const response = await request(app)
+        .post("/documents/generate")
+        .set("Idempotency-Key", "generate-variants")
+        .send({
+          documentId: "doc-1",
+          templateId: "template-1",
+          variants: [
+            { label: "Firm", instructions: "Use a firm tone" },
+            { label: "Conciliatory", instructions: "Use a conciliatory tone" },
+          ],
+        });
+
+      expect(response.status).toBe(200);
+      expect(response.body.batchId).toMatch(/^[0-9a-f-]{36}$/);
+      expect(
+        response.body.variants.map((variant: any) => [
+          variant.id,
+          variant.label,
+          variant.instructions,
+          variant.draftText,
+        ])
+      ).toEqual([
+        [
+          "variant-1",
+          "Firm",
+          "Use a firm tone",
+          "Draft 1: medical bills total $1,200.",
+        ],
+        [
+          "variant-2",
+          "Conciliatory",
+          "Use a conciliatory tone",
+          "Draft 2: medical bills total $1,200.",
+        ],
+      ]);
+      expect(response.body.variants[0].citations.unsupportedCount).toBe(0);
+      expect(prompts[0]).toContain("Use a firm tone");
+      expect(prompts[1]).toContain("Use a conciliatory tone");
+      // Each variant's model call counts against the per-minute limit
+      expect(mockAddAiRequests).toHaveBeenCalledTimes(2);
+
+      const statements = mockQuery.mock.calls.map(([sql]) => String(sql));
+      expect(
+        statements.filter((sql) => sql.includes("INSERT INTO draft_variants"))
+      ).toHaveLength(2);
+      expect(statements.some((sql) => sql.includes("SET draft_text"))).toBe(
+        false
+      );
+      expect(mockQuery.mock.calls[8][1]).toEqual(
+        expect.arrayContaining([response.body.batchId, 0, "Firm"])
+      );
+      expect(mockRecordGenerationRun).toHaveBeenCalledTimes(2);
+    });
+
+    it("should write the variants at the same time", async () => {
+      let inFlight = 0;
+      let mostInFlight = 0;
+      setAiProvider({
+        ...createStubProvider(),
+        generate: async () => {
+          mostInFlight = Math.max(mostInFlight, ++inFlight);
+          await new Promise((resolve) => setTimeout(resolve, 10));
+          inFlight--;
+          return "Draft: medical bills total $1,200.";
+        },
+      });
+      for (let i = 0; i < 3; i++) mockPrepareQueries();
+      mockQuery.mockResolvedValue({
+        rows: [{ id: "variant", created_at: "2024-03-01T00:00:00Z" }],
+      } as any);
+
+      const response = await request(app)
+        .post("/documents/generate")
+        .set("Idempotency-Key", "generate-variants-parallel")
+        .send({ documentId: "doc-1", templateId: "template-1", variants: 3 });
+
+      expect(response.status).toBe(200);
+      expect(response.body.variants).toHaveLength(3);
+      expect(mostInFlight).toBe(3);
+    });
+
+    it("should reject a bad variant count before any query", async () => {
+      const response = await request(app)
+        .post("/documents/generate")
+        .set("Idempotency-Key", "generate-variants-count")
+        .send({ documentId: "doc-1", templateId: "template-1", variants: 9 });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toContain("variants must be a number");
+      expect(mockQuery).not.toHaveBeenCalled();
+    });
+
+    it("should not stream variants", async () => {
+      const response = await request(app)
+        .post("/documents/generate/stream")
+        .send({ documentId: "doc-1", templateId: "template-1", variants: 2 });
+
+      expect(response.status).toBe(400);
+      expect(mockQuery).not.toHaveBeenCalled();
+    });
+
+    it("should replace the draft with paragraphs picked from several variants", async () => {
+      mockQuery
+        .mockResolvedValueOnce({
+          rows: [
+            {
+              id: VARIANT_1,
+              draft_text: "Dear Adjuster,\n\nFirm paragraph.",
+              citations: { claims: [], unsupportedCount: 0 },
+              document_type: "demand_letter",
+            },
+            {
+              id: VARIANT_2,
+              draft_text: "To whom it may concern,\n\nGentle paragraph.",
+              citations: { claims: [], unsupportedCount: 0 },
+              document_type: "demand_letter",
+            },
+          ],
+        } as any)
+        .mockResolvedValueOnce({ rows: [], rowCount: 1 } as any);
+
+      const response = await request(app)
+        .post("/documents/doc-1/variants/apply")
+        .send({
+          paragraphs: [
+            { variantId: VARIANT_1, index: 0 },
+            { variantId: VARIANT_2, index: 1 },
+          ],
+        });
+
+      expect(response.status).toBe(200);
+      expect(response.body.draftText).toBe(
+        "Dear Adjuster,\n\nGentle paragraph."
+      );
+      expect(mockQuery.mock.calls[0][1]).toEqual([
+        "doc-1",
+        [VARIANT_1, VARIANT_2],
+      ]);
+      expect(mockQuery.mock.calls[1][1]).toEqual([
+        "Dear Adjuster,\n\nGentle paragraph.",
+        "draft_generated",
+        JSON.stringify({ claims: [], unsupportedCount: 0 }),
+        "demand_letter",
+        "doc-1",
+      ]);
+    });
+
+    it("should not let viewers apply a variant", async () => {
+      mockCheckDocumentAccess.mockResolvedValue("viewer");
+
+      const response = await request(app)
+        .post("/documents/doc-1/variants/apply")
+        .send({ variantId: VARIANT_1 });
+
+      expect(response.status).toBe(403);
+      expect(mockQuery).not.toHaveBeenCalled();
+    });
+
+    it("should reject variant IDs that are not UUIDs", async () => {
+      const single = await request(app)
+        .post("/documents/doc-1/variants/apply")
+        .send({ variantId: "variant-1" });
+      const picked = await request(app)
+        .post("/documents/doc-1/variants/apply")
+        .send({
+          paragraphs: [
+            { variantId: VARIANT_1, index: 0 },
+            { variantId: "x", index: 1 },
+          ],
+        });
+
+      expect(single.status).toBe(400);
+      expect(picked.status).toBe(400);
+      expect(mockQuery).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("usage quotas", () => {
+    beforeEach(() => {
+      mockQuery.mockReset(); // drop responses queued but unused by earlier tests
+      mockCheckDocumentAccess.mockResolvedValue("owner");
+      setAiProvider(createStubProvider());
+    });
+
+    afterEach(() => {
+      delete process.env.AI_USER_REQUESTS_PER_MINUTE;
+      mockGetQuotaSubject.mockReset();
+      mockGetTokenUsage.mockReset();
+    });
+
+    it("should refuse requests over the per-minute limit with a reset time", async () => {
+      process.env.AI_USER_REQUESTS_PER_MINUTE = "1";
+      mockGenerationQueries("The claimant was injured.");
+
+      const first = await request(app)
+        .post("/documents/generate")
+        .set("Idempotency-Key", "generate-quota-1")
+        .send({ documentId: "doc-1", templateId: "template-1" });
+      const second = await request(app)
+        .post("/documents/generate/stream")
+        .send({ documentId: "doc-1", templateId: "template-1" });
+
+      expect(first.status).toBe(200);
+      expect(first.headers["x-ratelimit-remaining"]).toBe("0");
+      expect(second.status).toBe(429);
+      expect(second.body).toEqual(
+        expect.objectContaining({
+          error: "Rate limit exceeded",
+          code: "RATE_LIMIT_EXCEEDED",
+          scope: "user",
+          period: "minute",
+          limit: 1,
+          used: 1,
+        })
+      );
+      expect(Number(second.headers["retry-after"])).toBeGreaterThan(0);
+      expect(Number(second.headers["retry-after"])).toBeLessThanOrEqual(60);
+      expect(mockRecordGenerationRun).toHaveBeenCalledTimes(1);
+      expect(mockAddAiRequests).toHaveBeenCalledWith(
+        [{ scope: "user", id: "test-user-id" }],
+        expect.any(Date),
+        1
+      );
+    });
+
+    it("should refuse requests when the quotas cannot be loaded", async () => {
+      mockGetQuotaSubject.mockRejectedValue(new Error("connection refused"));
+
+      const response = await request(app)
+        .post("/documents/generate")
+        .set("Idempotency-Key", "generate-quota-down")
+        .send({ documentId: "doc-1", templateId: "template-1" });
+
+      expect(response.status).toBe(503);
+      expect(response.body.code).toBe("QUOTA_UNAVAILABLE");
+      expect(mockQuery).not.toHaveBeenCalled();
+    });
+
+    it("should refuse requests once the organization's daily tokens are used", async () => {
+      mockGetQuotaSubject.mockResolvedValue({
+        organizationId: "org-1",
+        user: { requestsPerMinute: null, tokensPerDay: null, tokensPerMonth: null },
+        organization: {
+          requestsPerMinute: null,
+          tokensPerDay: "50000",
+          tokensPerMonth: null,
+        },
+      });
+      mockGetTokenUsage.mockResolvedValue({ dayTokens: 50210, monthTokens: 50210 });
+
+      const response = await request(app)
+        .post("/documents/generate")
+        .set("Idempotency-Key", "generate-quota-tokens")
+        .send({ documentId: "doc-1", templateId: "template-1" });
+
+      expect(response.status).toBe(429);
+      expect(response.body).toEqual(
+        expect.objectContaining({
+          code: "QUOTA_EXCEEDED",
+          scope: "organization",
+          period: "day",
+          limit: 50000,
+          used: 50210,
+        })
+      );
+      expect(response.body.message).toContain("Your organization has used");
+      expect(mockGetTokenUsage).toHaveBeenCalledWith(
+        "organization",
+        "org-1",
+        expect.any(Date),
+        expect.any(Date)
+      );
+      expect(mockQuery).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("chunked documents", () => {
+    const prompts: string[] = [];
+
+    afterEach(() => {
+      delete process.env.AI_CONTEXT_TOKENS;
+    });
+
+    beforeEach(() => {
+      mockQuery.mockReset(); // drop responses queued but unused by earlier tests
+      // A context window too small for the whole record forces map-reduce
+      process.env.AI_CONTEXT_TOKENS = "400";
+      prompts.length = 0;
+      setAiProvider(
+        createStubProvider((prompt) => {
+          prompts.push(prompt);
+          if (prompt.includes("Summarize the following part")) {
+            return prompt.includes("Part one")
+              ? "- Client [SSN_1] was rear-ended"
+              : "- Client attended therapy";
+          }
+          return "Dear Sir,\n\nOne letter for [SSN_1].";
+        })
+      );
+      mockCheckDocumentAccess.mockResolvedValue("owner");
+    });
+
+    it("should summarize each chunk, cache the summaries and write one letter", async () => {
+      mockChunkedGenerationQueries([null, null]);
+
+      const response = await request(app)
+        .post("/documents/generate")
+        .set("Idempotency-Key", "generate-chunked")
+        .send({ documentId: "doc-1", templateId: "template-1" });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual(
+        expect.objectContaining({
+          draftText: "Dear Sir,\n\nOne letter for 123-45-6789.",
+          chunkCount: 2,
+          cachedSummaryCount: 0,
+          budget: expect.objectContaining({
+            contextWindow: 400,
+            strategy: "map-reduce",
+          }),
+        })
+      );
+      expect(prompts).toHaveLength(3);
+      expect(prompts[0]).toContain("**Source:** records.pdf (part 1 of 2)");
+      expect(prompts[0]).not.toContain("123-45-6789");
+
+      // Summaries are cached with real values
+      expect(mockQuery.mock.calls[4]).toEqual([
+        "UPDATE doc_chunks SET summary = $1 WHERE id = $2",
+        ["- Client 123-45-6789 was rear-ended", "chunk-1"],
+      ]);
+      expect(mockQuery.mock.calls[5][1]).toEqual([
+        "- Client attended therapy",
+        "chunk-2",
+      ]);
+
+      // The letter is written from the redacted summaries
+      expect(prompts[2]).toContain(
+        "--- Source: records.pdf (part 1 of 2) ---\n- Client [SSN_1] was rear-ended"
+      );
+      expect(prompts[2]).not.toContain("Part one");
+      expect(prompts[2]).toContain("summarized part by part");
+
+      expect(mockRecordGenerationRun).toHaveBeenCalledWith(
+        expect.objectContaining({
+          strategy: "map-reduce",
+          chunkCount: 2,
+          modelCalls: 3,
+          outcome: "succeeded",
+        })
+      );
+    });
+
+    it("should reuse cached summaries without redoing the map step", async () => {
+      mockChunkedGenerationQueries([
+        "- Client 123-45-6789 was rear-ended",
+        null,
+      ]);
+
+      const response = await request(app)
+        .post("/documents/generate/stream")
+        .send({ documentId: "doc-1", templateId: "template-1" });
+
+      const events = parseEvents(response.text);
+      expect(
+        events.filter((event) => event.event === "progress").map((e) => e.data)
+      ).toEqual([
+        { stage: "summarizing", completed: 1, total: 2 },
+        { stage: "summarizing", completed: 2, total: 2 },
+      ]);
+      expect(events[events.length - 1].data).toEqual(
+        expect.objectContaining({ chunkCount: 2, cachedSummaryCount: 1 })
+      );
+
+      // Only the uncached chunk is summarized before the letter
+      expect(prompts).toHaveLength(2);
+      expect(prompts[0]).toContain("(part 2 of 2)");
+      expect(prompts[1]).toContain("- Client [SSN_1] was rear-ended");
+      expect(
+        mockQuery.mock.calls.filter(([sql]) => sql.includes("doc_chunks SET"))
+      ).toHaveLength(1);
+    });
+
+    it("should chunk and store an unchunked document that does not fit", async () => {
+      mockQuery
+        .mockResolvedValueOnce({
+          rows: [
+            {
+              id: "doc-1",
+              key: "uploads/user/records.pdf",
+              title: "records",
+              extracted_text: "Part one: the client was rear-ended.",
+              pii_spans: null,
+              redaction_policy: "tokenize",
+              matter_id: null,
+            },
+          ],
+        } as any)
+        .mockResolvedValueOnce({
+          rows: [{ id: "template-1", content: "Demand letter template" }],
+        } as any)
+        .mockResolvedValueOnce({ rows: [] } as any) // template last_used_at
+        .mockResolvedValueOnce({ rows: [] } as any) // no stored chunks
+        .mockResolvedValueOnce({
+          rows: [{ id: "chunk-1", idx: 0, start: 0, end: 36, summary: null }],
+        } as any); // stored chunk
+      mockQuery.mockResolvedValue({ rows: [], rowCount: 1 } as any);
+
+      const response = await request(app)
+        .post("/documents/generate")
+        .set("Idempotency-Key", "generate-store-chunks")
+        .send({ documentId: "doc-1", templateId: "template-1" });
+
+      expect(response.status).toBe(200);
+      expect(response.body.chunkCount).toBe(1);
+      expect(mockQuery.mock.calls[4][0]).toContain("INSERT INTO doc_chunks");
+      expect(mockQuery.mock.calls[4][1]).toEqual(["doc-1", 0, 0, 36]);
+      expect(mockQuery.mock.calls[5]).toEqual([
+        "UPDATE doc_chunks SET summary = $1 WHERE id = $2",
+        [expect.any(String), "chunk-1"],
+      ]);
+      expect(prompts[0]).toContain("**Source:** records.pdf (part 1 of 1)");
+    });
+
+    it("should write stored chunks in one pass when the whole record fits", async () => {
+      delete process.env.AI_CONTEXT_TOKENS;
+      mockChunkedGenerationQueries([null, null]);
+
+      const response = await request(app)
+        .post("/documents/generate")
+        .set("Idempotency-Key", "generate-fits")
+        .send({ documentId: "doc-1", templateId: "template-1" });
+
+      expect(response.status).toBe(200);
+      expect(response.body.chunkCount).toBeUndefined();
+      expect(response.body.budget).toEqual(
+        expect.objectContaining({ contextWindow: 200000, strategy: "single" })
+      );
+      expect(prompts).toHaveLength(1);
+      expect(prompts[0]).toContain("Part one: the client SSN [SSN_1]");
+      expect(mockQuery).toHaveBeenCalledTimes(5);
+    });
+  });
+});
@@ -0,0 +1,237 @@
+import request from "supertest";
+import express from "express";
+import ingestRouter from "../ingest";
+import { authenticateToken } from "../../middleware/auth";
+import { checkDocumentAccess, isMatterOwner, query } from "../../db/pg";
+import {
+  createIngestJob,
+  dispatchIngestJob,
+  getIngestJob,
+} from "../../jobs/ingest_job";
+
+// Mock dependencies
+jest.mock("../../middleware/auth");
+jest.mock("../../db/pg");
+jest.mock("../../jobs/ingest_job");
+jest.mock("@aws-sdk/client-s3");
+
+const mockAuthenticateToken = authenticateToken as jest.MockedFunction<
+  typeof authenticateToken
+>;
+const mockIsMatterOwner = isMatterOwner as jest.MockedFunction<
+  typeof isMatterOwner
+>;
+const mockCheckDocumentAccess = checkDocumentAccess as jest.MockedFunction<
+  typeof checkDocumentAccess
+>;
+const mockQuery = query as jest.MockedFunction<typeof query>;
+const mockCreateIngestJob = createIngestJob as jest.MockedFunction<
+  typeof createIngestJob
+>;
+const mockDispatchIngestJob = dispatchIngestJob as jest.MockedFunction<
+  typeof dispatchIngestJob
+>;
+const mockGetIngestJob = getIngestJob as jest.MockedFunction<
+  typeof getIngestJob
+>;
+
+describe("Ingest Routes", () => {
+  let app: express.Application;
+
+  const validBody = {
+    key: "uploads/abc.pdf",
+    originalName: "records.pdf",
+    mime: "application/pdf",
+    size: 1234,
+  };
+
+  beforeEach(() => {
+    app = express();
+    app.use(express.json());
+    app.use("/documents", ingestRouter);
+
+    jest.clearAllMocks();
+
+    mockAuthenticateToken.mockImplementation(async (req, res, next) => {
+      req.user = { userId: "test-user-id", email: "test@example.com" };
+      next();
+    });
+
+    process.env.S3_UPLOAD_BUCKET = "test-uploads-bucket";
+  });
+
+  describe("POST /documents/ingest", () => {
+    it("should return 400 if required fields are missing", async () => {
+      const response = await request(app)
+        .post("/documents/ingest")
+        .send({ key: "uploads/abc.pdf" });
+
+      expect(response.status).toBe(400);
+      expect(mockCreateIngestJob).not.toHaveBeenCalled();
+    });
+
+    it("should queue a job and return its id immediately", async () => {
+      mockCreateIngestJob.mockResolvedValue({
+        jobId: "job-1",
+        documentId: "doc-1",
+      });
+      mockDispatchIngestJob.mockResolvedValue();
+
+      const response = await request(app)
+        .post("/documents/ingest")
+        .send(validBody);
+
+      expect(response.status).toBe(202);
+      expect(response.body).toEqual({
+        jobId: "job-1",
+        documentId: "doc-1",
+        phase: "queued",
+      });
+      expect(mockCreateIngestJob).toHaveBeenCalledWith({
+        userId: "test-user-id",
+        key: "uploads/abc.pdf",
+        originalName: "records.pdf",
+        mime: "application/pdf",
+        size: 1234,
+        matterId: null,
+      });
+      expect(mockDispatchIngestJob).toHaveBeenCalledWith("job-1");
+    });
+
+    it("should return 404 for a matter the user does not own", async () => {
+      mockIsMatterOwner.mockResolvedValue(false);
+
+      const response = await request(app)
+        .post("/documents/ingest")
+        .send({
+          ...validBody,
+          matterId: "7c9e6679-7425-40de-944b-e07fc1f90ae7",
+        });
+
+      expect(response.status).toBe(404);
+      expect(response.body.error).toBe("Matter not found");
+      expect(mockCreateIngestJob).not.toHaveBeenCalled();
+    });
+
+    it("should return 400 for a matter ID that is not a UUID", async () => {
+      const response = await request(app)
+        .post("/documents/ingest")
+        .send({ ...validBody, matterId: "other-matter" });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe("Invalid matter ID");
+      expect(mockIsMatterOwner).not.toHaveBeenCalled();
+      expect(mockCreateIngestJob).not.toHaveBeenCalled();
+    });
+
+    it("should return 500 if the job cannot be started", async () => {
+      mockCreateIngestJob.mockResolvedValue({ jobId: "job-1", documentId: null });
+      mockDispatchIngestJob.mockRejectedValue(new Error("Invoke failed"));
+
+      const response = await request(app)
+        .post("/documents/ingest")
+        .send(validBody);
+
+      expect(response.status).toBe(500);
+      expect(response.body.message).toBe("Invoke failed");
+    });
+  });
+
+  describe("GET /documents/ingest/jobs/:id", () => {
+    it("should return 404 for unknown jobs", async () => {
+      mockGetIngestJob.mockResolvedValue(null);
+
+      const response = await request(app).get("/documents/ingest/jobs/missing");
+
+      expect(response.status).toBe(404);
+      expect(mockGetIngestJob).toHaveBeenCalledWith("missing", "test-user-id");
+    });
+
+    it("should report phase, progress and errors", async () => {
+      mockGetIngestJob.mockResolvedValue({
+        id: "job-1",
+        owner_id: "test-user-id",
+        document_id: "doc-1",
+        matter_id: null,
+        key: "uploads/abc.pdf",
+        original_name: "records.pdf",
+        mime: "application/pdf",
+        size: 1234,
+        phase: "failed",
+        progress: 100,
+        error: "Text extraction returned empty result",
+        result: null,
+        created_at: "2024-01-01T00:00:00Z",
+        updated_at: "2024-01-01T00:00:05Z",
+        completed_at: "2024-01-01T00:00:05Z",
+        started_at: "2024-01-01T00:00:01Z",
+        heartbeat_at: "2024-01-01T00:00:05Z",
+      });
+
+      const response = await request(app).get("/documents/ingest/jobs/job-1");
+
+      expect(response.status).toBe(200);
+      expect(response.body.job).toMatchObject({
+        id: "job-1",
+        phase: "failed",
+        progress: 100,
+        error: "Text extraction returned empty result",
+        documentId: "doc-1",
+        originalName: "records.pdf",
+      });
+    });
+  });
+
+  describe("PUT /documents/:id/redaction", () => {
+    const spans = [
+      { type: "ssn", start: 5, end: 16, text: "123-45-6789" },
+      { type: "phone", start: 30, end: 42, text: "555-123-4567", ignored: true },
+    ];
+
+    it("should reject unknown policies", async () => {
+      const response = await request(app)
+        .put("/documents/doc-1/redaction")
+        .send({ policy: "shred" });
+
+      expect(response.status).toBe(400);
+      expect(mockQuery).not.toHaveBeenCalled();
+    });
+
+    it("should not let viewers change redaction settings", async () => {
+      mockCheckDocumentAccess.mockResolvedValue("viewer");
+
+      const response = await request(app)
+        .put("/documents/doc-1/redaction")
+        .send({ policy: "none" });
+
+      expect(response.status).toBe(403);
+    });
+
+    it("should update the policy and replace the ignored spans", async () => {
+      mockCheckDocumentAccess.mockResolvedValue("owner");
+      mockQuery
+        .mockResolvedValueOnce({
+          rows: [{ pii_spans: spans, redaction_policy: "tokenize" }],
+        } as any)
+        .mockImplementationOnce(async (_text, params) => ({
+          rows: [
+            {
+              pii_spans: JSON.parse((params as string[])[1]),
+              redaction_policy: (params as string[])[0],
+            },
+          ],
+        }) as any);
+
+      const response = await request(app)
+        .put("/documents/doc-1/redaction")
+        .send({ policy: "mask", ignoredSpans: [{ start: 5, end: 16 }] });
+
+      expect(response.status).toBe(200);
+      expect(response.body.redactionPolicy).toBe("mask");
+      expect(response.body.piiSpans).toEqual([
+        { ...spans[0], ignored: true },
+        { type: "phone", start: 30, end: 42, text: "555-123-4567" },
+      ]);
+    });
+  });
+});
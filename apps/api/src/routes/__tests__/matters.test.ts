@@ -0,0 +1,179 @@
+import request from "supertest";
+import express from "express";
+import mattersRouter from "../matters";
+import { authenticateToken } from "../../middleware/auth";
+import { isMatterOwner, query } from "../../db/pg";
+
+// Mock dependencies
+jest.mock("../../middleware/auth");
+jest.mock("../../db/pg");
+
+const mockAuthenticateToken = authenticateToken as jest.MockedFunction<
+  typeof authenticateToken
+>;
+const mockIsMatterOwner = isMatterOwner as jest.MockedFunction<
+  typeof isMatterOwner
+>;
+const mockQuery = query as jest.MockedFunction<typeof query>;
+
+const MATTER_ID = "0f8fad5b-d9cb-469f-a165-70867728950e";
+const DOCUMENT_ID = "7c9e6679-7425-40de-944b-e07fc1f90ae7";
+
+const matterRow = {
+  id: MATTER_ID,
+  title: "Doe v. Roe",
+  description: null,
+  created_at: "2024-03-01T00:00:00.000Z",
+  updated_at: "2024-03-02T00:00:00.000Z",
+};
+
+describe("Matters Routes", () => {
+  let app: express.Application;
+
+  beforeEach(() => {
+    app = express();
+    app.use(express.json());
+    app.use("/matters", mattersRouter);
+
+    jest.clearAllMocks();
+    mockQuery.mockReset();
+
+    mockAuthenticateToken.mockImplementation(async (req, res, next) => {
+      req.user = { userId: "test-user-id", email: "test@example.com" };
+      next();
+    });
+  });
+
+  describe("POST /matters", () => {
+    it("should create a matter for the user", async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [matterRow] } as any);
+
+      const response = await request(app)
+        .post("/matters")
+        .send({ title: "  Doe v. Roe ", description: "" });
+
+      expect(response.status).toBe(201);
+      expect(response.body.matter).toEqual({
+        id: MATTER_ID,
+        title: "Doe v. Roe",
+        description: null,
+        documentCount: 0,
+        createdAt: matterRow.created_at,
+        updatedAt: matterRow.updated_at,
+      });
+      expect(mockQuery.mock.calls[0][1]).toEqual([
+        "test-user-id",
+        "Doe v. Roe",
+        null,
+      ]);
+    });
+
+    it("should require a title", async () => {
+      const response = await request(app).post("/matters").send({ title: " " });
+
+      expect(response.status).toBe(400);
+      expect(mockQuery).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("GET /matters", () => {
+    it("should list the user's matters with document counts", async () => {
+      mockQuery.mockResolvedValueOnce({
+        rows: [{ ...matterRow, document_count: "3" }],
+      } as any);
+
+      const response = await request(app).get("/matters");
+
+      expect(response.status).toBe(200);
+      expect(response.body.matters).toEqual([
+        expect.objectContaining({ id: MATTER_ID, documentCount: 3 }),
+      ]);
+      expect(mockQuery.mock.calls[0][1]).toEqual(["test-user-id"]);
+    });
+  });
+
+  describe("GET /matters/:id", () => {
+    it("should not show another user's matter", async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [] } as any);
+
+      const response = await request(app).get(`/matters/${MATTER_ID}`);
+
+      expect(response.status).toBe(404);
+      expect(mockQuery).toHaveBeenCalledTimes(1);
+    });
+
+    it("should reject an id that is not a UUID without querying", async () => {
+      const response = await request(app).get("/matters/not-a-uuid");
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe("Invalid matter ID");
+      expect(mockQuery).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("POST /matters/:id/documents", () => {
+    it("should assign one of the user's documents to the matter", async () => {
+      mockIsMatterOwner.mockResolvedValue(true);
+      mockQuery
+        .mockResolvedValueOnce({ rows: [{ id: DOCUMENT_ID }] } as any)
+        .mockResolvedValueOnce({ rows: [] } as any);
+
+      const response = await request(app)
+        .post(`/matters/${MATTER_ID}/documents`)
+        .send({ documentId: DOCUMENT_ID });
+
+      expect(response.status).toBe(204);
+      expect(mockQuery.mock.calls[0][1]).toEqual([
+        MATTER_ID,
+        DOCUMENT_ID,
+        "test-user-id",
+      ]);
+    });
+
+    it("should not assign to a matter the user does not own", async () => {
+      mockIsMatterOwner.mockResolvedValue(false);
+
+      const response = await request(app)
+        .post(`/matters/${MATTER_ID}/documents`)
+        .send({ documentId: DOCUMENT_ID });
+
+      expect(response.status).toBe(404);
+      expect(response.body.error).toBe("Matter not found");
+      expect(mockQuery).not.toHaveBeenCalled();
+    });
+
+    it("should not assign a document the user does not own", async () => {
+      mockIsMatterOwner.mockResolvedValue(true);
+      mockQuery.mockResolvedValueOnce({ rows: [] } as any);
+
+      const response = await request(app)
+        .post(`/matters/${MATTER_ID}/documents`)
+        .send({ documentId: DOCUMENT_ID });
+
+      expect(response.status).toBe(404);
+      expect(response.body.error).toBe("Document not found");
+      expect(mockQuery).toHaveBeenCalledTimes(1);
+    });
+
+    it("should reject a document id that is not a UUID", async () => {
+      const response = await request(app)
+        .post(`/matters/${MATTER_ID}/documents`)
+        .send({ documentId: "doc-1" });
+
+      expect(response.status).toBe(400);
+      expect(mockIsMatterOwner).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("DELETE /matters/:id/documents/:documentId", () => {
+    it("should reject a document id that is not a UUID", async () => {
+      const response = await request(app).delete(
+        `/matters/${MATTER_ID}/documents/doc-1`
+      );
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe("Invalid document ID");
+      expect(mockIsMatterOwner).not.toHaveBeenCalled();
+    });
+  });
+});
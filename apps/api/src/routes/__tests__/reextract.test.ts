@@ -0,0 +1,182 @@
+import request from "supertest";
+import express from "express";
+import crypto from "crypto";
+import reextractRouter from "../reextract";
+import { authenticateToken } from "../../middleware/auth";
+import { checkDocumentAccess, query } from "../../db/pg";
+import { saveExtraction } from "../../jobs/ingest_job";
+import { downloadObject, extractFromBuffer } from "../../lib/extract_basic";
+import { buildDocumentModel } from "../../lib/document_model";
+import { assessExtraction } from "../../lib/extraction_quality";
+
+// Mock dependencies
+jest.mock("../../middleware/auth");
+jest.mock("../../db/pg");
+jest.mock("../../jobs/ingest_job");
+jest.mock("../../lib/extract_basic", () => ({
+  ...jest.requireActual("../../lib/extract_basic"),
+  downloadObject: jest.fn(),
+  extractFromBuffer: jest.fn(),
+}));
+
+const mockAuthenticateToken = authenticateToken as jest.MockedFunction<
+  typeof authenticateToken
+>;
+const mockCheckDocumentAccess = checkDocumentAccess as jest.MockedFunction<
+  typeof checkDocumentAccess
+>;
+const mockQuery = query as jest.MockedFunction<typeof query>;
+const mockSaveExtraction = saveExtraction as jest.MockedFunction<
+  typeof saveExtraction
+>;
+const mockDownloadObject = downloadObject as jest.MockedFunction<
+  typeof downloadObject
+>;
+const mockExtractFromBuffer = extractFromBuffer as jest.MockedFunction<
+  typeof extractFromBuffer
+>;
+
+const sha256 = (text: string) =>
+  crypto.createHash("sha256").update(text).digest("hex");
+
+describe("Re-extraction Routes", () => {
+  let app: express.Application;
+  const originalBucket = process.env.S3_UPLOAD_BUCKET;
+
+  beforeEach(() => {
+    app = express();
+    app.use(express.json());
+    app.use("/documents", reextractRouter);
+
+    jest.clearAllMocks();
+    process.env.S3_UPLOAD_BUCKET = "uploads";
+
+    mockAuthenticateToken.mockImplementation(async (req, res, next) => {
+      req.user = { userId: "test-user-id", email: "test@example.com" };
+      next();
+    });
+  });
+
+  afterAll(() => {
+    process.env.S3_UPLOAD_BUCKET = originalBucket;
+  });
+
+  describe("POST /documents/:id/reextract", () => {
+    it("should preview the new text as a diff without replacing it", async () => {
+      const newText = "Line one\nLine two fixed\nLine three";
+      mockCheckDocumentAccess.mockResolvedValue("editor");
+      mockQuery
+        .mockResolvedValueOnce({
+          rows: [
+            {
+              key: "uploads/user/letter.docx",
+              extracted_text: "Line one\nLine tw0\nLine three",
+              extraction_quality: { characterCount: 28, warnings: [] },
+            },
+          ],
+        } as any)
+        .mockResolvedValueOnce({ rows: [{ id: "reextract-1" }] } as any);
+      mockDownloadObject.mockResolvedValue(Buffer.from("docx"));
+      mockExtractFromBuffer.mockResolvedValue({
+        text: newText,
+        ocrPages: [],
+        structure: buildDocumentModel(newText),
+        quality: assessExtraction(newText, buildDocumentModel(newText)),
+      });
+
+      const response = await request(app)
+        .post("/documents/doc-1/reextract")
+        .send({ alternateParser: true });
+
+      expect(response.status).toBe(200);
+      expect(mockExtractFromBuffer).toHaveBeenCalledWith(
+        expect.any(Buffer),
+        "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+        "uploads/user/letter.docx",
+        0,
+        { forceOcr: false, alternateParser: true }
+      );
+      expect(response.body).toMatchObject({
+        reextractionId: "reextract-1",
+        previousQuality: { characterCount: 28 },
+        quality: { characterCount: newText.length },
+        diff: { addedLines: 1, removedLines: 1, unchangedLines: 2 },
+      });
+      expect(mockQuery.mock.calls[1][1]?.[3]).toBe(
+        sha256("Line one\nLine tw0\nLine three")
+      );
+      expect(mockSaveExtraction).not.toHaveBeenCalled();
+    });
+
+    it("should reject forcing OCR on files that are not PDFs", async () => {
+      mockCheckDocumentAccess.mockResolvedValue("owner");
+      mockQuery.mockResolvedValueOnce({
+        rows: [{ key: "uploads/user/notes.txt", extracted_text: "notes" }],
+      } as any);
+
+      const response = await request(app)
+        .post("/documents/doc-1/reextract")
+        .send({ forceOcr: true });
+
+      expect(response.status).toBe(400);
+      expect(response.body.message).toBe("OCR can only be forced for PDF files");
+      expect(mockDownloadObject).not.toHaveBeenCalled();
+    });
+
+    it("should not let viewers re-extract", async () => {
+      mockCheckDocumentAccess.mockResolvedValue("viewer");
+
+      const response = await request(app)
+        .post("/documents/doc-1/reextract")
+        .send({});
+
+      expect(response.status).toBe(403);
+      expect(response.body.error).toBe("Viewers cannot re-extract documents");
+      expect(mockQuery).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("POST /documents/:id/reextract/:reextractionId/apply", () => {
+    const pending = (currentText: string) => ({
+      base_hash: sha256("Old text"),
+      extracted_text: "New text",
+      structure: buildDocumentModel("New text"),
+      ocr_pages: [],
+      quality: { characterCount: 8 },
+      current_text: currentText,
+      title: "records",
+    });
+
+    it("should replace the extracted text with the previewed result", async () => {
+      mockCheckDocumentAccess.mockResolvedValue("owner");
+      mockQuery.mockResolvedValueOnce({ rows: [pending("Old text")] } as any);
+      mockQuery.mockResolvedValue({ rows: [], rowCount: 1 } as any);
+      mockSaveExtraction.mockResolvedValue({ status: "extracted" } as any);
+
+      const response = await request(app).post(
+        "/documents/doc-1/reextract/reextract-1/apply"
+      );
+
+      expect(response.status).toBe(200);
+      expect(mockSaveExtraction).toHaveBeenCalledWith(
+        "doc-1",
+        expect.objectContaining({ text: "New text", quality: { characterCount: 8 } }),
+        "records"
+      );
+      expect(mockQuery.mock.calls[1][0]).toContain("applied_at = NOW()");
+      expect(mockQuery.mock.calls[2][0]).toContain("case_facts_confirmed_at = NULL");
+    });
+
+    it("should refuse to apply over text that changed since the preview", async () => {
+      mockCheckDocumentAccess.mockResolvedValue("owner");
+      mockQuery.mockResolvedValueOnce({ rows: [pending("Edited text")] } as any);
+
+      const response = await request(app).post(
+        "/documents/doc-1/reextract/reextract-1/apply"
+      );
+
+      expect(response.status).toBe(409);
+      expect(mockSaveExtraction).not.toHaveBeenCalled();
+    });
+  });
+});
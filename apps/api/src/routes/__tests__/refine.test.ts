@@ -7,11 +7,20 @@ import express from "express";
 import request from "supertest";
 import axios from "axios";
 import refineRouter from "../refine";
-import { query } from "../../db/pg";
+import {
+  checkDocumentAccess,
+  createSuggestions,
+  getAiRequestCount,
+  query,
+} from "../../db/pg";
+import { createStubProvider, setAiProvider } from "../../lib/ai_client";
+import { broadcastToDocument } from "../../realtime/broadcast";
 
 // Mock dependencies
 jest.mock("../../db/pg");
 jest.mock("axios");
+jest.mock("../../realtime/connections");
+jest.mock("../../realtime/broadcast");
 jest.mock("../../middleware/auth", () => ({
   authenticateToken: (req: any, res: any, next: any) => {
     req.user = { userId: "test-user-id" };
@@ -21,6 +30,18 @@ jest.mock("../../middleware/auth", () => ({
 
 const mockQuery = query as jest.MockedFunction<typeof query>;
 const mockAxios = axios as jest.Mocked<typeof axios>;
+const mockCheckDocumentAccess = checkDocumentAccess as jest.MockedFunction<
+  typeof checkDocumentAccess
+>;
+const mockCreateSuggestions = createSuggestions as jest.MockedFunction<
+  typeof createSuggestions
+>;
+const mockGetAiRequestCount = getAiRequestCount as jest.MockedFunction<
+  typeof getAiRequestCount
+>;
+const mockBroadcastToDocument = broadcastToDocument as jest.MockedFunction<
+  typeof broadcastToDocument
+>;
 
 const app = express();
 app.use(express.json());
@@ -30,6 +51,8 @@ app.use("/documents", refineRouter);
 describe("Refine Routes", () => {
   beforeEach(() => {
     jest.clearAllMocks();
+    mockBroadcastToDocument.mockResolvedValue(undefined);
+    mockGetAiRequestCount.mockResolvedValue(0);
   });
 
   describe("POST /ai/refine", () => {
@@ -133,7 +156,10 @@ describe("Refine Routes", () => {
       const response = await request(app)
         .post("/ai/refine")
         .set("Idempotency-Key", "test-refine-success")
-        .send({ documentId: "doc-123", prompt: "Make it more formal" });
+        .send({
+          documentId: "doc-123",
+          prompt: "Make it more formal",
+        });
 
       expect(response.status).toBe(200);
       expect(response.body.success).toBe(true);
@@ -150,7 +176,12 @@ describe("Refine Routes", () => {
       // Verify refinement was saved
       expect(mockQuery).toHaveBeenCalledWith(
         expect.stringContaining("INSERT INTO refinements"),
-        expect.arrayContaining(["doc-123", "Make it more formal", refinedText])
+        expect.arrayContaining([
+          "doc-123",
+          "Make it more formal",
+          refinedText,
+          "apply",
+        ])
       );
 
       // Verify document was updated
@@ -184,6 +215,139 @@ describe("Refine Routes", () => {
     });
   });
 
+  describe("POST /ai/refine with a selection", () => {
+    const draft =
+      "Dear Adjuster,\n\nDamages total $12,000.\n\nWe expect payment.";
+    const prompts: string[] = [];
+
+    beforeEach(() => {
+      mockQuery.mockReset(); // drop responses queued but unused by earlier tests
+      mockCheckDocumentAccess.mockResolvedValue("owner");
+      prompts.length = 0;
+      setAiProvider(
+        createStubProvider((prompt) => {
+          prompts.push(prompt);
+          return "Damages total $12,000, which remain unpaid.";
+        })
+      );
+    });
+
+    it("should rewrite only the selected passage and report the edit", async () => {
+      const start = draft.indexOf("Damages");
+      mockQuery
+        .mockResolvedValueOnce({
+          rows: [{ id: "doc-123", owner_id: "test-user-id", draft_text: draft }],
+        } as any)
+        .mockResolvedValueOnce({ rows: [{ id: "refinement-1" }] } as any)
+        .mockResolvedValueOnce({ rows: [], rowCount: 1 } as any);
+
+      const response = await request(app)
+        .post("/ai/refine")
+        .set("Idempotency-Key", "test-refine-selection")
+        .send({
+          documentId: "doc-123",
+          prompt: "Make it firmer",
+          selection: { start, end: start + 22, text: "Damages total $12,000." },
+          mode: "apply",
+        });
+
+      expect(response.status).toBe(200);
+      expect(response.body.draftText).toBe(
+        "Dear Adjuster,\n\nDamages total $12,000, which remain unpaid.\n\nWe expect payment."
+      );
+      expect(response.body.edit).toEqual({
+        start,
+        end: start + 22,
+        original: "Damages total $12,000.",
+        replacement: "Damages total $12,000, which remain unpaid.",
+      });
+      expect(prompts[0]).toContain(
+        "<<<PASSAGE>>>Damages total $12,000.<<<END>>>"
+      );
+      expect(mockQuery.mock.calls[1][1]).toEqual(
+        expect.arrayContaining([start, start + 22, "Damages total $12,000."])
+      );
+      expect(mockBroadcastToDocument).toHaveBeenCalledWith(
+        "doc-123",
+        expect.objectContaining({
+          type: "refinement_complete",
+          edit: response.body.edit,
+        })
+      );
+      expect(mockBroadcastToDocument.mock.calls[1][1]).not.toHaveProperty(
+        "draftText"
+      );
+    });
+
+    it("should store suggestions and leave the draft unchanged in suggest mode", async () => {
+      const start = draft.indexOf("Damages");
+      mockQuery
+        .mockResolvedValueOnce({
+          rows: [{ id: "doc-123", owner_id: "test-user-id", draft_text: draft }],
+        } as any)
+        .mockResolvedValueOnce({ rows: [{ id: "refinement-1" }] } as any);
+
+      const response = await request(app)
+        .post("/ai/refine")
+        .set("Idempotency-Key", "test-refine-suggest")
+        .send({
+          documentId: "doc-123",
+          prompt: "Make it firmer",
+          selection: { start, end: start + 22, text: "Damages total $12,000." },
+          mode: "suggest",
+        });
+
+      expect(response.status).toBe(200);
+      expect(response.body.mode).toBe("suggest");
+      expect(response.body.suggestions).toEqual([
+        {
+          start: draft.indexOf("$12,000."),
+          end: draft.indexOf("$12,000.") + 8,
+          original: "$12,000.",
+          replacement: "$12,000, which remain unpaid.",
+        },
+      ]);
+      expect(response.body).not.toHaveProperty("draftText");
+      // Stored as a suggestion, not a version of the draft
+      expect(mockQuery).toHaveBeenCalledWith(
+        expect.stringContaining("INSERT INTO refinements"),
+        expect.arrayContaining(["suggest"])
+      );
+      expect(mockCreateSuggestions).toHaveBeenCalledWith(
+        "doc-123",
+        "refinement-1",
+        "test-user-id",
+        response.body.suggestions
+      );
+      expect(mockQuery).not.toHaveBeenCalledWith(
+        expect.stringContaining("UPDATE documents"),
+        expect.anything()
+      );
+      expect(mockBroadcastToDocument).toHaveBeenCalledWith("doc-123", {
+        type: "suggestions_updated",
+        documentId: "doc-123",
+      });
+    });
+
+    it("should answer 409 when the selected text is not in the saved draft", async () => {
+      mockQuery.mockResolvedValueOnce({
+        rows: [{ id: "doc-123", owner_id: "test-user-id", draft_text: draft }],
+      } as any);
+
+      const response = await request(app)
+        .post("/ai/refine")
+        .set("Idempotency-Key", "test-refine-selection-missing")
+        .send({
+          documentId: "doc-123",
+          prompt: "Make it firmer",
+          selection: { start: 0, end: 8, text: "Not there" },
+        });
+
+      expect(response.status).toBe(409);
+      expect(prompts).toHaveLength(0);
+    });
+  });
+
   describe("GET /documents/:id/refinements", () => {
     it("should return 404 if document not found", async () => {
       mockQuery.mockResolvedValueOnce({ rows: [] } as any);
@@ -249,70 +413,4 @@ describe("Refine Routes", () => {
       expect(response.body.refinements).toEqual([]);
     });
   });
-
-  describe("POST /documents/:id/restore", () => {
-    it("should return 400 if refinementId is missing", async () => {
-      const response = await request(app)
-        .post("/documents/doc-123/restore")
-        .set("Idempotency-Key", "test-restore-missing-id")
-        .send({});
-
-      expect(response.status).toBe(400);
-      expect(response.body.error).toContain("Missing required field");
-    });
-
-    it("should return 404 if document not found", async () => {
-      mockQuery.mockResolvedValueOnce({ rows: [] } as any);
-
-      const response = await request(app)
-        .post("/documents/doc-123/restore")
-        .set("Idempotency-Key", "test-restore-404")
-        .send({ refinementId: "ref-123" });
-
-      expect(response.status).toBe(404);
-      expect(response.body.error).toBe("Document not found");
-    });
-
-    it("should return 404 if refinement not found", async () => {
-      mockQuery.mockResolvedValueOnce({
-        rows: [{ id: "doc-123", owner_id: "test-user-id" }],
-      } as any);
-      mockQuery.mockResolvedValueOnce({ rows: [] } as any); // Refinement not found
-
-      const response = await request(app)
-        .post("/documents/doc-123/restore")
-        .set("Idempotency-Key", "test-restore-404")
-        .send({ refinementId: "ref-123" });
-
-      expect(response.status).toBe(404);
-      expect(response.body.error).toContain("Refinement not found");
-    });
-
-    it("should successfully restore a refinement", async () => {
-      const restoredText = "Restored draft text";
-
-      mockQuery.mockResolvedValueOnce({
-        rows: [{ id: "doc-123", owner_id: "test-user-id" }],
-      } as any);
-      mockQuery.mockResolvedValueOnce({
-        rows: [{ id: "ref-123", result: restoredText }],
-      } as any);
-      mockQuery.mockResolvedValueOnce({ rows: [] } as any); // Update document
-
-      const response = await request(app)
-        .post("/documents/doc-123/restore")
-        .set("Idempotency-Key", "test-restore-404")
-        .send({ refinementId: "ref-123" });
-
-      expect(response.status).toBe(200);
-      expect(response.body.success).toBe(true);
-      expect(response.body.draftText).toBe(restoredText);
-
-      // Verify document was updated
-      expect(mockQuery).toHaveBeenCalledWith(
-        expect.stringContaining("UPDATE documents"),
-        expect.arrayContaining([restoredText, "doc-123"])
-      );
-    });
-  });
 });
@@ -0,0 +1,175 @@
+import request from "supertest";
+import express from "express";
+import specialsRouter from "../specials";
+import { authenticateToken } from "../../middleware/auth";
+import {
+  checkDocumentAccess,
+  getSpecialsItems,
+  query,
+  replaceParsedSpecials,
+} from "../../db/pg";
+import { LedgerItem } from "../../lib/specials";
+
+// Mock dependencies
+jest.mock("../../middleware/auth");
+jest.mock("../../db/pg");
+
+const mockAuthenticateToken = authenticateToken as jest.MockedFunction<
+  typeof authenticateToken
+>;
+const mockCheckDocumentAccess = checkDocumentAccess as jest.MockedFunction<
+  typeof checkDocumentAccess
+>;
+const mockQuery = query as jest.MockedFunction<typeof query>;
+const mockGetSpecialsItems = getSpecialsItems as jest.MockedFunction<
+  typeof getSpecialsItems
+>;
+const mockReplaceParsedSpecials = replaceParsedSpecials as jest.MockedFunction<
+  typeof replaceParsedSpecials
+>;
+
+const item = (id: string, documentId: string): LedgerItem => ({
+  id,
+  documentId,
+  origin: "parsed",
+  excluded: null,
+  provider: "City Clinic",
+  serviceDate: "2024-01-16",
+  code: "99283",
+  description: "ER visit",
+  billed: 450,
+  paid: 300,
+  adjusted: 50,
+  source: { start: 0, end: 40 },
+});
+
+describe("Medical Specials Routes", () => {
+  let app: express.Application;
+
+  beforeEach(() => {
+    app = express();
+    app.use(express.json());
+    app.use("/documents", specialsRouter);
+
+    jest.clearAllMocks();
+
+    mockAuthenticateToken.mockImplementation(async (req, res, next) => {
+      req.user = { userId: "test-user-id", email: "test@example.com" };
+      next();
+    });
+  });
+
+  describe("GET /documents/:id/specials", () => {
+    it("should return the matter's items with duplicates and totals", async () => {
+      mockCheckDocumentAccess.mockResolvedValue("viewer");
+      mockQuery.mockResolvedValueOnce({
+        rows: [{ id: "doc-1" }, { id: "doc-2" }],
+      } as any);
+      mockGetSpecialsItems.mockResolvedValue([
+        item("item-1", "doc-1"),
+        item("item-2", "doc-2"),
+      ]);
+
+      const response = await request(app).get("/documents/doc-1/specials");
+
+      expect(response.status).toBe(200);
+      expect(mockGetSpecialsItems).toHaveBeenCalledWith(["doc-1", "doc-2"]);
+      expect(response.body.items[1]).toMatchObject({
+        id: "item-2",
+        duplicateOf: "item-1",
+        counted: false,
+      });
+      expect(response.body.totals).toMatchObject({
+        billed: 450,
+        balance: 100,
+        itemCount: 1,
+        excludedCount: 1,
+      });
+    });
+  });
+
+  describe("POST /documents/:id/specials", () => {
+    it("should not let viewers add items", async () => {
+      mockCheckDocumentAccess.mockResolvedValue("viewer");
+
+      const response = await request(app)
+        .post("/documents/doc-1/specials")
+        .send({ provider: "Physio Plus", billed: 120 });
+
+      expect(response.status).toBe(403);
+      expect(mockQuery).not.toHaveBeenCalled();
+    });
+
+    it("should reject items without a billed amount", async () => {
+      const response = await request(app)
+        .post("/documents/doc-1/specials")
+        .send({ provider: "Physio Plus" });
+
+      expect(response.status).toBe(400);
+      expect(mockCheckDocumentAccess).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("POST /documents/:id/specials/reparse", () => {
+    it("should replace parsed items from each source's text", async () => {
+      mockCheckDocumentAccess.mockResolvedValue("editor");
+      mockQuery
+        .mockResolvedValueOnce({ rows: [{ id: "doc-1" }] } as any)
+        .mockResolvedValueOnce({
+          rows: [
+            {
+              id: "doc-1",
+              extracted_text: "01/16/2024 99283 ER visit $450.00",
+            },
+          ],
+        } as any);
+      mockGetSpecialsItems.mockResolvedValue([item("item-1", "doc-1")]);
+
+      const response = await request(app).post(
+        "/documents/doc-1/specials/reparse"
+      );
+
+      expect(response.status).toBe(200);
+      expect(mockReplaceParsedSpecials).toHaveBeenCalledWith("doc-1", [
+        expect.objectContaining({ code: "99283", billed: 450 }),
+      ]);
+      expect(response.body.totals.itemCount).toBe(1);
+    });
+  });
+
+  describe("PUT /documents/:id/specials/:itemId", () => {
+    it("should include a flagged duplicate when asked", async () => {
+      mockCheckDocumentAccess.mockResolvedValue("owner");
+      mockQuery
+        .mockResolvedValueOnce({ rows: [{ id: "doc-1" }] } as any)
+        .mockResolvedValueOnce({ rows: [], rowCount: 1 } as any);
+      mockGetSpecialsItems.mockResolvedValue([
+        item("item-1", "doc-1"),
+        { ...item("item-2", "doc-1"), excluded: false },
+      ]);
+
+      const response = await request(app)
+        .put("/documents/doc-1/specials/item-2")
+        .send({ excluded: false });
+
+      expect(response.status).toBe(200);
+      const updateParams = mockQuery.mock.calls[1][1];
+      expect(updateParams?.slice(-2)).toEqual([true, false]);
+      expect(response.body.totals.billed).toBe(900);
+    });
+
+    it("should return 404 for items outside the ledger", async () => {
+      mockCheckDocumentAccess.mockResolvedValue("owner");
+      mockQuery
+        .mockResolvedValueOnce({ rows: [{ id: "doc-1" }] } as any)
+        .mockResolvedValueOnce({ rows: [], rowCount: 0 } as any);
+
+      const response = await request(app)
+        .put("/documents/doc-1/specials/other-item")
+        .send({ excluded: true });
+
+      expect(response.status).toBe(404);
+      expect(mockGetSpecialsItems).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,211 @@
+import request from "supertest";
+import express from "express";
+import suggestionsRouter from "../suggestions";
+import { authenticateToken } from "../../middleware/auth";
+import {
+  checkDocumentAccess,
+  decideSuggestion,
+  DraftSuggestion,
+  getSuggestion,
+  getSuggestions,
+  query,
+} from "../../db/pg";
+import { broadcastToDocument } from "../../realtime/broadcast";
+
+// Mock dependencies
+jest.mock("../../middleware/auth");
+jest.mock("../../db/pg");
+jest.mock("../../realtime/broadcast");
+
+const mockAuthenticateToken = authenticateToken as jest.MockedFunction<
+  typeof authenticateToken
+>;
+const mockCheckDocumentAccess = checkDocumentAccess as jest.MockedFunction<
+  typeof checkDocumentAccess
+>;
+const mockQuery = query as jest.MockedFunction<typeof query>;
+const mockGetSuggestion = getSuggestion as jest.MockedFunction<
+  typeof getSuggestion
+>;
+const mockGetSuggestions = getSuggestions as jest.MockedFunction<
+  typeof getSuggestions
+>;
+const mockDecideSuggestion = decideSuggestion as jest.MockedFunction<
+  typeof decideSuggestion
+>;
+const mockBroadcastToDocument = broadcastToDocument as jest.MockedFunction<
+  typeof broadcastToDocument
+>;
+
+const DRAFT = "Dear Adjuster,\n\nWe expect payment.";
+
+const suggestion = (
+  overrides: Partial<DraftSuggestion> = {}
+): DraftSuggestion => ({
+  id: "suggestion-1",
+  documentId: "doc-1",
+  refinementId: "refinement-1",
+  prompt: "Make it firmer",
+  idx: 0,
+  start: DRAFT.indexOf("expect"),
+  end: DRAFT.indexOf("expect") + 6,
+  original: "expect",
+  replacement: "demand",
+  status: "pending",
+  createdBy: "test-user-id",
+  createdByEmail: "test@example.com",
+  decidedBy: null,
+  decidedByEmail: null,
+  decidedAt: null,
+  createdAt: "2024-01-01T00:00:00.000Z",
+  ...overrides,
+});
+
+describe("Suggestion Routes", () => {
+  let app: express.Application;
+
+  beforeEach(() => {
+    app = express();
+    app.use(express.json());
+    app.use("/documents", suggestionsRouter);
+
+    jest.clearAllMocks();
+
+    mockAuthenticateToken.mockImplementation(async (req, res, next) => {
+      req.user = { userId: "test-user-id", email: "test@example.com" };
+      next();
+    });
+    mockBroadcastToDocument.mockResolvedValue(undefined);
+  });
+
+  describe("GET /documents/:id/suggestions", () => {
+    it("should show viewers the pending suggestions", async () => {
+      mockCheckDocumentAccess.mockResolvedValue("viewer");
+      mockGetSuggestions.mockResolvedValue([suggestion()]);
+
+      const response = await request(app).get("/documents/doc-1/suggestions");
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({
+        suggestions: [suggestion()],
+        canDecide: false,
+      });
+      expect(mockGetSuggestions).toHaveBeenCalledWith("doc-1", "pending");
+    });
+
+    it("should return 404 without access to the document", async () => {
+      mockCheckDocumentAccess.mockResolvedValue(null);
+
+      const response = await request(app).get(
+        "/documents/doc-1/suggestions?status=all"
+      );
+
+      expect(response.status).toBe(404);
+      expect(mockGetSuggestions).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("POST /documents/:id/suggestions/:suggestionId/accept", () => {
+    it("should apply the change where its text now is and record the decision", async () => {
+      const draft = "Dear Adjuster,\n\nAs agreed, we expect payment.";
+      const start = draft.indexOf("expect");
+      mockCheckDocumentAccess.mockResolvedValue("editor");
+      mockGetSuggestion.mockResolvedValue(suggestion());
+      mockQuery
+        .mockResolvedValueOnce({ rows: [{ draft_text: draft }] } as any)
+        .mockResolvedValueOnce({ rows: [], rowCount: 1 } as any);
+      mockDecideSuggestion.mockResolvedValue(
+        suggestion({ status: "accepted", decidedBy: "test-user-id" })
+      );
+
+      const response = await request(app).post(
+        "/documents/doc-1/suggestions/suggestion-1/accept"
+      );
+
+      expect(response.status).toBe(200);
+      expect(response.body.suggestion.status).toBe("accepted");
+      expect(response.body.edit).toEqual({
+        start,
+        end: start + 6,
+        original: "expect",
+        replacement: "demand",
+      });
+      expect(mockDecideSuggestion).toHaveBeenCalledWith(
+        "doc-1",
+        "suggestion-1",
+        "test-user-id",
+        "accepted"
+      );
+      expect(mockQuery).toHaveBeenLastCalledWith(
+        expect.stringContaining("UPDATE documents"),
+        ["Dear Adjuster,\n\nAs agreed, we demand payment.", "doc-1"]
+      );
+      expect(mockBroadcastToDocument).toHaveBeenCalledWith(
+        "doc-1",
+        expect.objectContaining({ type: "suggestions_updated" })
+      );
+    });
+
+    it("should answer 409 when the changed text is gone from the draft", async () => {
+      mockCheckDocumentAccess.mockResolvedValue("owner");
+      mockGetSuggestion.mockResolvedValue(suggestion());
+      mockQuery.mockResolvedValueOnce({
+        rows: [{ draft_text: "Dear Adjuster,\n\nPlease pay." }],
+      } as any);
+
+      const response = await request(app).post(
+        "/documents/doc-1/suggestions/suggestion-1/accept"
+      );
+
+      expect(response.status).toBe(409);
+      expect(response.body.error).toBe("Suggestion out of date");
+      expect(mockDecideSuggestion).not.toHaveBeenCalled();
+    });
+
+    it("should not let viewers accept suggestions", async () => {
+      mockCheckDocumentAccess.mockResolvedValue("viewer");
+
+      const response = await request(app).post(
+        "/documents/doc-1/suggestions/suggestion-1/accept"
+      );
+
+      expect(response.status).toBe(403);
+      expect(mockGetSuggestion).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("POST /documents/:id/suggestions/:suggestionId/reject", () => {
+    it("should record the rejection without touching the draft", async () => {
+      mockCheckDocumentAccess.mockResolvedValue("owner");
+      mockGetSuggestion.mockResolvedValue(suggestion());
+      mockDecideSuggestion.mockResolvedValue(
+        suggestion({ status: "rejected", decidedBy: "test-user-id" })
+      );
+
+      const response = await request(app).post(
+        "/documents/doc-1/suggestions/suggestion-1/reject"
+      );
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({
+        suggestion: expect.objectContaining({ status: "rejected" }),
+      });
+      expect(mockQuery).not.toHaveBeenCalled();
+    });
+
+    it("should answer 409 when someone decided it first", async () => {
+      mockCheckDocumentAccess.mockResolvedValue("owner");
+      mockGetSuggestion.mockResolvedValue(suggestion());
+      mockDecideSuggestion.mockRejectedValue(new Error("SUGGESTION_ACCEPTED"));
+
+      const response = await request(app).post(
+        "/documents/doc-1/suggestions/suggestion-1/reject"
+      );
+
+      expect(response.status).toBe(409);
+      expect(response.body.message).toBe(
+        "This suggestion was already accepted."
+      );
+    });
+  });
+});
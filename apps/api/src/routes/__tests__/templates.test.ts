@@ -0,0 +1,120 @@
+import request from "supertest";
+import express from "express";
+import templatesRouter from "../templates";
+import { authenticateToken } from "../../middleware/auth";
+import { query } from "../../db/pg";
+
+// Mock dependencies
+jest.mock("../../middleware/auth");
+jest.mock("../../db/pg");
+
+const mockAuthenticateToken = authenticateToken as jest.MockedFunction<
+  typeof authenticateToken
+>;
+const mockQuery = query as jest.MockedFunction<typeof query>;
+
+const templateRow = (fields: Record<string, unknown>) => ({
+  id: "template-1",
+  title: "Demand",
+  content: "Dear {{insurer.name}},",
+  variables: [],
+  is_global: false,
+  owner_id: "test-user-id",
+  created_at: "2024-03-01T00:00:00Z",
+  updated_at: "2024-03-01T00:00:00Z",
+  ...fields,
+});
+
+describe("Template Routes", () => {
+  let app: express.Application;
+
+  beforeEach(() => {
+    app = express();
+    app.use(express.json());
+    app.use("/templates", templatesRouter);
+
+    jest.clearAllMocks();
+    mockQuery.mockReset();
+
+    mockAuthenticateToken.mockImplementation(async (req, res, next) => {
+      req.user = { userId: "test-user-id", email: "test@example.com" };
+      next();
+    });
+  });
+
+  describe("GET /templates/merge-fields", () => {
+    it("should list the variables filled from the case file", async () => {
+      const response = await request(app).get("/templates/merge-fields");
+
+      expect(response.status).toBe(200);
+      expect(response.body.builtins).toContainEqual({
+        name: "incident.date",
+        type: "date",
+        label: "Incident Date",
+      });
+    });
+  });
+
+  describe("POST /templates", () => {
+    it("should store the variable schema with the template", async () => {
+      const variables = [
+        { name: "insurer.name", type: "text", label: "Insurer", required: true },
+      ];
+      mockQuery.mockResolvedValueOnce({
+        rows: [templateRow({ variables })],
+      } as any);
+
+      const response = await request(app)
+        .post("/templates")
+        .send({
+          title: "Demand",
+          content: "Dear {{insurer.name}},",
+          variables: [{ name: "insurer.name", type: "text", required: true }],
+        });
+
+      expect(response.status).toBe(201);
+      expect(response.body.template.variables).toEqual(variables);
+      expect(mockQuery.mock.calls[0][1]).toEqual([
+        "Demand",
+        "Dear {{insurer.name}},",
+        JSON.stringify(variables),
+        "test-user-id",
+      ]);
+    });
+
+    it("should reject merge fields that are not declared", async () => {
+      const response = await request(app)
+        .post("/templates")
+        .send({
+          title: "Demand",
+          content: "Dear {{insurer.name}}, {{#each injuries}}{{this}}",
+          variables: [{ name: "injuries", type: "list" }],
+        });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe("Invalid merge fields");
+      expect(response.body.message).toBe(
+        '"{{#each injuries}}" is never closed; "insurer.name" is not a declared variable'
+      );
+      expect(mockQuery).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("PUT /templates/:id", () => {
+    it("should check new content against the stored schema", async () => {
+      mockQuery.mockResolvedValueOnce({
+        rows: [{ owner_id: "test-user-id", is_global: false, variables: [] }],
+      } as any);
+
+      const response = await request(app)
+        .put("/templates/template-1")
+        .send({ title: "Demand", content: "Dear {{insurer.name}}," });
+
+      expect(response.status).toBe(400);
+      expect(response.body.message).toBe(
+        '"insurer.name" is not a declared variable'
+      );
+      expect(mockQuery).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,96 @@
+import request from "supertest";
+import express from "express";
+import usageRouter from "../usage";
+import { authenticateToken } from "../../middleware/auth";
+import { getAiRequestCount, getGenerationUsage } from "../../db/pg";
+
+// Mock dependencies
+jest.mock("../../middleware/auth");
+jest.mock("../../db/pg");
+
+const mockAuthenticateToken = authenticateToken as jest.MockedFunction<
+  typeof authenticateToken
+>;
+const mockGetGenerationUsage = getGenerationUsage as jest.MockedFunction<
+  typeof getGenerationUsage
+>;
+
+const mockGetAiRequestCount = getAiRequestCount as jest.MockedFunction<
+  typeof getAiRequestCount
+>;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe("Usage Routes", () => {
+  let app: express.Application;
+
+  beforeEach(() => {
+    app = express();
+    app.use(express.json());
+    app.use("/usage", usageRouter);
+
+    jest.clearAllMocks();
+
+    mockAuthenticateToken.mockImplementation(async (req, res, next) => {
+      req.user = { userId: "test-user-id", email: "test@example.com" };
+      next();
+    });
+  });
+
+  describe("GET /usage", () => {
+    it("should summarize the last 30 days by default", async () => {
+      const usage = {
+        since: "2024-03-01T00:00:00.000Z",
+        runCount: 2,
+        succeeded: 1,
+        failed: 1,
+        cancelled: 0,
+        modelCalls: 2,
+        inputTokens: 5400,
+        outputTokens: 820,
+        averageLatencyMs: 14200,
+        byModel: [],
+        byDay: [],
+      };
+      mockGetGenerationUsage.mockResolvedValue(usage);
+
+      const response = await request(app).get("/usage");
+
+      expect(response.status).toBe(200);
+      expect(response.body.usage).toEqual(usage);
+      const [userId, since] = mockGetGenerationUsage.mock.calls[0];
+      expect(userId).toBe("test-user-id");
+      expect(Date.now() - since.getTime()).toBeGreaterThanOrEqual(30 * DAY_MS);
+      expect(Date.now() - since.getTime()).toBeLessThan(31 * DAY_MS);
+    });
+
+    it("should cap the period at a year", async () => {
+      await request(app).get("/usage?days=5000");
+
+      const [, since] = mockGetGenerationUsage.mock.calls[0];
+      expect(Date.now() - since.getTime()).toBeLessThan(366 * DAY_MS);
+    });
+
+    it("should report the quotas that apply with their current use", async () => {
+      mockGetAiRequestCount.mockResolvedValue(3);
+
+      const response = await request(app).get("/usage");
+
+      expect(response.body.quotas).toEqual([
+        expect.objectContaining({
+          scope: "user",
+          period: "minute",
+          unit: "requests",
+          limit: 20,
+          used: 3,
+          remaining: 17,
+        }),
+      ]);
+      expect(mockGetAiRequestCount).toHaveBeenCalledWith(
+        "user",
+        "test-user-id",
+        expect.any(Date)
+      );
+    });
+  });
+});
@@ -0,0 +1,382 @@
+import request from "supertest";
+import express from "express";
+import versionsRouter from "../versions";
+import { authenticateToken } from "../../middleware/auth";
+import {
+  checkDocumentAccess,
+  createCheckpoint,
+  getVersionText,
+  getVersionTimeline,
+  query,
+  VersionText,
+} from "../../db/pg";
+import { broadcastToDocument } from "../../realtime/broadcast";
+import { getDocumentState } from "../../realtime/persist";
+
+// Mock dependencies
+jest.mock("../../middleware/auth");
+jest.mock("../../db/pg");
+jest.mock("../../realtime/broadcast");
+jest.mock("../../realtime/persist");
+
+const mockAuthenticateToken = authenticateToken as jest.MockedFunction<
+  typeof authenticateToken
+>;
+const mockCheckDocumentAccess = checkDocumentAccess as jest.MockedFunction<
+  typeof checkDocumentAccess
+>;
+const mockGetVersionText = getVersionText as jest.MockedFunction<
+  typeof getVersionText
+>;
+const mockGetVersionTimeline = getVersionTimeline as jest.MockedFunction<
+  typeof getVersionTimeline
+>;
+const mockCreateCheckpoint = createCheckpoint as jest.MockedFunction<
+  typeof createCheckpoint
+>;
+const mockGetDocumentState = getDocumentState as jest.MockedFunction<
+  typeof getDocumentState
+>;
+const mockQuery = query as jest.MockedFunction<typeof query>;
+const mockBroadcastToDocument = broadcastToDocument as jest.MockedFunction<
+  typeof broadcastToDocument
+>;
+
+const REFINEMENT_ID = "3f2b8c1e-4d5a-4b6c-9e7f-0a1b2c3d4e5f";
+const OLD_DRAFT = "Dear Adjuster,\n\nDamages total $12,000.\n\nWe expect payment.";
+const CURRENT_DRAFT =
+  "Dear Adjuster,\n\nDamages total $14,500.\n\nWe demand payment.";
+
+const version = (
+  kind: VersionText["kind"],
+  text: string | null
+): VersionText => ({
+  kind,
+  id: kind === "current" ? null : REFINEMENT_ID,
+  label: kind === "current" ? "Current draft" : "Refinement: Make it firmer",
+  text,
+  createdAt: "2024-01-01T00:00:00.000Z",
+});
+
+describe("Version Routes", () => {
+  let app: express.Application;
+
+  beforeEach(() => {
+    app = express();
+    app.use(express.json());
+    app.use("/documents", versionsRouter);
+
+    jest.clearAllMocks();
+
+    mockAuthenticateToken.mockImplementation(async (req, res, next) => {
+      req.user = { userId: "test-user-id", email: "test@example.com" };
+      next();
+    });
+    mockBroadcastToDocument.mockResolvedValue(undefined);
+    mockGetVersionText.mockImplementation(async (_documentId, kind) =>
+      version(kind, kind === "current" ? CURRENT_DRAFT : OLD_DRAFT)
+    );
+  });
+
+  describe("GET /documents/:id/diff", () => {
+    it("should compare a version with the current draft word by word", async () => {
+      mockCheckDocumentAccess.mockResolvedValue("viewer");
+
+      const response = await request(app).get(
+        `/documents/doc-1/diff?from=refinement:${REFINEMENT_ID}`
+      );
+
+      expect(response.status).toBe(200);
+      expect(response.body.from).toEqual({
+        ref: `refinement:${REFINEMENT_ID}`,
+        kind: "refinement",
+        id: REFINEMENT_ID,
+        label: "Refinement: Make it firmer",
+        createdAt: "2024-01-01T00:00:00.000Z",
+      });
+      expect(response.body.to.ref).toBe("current");
+      expect(
+        response.body.hunks.map((hunk: any) => [hunk.deleted, hunk.inserted])
+      ).toEqual([
+        ["$12,000.", "$14,500."],
+        ["expect", "demand"],
+      ]);
+      expect(mockGetVersionText).toHaveBeenCalledWith(
+        "doc-1",
+        "refinement",
+        REFINEMENT_ID
+      );
+    });
+
+    it("should reject unknown version references", async () => {
+      const response = await request(app).get(
+        "/documents/doc-1/diff?from=draft:1"
+      );
+
+      expect(response.status).toBe(400);
+      expect(mockCheckDocumentAccess).not.toHaveBeenCalled();
+    });
+
+    it("should answer 422 for a version whose text was not kept", async () => {
+      mockCheckDocumentAccess.mockResolvedValue("owner");
+      mockGetVersionText.mockResolvedValueOnce(version("snapshot", null));
+
+      const response = await request(app).get(
+        `/documents/doc-1/diff?from=snapshot:${REFINEMENT_ID}`
+      );
+
+      expect(response.status).toBe(422);
+    });
+  });
+
+  describe("POST /documents/:id/diff/restore", () => {
+    it("should put back only the chosen changes", async () => {
+      mockCheckDocumentAccess.mockResolvedValue("editor");
+      mockQuery.mockResolvedValueOnce({ rows: [], rowCount: 1 } as any);
+
+      const response = await request(app)
+        .post("/documents/doc-1/diff/restore")
+        .set("Idempotency-Key", "test-restore-hunks")
+        .send({ from: `refinement:${REFINEMENT_ID}`, hunks: [1] });
+
+      const restored =
+        "Dear Adjuster,\n\nDamages total $14,500.\n\nWe expect payment.";
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({ draftText: restored, restored: 1 });
+      expect(mockQuery).toHaveBeenCalledWith(
+        expect.stringContaining("UPDATE documents"),
+        [restored, "doc-1"]
+      );
+      expect(mockBroadcastToDocument).toHaveBeenCalledWith("doc-1", {
+        type: "restore_complete",
+        documentId: "doc-1",
+        draftText: restored,
+      });
+    });
+
+    it("should answer 409 for changes no longer in the diff", async () => {
+      mockCheckDocumentAccess.mockResolvedValue("owner");
+
+      const response = await request(app)
+        .post("/documents/doc-1/diff/restore")
+        .set("Idempotency-Key", "test-restore-hunks-stale")
+        .send({ from: `refinement:${REFINEMENT_ID}`, hunks: [0, 5] });
+
+      expect(response.status).toBe(409);
+      expect(mockQuery).not.toHaveBeenCalled();
+    });
+
+    it("should not let viewers restore changes", async () => {
+      mockCheckDocumentAccess.mockResolvedValue("viewer");
+
+      const response = await request(app)
+        .post("/documents/doc-1/diff/restore")
+        .set("Idempotency-Key", "test-restore-hunks-viewer")
+        .send({ from: `refinement:${REFINEMENT_ID}`, hunks: [0] });
+
+      expect(response.status).toBe(403);
+    });
+  });
+
+  describe("GET /documents/:id/versions", () => {
+    it("should list the timeline with a reference for each version", async () => {
+      mockCheckDocumentAccess.mockResolvedValue("viewer");
+      mockGetVersionTimeline.mockResolvedValue([
+        {
+          kind: "current",
+          id: null,
+          type: "current",
+          label: "Current draft",
+          createdAt: "2024-01-02T00:00:00.000Z",
+          contributors: [{ userId: "test-user-id", email: "test@example.com" }],
+          restorable: false,
+        },
+        {
+          kind: "snapshot",
+          id: REFINEMENT_ID,
+          type: "checkpoint",
+          label: "Sent to client v1",
+          createdAt: "2024-01-01T00:00:00.000Z",
+          contributors: [{ userId: "test-user-id", email: "test@example.com" }],
+          restorable: true,
+        },
+      ]);
+
+      const response = await request(app).get("/documents/doc-1/versions");
+
+      expect(response.status).toBe(200);
+      expect(response.body.canRestore).toBe(false);
+      expect(
+        response.body.versions.map((entry: any) => [entry.ref, entry.type])
+      ).toEqual([
+        ["current", "current"],
+        [`snapshot:${REFINEMENT_ID}`, "checkpoint"],
+      ]);
+    });
+  });
+
+  describe("POST /documents/:id/versions/restore", () => {
+    it("should make the version the current draft", async () => {
+      mockCheckDocumentAccess.mockResolvedValue("owner");
+      mockQuery.mockResolvedValueOnce({ rows: [], rowCount: 1 } as any);
+
+      const response = await request(app)
+        .post("/documents/doc-1/versions/restore")
+        .set("Idempotency-Key", "test-restore-version")
+        .send({ ref: `refinement:${REFINEMENT_ID}` });
+
+      expect(response.status).toBe(200);
+      expect(response.body.draftText).toBe(OLD_DRAFT);
+      expect(response.body.restored.ref).toBe(`refinement:${REFINEMENT_ID}`);
+      expect(mockQuery).toHaveBeenCalledWith(
+        expect.stringContaining("UPDATE documents"),
+        [OLD_DRAFT, "doc-1"]
+      );
+      expect(mockBroadcastToDocument).toHaveBeenCalledWith("doc-1", {
+        type: "restore_complete",
+        documentId: "doc-1",
+        draftText: OLD_DRAFT,
+      });
+    });
+
+    it("should not restore the current draft onto itself", async () => {
+      const response = await request(app)
+        .post("/documents/doc-1/versions/restore")
+        .set("Idempotency-Key", "test-restore-version-current")
+        .send({ ref: "current" });
+
+      expect(response.status).toBe(400);
+    });
+
+    it("should keep later versions on the timeline", async () => {
+      mockCheckDocumentAccess.mockResolvedValue("editor");
+      mockQuery.mockResolvedValue({ rows: [], rowCount: 1 } as any);
+
+      const response = await request(app)
+        .post("/documents/doc-1/versions/restore")
+        .set("Idempotency-Key", "test-restore-version-keeps")
+        .send({ ref: `refinement:${REFINEMENT_ID}` });
+
+      expect(response.status).toBe(200);
+      // Only the draft is written; no version is deleted
+      expect(mockQuery).toHaveBeenCalledTimes(1);
+      expect(String(mockQuery.mock.calls[0][0])).toContain("UPDATE documents");
+    });
+  });
+
+  describe("POST /documents/:id/restore", () => {
+    it("should restore a refinement as a version and keep later ones", async () => {
+      mockCheckDocumentAccess.mockResolvedValue("owner");
+      mockQuery.mockResolvedValue({ rows: [], rowCount: 1 } as any);
+
+      const response = await request(app)
+        .post("/documents/doc-1/restore")
+        .set("Idempotency-Key", "test-restore-refinement")
+        .send({ refinementId: REFINEMENT_ID });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({ success: true, draftText: OLD_DRAFT });
+      expect(mockGetVersionText).toHaveBeenCalledWith(
+        "doc-1",
+        "refinement",
+        REFINEMENT_ID
+      );
+      expect(mockQuery).toHaveBeenCalledTimes(1);
+      expect(mockQuery).toHaveBeenCalledWith(
+        expect.stringContaining("UPDATE documents"),
+        [OLD_DRAFT, "doc-1"]
+      );
+      expect(mockBroadcastToDocument).toHaveBeenCalledWith("doc-1", {
+        type: "restore_complete",
+        documentId: "doc-1",
+        draftText: OLD_DRAFT,
+      });
+    });
+
+    it("should return 400 if refinementId is missing or malformed", async () => {
+      const missing = await request(app)
+        .post("/documents/doc-1/restore")
+        .set("Idempotency-Key", "test-restore-missing-id")
+        .send({});
+      const malformed = await request(app)
+        .post("/documents/doc-1/restore")
+        .set("Idempotency-Key", "test-restore-bad-id")
+        .send({ refinementId: "ref-123" });
+
+      expect(missing.status).toBe(400);
+      expect(missing.body.error).toContain("Missing required field");
+      expect(malformed.status).toBe(400);
+      expect(mockGetVersionText).not.toHaveBeenCalled();
+    });
+
+    it("should return 404 if the refinement is not a version", async () => {
+      mockCheckDocumentAccess.mockResolvedValue("owner");
+      mockGetVersionText.mockResolvedValueOnce(null);
+
+      const response = await request(app)
+        .post("/documents/doc-1/restore")
+        .set("Idempotency-Key", "test-restore-unknown")
+        .send({ refinementId: REFINEMENT_ID });
+
+      expect(response.status).toBe(404);
+      expect(mockQuery).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("POST /documents/:id/checkpoints", () => {
+    it("should save the server's Y.js state under a name", async () => {
+      mockCheckDocumentAccess.mockResolvedValue("editor");
+      mockGetDocumentState.mockResolvedValue(Buffer.from([1, 2, 3]));
+      mockCreateCheckpoint.mockResolvedValue({
+        id: REFINEMENT_ID,
+        version: 7,
+        name: "Sent to client v1",
+        createdBy: "test-user-id",
+        createdAt: "2024-01-01T00:00:00.000Z",
+      });
+
+      const response = await request(app)
+        .post("/documents/doc-1/checkpoints")
+        .set("Idempotency-Key", "test-checkpoint")
+        .send({
+          name: "  Sent to client v1 ",
+          // The client's copy is not trusted
+          state: Buffer.from([9]).toString("base64"),
+          draftText: "Something else",
+        });
+
+      expect(response.status).toBe(201);
+      expect(response.body.checkpoint.ref).toBe(`snapshot:${REFINEMENT_ID}`);
+      expect(mockCreateCheckpoint).toHaveBeenCalledWith(
+        "doc-1",
+        "test-user-id",
+        "Sent to client v1",
+        Buffer.from([1, 2, 3])
+      );
+      expect(mockGetDocumentState).toHaveBeenCalledWith("doc-1");
+    });
+
+    it("should answer 409 for a name already used", async () => {
+      mockCheckDocumentAccess.mockResolvedValue("owner");
+      mockCreateCheckpoint.mockRejectedValue(new Error("CHECKPOINT_NAME_TAKEN"));
+
+      const response = await request(app)
+        .post("/documents/doc-1/checkpoints")
+        .set("Idempotency-Key", "test-checkpoint-taken")
+        .send({ name: "Sent to client v1" });
+
+      expect(response.status).toBe(409);
+      expect(response.body.error).toBe("Checkpoint name taken");
+    });
+
+    it("should require a name", async () => {
+      const response = await request(app)
+        .post("/documents/doc-1/checkpoints")
+        .set("Idempotency-Key", "test-checkpoint-unnamed")
+        .send({ name: " " });
+
+      expect(response.status).toBe(400);
+      expect(mockCreateCheckpoint).not.toHaveBeenCalled();
+    });
+  });
+});
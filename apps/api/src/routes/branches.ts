@@ -0,0 +1,327 @@
+import express, { Request, Response } from "express";
+import { authenticateToken } from "../middleware/auth";
+import { idempotencyMiddleware } from "../middleware/idempotency";
+import {
+  query,
+  checkDocumentAccess,
+  createBranch,
+  getBranch,
+  getBranches,
+  getBranchState,
+  getVersionText,
+  markBranchMerged,
+  updateBranchText,
+} from "../db/pg";
+import { MergeSide, mergeDrafts } from "../lib/draft_merge";
+import { setDraftText } from "../lib/draft_state";
+import { formatVersionRef, parseVersionRef } from "../lib/versions";
+import { broadcastToDocument } from "../realtime/broadcast";
+
+const router = express.Router();
+router.use(express.json({ limit: '10mb' }));
+
+const MERGE_SIDES: MergeSide[] = ["target", "branch"];
+
+/**
+ * Check the user can change a document's drafts, sending the error response
+ * when they cannot
+ * @returns false after an error response
+ */
+async function requireEditAccess(
+  res: Response,
+  documentId: string,
+  userId: string
+): Promise<boolean> {
+  // Viewers cannot change drafts
+  const access = await checkDocumentAccess(documentId, userId);
+  if (!access || access === "viewer") {
+    res.status(access ? 403 : 404).json({
+      error:
+        access === "viewer"
+          ? "Viewers cannot change draft branches"
+          : "Document not found",
+    });
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Save a branch draft, changing its Y.js state word by word to match
+ * @returns null if the branch does not exist
+ */
+async function saveBranchDraft(
+  documentId: string,
+  branchId: string,
+  userId: string,
+  draftText: string
+) {
+  const branch = await getBranchState(documentId, branchId);
+  if (!branch) {
+    return null;
+  }
+  return updateBranchText(
+    documentId,
+    branchId,
+    userId,
+    draftText,
+    setDraftText(branch.state, draftText)
+  );
+}
+
+/**
+ * GET /documents/:id/branches
+ * A document's draft branches, most recently edited first
+ * Response: { branches: [{ id, documentId, name, checkpointId,
+ *   checkpointName, draftText, createdBy, createdByEmail, updatedBy,
+ *   updatedByEmail, mergedAt, createdAt, updatedAt }], canEdit }
+ * Requires authentication via JWT cookie
+ */
+router.get(
+  "/:id/branches",
+  authenticateToken,
+  async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        return res.status(401).json({ error: "User not authenticated" });
+      }
+
+      const access = await checkDocumentAccess(id, userId);
+      if (!access) {
+        return res.status(404).json({ error: "Document not found" });
+      }
+
+      const branches = await getBranches(id);
+      res.json({ branches, canEdit: access !== "viewer" });
+    } catch (error: any) {
+      console.error("Failed to list branches:", error);
+      res.status(500).json({
+        error: "Failed to list branches",
+        message: error.message,
+      });
+    }
+  }
+);
+
+/**
+ * POST /documents/:id/branches
+ * Fork a working draft from a checkpoint
+ * Body: { checkpointId, name }
+ * Response: { branch }
+ * Requires authentication via JWT cookie
+ */
+router.post(
+  "/:id/branches",
+  authenticateToken,
+  idempotencyMiddleware,
+  async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+      const userId = req.user?.userId;
+      const { checkpointId, name } = req.body ?? {};
+
+      if (!userId) {
+        return res.status(401).json({ error: "User not authenticated" });
+      }
+
+      const trimmedName = typeof name === "string" ? name.trim() : "";
+      if (
+        typeof checkpointId !== "string" ||
+        !checkpointId ||
+        !trimmedName ||
+        trimmedName.length > 200
+      ) {
+        return res.status(400).json({
+          error:
+            "checkpointId and a name of at most 200 characters are required",
+        });
+      }
+
+      if (!(await requireEditAccess(res, id, userId))) return;
+
+      const branch = await createBranch(id, userId, trimmedName, checkpointId);
+      res.status(201).json({ branch });
+    } catch (error: any) {
+      if (error.message === "CHECKPOINT_NOT_FOUND") {
+        return res.status(404).json({ error: "Checkpoint not found" });
+      }
+      if (error.message === "BRANCH_NAME_TAKEN") {
+        return res.status(409).json({
+          error: "Branch name taken",
+          message: "This document already has a branch by that name.",
+        });
+      }
+      console.error("Failed to create branch:", error);
+      res.status(500).json({
+        error: "Failed to create branch",
+        message: error.message,
+      });
+    }
+  }
+);
+
+/**
+ * PUT /documents/:id/branches/:branchId
+ * Save a branch draft; its Y.js state is changed to match
+ * Body: { draftText }
+ * Response: { branch }
+ * Requires authentication via JWT cookie
+ */
+router.put(
+  "/:id/branches/:branchId",
+  authenticateToken,
+  async (req: Request, res: Response) => {
+    try {
+      const { id, branchId } = req.params;
+      const userId = req.user?.userId;
+      const { draftText } = req.body ?? {};
+
+      if (!userId) {
+        return res.status(401).json({ error: "User not authenticated" });
+      }
+
+      if (typeof draftText !== "string") {
+        return res.status(400).json({ error: "draftText is required" });
+      }
+
+      if (!(await requireEditAccess(res, id, userId))) return;
+
+      const branch = await saveBranchDraft(id, branchId, userId, draftText);
+      if (!branch) {
+        return res.status(404).json({ error: "Branch not found" });
+      }
+      res.json({ branch });
+    } catch (error: any) {
+      console.error("Failed to save branch:", error);
+      res.status(500).json({
+        error: "Failed to save branch",
+        message: error.message,
+      });
+    }
+  }
+);
+
+/**
+ * POST /documents/:id/branches/:branchId/merge
+ * Merge a branch into the main draft or another branch. Both are compared
+ * with the checkpoint the branch was forked from; changes to different
+ * words are all kept.
+ * Body: { into, prefer } - into is "current" (default) or "branch:<id>";
+ *   prefer ("target" or "branch") decides where both changed the same words
+ * Response: { draftText, into, applied, conflicts: [{ start, end, base,
+ *   target, branch }] }
+ * Without prefer, conflicts answer 409 with the conflicts and nothing is
+ * merged; 422 when the checkpoint's text was not kept
+ * Requires authentication via JWT cookie
+ */
+router.post(
+  "/:id/branches/:branchId/merge",
+  authenticateToken,
+  idempotencyMiddleware,
+  async (req: Request, res: Response) => {
+    try {
+      const { id, branchId } = req.params;
+      const userId = req.user?.userId;
+      const { prefer } = req.body ?? {};
+
+      if (!userId) {
+        return res.status(401).json({ error: "User not authenticated" });
+      }
+
+      const into = parseVersionRef(req.body?.into ?? "current");
+      if (
+        !into ||
+        (into.kind !== "current" && into.kind !== "branch") ||
+        into.id === branchId
+      ) {
+        return res.status(400).json({
+          error: 'into must be "current" or "branch:<id>" of another branch',
+        });
+      }
+      if (prefer !== undefined && !MERGE_SIDES.includes(prefer)) {
+        return res.status(400).json({
+          error: 'prefer must be "target" or "branch"',
+        });
+      }
+
+      if (!(await requireEditAccess(res, id, userId))) return;
+
+      const branch = await getBranch(id, branchId);
+      if (!branch) {
+        return res.status(404).json({ error: "Branch not found" });
+      }
+      // Without the checkpoint text every word would look changed on both sides
+      const base = await getVersionText(id, "snapshot", branch.checkpointId);
+      if (base?.text == null) {
+        return res.status(422).json({
+          error: "Version has no text",
+          message: `The text of checkpoint "${branch.checkpointName}" was not kept, so the branch cannot be merged.`,
+        });
+      }
+      const target =
+        into.kind === "current"
+          ? await getVersionText(id, "current", null)
+          : await getVersionText(id, "branch", into.id);
+      if (!target) {
+        return res.status(404).json({
+          error:
+            into.kind === "current" ? "Document not found" : "Branch not found",
+        });
+      }
+
+      const result = mergeDrafts(
+        base.text,
+        target.text ?? "",
+        branch.draftText,
+        prefer ?? "target"
+      );
+      if (result.conflicts.length > 0 && prefer === undefined) {
+        return res.status(409).json({
+          error: "Merge conflicts",
+          message:
+            "Both drafts changed the same words. Choose which side to keep.",
+          conflicts: result.conflicts,
+        });
+      }
+
+      if (into.kind === "current") {
+        await query(
+          `UPDATE documents
+           SET draft_text = $1, updated_at = NOW()
+           WHERE id = $2`,
+          [result.text, id]
+        );
+
+        // Open editors replace their shared text with the merged draft
+        await broadcastToDocument(id, {
+          type: "restore_complete",
+          documentId: id,
+          draftText: result.text,
+        }).catch((error) => {
+          console.warn("Failed to broadcast restore_complete:", error);
+        });
+      } else {
+        await saveBranchDraft(id, into.id!, userId, result.text);
+      }
+      await markBranchMerged(id, branchId);
+
+      res.json({
+        draftText: result.text,
+        into: formatVersionRef(into),
+        applied: result.applied,
+        conflicts: result.conflicts,
+      });
+    } catch (error: any) {
+      console.error("Failed to merge branch:", error);
+      res.status(500).json({
+        error: "Failed to merge branch",
+        message: error.message,
+      });
+    }
+  }
+);
+
+export default router;
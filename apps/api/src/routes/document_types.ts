@@ -0,0 +1,26 @@
+import express, { Request, Response } from "express";
+import { authenticateToken } from "../middleware/auth";
+import { describeFact, listDocumentTypes } from "../lib/document_types";
+
+const router = express.Router();
+
+/**
+ * GET /document-types
+ * List the letter types drafts can be generated as
+ * Requires authentication via JWT cookie
+ */
+router.get("/", authenticateToken, (_req: Request, res: Response) => {
+  res.json({
+    documentTypes: listDocumentTypes().map((type) => ({
+      id: type.id,
+      label: type.label,
+      description: type.description,
+      requiredFacts: type.requiredFacts.map((fact) => ({
+        fact,
+        label: describeFact(fact),
+      })),
+    })),
+  });
+});
+
+export default router;
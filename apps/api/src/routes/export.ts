@@ -1,6 +1,6 @@
 import express, { Request, Response } from "express";
 import { authenticateToken } from "../middleware/auth";
-import { query } from "../db/pg";
+import { query, recordAiUsage } from "../db/pg";
 import {
   S3Client,
   PutObjectCommand,
@@ -10,11 +10,15 @@ import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
 import { Document, Paragraph, TextRun, Packer } from "docx";
 import { idempotencyMiddleware } from "../middleware/idempotency";
 import { retry } from "../lib/retry";
+import { invokeAiModel } from "../lib/ai_client";
+import { countTokens } from "../lib/tokenizer";
+import { loadAiQuota } from "../middleware/quotas";
 import {
-  LambdaClient,
-  InvokeCommand,
-  InvokeCommandInput,
-} from "@aws-sdk/client-lambda";
+  DEFAULT_REDACTION_POLICY,
+  PiiSpan,
+  parseRedactionPolicy,
+  redactForExport,
+} from "../lib/pii";
 
 const router = express.Router();
 router.use(express.json({ limit: '10mb' }));
@@ -42,7 +46,8 @@ router.post(
 
       // Verify document exists and user owns it
       const docResult = await query(
-        `SELECT id, owner_id, title, draft_text FROM documents WHERE id = $1`,
+        `SELECT id, owner_id, title, draft_text, pii_spans, redaction_policy
+         FROM documents WHERE id = $1`,
         [documentId]
       );
 
@@ -61,94 +66,63 @@ router.post(
         });
       }
 
-      // Generate appropriate filename using AI
-      const aiFunctionName =
-        process.env.AI_FUNCTION_NAME ||
-        `${process.env.APP || "stenoai"}-${process.env.ENV || "dev"}-ai`;
-
-      const lambdaClient = new LambdaClient({
-        region: process.env.REGION || "us-east-1",
-        requestHandler: {
-          requestTimeout: 30000, // 30s timeout for filename generation
-        },
-      });
+      // Apply the document's redaction policy to everything that leaves the
+      // service; values the user marked as not sensitive are kept
+      const redactionPolicy =
+        parseRedactionPolicy(doc.redaction_policy) ?? DEFAULT_REDACTION_POLICY;
+      const ignoredValues = ((doc.pii_spans || []) as PiiSpan[])
+        .filter((span) => span.ignored)
+        .map((span) => span.text);
+      const exportText = redactForExport(
+        doc.draft_text,
+        redactionPolicy,
+        ignoredValues
+      );
 
-      // Generate filename based on draft content
+      // Generate filename based on draft content; the model is only asked
+      // while the user's AI quotas allow it (the export itself is not an AI
+      // request, so it is never refused)
       let fileName = `${doc.title || "export"}.docx`;
       try {
+        const quota = await loadAiQuota(userId);
+        if (quota.exhausted) {
+          throw new Error(
+            `AI ${quota.exhausted.unit} quota used up for this ${quota.exhausted.period}`
+          );
+        }
+
+        // A filename never needs identifiers, so drop them even where the
+        // exported letter keeps restored values
+        const filenameExcerpt = redactForExport(
+          exportText.substring(0, 500),
+          redactionPolicy === "none" ? "none" : "drop",
+          ignoredValues
+        );
         const filenamePrompt = `Based on the following legal document draft, generate a concise, professional filename (without extension) that describes the document. The filename should be suitable for a Word document export. Use underscores instead of spaces, and keep it under 60 characters. Only return the filename, nothing else.
 
 **Draft Content (first 500 characters):**
-${doc.draft_text.substring(0, 500)}...
+${filenameExcerpt}...
 
 Generate only the filename (no extension, no quotes, no explanation):`;
 
-        const aiResponse = await retry(
-          async () => {
-            const event = {
-              version: "2.0",
-              routeKey: "POST /generate",
-              rawPath: "/generate",
-              rawQueryString: "",
-              headers: {
-                "content-type": "application/json",
-                host: "localhost",
-                "user-agent": "lambda-invoke",
-              },
-              requestContext: {
-                http: {
-                  method: "POST",
-                  path: "/generate",
-                  sourceIp: "127.0.0.1",
-                  userAgent: "lambda-invoke",
-                },
-                requestId: `req-${Date.now()}`,
-                domainName: "lambda.internal",
-                stage: "prod",
-              },
-              body: JSON.stringify({ prompt: filenamePrompt }),
-              isBase64Encoded: false,
-            };
-
-            const invokeParams: InvokeCommandInput = {
-              FunctionName: aiFunctionName,
-              Payload: JSON.stringify(event),
-              InvocationType: "RequestResponse",
-            };
-
-            const command = new InvokeCommand(invokeParams);
-            const response = await lambdaClient.send(command);
-
-            if (response.FunctionError) {
-              const errorPayload = response.Payload
-                ? JSON.parse(new TextDecoder().decode(response.Payload))
-                : null;
-              throw new Error(
-                `Lambda invocation failed: ${
-                  response.FunctionError
-                } - ${JSON.stringify(errorPayload)}`
-              );
-            }
-
-            const payload = JSON.parse(
-              new TextDecoder().decode(response.Payload)
-            );
-
-            if (payload.statusCode === 200 && payload.body) {
-              return { data: JSON.parse(payload.body) };
-            } else if (payload.statusCode) {
-              throw new Error(
-                `AI Lambda returned error: ${payload.statusCode} - ${
-                  payload.body || JSON.stringify(payload)
-                }`
-              );
-            }
-            return { data: payload };
-          },
-          { maxAttempts: 3, initialDelayMs: 100 }
-        );
+        await quota.meter.charge();
+        let aiText = "";
+        try {
+          aiText = await invokeAiModel(filenamePrompt, {
+            timeoutMs: 30000, // 30s timeout for filename generation
+            maxAttempts: 3,
+          });
+        } finally {
+          await recordAiUsage(
+            userId,
+            documentId,
+            "export_filename",
+            countTokens(filenamePrompt),
+            countTokens(aiText)
+          );
+        }
 
-        const generatedName = (aiResponse.data.text || "").trim();
+        const generatedName = aiText.trim();
         // Sanitize filename: remove invalid characters, limit length, ensure .docx extension
         if (generatedName && generatedName.length > 0) {
           const sanitized = generatedName
@@ -173,7 +147,7 @@ Generate only the filename (no extension, no quotes, no explanation):`;
 
       // Generate .docx using docx library (plain text MVP)
       // Split by newlines and create paragraphs (empty lines become empty paragraphs)
-      const paragraphs = doc.draft_text.split("\n").map(
+      const paragraphs = exportText.split("\n").map(
         (line: string) =>
           new Paragraph({
             children: line.trim() ? [new TextRun(line)] : [new TextRun("")],
@@ -0,0 +1,329 @@
+import express, { Request, Response } from "express";
+import { authenticateToken } from "../middleware/auth";
+import { query, checkDocumentAccess, recordAiUsage } from "../db/pg";
+import { AiCallMeter, aiQuotaMiddleware } from "../middleware/quotas";
+import { invokeAiModel } from "../lib/ai_client";
+import { countTokens } from "../lib/tokenizer";
+import {
+  CaseFacts,
+  FactWindow,
+  buildFactsPrompt,
+  emptyCaseFacts,
+  mapFactValues,
+  mergeCaseFacts,
+  normalizeCaseFacts,
+  parseFactsResponse,
+} from "../lib/case_facts";
+import {
+  DEFAULT_REDACTION_POLICY,
+  PiiSpan,
+  PiiTokenMap,
+  detectPii,
+  parseRedactionPolicy,
+  redactText,
+  restoreTokens,
+  spansInRange,
+} from "../lib/pii";
+
+const router = express.Router();
+router.use(express.json({ limit: '10mb' }));
+
+interface FactsResponse {
+  facts: CaseFacts | null;
+  confirmedAt: string | null;
+}
+
+/**
+ * Read the stored facts for a document
+ */
+async function loadFacts(documentId: string): Promise<FactsResponse | null> {
+  const result = await query(
+    `SELECT case_facts, case_facts_confirmed_at FROM documents WHERE id = $1`,
+    [documentId]
+  );
+  if (result.rows.length === 0) {
+    return null;
+  }
+  return {
+    facts: result.rows[0].case_facts || null,
+    confirmedAt: result.rows[0].case_facts_confirmed_at || null,
+  };
+}
+
+/**
+ * Run fact extraction over every source window and merge the results
+ * Identifiers are tokenized before they reach the model (unless the source's
+ * policy is "none") and restored in the returned facts, which stay server-side.
+ * Each window is one model call, counted against the requester's quotas.
+ */
+async function extractFacts(
+  sources: Array<{
+    id: string;
+    extracted_text: string | null;
+    pii_spans: PiiSpan[] | null;
+    redaction_policy: string | null;
+  }>,
+  chunks: Array<{ document_id: string; start: number; end: number }>,
+  requester: { userId: string; documentId: string; aiCalls?: AiCallMeter }
+): Promise<CaseFacts> {
+  let facts = emptyCaseFacts();
+
+  for (const source of sources) {
+    const sourceText = source.extracted_text || "";
+    if (!sourceText.trim()) continue;
+
+    const piiSpans = source.pii_spans ?? detectPii(sourceText);
+    const policy =
+      parseRedactionPolicy(source.redaction_policy) ?? DEFAULT_REDACTION_POLICY;
+    const sourceChunks = chunks.filter(
+      (chunk) => chunk.document_id === source.id
+    );
+    const ranges =
+      sourceChunks.length > 0
+        ? sourceChunks.map((chunk) => [chunk.start, chunk.end])
+        : [[0, sourceText.length]];
+
+    for (const [start, end] of ranges) {
+      const window: FactWindow = {
+        documentId: source.id,
+        text: sourceText.substring(start, end),
+        offset: start,
+      };
+      const tokens: PiiTokenMap = {};
+      const promptText = redactText(
+        window.text,
+        spansInRange(piiSpans, start, end),
+        policy === "none" ? "none" : "tokenize",
+        tokens
+      );
+
+      const prompt = buildFactsPrompt(promptText);
+      await requester.aiCalls?.charge();
+      let response = "";
+      try {
+        response = await invokeAiModel(prompt);
+      } finally {
+        await recordAiUsage(
+          requester.userId,
+          requester.documentId,
+          "case_facts",
+          countTokens(prompt),
+          countTokens(response)
+        );
+      }
+      const restore = (text: string) => restoreTokens(text, tokens);
+      const windowFacts = mapFactValues(
+        parseFactsResponse(response, window, restore),
+        restore
+      );
+      facts = mergeCaseFacts(facts, windowFacts);
+    }
+  }
+
+  return facts;
+}
+
+/**
+ * GET /documents/:id/facts
+ * Get the structured case facts stored for a document
+ * Requires authentication via JWT cookie
+ */
+router.get(
+  "/:id/facts",
+  authenticateToken,
+  async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        return res.status(401).json({ error: "User not authenticated" });
+      }
+
+      const access = await checkDocumentAccess(id, userId);
+      if (!access) {
+        return res.status(404).json({ error: "Document not found" });
+      }
+
+      const stored = await loadFacts(id);
+      if (!stored) {
+        return res.status(404).json({ error: "Document not found" });
+      }
+
+      res.json(stored);
+    } catch (error: any) {
+      console.error("Failed to fetch case facts:", error);
+      res.status(500).json({
+        error: "Failed to fetch case facts",
+        message: error.message,
+      });
+    }
+  }
+);
+
+/**
+ * POST /documents/:id/facts/extract
+ * Extract case facts from the document (or every document in its matter)
+ * Replaces stored facts and clears their confirmation
+ * Each source part is one model call, counted against the AI quotas (429
+ * once a limit is used up, see aiQuotaMiddleware)
+ * Requires authentication via JWT cookie
+ */
+router.post(
+  "/:id/facts/extract",
+  authenticateToken,
+  aiQuotaMiddleware,
+  async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        return res.status(401).json({ error: "User not authenticated" });
+      }
+
+      // Check if user has access (owner or editor - viewers cannot extract)
+      const access = await checkDocumentAccess(id, userId);
+      if (!access || access === "viewer") {
+        return res.status(403).json({
+          error:
+            access === "viewer"
+              ? "Viewers cannot extract case facts"
+              : "Document not found",
+        });
+      }
+
+      const docResult = await query(
+        `SELECT id, extracted_text, pii_spans, redaction_policy, matter_id
+         FROM documents
+         WHERE id = $1`,
+        [id]
+      );
+      if (docResult.rows.length === 0) {
+        return res.status(404).json({ error: "Document not found" });
+      }
+      const document = docResult.rows[0];
+
+      // Facts for a document in a matter come from every source file in it
+      // the user can open
+      const sources = document.matter_id
+        ? (
+            await query(
+              `SELECT d.id, d.extracted_text, d.pii_spans, d.redaction_policy
+               FROM documents d
+               WHERE d.matter_id = $1
+                 AND (d.owner_id = $2 OR EXISTS (
+                   SELECT 1 FROM document_collaborators c
+                   WHERE c.document_id = d.id AND c.user_id = $2
+                 ))
+               ORDER BY d.created_at ASC`,
+              [document.matter_id, userId]
+            )
+          ).rows
+        : [document];
+
+      if (!sources.some((source) => source.extracted_text?.trim())) {
+        return res.status(400).json({
+          error: "Document has no extracted text to extract facts from",
+        });
+      }
+
+      const chunksResult = await query(
+        `SELECT document_id, start, "end"
+         FROM doc_chunks
+         WHERE document_id = ANY($1)
+         ORDER BY idx ASC`,
+        [sources.map((source) => source.id)]
+      );
+
+      const facts = await extractFacts(sources, chunksResult.rows, {
+        userId,
+        documentId: id,
+        aiCalls: req.aiCalls,
+      });
+
+      await query(
+        `UPDATE documents
+         SET case_facts = $1, case_facts_confirmed_at = NULL, updated_at = NOW()
+         WHERE id = $2`,
+        [JSON.stringify(facts), id]
+      );
+
+      res.json({ facts, confirmedAt: null });
+    } catch (error: any) {
+      console.error("Case fact extraction error:", error);
+      res.status(500).json({
+        error: "Case fact extraction failed",
+        message: error.message || "Unknown error",
+      });
+    }
+  }
+);
+
+/**
+ * PUT /documents/:id/facts
+ * Save edited case facts; `confirmed: true` marks them as reviewed so
+ * generation uses them
+ * Requires authentication via JWT cookie
+ */
+router.put(
+  "/:id/facts",
+  authenticateToken,
+  async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+      const { facts, confirmed } = req.body;
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        return res.status(401).json({ error: "User not authenticated" });
+      }
+
+      const normalized = normalizeCaseFacts(facts);
+      if (!normalized) {
+        return res.status(400).json({
+          error:
+            "facts must be a CaseFacts object; specials and lost wages need an amount",
+        });
+      }
+
+      // Check if user has access (owner or editor - viewers cannot edit)
+      const access = await checkDocumentAccess(id, userId);
+      if (!access || access === "viewer") {
+        return res.status(403).json({
+          error:
+            access === "viewer"
+              ? "Viewers cannot edit case facts"
+              : "Document not found",
+        });
+      }
+
+      const result = await query(
+        `UPDATE documents
+         SET case_facts = $1,
+             case_facts_confirmed_at = CASE WHEN $2 THEN NOW() ELSE NULL END,
+             updated_at = NOW()
+         WHERE id = $3
+         RETURNING case_facts, case_facts_confirmed_at`,
+        [JSON.stringify(normalized), confirmed === true, id]
+      );
+
+      if (result.rows.length === 0) {
+        return res.status(404).json({ error: "Document not found" });
+      }
+
+      res.json({
+        facts: result.rows[0].case_facts,
+        confirmedAt: result.rows[0].case_facts_confirmed_at,
+      });
+    } catch (error: any) {
+      console.error("Failed to save case facts:", error);
+      res.status(500).json({
+        error: "Failed to save case facts",
+        message: error.message,
+      });
+    }
+  }
+);
+
+export default router;
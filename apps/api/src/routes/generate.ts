@@ -1,330 +1,1511 @@
 import express, { Request, Response } from "express";
 import axios from "axios";
+import crypto from "crypto";
 import { authenticateToken } from "../middleware/auth";
-import { query, checkDocumentAccess } from "../db/pg";
-import { composePrompt } from "../lib/composePrompt";
-import { mergeChunks, ChunkResult } from "../lib/merge";
+import {
+  query,
+  checkDocumentAccess,
+  getGenerationRuns,
+  getSpecialsItems,
+  recordGenerationRun,
+} from "../db/pg";
+import { composeChunkSummaryPrompt, composePrompt } from "../lib/composePrompt";
+import { CaseFacts, mapFactValues } from "../lib/case_facts";
+import { SpecialsLedger, buildLedger } from "../lib/specials";
 import { idempotencyMiddleware } from "../middleware/idempotency";
-import { retry } from "../lib/retry";
+import { AiCallMeter, aiQuotaMiddleware } from "../middleware/quotas";
+import { createUserDocumentChannel } from "../realtime/broadcast";
+import { isValidUUID } from "../realtime/validation";
+import {
+  ForbiddenError,
+  NotFoundError,
+  UnauthorizedError,
+  ValidationError,
+} from "../middleware/errors";
+import { invokeAiModel, streamAiModel } from "../lib/ai_client";
 import { cleanAiResponse } from "../lib/cleanAiResponse";
+import { chunkText } from "../lib/extract_chunked";
+import { countTokens } from "../lib/tokenizer";
+import { DraftCitations, groundDraft } from "../lib/citations";
+import { ParagraphPick, composeFromVariants } from "../lib/variants";
+import {
+  DEFAULT_DOCUMENT_TYPE,
+  DOCUMENT_TYPE_IDS,
+  DocumentTypeId,
+  RequiredFact,
+  getDocumentType,
+  missingRequiredFacts,
+  parseDocumentType,
+} from "../lib/document_types";
+import {
+  MergeContext,
+  TemplateVariable,
+  buildMergeContext,
+  normalizeTemplateVariables,
+  normalizeVariableValues,
+  renderMergeTemplate,
+} from "../lib/merge_fields";
+import {
+  GenerationBudget,
+  getModelProfile,
+  planGeneration,
+} from "../lib/token_budget";
 import {
-  LambdaClient,
-  InvokeCommand,
-  InvokeCommandInput,
-} from "@aws-sdk/client-lambda";
+  DEFAULT_REDACTION_POLICY,
+  PiiSpan,
+  PiiTokenMap,
+  RedactionPolicy,
+  detectPii,
+  parseRedactionPolicy,
+  redactText,
+  restoreTokens,
+  spansInRange,
+} from "../lib/pii";
 
 const router = express.Router();
 router.use(express.json({ limit: '10mb' }));
 
+/**
+ * A piece of source text sent to the model
+ */
+interface SourceExcerpt {
+  idx: number;
+  label: string; // source file name (with part number for chunked files)
+  text: string; // redacted with the source document's policy
+  policy: RedactionPolicy;
+  // Parts of chunked files: the doc_chunks row caching the part's summary
+  chunk?: {
+    id: string;
+    summary: string | null; // cached summary, PII values restored
+    ignoredValues: Set<string>; // PII values marked as false positives
+  };
+}
+
+/**
+ * Redact a cached chunk summary for the letter prompt
+ * Summaries are stored with real values because placeholder tokens only
+ * mean something within one request, so PII is detected again here.
+ */
+function redactSummary(
+  summary: string,
+  policy: RedactionPolicy,
+  ignoredValues: Set<string>,
+  tokens: PiiTokenMap
+): string {
+  const spans = detectPii(summary).filter(
+    (span) => !ignoredValues.has(span.text)
+  );
+  return redactText(summary, spans, policy, tokens);
+}
+
+/**
+ * Label a source document by its original file name: the stored title
+ * has the extension stripped, so take it back from the S3 key
+ */
+function sourceLabel(title: string, key: string): string {
+  const extension = (key || "").match(/\.([^./]+)$/)?.[1];
+  return extension ? `${title}.${extension}` : title;
+}
+
+/**
+ * Split a source document into chunks sized for the map step and store them
+ * so their summaries are cached like those of documents chunked at ingestion
+ * @returns The stored chunk rows, in order
+ */
+async function storeChunks(source: any, maxTokens: number): Promise<any[]> {
+  const chunks = chunkText(
+    source.extracted_text || "",
+    maxTokens,
+    undefined,
+    source.structure ?? undefined
+  );
+
+  const rows = [];
+  for (const chunk of chunks) {
+    // A concurrent generation may have stored the same chunks already
+    const result = await query(
+      `INSERT INTO doc_chunks (document_id, idx, start, "end")
+       VALUES ($1, $2, $3, $4)
+       ON CONFLICT (document_id, idx) DO UPDATE SET idx = EXCLUDED.idx
+       RETURNING id, idx, start, "end", summary`,
+      [source.id, chunk.idx, chunk.start, chunk.end]
+    );
+    rows.push(result.rows[0]);
+  }
+  return rows;
+}
+
+/**
+ * Model requests made while writing a draft, recorded with the run
+ */
+interface ModelUsage {
+  modelCalls: number;
+  inputTokens: number;
+  outputTokens: number;
+  promptHash: string | null; // of the letter prompt
+}
+
+/**
+ * Everything needed to write a draft: the source excerpts, how to compose
+ * the letter prompt from them and what the response reports
+ */
+interface PreparedGeneration {
+  userId: string;
+  aiCalls: AiCallMeter | null; // counts model calls against per-minute limits
+  template: { id: string; version: string | null }; // version: updated_at
+  instructions: string | null;
+  usage: ModelUsage;
+  document: any;
+  sourceDocuments: any[];
+  excerpts: SourceExcerpt[];
+  composeLetterPrompt: (items: SourceExcerpt[]) => string;
+  budget: GenerationBudget;
+  hasChunks: boolean;
+  chunkCount: number;
+  cachedSummaryCount: number;
+  // doc_chunks id -> summary being written, shared by the variants of a request
+  pendingSummaries: Map<string, Promise<string>>;
+  piiTokens: PiiTokenMap;
+  redactedSpanCount: number;
+  caseFacts: CaseFacts | null;
+  specials: SpecialsLedger | null;
+  documentType: DocumentTypeId;
+  missingFacts: RequiredFact[]; // required by the type, empty in confirmed facts
+  missingFields: TemplateVariable[]; // required template variables without a value
+  mergedDraft: string | null; // the filled template, when it is the whole draft
+  references: string[]; // template and instructions, for citation grounding
+}
+
+/**
+ * Body of a generation request
+ */
+interface GenerateBody {
+  documentId?: string;
+  templateId?: string;
+  instructions?: string;
+  documentType?: string;
+  variables?: unknown;
+  mergeOnly?: boolean;
+  variants?: unknown;
+}
+
+/**
+ * Load the document, its sources and the template and compose the prompts
+ * @throws ValidationError/UnauthorizedError/ForbiddenError/NotFoundError for
+ *   requests that cannot be generated
+ */
+async function prepareGeneration(
+  body: GenerateBody,
+  userId: string | undefined,
+  aiCalls?: AiCallMeter
+): Promise<PreparedGeneration> {
+  const { documentId, templateId, instructions } = body;
+  const mergeOnly = body.mergeOnly === true;
+
+  // Validate required fields
+  if (!documentId || !templateId) {
+    throw new ValidationError("Missing required fields: documentId, templateId");
+  }
+
+  if (
+    body.documentType !== undefined &&
+    !parseDocumentType(body.documentType)
+  ) {
+    throw new ValidationError(
+      `documentType must be one of: ${DOCUMENT_TYPE_IDS.join(", ")}`
+    );
+  }
+
+  if (!userId) {
+    throw new UnauthorizedError("User not authenticated");
+  }
+
+  // Check if user has access (owner or editor - viewers cannot generate drafts)
+  const access = await checkDocumentAccess(documentId, userId);
+  if (!access || access === "viewer") {
+    throw new ForbiddenError(
+      access === "viewer" ? "Viewers cannot generate drafts" : "Document not found"
+    );
+  }
+
+  // Fetch document (owner or editor can proceed)
+  const docResult = await query(
+    `SELECT id, owner_id, key, title, extracted_text, structure, pii_spans,
+            redaction_policy, document_type, case_facts, case_facts_confirmed_at, status,
+            matter_id, created_at
+     FROM documents
+     WHERE id = $1`,
+    [documentId]
+  );
+
+  if (docResult.rows.length === 0) {
+    throw new NotFoundError("Document not found");
+  }
+
+  const document = docResult.rows[0];
+
+  // A document in a matter is generated from every source file in the matter
+  // the user can open - a collaborator on one document never draws on the
+  // owner's other files
+  const sourceDocuments = document.matter_id
+    ? (
+        await query(
+          `SELECT d.id, d.key, d.title, d.extracted_text, d.structure, d.pii_spans,
+                  d.redaction_policy, d.created_at
+           FROM documents d
+           WHERE d.matter_id = $1
+             AND (d.owner_id = $2 OR EXISTS (
+               SELECT 1 FROM document_collaborators c
+               WHERE c.document_id = d.id AND c.user_id = $2
+             ))
+           ORDER BY d.created_at ASC`,
+          [document.matter_id, userId]
+        )
+      ).rows
+    : [document];
+  const isMultiSource = sourceDocuments.length > 1;
+
+  // Fetch template and verify access (owner or global)
+  const templateResult = await query(
+    `SELECT id, title, content, variables, is_global, owner_id, updated_at
+     FROM templates
+     WHERE id = $1 AND (owner_id = $2 OR is_global = true)`,
+    [templateId, userId]
+  );
+
+  if (templateResult.rows.length === 0) {
+    throw new NotFoundError("Template not found");
+  }
+
+  const template = templateResult.rows[0];
+  const templateVariables = normalizeTemplateVariables(
+    template.variables
+  ).variables;
+  const suppliedValues = normalizeVariableValues(
+    templateVariables,
+    body.variables
+  );
+  if (suppliedValues.problems.length > 0) {
+    throw new ValidationError(suppliedValues.problems.join("; "));
+  }
+
+  // Update template's last_used_at timestamp
+  await query(`UPDATE templates SET last_used_at = NOW() WHERE id = $1`, [
+    templateId,
+  ]).catch((err) => {
+    // Log but don't fail if update fails (column might not exist yet)
+    console.warn("Failed to update template last_used_at:", err);
+  });
+
+  // Chunks stored for large documents (at ingestion, or by an earlier
+  // map-reduce generation)
+  const chunksResult = await query(
+    `SELECT id, document_id, idx, start, "end", summary
+     FROM doc_chunks
+     WHERE document_id = ANY($1)
+     ORDER BY idx ASC`,
+    [sourceDocuments.map((source) => source.id)]
+  );
+
+  // PII is redacted per source document policy; tokens are shared so the
+  // draft can be restored
+  const piiTokens: PiiTokenMap = {};
+  const redactionPolicies: RedactionPolicy[] = [];
+  let redactedSpanCount = 0;
+  const sources = sourceDocuments.map((source) => {
+    const sourceText: string = source.extracted_text || "";
+
+    // Documents ingested before detection existed are scanned on the fly
+    const piiSpans: PiiSpan[] = source.pii_spans ?? detectPii(sourceText);
+    const policy =
+      parseRedactionPolicy(source.redaction_policy) ??
+      DEFAULT_REDACTION_POLICY;
+    redactionPolicies.push(policy);
+    if (policy !== "none") {
+      redactedSpanCount += piiSpans.filter((span) => !span.ignored).length;
+    }
+
+    return {
+      source,
+      label: sourceLabel(source.title, source.key),
+      policy,
+      ignoredValues: new Set(
+        piiSpans.filter((span) => span.ignored).map((span) => span.text)
+      ),
+      storedChunks: chunksResult.rows.filter(
+        (chunk) => chunk.document_id === source.id
+      ),
+      redactRange: (start: number, end: number) =>
+        redactText(
+          sourceText.substring(start, end),
+          spansInRange(piiSpans, start, end),
+          policy,
+          piiTokens
+        ),
+    };
+  });
+
+  // Confirmed case facts drive generation; their values get the same
+  // redaction as the document's source text
+  const documentPolicy =
+    parseRedactionPolicy(document.redaction_policy) ??
+    DEFAULT_REDACTION_POLICY;
+  const caseFacts: CaseFacts | null =
+    document.case_facts && document.case_facts_confirmed_at
+      ? mapFactValues(document.case_facts, (value) =>
+          redactText(value, detectPii(value), documentPolicy, piiTokens)
+        )
+      : null;
+
+  // Billing line items reach the model as a table with computed totals,
+  // so it never has to add up amounts from the source text
+  const specialsLedger = buildLedger(
+    await getSpecialsItems(sourceDocuments.map((source) => source.id))
+  );
+  const specials =
+    specialsLedger.totals.itemCount > 0 ? specialsLedger : null;
+
+  // The letter type asked for, else the one last generated for the document
+  const documentType =
+    parseDocumentType(body.documentType) ??
+    parseDocumentType(document.document_type) ??
+    DEFAULT_DOCUMENT_TYPE;
+  const missingFacts = caseFacts
+    ? missingRequiredFacts(
+        getDocumentType(documentType),
+        document.case_facts,
+        specials !== null
+      )
+    : [];
+
+  // Merge fields are filled before the model sees the template (or instead
+  // of the model with mergeOnly); supplied values are redacted like facts
+  const mergeContext: MergeContext = buildMergeContext(
+    caseFacts,
+    specials,
+    new Date().toISOString().slice(0, 10)
+  );
+  const redactValue = (value: string) =>
+    redactText(value, detectPii(value), documentPolicy, piiTokens);
+  for (const [name, value] of Object.entries(suppliedValues.values)) {
+    mergeContext[name] =
+      typeof value === "string"
+        ? redactValue(value)
+        : Array.isArray(value)
+        ? value.map((item) =>
+            typeof item === "string" ? redactValue(item) : item
+          )
+        : value;
+  }
+  const merge = renderMergeTemplate(
+    template.content || "",
+    templateVariables,
+    mergeContext
+  );
+  if (mergeOnly && merge.fieldCount === 0) {
+    throw new ValidationError("Template has no merge fields to fill");
+  }
+  const templateContent = merge.text;
+
+  // Single documents keep the unlabeled prompt; matters and summarized
+  // parts label every excerpt
+  const composeLetterPrompt = (
+    items: SourceExcerpt[],
+    summarizedSources: boolean
+  ): string =>
+    composePrompt(
+      isMultiSource || summarizedSources
+        ? items.map(({ label, text }) => ({ label, text }))
+        : items.map(({ text }) => text).join("\n\n"),
+      templateContent,
+      instructions,
+      {
+        redactionPolicies,
+        caseFacts,
+        specials,
+        summarizedSources,
+        documentType,
+        mergedFields: merge.fieldCount > 0,
+      }
+    );
+
+  // Whole sources go in one prompt when it and the letter fit the model's
+  // context window
+  const wholeSources: SourceExcerpt[] = sources.map((plan, idx) => ({
+    idx,
+    label: plan.label,
+    text: plan.redactRange(0, (plan.source.extracted_text || "").length),
+    policy: plan.policy,
+  }));
+  const budget = planGeneration(getModelProfile(), {
+    prompt: composeLetterPrompt(wholeSources, false),
+    template: templateContent,
+    instructions,
+    sources: wholeSources.map(({ text }) => text),
+  });
+
+  // Otherwise every source is split into chunks (reusing stored chunks and
+  // their cached summaries) for map-reduce; merge-only drafts need neither
+  const hasChunks = !mergeOnly && budget.strategy === "map-reduce";
+  const excerpts: SourceExcerpt[] = hasChunks ? [] : wholeSources;
+  if (hasChunks) {
+    for (const plan of sources) {
+      const chunks =
+        plan.storedChunks.length > 0
+          ? plan.storedChunks
+          : await storeChunks(plan.source, budget.chunkTokens!);
+
+      for (const chunk of chunks) {
+        excerpts.push({
+          idx: excerpts.length,
+          label: `${plan.label} (part ${(chunk.idx as number) + 1} of ${
+            chunks.length
+          })`,
+          // Fetch chunk text from original extracted text using start/end positions
+          text: plan.redactRange(chunk.start as number, chunk.end as number),
+          policy: plan.policy,
+          chunk: {
+            id: chunk.id,
+            summary: chunk.summary ?? null,
+            ignoredValues: plan.ignoredValues,
+          },
+        });
+      }
+    }
+  }
+
+  return {
+    userId,
+    aiCalls: aiCalls ?? null,
+    template: {
+      id: template.id,
+      version: template.updated_at
+        ? new Date(template.updated_at).toISOString()
+        : null,
+    },
+    instructions: instructions || null,
+    usage: { modelCalls: 0, inputTokens: 0, outputTokens: 0, promptHash: null },
+    document,
+    sourceDocuments,
+    excerpts,
+    composeLetterPrompt: (items) => composeLetterPrompt(items, hasChunks),
+    budget,
+    hasChunks,
+    chunkCount: hasChunks ? excerpts.length : 0,
+    cachedSummaryCount: excerpts.filter(
+      (excerpt) => excerpt.chunk && excerpt.chunk.summary !== null
+    ).length,
+    pendingSummaries: new Map(),
+    piiTokens,
+    redactedSpanCount,
+    caseFacts,
+    specials,
+    documentType,
+    missingFacts,
+    missingFields: merge.missing,
+    mergedDraft: mergeOnly ? merge.text : null,
+    references: [templateContent, instructions || ""],
+  };
+}
+
+/**
+ * Send a prompt to the model, counting the call against the per-minute
+ * limits and its tokens in the generation's usage (output is counted up to a
+ * failure or cancellation)
+ * @param onText - Streams the response when set
+ * @returns Raw generated text
+ */
+async function callModel(
+  generation: PreparedGeneration,
+  prompt: string,
+  signal?: AbortSignal,
+  onText?: (text: string) => void
+): Promise<string> {
+  const { usage } = generation;
+  await generation.aiCalls?.charge();
+  usage.modelCalls++;
+  usage.inputTokens += countTokens(prompt);
+
+  let received = "";
+  try {
+    received = onText
+      ? await streamAiModel(
+          prompt,
+          (text) => {
+            received += text;
+            onText(text);
+          },
+          { signal }
+        )
+      : await invokeAiModel(prompt, { signal });
+    return received;
+  } finally {
+    usage.outputTokens += countTokens(received);
+  }
+}
+
+/**
+ * Summarize one part of a chunked source and store the summary
+ * @returns The summary with PII tokens restored
+ */
+async function summarizeChunk(
+  generation: PreparedGeneration,
+  excerpt: SourceExcerpt,
+  signal?: AbortSignal
+): Promise<string> {
+  const aiText = await callModel(
+    generation,
+    composeChunkSummaryPrompt(excerpt.text, excerpt.label, excerpt.policy),
+    signal
+  );
+  const summary = restoreTokens(cleanAiResponse(aiText), generation.piiTokens);
+  // Keyed by row id so a re-extraction meanwhile is not overwritten
+  await query(`UPDATE doc_chunks SET summary = $1 WHERE id = $2`, [
+    summary,
+    excerpt.chunk!.id,
+  ]);
+  return summary;
+}
+
+/**
+ * Map step for chunked sources: summarize every part without a cached
+ * summary and store it in doc_chunks.summary for later generations
+ * (re-extraction replaces the chunks, which clears the cache)
+ * @param onProgress - Receives the number of parts summarized so far
+ * @returns The excerpts with each part replaced by its redacted summary
+ */
+async function summarizeChunks(
+  generation: PreparedGeneration,
+  signal?: AbortSignal,
+  onProgress?: (completed: number, total: number) => void
+): Promise<SourceExcerpt[]> {
+  const parts = generation.excerpts.filter((excerpt) => excerpt.chunk);
+  let completed = generation.cachedSummaryCount;
+  onProgress?.(completed, parts.length);
+
+  for (const excerpt of parts) {
+    const chunk = excerpt.chunk!;
+    if (chunk.summary !== null) continue;
+
+    // A part another variant is already summarizing is waited for, not
+    // summarized again
+    let pending = generation.pendingSummaries.get(chunk.id);
+    if (!pending) {
+      pending = summarizeChunk(generation, excerpt, signal);
+      generation.pendingSummaries.set(chunk.id, pending);
+    }
+    chunk.summary = await pending;
+    onProgress?.(++completed, parts.length);
+  }
+
+  return generation.excerpts.map((excerpt) =>
+    excerpt.chunk
+      ? {
+          ...excerpt,
+          text: redactSummary(
+            excerpt.chunk.summary ?? "",
+            excerpt.policy,
+            excerpt.chunk.ignoredValues,
+            generation.piiTokens
+          ),
+        }
+      : excerpt
+  );
+}
+
+/**
+ * Write the draft: chunked sources are summarized first (map), then one
+ * synthesis pass writes the letter from the summaries (reduce). A merge-only
+ * draft is the filled template and never reaches the model.
+ * @param onText - Receives model text as it is produced (streaming)
+ * @param onProgress - Receives map step progress for chunked sources
+ * @returns Cleaned draft text (PII tokens not yet restored)
+ */
+async function writeDraft(
+  generation: PreparedGeneration,
+  signal?: AbortSignal,
+  onText?: (text: string) => void,
+  onProgress?: (completed: number, total: number) => void
+): Promise<string> {
+  if (generation.mergedDraft !== null) {
+    onText?.(generation.mergedDraft);
+    return generation.mergedDraft;
+  }
+
+  const sources = generation.hasChunks
+    ? await summarizeChunks(generation, signal, onProgress)
+    : generation.excerpts;
+
+  const prompt = generation.composeLetterPrompt(sources);
+  generation.usage.promptHash = crypto
+    .createHash("sha256")
+    .update(prompt)
+    .digest("hex");
+  const aiText = await callModel(generation, prompt, signal, onText);
+
+  // Clean the response to remove any unwanted prefix text
+  return cleanAiResponse(aiText);
+}
+
+/**
+ * Restore PII tokens and ground the draft's claims in the sources
+ */
+function groundDraftText(generation: PreparedGeneration, cleanedText: string) {
+  const { document, sourceDocuments } = generation;
+
+  // Put tokenized values back now that the text no longer goes to the model
+  const draftText = restoreTokens(cleanedText, generation.piiTokens);
+
+  // Figures are checked against the unredacted material the draft drew on
+  const citations = groundDraft(draftText, {
+    sources: sourceDocuments.map((source) => ({
+      documentId: source.id,
+      label: sourceLabel(source.title, source.key),
+      text: source.extracted_text || "",
+    })),
+    caseFacts: generation.caseFacts ? document.case_facts : null,
+    specials: generation.specials,
+    references: generation.references.map((text) =>
+      restoreTokens(text, generation.piiTokens)
+    ),
+  });
+
+  return { draftText, citations };
+}
+
+/**
+ * What the response reports about how a draft was written
+ */
+function generationDetails(generation: PreparedGeneration) {
+  const { document, sourceDocuments, hasChunks } = generation;
+  return {
+    budget: generation.budget,
+    ...(hasChunks && {
+      chunkCount: generation.chunkCount,
+      cachedSummaryCount: generation.cachedSummaryCount,
+    }),
+    ...(generation.redactedSpanCount > 0 && {
+      redactedSpanCount: generation.redactedSpanCount,
+    }),
+    documentType: generation.documentType,
+    ...(generation.caseFacts && { usedCaseFacts: true }),
+    ...(generation.missingFacts.length > 0 && {
+      missingFacts: generation.missingFacts,
+    }),
+    ...(generation.missingFields.length > 0 && {
+      missingFields: generation.missingFields.map(({ name, label }) => ({
+        name,
+        label,
+      })),
+    }),
+    ...(generation.mergedDraft !== null && { mergeOnly: true }),
+    ...(generation.specials && { specialsTotals: generation.specials.totals }),
+    ...(document.matter_id && {
+      matterId: document.matter_id,
+      sourceCount: sourceDocuments.length,
+    }),
+  };
+}
+
+/**
+ * Restore PII tokens, ground the draft's claims in the sources, save both and
+ * build the response body
+ */
+async function saveDraft(generation: PreparedGeneration, cleanedText: string) {
+  const { document } = generation;
+  const { draftText, citations } = groundDraftText(generation, cleanedText);
+
+  // Save draft to database
+  await query(
+    `UPDATE documents
+     SET draft_text = $1, status = $2, document_type = $3, draft_citations = $4,
+         updated_at = NOW()
+     WHERE id = $5`,
+    [
+      draftText,
+      "draft_generated",
+      generation.documentType,
+      JSON.stringify(citations),
+      document.id,
+    ]
+  );
+
+  return {
+    draftText,
+    documentId: document.id,
+    citations,
+    ...generationDetails(generation),
+  };
+}
+
+/**
+ * How a run ended, with the saved draft of a successful one
+ */
+type RunResult =
+  | { outcome: "succeeded"; draftText: string }
+  | { outcome: "failed"; error: string }
+  | { outcome: "cancelled" };
+
+/**
+ * Record the run in generation_runs; a failure to record is logged and does
+ * not fail the generation
+ * @param startedAt - When the request arrived (ms)
+ */
+async function recordRun(
+  generation: PreparedGeneration,
+  startedAt: number,
+  streamed: boolean,
+  result: RunResult
+): Promise<void> {
+  try {
+    await recordGenerationRun({
+      documentId: generation.document.id,
+      userId: generation.userId,
+      templateId: generation.template.id,
+      templateVersion: generation.template.version,
+      instructions: generation.instructions,
+      documentType: generation.documentType,
+      promptHash: generation.usage.promptHash,
+      modelId: generation.budget.modelId,
+      strategy:
+        generation.mergedDraft !== null ? "merge" : generation.budget.strategy,
+      chunkCount: generation.chunkCount,
+      modelCalls: generation.usage.modelCalls,
+      inputTokens: generation.usage.inputTokens,
+      outputTokens: generation.usage.outputTokens,
+      latencyMs: Date.now() - startedAt,
+      streamed,
+      outcome: result.outcome,
+      error: result.outcome === "failed" ? result.error : null,
+      draftText: result.outcome === "succeeded" ? result.draftText : null,
+    });
+  } catch (err) {
+    console.warn("Failed to record generation run:", err);
+  }
+}
+
+/**
+ * Status for errors thrown while preparing a generation (500 otherwise)
+ */
+function requestErrorStatus(error: any): number | null {
+  return typeof error?.statusCode === "number" && error.statusCode < 500
+    ? error.statusCode
+    : null;
+}
+
+/**
+ * Hold back a trailing partial PII token ("[SSN_" ...) until it is complete
+ * so streamed text can be shown with values restored
+ */
+function createTokenRestorer(tokens: PiiTokenMap) {
+  let pending = "";
+  const push = (text: string): string => {
+    pending += text;
+    const open = pending.lastIndexOf("[");
+    const cut =
+      open !== -1 && !pending.includes("]", open) && pending.length - open <= 40
+        ? open
+        : pending.length;
+    const ready = pending.slice(0, cut);
+    pending = pending.slice(cut);
+    return restoreTokens(ready, tokens);
+  };
+  const flush = (): string => {
+    const rest = restoreTokens(pending, tokens);
+    pending = "";
+    return rest;
+  };
+  return { push, flush };
+}
+
+// Candidate drafts one request may ask for
+const MAX_VARIANTS = 4;
+
+/**
+ * A candidate draft asked for with `variants`
+ */
+interface VariantRequest {
+  label: string;
+  body: GenerateBody;
+}
+
+/**
+ * One parameter set of a `variants` list, each overriding the request
+ */
+interface VariantParameters {
+  label?: string;
+  templateId?: string;
+  instructions?: string;
+  documentType?: string;
+}
+
+/**
+ * The candidate drafts a request asks for: a count repeats the request, a
+ * list of parameter sets overrides its templateId, instructions or
+ * documentType per draft
+ * @returns null when the request has no variants
+ * @throws ValidationError for a bad count or parameter set
+ */
+function parseVariants(body: GenerateBody): VariantRequest[] | null {
+  const { variants, ...request } = body;
+  if (variants === undefined || variants === null) return null;
+
+  const invalid = `variants must be a number from 2 to ${MAX_VARIANTS} or a list of 2 to ${MAX_VARIANTS} parameter sets`;
+  if (typeof variants === "number") {
+    if (!Number.isInteger(variants) || variants < 2 || variants > MAX_VARIANTS) {
+      throw new ValidationError(invalid);
+    }
+  } else if (
+    !Array.isArray(variants) ||
+    variants.length < 2 ||
+    variants.length > MAX_VARIANTS
+  ) {
+    throw new ValidationError(invalid);
+  }
+
+  if (request.mergeOnly === true) {
+    throw new ValidationError(
+      "mergeOnly drafts are the filled template and cannot have variants"
+    );
+  }
+
+  if (typeof variants === "number") {
+    return Array.from({ length: variants }, (_, index) => ({
+      label: `Variant ${index + 1}`,
+      body: request,
+    }));
+  }
+
+  return variants.map((item: unknown, index: number) => {
+    if (!item || typeof item !== "object" || Array.isArray(item)) {
+      throw new ValidationError(`variants[${index}] must be an object`);
+    }
+    const fields = item as Record<string, unknown>;
+    for (const key of ["label", "templateId", "instructions", "documentType"]) {
+      if (fields[key] !== undefined && typeof fields[key] !== "string") {
+        throw new ValidationError(`variants[${index}].${key} must be a string`);
+      }
+    }
+    const set = fields as VariantParameters;
+    const label = (set.label ?? "").trim().slice(0, 100);
+    return {
+      label: label || `Variant ${index + 1}`,
+      body: {
+        ...request,
+        ...(set.templateId !== undefined && { templateId: set.templateId }),
+        ...(set.instructions !== undefined && {
+          instructions: set.instructions,
+        }),
+        ...(set.documentType !== undefined && {
+          documentType: set.documentType,
+        }),
+      },
+    };
+  });
+}
+
+/**
+ * Ground a candidate draft and store it in draft_variants, leaving the
+ * document's draft unchanged
+ */
+async function saveVariant(
+  generation: PreparedGeneration,
+  cleanedText: string,
+  batchId: string,
+  idx: number,
+  label: string
+) {
+  const { draftText, citations } = groundDraftText(generation, cleanedText);
+
+  const result = await query(
+    `INSERT INTO draft_variants
+       (document_id, batch_id, idx, label, template_id, instructions,
+        document_type, draft_text, citations, created_by)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+     RETURNING id, created_at`,
+    [
+      generation.document.id,
+      batchId,
+      idx,
+      label,
+      generation.template.id,
+      generation.instructions,
+      generation.documentType,
+      draftText,
+      JSON.stringify(citations),
+      generation.userId,
+    ]
+  );
+
+  return {
+    id: result.rows[0].id,
+    idx,
+    label,
+    templateId: generation.template.id,
+    instructions: generation.instructions,
+    draftText,
+    citations,
+    ...generationDetails(generation),
+    createdAt: result.rows[0].created_at,
+  };
+}
+
+/**
+ * A candidate draft that could not be written
+ */
+interface FailedVariant {
+  idx: number;
+  label: string;
+  error: string;
+}
+
+type VariantResult = Awaited<ReturnType<typeof saveVariant>> | FailedVariant;
+
+/**
+ * Write and store every candidate draft at the same time, so the request
+ * takes as long as its slowest draft rather than all of them together
+ * All variants are prepared first so a bad template or letter type fails
+ * the request before any model call. Parts of chunked sources are summarized
+ * once and shared by every variant. A failed variant is reported with its
+ * error; the request fails only when every variant does.
+ * @param startedAt - When the request arrived (ms)
+ */
+async function generateVariants(
+  requests: VariantRequest[],
+  userId: string | undefined,
+  startedAt: number,
+  aiCalls?: AiCallMeter
+) {
+  const generations: PreparedGeneration[] = [];
+  for (const request of requests) {
+    generations.push(await prepareGeneration(request.body, userId, aiCalls));
+  }
+
+  const batchId = crypto.randomUUID();
+  const pendingSummaries = generations[0].pendingSummaries;
+  let lastError: unknown = null;
+  const variants = await Promise.all(
+    generations.map(async (generation, idx): Promise<VariantResult> => {
+      const { label } = requests[idx];
+      generation.pendingSummaries = pendingSummaries;
+
+      try {
+        const draftText = await writeDraft(generation);
+        const variant = await saveVariant(
+          generation,
+          draftText,
+          batchId,
+          idx,
+          label
+        );
+        await recordRun(generation, startedAt, false, {
+          outcome: "succeeded",
+          draftText: variant.draftText,
+        });
+        return variant;
+      } catch (error: any) {
+        console.error(`Variant ${idx + 1} generation error:`, error);
+        lastError = error;
+        await recordRun(generation, startedAt, false, {
+          outcome: "failed",
+          error: error.message || "Unknown error",
+        });
+        return { idx, label, error: error.message || "Unknown error" };
+      }
+    })
+  );
+
+  if (variants.every((variant) => "error" in variant)) {
+    throw lastError;
+  }
+  return { documentId: generations[0].document.id, batchId, variants };
+}
+
 /**
  * POST /documents/generate
  * Generate AI draft based on document and template
+ * Body: { documentId, templateId, instructions?, documentType?, variables?,
+ *   mergeOnly?, variants? } - the letter type defaults to the one stored on
+ *   the document; variables supplies values for the template's own
+ *   merge-field variables, and mergeOnly returns the filled template without
+ *   the model
+ * variants (a count from 2 to 4, or a list of 2 to 4 { label?, templateId?,
+ * instructions?, documentType? } overriding the request) writes candidate
+ * drafts into draft_variants instead of the document's draft and responds
+ * { documentId, batchId, variants: [{ id, idx, label, draftText, citations,
+ * ... } | { idx, label, error }] }
  * Requires authentication via JWT cookie
  */
 router.post(
   "/generate",
   authenticateToken,
   idempotencyMiddleware,
+  aiQuotaMiddleware,
   async (req: Request, res: Response) => {
+    const startedAt = Date.now();
+    let generation: PreparedGeneration | null = null;
     try {
-      const { documentId, templateId, instructions } = req.body;
-      const userId = req.user?.userId;
+      const variants = parseVariants(req.body);
+      if (variants) {
+        res.json(
+          await generateVariants(
+            variants,
+            req.user?.userId,
+            startedAt,
+            req.aiCalls
+          )
+        );
+        return;
+      }
 
-      // Validate required fields
-      if (!documentId || !templateId) {
-        return res.status(400).json({
-          error: "Missing required fields: documentId, templateId",
+      generation = await prepareGeneration(
+        req.body,
+        req.user?.userId,
+        req.aiCalls
+      );
+      const draftText = await writeDraft(generation);
+      const body = await saveDraft(generation, draftText);
+      await recordRun(generation, startedAt, false, {
+        outcome: "succeeded",
+        draftText: body.draftText,
+      });
+
+      // Return response
+      res.json(body);
+    } catch (error: any) {
+      const status = requestErrorStatus(error);
+      if (status) {
+        return res.status(status).json({ error: error.message });
+      }
+      console.error("Generation error:", error);
+      if (generation) {
+        await recordRun(generation, startedAt, false, {
+          outcome: "failed",
+          error: error.message || "Unknown error",
         });
       }
+      res.status(500).json({
+        error: "Generation failed",
+        message: error.message || "Unknown error",
+      });
+    }
+  }
+);
 
-      if (!userId) {
-        return res.status(401).json({ error: "User not authenticated" });
-      }
+const STREAM_ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+const REALTIME_TEXT_BATCH_MS = 250;
 
-      // Get AI Lambda function name from environment
-      const aiFunctionName =
-        process.env.AI_FUNCTION_NAME ||
-        `${process.env.APP || "stenoai"}-${process.env.ENV || "dev"}-ai`;
+/**
+ * Streamed draft delivered over the realtime channel to the requester's
+ * editors, with text batched to keep the message count down
+ */
+function createRealtimeDraftStream(
+  userId: string,
+  documentId: string,
+  streamId: string
+) {
+  const channel = createUserDocumentChannel(userId, documentId);
+  let pending = "";
+  let timer: NodeJS.Timeout | null = null;
+  let lastSend: Promise<void> = Promise.resolve();
 
-      // Use Lambda client for direct invocation (works within VPC)
-      const lambdaClient = new LambdaClient({
-        region: process.env.REGION || "us-east-1",
-        requestHandler: {
-          requestTimeout: 110000, // 110s timeout (less than Lambda's 120s)
-        },
+  const flushText = () => {
+    if (timer) {
+      clearTimeout(timer);
+      timer = null;
+    }
+    if (!pending) return;
+    lastSend = channel.send({
+      type: "generation_text",
+      documentId,
+      streamId,
+      text: pending,
+    });
+    pending = "";
+  };
+
+  return {
+    text(piece: string) {
+      pending += piece;
+      timer ??= setTimeout(flushText, REALTIME_TEXT_BATCH_MS);
+    },
+    progress(completed: number, total: number) {
+      flushText();
+      lastSend = channel.send({
+        type: "generation_progress",
+        documentId,
+        streamId,
+        stage: "summarizing",
+        completed,
+        total,
       });
+    },
+    /** Send the remaining text and wait until everything was delivered */
+    async close() {
+      flushText();
+      await lastSend;
+    },
+  };
+}
 
-      // Check if user has access (owner or editor - viewers cannot generate drafts)
-      const access = await checkDocumentAccess(documentId, userId);
-      if (!access || access === "viewer") {
-        return res.status(403).json({ 
-          error: access === "viewer" 
-            ? "Viewers cannot generate drafts" 
-            : "Document not found" 
-        });
+/**
+ * POST /documents/generate/stream
+ * Generate an AI draft and stream it as server-sent events while the model
+ * writes it. Events:
+ * - progress: { stage: "summarizing", completed, total } - chunked sources
+ *   only, before any text: parts summarized so far (cached ones included)
+ * - text: { text } - next piece of the draft
+ * - done: the same body as POST /documents/generate, with the final draft
+ * - error: { error, message }
+ * With streamId in the body, progress and text go to the requester's
+ * realtime connections on the document instead (generation_progress and
+ * generation_text messages carrying the streamId, batched every 250ms), as
+ * API Gateway buffers the HTTP response; the stream then carries only done
+ * or error, sent after the last text message.
+ * Closing the connection aborts the model call and leaves the saved draft
+ * unchanged.
+ * Requires authentication via JWT cookie
+ */
+router.post(
+  "/generate/stream",
+  authenticateToken,
+  aiQuotaMiddleware,
+  async (req: Request, res: Response) => {
+    const startedAt = Date.now();
+    let generation: PreparedGeneration;
+    try {
+      if (req.body?.variants !== undefined) {
+        throw new ValidationError(
+          "Variants are not streamed; use POST /documents/generate"
+        );
+      }
+      const streamId = req.body?.streamId;
+      if (
+        streamId !== undefined &&
+        (typeof streamId !== "string" || !STREAM_ID_PATTERN.test(streamId))
+      ) {
+        throw new ValidationError(
+          "streamId must be 1-64 letters, digits, dashes or underscores"
+        );
+      }
+      generation = await prepareGeneration(
+        req.body,
+        req.user?.userId,
+        req.aiCalls
+      );
+    } catch (error: any) {
+      const status = requestErrorStatus(error);
+      if (status) {
+        return res.status(status).json({ error: error.message });
       }
+      console.error("Generation error:", error);
+      return res.status(500).json({
+        error: "Generation failed",
+        message: error.message || "Unknown error",
+      });
+    }
+
+    res.status(200);
+    res.setHeader("Content-Type", "text/event-stream");
+    res.setHeader("Cache-Control", "no-cache");
+    res.setHeader("Connection", "keep-alive");
+    res.flushHeaders();
+
+    const send = (event: string, data: unknown) => {
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    };
+
+    // The client cancelling (or going away) aborts the upstream model call
+    const abortController = new AbortController();
+    res.on("close", () => {
+      if (!res.writableFinished) abortController.abort();
+    });
+
+    const realtime = req.body?.streamId
+      ? createRealtimeDraftStream(
+          generation.userId,
+          generation.document.id,
+          req.body.streamId
+        )
+      : null;
+    const sendText = (text: string) =>
+      realtime ? realtime.text(text) : send("text", { text });
 
-      // Fetch document (owner or editor can proceed)
-      const docResult = await query(
-        `SELECT id, owner_id, extracted_text, status
-         FROM documents
-         WHERE id = $1`,
-        [documentId]
+    try {
+      const restorer = createTokenRestorer(generation.piiTokens);
+      const draftText = await writeDraft(
+        generation,
+        abortController.signal,
+        (text) => {
+          const ready = restorer.push(text);
+          if (ready) sendText(ready);
+        },
+        (completed, total) =>
+          realtime
+            ? realtime.progress(completed, total)
+            : send("progress", { stage: "summarizing", completed, total })
       );
+      const rest = restorer.flush();
+      if (rest) sendText(rest);
+      await realtime?.close();
 
-      if (docResult.rows.length === 0) {
-        return res.status(404).json({ error: "Document not found" });
+      if (abortController.signal.aborted) {
+        await recordRun(generation, startedAt, true, { outcome: "cancelled" });
+        return;
+      }
+      const body = await saveDraft(generation, draftText);
+      await recordRun(generation, startedAt, true, {
+        outcome: "succeeded",
+        draftText: body.draftText,
+      });
+      send("done", body);
+    } catch (error: any) {
+      await realtime?.close();
+      if (abortController.signal.aborted) {
+        console.log(`Generation for ${generation.document.id} cancelled`);
+        await recordRun(generation, startedAt, true, { outcome: "cancelled" });
+        return;
       }
+      console.error("Generation error:", error);
+      await recordRun(generation, startedAt, true, {
+        outcome: "failed",
+        error: error.message || "Unknown error",
+      });
+      send("error", {
+        error: "Generation failed",
+        message: error.message || "Unknown error",
+      });
+    } finally {
+      res.end();
+    }
+  }
+);
 
-      const document = docResult.rows[0];
-      const extractedText = document.extracted_text || "";
+const DEFAULT_RUNS_LIMIT = 50;
+const MAX_RUNS_LIMIT = 200;
 
-      // Fetch template and verify access (owner or global)
-      const templateResult = await query(
-        `SELECT id, title, content, is_global, owner_id
-         FROM templates
-         WHERE id = $1 AND (owner_id = $2 OR is_global = true)`,
-        [templateId, userId]
-      );
+/**
+ * GET /documents/:id/runs
+ * List the document's generation runs, newest first: template version,
+ * instructions, prompt hash, model, strategy, token counts, latency and
+ * outcome of each
+ * Query: limit? (default 50, at most 200)
+ * Requires authentication via JWT cookie
+ */
+router.get(
+  "/:id/runs",
+  authenticateToken,
+  async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        return res.status(401).json({ error: "User not authenticated" });
+      }
 
-      if (templateResult.rows.length === 0) {
-        return res.status(404).json({ error: "Template not found" });
+      const access = await checkDocumentAccess(id, userId);
+      if (!access) {
+        return res.status(404).json({ error: "Document not found" });
       }
 
-      const template = templateResult.rows[0];
-      const templateContent = template.content || "";
+      const requested = parseInt(String(req.query.limit ?? ""), 10);
+      const limit =
+        requested > 0 ? Math.min(requested, MAX_RUNS_LIMIT) : DEFAULT_RUNS_LIMIT;
 
-      // Update template's last_used_at timestamp
-      await query(`UPDATE templates SET last_used_at = NOW() WHERE id = $1`, [
-        templateId,
-      ]).catch((err) => {
-        // Log but don't fail if update fails (column might not exist yet)
-        console.warn("Failed to update template last_used_at:", err);
+      res.json({ runs: await getGenerationRuns(id, limit) });
+    } catch (error: any) {
+      console.error("Failed to fetch generation runs:", error);
+      res.status(500).json({
+        error: "Failed to fetch generation runs",
+        message: error.message,
       });
+    }
+  }
+);
+
+/**
+ * Variant row as returned by the API
+ */
+function toVariant(row: any) {
+  return {
+    id: row.id,
+    idx: row.idx,
+    label: row.label,
+    templateId: row.template_id,
+    instructions: row.instructions,
+    documentType: row.document_type,
+    draftText: row.draft_text,
+    citations: row.citations,
+    createdAt: row.created_at,
+  };
+}
+
+/**
+ * GET /documents/:id/variants
+ * The candidate drafts of the document's latest variants request
+ * Response: { batchId, variants } - batchId is null when there are none
+ * Requires authentication via JWT cookie
+ */
+router.get(
+  "/:id/variants",
+  authenticateToken,
+  async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        return res.status(401).json({ error: "User not authenticated" });
+      }
+
+      const access = await checkDocumentAccess(id, userId);
+      if (!access) {
+        return res.status(404).json({ error: "Document not found" });
+      }
 
-      // Check if document has chunks
-      const chunksResult = await query(
-        `SELECT idx, start, "end", summary
-         FROM doc_chunks
-         WHERE document_id = $1
+      const result = await query(
+        `SELECT id, batch_id, idx, label, template_id, instructions,
+                document_type, draft_text, citations, created_at
+         FROM draft_variants
+         WHERE batch_id = (
+           SELECT batch_id FROM draft_variants
+           WHERE document_id = $1
+           ORDER BY created_at DESC
+           LIMIT 1
+         )
          ORDER BY idx ASC`,
-        [documentId]
+        [id]
       );
 
-      const hasChunks = chunksResult.rows.length > 0;
-      let draftText: string;
+      res.json({
+        batchId: result.rows[0]?.batch_id ?? null,
+        variants: result.rows.map(toVariant),
+      });
+    } catch (error: any) {
+      console.error("Failed to fetch draft variants:", error);
+      res.status(500).json({
+        error: "Failed to fetch draft variants",
+        message: error.message,
+      });
+    }
+  }
+);
 
-      if (hasChunks) {
-        // Process chunked document
-        const chunks = chunksResult.rows;
-        const chunkResults: ChunkResult[] = [];
+/**
+ * POST /documents/:id/variants/apply
+ * Replace the document's draft with a candidate draft, or with paragraphs
+ * picked from several in order
+ * Body: { variantId } | { paragraphs: [{ variantId, index }] } - index
+ *   counts the variant's paragraphs (separated by blank lines) from 0
+ * Response: { documentId, draftText, citations }
+ * Requires authentication via JWT cookie
+ */
+router.post(
+  "/:id/variants/apply",
+  authenticateToken,
+  async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+      const userId = req.user?.userId;
+      const { variantId, paragraphs } = req.body ?? {};
 
-        // Process each chunk individually
-        for (const chunk of chunks) {
-          // Fetch chunk text from original extracted text using start/end positions
-          const chunkText = extractedText.substring(
-            chunk.start as number,
-            chunk.end as number
-          );
-
-          // Compose prompt for this chunk
-          const chunkPrompt = composePrompt(
-            chunkText,
-            templateContent,
-            instructions
-          );
-
-          // Call AI Lambda directly with retry logic
-          const aiResponse = await retry(
-            async () => {
-              // Format event for Mangum (API Gateway HTTP API v2 format)
-              const event = {
-                version: "2.0",
-                routeKey: "POST /generate",
-                rawPath: "/generate",
-                rawQueryString: "",
-                headers: {
-                  "content-type": "application/json",
-                  host: "localhost",
-                  "user-agent": "lambda-invoke",
-                },
-                requestContext: {
-                  http: {
-                    method: "POST",
-                    path: "/generate",
-                    sourceIp: "127.0.0.1",
-                    userAgent: "lambda-invoke",
-                  },
-                  requestId: `req-${Date.now()}`,
-                  domainName: "lambda.internal",
-                  stage: "prod",
-                },
-                body: JSON.stringify({ prompt: chunkPrompt }),
-                isBase64Encoded: false,
-              };
-
-              const invokeParams: InvokeCommandInput = {
-                FunctionName: aiFunctionName,
-                Payload: JSON.stringify(event),
-                InvocationType: "RequestResponse",
-              };
-
-              console.log(`Invoking AI Lambda: ${aiFunctionName}`);
-              const command = new InvokeCommand(invokeParams);
-              const startTime = Date.now();
-              const response = await lambdaClient.send(command);
-              const duration = Date.now() - startTime;
-              console.log(`AI Lambda invocation completed in ${duration}ms`);
-
-              if (response.FunctionError) {
-                const errorPayload = response.Payload
-                  ? JSON.parse(new TextDecoder().decode(response.Payload))
-                  : null;
-                throw new Error(
-                  `Lambda invocation failed: ${
-                    response.FunctionError
-                  } - ${JSON.stringify(errorPayload)}`
-                );
-              }
-
-              const payload = JSON.parse(
-                new TextDecoder().decode(response.Payload)
-              );
-
-              // Handle Mangum response format (API Gateway HTTP API v2)
-              if (payload.statusCode === 200 && payload.body) {
-                return { data: JSON.parse(payload.body) };
-              } else if (payload.statusCode) {
-                throw new Error(
-                  `AI Lambda returned error: ${payload.statusCode} - ${
-                    payload.body || JSON.stringify(payload)
-                  }`
-                );
-              }
-              // Fallback: try to parse as direct response
-              return { data: payload };
-            },
-            { maxAttempts: 5, initialDelayMs: 100 }
-          );
-
-          // Clean each chunk response
-          const cleanedChunkText = cleanAiResponse(aiResponse.data.text || "");
-          
-          chunkResults.push({
-            idx: chunk.idx as number,
-            text: cleanedChunkText,
-          });
-        }
+      if (!userId) {
+        return res.status(401).json({ error: "User not authenticated" });
+      }
 
-        // Merge chunk results
-        draftText = mergeChunks(chunkResults);
-        
-        // Clean the merged result as well (in case merge adds any unwanted text)
-        draftText = cleanAiResponse(draftText);
-      } else {
-        // Process non-chunked document
-        const prompt = composePrompt(
-          extractedText,
-          templateContent,
-          instructions
-        );
+      const picks: ParagraphPick[] | null = Array.isArray(paragraphs)
+        ? paragraphs
+        : null;
+      const isVariantId = (value: unknown) =>
+        typeof value === "string" && isValidUUID(value);
+      const valid = picks
+        ? picks.length > 0 &&
+          picks.every(
+            (pick) =>
+              isVariantId(pick?.variantId) &&
+              Number.isInteger(pick?.index) &&
+              pick.index >= 0
+          )
+        : isVariantId(variantId);
+      if (!valid) {
+        return res.status(400).json({
+          error:
+            "Provide variantId or a non-empty paragraphs list of { variantId, index }",
+        });
+      }
 
-        // Call AI Lambda directly with retry logic
-        const aiResponse = await retry(
-          async () => {
-            // Format event for Mangum (API Gateway HTTP API v2 format)
-            const event = {
-              version: "2.0",
-              routeKey: "POST /generate",
-              rawPath: "/generate",
-              rawQueryString: "",
-              headers: {
-                "content-type": "application/json",
-                host: "localhost",
-                "user-agent": "lambda-invoke",
-              },
-              requestContext: {
-                http: {
-                  method: "POST",
-                  path: "/generate",
-                  sourceIp: "127.0.0.1",
-                  userAgent: "lambda-invoke",
-                },
-                requestId: `req-${Date.now()}`,
-                domainName: "lambda.internal",
-                stage: "prod",
-              },
-              body: JSON.stringify({ prompt }),
-              isBase64Encoded: false,
-            };
-
-            const invokeParams: InvokeCommandInput = {
-              FunctionName: aiFunctionName,
-              Payload: JSON.stringify(event),
-              InvocationType: "RequestResponse",
-            };
-
-            console.log(`Invoking AI Lambda: ${aiFunctionName}`);
-            const command = new InvokeCommand(invokeParams);
-            const startTime = Date.now();
-            const response = await lambdaClient.send(command);
-            const duration = Date.now() - startTime;
-            console.log(`AI Lambda invocation completed in ${duration}ms`);
-
-            if (response.FunctionError) {
-              const errorPayload = response.Payload
-                ? JSON.parse(new TextDecoder().decode(response.Payload))
-                : null;
-              throw new Error(
-                `Lambda invocation failed: ${
-                  response.FunctionError
-                } - ${JSON.stringify(errorPayload)}`
-              );
-            }
-
-            const payload = JSON.parse(
-              new TextDecoder().decode(response.Payload)
-            );
-
-            // Handle Mangum response format (API Gateway HTTP API v2)
-            if (payload.statusCode === 200 && payload.body) {
-              return { data: JSON.parse(payload.body) };
-            } else if (payload.statusCode) {
-              throw new Error(
-                `AI Lambda returned error: ${payload.statusCode} - ${
-                  payload.body || JSON.stringify(payload)
-                }`
-              );
-            }
-            // Fallback: try to parse as direct response
-            return { data: payload };
-          },
-          { maxAttempts: 5, initialDelayMs: 100 }
-        );
+      // Viewers cannot change the draft
+      const access = await checkDocumentAccess(id, userId);
+      if (!access || access === "viewer") {
+        return res.status(access ? 403 : 404).json({
+          error:
+            access === "viewer"
+              ? "Viewers cannot change the draft"
+              : "Document not found",
+        });
+      }
+
+      const variantIds = picks
+        ? Array.from(new Set(picks.map((pick) => pick.variantId)))
+        : [variantId];
+      const result = await query(
+        `SELECT id, draft_text, citations, document_type
+         FROM draft_variants
+         WHERE document_id = $1 AND id = ANY($2)`,
+        [id, variantIds]
+      );
+      const variants = result.rows.map((row: any) => ({
+        id: row.id,
+        draftText: row.draft_text,
+        citations: row.citations,
+        documentType: row.document_type,
+      }));
 
-        // Clean the response to remove any unwanted prefix text
-        draftText = cleanAiResponse(aiResponse.data.text || "");
+      let draftText: string;
+      let citations: DraftCitations | null;
+      if (picks) {
+        const composed = composeFromVariants(picks, variants);
+        if (composed.problems.length > 0) {
+          return res.status(400).json({
+            error: "Invalid paragraphs",
+            message: composed.problems.join("; "),
+          });
+        }
+        ({ draftText, citations } = composed);
+      } else {
+        if (variants.length === 0) {
+          return res.status(404).json({ error: "Variant not found" });
+        }
+        ({ draftText, citations } = variants[0]);
       }
 
-      // Save draft to database
+      // The letter type is that of the variant the draft starts with
+      const firstId = picks ? picks[0].variantId : variantId;
+      const documentType =
+        variants.find((variant: any) => variant.id === firstId)
+          ?.documentType ?? null;
+
       await query(
         `UPDATE documents
-         SET draft_text = $1, status = $2, updated_at = NOW()
-         WHERE id = $3`,
-        [draftText, "draft_generated", documentId]
+         SET draft_text = $1, status = $2, draft_citations = $3,
+             document_type = COALESCE($4, document_type), updated_at = NOW()
+         WHERE id = $5`,
+        [
+          draftText,
+          "draft_generated",
+          citations ? JSON.stringify(citations) : null,
+          documentType,
+          id,
+        ]
       );
 
-      // Return response
-      res.json({
-        draftText,
-        documentId,
-        ...(hasChunks && { chunkCount: chunksResult.rows.length }),
-      });
+      res.json({ documentId: id, draftText, citations });
     } catch (error: any) {
-      console.error("Generation error:", error);
+      console.error("Failed to apply draft variant:", error);
       res.status(500).json({
-        error: "Generation failed",
-        message: error.message || "Unknown error",
+        error: "Failed to apply draft variant",
+        message: error.message,
       });
     }
   }
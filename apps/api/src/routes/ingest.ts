@@ -1,9 +1,19 @@
 import express, { Request, Response } from "express";
 import { authenticateToken } from "../middleware/auth";
-import { query, checkDocumentAccess } from "../db/pg";
-import { extractText } from "../lib/extract_basic";
-import { chunkText, needsChunking } from "../lib/extract_chunked";
-import { v4 as uuidv4 } from "uuid";
+import { query, checkDocumentAccess, isMatterOwner } from "../db/pg";
+import {
+  createIngestJob,
+  dispatchIngestJob,
+  getIngestJob,
+} from "../jobs/ingest_job";
+import {
+  DEFAULT_REDACTION_POLICY,
+  PiiSpan,
+  REDACTION_POLICIES,
+  parseRedactionPolicy,
+} from "../lib/pii";
+import { DEFAULT_DOCUMENT_TYPE } from "../lib/document_types";
+import { isValidUUID } from "../realtime/validation";
 import { S3Client, DeleteObjectCommand } from "@aws-sdk/client-s3";
 
 const router = express.Router();
@@ -16,7 +26,8 @@ const s3Client = new S3Client({
 
 /**
  * POST /documents/ingest
- * Process uploaded file and extract text
+ * Queue an uploaded file for text extraction
+ * Returns a job ID immediately; poll GET /documents/ingest/jobs/:id for progress
  * Requires authentication via JWT cookie
  */
 router.post(
@@ -24,7 +35,7 @@ router.post(
   authenticateToken,
   async (req: Request, res: Response) => {
     try {
-      const { key, originalName, mime, size } = req.body;
+      const { key, originalName, mime, size, matterId } = req.body;
 
       // Validate required fields
       if (!key || !originalName || !mime || !size) {
@@ -39,81 +50,37 @@ router.post(
         return res.status(401).json({ error: "User not authenticated" });
       }
 
-      // Determine which bucket the file is in
-      const uploadBucket = process.env.S3_UPLOAD_BUCKET;
-      if (!uploadBucket) {
-        console.error("S3_UPLOAD_BUCKET not configured");
-        return res.status(500).json({ error: "Server configuration error" });
+      // Optional matter to group this source file with others
+      if (
+        matterId &&
+        (typeof matterId !== "string" || !isValidUUID(matterId))
+      ) {
+        return res.status(400).json({ error: "Invalid matter ID" });
       }
-
-      // Extract text from file
-      let extractedText: string;
-      try {
-        extractedText = await extractText(uploadBucket, key, mime);
-      } catch (extractError: any) {
-        console.error("Text extraction failed:", extractError);
-        return res.status(422).json({
-          error: "Failed to extract text from file",
-          message: extractError.message,
-        });
+      if (matterId && !(await isMatterOwner(matterId, userId))) {
+        return res.status(404).json({ error: "Matter not found" });
       }
 
-      // Derive title from original filename (remove extension)
-      // Truncate to 255 chars to match database VARCHAR(255) constraint
-      const title = originalName.replace(/\.[^/.]+$/, "").substring(0, 255);
-
-      // Check if document needs chunking
-      const isChunked = needsChunking(extractedText);
-      let chunkCount = 0;
-
-      // Insert document into database
-      const documentId = uuidv4();
-      const insertQuery = `
-        INSERT INTO documents (id, owner_id, key, title, extracted_text, status, created_at, updated_at)
-        VALUES ($1, $2, $3, $4, $5, $6, NOW(), NOW())
-        RETURNING id, title, status, created_at
-      `;
+      if (!process.env.S3_UPLOAD_BUCKET) {
+        console.error("S3_UPLOAD_BUCKET not configured");
+        return res.status(500).json({ error: "Server configuration error" });
+      }
 
-      const result = await query(insertQuery, [
-        documentId,
+      const { jobId, documentId } = await createIngestJob({
         userId,
         key,
-        title,
-        extractedText,
-        "extracted",
-      ]);
+        originalName,
+        mime,
+        size,
+        matterId: matterId || null,
+      });
 
-      const document = result.rows[0];
-
-      // If chunking needed, create chunks and store in doc_chunks table
-      if (isChunked) {
-        const chunks = chunkText(extractedText);
-        chunkCount = chunks.length;
-
-        // Insert each chunk into doc_chunks table
-        for (const chunk of chunks) {
-          await query(
-            `INSERT INTO doc_chunks (document_id, idx, start, "end", summary)
-             VALUES ($1, $2, $3, $4, $5)`,
-            [
-              documentId,
-              chunk.idx,
-              chunk.start,
-              chunk.end,
-              chunk.summary || null,
-            ]
-          );
-        }
-      }
+      await dispatchIngestJob(jobId);
 
-      res.status(201).json({
-        documentId: document.id,
-        title: document.title,
-        status: document.status,
-        extractedLength: extractedText.length,
-        isChunked,
-        ...(isChunked && { chunkCount }),
-        createdAt: document.created_at,
+      res.status(202).json({
+        jobId,
+        documentId,
+        phase: "queued",
       });
     } catch (error: any) {
       console.error("Ingestion error:", error);
@@ -125,6 +92,54 @@ router.post(
   }
 );
 
+/**
+ * GET /documents/ingest/jobs/:id
+ * Report an ingestion job's phase, progress and errors
+ * The result (document summary, or per-entry report for archives) is
+ * included once the job is done
+ * Requires authentication via JWT cookie
+ */
+router.get(
+  "/ingest/jobs/:id",
+  authenticateToken,
+  async (req: Request, res: Response) => {
+    try {
+      const userId = req.user?.userId;
+      if (!userId) {
+        return res.status(401).json({ error: "User not authenticated" });
+      }
+
+      const job = await getIngestJob(req.params.id, userId);
+      if (!job) {
+        return res.status(404).json({ error: "Ingest job not found" });
+      }
+
+      res.json({
+        job: {
+          id: job.id,
+          phase: job.phase,
+          progress: job.progress,
+          error: job.error,
+          documentId: job.document_id,
+          matterId: job.matter_id,
+          originalName: job.original_name,
+          result: job.result,
+          createdAt: job.created_at,
+          updatedAt: job.updated_at,
+          startedAt: job.started_at,
+          completedAt: job.completed_at,
+        },
+      });
+    } catch (error: any) {
+      console.error("Failed to fetch ingest job:", error);
+      res.status(500).json({
+        error: "Failed to fetch ingest job",
+        message: error.message,
+      });
+    }
+  }
+);
+
 /**
  * GET /documents/:id
  * Get document details including extracted text and draft
@@ -147,9 +162,11 @@ router.get("/:id", authenticateToken, async (req: Request, res: Response) => {
 
     // Fetch document (user has access, so fetch it)
     const result = await query(
-      `SELECT id, owner_id, key, title, extracted_text, draft_text, status, created_at, updated_at
-         FROM documents
-         WHERE id = $1`,
+      `SELECT d.id, d.owner_id, d.key, d.title, d.extracted_text, d.structure, d.draft_text, d.status,
+              d.pii_spans, d.redaction_policy, d.document_type, d.draft_citations, d.extraction_quality, d.matter_id, m.title AS matter_title, d.created_at, d.updated_at
+         FROM documents d
+         LEFT JOIN matters m ON m.id = d.matter_id
+         WHERE d.id = $1`,
       [id]
     );
 
@@ -158,13 +175,46 @@ router.get("/:id", authenticateToken, async (req: Request, res: Response) => {
     }
 
     const doc = result.rows[0];
+
+    // Sibling source files generation will compose from (only those the
+    // user can open)
+    let matter = null;
+    if (doc.matter_id) {
+      const sourcesResult = await query(
+        `SELECT d.id, d.title, d.status
+           FROM documents d
+           WHERE d.matter_id = $1
+             AND (d.owner_id = $2 OR EXISTS (
+               SELECT 1 FROM document_collaborators c
+               WHERE c.document_id = d.id AND c.user_id = $2
+             ))
+           ORDER BY d.created_at ASC`,
+        [doc.matter_id, userId]
+      );
+      matter = {
+        id: doc.matter_id,
+        title: doc.matter_title,
+        documents: sourcesResult.rows.map((row) => ({
+          id: row.id,
+          title: row.title,
+          status: row.status,
+        })),
+      };
+    }
     res.json({
       document: {
         id: doc.id,
         title: doc.title,
         extractedText: doc.extracted_text || "",
+        structure: doc.structure || null,
         draftText: doc.draft_text || "",
         status: doc.status,
+        piiSpans: doc.pii_spans || [],
+        redactionPolicy: doc.redaction_policy || DEFAULT_REDACTION_POLICY,
+        documentType: doc.document_type || DEFAULT_DOCUMENT_TYPE,
+        draftCitations: doc.draft_citations || null,
+        extractionQuality: doc.extraction_quality || null,
+        matter,
         createdAt: doc.created_at,
         updatedAt: doc.updated_at,
       },
@@ -279,6 +329,104 @@ router.put(
   }
 );
 
+/**
+ * PUT /documents/:id/redaction
+ * Update a document's redaction policy and mark detected PII spans that are
+ * not sensitive (false positives) so they are sent and exported unchanged
+ * Body: { policy?: "none"|"mask"|"tokenize"|"drop", ignoredSpans?: [{start, end}] }
+ * Requires authentication via JWT cookie
+ */
+router.put(
+  "/:id/redaction",
+  authenticateToken,
+  async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+      const { policy, ignoredSpans } = req.body;
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        return res.status(401).json({ error: "User not authenticated" });
+      }
+
+      if (policy !== undefined && !parseRedactionPolicy(policy)) {
+        return res.status(400).json({
+          error: `policy must be one of: ${REDACTION_POLICIES.join(", ")}`,
+        });
+      }
+
+      if (
+        ignoredSpans !== undefined &&
+        (!Array.isArray(ignoredSpans) ||
+          !ignoredSpans.every(
+            (span: any) =>
+              Number.isInteger(span?.start) && Number.isInteger(span?.end)
+          ))
+      ) {
+        return res.status(400).json({
+          error: "ignoredSpans must be an array of { start, end } offsets",
+        });
+      }
+
+      // Check if user has access (owner or editor - viewers cannot edit)
+      const access = await checkDocumentAccess(id, userId);
+      if (!access || access === "viewer") {
+        return res.status(403).json({
+          error:
+            access === "viewer"
+              ? "Viewers cannot change redaction settings"
+              : "Document not found",
+        });
+      }
+
+      const current = await query(
+        `SELECT pii_spans, redaction_policy FROM documents WHERE id = $1`,
+        [id]
+      );
+      if (current.rows.length === 0) {
+        return res.status(404).json({ error: "Document not found" });
+      }
+
+      // ignoredSpans replaces the review state: listed spans are ignored,
+      // every other span is redacted again
+      let piiSpans: PiiSpan[] = current.rows[0].pii_spans || [];
+      if (ignoredSpans !== undefined) {
+        const ignored = new Set(
+          ignoredSpans.map((span: PiiSpan) => `${span.start}:${span.end}`)
+        );
+        piiSpans = piiSpans.map(({ ignored: _ignored, ...span }) =>
+          ignored.has(`${span.start}:${span.end}`)
+            ? { ...span, ignored: true }
+            : span
+        );
+      }
+
+      const result = await query(
+        `UPDATE documents
+         SET redaction_policy = $1, pii_spans = $2, updated_at = NOW()
+         WHERE id = $3
+         RETURNING pii_spans, redaction_policy`,
+        [
+          policy ?? current.rows[0].redaction_policy,
+          JSON.stringify(piiSpans),
+          id,
+        ]
+      );
+
+      res.json({
+        piiSpans: result.rows[0].pii_spans || [],
+        redactionPolicy: result.rows[0].redaction_policy,
+      });
+    } catch (error: any) {
+      console.error("Failed to update redaction settings:", error);
+      res.status(500).json({
+        error: "Failed to update redaction settings",
+        message: error.message,
+      });
+    }
+  }
+);
+
 /**
  * DELETE /documents/:id
  * Delete a document and its associated files
@@ -0,0 +1,369 @@
+import express, { Request, Response } from "express";
+import { authenticateToken } from "../middleware/auth";
+import { query, isMatterOwner } from "../db/pg";
+import { isValidUUID } from "../realtime/validation";
+
+interface MatterRow {
+  id: string;
+  title: string;
+  description: string | null;
+  created_at: string;
+  updated_at: string;
+  document_count?: string;
+}
+
+interface MatterResponse {
+  id: string;
+  title: string;
+  description: string | null;
+  documentCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+const router = express.Router();
+router.use(express.json({ limit: '10mb' }));
+router.use(authenticateToken);
+
+// IDs are UUIDs; anything else would fail the query's cast with a 500
+router.param("id", (req, res, next, id: string) => {
+  if (!isValidUUID(id)) {
+    res.status(400).json({ error: "Invalid matter ID" });
+    return;
+  }
+  next();
+});
+router.param("documentId", (req, res, next, documentId: string) => {
+  if (!isValidUUID(documentId)) {
+    res.status(400).json({ error: "Invalid document ID" });
+    return;
+  }
+  next();
+});
+
+function mapMatter(row: MatterRow): MatterResponse {
+  return {
+    id: row.id,
+    title: row.title,
+    description: row.description,
+    documentCount: parseInt(row.document_count || "0", 10),
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+function validateMatterInput(
+  title: unknown,
+  description: unknown
+): { title: string; description: string | null } | null {
+  if (typeof title !== "string" || title.trim().length === 0) {
+    return null;
+  }
+
+  if (title.trim().length > 255) {
+    return null;
+  }
+
+  if (description !== undefined && description !== null && typeof description !== "string") {
+    return null;
+  }
+
+  return {
+    title: title.trim(),
+    description: (description as string | null | undefined)?.trim() || null,
+  };
+}
+
+/**
+ * GET /matters
+ * List the user's matters with their document counts
+ */
+router.get("/", async (req: Request, res: Response) => {
+  const userId = req.user?.userId;
+  if (!userId) {
+    res.status(401).json({ error: "User not authenticated" });
+    return;
+  }
+
+  try {
+    const result = await query(
+      `
+        SELECT m.id, m.title, m.description, m.created_at, m.updated_at,
+               COUNT(d.id) AS document_count
+        FROM matters m
+        LEFT JOIN documents d ON d.matter_id = m.id
+        WHERE m.owner_id = $1
+        GROUP BY m.id
+        ORDER BY m.updated_at DESC
+      `,
+      [userId]
+    );
+
+    res.json({ matters: result.rows.map((row) => mapMatter(row as MatterRow)) });
+  } catch (error) {
+    console.error("Failed to fetch matters:", error);
+    res.status(500).json({ error: "Failed to load matters" });
+  }
+});
+
+/**
+ * GET /matters/:id
+ * Get a matter and the source documents grouped under it
+ */
+router.get("/:id", async (req: Request, res: Response) => {
+  const userId = req.user?.userId;
+  if (!userId) {
+    res.status(401).json({ error: "User not authenticated" });
+    return;
+  }
+
+  try {
+    const result = await query(
+      `
+        SELECT id, title, description, created_at, updated_at
+        FROM matters
+        WHERE id = $1 AND owner_id = $2
+      `,
+      [req.params.id, userId]
+    );
+
+    if (result.rows.length === 0) {
+      res.status(404).json({ error: "Matter not found" });
+      return;
+    }
+
+    const documentsResult = await query(
+      `
+        SELECT id, title, status, LENGTH(COALESCE(extracted_text, '')) AS extracted_length, created_at
+        FROM documents
+        WHERE matter_id = $1
+        ORDER BY created_at ASC
+      `,
+      [req.params.id]
+    );
+
+    const documents = documentsResult.rows.map((row) => ({
+      id: row.id,
+      title: row.title,
+      status: row.status,
+      extractedLength: parseInt(row.extracted_length || "0", 10),
+      createdAt: row.created_at,
+    }));
+
+    res.json({
+      matter: {
+        ...mapMatter({
+          ...(result.rows[0] as MatterRow),
+          document_count: String(documents.length),
+        }),
+        documents,
+      },
+    });
+  } catch (error) {
+    console.error("Failed to fetch matter:", error);
+    res.status(500).json({ error: "Failed to load matter" });
+  }
+});
+
+/**
+ * POST /matters
+ * Create a matter to group source documents
+ */
+router.post("/", async (req: Request, res: Response) => {
+  const userId = req.user?.userId;
+  if (!userId) {
+    res.status(401).json({ error: "User not authenticated" });
+    return;
+  }
+
+  const validated = validateMatterInput(req.body.title, req.body.description);
+  if (!validated) {
+    res.status(400).json({ error: "Title is required and must be <=255 chars" });
+    return;
+  }
+
+  try {
+    const result = await query(
+      `
+        INSERT INTO matters (owner_id, title, description)
+        VALUES ($1, $2, $3)
+        RETURNING id, title, description, created_at, updated_at
+      `,
+      [userId, validated.title, validated.description]
+    );
+
+    res.status(201).json({ matter: mapMatter(result.rows[0] as MatterRow) });
+  } catch (error) {
+    console.error("Failed to create matter:", error);
+    res.status(500).json({ error: "Failed to create matter" });
+  }
+});
+
+/**
+ * PUT /matters/:id
+ * Rename a matter or update its description
+ */
+router.put("/:id", async (req: Request, res: Response) => {
+  const userId = req.user?.userId;
+  if (!userId) {
+    res.status(401).json({ error: "User not authenticated" });
+    return;
+  }
+
+  const validated = validateMatterInput(req.body.title, req.body.description);
+  if (!validated) {
+    res.status(400).json({ error: "Title is required and must be <=255 chars" });
+    return;
+  }
+
+  try {
+    const result = await query(
+      `
+        UPDATE matters
+        SET title = $1,
+            description = $2,
+            updated_at = NOW()
+        WHERE id = $3 AND owner_id = $4
+        RETURNING id, title, description, created_at, updated_at
+      `,
+      [validated.title, validated.description, req.params.id, userId]
+    );
+
+    if (result.rows.length === 0) {
+      res.status(404).json({ error: "Matter not found" });
+      return;
+    }
+
+    res.json({ matter: mapMatter(result.rows[0] as MatterRow) });
+  } catch (error) {
+    console.error("Failed to update matter:", error);
+    res.status(500).json({ error: "Failed to update matter" });
+  }
+});
+
+/**
+ * DELETE /matters/:id
+ * Delete a matter; its documents are kept and become standalone
+ */
+router.delete("/:id", async (req: Request, res: Response) => {
+  const userId = req.user?.userId;
+  if (!userId) {
+    res.status(401).json({ error: "User not authenticated" });
+    return;
+  }
+
+  try {
+    const result = await query(
+      "DELETE FROM matters WHERE id = $1 AND owner_id = $2 RETURNING id",
+      [req.params.id, userId]
+    );
+
+    if (result.rows.length === 0) {
+      res.status(404).json({ error: "Matter not found" });
+      return;
+    }
+
+    res.status(204).send();
+  } catch (error) {
+    console.error("Failed to delete matter:", error);
+    res.status(500).json({ error: "Failed to delete matter" });
+  }
+});
+
+/**
+ * POST /matters/:id/documents
+ * Add an existing document (owned by the user) to a matter
+ */
+router.post("/:id/documents", async (req: Request, res: Response) => {
+  const userId = req.user?.userId;
+  if (!userId) {
+    res.status(401).json({ error: "User not authenticated" });
+    return;
+  }
+
+  const { documentId } = req.body;
+  if (!documentId || typeof documentId !== "string") {
+    res.status(400).json({ error: "Missing required field: documentId" });
+    return;
+  }
+  if (!isValidUUID(documentId)) {
+    res.status(400).json({ error: "Invalid document ID" });
+    return;
+  }
+
+  try {
+    if (!(await isMatterOwner(req.params.id, userId))) {
+      res.status(404).json({ error: "Matter not found" });
+      return;
+    }
+
+    // Only the document owner can regroup it; collaborators see the owner's matter
+    const result = await query(
+      `
+        UPDATE documents
+        SET matter_id = $1, updated_at = NOW()
+        WHERE id = $2 AND owner_id = $3
+        RETURNING id
+      `,
+      [req.params.id, documentId, userId]
+    );
+
+    if (result.rows.length === 0) {
+      res.status(404).json({ error: "Document not found" });
+      return;
+    }
+
+    await query(`UPDATE matters SET updated_at = NOW() WHERE id = $1`, [
+      req.params.id,
+    ]);
+
+    res.status(204).send();
+  } catch (error) {
+    console.error("Failed to add document to matter:", error);
+    res.status(500).json({ error: "Failed to add document to matter" });
+  }
+});
+
+/**
+ * DELETE /matters/:id/documents/:documentId
+ * Remove a document from a matter (the document itself is kept)
+ */
+router.delete(
+  "/:id/documents/:documentId",
+  async (req: Request, res: Response) => {
+    const userId = req.user?.userId;
+    if (!userId) {
+      res.status(401).json({ error: "User not authenticated" });
+      return;
+    }
+
+    try {
+      if (!(await isMatterOwner(req.params.id, userId))) {
+        res.status(404).json({ error: "Matter not found" });
+        return;
+      }
+
+      const result = await query(
+        `
+          UPDATE documents
+          SET matter_id = NULL, updated_at = NOW()
+          WHERE id = $1 AND matter_id = $2 AND owner_id = $3
+          RETURNING id
+        `,
+        [req.params.documentId, req.params.id, userId]
+      );
+
+      if (result.rows.length === 0) {
+        res.status(404).json({ error: "Document not found in matter" });
+        return;
+      }
+
+      res.status(204).send();
+    } catch (error) {
+      console.error("Failed to remove document from matter:", error);
+      res.status(500).json({ error: "Failed to remove document from matter" });
+    }
+  }
+);
+
+export default router;
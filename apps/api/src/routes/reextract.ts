@@ -0,0 +1,230 @@
+import express, { Request, Response } from "express";
+import crypto from "crypto";
+import { authenticateToken } from "../middleware/auth";
+import { query, checkDocumentAccess } from "../db/pg";
+import { saveExtraction } from "../jobs/ingest_job";
+import {
+  ExtractionOptions,
+  downloadObject,
+  extractFromBuffer,
+  validateExtractionOptions,
+} from "../lib/extract_basic";
+import { mimeTypeForFilename } from "../lib/file_types";
+import { diffLines } from "../lib/text_diff";
+
+const router = express.Router();
+router.use(express.json({ limit: '10mb' }));
+
+/**
+ * SHA-256 of a document's extracted text, used to detect edits between a
+ * re-extraction preview and applying it
+ */
+function hashText(text: string): string {
+  return crypto.createHash("sha256").update(text, "utf8").digest("hex");
+}
+
+/**
+ * Check the user can re-extract the document (owner or editor - viewers cannot)
+ * Sends the error response and returns false when they cannot
+ */
+async function requireEditAccess(req: Request, res: Response): Promise<boolean> {
+  const userId = req.user?.userId;
+  if (!userId) {
+    res.status(401).json({ error: "User not authenticated" });
+    return false;
+  }
+
+  const access = await checkDocumentAccess(req.params.id, userId);
+  if (!access || access === "viewer") {
+    res.status(403).json({
+      error:
+        access === "viewer"
+          ? "Viewers cannot re-extract documents"
+          : "Document not found",
+    });
+    return false;
+  }
+  return true;
+}
+
+/**
+ * POST /documents/:id/reextract
+ * Re-run extraction on the stored upload with different options and preview
+ * the result as a diff against the current extracted text. Nothing is
+ * replaced until the re-extraction is applied.
+ * Body: { forceOcr?: boolean, alternateParser?: boolean }
+ * Requires authentication via JWT cookie
+ */
+router.post(
+  "/:id/reextract",
+  authenticateToken,
+  async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+      const { forceOcr, alternateParser } = req.body || {};
+
+      if (
+        (forceOcr !== undefined && typeof forceOcr !== "boolean") ||
+        (alternateParser !== undefined && typeof alternateParser !== "boolean")
+      ) {
+        return res.status(400).json({
+          error: "Invalid options",
+          message: "forceOcr and alternateParser must be booleans",
+        });
+      }
+
+      if (!(await requireEditAccess(req, res))) return;
+
+      const result = await query(
+        `SELECT key, extracted_text, extraction_quality FROM documents WHERE id = $1`,
+        [id]
+      );
+      if (result.rows.length === 0) {
+        return res.status(404).json({ error: "Document not found" });
+      }
+      const doc = result.rows[0];
+
+      const mimeType = mimeTypeForFilename(doc.key);
+      if (!mimeType) {
+        return res.status(400).json({
+          error: "Unsupported file type",
+          message: "The uploaded file's type cannot be re-extracted",
+        });
+      }
+
+      const options: ExtractionOptions = {
+        forceOcr: forceOcr === true,
+        alternateParser: alternateParser === true,
+      };
+      const invalid = validateExtractionOptions(mimeType, options);
+      if (invalid) {
+        return res.status(400).json({ error: "Invalid options", message: invalid });
+      }
+
+      const uploadBucket = process.env.S3_UPLOAD_BUCKET;
+      if (!uploadBucket) {
+        return res.status(500).json({
+          error: "Server configuration error",
+          message: "S3_UPLOAD_BUCKET not configured",
+        });
+      }
+
+      const buffer = await downloadObject(uploadBucket, doc.key);
+      const extraction = await extractFromBuffer(
+        buffer,
+        mimeType,
+        doc.key,
+        0,
+        options
+      );
+
+      const previousText: string = doc.extracted_text || "";
+      const inserted = await query(
+        `INSERT INTO document_reextractions
+           (document_id, requested_by, options, base_hash, extracted_text,
+            structure, ocr_pages, quality)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+         RETURNING id`,
+        [
+          id,
+          req.user?.userId,
+          JSON.stringify(options),
+          hashText(previousText),
+          extraction.text,
+          JSON.stringify(extraction.structure),
+          JSON.stringify(extraction.ocrPages),
+          JSON.stringify(extraction.quality),
+        ]
+      );
+
+      res.json({
+        reextractionId: inserted.rows[0].id,
+        options,
+        previousQuality: doc.extraction_quality || null,
+        quality: extraction.quality,
+        ocrPages: extraction.ocrPages,
+        diff: diffLines(previousText, extraction.text),
+      });
+    } catch (error: any) {
+      console.error("Failed to re-extract document:", error);
+      res.status(500).json({
+        error: "Failed to re-extract document",
+        message: error.message,
+      });
+    }
+  }
+);
+
+/**
+ * POST /documents/:id/reextract/:reextractionId/apply
+ * Replace the document's extracted text (and chunks, PII spans, parsed
+ * billing items and quality report) with a previewed re-extraction
+ * Fails with 409 if the extracted text changed since the preview
+ * Requires authentication via JWT cookie
+ */
+router.post(
+  "/:id/reextract/:reextractionId/apply",
+  authenticateToken,
+  async (req: Request, res: Response) => {
+    try {
+      const { id, reextractionId } = req.params;
+
+      if (!(await requireEditAccess(req, res))) return;
+
+      const result = await query(
+        `SELECT r.base_hash, r.extracted_text, r.structure, r.ocr_pages, r.quality,
+                d.extracted_text AS current_text, d.title
+         FROM document_reextractions r
+         JOIN documents d ON d.id = r.document_id
+         WHERE r.id = $1 AND r.document_id = $2 AND r.applied_at IS NULL`,
+        [reextractionId, id]
+      );
+      if (result.rows.length === 0) {
+        return res.status(404).json({ error: "Re-extraction not found" });
+      }
+      const row = result.rows[0];
+
+      if (hashText(row.current_text || "") !== row.base_hash) {
+        return res.status(409).json({
+          error: "Extracted text has changed",
+          message: "Run the re-extraction again to preview against the current text",
+        });
+      }
+
+      const summary = await saveExtraction(
+        id,
+        {
+          text: row.extracted_text,
+          structure: row.structure,
+          ocrPages: row.ocr_pages || [],
+          quality: row.quality,
+        },
+        row.title
+      );
+
+      await query(
+        `UPDATE document_reextractions SET applied_at = NOW() WHERE id = $1`,
+        [reextractionId]
+      );
+
+      // Confirmed case facts cite spans of the old text; ask for a new review
+      await query(
+        `UPDATE documents
+         SET case_facts_confirmed_at = NULL
+         WHERE case_facts_confirmed_at IS NOT NULL
+           AND (id = $1 OR matter_id = (SELECT matter_id FROM documents WHERE id = $1))`,
+        [id]
+      );
+
+      res.json(summary);
+    } catch (error: any) {
+      console.error("Failed to apply re-extraction:", error);
+      res.status(500).json({
+        error: "Failed to apply re-extraction",
+        message: error.message,
+      });
+    }
+  }
+);
+
+export default router;
@@ -1,33 +1,71 @@
 import express, { Request, Response } from "express";
 import axios from "axios";
 import { authenticateToken } from "../middleware/auth";
-import { query, checkDocumentAccess } from "../db/pg";
+import {
+  query,
+  checkDocumentAccess,
+  createSuggestions,
+  refinementIsVersion,
+} from "../db/pg";
 import { idempotencyMiddleware } from "../middleware/idempotency";
-import { retry } from "../lib/retry";
+import { aiQuotaMiddleware } from "../middleware/quotas";
+import { invokeAiModel } from "../lib/ai_client";
+import { countTokens } from "../lib/tokenizer";
 import { cleanAiResponse } from "../lib/cleanAiResponse";
 import {
-  LambdaClient,
-  InvokeCommand,
-  InvokeCommandInput,
-} from "@aws-sdk/client-lambda";
+  RefineScope,
+  replaceScope,
+  resolveRefineScope,
+} from "../lib/refine_scope";
+import { suggestChanges } from "../lib/suggestions";
 import { checkActiveCollaborators } from "../realtime/connections";
 import { broadcastToDocument } from "../realtime/broadcast";
 
 const router = express.Router();
 router.use(express.json({ limit: '10mb' }));
 
+/**
+ * Prompt to rewrite one passage of the draft, with the rest as context
+ */
+function composePassagePrompt(
+  draft: string,
+  scope: RefineScope,
+  request: string
+): string {
+  return `You are a legal drafting assistant. Rewrite ONLY the passage marked between <<<PASSAGE>>> and <<<END>>> in the draft below, according to the user's request. Maintain professional tone and legal formatting, and keep the passage consistent with the surrounding text.
+
+**Current Draft:**
+${draft.slice(0, scope.start)}<<<PASSAGE>>>${draft.slice(scope.start, scope.end)}<<<END>>>${draft.slice(scope.end)}
+
+**User's Refinement Request:**
+${request}
+
+IMPORTANT: Return ONLY the rewritten passage, without the markers and without any other part of the draft. Do not include any introductory text, explanations, meta-commentary, or phrases like "Here's the rewritten passage". Start directly with the rewritten content.`;
+}
+
 /**
  * POST /ai/refine
  * Refine an existing draft using AI based on user instructions
+ * Body: { documentId, prompt, selection?, paragraphs?, mode? } - selection
+ *   ({ start, end, text? }, offsets into the draft) or paragraphs (indexes of
+ *   blank-line separated paragraphs, from 0) limit the rewrite to that
+ *   passage
+ * mode "apply" (default) saves the refined draft, and for a passage the
+ *   response includes edit: { start, end, original, replacement }, the span
+ *   replaced in the saved draft; mode "suggest" leaves the draft as it is and
+ *   stores the changes as pending suggestions, returned as suggestions (the
+ *   refinement is not a version of the draft until they are all accepted)
  * Requires authentication via JWT cookie
  */
 router.post(
   "/refine",
   authenticateToken,
   idempotencyMiddleware,
+  aiQuotaMiddleware,
   async (req: Request, res: Response) => {
     try {
-      const { documentId, prompt } = req.body;
+      const { documentId, prompt, selection, paragraphs } = req.body;
+      const mode = req.body.mode ?? "apply";
       const userId = req.user?.userId;
 
       // Validate required fields
@@ -37,23 +75,16 @@ router.post(
         });
       }
 
+      if (mode !== "suggest" && mode !== "apply") {
+        return res.status(400).json({
+          error: 'mode must be "suggest" or "apply"',
+        });
+      }
+
       if (!userId) {
         return res.status(401).json({ error: "User not authenticated" });
       }
 
-      // Get AI Lambda function name from environment
-      const aiFunctionName =
-        process.env.AI_FUNCTION_NAME ||
-        `${process.env.APP || "stenoai"}-${process.env.ENV || "dev"}-ai`;
-
-      // Use Lambda client for direct invocation (works within VPC)
-      const lambdaClient = new LambdaClient({
-        region: process.env.REGION || "us-east-1",
-        requestHandler: {
-          requestTimeout: 110000, // 110s timeout (less than Lambda's 120s)
-        },
-      });
-
       // Check if user has access (owner or editor - viewers cannot refine)
       const access = await checkDocumentAccess(documentId, userId);
       if (!access || access === "viewer") {
@@ -86,6 +117,26 @@ router.post(
         });
       }
 
+      // A selection or paragraphs limit the rewrite to one passage
+      const { scope, problem } = resolveRefineScope(
+        currentDraft,
+        selection,
+        paragraphs
+      );
+      if (problem === "invalid") {
+        return res.status(400).json({
+          error:
+            "selection must be { start, end, text? } within the draft, or paragraphs a list of paragraph indexes",
+        });
+      }
+      if (problem === "missing") {
+        return res.status(409).json({
+          error: "Selection not found",
+          message:
+            "The selected text is not in the saved draft. Wait for your changes to save and try again.",
+        });
+      }
+
       // Check if there are active collaborators (for logging)
       const hasActiveCollaborators = await checkActiveCollaborators(documentId);
 
@@ -99,7 +150,9 @@ router.post(
       });
 
       // Compose refinement prompt
-      const refinementPrompt = `You are a legal drafting assistant. Refine the following draft according to the user's request. Maintain professional tone and legal formatting.
+      const refinementPrompt = scope
+        ? composePassagePrompt(currentDraft, scope, prompt)
+        : `You are a legal drafting assistant. Refine the following draft according to the user's request. Maintain professional tone and legal formatting.
 
 **Current Draft:**
 ${currentDraft}
@@ -111,94 +164,81 @@ Generate the refined version of the draft that incorporates the user's requested
 
 IMPORTANT: Return ONLY the refined draft text. Do not include any introductory text, explanations, meta-commentary, or phrases like "Here's the refined version" or "Here is the refined version". Start directly with the refined content.`;
 
-      // Call AI Lambda directly with retry logic
-      const aiResponse = await retry(
-        async () => {
-          // Format event for Mangum (API Gateway HTTP API v2 format)
-          const event = {
-            version: "2.0",
-            routeKey: "POST /generate",
-            rawPath: "/generate",
-            rawQueryString: "",
-            headers: {
-              "content-type": "application/json",
-              host: "localhost",
-              "user-agent": "lambda-invoke",
-            },
-            requestContext: {
-              http: {
-                method: "POST",
-                path: "/generate",
-                sourceIp: "127.0.0.1",
-                userAgent: "lambda-invoke",
-              },
-              requestId: `req-${Date.now()}`,
-              domainName: "lambda.internal",
-              stage: "prod",
-            },
-            body: JSON.stringify({ prompt: refinementPrompt }),
-            isBase64Encoded: false,
-          };
-
-          const invokeParams: InvokeCommandInput = {
-            FunctionName: aiFunctionName,
-            Payload: JSON.stringify(event),
-            InvocationType: "RequestResponse",
-          };
-
-          console.log(`Invoking AI Lambda: ${aiFunctionName}`);
-          const command = new InvokeCommand(invokeParams);
-          const startTime = Date.now();
-          const response = await lambdaClient.send(command);
-          const duration = Date.now() - startTime;
-          console.log(`AI Lambda invocation completed in ${duration}ms`);
-
-          if (response.FunctionError) {
-            const errorPayload = response.Payload
-              ? JSON.parse(new TextDecoder().decode(response.Payload))
-              : null;
-            throw new Error(
-              `Lambda invocation failed: ${
-                response.FunctionError
-              } - ${JSON.stringify(errorPayload)}`
-            );
-          }
-
-          const payload = JSON.parse(
-            new TextDecoder().decode(response.Payload)
-          );
-
-          // Handle Mangum response format (API Gateway HTTP API v2)
-          if (payload.statusCode === 200 && payload.body) {
-            return { data: JSON.parse(payload.body) };
-          } else if (payload.statusCode) {
-            throw new Error(
-              `AI Lambda returned error: ${payload.statusCode} - ${
-                payload.body || JSON.stringify(payload)
-              }`
-            );
-          }
-          // Fallback: try to parse as direct response
-          return { data: payload };
-        },
-        { maxAttempts: 5, initialDelayMs: 100 }
-      );
-
-      let refinedText = aiResponse.data.text || "";
+      await req.aiCalls?.charge();
+      const aiText = await invokeAiModel(refinementPrompt);
 
       // Clean the response to remove any unwanted prefix text
-      refinedText = cleanAiResponse(refinedText);
-
-      // Store refinement in database
+      const cleanedText = cleanAiResponse(aiText);
+
+      // A passage is put back in place; the rest of the draft is unchanged
+      const passage = scope
+        ? replaceScope(currentDraft, scope, cleanedText)
+        : null;
+      const refinedText = passage ? passage.draftText : cleanedText;
+      const edit =
+        scope && passage
+          ? {
+              start: scope.start,
+              end: scope.end,
+              original: currentDraft.slice(scope.start, scope.end),
+              replacement: passage.replacement,
+            }
+          : null;
+
+      // Store refinement in database, with the tokens counted against quotas
       const refinementResult = await query(
-        `INSERT INTO refinements (document_id, prompt, result)
-         VALUES ($1, $2, $3)
+        `INSERT INTO refinements
+           (document_id, prompt, result, user_id, input_tokens, output_tokens,
+            scope_start, scope_end, original_text, replacement, mode)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
          RETURNING id`,
-        [documentId, prompt, refinedText]
+        [
+          documentId,
+          prompt,
+          refinedText,
+          userId,
+          countTokens(refinementPrompt),
+          countTokens(aiText),
+          edit?.start ?? null,
+          edit?.end ?? null,
+          edit?.original ?? null,
+          edit?.replacement ?? null,
+          mode,
+        ]
       );
 
       const refinementId = refinementResult.rows[0].id;
 
+      if (mode === "suggest") {
+        // The draft stays as it is until editors accept the changes
+        const suggestions = suggestChanges(
+          currentDraft,
+          scope ?? { start: 0, end: currentDraft.length },
+          cleanedText
+        );
+        await createSuggestions(documentId, refinementId, userId, suggestions);
+
+        await broadcastToDocument(documentId, {
+          type: "refinement_complete",
+          documentId,
+        }).catch((error) => {
+          console.warn("Failed to broadcast refinement_complete:", error);
+        });
+        await broadcastToDocument(documentId, {
+          type: "suggestions_updated",
+          documentId,
+        }).catch((error) => {
+          console.warn("Failed to broadcast suggestions_updated:", error);
+        });
+
+        return res.json({
+          success: true,
+          refinementId,
+          mode,
+          suggestions,
+        });
+      }
+
       // Update document with refined draft
       await query(
         `UPDATE documents
@@ -209,10 +249,12 @@ IMPORTANT: Return ONLY the refined draft text. Do not include any introductory t
 
       // Always broadcast refinement_complete event - broadcastToDocument will handle no connections gracefully
       // This ensures all connected users see the refinement, even if checkActiveCollaborators missed them
+      // A passage edit reaches collaborators as the requester's Y.js
+      // transaction, so only the edit is announced, not the whole draft
       await broadcastToDocument(documentId, {
         type: "refinement_complete",
         documentId,
-        draftText: refinedText,
+        ...(edit ? { edit } : { draftText: refinedText }),
       }).catch((error) => {
         // Log but don't fail refinement if broadcast fails
         console.warn("Failed to broadcast refinement_complete:", error);
@@ -222,7 +264,9 @@ IMPORTANT: Return ONLY the refined draft text. Do not include any introductory t
       res.json({
         success: true,
         refinementId,
+        mode,
         draftText: refinedText,
+        ...(edit && { edit }),
       });
     } catch (error: any) {
       console.error("Refinement error:", error);
@@ -299,7 +343,7 @@ router.get(
       const refinementsResult = await query(
         `SELECT id, prompt, result, created_at
          FROM refinements
-         WHERE document_id = $1
+         WHERE document_id = $1 AND ${refinementIsVersion("refinements")}
          ORDER BY created_at DESC`,
         [documentId]
       );
@@ -360,139 +404,4 @@ router.get(
   }
 );
 
-/**
- * POST /documents/:id/restore
- * Restore a document draft to a previous refinement version
- * Requires authentication via JWT cookie
- */
-router.post(
-  "/:id/restore",
-  authenticateToken,
-  idempotencyMiddleware,
-  async (req: Request, res: Response) => {
-    try {
-      const { id: documentId } = req.params;
-      const { refinementId } = req.body;
-      const userId = req.user?.userId;
-
-      // Validate required fields
-      if (!refinementId) {
-        return res.status(400).json({
-          error: "Missing required field: refinementId",
-        });
-      }
-
-      if (!userId) {
-        return res.status(401).json({ error: "User not authenticated" });
-      }
-
-      // Check if user has access (owner or editor - viewers cannot restore)
-      const access = await checkDocumentAccess(documentId, userId);
-      if (!access || access === "viewer") {
-        return res.status(403).json({ 
-          error: access === "viewer" 
-            ? "Viewers cannot restore document versions" 
-            : "Document not found" 
-        });
-      }
-
-      // Fetch document (owner or editor can proceed)
-      const docResult = await query(
-        `SELECT id, owner_id
-         FROM documents
-         WHERE id = $1`,
-        [documentId]
-      );
-
-      if (docResult.rows.length === 0) {
-        return res.status(404).json({ error: "Document not found" });
-      }
-
-      // Handle restoring to original draft
-      if (refinementId === "original") {
-        const originalDocResult = await query(
-          `SELECT draft_text, updated_at FROM documents WHERE id = $1`,
-          [documentId]
-        );
-
-        if (originalDocResult.rows.length === 0) {
-          return res.status(404).json({ error: "Document not found" });
-        }
-
-        const originalDraftText = originalDocResult.rows[0].draft_text;
-        const originalUpdatedAt = originalDocResult.rows[0].updated_at;
-
-        if (!originalDraftText || originalDraftText.trim().length === 0) {
-          return res.status(400).json({
-            error: "Original draft not found or is empty",
-          });
-        }
-
-        // Delete all refinements (they all came after the original)
-        await query(`DELETE FROM refinements WHERE document_id = $1`, [
-          documentId,
-        ]);
-
-        // Update document with original draft
-        await query(
-          `UPDATE documents
-               SET draft_text = $1, updated_at = NOW()
-               WHERE id = $2`,
-          [originalDraftText, documentId]
-        );
-
-        res.json({
-          success: true,
-          draftText: originalDraftText,
-        });
-        return;
-      }
-
-      // Fetch refinement and verify it belongs to this document
-      const refinementResult = await query(
-        `SELECT id, result, created_at
-         FROM refinements
-         WHERE id = $1 AND document_id = $2`,
-        [refinementId, documentId]
-      );
-
-      if (refinementResult.rows.length === 0) {
-        return res.status(404).json({
-          error: "Refinement not found or does not belong to this document",
-        });
-      }
-
-      const refinement = refinementResult.rows[0];
-      const restoredText = refinement.result;
-      const restoredCreatedAt = refinement.created_at;
-
-      // Delete all refinements created AFTER this one (newer versions)
-      await query(
-        `DELETE FROM refinements
-         WHERE document_id = $1 AND created_at > $2`,
-        [documentId, restoredCreatedAt]
-      );
-
-      // Update document with restored draft
-      await query(
-        `UPDATE documents
-         SET draft_text = $1, updated_at = NOW()
-         WHERE id = $2`,
-        [restoredText, documentId]
-      );
-
-      res.json({
-        success: true,
-        draftText: restoredText,
-      });
-    } catch (error: any) {
-      console.error("Restore error:", error);
-      res.status(500).json({
-        error: "Restore failed",
-        message: error.message || "Unknown error",
-      });
-    }
-  }
-);
-
 export default router;
@@ -0,0 +1,328 @@
+import express, { Request, Response } from "express";
+import { authenticateToken } from "../middleware/auth";
+import {
+  query,
+  checkDocumentAccess,
+  getSpecialsItems,
+  replaceParsedSpecials,
+} from "../db/pg";
+import {
+  SpecialsLedger,
+  buildLedger,
+  normalizeSpecialsItem,
+  parseBillingItems,
+} from "../lib/specials";
+
+const router = express.Router();
+router.use(express.json({ limit: '10mb' }));
+
+/**
+ * IDs of the documents whose line items make up a document's ledger: every
+ * source file in its matter the user can open, or just the document itself
+ * @returns null if the document does not exist
+ */
+async function ledgerDocumentIds(
+  documentId: string,
+  userId: string
+): Promise<string[] | null> {
+  const result = await query(
+    `SELECT d.id
+     FROM documents d
+     JOIN documents target ON target.id = $1
+     WHERE d.id = target.id
+        OR (target.matter_id IS NOT NULL AND d.matter_id = target.matter_id
+            AND (d.owner_id = $2 OR EXISTS (
+              SELECT 1 FROM document_collaborators c
+              WHERE c.document_id = d.id AND c.user_id = $2
+            )))
+     ORDER BY d.created_at ASC`,
+    [documentId, userId]
+  );
+  return result.rows.length > 0 ? result.rows.map((row) => row.id) : null;
+}
+
+/**
+ * Load the ledger (items, duplicates and totals) for a set of documents
+ */
+async function loadLedger(documentIds: string[]): Promise<SpecialsLedger> {
+  return buildLedger(await getSpecialsItems(documentIds));
+}
+
+/**
+ * Check the user can edit the ledger (owner or editor - viewers cannot)
+ * Sends the error response and returns null when they cannot
+ */
+async function requireEditAccess(
+  req: Request,
+  res: Response
+): Promise<string[] | null> {
+  const userId = req.user?.userId;
+  if (!userId) {
+    res.status(401).json({ error: "User not authenticated" });
+    return null;
+  }
+
+  const access = await checkDocumentAccess(req.params.id, userId);
+  if (!access || access === "viewer") {
+    res.status(403).json({
+      error:
+        access === "viewer"
+          ? "Viewers cannot edit medical specials"
+          : "Document not found",
+    });
+    return null;
+  }
+
+  const documentIds = await ledgerDocumentIds(req.params.id, userId);
+  if (!documentIds) {
+    res.status(404).json({ error: "Document not found" });
+    return null;
+  }
+  return documentIds;
+}
+
+/**
+ * GET /documents/:id/specials
+ * Get the medical specials ledger for a document (or its whole matter)
+ * Returns every line item with duplicate flags, plus computed totals
+ * Requires authentication via JWT cookie
+ */
+router.get(
+  "/:id/specials",
+  authenticateToken,
+  async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        return res.status(401).json({ error: "User not authenticated" });
+      }
+
+      const access = await checkDocumentAccess(id, userId);
+      if (!access) {
+        return res.status(404).json({ error: "Document not found" });
+      }
+
+      const documentIds = await ledgerDocumentIds(id, userId);
+      if (!documentIds) {
+        return res.status(404).json({ error: "Document not found" });
+      }
+
+      res.json(await loadLedger(documentIds));
+    } catch (error: any) {
+      console.error("Failed to fetch medical specials:", error);
+      res.status(500).json({
+        error: "Failed to fetch medical specials",
+        message: error.message,
+      });
+    }
+  }
+);
+
+/**
+ * POST /documents/:id/specials
+ * Add a line item by hand
+ * Body: { provider, billed, serviceDate?, code?, description?, paid?, adjusted? }
+ * Requires authentication via JWT cookie
+ */
+router.post(
+  "/:id/specials",
+  authenticateToken,
+  async (req: Request, res: Response) => {
+    try {
+      const item = normalizeSpecialsItem(req.body);
+      if (!item) {
+        return res.status(400).json({
+          error:
+            "A line item needs a provider and a non-negative billed amount; serviceDate must be a date",
+        });
+      }
+
+      const documentIds = await requireEditAccess(req, res);
+      if (!documentIds) return;
+
+      await query(
+        `INSERT INTO medical_specials
+           (document_id, origin, provider, service_date, code, description,
+            billed, paid, adjusted)
+         VALUES ($1, 'manual', $2, $3, $4, $5, $6, $7, $8)`,
+        [
+          req.params.id,
+          item.provider,
+          item.serviceDate,
+          item.code,
+          item.description,
+          item.billed,
+          item.paid,
+          item.adjusted,
+        ]
+      );
+
+      res.status(201).json(await loadLedger(documentIds));
+    } catch (error: any) {
+      console.error("Failed to add medical special:", error);
+      res.status(500).json({
+        error: "Failed to add medical special",
+        message: error.message,
+      });
+    }
+  }
+);
+
+/**
+ * POST /documents/:id/specials/reparse
+ * Parse the line items again from each source document's extracted text
+ * Replaces parsed items; items added by hand are kept
+ * Requires authentication via JWT cookie
+ */
+router.post(
+  "/:id/specials/reparse",
+  authenticateToken,
+  async (req: Request, res: Response) => {
+    try {
+      const documentIds = await requireEditAccess(req, res);
+      if (!documentIds) return;
+
+      const sources = await query(
+        `SELECT id, title, extracted_text FROM documents WHERE id = ANY($1)`,
+        [documentIds]
+      );
+      for (const source of sources.rows) {
+        await replaceParsedSpecials(
+          source.id,
+          parseBillingItems(
+            source.extracted_text || "",
+            source.title || source.id
+          )
+        );
+      }
+
+      res.json(await loadLedger(documentIds));
+    } catch (error: any) {
+      console.error("Failed to re-parse medical specials:", error);
+      res.status(500).json({
+        error: "Failed to re-parse medical specials",
+        message: error.message,
+      });
+    }
+  }
+);
+
+/**
+ * PUT /documents/:id/specials/:itemId
+ * Edit a line item, or include/exclude it from the totals
+ * Body: the item's fields, and/or { excluded: true | false | null }
+ * (null hands the decision back to duplicate detection)
+ * Requires authentication via JWT cookie
+ */
+router.put(
+  "/:id/specials/:itemId",
+  authenticateToken,
+  async (req: Request, res: Response) => {
+    try {
+      const { itemId } = req.params;
+      const { excluded } = req.body;
+      const hasFields =
+        req.body.provider !== undefined || req.body.billed !== undefined;
+      const item = hasFields ? normalizeSpecialsItem(req.body) : null;
+
+      if (hasFields && !item) {
+        return res.status(400).json({
+          error:
+            "A line item needs a provider and a non-negative billed amount; serviceDate must be a date",
+        });
+      }
+      if (
+        excluded !== undefined &&
+        excluded !== null &&
+        typeof excluded !== "boolean"
+      ) {
+        return res.status(400).json({
+          error: "excluded must be true, false or null",
+        });
+      }
+      if (!item && excluded === undefined) {
+        return res.status(400).json({ error: "Nothing to update" });
+      }
+
+      const documentIds = await requireEditAccess(req, res);
+      if (!documentIds) return;
+
+      const result = await query(
+        `UPDATE medical_specials
+         SET provider = COALESCE($3, provider),
+             service_date = CASE WHEN $4 THEN $5::date ELSE service_date END,
+             code = CASE WHEN $4 THEN $6 ELSE code END,
+             description = COALESCE($7, description),
+             billed = COALESCE($8, billed),
+             paid = COALESCE($9, paid),
+             adjusted = COALESCE($10, adjusted),
+             excluded = CASE WHEN $11 THEN $12::boolean ELSE excluded END,
+             updated_at = NOW()
+         WHERE id = $1 AND document_id = ANY($2)`,
+        [
+          itemId,
+          documentIds,
+          item?.provider ?? null,
+          item !== null,
+          item?.serviceDate ?? null,
+          item?.code ?? null,
+          item?.description ?? null,
+          item?.billed ?? null,
+          item?.paid ?? null,
+          item?.adjusted ?? null,
+          excluded !== undefined,
+          excluded ?? null,
+        ]
+      );
+
+      if (result.rowCount === 0) {
+        return res.status(404).json({ error: "Line item not found" });
+      }
+
+      res.json(await loadLedger(documentIds));
+    } catch (error: any) {
+      console.error("Failed to update medical special:", error);
+      res.status(500).json({
+        error: "Failed to update medical special",
+        message: error.message,
+      });
+    }
+  }
+);
+
+/**
+ * DELETE /documents/:id/specials/:itemId
+ * Remove a line item from the ledger
+ * Requires authentication via JWT cookie
+ */
+router.delete(
+  "/:id/specials/:itemId",
+  authenticateToken,
+  async (req: Request, res: Response) => {
+    try {
+      const documentIds = await requireEditAccess(req, res);
+      if (!documentIds) return;
+
+      const result = await query(
+        `DELETE FROM medical_specials WHERE id = $1 AND document_id = ANY($2)`,
+        [req.params.itemId, documentIds]
+      );
+
+      if (result.rowCount === 0) {
+        return res.status(404).json({ error: "Line item not found" });
+      }
+
+      res.json(await loadLedger(documentIds));
+    } catch (error: any) {
+      console.error("Failed to delete medical special:", error);
+      res.status(500).json({
+        error: "Failed to delete medical special",
+        message: error.message,
+      });
+    }
+  }
+);
+
+export default router;
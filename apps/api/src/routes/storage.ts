@@ -8,6 +8,7 @@ import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
 import { v4 as uuidv4 } from "uuid";
 import { authenticateToken } from "../middleware/auth";
 import { retry } from "../lib/retry";
+import { uploadExtensionForMimeType } from "../lib/file_types";
 
 const router = express.Router();
 router.use(express.json({ limit: '10mb' }));
@@ -24,18 +25,9 @@ function getExtension(contentType?: string, fileName?: string): string {
     if (match) return match[1];
   }
 
-  // Map common MIME types to extensions
-  const mimeMap: Record<string, string> = {
-    "application/pdf": "pdf",
-    "application/vnd.openxmlformats-officedocument.wordprocessingml.document":
-      "docx",
-    "application/msword": "doc",
-    "text/plain": "txt",
-  };
-
+  // Map supported MIME types (documents and ZIP archives) to extensions
   if (contentType) {
-    const baseType = contentType.split(";")[0].trim();
-    return mimeMap[baseType] || "bin";
+    return uploadExtensionForMimeType(contentType) || "bin";
   }
 
   return "bin";
@@ -0,0 +1,205 @@
+import express, { Request, Response } from "express";
+import { authenticateToken } from "../middleware/auth";
+import {
+  query,
+  checkDocumentAccess,
+  decideSuggestion,
+  getSuggestion,
+  getSuggestions,
+} from "../db/pg";
+import { nearestOccurrence } from "../lib/refine_scope";
+import { SuggestionStatus } from "../lib/suggestions";
+import { broadcastToDocument } from "../realtime/broadcast";
+
+const router = express.Router();
+router.use(express.json({ limit: '10mb' }));
+
+const SUGGESTION_STATUSES: SuggestionStatus[] = [
+  "pending",
+  "accepted",
+  "rejected",
+];
+
+/**
+ * GET /documents/:id/suggestions
+ * Get a document's suggested changes, pending only unless ?status= says
+ * otherwise ("accepted", "rejected" or "all")
+ * Viewers can see suggestions but not decide them
+ * Requires authentication via JWT cookie
+ */
+router.get(
+  "/:id/suggestions",
+  authenticateToken,
+  async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+      const userId = req.user?.userId;
+      const status = req.query.status ?? "pending";
+
+      if (!userId) {
+        return res.status(401).json({ error: "User not authenticated" });
+      }
+
+      if (
+        status !== "all" &&
+        !SUGGESTION_STATUSES.includes(status as SuggestionStatus)
+      ) {
+        return res.status(400).json({
+          error: `status must be one of ${SUGGESTION_STATUSES.join(", ")}, all`,
+        });
+      }
+
+      const access = await checkDocumentAccess(id, userId);
+      if (!access) {
+        return res.status(404).json({ error: "Document not found" });
+      }
+
+      const suggestions = await getSuggestions(
+        id,
+        status === "all" ? null : (status as SuggestionStatus)
+      );
+      res.json({ suggestions, canDecide: access !== "viewer" });
+    } catch (error: any) {
+      console.error("Failed to fetch suggestions:", error);
+      res.status(500).json({
+        error: "Failed to fetch suggestions",
+        message: error.message,
+      });
+    }
+  }
+);
+
+/**
+ * Handler accepting or rejecting one suggestion
+ * Accepting applies the change to the saved draft where its original text
+ * is (nearest where it was suggested) and returns it as edit: { start, end,
+ * original, replacement } for the editor to apply to the shared document.
+ */
+function decide(status: "accepted" | "rejected") {
+  return async (req: Request, res: Response) => {
+    try {
+      const { id, suggestionId } = req.params;
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        return res.status(401).json({ error: "User not authenticated" });
+      }
+
+      // Viewers can see suggestions but not decide them
+      const access = await checkDocumentAccess(id, userId);
+      if (!access || access === "viewer") {
+        return res.status(access ? 403 : 404).json({
+          error:
+            access === "viewer"
+              ? "Viewers cannot accept or reject suggestions"
+              : "Document not found",
+        });
+      }
+
+      const pending = await getSuggestion(id, suggestionId);
+      if (!pending) {
+        return res.status(404).json({ error: "Suggestion not found" });
+      }
+      if (pending.status !== "pending") {
+        return res.status(409).json({
+          error: "Suggestion already decided",
+          message: `This suggestion was already ${pending.status}.`,
+        });
+      }
+
+      let edit = null;
+      let draftText: string | null = null;
+      if (status === "accepted") {
+        const docResult = await query(
+          `SELECT draft_text FROM documents WHERE id = $1`,
+          [id]
+        );
+        const draft: string = docResult.rows[0]?.draft_text ?? "";
+        const start = nearestOccurrence(draft, pending.original, pending.start);
+        if (start < 0) {
+          return res.status(409).json({
+            error: "Suggestion out of date",
+            message:
+              "The text this suggestion changes is no longer in the draft. Reject it instead.",
+          });
+        }
+        edit = {
+          start,
+          end: start + pending.original.length,
+          original: pending.original,
+          replacement: pending.replacement,
+        };
+        draftText =
+          draft.slice(0, edit.start) + edit.replacement + draft.slice(edit.end);
+      }
+
+      const suggestion = await decideSuggestion(id, suggestionId, userId, status);
+
+      if (draftText !== null) {
+        await query(
+          `UPDATE documents
+           SET draft_text = $1, updated_at = NOW()
+           WHERE id = $2`,
+          [draftText, id]
+        );
+      }
+
+      // The accepted change reaches collaborators as the decider's Y.js
+      // transaction; everyone refreshes their list of suggestions
+      await broadcastToDocument(id, {
+        type: "suggestions_updated",
+        documentId: id,
+        suggestionId,
+        status,
+      }).catch((error) => {
+        console.warn("Failed to broadcast suggestions_updated:", error);
+      });
+
+      res.json({ suggestion, ...(edit && { edit }) });
+    } catch (error: any) {
+      // Decided by someone else between the check and the update
+      if (error.message === "SUGGESTION_NOT_FOUND") {
+        return res.status(404).json({ error: "Suggestion not found" });
+      }
+      if (error.message?.startsWith("SUGGESTION_")) {
+        return res.status(409).json({
+          error: "Suggestion already decided",
+          message: `This suggestion was already ${error.message
+            .slice("SUGGESTION_".length)
+            .toLowerCase()}.`,
+        });
+      }
+      console.error(`Failed to mark suggestion ${status}:`, error);
+      res.status(500).json({
+        error: "Failed to update suggestion",
+        message: error.message,
+      });
+    }
+  };
+}
+
+/**
+ * POST /documents/:id/suggestions/:suggestionId/accept
+ * Accept a pending suggestion and apply it to the draft
+ * Response: { suggestion, edit }
+ * Requires authentication via JWT cookie
+ */
+router.post(
+  "/:id/suggestions/:suggestionId/accept",
+  authenticateToken,
+  decide("accepted")
+);
+
+/**
+ * POST /documents/:id/suggestions/:suggestionId/reject
+ * Reject a pending suggestion, leaving the draft unchanged
+ * Response: { suggestion }
+ * Requires authentication via JWT cookie
+ */
+router.post(
+  "/:id/suggestions/:suggestionId/reject",
+  authenticateToken,
+  decide("rejected")
+);
+
+export default router;
@@ -1,11 +1,18 @@
 import express, { Request, Response } from "express";
 import { authenticateToken } from "../middleware/auth";
 import { query } from "../db/pg";
+import {
+  TemplateVariable,
+  listBuiltinVariables,
+  normalizeTemplateVariables,
+  validateMergeTemplate,
+} from "../lib/merge_fields";
 
 interface TemplateRow {
   id: string;
   title: string;
   content: string;
+  variables: TemplateVariable[] | null;
   is_global: boolean;
   owner_id: string | null;
   created_at: string;
@@ -17,6 +24,7 @@ interface TemplateResponse {
   id: string;
   title: string;
   content: string;
+  variables: TemplateVariable[];
   isGlobal: boolean;
   ownerId: string | null;
   createdAt: string;
@@ -33,6 +41,7 @@ function mapTemplate(row: TemplateRow, userId: string): TemplateResponse {
     id: row.id,
     title: row.title,
     content: row.content,
+    variables: row.variables ?? [],
     isGlobal: row.is_global,
     ownerId: row.owner_id,
     createdAt: row.created_at,
@@ -63,6 +72,21 @@ function validateTemplateInput(
   };
 }
 
+/**
+ * Check the variable schema and the merge fields of template content
+ * @returns The normalized variables and any problems found
+ */
+function validateMergeFields(
+  content: string,
+  variablesInput: unknown
+): { variables: TemplateVariable[]; problems: string[] } {
+  const { variables, problems } = normalizeTemplateVariables(variablesInput);
+  if (problems.length > 0) {
+    return { variables, problems };
+  }
+  return { variables, problems: validateMergeTemplate(content, variables) };
+}
+
 router.get("/", async (req: Request, res: Response) => {
   const userId = req.user?.userId;
   if (!userId) {
@@ -73,7 +97,7 @@ router.get("/", async (req: Request, res: Response) => {
   try {
     const result = await query(
       `
-        SELECT id, title, content, is_global, owner_id, created_at, updated_at, last_used_at
+        SELECT id, title, content, variables, is_global, owner_id, created_at, updated_at, last_used_at
         FROM templates
         WHERE owner_id = $1 OR is_global = true
         ORDER BY 
@@ -95,6 +119,14 @@ router.get("/", async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * GET /templates/merge-fields
+ * Variables filled from the case file that templates can declare
+ */
+router.get("/merge-fields", (_req: Request, res: Response) => {
+  res.json({ builtins: listBuiltinVariables() });
+});
+
 router.get("/:id", async (req: Request, res: Response) => {
   const userId = req.user?.userId;
   if (!userId) {
@@ -105,7 +137,7 @@ router.get("/:id", async (req: Request, res: Response) => {
   try {
     const result = await query(
       `
-        SELECT id, title, content, is_global, owner_id, created_at, updated_at
+        SELECT id, title, content, variables, is_global, owner_id, created_at, updated_at
         FROM templates
         WHERE id = $1 AND (owner_id = $2 OR is_global = true)
       `,
@@ -140,14 +172,28 @@ router.post("/", async (req: Request, res: Response) => {
     return;
   }
 
+  const merge = validateMergeFields(validated.content, req.body.variables);
+  if (merge.problems.length > 0) {
+    res.status(400).json({
+      error: "Invalid merge fields",
+      message: merge.problems.join("; "),
+    });
+    return;
+  }
+
   try {
     const result = await query(
       `
-        INSERT INTO templates (title, content, owner_id, is_global)
-        VALUES ($1, $2, $3, false)
-        RETURNING id, title, content, is_global, owner_id, created_at, updated_at
+        INSERT INTO templates (title, content, variables, owner_id, is_global)
+        VALUES ($1, $2, $3, $4, false)
+        RETURNING id, title, content, variables, is_global, owner_id, created_at, updated_at
       `,
-      [validated.title, validated.content, userId]
+      [
+        validated.title,
+        validated.content,
+        JSON.stringify(merge.variables),
+        userId,
+      ]
     );
 
     const template = mapTemplate(result.rows[0] as TemplateRow, userId);
@@ -170,7 +216,7 @@ router.put("/:id", async (req: Request, res: Response) => {
   try {
     const existing = await query(
       `
-        SELECT owner_id, is_global
+        SELECT owner_id, is_global, variables
         FROM templates
         WHERE id = $1
       `,
@@ -205,16 +251,38 @@ router.put("/:id", async (req: Request, res: Response) => {
       return;
     }
 
+    // Updates without a schema keep the stored one
+    const merge = validateMergeFields(
+      validated.content,
+      req.body.variables !== undefined
+        ? req.body.variables
+        : existing.rows[0].variables
+    );
+    if (merge.problems.length > 0) {
+      res.status(400).json({
+        error: "Invalid merge fields",
+        message: merge.problems.join("; "),
+      });
+      return;
+    }
+
     const result = await query(
       `
         UPDATE templates
         SET title = $1,
             content = $2,
+            variables = $3,
             updated_at = NOW()
-        WHERE id = $3 AND owner_id = $4
-        RETURNING id, title, content, is_global, owner_id, created_at, updated_at
+        WHERE id = $4 AND owner_id = $5
+        RETURNING id, title, content, variables, is_global, owner_id, created_at, updated_at
       `,
-      [validated.title, validated.content, templateId, userId]
+      [
+        validated.title,
+        validated.content,
+        JSON.stringify(merge.variables),
+        templateId,
+        userId,
+      ]
     );
 
     if (result.rows.length === 0) {
@@ -0,0 +1,45 @@
+import express, { Request, Response } from "express";
+import { authenticateToken } from "../middleware/auth";
+import { getGenerationUsage } from "../db/pg";
+import { getQuotaStatuses } from "../middleware/quotas";
+
+const router = express.Router();
+
+const DEFAULT_USAGE_DAYS = 30;
+const MAX_USAGE_DAYS = 365;
+
+/**
+ * GET /usage
+ * Summarize the current user's draft generations over the last days:
+ * runs by outcome, model calls and tokens, average latency, and the same
+ * totals by model and by day - and the AI quotas that apply to the user
+ * (their own and their organization's) with current use
+ * Query: days? (default 30, at most 365)
+ * Requires authentication via JWT cookie
+ */
+router.get("/", authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+    if (!userId) {
+      return res.status(401).json({ error: "User not authenticated" });
+    }
+
+    const requested = parseInt(String(req.query.days ?? ""), 10);
+    const days =
+      requested > 0 ? Math.min(requested, MAX_USAGE_DAYS) : DEFAULT_USAGE_DAYS;
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+
+    res.json({
+      usage: await getGenerationUsage(userId, since),
+      quotas: await getQuotaStatuses(userId),
+    });
+  } catch (error: any) {
+    console.error("Failed to fetch usage:", error);
+    res.status(500).json({
+      error: "Failed to fetch usage",
+      message: error.message,
+    });
+  }
+});
+
+export default router;
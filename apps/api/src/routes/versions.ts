@@ -0,0 +1,471 @@
+import express, { Request, Response } from "express";
+import { authenticateToken } from "../middleware/auth";
+import { idempotencyMiddleware } from "../middleware/idempotency";
+import {
+  query,
+  checkDocumentAccess,
+  createCheckpoint,
+  getVersionText,
+  getVersionTimeline,
+  VersionText,
+} from "../db/pg";
+import { diffWordHunks, revertHunks } from "../lib/text_diff";
+import { VersionRef, formatVersionRef, parseVersionRef } from "../lib/versions";
+import { broadcastToDocument } from "../realtime/broadcast";
+import { getDocumentState } from "../realtime/persist";
+import { isValidUUID } from "../realtime/validation";
+
+const router = express.Router();
+router.use(express.json({ limit: '10mb' }));
+
+/**
+ * Load the text of a version, sending the error response when it cannot be
+ * compared
+ * @returns null after an error response
+ */
+async function loadVersion(
+  res: Response,
+  documentId: string,
+  ref: VersionRef
+): Promise<(VersionText & { text: string }) | null> {
+  const version = await getVersionText(documentId, ref.kind, ref.id);
+  if (!version) {
+    res.status(404).json({
+      error: ref.kind === "current" ? "Document not found" : "Version not found",
+    });
+    return null;
+  }
+  if (version.text === null) {
+    res.status(422).json({
+      error: "Version has no text",
+      message: `The text of ${formatVersionRef(ref)} was not kept, so it cannot be compared.`,
+    });
+    return null;
+  }
+  return { ...version, text: version.text };
+}
+
+/**
+ * Describe a version in a diff response, without its text
+ */
+function versionInfo(ref: VersionRef, version: VersionText) {
+  return {
+    ref: formatVersionRef(ref),
+    kind: version.kind,
+    id: version.id,
+    label: version.label,
+    createdAt: version.createdAt,
+  };
+}
+
+/**
+ * GET /documents/:id/diff
+ * Compare two versions of a document's draft word by word
+ * Query: from, to (default "current") - "current" or "<kind>:<id>" with kind
+ *   refinement, run, snapshot or branch
+ * Response: { from, to, addedWords, removedWords, hunks: [{ index,
+ *   beforeStart, beforeEnd, afterStart, afterEnd, deleted, inserted,
+ *   contextBefore, contextAfter }], truncated }
+ * Requires authentication via JWT cookie
+ */
+router.get(
+  "/:id/diff",
+  authenticateToken,
+  async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        return res.status(401).json({ error: "User not authenticated" });
+      }
+
+      const from = parseVersionRef(req.query.from);
+      const to = parseVersionRef(req.query.to ?? "current");
+      if (!from || !to) {
+        return res.status(400).json({
+          error:
+            'from and to must be "current" or "<kind>:<id>" with kind refinement, run, snapshot or branch',
+        });
+      }
+
+      const access = await checkDocumentAccess(id, userId);
+      if (!access) {
+        return res.status(404).json({ error: "Document not found" });
+      }
+
+      const before = await loadVersion(res, id, from);
+      if (!before) return;
+      const after = await loadVersion(res, id, to);
+      if (!after) return;
+
+      res.json({
+        from: versionInfo(from, before),
+        to: versionInfo(to, after),
+        ...diffWordHunks(before.text, after.text),
+      });
+    } catch (error: any) {
+      console.error("Failed to compare versions:", error);
+      res.status(500).json({
+        error: "Failed to compare versions",
+        message: error.message,
+      });
+    }
+  }
+);
+
+/**
+ * POST /documents/:id/diff/restore
+ * Put back some changes from an earlier version into the current draft
+ * Body: { from, hunks } - hunks are indexes into GET /documents/:id/diff
+ *   from that version to "current"
+ * Response: { draftText, restored }
+ * Requires authentication via JWT cookie
+ */
+router.post(
+  "/:id/diff/restore",
+  authenticateToken,
+  idempotencyMiddleware,
+  async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+      const userId = req.user?.userId;
+      const { hunks } = req.body ?? {};
+
+      if (!userId) {
+        return res.status(401).json({ error: "User not authenticated" });
+      }
+
+      const from = parseVersionRef(req.body?.from);
+      if (
+        !from ||
+        from.kind === "current" ||
+        !Array.isArray(hunks) ||
+        hunks.length === 0 ||
+        !hunks.every((index) => Number.isInteger(index))
+      ) {
+        return res.status(400).json({
+          error:
+            'Provide from ("<kind>:<id>") and hunks, a non-empty list of hunk indexes',
+        });
+      }
+
+      // Viewers cannot change the draft
+      const access = await checkDocumentAccess(id, userId);
+      if (!access || access === "viewer") {
+        return res.status(access ? 403 : 404).json({
+          error:
+            access === "viewer"
+              ? "Viewers cannot restore document versions"
+              : "Document not found",
+        });
+      }
+
+      const before = await loadVersion(res, id, from);
+      if (!before) return;
+      const current = await loadVersion(res, id, { kind: "current", id: null });
+      if (!current) return;
+
+      // Hunks are matched against the draft as it is now; a draft edited
+      // since the diff was shown gives different indexes
+      const diff = diffWordHunks(before.text, current.text);
+      const selected = diff.hunks.filter((hunk) => hunks.includes(hunk.index));
+      if (selected.length !== new Set(hunks).size) {
+        return res.status(409).json({
+          error: "Changes not found",
+          message:
+            "The draft changed since these changes were shown. Compare the versions again.",
+        });
+      }
+
+      const draftText = revertHunks(current.text, selected);
+      await query(
+        `UPDATE documents
+         SET draft_text = $1, updated_at = NOW()
+         WHERE id = $2`,
+        [draftText, id]
+      );
+
+      // Open editors replace their shared text with the restored draft
+      await broadcastToDocument(id, {
+        type: "restore_complete",
+        documentId: id,
+        draftText,
+      }).catch((error) => {
+        console.warn("Failed to broadcast restore_complete:", error);
+      });
+
+      res.json({ draftText, restored: selected.length });
+    } catch (error: any) {
+      console.error("Failed to restore changes:", error);
+      res.status(500).json({
+        error: "Failed to restore changes",
+        message: error.message,
+      });
+    }
+  }
+);
+
+/**
+ * GET /documents/:id/versions
+ * Every version of a document's draft, newest first
+ * Response: { versions: [{ ref, kind, id, type, label, createdAt,
+ *   contributors: [{ userId, email }], restorable }], canRestore } - type is
+ *   current, generation, refinement, snapshot or checkpoint
+ * Requires authentication via JWT cookie
+ */
+router.get(
+  "/:id/versions",
+  authenticateToken,
+  async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        return res.status(401).json({ error: "User not authenticated" });
+      }
+
+      const access = await checkDocumentAccess(id, userId);
+      if (!access) {
+        return res.status(404).json({ error: "Document not found" });
+      }
+
+      const versions = await getVersionTimeline(id);
+      res.json({
+        versions: versions.map((version) => ({
+          ref: formatVersionRef(version),
+          ...version,
+        })),
+        canRestore: access !== "viewer",
+      });
+    } catch (error: any) {
+      console.error("Failed to list versions:", error);
+      res.status(500).json({
+        error: "Failed to list versions",
+        message: error.message,
+      });
+    }
+  }
+);
+
+/**
+ * Make a version the current draft and send open editors the restored text.
+ * Nothing is deleted: later versions stay on the timeline.
+ * @returns The restored version, or null after an error response
+ */
+async function restoreVersion(
+  res: Response,
+  documentId: string,
+  userId: string,
+  ref: VersionRef
+): Promise<(VersionText & { text: string }) | null> {
+  // Viewers cannot change the draft
+  const access = await checkDocumentAccess(documentId, userId);
+  if (!access || access === "viewer") {
+    res.status(access ? 403 : 404).json({
+      error:
+        access === "viewer"
+          ? "Viewers cannot restore document versions"
+          : "Document not found",
+    });
+    return null;
+  }
+
+  const version = await loadVersion(res, documentId, ref);
+  if (!version) return null;
+
+  await query(
+    `UPDATE documents
+     SET draft_text = $1, updated_at = NOW()
+     WHERE id = $2`,
+    [version.text, documentId]
+  );
+
+  // Open editors replace their shared text with the restored draft
+  await broadcastToDocument(documentId, {
+    type: "restore_complete",
+    documentId,
+    draftText: version.text,
+  }).catch((error) => {
+    console.warn("Failed to broadcast restore_complete:", error);
+  });
+
+  return version;
+}
+
+/**
+ * POST /documents/:id/versions/restore
+ * Make an earlier version the current draft. Later versions stay on the
+ * timeline.
+ * Body: { ref } - "<kind>:<id>" from GET /documents/:id/versions
+ * Response: { draftText, restored: { ref, kind, id, label, createdAt } }
+ * Requires authentication via JWT cookie
+ */
+router.post(
+  "/:id/versions/restore",
+  authenticateToken,
+  idempotencyMiddleware,
+  async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        return res.status(401).json({ error: "User not authenticated" });
+      }
+
+      const ref = parseVersionRef(req.body?.ref);
+      if (!ref || ref.kind === "current") {
+        return res.status(400).json({
+          error:
+            'ref must be "<kind>:<id>" with kind refinement, run, snapshot or branch',
+        });
+      }
+
+      const version = await restoreVersion(res, id, userId, ref);
+      if (!version) return;
+
+      res.json({ draftText: version.text, restored: versionInfo(ref, version) });
+    } catch (error: any) {
+      console.error("Failed to restore version:", error);
+      res.status(500).json({
+        error: "Failed to restore version",
+        message: error.message,
+      });
+    }
+  }
+);
+
+/**
+ * POST /documents/:id/restore
+ * Restore a refinement, kept for older clients: the same as
+ * POST /documents/:id/versions/restore with ref "refinement:<id>", so later
+ * versions stay on the timeline
+ * Body: { refinementId } - "original" (the draft listed last by
+ *   GET /documents/:id/refinements) is the current draft
+ * Response: { success, draftText }
+ * Requires authentication via JWT cookie
+ */
+router.post(
+  "/:id/restore",
+  authenticateToken,
+  idempotencyMiddleware,
+  async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+      const { refinementId } = req.body ?? {};
+      const userId = req.user?.userId;
+
+      if (!refinementId) {
+        return res.status(400).json({
+          error: "Missing required field: refinementId",
+        });
+      }
+      if (
+        refinementId !== "original" &&
+        (typeof refinementId !== "string" || !isValidUUID(refinementId))
+      ) {
+        return res.status(400).json({
+          error: 'refinementId must be a refinement ID or "original"',
+        });
+      }
+
+      if (!userId) {
+        return res.status(401).json({ error: "User not authenticated" });
+      }
+
+      const ref: VersionRef =
+        refinementId === "original"
+          ? { kind: "current", id: null }
+          : { kind: "refinement", id: refinementId };
+      const version = await restoreVersion(res, id, userId, ref);
+      if (!version) return;
+
+      res.json({ success: true, draftText: version.text });
+    } catch (error: any) {
+      console.error("Restore error:", error);
+      res.status(500).json({
+        error: "Restore failed",
+        message: error.message || "Unknown error",
+      });
+    }
+  }
+);
+
+/**
+ * POST /documents/:id/checkpoints
+ * Save the draft as it is now under a name: the saved draft text and the
+ * document's Y.js state as the server holds it
+ * Body: { name }
+ * Response: { checkpoint: { ref, id, version, name, createdBy, createdAt } }
+ * Requires authentication via JWT cookie
+ */
+router.post(
+  "/:id/checkpoints",
+  authenticateToken,
+  idempotencyMiddleware,
+  async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+      const userId = req.user?.userId;
+      const { name } = req.body ?? {};
+
+      if (!userId) {
+        return res.status(401).json({ error: "User not authenticated" });
+      }
+
+      const trimmedName = typeof name === "string" ? name.trim() : "";
+      if (!trimmedName || trimmedName.length > 200) {
+        return res.status(400).json({
+          error: "name is required and must be at most 200 characters",
+        });
+      }
+
+      // Viewers cannot save versions
+      const access = await checkDocumentAccess(id, userId);
+      if (!access || access === "viewer") {
+        return res.status(access ? 403 : 404).json({
+          error:
+            access === "viewer"
+              ? "Viewers cannot save checkpoints"
+              : "Document not found",
+        });
+      }
+
+      const checkpoint = await createCheckpoint(
+        id,
+        userId,
+        trimmedName,
+        await getDocumentState(id)
+      );
+
+      res.status(201).json({
+        checkpoint: {
+          ref: formatVersionRef({ kind: "snapshot", id: checkpoint.id }),
+          ...checkpoint,
+        },
+      });
+    } catch (error: any) {
+      if (error.message === "CHECKPOINT_NAME_TAKEN") {
+        return res.status(409).json({
+          error: "Checkpoint name taken",
+          message: "This document already has a checkpoint by that name.",
+        });
+      }
+      if (error.message === "CHECKPOINT_CONFLICT") {
+        return res.status(409).json({
+          error: "Checkpoint not saved",
+          message: "Other versions were saved at the same time. Try again.",
+        });
+      }
+      console.error("Failed to save checkpoint:", error);
+      res.status(500).json({
+        error: "Failed to save checkpoint",
+        message: error.message,
+      });
+    }
+  }
+);
+
+export default router;
@@ -8,6 +8,7 @@ import Login from "./pages/Login";
 import Signup from "./pages/Signup";
 import Editor from "./pages/Editor";
 import History from "./pages/History";
+import Branches from "./pages/Branches";
 import TemplateEditor from "./pages/TemplateEditor";
 import Templates from "./pages/Templates";
 import Upload from "./pages/Upload";
@@ -135,6 +136,14 @@ const AppRouter: React.FC = () => (
           </ProtectedRoute>
         }
       />
+      <Route
+        path="/documents/:id/branches"
+        element={
+          <ProtectedRoute>
+            <Branches />
+          </ProtectedRoute>
+        }
+      />
       <Route
         path="/exports"
         element={
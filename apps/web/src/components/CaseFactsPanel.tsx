@@ -0,0 +1,456 @@
+import { useEffect, useState } from "react";
+import type { CSSProperties } from "react";
+import axios from "axios";
+import {
+  CaseFacts,
+  Fact,
+  FactSource,
+  extractCaseFacts,
+  getCaseFacts,
+  saveCaseFacts,
+} from "../lib/api";
+
+interface CaseFactsPanelProps {
+  documentId: string;
+}
+
+type ScalarKey = "claimant" | "defendant" | "insurer" | "incidentDate";
+type ListKey = "injuries" | "treatmentProviders";
+
+const scalarFields: Array<{ key: ScalarKey; label: string; placeholder: string }> = [
+  { key: "claimant", label: "Claimant", placeholder: "Injured person" },
+  { key: "defendant", label: "Defendant", placeholder: "At-fault party" },
+  { key: "insurer", label: "Insurer", placeholder: "Insurance company" },
+  { key: "incidentDate", label: "Incident date", placeholder: "YYYY-MM-DD" },
+];
+
+const listFields: Array<{ key: ListKey; label: string }> = [
+  { key: "injuries", label: "Injuries" },
+  { key: "treatmentProviders", label: "Treatment providers" },
+];
+
+const getErrorMessage = (error: unknown): string => {
+  if (axios.isAxiosError(error)) {
+    const data = error.response?.data as
+      | { error?: string; message?: string }
+      | undefined;
+    return data?.message ?? data?.error ?? error.message;
+  }
+  return error instanceof Error ? error.message : "Something went wrong";
+};
+
+const formatAmount = (amount: number) =>
+  amount.toLocaleString("en-US", { style: "currency", currency: "USD" });
+
+export function CaseFactsPanel({ documentId }: CaseFactsPanelProps) {
+  const [facts, setFacts] = useState<CaseFacts | null>(null);
+  const [confirmedAt, setConfirmedAt] = useState<string | null>(null);
+  const [isDirty, setIsDirty] = useState(false);
+  const [busy, setBusy] = useState<"loading" | "extracting" | "saving" | null>(
+    "loading"
+  );
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = async () => {
+      try {
+        setBusy("loading");
+        const state = await getCaseFacts(documentId);
+        if (!cancelled) {
+          setFacts(state.facts);
+          setConfirmedAt(state.confirmedAt);
+        }
+      } catch (err) {
+        if (!cancelled) setError(getErrorMessage(err));
+      } finally {
+        if (!cancelled) setBusy(null);
+      }
+    };
+    void load();
+    return () => {
+      cancelled = true;
+    };
+  }, [documentId]);
+
+  const update = (next: CaseFacts) => {
+    setFacts(next);
+    setIsDirty(true);
+  };
+
+  const handleExtract = async () => {
+    if (
+      confirmedAt &&
+      !window.confirm("Re-extracting replaces the confirmed facts. Continue?")
+    ) {
+      return;
+    }
+    try {
+      setBusy("extracting");
+      setError(null);
+      const state = await extractCaseFacts(documentId);
+      setFacts(state.facts);
+      setConfirmedAt(state.confirmedAt);
+      setIsDirty(false);
+    } catch (err) {
+      setError(getErrorMessage(err));
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleSave = async (confirmed: boolean) => {
+    if (!facts) return;
+    try {
+      setBusy("saving");
+      setError(null);
+      const state = await saveCaseFacts(documentId, facts, confirmed);
+      setFacts(state.facts);
+      setConfirmedAt(state.confirmedAt);
+      setIsDirty(false);
+    } catch (err) {
+      setError(getErrorMessage(err));
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  // Editing a value keeps its source span so the user can still check it
+  const editFact = (fact: Fact | null, value: string): Fact | null =>
+    value.trim() ? { value, source: fact?.source ?? null } : null;
+
+  const inputStyle: CSSProperties = {
+    width: "100%",
+    borderRadius: "8px",
+    border: "1px solid rgba(71, 85, 105, 0.5)",
+    background: "rgba(15, 23, 42, 0.5)",
+    padding: "6px 10px",
+    fontSize: "13px",
+    color: "rgba(241, 245, 249, 0.95)",
+  };
+
+  const labelStyle: CSSProperties = {
+    fontSize: "11px",
+    fontWeight: 600,
+    textTransform: "uppercase",
+    letterSpacing: "0.04em",
+    color: "rgba(148, 163, 184, 0.8)",
+  };
+
+  const smallButtonStyle: CSSProperties = {
+    borderRadius: "8px",
+    border: "1px solid rgba(71, 85, 105, 0.5)",
+    background: "rgba(15, 23, 42, 0.5)",
+    padding: "6px 12px",
+    fontSize: "12px",
+    fontWeight: 500,
+    color: "rgba(241, 245, 249, 0.9)",
+    cursor: busy ? "not-allowed" : "pointer",
+  };
+
+  const primaryButtonStyle: CSSProperties = {
+    ...smallButtonStyle,
+    border: "none",
+    background: "linear-gradient(135deg, #34d399, #10b981)",
+    color: "#022c22",
+    fontWeight: 600,
+  };
+
+  const renderSource = (source: FactSource | null) => (
+    <span
+      style={{
+        fontSize: "11px",
+        color: source ? "rgba(148, 163, 184, 0.8)" : "rgba(253, 230, 138, 0.85)",
+      }}
+    >
+      {source ? `“${source.quote}”` : "No source span"}
+    </span>
+  );
+
+  if (busy === "loading") {
+    return (
+      <p style={{ color: "rgba(148, 163, 184, 0.8)", fontSize: "13px" }}>
+        Loading case facts...
+      </p>
+    );
+  }
+
+  const specialsTotal = (facts?.medicalSpecials ?? []).reduce(
+    (sum, special) => sum + special.amount,
+    0
+  );
+
+  return (
+    <div style={{ display: "flex", flexDirection: "column", gap: "12px" }}>
+      <div style={{ display: "flex", gap: "8px", flexWrap: "wrap", alignItems: "center" }}>
+        <button
+          type="button"
+          style={smallButtonStyle}
+          disabled={busy !== null}
+          onClick={() => void handleExtract()}
+        >
+          {busy === "extracting"
+            ? "Extracting..."
+            : facts
+            ? "Re-extract facts"
+            : "Extract facts"}
+        </button>
+        {facts && (
+          <>
+            <button
+              type="button"
+              style={smallButtonStyle}
+              disabled={busy !== null || !isDirty}
+              onClick={() => void handleSave(false)}
+            >
+              Save
+            </button>
+            <button
+              type="button"
+              style={primaryButtonStyle}
+              disabled={busy !== null}
+              onClick={() => void handleSave(true)}
+            >
+              {busy === "saving" ? "Saving..." : "Confirm facts"}
+            </button>
+          </>
+        )}
+        <span
+          style={{
+            fontSize: "12px",
+            color: confirmedAt && !isDirty ? "#34d399" : "rgba(253, 230, 138, 0.9)",
+          }}
+        >
+          {!facts
+            ? ""
+            : confirmedAt && !isDirty
+            ? `Confirmed ${new Date(confirmedAt).toLocaleString()} — drafts use these facts`
+            : "Not confirmed — drafts use the raw extracted text"}
+        </span>
+      </div>
+
+      {error && (
+        <p style={{ color: "rgba(248, 113, 113, 0.9)", fontSize: "12px" }}>
+          {error}
+        </p>
+      )}
+
+      {facts && (
+        <>
+          {scalarFields.map(({ key, label, placeholder }) => (
+            <div key={key}>
+              <label style={labelStyle}>{label}</label>
+              <input
+                style={inputStyle}
+                value={facts[key]?.value ?? ""}
+                placeholder={placeholder}
+                onChange={(e) =>
+                  update({ ...facts, [key]: editFact(facts[key], e.target.value) })
+                }
+              />
+              {facts[key] && renderSource(facts[key]!.source)}
+            </div>
+          ))}
+
+          {listFields.map(({ key, label }) => (
+            <div key={key}>
+              <label style={labelStyle}>{label}</label>
+              {facts[key].map((fact, index) => (
+                <div key={index} style={{ display: "flex", gap: "6px", marginTop: "4px" }}>
+                  <div style={{ flex: 1 }}>
+                    <input
+                      style={inputStyle}
+                      value={fact.value}
+                      onChange={(e) =>
+                        update({
+                          ...facts,
+                          [key]: facts[key].map((item, i) =>
+                            i === index ? { ...item, value: e.target.value } : item
+                          ),
+                        })
+                      }
+                    />
+                    {renderSource(fact.source)}
+                  </div>
+                  <button
+                    type="button"
+                    style={smallButtonStyle}
+                    aria-label={`Remove ${label.toLowerCase()} entry`}
+                    onClick={() =>
+                      update({
+                        ...facts,
+                        [key]: facts[key].filter((_, i) => i !== index),
+                      })
+                    }
+                  >
+                    −
+                  </button>
+                </div>
+              ))}
+              <button
+                type="button"
+                style={{ ...smallButtonStyle, marginTop: "4px" }}
+                onClick={() =>
+                  update({
+                    ...facts,
+                    [key]: [...facts[key], { value: "", source: null }],
+                  })
+                }
+              >
+                + Add
+              </button>
+            </div>
+          ))}
+
+          <div>
+            <label style={labelStyle}>
+              Medical specials ({formatAmount(specialsTotal)})
+            </label>
+            {facts.medicalSpecials.map((special, index) => {
+              const setSpecial = (change: Partial<typeof special>) =>
+                update({
+                  ...facts,
+                  medicalSpecials: facts.medicalSpecials.map((item, i) =>
+                    i === index ? { ...item, ...change } : item
+                  ),
+                });
+              return (
+                <div key={index} style={{ marginTop: "6px" }}>
+                  <div style={{ display: "grid", gridTemplateColumns: "2fr 1fr 2fr 1fr auto", gap: "6px" }}>
+                    <input
+                      style={inputStyle}
+                      value={special.provider}
+                      placeholder="Provider"
+                      onChange={(e) => setSpecial({ provider: e.target.value })}
+                    />
+                    <input
+                      style={inputStyle}
+                      value={special.date ?? ""}
+                      placeholder="YYYY-MM-DD"
+                      onChange={(e) => setSpecial({ date: e.target.value || null })}
+                    />
+                    <input
+                      style={inputStyle}
+                      value={special.description}
+                      placeholder="Service"
+                      onChange={(e) => setSpecial({ description: e.target.value })}
+                    />
+                    <input
+                      style={inputStyle}
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={special.amount}
+                      onChange={(e) =>
+                        setSpecial({ amount: parseFloat(e.target.value) || 0 })
+                      }
+                    />
+                    <button
+                      type="button"
+                      style={smallButtonStyle}
+                      aria-label="Remove medical special"
+                      onClick={() =>
+                        update({
+                          ...facts,
+                          medicalSpecials: facts.medicalSpecials.filter(
+                            (_, i) => i !== index
+                          ),
+                        })
+                      }
+                    >
+                      −
+                    </button>
+                  </div>
+                  {renderSource(special.source)}
+                </div>
+              );
+            })}
+            <button
+              type="button"
+              style={{ ...smallButtonStyle, marginTop: "4px" }}
+              onClick={() =>
+                update({
+                  ...facts,
+                  medicalSpecials: [
+                    ...facts.medicalSpecials,
+                    { provider: "", date: null, description: "", amount: 0, source: null },
+                  ],
+                })
+              }
+            >
+              + Add
+            </button>
+          </div>
+
+          <div>
+            <label style={labelStyle}>Lost wages</label>
+            {facts.lostWages.map((wages, index) => (
+              <div key={index} style={{ marginTop: "6px" }}>
+                <div style={{ display: "grid", gridTemplateColumns: "3fr 1fr auto", gap: "6px" }}>
+                  <input
+                    style={inputStyle}
+                    value={wages.description}
+                    onChange={(e) =>
+                      update({
+                        ...facts,
+                        lostWages: facts.lostWages.map((item, i) =>
+                          i === index ? { ...item, description: e.target.value } : item
+                        ),
+                      })
+                    }
+                  />
+                  <input
+                    style={inputStyle}
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={wages.amount}
+                    onChange={(e) =>
+                      update({
+                        ...facts,
+                        lostWages: facts.lostWages.map((item, i) =>
+                          i === index
+                            ? { ...item, amount: parseFloat(e.target.value) || 0 }
+                            : item
+                        ),
+                      })
+                    }
+                  />
+                  <button
+                    type="button"
+                    style={smallButtonStyle}
+                    aria-label="Remove lost wages entry"
+                    onClick={() =>
+                      update({
+                        ...facts,
+                        lostWages: facts.lostWages.filter((_, i) => i !== index),
+                      })
+                    }
+                  >
+                    −
+                  </button>
+                </div>
+                {renderSource(wages.source)}
+              </div>
+            ))}
+            <button
+              type="button"
+              style={{ ...smallButtonStyle, marginTop: "4px" }}
+              onClick={() =>
+                update({
+                  ...facts,
+                  lostWages: [
+                    ...facts.lostWages,
+                    { description: "", amount: 0, source: null },
+                  ],
+                })
+              }
+            >
+              + Add
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
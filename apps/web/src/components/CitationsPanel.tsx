@@ -0,0 +1,174 @@
+import type { CSSProperties } from "react";
+import type { Claim, ClaimSupport, DraftCitations } from "../lib/api";
+
+interface CitationsPanelProps {
+  claims: Claim[];
+  activeIndex: number | null;
+  onSelect: (index: number) => void;
+}
+
+/**
+ * Find each claim in the current draft text
+ * Citations are computed for the draft as generated; after edits, claims
+ * are found again by their text and offsets shifted to match. Claims whose
+ * sentence was edited away are dropped.
+ */
+export function locateClaims(
+  draftText: string,
+  citations: DraftCitations | null
+): Claim[] {
+  if (!citations) return [];
+
+  const located: Claim[] = [];
+  for (const claim of citations.claims) {
+    const start =
+      draftText.slice(claim.start, claim.end) === claim.text
+        ? claim.start
+        : draftText.indexOf(claim.text);
+    if (start === -1) continue;
+
+    const shift = start - claim.start;
+    located.push({
+      ...claim,
+      start,
+      end: start + claim.text.length,
+      figures: claim.figures.map((figure) => ({
+        ...figure,
+        start: figure.start + shift,
+        end: figure.end + shift,
+      })),
+    });
+  }
+  return located;
+}
+
+const supportTypeLabels: Record<ClaimSupport["type"], string> = {
+  source: "Source",
+  case_facts: "Case facts",
+  specials: "Specials ledger",
+  template: "Template",
+};
+
+export function CitationsPanel({
+  claims,
+  activeIndex,
+  onSelect,
+}: CitationsPanelProps) {
+  const unsupported = claims.filter((claim) => !claim.supported).length;
+
+  const claimStyle = (active: boolean, supported: boolean): CSSProperties => ({
+    display: "block",
+    width: "100%",
+    textAlign: "left",
+    borderRadius: "10px",
+    border: `1px solid ${
+      active
+        ? "rgba(16, 185, 129, 0.7)"
+        : supported
+        ? "rgba(71, 85, 105, 0.4)"
+        : "rgba(239, 68, 68, 0.5)"
+    }`,
+    background: supported ? "rgba(15, 23, 42, 0.5)" : "rgba(127, 29, 29, 0.3)",
+    color: "rgba(226, 232, 240, 0.9)",
+    padding: "8px 10px",
+    fontSize: "13px",
+    cursor: "pointer",
+    marginBottom: "8px",
+  });
+
+  const figureStyle = (supported: boolean): CSSProperties => ({
+    display: "inline-block",
+    marginRight: "6px",
+    marginTop: "4px",
+    borderRadius: "999px",
+    padding: "1px 8px",
+    fontSize: "11px",
+    fontWeight: 600,
+    background: supported ? "rgba(16, 185, 129, 0.15)" : "rgba(239, 68, 68, 0.25)",
+    color: supported ? "#6ee7b7" : "rgba(254, 202, 202, 0.95)",
+  });
+
+  const supportStyle: CSSProperties = {
+    margin: "0 0 8px 12px",
+    fontSize: "12px",
+    color: "rgba(148, 163, 184, 0.9)",
+  };
+
+  const markStyle: CSSProperties = {
+    background: "rgba(250, 204, 21, 0.35)",
+    color: "#fef9c3",
+    borderRadius: "3px",
+    padding: "0 2px",
+  };
+
+  if (claims.length === 0) {
+    return (
+      <p style={{ fontSize: "13px", color: "rgba(148, 163, 184, 0.8)" }}>
+        No checkable claims. Generate a draft to link its figures to the
+        source records.
+      </p>
+    );
+  }
+
+  return (
+    <div>
+      <p
+        style={{
+          fontSize: "13px",
+          marginBottom: "12px",
+          color: unsupported > 0 ? "rgba(254, 202, 202, 0.95)" : "#6ee7b7",
+        }}
+      >
+        {unsupported > 0
+          ? `${unsupported} of ${claims.length} claims state figures not found in the records.`
+          : `All ${claims.length} claims are backed by the records.`}
+      </p>
+      {claims.map((claim, index) => (
+        <div key={`${claim.start}-${index}`}>
+          <button
+            type="button"
+            onClick={() => onSelect(index)}
+            style={claimStyle(index === activeIndex, claim.supported)}
+          >
+            {claim.text.length > 140
+              ? `${claim.text.slice(0, 140)}…`
+              : claim.text}
+            <div>
+              {claim.figures.map((figure) => (
+                <span
+                  key={`${figure.start}-${figure.text}`}
+                  style={figureStyle(figure.supported)}
+                  title={
+                    figure.supported
+                      ? "Found in the records"
+                      : "Not found in the records, case facts or template"
+                  }
+                >
+                  {figure.supported ? "✓" : "⚠"} {figure.text}
+                </span>
+              ))}
+            </div>
+          </button>
+          {index === activeIndex &&
+            claim.supports.map((support, supportIndex) => (
+              <p key={supportIndex} style={supportStyle}>
+                <strong>
+                  {supportTypeLabels[support.type]}: {support.label}
+                </strong>
+                <br />
+                {support.type === "source" ? (
+                  <>
+                    …{support.before}
+                    <mark style={markStyle}>{support.quote}</mark>
+                    {support.after}…
+                  </>
+                ) : (
+                  support.quote
+                )}
+              </p>
+            ))}
+        </div>
+      ))}
+    </div>
+  );
+}
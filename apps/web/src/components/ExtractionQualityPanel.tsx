@@ -0,0 +1,255 @@
+import { useState } from "react";
+import type { CSSProperties } from "react";
+import axios from "axios";
+import {
+  DiffLine,
+  ExtractionQuality,
+  ReextractionPreview,
+  applyReextraction,
+  reextractDocument,
+} from "../lib/api";
+
+interface ExtractionQualityPanelProps {
+  documentId: string;
+  quality: ExtractionQuality | null;
+  onApplied: () => void;
+}
+
+const getErrorMessage = (error: unknown): string => {
+  if (axios.isAxiosError(error)) {
+    const data = error.response?.data as
+      | { error?: string; message?: string }
+      | undefined;
+    return data?.message ?? data?.error ?? error.message;
+  }
+  return error instanceof Error ? error.message : "Something went wrong";
+};
+
+const languageNames: Record<string, string> = {
+  en: "English",
+  es: "Spanish",
+  fr: "French",
+  de: "German",
+  pt: "Portuguese",
+  it: "Italian",
+};
+
+const diffLineStyles: Record<DiffLine["type"], CSSProperties> = {
+  context: { color: "rgba(148, 163, 184, 0.8)" },
+  added: {
+    color: "rgba(134, 239, 172, 0.95)",
+    background: "rgba(34, 197, 94, 0.12)",
+  },
+  removed: {
+    color: "rgba(252, 165, 165, 0.95)",
+    background: "rgba(239, 68, 68, 0.12)",
+  },
+};
+
+const diffPrefix: Record<DiffLine["type"], string> = {
+  context: " ",
+  added: "+",
+  removed: "-",
+};
+
+export function ExtractionQualityPanel({
+  documentId,
+  quality,
+  onApplied,
+}: ExtractionQualityPanelProps) {
+  const [forceOcr, setForceOcr] = useState(false);
+  const [alternateParser, setAlternateParser] = useState(false);
+  const [preview, setPreview] = useState<ReextractionPreview | null>(null);
+  const [busy, setBusy] = useState<"extracting" | "applying" | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleReextract = async () => {
+    try {
+      setBusy("extracting");
+      setError(null);
+      setPreview(null);
+      setPreview(await reextractDocument(documentId, { forceOcr, alternateParser }));
+    } catch (err) {
+      setError(getErrorMessage(err));
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleApply = async () => {
+    if (!preview) return;
+    try {
+      setBusy("applying");
+      setError(null);
+      await applyReextraction(documentId, preview.reextractionId);
+      setPreview(null);
+      onApplied();
+    } catch (err) {
+      setError(getErrorMessage(err));
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const smallButtonStyle: CSSProperties = {
+    borderRadius: "8px",
+    border: "1px solid rgba(71, 85, 105, 0.5)",
+    background: "rgba(15, 23, 42, 0.5)",
+    padding: "6px 10px",
+    fontSize: "12px",
+    fontWeight: 500,
+    color: "rgba(241, 245, 249, 0.9)",
+    cursor: busy ? "not-allowed" : "pointer",
+  };
+
+  const labelStyle: CSSProperties = {
+    display: "flex",
+    gap: "6px",
+    alignItems: "center",
+    fontSize: "12px",
+    color: "rgba(226, 232, 240, 0.9)",
+  };
+
+  const renderReport = (report: ExtractionQuality) => (
+    <div style={{ display: "flex", flexDirection: "column", gap: "4px", fontSize: "12px" }}>
+      <span style={{ color: "rgba(226, 232, 240, 0.9)" }}>
+        {report.characterCount.toLocaleString()} characters ·{" "}
+        {(report.garbageRatio * 100).toFixed(1)}% unreadable ·{" "}
+        {report.language
+          ? languageNames[report.language] ?? report.language
+          : "language unknown"}
+      </span>
+      {report.warnings.length === 0 ? (
+        <span style={{ color: "rgba(134, 239, 172, 0.9)" }}>No problems found</span>
+      ) : (
+        report.warnings.map((warning) => (
+          <span key={warning} style={{ color: "rgba(253, 230, 138, 0.9)" }}>
+            {warning}
+          </span>
+        ))
+      )}
+      {report.encodingIssues.map((issue) => (
+        <span
+          key={issue.kind}
+          style={{ color: "rgba(148, 163, 184, 0.8)", fontFamily: "monospace" }}
+        >
+          {issue.sample}
+        </span>
+      ))}
+    </div>
+  );
+
+  return (
+    <div style={{ display: "flex", flexDirection: "column", gap: "12px" }}>
+      {quality ? (
+        renderReport(quality)
+      ) : (
+        <p style={{ color: "rgba(148, 163, 184, 0.8)", fontSize: "13px" }}>
+          No quality report yet. Re-extract the file to create one.
+        </p>
+      )}
+
+      <div style={{ display: "flex", gap: "12px", alignItems: "center", flexWrap: "wrap" }}>
+        <label style={labelStyle}>
+          <input
+            type="checkbox"
+            checked={forceOcr}
+            onChange={(e) => {
+              setForceOcr(e.target.checked);
+              if (e.target.checked) setAlternateParser(false);
+            }}
+          />
+          Force OCR (PDF)
+        </label>
+        <label style={labelStyle}>
+          <input
+            type="checkbox"
+            checked={alternateParser}
+            onChange={(e) => {
+              setAlternateParser(e.target.checked);
+              if (e.target.checked) setForceOcr(false);
+            }}
+          />
+          Alternate parser
+        </label>
+        <button
+          type="button"
+          style={smallButtonStyle}
+          disabled={busy !== null}
+          onClick={() => void handleReextract()}
+        >
+          {busy === "extracting" ? "Re-extracting..." : "Re-extract"}
+        </button>
+      </div>
+
+      {error && (
+        <p style={{ color: "rgba(248, 113, 113, 0.9)", fontSize: "12px" }}>
+          {error}
+        </p>
+      )}
+
+      {preview && (
+        <div style={{ display: "flex", flexDirection: "column", gap: "8px" }}>
+          <h3 style={{ margin: 0, fontSize: "13px", color: "rgba(241, 245, 249, 0.95)" }}>
+            New extraction
+          </h3>
+          {renderReport(preview.quality)}
+          <span style={{ fontSize: "12px", color: "rgba(148, 163, 184, 0.8)" }}>
+            {preview.diff.addedLines} lines added, {preview.diff.removedLines}{" "}
+            removed, {preview.diff.unchangedLines} unchanged
+          </span>
+          {preview.diff.hunks.length > 0 && (
+            <div
+              style={{
+                maxHeight: "320px",
+                overflowY: "auto",
+                borderRadius: "8px",
+                border: "1px solid rgba(71, 85, 105, 0.5)",
+                fontFamily: "monospace",
+                fontSize: "11px",
+                whiteSpace: "pre-wrap",
+              }}
+            >
+              {preview.diff.hunks.map((hunk) => (
+                <div key={`${hunk.beforeStart}-${hunk.afterStart}`}>
+                  <div style={{ color: "rgba(125, 211, 252, 0.8)", padding: "2px 8px" }}>
+                    @@ -{hunk.beforeStart},{hunk.beforeLines} +{hunk.afterStart},
+                    {hunk.afterLines} @@
+                  </div>
+                  {hunk.lines.map((line, idx) => (
+                    <div key={idx} style={{ ...diffLineStyles[line.type], padding: "0 8px" }}>
+                      {diffPrefix[line.type]} {line.text}
+                    </div>
+                  ))}
+                </div>
+              ))}
+              {preview.diff.truncated && (
+                <div style={{ color: "rgba(148, 163, 184, 0.8)", padding: "2px 8px" }}>
+                  More changes not shown
+                </div>
+              )}
+            </div>
+          )}
+          <div style={{ display: "flex", gap: "8px" }}>
+            <button
+              type="button"
+              style={smallButtonStyle}
+              disabled={busy !== null}
+              onClick={() => void handleApply()}
+            >
+              {busy === "applying" ? "Replacing..." : "Replace extracted text"}
+            </button>
+            <button
+              type="button"
+              style={smallButtonStyle}
+              disabled={busy !== null}
+              onClick={() => setPreview(null)}
+            >
+              Discard
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,193 @@
+import { useState } from "react";
+import type { CSSProperties } from "react";
+import {
+  PiiSpan,
+  PiiType,
+  RedactionPolicy,
+  RedactionSettings,
+  updateRedaction,
+} from "../lib/api";
+
+interface PiiReviewPanelProps {
+  documentId: string;
+  extractedText: string;
+  piiSpans: PiiSpan[];
+  redactionPolicy: RedactionPolicy;
+  onUpdated: (settings: RedactionSettings) => void;
+}
+
+const typeLabels: Record<PiiType, string> = {
+  ssn: "SSN",
+  dob: "Date of birth",
+  mrn: "MRN",
+  phone: "Phone",
+  email: "Email",
+  account_number: "Account no.",
+};
+
+const policyOptions: Array<{ value: RedactionPolicy; label: string }> = [
+  { value: "tokenize", label: "Tokenize (restore in draft)" },
+  { value: "mask", label: "Mask (keep last 4)" },
+  { value: "drop", label: "Drop" },
+  { value: "none", label: "Send as-is" },
+];
+
+const CONTEXT_CHARS = 30;
+
+export function PiiReviewPanel({
+  documentId,
+  extractedText,
+  piiSpans,
+  redactionPolicy,
+  onUpdated,
+}: PiiReviewPanelProps) {
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const save = async (update: Parameters<typeof updateRedaction>[1]) => {
+    try {
+      setSaving(true);
+      setError(null);
+      onUpdated(await updateRedaction(documentId, update));
+    } catch (err) {
+      console.error("Failed to update redaction settings:", err);
+      setError("Could not save redaction settings.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggleIgnored = (target: PiiSpan) => {
+    const ignoredSpans = piiSpans
+      .filter((span) =>
+        span === target ? !span.ignored : Boolean(span.ignored)
+      )
+      .map(({ start, end }) => ({ start, end }));
+    void save({ ignoredSpans });
+  };
+
+  const rowStyle: CSSProperties = {
+    display: "flex",
+    alignItems: "flex-start",
+    justifyContent: "space-between",
+    gap: "12px",
+    padding: "8px 0",
+    borderBottom: "1px solid rgba(71, 85, 105, 0.3)",
+    fontSize: "13px",
+  };
+
+  const badgeStyle: CSSProperties = {
+    display: "inline-block",
+    minWidth: "88px",
+    fontSize: "11px",
+    fontWeight: 600,
+    textTransform: "uppercase",
+    letterSpacing: "0.04em",
+    color: "rgba(253, 230, 138, 0.9)",
+  };
+
+  const contextStyle: CSSProperties = {
+    color: "rgba(148, 163, 184, 0.85)",
+    wordBreak: "break-word",
+  };
+
+  const selectStyle: CSSProperties = {
+    borderRadius: "8px",
+    border: "1px solid rgba(71, 85, 105, 0.5)",
+    background: "rgba(15, 23, 42, 0.5)",
+    padding: "6px 10px",
+    fontSize: "12px",
+    color: "rgba(241, 245, 249, 0.9)",
+  };
+
+  return (
+    <div>
+      <label
+        style={{
+          display: "flex",
+          alignItems: "center",
+          gap: "8px",
+          fontSize: "12px",
+          color: "rgba(148, 163, 184, 0.9)",
+          marginBottom: "12px",
+        }}
+      >
+        Redaction policy
+        <select
+          value={redactionPolicy}
+          disabled={saving}
+          style={selectStyle}
+          onChange={(e) =>
+            void save({ policy: e.target.value as RedactionPolicy })
+          }
+        >
+          {policyOptions.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      {error && (
+        <p style={{ color: "rgba(248, 113, 113, 0.9)", fontSize: "12px" }}>
+          {error}
+        </p>
+      )}
+
+      {piiSpans.length === 0 ? (
+        <p style={{ color: "rgba(148, 163, 184, 0.8)", fontSize: "13px" }}>
+          No sensitive identifiers detected.
+        </p>
+      ) : (
+        <ul style={{ listStyle: "none", margin: 0, padding: 0 }}>
+          {piiSpans.map((span) => (
+            <li key={`${span.start}-${span.end}`} style={rowStyle}>
+              <div>
+                <span style={badgeStyle}>{typeLabels[span.type]}</span>
+                <span
+                  style={{
+                    fontFamily: "monospace",
+                    color: span.ignored
+                      ? "rgba(148, 163, 184, 0.7)"
+                      : "#f8fafc",
+                    textDecoration: span.ignored ? "line-through" : undefined,
+                  }}
+                >
+                  {span.text}
+                </span>
+                <div style={contextStyle}>
+                  …
+                  {extractedText.slice(
+                    Math.max(0, span.start - CONTEXT_CHARS),
+                    span.start
+                  )}
+                  <strong>{span.text}</strong>
+                  {extractedText.slice(span.end, span.end + CONTEXT_CHARS)}…
+                </div>
+              </div>
+              <label
+                style={{
+                  display: "inline-flex",
+                  alignItems: "center",
+                  gap: "4px",
+                  fontSize: "12px",
+                  whiteSpace: "nowrap",
+                  color: "rgba(148, 163, 184, 0.9)",
+                }}
+              >
+                <input
+                  type="checkbox"
+                  checked={Boolean(span.ignored)}
+                  disabled={saving}
+                  onChange={() => toggleIgnored(span)}
+                />
+                Not sensitive
+              </label>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
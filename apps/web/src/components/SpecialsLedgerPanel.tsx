@@ -0,0 +1,361 @@
+import { useEffect, useState } from "react";
+import type { CSSProperties } from "react";
+import axios from "axios";
+import {
+  SpecialsItem,
+  SpecialsItemInput,
+  SpecialsLedger,
+  addSpecialsItem,
+  deleteSpecialsItem,
+  getSpecials,
+  reparseSpecials,
+  updateSpecialsItem,
+} from "../lib/api";
+
+interface SpecialsLedgerPanelProps {
+  documentId: string;
+}
+
+const emptyItem: SpecialsItemInput = {
+  provider: "",
+  serviceDate: null,
+  code: null,
+  description: "",
+  billed: 0,
+  paid: 0,
+  adjusted: 0,
+};
+
+const getErrorMessage = (error: unknown): string => {
+  if (axios.isAxiosError(error)) {
+    const data = error.response?.data as
+      | { error?: string; message?: string }
+      | undefined;
+    return data?.message ?? data?.error ?? error.message;
+  }
+  return error instanceof Error ? error.message : "Something went wrong";
+};
+
+const formatAmount = (amount: number) =>
+  amount.toLocaleString("en-US", { style: "currency", currency: "USD" });
+
+const toInput = (item: SpecialsItem): SpecialsItemInput => ({
+  provider: item.provider,
+  serviceDate: item.serviceDate,
+  code: item.code,
+  description: item.description,
+  billed: item.billed,
+  paid: item.paid,
+  adjusted: item.adjusted,
+});
+
+export function SpecialsLedgerPanel({ documentId }: SpecialsLedgerPanelProps) {
+  const [ledger, setLedger] = useState<SpecialsLedger | null>(null);
+  // Unsaved edits, keyed by item id
+  const [edits, setEdits] = useState<Record<string, SpecialsItemInput>>({});
+  const [newItem, setNewItem] = useState<SpecialsItemInput>(emptyItem);
+  const [busy, setBusy] = useState<"loading" | "reparsing" | "saving" | null>(
+    "loading"
+  );
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = async () => {
+      try {
+        setBusy("loading");
+        const next = await getSpecials(documentId);
+        if (!cancelled) setLedger(next);
+      } catch (err) {
+        if (!cancelled) setError(getErrorMessage(err));
+      } finally {
+        if (!cancelled) setBusy(null);
+      }
+    };
+    void load();
+    return () => {
+      cancelled = true;
+    };
+  }, [documentId]);
+
+  const run = async (
+    kind: "reparsing" | "saving",
+    action: () => Promise<SpecialsLedger>
+  ): Promise<boolean> => {
+    try {
+      setBusy(kind);
+      setError(null);
+      setLedger(await action());
+      return true;
+    } catch (err) {
+      setError(getErrorMessage(err));
+      return false;
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleReparse = async () => {
+    if (
+      !window.confirm(
+        "Re-parsing replaces the line items read from the bills. Items you added by hand are kept. Continue?"
+      )
+    ) {
+      return;
+    }
+    if (await run("reparsing", () => reparseSpecials(documentId))) {
+      setEdits({});
+    }
+  };
+
+  const handleSaveItem = async (itemId: string) => {
+    const edit = edits[itemId];
+    if (!edit) return;
+    if (await run("saving", () => updateSpecialsItem(documentId, itemId, edit))) {
+      setEdits(({ [itemId]: _saved, ...rest }) => rest);
+    }
+  };
+
+  const handleAdd = async () => {
+    if (await run("saving", () => addSpecialsItem(documentId, newItem))) {
+      setNewItem(emptyItem);
+    }
+  };
+
+  const inputStyle: CSSProperties = {
+    width: "100%",
+    borderRadius: "8px",
+    border: "1px solid rgba(71, 85, 105, 0.5)",
+    background: "rgba(15, 23, 42, 0.5)",
+    padding: "6px 8px",
+    fontSize: "12px",
+    color: "rgba(241, 245, 249, 0.95)",
+  };
+
+  const smallButtonStyle: CSSProperties = {
+    borderRadius: "8px",
+    border: "1px solid rgba(71, 85, 105, 0.5)",
+    background: "rgba(15, 23, 42, 0.5)",
+    padding: "6px 10px",
+    fontSize: "12px",
+    fontWeight: 500,
+    color: "rgba(241, 245, 249, 0.9)",
+    cursor: busy ? "not-allowed" : "pointer",
+  };
+
+  const rowGrid: CSSProperties = {
+    display: "grid",
+    gridTemplateColumns: "2fr 1.2fr 0.9fr 2fr 1fr 1fr 1fr",
+    gap: "6px",
+  };
+
+  const totalStyle: CSSProperties = {
+    display: "flex",
+    justifyContent: "space-between",
+    fontSize: "13px",
+    color: "rgba(226, 232, 240, 0.9)",
+  };
+
+  const renderFields = (
+    value: SpecialsItemInput,
+    onChange: (next: SpecialsItemInput) => void
+  ) => {
+    const amountInput = (key: "billed" | "paid" | "adjusted", label: string) => (
+      <input
+        style={inputStyle}
+        type="number"
+        min="0"
+        step="0.01"
+        aria-label={label}
+        value={value[key]}
+        onChange={(e) =>
+          onChange({ ...value, [key]: parseFloat(e.target.value) || 0 })
+        }
+      />
+    );
+    return (
+      <div style={rowGrid}>
+        <input
+          style={inputStyle}
+          value={value.provider}
+          placeholder="Provider"
+          onChange={(e) => onChange({ ...value, provider: e.target.value })}
+        />
+        <input
+          style={inputStyle}
+          value={value.serviceDate ?? ""}
+          placeholder="YYYY-MM-DD"
+          onChange={(e) =>
+            onChange({ ...value, serviceDate: e.target.value || null })
+          }
+        />
+        <input
+          style={inputStyle}
+          value={value.code ?? ""}
+          placeholder="CPT"
+          onChange={(e) => onChange({ ...value, code: e.target.value || null })}
+        />
+        <input
+          style={inputStyle}
+          value={value.description}
+          placeholder="Description"
+          onChange={(e) => onChange({ ...value, description: e.target.value })}
+        />
+        {amountInput("billed", "Billed")}
+        {amountInput("paid", "Paid")}
+        {amountInput("adjusted", "Adjusted")}
+      </div>
+    );
+  };
+
+  const itemStatus = (item: SpecialsItem): string => {
+    if (item.duplicateOf) {
+      return item.counted ? "Duplicate, counted" : "Duplicate — not counted";
+    }
+    return item.counted ? "" : "Excluded";
+  };
+
+  if (busy === "loading") {
+    return (
+      <p style={{ color: "rgba(148, 163, 184, 0.8)", fontSize: "13px" }}>
+        Loading medical specials...
+      </p>
+    );
+  }
+
+  return (
+    <div style={{ display: "flex", flexDirection: "column", gap: "12px" }}>
+      <div style={{ display: "flex", gap: "8px", alignItems: "center" }}>
+        <button
+          type="button"
+          style={smallButtonStyle}
+          disabled={busy !== null}
+          onClick={() => void handleReparse()}
+        >
+          {busy === "reparsing" ? "Re-parsing..." : "Re-parse bills"}
+        </button>
+        <span style={{ fontSize: "12px", color: "rgba(148, 163, 184, 0.8)" }}>
+          Drafts receive the counted items and these totals.
+        </span>
+      </div>
+
+      {error && (
+        <p style={{ color: "rgba(248, 113, 113, 0.9)", fontSize: "12px" }}>
+          {error}
+        </p>
+      )}
+
+      {ledger && ledger.items.length === 0 && (
+        <p style={{ color: "rgba(148, 163, 184, 0.8)", fontSize: "13px" }}>
+          No billing line items were found in the source documents.
+        </p>
+      )}
+
+      {ledger?.items.map((item) => {
+        const edit = edits[item.id];
+        const status = itemStatus(item);
+        return (
+          <div
+            key={item.id}
+            style={{ opacity: item.counted ? 1 : 0.6, display: "flex", flexDirection: "column", gap: "4px" }}
+          >
+            {renderFields(edit ?? toInput(item), (next) =>
+              setEdits((current) => ({ ...current, [item.id]: next }))
+            )}
+            <div style={{ display: "flex", gap: "6px", alignItems: "center", fontSize: "11px" }}>
+              <span style={{ color: "rgba(148, 163, 184, 0.8)" }}>
+                {item.origin === "manual" ? "Added by hand" : "From bill"}
+              </span>
+              {status && (
+                <span style={{ color: "rgba(253, 230, 138, 0.9)" }}>{status}</span>
+              )}
+              <span style={{ flex: 1 }} />
+              {edit && (
+                <button
+                  type="button"
+                  style={smallButtonStyle}
+                  disabled={busy !== null}
+                  onClick={() => void handleSaveItem(item.id)}
+                >
+                  Save
+                </button>
+              )}
+              <button
+                type="button"
+                style={smallButtonStyle}
+                disabled={busy !== null}
+                onClick={() =>
+                  void run("saving", () =>
+                    updateSpecialsItem(documentId, item.id, {
+                      excluded: item.counted,
+                    })
+                  )
+                }
+              >
+                {item.counted ? "Exclude" : "Include"}
+              </button>
+              <button
+                type="button"
+                style={smallButtonStyle}
+                disabled={busy !== null}
+                aria-label="Remove line item"
+                onClick={() =>
+                  void run("saving", () => deleteSpecialsItem(documentId, item.id))
+                }
+              >
+                −
+              </button>
+            </div>
+          </div>
+        );
+      })}
+
+      <div style={{ display: "flex", flexDirection: "column", gap: "6px" }}>
+        {renderFields(newItem, setNewItem)}
+        <button
+          type="button"
+          style={{ ...smallButtonStyle, alignSelf: "flex-start" }}
+          disabled={busy !== null || !newItem.provider.trim() || newItem.billed <= 0}
+          onClick={() => void handleAdd()}
+        >
+          + Add line item
+        </button>
+      </div>
+
+      {ledger && ledger.items.length > 0 && (
+        <div
+          style={{
+            borderTop: "1px solid rgba(71, 85, 105, 0.5)",
+            paddingTop: "8px",
+            display: "flex",
+            flexDirection: "column",
+            gap: "4px",
+          }}
+        >
+          <div style={totalStyle}>
+            <span>Total billed</span>
+            <span>{formatAmount(ledger.totals.billed)}</span>
+          </div>
+          <div style={totalStyle}>
+            <span>Total paid</span>
+            <span>{formatAmount(ledger.totals.paid)}</span>
+          </div>
+          <div style={totalStyle}>
+            <span>Total adjustments</span>
+            <span>{formatAmount(ledger.totals.adjusted)}</span>
+          </div>
+          <div style={{ ...totalStyle, fontWeight: 600 }}>
+            <span>Outstanding balance</span>
+            <span>{formatAmount(ledger.totals.balance)}</span>
+          </div>
+          {ledger.totals.excludedCount > 0 && (
+            <span style={{ fontSize: "11px", color: "rgba(148, 163, 184, 0.8)" }}>
+              {ledger.totals.excludedCount} item
+              {ledger.totals.excludedCount === 1 ? "" : "s"} left out of the totals
+            </span>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,186 @@
+import type { CSSProperties, ReactNode } from "react";
+import type { DraftSuggestion } from "../lib/api";
+
+interface TrackedChangesProps {
+  draftText: string;
+  suggestions: DraftSuggestion[];
+  canDecide: boolean;
+  busyId: string | null;
+  onAccept: (suggestion: DraftSuggestion) => void;
+  onReject: (suggestion: DraftSuggestion) => void;
+}
+
+/**
+ * Start of the occurrence of text nearest to an offset, or -1
+ */
+export const locateText = (
+  source: string,
+  text: string,
+  near: number
+): number => {
+  if (source.slice(near, near + text.length) === text) return near;
+  let best = -1;
+  for (
+    let index = source.indexOf(text);
+    index !== -1;
+    index = source.indexOf(text, index + 1)
+  ) {
+    if (best === -1 || Math.abs(index - near) < Math.abs(best - near)) {
+      best = index;
+    }
+  }
+  return best;
+};
+
+/**
+ * Place suggestions in the current draft, nearest where they were made.
+ * Suggestions whose text is gone, or that overlap one placed before them,
+ * are returned as stale.
+ */
+function placeSuggestions(draftText: string, suggestions: DraftSuggestion[]) {
+  const located = suggestions.map((suggestion) => ({
+    suggestion,
+    start: locateText(draftText, suggestion.original, suggestion.start),
+  }));
+  const placed: Array<{ suggestion: DraftSuggestion; start: number }> = [];
+  const stale: DraftSuggestion[] = [];
+  let lastEnd = 0;
+  for (const entry of located
+    .filter((entry) => entry.start !== -1)
+    .sort((a, b) => a.start - b.start)) {
+    if (entry.start < lastEnd) {
+      stale.push(entry.suggestion);
+      continue;
+    }
+    placed.push(entry);
+    lastEnd = entry.start + entry.suggestion.original.length;
+  }
+  stale.push(
+    ...located
+      .filter((entry) => entry.start === -1)
+      .map((entry) => entry.suggestion)
+  );
+  return { placed, stale };
+}
+
+/**
+ * The draft with pending suggestions shown inline as tracked changes:
+ * removed text struck through, inserted text highlighted
+ */
+export function TrackedChanges({
+  draftText,
+  suggestions,
+  canDecide,
+  busyId,
+  onAccept,
+  onReject,
+}: TrackedChangesProps) {
+  const { placed, stale } = placeSuggestions(draftText, suggestions);
+
+  const deletedStyle: CSSProperties = {
+    background: "rgba(239, 68, 68, 0.2)",
+    color: "#fca5a5",
+    textDecoration: "line-through",
+  };
+
+  const insertedStyle: CSSProperties = {
+    background: "rgba(16, 185, 129, 0.25)",
+    color: "#a7f3d0",
+    textDecoration: "none",
+  };
+
+  const buttonStyle = (disabled: boolean): CSSProperties => ({
+    marginLeft: "4px",
+    borderRadius: "6px",
+    border: "1px solid rgba(148, 163, 184, 0.4)",
+    background: "rgba(15, 23, 42, 0.8)",
+    color: "#e2e8f0",
+    padding: "0 6px",
+    fontSize: "11px",
+    cursor: disabled ? "not-allowed" : "pointer",
+    opacity: disabled ? 0.6 : 1,
+  });
+
+  const decisionButtons = (suggestion: DraftSuggestion, stale = false) =>
+    canDecide && (
+      <span style={{ whiteSpace: "nowrap" }}>
+        {!stale && (
+          <button
+            type="button"
+            disabled={busyId !== null}
+            onClick={() => onAccept(suggestion)}
+            style={buttonStyle(busyId !== null)}
+            title="Accept this change"
+          >
+            Accept
+          </button>
+        )}
+        <button
+          type="button"
+          disabled={busyId !== null}
+          onClick={() => onReject(suggestion)}
+          style={buttonStyle(busyId !== null)}
+          title="Reject this change"
+        >
+          Reject
+        </button>
+      </span>
+    );
+
+  const parts: ReactNode[] = [];
+  let position = 0;
+  for (const { suggestion, start } of placed) {
+    parts.push(
+      <span key={`text-${suggestion.id}`}>
+        {draftText.slice(position, start)}
+      </span>,
+      <span
+        key={suggestion.id}
+        title={`${suggestion.createdByEmail ?? "Someone"}: ${suggestion.prompt}`}
+        style={{ opacity: busyId === suggestion.id ? 0.5 : 1 }}
+      >
+        {suggestion.original && <del style={deletedStyle}>{suggestion.original}</del>}
+        {suggestion.replacement && (
+          <ins style={insertedStyle}>{suggestion.replacement}</ins>
+        )}
+        {decisionButtons(suggestion)}
+      </span>
+    );
+    position = start + suggestion.original.length;
+  }
+  parts.push(<span key="text-end">{draftText.slice(position)}</span>);
+
+  return (
+    <div>
+      <div
+        style={{
+          whiteSpace: "pre-wrap",
+          minHeight: "360px",
+          borderRadius: "16px",
+          border: "1px solid rgba(148, 163, 184, 0.35)",
+          background: "rgba(15, 23, 42, 0.6)",
+          padding: "16px",
+          fontSize: "15px",
+          lineHeight: 1.7,
+          color: "#e2e8f0",
+        }}
+      >
+        {parts}
+      </div>
+      {stale.length > 0 && (
+        <div style={{ marginTop: "12px", fontSize: "13px" }}>
+          <p style={{ color: "rgba(148, 163, 184, 0.85)", margin: "0 0 6px" }}>
+            These suggestions no longer match the draft:
+          </p>
+          {stale.map((suggestion) => (
+            <div key={suggestion.id} style={{ marginBottom: "4px" }}>
+              <del style={deletedStyle}>{suggestion.original}</del>{" "}
+              <ins style={insertedStyle}>{suggestion.replacement}</ins>
+              {decisionButtons(suggestion, true)}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
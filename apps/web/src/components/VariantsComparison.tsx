@@ -0,0 +1,325 @@
+import { useEffect, useMemo, useState } from "react";
+import type { CSSProperties } from "react";
+import type { DraftVariant, VariantSelection } from "../lib/api";
+
+interface VariantsComparisonProps {
+  variants: DraftVariant[];
+  isOpen: boolean;
+  applying: boolean;
+  onClose: () => void;
+  onApply: (selection: VariantSelection) => void;
+}
+
+/**
+ * Split a draft into paragraphs at blank lines, as the API does when
+ * paragraphs are applied
+ */
+function splitParagraphs(text: string): string[] {
+  return text
+    .split(/\n[ \t]*\n\s*/)
+    .map((paragraph) => paragraph.trim())
+    .filter(Boolean);
+}
+
+// Paragraph pairs with more word pairs than this are shown without a diff
+const MAX_DIFF_CELLS = 250000;
+
+/**
+ * Mark the words of `text` that are not in `base` (longest common
+ * subsequence of words and spaces)
+ */
+function diffWords(
+  base: string,
+  text: string
+): Array<{ text: string; changed: boolean }> {
+  const before = base.split(/(\s+)/);
+  const after = text.split(/(\s+)/);
+  if (before.length * after.length > MAX_DIFF_CELLS) {
+    return [{ text, changed: false }];
+  }
+
+  // common[i][j]: LCS length of before[i..] and after[j..]
+  const common = Array.from({ length: before.length + 1 }, () =>
+    new Array<number>(after.length + 1).fill(0)
+  );
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      common[i][j] =
+        before[i] === after[j]
+          ? common[i + 1][j + 1] + 1
+          : Math.max(common[i + 1][j], common[i][j + 1]);
+    }
+  }
+
+  const parts: Array<{ text: string; changed: boolean }> = [];
+  const push = (word: string, changed: boolean) => {
+    const last = parts[parts.length - 1];
+    if (last && last.changed === changed) last.text += word;
+    else parts.push({ text: word, changed });
+  };
+  let i = 0;
+  for (let j = 0; j < after.length; j++) {
+    while (
+      i < before.length &&
+      before[i] !== after[j] &&
+      common[i + 1][j] >= common[i][j + 1]
+    ) {
+      i++;
+    }
+    if (i < before.length && before[i] === after[j]) {
+      push(after[j], false);
+      i++;
+    } else {
+      push(after[j], !/^\s*$/.test(after[j]));
+    }
+  }
+  return parts;
+}
+
+export function VariantsComparison({
+  variants,
+  isOpen,
+  applying,
+  onClose,
+  onApply,
+}: VariantsComparisonProps) {
+  const paragraphs = useMemo(
+    () => variants.map((variant) => splitParagraphs(variant.draftText)),
+    [variants]
+  );
+  const rowCount = Math.max(0, ...paragraphs.map((list) => list.length));
+
+  // Variant picked for each paragraph row; null leaves the row out
+  const [picks, setPicks] = useState<Array<number | null>>([]);
+  useEffect(() => {
+    setPicks(
+      Array.from({ length: rowCount }, (_, row) =>
+        paragraphs.findIndex((list) => row < list.length)
+      ).map((column) => (column === -1 ? null : column))
+    );
+  }, [paragraphs, rowCount]);
+
+  if (!isOpen) {
+    return null;
+  }
+
+  const selectedParagraphs = picks.flatMap((column, row) =>
+    column === null ? [] : [{ variantId: variants[column].id, index: row }]
+  );
+
+  const cellStyle = (picked: boolean): CSSProperties => ({
+    textAlign: "left",
+    whiteSpace: "pre-wrap",
+    borderRadius: "10px",
+    border: `1px solid ${
+      picked ? "rgba(16, 185, 129, 0.7)" : "rgba(71, 85, 105, 0.4)"
+    }`,
+    background: picked ? "rgba(6, 78, 59, 0.35)" : "rgba(15, 23, 42, 0.5)",
+    color: "rgba(226, 232, 240, 0.9)",
+    padding: "10px 12px",
+    fontSize: "13px",
+    lineHeight: 1.5,
+    cursor: "pointer",
+  });
+
+  const buttonStyle: CSSProperties = {
+    borderRadius: "10px",
+    border: "1px solid rgba(16, 185, 129, 0.6)",
+    background: "transparent",
+    color: "rgba(110, 231, 183, 0.9)",
+    padding: "6px 12px",
+    fontSize: "13px",
+    fontWeight: 600,
+    cursor: applying ? "not-allowed" : "pointer",
+    opacity: applying ? 0.6 : 1,
+  };
+
+  const markStyle: CSSProperties = {
+    background: "rgba(250, 204, 21, 0.3)",
+    color: "#fef9c3",
+    borderRadius: "3px",
+  };
+
+  const gridStyle: CSSProperties = {
+    display: "grid",
+    gridTemplateColumns: `repeat(${variants.length}, minmax(220px, 1fr))`,
+    gap: "12px",
+  };
+
+  return (
+    <div
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="variants-comparison-title"
+      style={{
+        position: "fixed",
+        inset: 0,
+        background: "rgba(2, 6, 23, 0.75)",
+        display: "flex",
+        alignItems: "center",
+        justifyContent: "center",
+        zIndex: 100,
+        padding: "16px",
+      }}
+      onClick={onClose}
+    >
+      <div
+        style={{
+          width: "100%",
+          maxWidth: "1280px",
+          maxHeight: "90vh",
+          overflow: "auto",
+          background:
+            "linear-gradient(180deg, rgba(15, 23, 42, 0.98), rgba(15, 23, 42, 0.93))",
+          borderRadius: "24px",
+          border: "1px solid rgba(148, 163, 184, 0.25)",
+          padding: "32px",
+          color: "#e2e8f0",
+        }}
+        onClick={(event) => event.stopPropagation()}
+      >
+        <div
+          style={{
+            display: "flex",
+            justifyContent: "space-between",
+            alignItems: "flex-start",
+            gap: "16px",
+            marginBottom: "20px",
+          }}
+        >
+          <div>
+            <h2
+              id="variants-comparison-title"
+              style={{ fontSize: "24px", fontWeight: 700, margin: 0 }}
+            >
+              Compare drafts
+            </h2>
+            <p style={{ marginTop: "8px", color: "rgba(148, 163, 184, 0.8)" }}>
+              Highlighted words differ from {variants[0]?.label}. Use one draft
+              as it is, or click a paragraph in each row to build the draft
+              from several (click a picked paragraph to leave the row out).
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            style={{
+              border: "none",
+              background: "transparent",
+              color: "rgba(148, 163, 184, 0.9)",
+              fontSize: "18px",
+              cursor: "pointer",
+            }}
+            aria-label="Close draft comparison"
+          >
+            ✕
+          </button>
+        </div>
+
+        <div style={{ ...gridStyle, marginBottom: "12px" }}>
+          {variants.map((variant) => (
+            <div key={variant.id}>
+              <strong style={{ display: "block", marginBottom: "4px" }}>
+                {variant.label}
+              </strong>
+              {variant.instructions && (
+                <p
+                  style={{
+                    margin: "0 0 8px",
+                    fontSize: "12px",
+                    color: "rgba(148, 163, 184, 0.9)",
+                  }}
+                >
+                  {variant.instructions}
+                </p>
+              )}
+              {variant.citations && variant.citations.unsupportedCount > 0 && (
+                <p
+                  style={{
+                    margin: "0 0 8px",
+                    fontSize: "12px",
+                    color: "rgba(254, 202, 202, 0.95)",
+                  }}
+                >
+                  ⚠ {variant.citations.unsupportedCount} unsupported
+                </p>
+              )}
+              <button
+                type="button"
+                disabled={applying}
+                style={buttonStyle}
+                onClick={() => onApply({ variantId: variant.id })}
+              >
+                Use this draft
+              </button>
+            </div>
+          ))}
+        </div>
+
+        {Array.from({ length: rowCount }, (_, row) => (
+          <div key={row} style={{ ...gridStyle, marginBottom: "12px" }}>
+            {variants.map((variant, column) => {
+              const paragraph = paragraphs[column][row];
+              if (paragraph === undefined) {
+                return <div key={variant.id} />;
+              }
+              const base = paragraphs[0][row];
+              const parts =
+                column === 0 || base === undefined
+                  ? [{ text: paragraph, changed: column !== 0 }]
+                  : diffWords(base, paragraph);
+              const picked = picks[row] === column;
+              return (
+                <button
+                  key={variant.id}
+                  type="button"
+                  aria-pressed={picked}
+                  style={cellStyle(picked)}
+                  onClick={() =>
+                    setPicks((current) =>
+                      current.map((value, index) =>
+                        index === row ? (picked ? null : column) : value
+                      )
+                    )
+                  }
+                >
+                  {parts.map((part, index) =>
+                    part.changed ? (
+                      <mark key={index} style={markStyle}>
+                        {part.text}
+                      </mark>
+                    ) : (
+                      <span key={index}>{part.text}</span>
+                    )
+                  )}
+                </button>
+              );
+            })}
+          </div>
+        ))}
+
+        <div
+          style={{
+            display: "flex",
+            justifyContent: "flex-end",
+            alignItems: "center",
+            gap: "12px",
+            marginTop: "20px",
+          }}
+        >
+          <span style={{ fontSize: "13px", color: "rgba(148, 163, 184, 0.8)" }}>
+            {selectedParagraphs.length} of {rowCount} paragraphs selected
+          </span>
+          <button
+            type="button"
+            disabled={applying || selectedParagraphs.length === 0}
+            style={buttonStyle}
+            onClick={() => onApply({ paragraphs: selectedParagraphs })}
+          >
+            {applying ? "Applying…" : "Use selected paragraphs"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,213 @@
+import { useEffect, useState } from "react";
+import type { CSSProperties } from "react";
+import type { VersionDiff, WordHunk } from "../lib/api";
+
+interface VersionDiffViewProps {
+  diff: VersionDiff;
+  restoring: boolean;
+  onRestore: (hunks: number[]) => void;
+}
+
+/**
+ * Word-level changes from an earlier version to the current draft, inline
+ * or side by side, with the changes to put back picked one by one
+ */
+export function VersionDiffView({
+  diff,
+  restoring,
+  onRestore,
+}: VersionDiffViewProps) {
+  const [layout, setLayout] = useState<"inline" | "side-by-side">("inline");
+  const [picked, setPicked] = useState<Set<number>>(new Set());
+  useEffect(() => setPicked(new Set()), [diff]);
+
+  const togglePicked = (index: number) => {
+    const next = new Set(picked);
+    if (next.has(index)) {
+      next.delete(index);
+    } else {
+      next.add(index);
+    }
+    setPicked(next);
+  };
+
+  const deletedStyle: CSSProperties = {
+    background: "rgba(239, 68, 68, 0.2)",
+    color: "#fca5a5",
+    textDecoration: "line-through",
+  };
+
+  const insertedStyle: CSSProperties = {
+    background: "rgba(16, 185, 129, 0.25)",
+    color: "#a7f3d0",
+    textDecoration: "none",
+  };
+
+  const contextStyle: CSSProperties = {
+    color: "rgba(148, 163, 184, 0.85)",
+  };
+
+  const hunkStyle = (isPicked: boolean): CSSProperties => ({
+    display: "flex",
+    gap: "12px",
+    alignItems: "flex-start",
+    borderRadius: "12px",
+    border: `1px solid ${
+      isPicked ? "rgba(16, 185, 129, 0.6)" : "rgba(71, 85, 105, 0.4)"
+    }`,
+    background: "rgba(15, 23, 42, 0.4)",
+    padding: "10px 12px",
+    fontSize: "14px",
+    lineHeight: 1.6,
+  });
+
+  const toggleStyle = (active: boolean): CSSProperties => ({
+    borderRadius: "10px",
+    border: "1px solid rgba(71, 85, 105, 0.5)",
+    background: active ? "rgba(16, 185, 129, 0.15)" : "transparent",
+    color: active ? "#6ee7b7" : "rgba(203, 213, 225, 0.8)",
+    padding: "4px 10px",
+    fontSize: "12px",
+    cursor: "pointer",
+  });
+
+  const renderHunk = (hunk: WordHunk) => {
+    if (layout === "inline") {
+      return (
+        <p style={{ margin: 0, whiteSpace: "pre-wrap", flex: 1 }}>
+          <span style={contextStyle}>…{hunk.contextBefore}</span>
+          {hunk.deleted && <del style={deletedStyle}>{hunk.deleted}</del>}
+          {hunk.inserted && <ins style={insertedStyle}>{hunk.inserted}</ins>}
+          <span style={contextStyle}>{hunk.contextAfter}…</span>
+        </p>
+      );
+    }
+    return (
+      <div
+        style={{
+          flex: 1,
+          display: "grid",
+          gridTemplateColumns: "1fr 1fr",
+          gap: "12px",
+        }}
+      >
+        <p style={{ margin: 0, whiteSpace: "pre-wrap" }}>
+          <span style={contextStyle}>…{hunk.contextBefore}</span>
+          <del style={deletedStyle}>{hunk.deleted}</del>
+          <span style={contextStyle}>{hunk.contextAfter}…</span>
+        </p>
+        <p style={{ margin: 0, whiteSpace: "pre-wrap" }}>
+          <span style={contextStyle}>…{hunk.contextBefore}</span>
+          <ins style={insertedStyle}>{hunk.inserted}</ins>
+          <span style={contextStyle}>{hunk.contextAfter}…</span>
+        </p>
+      </div>
+    );
+  };
+
+  return (
+    <div style={{ display: "flex", flexDirection: "column", gap: "12px" }}>
+      <div
+        style={{
+          display: "flex",
+          justifyContent: "space-between",
+          alignItems: "center",
+          gap: "12px",
+          flexWrap: "wrap",
+          fontSize: "13px",
+          color: "rgba(203, 213, 225, 0.85)",
+        }}
+      >
+        <span>
+          From this version to the current draft: {diff.addedWords} words
+          added, {diff.removedWords} removed
+        </span>
+        <span style={{ display: "flex", gap: "6px" }}>
+          <button
+            type="button"
+            onClick={() => setLayout("inline")}
+            style={toggleStyle(layout === "inline")}
+          >
+            Inline
+          </button>
+          <button
+            type="button"
+            onClick={() => setLayout("side-by-side")}
+            style={toggleStyle(layout === "side-by-side")}
+          >
+            Side by side
+          </button>
+        </span>
+      </div>
+
+      {diff.hunks.length === 0 ? (
+        <p style={{ margin: 0, fontSize: "14px", ...contextStyle }}>
+          This version is the same as the current draft.
+        </p>
+      ) : (
+        <>
+          {layout === "side-by-side" && (
+            <div
+              style={{
+                display: "grid",
+                gridTemplateColumns: "1fr 1fr",
+                gap: "12px",
+                paddingLeft: "28px",
+                fontSize: "12px",
+                fontWeight: 600,
+                textTransform: "uppercase",
+                letterSpacing: "0.05em",
+                ...contextStyle,
+              }}
+            >
+              <span>This version</span>
+              <span>Current draft</span>
+            </div>
+          )}
+          {diff.hunks.map((hunk) => (
+            <label key={hunk.index} style={hunkStyle(picked.has(hunk.index))}>
+              <input
+                type="checkbox"
+                checked={picked.has(hunk.index)}
+                onChange={() => togglePicked(hunk.index)}
+                style={{ marginTop: "5px" }}
+                aria-label="Put back this change"
+              />
+              {renderHunk(hunk)}
+            </label>
+          ))}
+          {diff.truncated && (
+            <p style={{ margin: 0, fontSize: "13px", ...contextStyle }}>
+              Only the first {diff.hunks.length} changes are shown.
+            </p>
+          )}
+          <div style={{ display: "flex", justifyContent: "flex-end" }}>
+            <button
+              type="button"
+              disabled={picked.size === 0 || restoring}
+              onClick={() => onRestore(Array.from(picked).sort((a, b) => a - b))}
+              style={{
+                borderRadius: "14px",
+                border: "1px solid rgba(16, 185, 129, 0.6)",
+                background: "rgba(16, 185, 129, 0.1)",
+                padding: "8px 16px",
+                fontSize: "14px",
+                fontWeight: 600,
+                color: "rgba(110, 231, 183, 0.9)",
+                cursor:
+                  picked.size === 0 || restoring ? "not-allowed" : "pointer",
+                opacity: picked.size === 0 || restoring ? 0.5 : 1,
+              }}
+            >
+              {restoring
+                ? "Restoring..."
+                : `Put back ${picked.size} selected ${
+                    picked.size === 1 ? "change" : "changes"
+                  }`}
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -187,3 +187,960 @@ export async function cancelInvitation(
   );
 }
 
+
+export type PiiType =
+  | "ssn"
+  | "dob"
+  | "mrn"
+  | "phone"
+  | "email"
+  | "account_number";
+
+export type RedactionPolicy = "none" | "mask" | "tokenize" | "drop";
+
+export interface PiiSpan {
+  type: PiiType;
+  start: number;
+  end: number;
+  text: string;
+  ignored?: boolean;
+}
+
+export interface RedactionSettings {
+  piiSpans: PiiSpan[];
+  redactionPolicy: RedactionPolicy;
+}
+
+/**
+ * Update a document's redaction policy and the spans marked as not sensitive
+ * (owner or editor).
+ */
+export async function updateRedaction(
+  documentId: string,
+  update: {
+    policy?: RedactionPolicy;
+    ignoredSpans?: Array<{ start: number; end: number }>;
+  }
+): Promise<RedactionSettings> {
+  const response = await authApi.put(
+    `/documents/${documentId}/redaction`,
+    update
+  );
+  return response.data as RedactionSettings;
+}
+
+export interface FactSource {
+  documentId: string;
+  start: number;
+  end: number;
+  quote: string;
+}
+
+export interface Fact {
+  value: string;
+  source: FactSource | null;
+}
+
+export interface MedicalSpecial {
+  provider: string;
+  date: string | null;
+  description: string;
+  amount: number;
+  source: FactSource | null;
+}
+
+export interface LostWages {
+  description: string;
+  amount: number;
+  source: FactSource | null;
+}
+
+export interface CaseFacts {
+  claimant: Fact | null;
+  defendant: Fact | null;
+  insurer: Fact | null;
+  incidentDate: Fact | null;
+  injuries: Fact[];
+  treatmentProviders: Fact[];
+  medicalSpecials: MedicalSpecial[];
+  lostWages: LostWages[];
+}
+
+export interface CaseFactsState {
+  facts: CaseFacts | null;
+  confirmedAt: string | null;
+}
+
+/**
+ * Fetch the structured case facts stored for a document.
+ */
+export async function getCaseFacts(documentId: string): Promise<CaseFactsState> {
+  const response = await authApi.get(`/documents/${documentId}/facts`);
+  return response.data as CaseFactsState;
+}
+
+/**
+ * Extract case facts from the document's sources (replaces unconfirmed facts).
+ */
+export async function extractCaseFacts(
+  documentId: string
+): Promise<CaseFactsState> {
+  const response = await authApi.post(
+    `/documents/${documentId}/facts/extract`,
+    {},
+    { timeout: 120000 }
+  );
+  return response.data as CaseFactsState;
+}
+
+/**
+ * Save edited case facts; confirmed facts drive draft generation.
+ */
+export async function saveCaseFacts(
+  documentId: string,
+  facts: CaseFacts,
+  confirmed: boolean
+): Promise<CaseFactsState> {
+  const response = await authApi.put(`/documents/${documentId}/facts`, {
+    facts,
+    confirmed,
+  });
+  return response.data as CaseFactsState;
+}
+
+export interface SpecialsItemInput {
+  provider: string;
+  serviceDate: string | null;
+  code: string | null;
+  description: string;
+  billed: number;
+  paid: number;
+  adjusted: number;
+}
+
+export interface SpecialsItem extends SpecialsItemInput {
+  id: string;
+  documentId: string;
+  origin: "parsed" | "manual";
+  excluded: boolean | null;
+  source: { start: number; end: number } | null;
+  duplicateOf: string | null;
+  counted: boolean;
+}
+
+export interface SpecialsTotals {
+  billed: number;
+  paid: number;
+  adjusted: number;
+  balance: number;
+  itemCount: number;
+  excludedCount: number;
+}
+
+export interface SpecialsLedger {
+  items: SpecialsItem[];
+  totals: SpecialsTotals;
+}
+
+/**
+ * Fetch the medical specials ledger (line items and computed totals).
+ */
+export async function getSpecials(documentId: string): Promise<SpecialsLedger> {
+  const response = await authApi.get(`/documents/${documentId}/specials`);
+  return response.data as SpecialsLedger;
+}
+
+/**
+ * Add a line item to the ledger by hand.
+ */
+export async function addSpecialsItem(
+  documentId: string,
+  item: SpecialsItemInput
+): Promise<SpecialsLedger> {
+  const response = await authApi.post(`/documents/${documentId}/specials`, item);
+  return response.data as SpecialsLedger;
+}
+
+/**
+ * Edit a line item, or include/exclude it from the totals
+ * (null lets duplicate detection decide).
+ */
+export async function updateSpecialsItem(
+  documentId: string,
+  itemId: string,
+  update: Partial<SpecialsItemInput> & { excluded?: boolean | null }
+): Promise<SpecialsLedger> {
+  const response = await authApi.put(
+    `/documents/${documentId}/specials/${itemId}`,
+    update
+  );
+  return response.data as SpecialsLedger;
+}
+
+/**
+ * Remove a line item from the ledger.
+ */
+export async function deleteSpecialsItem(
+  documentId: string,
+  itemId: string
+): Promise<SpecialsLedger> {
+  const response = await authApi.delete(
+    `/documents/${documentId}/specials/${itemId}`
+  );
+  return response.data as SpecialsLedger;
+}
+
+/**
+ * Parse the line items again from the extracted bills (manual items are kept).
+ */
+export async function reparseSpecials(
+  documentId: string
+): Promise<SpecialsLedger> {
+  const response = await authApi.post(
+    `/documents/${documentId}/specials/reparse`
+  );
+  return response.data as SpecialsLedger;
+}
+
+export interface EncodingIssue {
+  kind: "replacement_character" | "mojibake" | "control_character";
+  count: number;
+  sample: string;
+}
+
+export interface ExtractionQuality {
+  characterCount: number;
+  garbageRatio: number;
+  language: string | null;
+  emptyPages: number[];
+  encodingIssues: EncodingIssue[];
+  warnings: string[];
+}
+
+export interface ReextractionOptions {
+  forceOcr?: boolean;
+  alternateParser?: boolean;
+}
+
+export interface DiffLine {
+  type: "context" | "added" | "removed";
+  text: string;
+}
+
+export interface DiffHunk {
+  beforeStart: number;
+  beforeLines: number;
+  afterStart: number;
+  afterLines: number;
+  lines: DiffLine[];
+}
+
+export interface TextDiff {
+  addedLines: number;
+  removedLines: number;
+  unchangedLines: number;
+  hunks: DiffHunk[];
+  truncated: boolean;
+}
+
+export interface ReextractionPreview {
+  reextractionId: string;
+  options: ReextractionOptions;
+  previousQuality: ExtractionQuality | null;
+  quality: ExtractionQuality;
+  diff: TextDiff;
+}
+
+/**
+ * Re-run extraction with different options and preview the changes
+ * (the stored text is not replaced yet).
+ */
+export async function reextractDocument(
+  documentId: string,
+  options: ReextractionOptions
+): Promise<ReextractionPreview> {
+  const response = await authApi.post(
+    `/documents/${documentId}/reextract`,
+    options
+  );
+  return response.data as ReextractionPreview;
+}
+
+/**
+ * Replace the extracted text with a previewed re-extraction.
+ */
+export async function applyReextraction(
+  documentId: string,
+  reextractionId: string
+): Promise<void> {
+  await authApi.post(
+    `/documents/${documentId}/reextract/${reextractionId}/apply`
+  );
+}
+
+export type DocumentTypeId =
+  | "demand_letter"
+  | "preservation_letter"
+  | "representation_letter"
+  | "settlement_counter_offer"
+  | "records_request";
+
+export interface DocumentTypeOption {
+  id: DocumentTypeId;
+  label: string;
+  description: string;
+  requiredFacts: Array<{ fact: keyof CaseFacts; label: string }>;
+}
+
+/**
+ * Fetch the letter types drafts can be generated as.
+ */
+export async function getDocumentTypes(): Promise<DocumentTypeOption[]> {
+  const response = await authApi.get("/document-types");
+  return (response.data as { documentTypes: DocumentTypeOption[] })
+    .documentTypes;
+}
+
+export type TemplateVariableType = "text" | "date" | "money" | "number" | "list";
+
+export interface TemplateVariable {
+  name: string;
+  type: TemplateVariableType;
+  label: string;
+  required: boolean;
+}
+
+export interface BuiltinVariable {
+  name: string;
+  type: TemplateVariableType;
+  label: string;
+  fields?: Record<string, TemplateVariableType>;
+}
+
+/**
+ * Fetch the merge-field variables filled from the case file.
+ */
+export async function getMergeFields(): Promise<BuiltinVariable[]> {
+  const response = await authApi.get("/templates/merge-fields");
+  return (response.data as { builtins: BuiltinVariable[] }).builtins;
+}
+
+export interface GenerateRequest {
+  documentId: string;
+  templateId: string;
+  instructions?: string;
+  documentType?: DocumentTypeId;
+  variables?: Record<string, string | string[]>;
+  mergeOnly?: boolean;
+}
+
+export interface GenerationBudget {
+  modelId: string;
+  contextWindow: number;
+  maxPromptTokens: number;
+  outputTokens: number;
+  promptTokens: {
+    template: number;
+    instructions: number;
+    sources: number;
+    system: number;
+    total: number;
+  };
+  availableTokens: number;
+  strategy: "single" | "map-reduce";
+  chunkTokens?: number;
+}
+
+export interface ClaimFigure {
+  text: string;
+  kind: "money" | "date" | "number";
+  start: number;
+  end: number;
+  supported: boolean;
+}
+
+export interface ClaimSupport {
+  type: "source" | "case_facts" | "specials" | "template";
+  label: string;
+  quote: string;
+  documentId?: string;
+  start?: number;
+  end?: number;
+  before?: string;
+  after?: string;
+}
+
+export interface Claim {
+  start: number;
+  end: number;
+  text: string;
+  figures: ClaimFigure[];
+  supports: ClaimSupport[];
+  supported: boolean;
+}
+
+export interface DraftCitations {
+  claims: Claim[];
+  unsupportedCount: number;
+}
+
+export interface GenerateResult {
+  draftText: string;
+  documentId: string;
+  documentType: DocumentTypeId;
+  citations: DraftCitations;
+  missingFacts?: Array<keyof CaseFacts>;
+  missingFields?: Array<{ name: string; label: string }>;
+  mergeOnly?: boolean;
+  budget: GenerationBudget;
+  chunkCount?: number;
+  cachedSummaryCount?: number;
+  redactedSpanCount?: number;
+  usedCaseFacts?: boolean;
+  specialsTotals?: SpecialsTotals;
+  matterId?: string;
+  sourceCount?: number;
+}
+
+export interface GenerationProgress {
+  stage: "summarizing";
+  completed: number;
+  total: number;
+}
+
+/**
+ * Realtime connection that can carry a streamed draft (the editor's
+ * collaboration provider)
+ */
+export interface GenerationChannel {
+  on(name: string, handler: (message: any) => void): void;
+  off(name: string, handler: (message: any) => void): void;
+}
+
+/**
+ * Generate a draft, reporting its text as the model writes it.
+ * `onText` receives each new piece of the draft. Long sources are
+ * summarized part by part before the letter is written; `onProgress`
+ * reports how many parts are done. Aborting the signal cancels generation
+ * and leaves the saved draft unchanged.
+ * API Gateway buffers the HTTP response, so with a connected `channel` the
+ * text and progress arrive over the realtime connection instead.
+ */
+export async function streamGeneration(
+  request: GenerateRequest,
+  onText: (text: string) => void,
+  signal?: AbortSignal,
+  onProgress?: (progress: GenerationProgress) => void,
+  channel?: GenerationChannel
+): Promise<GenerateResult> {
+  const streamId = channel ? crypto.randomUUID() : undefined;
+  const handleText = (message: any) => {
+    if (message.streamId === streamId) onText(message.text as string);
+  };
+  const handleProgress = (message: any) => {
+    if (message.streamId === streamId) {
+      onProgress?.({
+        stage: message.stage,
+        completed: message.completed,
+        total: message.total,
+      });
+    }
+  };
+  channel?.on("generation_text", handleText);
+  channel?.on("generation_progress", handleProgress);
+
+  try {
+    return await readGenerationStream(
+      { ...request, streamId },
+      onText,
+      signal,
+      onProgress
+    );
+  } finally {
+    channel?.off("generation_text", handleText);
+    channel?.off("generation_progress", handleProgress);
+  }
+}
+
+async function readGenerationStream(
+  request: GenerateRequest & { streamId?: string },
+  onText: (text: string) => void,
+  signal?: AbortSignal,
+  onProgress?: (progress: GenerationProgress) => void
+): Promise<GenerateResult> {
+  const token = localStorage.getItem("auth_token");
+  const response = await fetch(`${API_BASE_URL}/documents/generate/stream`, {
+    method: "POST",
+    credentials: "include",
+    headers: {
+      "Content-Type": "application/json",
+      ...(token && { Authorization: `Bearer ${token}` }),
+    },
+    body: JSON.stringify(request),
+    signal,
+  });
+
+  if (!response.ok || !response.body) {
+    const data = (await response.json().catch(() => null)) as
+      | { error?: string; message?: string }
+      | null;
+    throw new Error(
+      data?.message ?? data?.error ?? `Generation failed (${response.status})`
+    );
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    // Events are separated by a blank line
+    let boundary = buffer.indexOf("\n\n");
+    while (boundary !== -1) {
+      const block = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+      boundary = buffer.indexOf("\n\n");
+
+      const event = block.match(/^event: (.*)$/m)?.[1];
+      const data = block.match(/^data: (.*)$/m)?.[1];
+      if (!event || data === undefined) continue;
+      const payload = JSON.parse(data);
+
+      if (event === "text") {
+        onText(payload.text as string);
+      } else if (event === "progress") {
+        onProgress?.(payload as GenerationProgress);
+      } else if (event === "done") {
+        return payload as GenerateResult;
+      } else if (event === "error") {
+        throw new Error(payload.message ?? payload.error ?? "Generation failed");
+      }
+    }
+  }
+
+  throw new Error("Generation ended unexpectedly");
+}
+
+export interface VariantParameters {
+  label?: string;
+  templateId?: string;
+  instructions?: string;
+  documentType?: DocumentTypeId;
+}
+
+export interface DraftVariant {
+  id: string;
+  idx: number;
+  label: string;
+  templateId: string | null;
+  instructions: string | null;
+  documentType: DocumentTypeId | null;
+  draftText: string;
+  citations: DraftCitations | null;
+  createdAt: string;
+}
+
+export interface FailedVariant {
+  idx: number;
+  label: string;
+  error: string;
+}
+
+export interface VariantsResult {
+  documentId: string;
+  batchId: string;
+  variants: Array<DraftVariant | FailedVariant>;
+}
+
+export type VariantSelection =
+  | { variantId: string }
+  | { paragraphs: Array<{ variantId: string; index: number }> };
+
+/**
+ * Generate 2 to 4 candidate drafts: `variants` is how many to write with the
+ * same settings, or one set of overrides per draft. The document's draft is
+ * unchanged until one is applied.
+ */
+export async function generateVariants(
+  request: GenerateRequest,
+  variants: number | VariantParameters[]
+): Promise<VariantsResult> {
+  const response = await authApi.post("/documents/generate", {
+    ...request,
+    variants,
+  });
+  return response.data as VariantsResult;
+}
+
+/**
+ * Fetch the candidate drafts of the document's latest variants request.
+ */
+export async function getVariants(documentId: string): Promise<DraftVariant[]> {
+  const response = await authApi.get(`/documents/${documentId}/variants`);
+  return (response.data as { variants: DraftVariant[] }).variants;
+}
+
+/**
+ * Replace the draft with a candidate draft, or with paragraphs picked from
+ * several.
+ */
+export async function applyVariant(
+  documentId: string,
+  selection: VariantSelection
+): Promise<{ draftText: string; citations: DraftCitations | null }> {
+  const response = await authApi.post(
+    `/documents/${documentId}/variants/apply`,
+    selection
+  );
+  return response.data as {
+    draftText: string;
+    citations: DraftCitations | null;
+  };
+}
+
+export type SuggestionStatus = "pending" | "accepted" | "rejected";
+
+/**
+ * A change suggested by a refinement: replace original with replacement.
+ * start/end are offsets into the draft the refinement was made on.
+ */
+export interface DraftSuggestion {
+  id: string;
+  documentId: string;
+  refinementId: string;
+  prompt: string;
+  idx: number;
+  start: number;
+  end: number;
+  original: string;
+  replacement: string;
+  status: SuggestionStatus;
+  createdBy: string | null;
+  createdByEmail: string | null;
+  decidedBy: string | null;
+  decidedByEmail: string | null;
+  decidedAt: string | null;
+  createdAt: string;
+}
+
+/**
+ * The span an accepted suggestion replaced in the saved draft
+ */
+export interface SuggestionEdit {
+  start: number;
+  end: number;
+  original: string;
+  replacement: string;
+}
+
+/**
+ * Get a document's pending suggestions (or all of them). canDecide is false
+ * for viewers.
+ */
+export async function getSuggestions(
+  documentId: string,
+  status: SuggestionStatus | "all" = "pending"
+): Promise<{ suggestions: DraftSuggestion[]; canDecide: boolean }> {
+  const response = await authApi.get(`/documents/${documentId}/suggestions`, {
+    params: { status },
+  });
+  return response.data as {
+    suggestions: DraftSuggestion[];
+    canDecide: boolean;
+  };
+}
+
+/**
+ * Accept a suggestion; the saved draft is updated and the edit returned for
+ * the shared document
+ */
+export async function acceptSuggestion(
+  documentId: string,
+  suggestionId: string
+): Promise<{ suggestion: DraftSuggestion; edit: SuggestionEdit }> {
+  const response = await authApi.post(
+    `/documents/${documentId}/suggestions/${suggestionId}/accept`
+  );
+  return response.data as { suggestion: DraftSuggestion; edit: SuggestionEdit };
+}
+
+/**
+ * Reject a suggestion, leaving the draft unchanged
+ */
+export async function rejectSuggestion(
+  documentId: string,
+  suggestionId: string
+): Promise<DraftSuggestion> {
+  const response = await authApi.post(
+    `/documents/${documentId}/suggestions/${suggestionId}/reject`
+  );
+  return (response.data as { suggestion: DraftSuggestion }).suggestion;
+}
+
+/**
+ * A version of a document's draft in a diff: "current", or
+ * "<kind>:<id>" for a refinement, generation run, snapshot or branch
+ */
+export interface DiffVersion {
+  ref: string;
+  kind: "current" | "refinement" | "run" | "snapshot" | "branch";
+  id: string | null;
+  label: string;
+  createdAt: string;
+}
+
+/**
+ * One word-level change between two versions, with offsets into both
+ */
+export interface WordHunk {
+  index: number;
+  beforeStart: number;
+  beforeEnd: number;
+  afterStart: number;
+  afterEnd: number;
+  deleted: string;
+  inserted: string;
+  contextBefore: string;
+  contextAfter: string;
+}
+
+export interface VersionDiff {
+  from: DiffVersion;
+  to: DiffVersion;
+  addedWords: number;
+  removedWords: number;
+  hunks: WordHunk[];
+  truncated: boolean;
+}
+
+/**
+ * Compare two versions of a document's draft word by word
+ */
+export async function getVersionDiff(
+  documentId: string,
+  from: string,
+  to = "current"
+): Promise<VersionDiff> {
+  const response = await authApi.get(`/documents/${documentId}/diff`, {
+    params: { from, to },
+  });
+  return response.data as VersionDiff;
+}
+
+/**
+ * Put back some changes of an earlier version into the current draft;
+ * hunks are indexes into the diff from that version to "current"
+ */
+export async function restoreHunks(
+  documentId: string,
+  from: string,
+  hunks: number[]
+): Promise<{ draftText: string; restored: number }> {
+  const response = await authApi.post(`/documents/${documentId}/diff/restore`, {
+    from,
+    hunks,
+  });
+  return response.data as { draftText: string; restored: number };
+}
+
+export type VersionType =
+  | "current"
+  | "generation"
+  | "refinement"
+  | "snapshot"
+  | "checkpoint";
+
+/**
+ * One version on a document's timeline; checkpoints are snapshots saved
+ * under a name
+ */
+export interface TimelineVersion extends DiffVersion {
+  type: VersionType;
+  contributors: Array<{ userId: string; email: string | null }>;
+  restorable: boolean;
+}
+
+export interface Checkpoint {
+  ref: string;
+  id: string;
+  version: number;
+  name: string;
+  createdBy: string;
+  createdAt: string;
+}
+
+/**
+ * Every version of a document's draft, newest first
+ */
+export async function getVersionTimeline(
+  documentId: string
+): Promise<{ versions: TimelineVersion[]; canRestore: boolean }> {
+  const response = await authApi.get(`/documents/${documentId}/versions`);
+  return response.data as { versions: TimelineVersion[]; canRestore: boolean };
+}
+
+/**
+ * Make an earlier version the current draft
+ */
+export async function restoreVersion(
+  documentId: string,
+  ref: string
+): Promise<{ draftText: string; restored: DiffVersion }> {
+  const response = await authApi.post(
+    `/documents/${documentId}/versions/restore`,
+    { ref }
+  );
+  return response.data as { draftText: string; restored: DiffVersion };
+}
+
+/**
+ * Save the draft and its Y.js state, as the server holds them, under a name
+ */
+export async function createCheckpoint(
+  documentId: string,
+  name: string
+): Promise<Checkpoint> {
+  const response = await authApi.post(`/documents/${documentId}/checkpoints`, {
+    name,
+  });
+  return (response.data as { checkpoint: Checkpoint }).checkpoint;
+}
+
+/**
+ * A working draft forked from a checkpoint
+ */
+export interface DraftBranch {
+  id: string;
+  documentId: string;
+  name: string;
+  checkpointId: string;
+  checkpointName: string;
+  draftText: string;
+  createdBy: string | null;
+  createdByEmail: string | null;
+  updatedBy: string | null;
+  updatedByEmail: string | null;
+  mergedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type MergeSide = "target" | "branch";
+
+/**
+ * Words both drafts changed differently; offsets are into the merged text
+ */
+export interface MergeConflict {
+  start: number;
+  end: number;
+  base: string;
+  target: string;
+  branch: string;
+}
+
+export interface MergeResult {
+  draftText: string;
+  into: string;
+  applied: number;
+  conflicts: MergeConflict[];
+}
+
+export async function getBranches(
+  documentId: string
+): Promise<{ branches: DraftBranch[]; canEdit: boolean }> {
+  const response = await authApi.get(`/documents/${documentId}/branches`);
+  return response.data as { branches: DraftBranch[]; canEdit: boolean };
+}
+
+/**
+ * Fork a working draft from a checkpoint
+ */
+export async function createBranch(
+  documentId: string,
+  checkpointId: string,
+  name: string
+): Promise<DraftBranch> {
+  const response = await authApi.post(`/documents/${documentId}/branches`, {
+    checkpointId,
+    name,
+  });
+  return (response.data as { branch: DraftBranch }).branch;
+}
+
+export async function saveBranch(
+  documentId: string,
+  branchId: string,
+  draftText: string
+): Promise<DraftBranch> {
+  const response = await authApi.put(
+    `/documents/${documentId}/branches/${branchId}`,
+    { draftText }
+  );
+  return (response.data as { branch: DraftBranch }).branch;
+}
+
+/**
+ * Merge a branch into the main draft ("current") or another branch
+ * ("branch:<id>"). Without prefer, conflicts fail with 409 and the
+ * conflicts in the response body.
+ */
+export async function mergeBranch(
+  documentId: string,
+  branchId: string,
+  into = "current",
+  prefer?: MergeSide
+): Promise<MergeResult> {
+  const response = await authApi.post(
+    `/documents/${documentId}/branches/${branchId}/merge`,
+    { into, prefer }
+  );
+  return response.data as MergeResult;
+}
+
+export interface QuotaStatus {
+  scope: "user" | "organization";
+  period: "minute" | "day" | "month";
+  unit: "requests" | "tokens";
+  limit: number;
+  used: number;
+  remaining: number;
+  resetAt: string;
+}
+
+export interface UsageSummary {
+  since: string;
+  runCount: number;
+  succeeded: number;
+  failed: number;
+  cancelled: number;
+  modelCalls: number;
+  inputTokens: number;
+  outputTokens: number;
+  averageLatencyMs: number;
+  byModel: Array<{
+    modelId: string;
+    runCount: number;
+    inputTokens: number;
+    outputTokens: number;
+  }>;
+  byDay: Array<{
+    date: string;
+    runCount: number;
+    inputTokens: number;
+    outputTokens: number;
+  }>;
+}
+
+/**
+ * Fetch the current user's generation usage over the last `days` days and
+ * the AI quotas that apply to them.
+ */
+export async function getUsage(
+  days = 30
+): Promise<{ usage: UsageSummary; quotas: QuotaStatus[] }> {
+  const response = await authApi.get("/usage", { params: { days } });
+  return response.data as { usage: UsageSummary; quotas: QuotaStatus[] };
+}
@@ -377,6 +377,10 @@ export class ApiGatewayWebSocketProvider extends Observable<string> {
     }
   }
 
+  isConnected(): boolean {
+    return this.ws?.readyState === WebSocket.OPEN;
+  }
+
   forceReconnect(): void {
     this.shouldConnect = true;
     this.stopLatencyMonitoring();
@@ -846,7 +850,21 @@ export class ApiGatewayWebSocketProvider extends Observable<string> {
     } else if (type === "refinement_started") {
       // Emit refinement_started event so Editor can show notification
       this.emit("refinement_started", [message]);
-    } else if (type === "refinement_complete") {
+    } else if (type === "refinement_complete" || type === "restore_complete") {
+      // A restore (of some changes from an earlier version) replaces the
+      // draft like a whole-draft refinement.
+      // A refined passage arrives as the requester's own Y.js transaction;
+      // the event only tells the Editor the refinement is done
+      if (message.edit) {
+        this.emit("refinement_complete", [{ edit: message.edit }]);
+        return;
+      }
+      // Suggested changes leave the draft as it is
+      if (!message.draftText) {
+        this.emit("refinement_complete", [{}]);
+        return;
+      }
+
       // Apply the refined text to Y.js so all collaborators see it
       // Apply even if not fully synced - refinement updates are authoritative
       if (message.draftText) {
@@ -880,6 +898,15 @@ export class ApiGatewayWebSocketProvider extends Observable<string> {
           },
         ]);
       }
+    } else if (
+      type === "generation_text" ||
+      type === "generation_progress"
+    ) {
+      // Text of a draft this user is generating (see streamGeneration)
+      this.emit(type, [message]);
+    } else if (type === "suggestions_updated") {
+      // Suggestions were added, accepted or rejected; the Editor reloads them
+      this.emit("suggestions_updated", [message]);
     } else if (type === "presence") {
       this.emit("presence", [message]);
     } else if (type === "snapshot_needed") {
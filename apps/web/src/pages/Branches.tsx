@@ -0,0 +1,584 @@
+import axios from "axios";
+import { CSSProperties, useCallback, useEffect, useState } from "react";
+import { Link, useParams } from "react-router-dom";
+import {
+  createBranch,
+  getBranches,
+  getVersionDiff,
+  getVersionTimeline,
+  mergeBranch,
+  restoreHunks,
+  saveBranch,
+} from "../lib/api";
+import type {
+  DraftBranch,
+  MergeConflict,
+  MergeSide,
+  TimelineVersion,
+  VersionDiff,
+} from "../lib/api";
+import { VersionDiffView } from "../components/VersionDiffView";
+
+const getErrorMessage = (error: unknown): string => {
+  if (axios.isAxiosError(error)) {
+    const data = error.response?.data as
+      | { error?: string; message?: string }
+      | undefined;
+    return (
+      data?.message ??
+      data?.error ??
+      error.response?.statusText ??
+      error.message ??
+      "Request failed"
+    );
+  }
+
+  if (error instanceof Error) {
+    return error.message;
+  }
+
+  return "Something went wrong";
+};
+
+const formatDate = (isoString: string): string => {
+  const date = new Date(isoString);
+  return date.toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+    hour12: true,
+  });
+};
+
+const Branches: React.FC = () => {
+  const { id: documentId } = useParams<{ id: string }>();
+
+  const [checkpoints, setCheckpoints] = useState<TimelineVersion[]>([]);
+  const [branches, setBranches] = useState<DraftBranch[]>([]);
+  const [canEdit, setCanEdit] = useState<boolean>(false);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  // The branch open for editing, with its unsaved text
+  const [openId, setOpenId] = useState<string | null>(null);
+  const [editText, setEditText] = useState<string>("");
+  const [isBusy, setIsBusy] = useState<boolean>(false);
+  const [diff, setDiff] = useState<VersionDiff | null>(null);
+  const [mergeInto, setMergeInto] = useState<string>("current");
+  const [conflicts, setConflicts] = useState<MergeConflict[] | null>(null);
+
+  const openBranch = branches.find((branch) => branch.id === openId) ?? null;
+
+  const loadBranches = useCallback(async () => {
+    if (!documentId) return;
+    const [timeline, branchList] = await Promise.all([
+      getVersionTimeline(documentId),
+      getBranches(documentId),
+    ]);
+    setCheckpoints(
+      timeline.versions.filter((version) => version.type === "checkpoint")
+    );
+    setBranches(branchList.branches);
+    setCanEdit(branchList.canEdit);
+  }, [documentId]);
+
+  useEffect(() => {
+    const fetchBranches = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        await loadBranches();
+      } catch (err) {
+        setError(getErrorMessage(err));
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    void fetchBranches();
+  }, [loadBranches]);
+
+  const selectBranch = (branch: DraftBranch | null) => {
+    setOpenId(branch?.id ?? null);
+    setEditText(branch?.draftText ?? "");
+    setDiff(null);
+    setConflicts(null);
+    setMergeInto("current");
+    setMessage(null);
+  };
+
+  const handleCreateBranch = async (checkpoint: TimelineVersion) => {
+    if (!documentId || !checkpoint.id) return;
+    const name = window
+      .prompt(`Name the branch to start from "${checkpoint.label}"`, "")
+      ?.trim();
+    if (!name) return;
+
+    try {
+      setIsBusy(true);
+      const branch = await createBranch(documentId, checkpoint.id, name);
+      await loadBranches();
+      selectBranch(branch);
+    } catch (err) {
+      setMessage(`Could not start the branch: ${getErrorMessage(err)}`);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!documentId || !openBranch) return;
+    try {
+      setIsBusy(true);
+      const saved = await saveBranch(documentId, openBranch.id, editText);
+      setBranches((current) =>
+        current.map((branch) => (branch.id === saved.id ? saved : branch))
+      );
+      setDiff(null);
+      setMessage("Branch saved.");
+    } catch (err) {
+      setMessage(`Could not save the branch: ${getErrorMessage(err)}`);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleCompare = async () => {
+    if (!documentId || !openBranch) return;
+    if (diff) {
+      setDiff(null);
+      return;
+    }
+    try {
+      setDiff(await getVersionDiff(documentId, `branch:${openBranch.id}`));
+    } catch (err) {
+      setMessage(`Could not compare: ${getErrorMessage(err)}`);
+    }
+  };
+
+  // Picked changes of the branch go into the main draft
+  const handleRestoreHunks = async (hunks: number[]) => {
+    if (!documentId || !openBranch) return;
+    try {
+      setIsBusy(true);
+      const ref = `branch:${openBranch.id}`;
+      const result = await restoreHunks(documentId, ref, hunks);
+      setMessage(
+        `${result.restored} ${
+          result.restored === 1 ? "change" : "changes"
+        } copied into the main draft.`
+      );
+      setDiff(await getVersionDiff(documentId, ref));
+    } catch (err) {
+      setMessage(`Could not copy the changes: ${getErrorMessage(err)}`);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleMerge = async (prefer?: MergeSide) => {
+    if (!documentId || !openBranch) return;
+    if (editText !== openBranch.draftText) {
+      setMessage("Save the branch before merging it.");
+      return;
+    }
+    try {
+      setIsBusy(true);
+      const result = await mergeBranch(
+        documentId,
+        openBranch.id,
+        mergeInto,
+        prefer
+      );
+      setConflicts(null);
+      setDiff(null);
+      await loadBranches();
+      setMessage(
+        `Merged into ${
+          mergeInto === "current" ? "the main draft" : "the branch"
+        }: ${result.applied} ${
+          result.applied === 1 ? "change" : "changes"
+        } taken from this branch${
+          result.conflicts.length > 0
+            ? `, ${result.conflicts.length} conflicting ${
+                result.conflicts.length === 1 ? "change" : "changes"
+              } resolved`
+            : ""
+        }.`
+      );
+    } catch (err) {
+      const data = axios.isAxiosError(err)
+        ? (err.response?.data as { conflicts?: MergeConflict[] } | undefined)
+        : undefined;
+      if (data?.conflicts) {
+        setConflicts(data.conflicts);
+        setMessage(null);
+      } else {
+        setMessage(`Could not merge: ${getErrorMessage(err)}`);
+      }
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  // Inline CSS styles matching theme
+  const pageStyles: CSSProperties = {
+    minHeight: "100vh",
+    background: "radial-gradient(circle at 15% 15%, #1e293b, #0f172a 65%)",
+    color: "#e2e8f0",
+    fontFamily:
+      "'Inter', system-ui, -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif",
+  };
+
+  const containerStyles: CSSProperties = {
+    maxWidth: "896px",
+    margin: "0 auto",
+    padding: "32px 24px",
+    display: "flex",
+    flexDirection: "column",
+    gap: "24px",
+  };
+
+  const headerLabelStyles: CSSProperties = {
+    margin: 0,
+    fontSize: "12px",
+    fontWeight: 600,
+    letterSpacing: "0.1em",
+    textTransform: "uppercase" as const,
+    color: "rgba(110, 231, 183, 0.7)",
+  };
+
+  const sectionTitleStyles: CSSProperties = {
+    margin: "0 0 12px",
+    fontSize: "12px",
+    fontWeight: 600,
+    textTransform: "uppercase" as const,
+    letterSpacing: "0.05em",
+    color: "rgba(148, 163, 184, 0.8)",
+  };
+
+  const cardStyles: CSSProperties = {
+    borderRadius: "22px",
+    border: "1px solid rgba(148, 163, 184, 0.18)",
+    background:
+      "linear-gradient(180deg, rgba(17, 24, 39, 0.92), rgba(17, 24, 39, 0.75))",
+    padding: "20px 24px",
+    display: "flex",
+    flexDirection: "column",
+    gap: "12px",
+  };
+
+  const rowStyles: CSSProperties = {
+    display: "flex",
+    justifyContent: "space-between",
+    alignItems: "center",
+    gap: "16px",
+    flexWrap: "wrap",
+  };
+
+  const mutedStyles: CSSProperties = {
+    margin: 0,
+    fontSize: "13px",
+    color: "rgba(148, 163, 184, 0.85)",
+  };
+
+  const buttonStyles = (disabled = false): CSSProperties => ({
+    borderRadius: "14px",
+    border: "1px solid rgba(16, 185, 129, 0.6)",
+    background: "rgba(16, 185, 129, 0.1)",
+    padding: "8px 16px",
+    fontSize: "14px",
+    fontWeight: 600,
+    color: "rgba(110, 231, 183, 0.9)",
+    cursor: disabled ? "not-allowed" : "pointer",
+    opacity: disabled ? 0.5 : 1,
+  });
+
+  const deletedStyle: CSSProperties = {
+    background: "rgba(239, 68, 68, 0.2)",
+    color: "#fca5a5",
+  };
+
+  const insertedStyle: CSSProperties = {
+    background: "rgba(16, 185, 129, 0.25)",
+    color: "#a7f3d0",
+  };
+
+  return (
+    <div style={pageStyles}>
+      <div style={containerStyles}>
+        <div>
+          <p style={headerLabelStyles}>Draft Branches</p>
+          <h1 style={{ margin: "8px 0", fontSize: "30px", color: "#f8fafc" }}>
+            Checkpoints and Branches
+          </h1>
+          <p style={mutedStyles}>
+            Checkpoints freeze the draft under a name. Start a branch from one
+            to keep editing on the side, then compare it with the main draft
+            and merge it back.
+          </p>
+          <div style={{ display: "flex", gap: "16px", marginTop: "12px" }}>
+            <Link to={`/documents/${documentId}`} style={{ color: "#6ee7b7" }}>
+              ← Back to Editor
+            </Link>
+            <Link
+              to={`/documents/${documentId}/history`}
+              style={{ color: "#6ee7b7" }}
+            >
+              Version history
+            </Link>
+          </div>
+        </div>
+
+        {error && <div style={{ ...cardStyles, color: "#fca5a5" }}>{error}</div>}
+        {message && <p style={mutedStyles}>{message}</p>}
+
+        {loading ? (
+          <p style={mutedStyles}>Loading branches...</p>
+        ) : (
+          <>
+            <section>
+              <p style={sectionTitleStyles}>Checkpoints</p>
+              {checkpoints.length === 0 ? (
+                <p style={mutedStyles}>
+                  No checkpoints yet. Save one from the editor with "Save
+                  checkpoint".
+                </p>
+              ) : (
+                <div style={{ display: "flex", flexDirection: "column", gap: "8px" }}>
+                  {checkpoints.map((checkpoint) => (
+                    <div key={checkpoint.ref} style={{ ...cardStyles, ...rowStyles }}>
+                      <div>
+                        <p style={{ margin: 0, fontWeight: 600 }}>
+                          {checkpoint.label}
+                        </p>
+                        <p style={mutedStyles}>
+                          {formatDate(checkpoint.createdAt)} · Saved by{" "}
+                          {checkpoint.contributors[0]?.email ?? "Unknown"}
+                        </p>
+                      </div>
+                      {canEdit && (
+                        <button
+                          type="button"
+                          disabled={isBusy || !checkpoint.restorable}
+                          onClick={() => void handleCreateBranch(checkpoint)}
+                          style={buttonStyles(isBusy || !checkpoint.restorable)}
+                        >
+                          Start a branch
+                        </button>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </section>
+
+            <section>
+              <p style={sectionTitleStyles}>Branches</p>
+              {branches.length === 0 ? (
+                <p style={mutedStyles}>No branches yet.</p>
+              ) : (
+                <div style={{ display: "flex", flexDirection: "column", gap: "12px" }}>
+                  {branches.map((branch) => (
+                    <div key={branch.id} style={cardStyles}>
+                      <div style={rowStyles}>
+                        <div>
+                          <p style={{ margin: 0, fontWeight: 600 }}>
+                            {branch.name}
+                          </p>
+                          <p style={mutedStyles}>
+                            From "{branch.checkpointName}" · Last saved{" "}
+                            {formatDate(branch.updatedAt)} by{" "}
+                            {branch.updatedByEmail ?? "Unknown"}
+                            {branch.mergedAt &&
+                              ` · Merged ${formatDate(branch.mergedAt)}`}
+                          </p>
+                        </div>
+                        <button
+                          type="button"
+                          onClick={() =>
+                            selectBranch(openId === branch.id ? null : branch)
+                          }
+                          style={buttonStyles()}
+                        >
+                          {openId === branch.id ? "Close" : "Open"}
+                        </button>
+                      </div>
+
+                      {openId === branch.id && (
+                        <>
+                          <textarea
+                            value={editText}
+                            onChange={(e) => setEditText(e.target.value)}
+                            readOnly={!canEdit}
+                            rows={16}
+                            style={{
+                              width: "100%",
+                              boxSizing: "border-box",
+                              borderRadius: "16px",
+                              border: "1px solid rgba(148, 163, 184, 0.35)",
+                              background: "rgba(15, 23, 42, 0.6)",
+                              padding: "16px",
+                              fontSize: "15px",
+                              lineHeight: 1.7,
+                              color: "#e2e8f0",
+                              resize: "vertical",
+                            }}
+                          />
+                          <div style={rowStyles}>
+                            <div style={{ display: "flex", gap: "8px" }}>
+                              {canEdit && (
+                                <button
+                                  type="button"
+                                  disabled={
+                                    isBusy || editText === branch.draftText
+                                  }
+                                  onClick={() => void handleSave()}
+                                  style={buttonStyles(
+                                    isBusy || editText === branch.draftText
+                                  )}
+                                >
+                                  Save branch
+                                </button>
+                              )}
+                              <button
+                                type="button"
+                                onClick={() => void handleCompare()}
+                                style={buttonStyles()}
+                              >
+                                {diff ? "Hide comparison" : "Compare with main draft"}
+                              </button>
+                            </div>
+                            {canEdit && (
+                              <div style={{ display: "flex", gap: "8px" }}>
+                                <select
+                                  value={mergeInto}
+                                  onChange={(e) => {
+                                    setMergeInto(e.target.value);
+                                    setConflicts(null);
+                                  }}
+                                  style={{
+                                    borderRadius: "10px",
+                                    background: "rgba(15, 23, 42, 0.8)",
+                                    color: "#e2e8f0",
+                                    border: "1px solid rgba(71, 85, 105, 0.5)",
+                                    padding: "6px 10px",
+                                  }}
+                                  aria-label="Merge into"
+                                >
+                                  <option value="current">Main draft</option>
+                                  {branches
+                                    .filter((other) => other.id !== branch.id)
+                                    .map((other) => (
+                                      <option
+                                        key={other.id}
+                                        value={`branch:${other.id}`}
+                                      >
+                                        Branch: {other.name}
+                                      </option>
+                                    ))}
+                                </select>
+                                <button
+                                  type="button"
+                                  disabled={isBusy}
+                                  onClick={() => void handleMerge()}
+                                  style={buttonStyles(isBusy)}
+                                >
+                                  Merge
+                                </button>
+                              </div>
+                            )}
+                          </div>
+
+                          {conflicts && (
+                            <div style={{ display: "flex", flexDirection: "column", gap: "8px" }}>
+                              <p style={mutedStyles}>
+                                Both drafts changed the same words in{" "}
+                                {conflicts.length}{" "}
+                                {conflicts.length === 1 ? "place" : "places"}.
+                                Every other change merges as is.
+                              </p>
+                              <div
+                                style={{
+                                  display: "grid",
+                                  gridTemplateColumns: "1fr 1fr",
+                                  gap: "12px",
+                                  ...sectionTitleStyles,
+                                  margin: 0,
+                                }}
+                              >
+                                <span>
+                                  {mergeInto === "current"
+                                    ? "Main draft"
+                                    : "Other branch"}
+                                </span>
+                                <span>This branch</span>
+                              </div>
+                              {conflicts.map((conflict) => (
+                                <div
+                                  key={conflict.start}
+                                  style={{
+                                    display: "grid",
+                                    gridTemplateColumns: "1fr 1fr",
+                                    gap: "12px",
+                                    fontSize: "14px",
+                                    whiteSpace: "pre-wrap",
+                                  }}
+                                >
+                                  <span style={deletedStyle}>
+                                    {conflict.target || "(removed)"}
+                                  </span>
+                                  <span style={insertedStyle}>
+                                    {conflict.branch || "(removed)"}
+                                  </span>
+                                </div>
+                              ))}
+                              <div style={{ display: "flex", gap: "8px" }}>
+                                <button
+                                  type="button"
+                                  disabled={isBusy}
+                                  onClick={() => void handleMerge("target")}
+                                  style={buttonStyles(isBusy)}
+                                >
+                                  Keep{" "}
+                                  {mergeInto === "current"
+                                    ? "the main draft's"
+                                    : "the other branch's"}{" "}
+                                  words
+                                </button>
+                                <button
+                                  type="button"
+                                  disabled={isBusy}
+                                  onClick={() => void handleMerge("branch")}
+                                  style={buttonStyles(isBusy)}
+                                >
+                                  Take this branch's words
+                                </button>
+                              </div>
+                            </div>
+                          )}
+
+                          {diff && (
+                            <VersionDiffView
+                              diff={diff}
+                              restoring={isBusy}
+                              onRestore={handleRestoreHunks}
+                            />
+                          )}
+                        </>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </section>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Branches;
@@ -3,7 +3,8 @@ import { Link, useNavigate } from "react-router-dom";
 import axios from "axios";
 
 import { authApi, useAuth } from "../lib/auth";
-import { getInvitations } from "../lib/api";
+import { getInvitations, getUsage } from "../lib/api";
+import type { QuotaStatus, UsageSummary } from "../lib/api";
 
 interface Document {
   id: string;
@@ -25,10 +26,27 @@ const formatDateTime = (isoString: string): string =>
     timeStyle: "short",
   });
 
+const formatCount = (value: number): string => value.toLocaleString();
+
+const describeQuota = (quota: QuotaStatus): string => {
+  const who = quota.scope === "user" ? "Your" : "Organization";
+  const period =
+    quota.period === "minute"
+      ? "this minute"
+      : quota.period === "day"
+      ? "today"
+      : "this month";
+  return `${who} ${quota.unit === "requests" ? "AI requests" : "tokens"} ${period}`;
+};
+
 const getStatusLabel = (status: string): string => {
   const statusMap: Record<string, string> = {
     uploaded: "Uploaded",
+    downloading: "Downloading",
+    extracting: "Extracting",
+    chunking: "Chunking",
     extracted: "Extracted",
+    failed: "Extraction Failed",
     draft_generated: "Draft Generated",
     exported: "Exported",
   };
@@ -46,6 +64,9 @@ const Dashboard: React.FC = () => {
   const [deletingId, setDeletingId] = useState<string | null>(null);
   const [invitationCount, setInvitationCount] = useState<number>(0);
   const [loadingInvitations, setLoadingInvitations] = useState<boolean>(false);
+  const [usage, setUsage] = useState<UsageSummary | null>(null);
+  const [quotas, setQuotas] = useState<QuotaStatus[]>([]);
+  const [loadingUsage, setLoadingUsage] = useState<boolean>(true);
 
   useEffect(() => {
     const fetchDocuments = async () => {
@@ -99,9 +120,23 @@ const Dashboard: React.FC = () => {
       }
     };
 
+    const fetchUsage = async () => {
+      try {
+        setLoadingUsage(true);
+        const data = await getUsage();
+        setUsage(data.usage);
+        setQuotas(data.quotas);
+      } catch (err) {
+        console.error("Failed to fetch usage:", err);
+      } finally {
+        setLoadingUsage(false);
+      }
+    };
+
     void fetchDocuments();
     void fetchTemplates();
     void fetchInvitations();
+    void fetchUsage();
   }, []);
 
   const handleDeleteDocument = async (
@@ -620,6 +655,92 @@ const Dashboard: React.FC = () => {
               </ul>
             )}
           </article>
+
+          <article style={cardStyles}>
+            <h2 style={sectionTitleStyles}>AI Usage</h2>
+            {loadingUsage ? (
+              <p
+                style={{ color: "rgba(203, 213, 225, 0.65)", fontSize: "14px" }}
+              >
+                Loading usage...
+              </p>
+            ) : !usage ? (
+              <p
+                style={{ color: "rgba(203, 213, 225, 0.65)", fontSize: "14px" }}
+              >
+                Usage is unavailable right now.
+              </p>
+            ) : (
+              <>
+                <p
+                  style={{
+                    color: "rgba(226, 232, 240, 0.85)",
+                    fontSize: "14px",
+                    margin: 0,
+                  }}
+                >
+                  Last 30 days: {formatCount(usage.runCount)} generation
+                  {usage.runCount === 1 ? "" : "s"} (
+                  {formatCount(usage.failed + usage.cancelled)} failed or
+                  cancelled),{" "}
+                  {formatCount(usage.inputTokens + usage.outputTokens)} tokens
+                </p>
+                {quotas.length > 0 && (
+                  <ul style={templateListStyles}>
+                    {quotas.map((quota) => {
+                      const share = Math.min(1, quota.used / quota.limit);
+                      return (
+                        <li key={`${quota.scope}-${quota.period}`}>
+                          <div
+                            style={{
+                              display: "flex",
+                              justifyContent: "space-between",
+                              fontSize: "13px",
+                              color: "rgba(226, 232, 240, 0.85)",
+                              marginBottom: "6px",
+                            }}
+                          >
+                            <span>{describeQuota(quota)}</span>
+                            <span>
+                              {formatCount(quota.used)} /{" "}
+                              {formatCount(quota.limit)}
+                            </span>
+                          </div>
+                          <div
+                            style={{
+                              height: "6px",
+                              borderRadius: "999px",
+                              background: "rgba(51, 65, 85, 0.6)",
+                              overflow: "hidden",
+                            }}
+                          >
+                            <div
+                              style={{
+                                width: `${share * 100}%`,
+                                height: "100%",
+                                background:
+                                  share >= 1
+                                    ? "#f87171"
+                                    : share >= 0.8
+                                    ? "#fbbf24"
+                                    : "#10b981",
+                              }}
+                            />
+                          </div>
+                          {quota.remaining === 0 && (
+                            <p style={templateDateStyles}>
+                              Limit reached. Resets{" "}
+                              {formatDateTime(quota.resetAt)}
+                            </p>
+                          )}
+                        </li>
+                      );
+                    })}
+                  </ul>
+                )}
+              </>
+            )}
+          </article>
         </section>
 
         <section style={cardStyles}>
@@ -22,12 +22,63 @@ import { SyncStatusIndicator } from "../components/SyncStatusIndicator";
 import { CollaborationErrorBoundary } from "../components/CollaborationErrorBoundary";
 import { useKeyboardShortcuts } from "../hooks/useKeyboardShortcuts";
 import { ShareModal } from "../components/ShareModal";
+import { PiiReviewPanel } from "../components/PiiReviewPanel";
+import { CaseFactsPanel } from "../components/CaseFactsPanel";
+import { SpecialsLedgerPanel } from "../components/SpecialsLedgerPanel";
+import { ExtractionQualityPanel } from "../components/ExtractionQualityPanel";
+import { CitationsPanel, locateClaims } from "../components/CitationsPanel";
+import { VariantsComparison } from "../components/VariantsComparison";
+import { TrackedChanges, locateText } from "../components/TrackedChanges";
+import {
+  acceptSuggestion,
+  applyVariant,
+  createCheckpoint,
+  generateVariants,
+  getDocumentTypes,
+  getMergeFields,
+  getSuggestions,
+  getVariants,
+  rejectSuggestion,
+  streamGeneration,
+} from "../lib/api";
+import type {
+  DraftCitations,
+  DraftSuggestion,
+  DraftVariant,
+  DocumentTypeId,
+  DocumentTypeOption,
+  ExtractionQuality,
+  FailedVariant,
+  GenerateRequest,
+  PiiSpan,
+  RedactionPolicy,
+  TemplateVariable,
+  VariantSelection,
+} from "../lib/api";
 
 interface TemplateOption {
   id: string;
   title: string;
   isGlobal: boolean;
   isOwner: boolean;
+  variables: TemplateVariable[];
+}
+
+interface DocumentMatter {
+  id: string;
+  title: string;
+  documents: { id: string; title: string; status: string }[];
+}
+
+/**
+ * A span of the draft and what replaces it: a change suggested by a
+ * refinement, or one accepted
+ */
+interface RefineEdit {
+  start: number;
+  end: number;
+  original: string;
+  replacement: string;
 }
 
 const getErrorMessage = (error: unknown): string => {
@@ -51,6 +102,29 @@ const getErrorMessage = (error: unknown): string => {
   return "Something went wrong";
 };
 
+// Tones offered when several drafts are compared, in order
+const TONE_VARIANTS = [
+  {
+    label: "Firm",
+    instructions:
+      "Write in a firm, assertive tone that stresses liability and the deadline to respond.",
+  },
+  {
+    label: "Measured",
+    instructions: "Write in a measured, neutral professional tone.",
+  },
+  {
+    label: "Conciliatory",
+    instructions:
+      "Write in a conciliatory tone that invites a prompt settlement.",
+  },
+  {
+    label: "Concise",
+    instructions:
+      "Keep the letter as short as possible while covering every required point.",
+  },
+];
+
 const COLLAB_TOAST_KEYS = {
   CONNECTED: "collab-connected",
   RECONNECTING: "collab-reconnecting",
@@ -70,6 +144,20 @@ const Editor: React.FC = () => {
   const [templatesError, setTemplatesError] = useState<string | null>(null);
   const [loadingTemplates, setLoadingTemplates] = useState<boolean>(true);
   const [selectedTemplateId, setSelectedTemplateId] = useState<string>("");
+  const [documentTypes, setDocumentTypes] = useState<DocumentTypeOption[]>([]);
+  const [selectedDocumentType, setSelectedDocumentType] =
+    useState<DocumentTypeId>("demand_letter");
+  // Merge-field variables filled from the case file rather than entered here
+  const [builtinVariableNames, setBuiltinVariableNames] = useState<string[]>(
+    []
+  );
+  const [variableValues, setVariableValues] = useState<Record<string, string>>(
+    {}
+  );
+  const [mergeOnly, setMergeOnly] = useState<boolean>(false);
+  // Drafts written per generation; more than one are compared before use
+  const [variantCount, setVariantCount] = useState<number>(1);
+  const [varyTone, setVaryTone] = useState<boolean>(false);
 
   const [customPrompts, setCustomPrompts] = useState<
     Array<{ id: string; name: string; body: string }>
@@ -88,6 +176,11 @@ const Editor: React.FC = () => {
     extractedText: string;
     draftText: string;
     status: string;
+    matter?: DocumentMatter | null;
+    piiSpans?: PiiSpan[];
+    redactionPolicy?: RedactionPolicy;
+    documentType?: DocumentTypeId;
+    extractionQuality?: ExtractionQuality | null;
     createdAt: string;
     updatedAt: string;
   } | null>(null);
@@ -96,6 +189,22 @@ const Editor: React.FC = () => {
 
   const [draftText, setDraftText] = useState<string>("");
   const [refinePrompt, setRefinePrompt] = useState<string>("");
+  // Text selected in the draft; refinements can be limited to it
+  const [refineSelection, setRefineSelection] = useState<{
+    start: number;
+    end: number;
+    text: string;
+  } | null>(null);
+  const [refineSelectionOnly, setRefineSelectionOnly] = useState<boolean>(true);
+  // Pending changes suggested by refinements, shown as tracked changes
+  const [suggestions, setSuggestions] = useState<DraftSuggestion[]>([]);
+  const [canDecideSuggestions, setCanDecideSuggestions] =
+    useState<boolean>(false);
+  const [isReviewingSuggestions, setIsReviewingSuggestions] =
+    useState<boolean>(false);
+  const [decidingSuggestionId, setDecidingSuggestionId] = useState<
+    string | null
+  >(null);
   const [actionMessage, setActionMessage] = useState<string | null>(null);
 
   // Responsive layout state
@@ -128,6 +237,21 @@ const Editor: React.FC = () => {
   );
   const [lastSyncTime, setLastSyncTime] = useState<Date | null>(null);
   const [isExtractedTextExpanded, setIsExtractedTextExpanded] = useState<boolean>(false);
+  const [isPiiReviewExpanded, setIsPiiReviewExpanded] = useState<boolean>(false);
+  const [isCaseFactsExpanded, setIsCaseFactsExpanded] = useState<boolean>(false);
+  const [isSpecialsExpanded, setIsSpecialsExpanded] = useState<boolean>(false);
+  const [isQualityExpanded, setIsQualityExpanded] = useState<boolean>(false);
+  const [isCitationsExpanded, setIsCitationsExpanded] = useState<boolean>(false);
+  // Claims and their supporting spans from the last generation
+  const [citations, setCitations] = useState<DraftCitations | null>(null);
+  const [activeClaimIndex, setActiveClaimIndex] = useState<number | null>(null);
+  const locatedClaims = useMemo(
+    () => locateClaims(draftText, citations),
+    [draftText, citations]
+  );
+  // Bumped when re-extracted text replaces the old one so panels built from
+  // the extracted text reload
+  const [extractionVersion, setExtractionVersion] = useState<number>(0);
   const [isSidebarVisible, setIsSidebarVisible] = useState(true);
   const [isShareModalOpen, setIsShareModalOpen] = useState(false);
   const [toasts, setToasts] = useState<
@@ -145,6 +269,14 @@ const Editor: React.FC = () => {
   } | null>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const lastSavedRef = useRef<string>("");
+  // Aborts the streaming generation; set while a draft is being generated
+  const generationAbortRef = useRef<AbortController | null>(null);
+  const [isGenerating, setIsGenerating] = useState<boolean>(false);
+  const [variants, setVariants] = useState<DraftVariant[]>([]);
+  const [isVariantsOpen, setIsVariantsOpen] = useState<boolean>(false);
+  const [isGeneratingVariants, setIsGeneratingVariants] =
+    useState<boolean>(false);
+  const [isApplyingVariant, setIsApplyingVariant] = useState<boolean>(false);
   const toastRegistryRef = useRef<Map<string, string>>(new Map());
 
   const showToast = useCallback(
@@ -208,6 +340,7 @@ const Editor: React.FC = () => {
           title: template.title,
           isGlobal: template.isGlobal,
           isOwner: template.isOwner,
+          variables: template.variables ?? [],
         }));
         setTemplates(fetched);
         if (fetched.length > 0) {
@@ -227,6 +360,18 @@ const Editor: React.FC = () => {
     void fetchTemplates();
   }, []);
 
+  useEffect(() => {
+    // Without the list the picker stays hidden and drafts use the stored type
+    getDocumentTypes()
+      .then(setDocumentTypes)
+      .catch((err) => console.error("Failed to load document types:", err));
+    getMergeFields()
+      .then((builtins) =>
+        setBuiltinVariableNames(builtins.map((builtin) => builtin.name))
+      )
+      .catch((err) => console.error("Failed to load merge fields:", err));
+  }, []);
+
   useEffect(() => {
     const fetchCustomPrompts = async () => {
       try {
@@ -274,12 +419,22 @@ const Editor: React.FC = () => {
             extractedText: string;
             draftText: string;
             status: string;
+            matter: DocumentMatter | null;
+            piiSpans: PiiSpan[];
+            redactionPolicy: RedactionPolicy;
+            documentType: DocumentTypeId;
+            extractionQuality: ExtractionQuality | null;
+            draftCitations: DraftCitations | null;
             createdAt: string;
             updatedAt: string;
           };
         };
         setDocument(data.document);
         setDraftText(data.document.draftText || "");
+        setCitations(data.document.draftCitations);
+        if (data.document.documentType) {
+          setSelectedDocumentType(data.document.documentType);
+        }
       } catch (err) {
         setDocumentError(getErrorMessage(err));
       } finally {
@@ -290,6 +445,69 @@ const Editor: React.FC = () => {
     void fetchDocument();
   }, [documentId]);
 
+  // Candidate drafts of the last comparison, so it can be reopened
+  useEffect(() => {
+    if (!documentId || documentId === "draft") return;
+    getVariants(documentId)
+      .then(setVariants)
+      .catch((err) => console.warn("Failed to load draft variants:", err));
+  }, [documentId]);
+
+  const loadSuggestions = useCallback(async () => {
+    if (!documentId || documentId === "draft") return;
+    try {
+      const result = await getSuggestions(documentId);
+      setSuggestions(result.suggestions);
+      setCanDecideSuggestions(result.canDecide);
+      if (result.suggestions.length === 0) {
+        setIsReviewingSuggestions(false);
+      }
+    } catch (err) {
+      console.warn("Failed to load suggestions:", err);
+    }
+  }, [documentId]);
+
+  // Store loadSuggestions in a ref so WebSocket handlers call the latest one
+  const loadSuggestionsRef = useRef(loadSuggestions);
+  useEffect(() => {
+    loadSuggestionsRef.current = loadSuggestions;
+    void loadSuggestions();
+  }, [loadSuggestions]);
+
+  // Pick up text, PII spans and quality report after a re-extraction is
+  // applied; the draft is left alone so unsaved edits are kept
+  const handleReextractionApplied = useCallback(async () => {
+    if (!documentId) return;
+    try {
+      const response = await authApi.get(`/documents/${documentId}`);
+      const { document: updated } = response.data as {
+        document: {
+          extractedText: string;
+          status: string;
+          piiSpans: PiiSpan[];
+          extractionQuality: ExtractionQuality | null;
+          updatedAt: string;
+        };
+      };
+      setDocument((current) =>
+        current
+          ? {
+              ...current,
+              extractedText: updated.extractedText,
+              status: updated.status,
+              piiSpans: updated.piiSpans,
+              extractionQuality: updated.extractionQuality,
+              updatedAt: updated.updatedAt,
+            }
+          : current
+      );
+      setExtractionVersion((version) => version + 1);
+      setActionMessage("Extracted text replaced.");
+    } catch (err) {
+      setActionMessage(getErrorMessage(err));
+    }
+  }, [documentId]);
+
   useEffect(() => {
     if (document?.updatedAt) {
       setLastSyncTime(new Date(document.updatedAt));
@@ -796,6 +1014,11 @@ const Editor: React.FC = () => {
           dismissToast(COLLAB_TOAST_KEYS.AI_OPERATION);
         });
         
+        // Suggestions were added or decided by someone on the document
+        provider.on("suggestions_updated", () => {
+          void loadSuggestionsRef.current();
+        });
+
         // Listen for explicit remote update events
         provider.on("remote-update", (event: any) => {
           const payload = Array.isArray(event) ? event[0] : event;
@@ -1025,8 +1248,9 @@ const Editor: React.FC = () => {
           ? yjsRef.current.ytext.toString()
           : draftText;
 
-      // Skip if empty or unchanged
+      // Skip while a draft is streaming in, or if empty or unchanged
       if (
+        generationAbortRef.current ||
         !yTextValue ||
         yTextValue.trim() === "" ||
         yTextValue === lastSavedRef.current
@@ -1104,6 +1328,17 @@ const Editor: React.FC = () => {
     [templates]
   );
 
+  const selectedTemplateVariables = useMemo(
+    () =>
+      templates.find((template) => template.id === selectedTemplateId)
+        ?.variables ?? [],
+    [templates, selectedTemplateId]
+  );
+  // Variables the case file does not fill are entered before generating
+  const enteredVariables = selectedTemplateVariables.filter(
+    (variable) => !builtinVariableNames.includes(variable.name)
+  );
+
   const handleGenerationPromptSelect = (promptId: string) => {
     setSelectedGenerationPromptId(promptId);
     if (promptId) {
@@ -1126,6 +1361,188 @@ const Editor: React.FC = () => {
     }
   };
 
+  // Update Y.js with the new draft text so other users see the changes
+  // Update even if not fully synced - generation updates are authoritative
+  const replaceSharedDraft = (text: string) => {
+    if (yjsRef.current && yjsRef.current.provider.ws?.readyState === WebSocket.OPEN) {
+      const { ytext, ydoc } = yjsRef.current;
+      // Replace entire Y.Text content with the new draft
+      ydoc.transact(() => {
+        const currentLength = ytext.length;
+        if (currentLength > 0) {
+          ytext.delete(0, currentLength);
+        }
+        if (text.length > 0) {
+          ytext.insert(0, text);
+        }
+      }, null);
+      if (import.meta.env.DEV) {
+        console.log("[Editor] Updated Y.js with generated draft text (isSynced: " + yjsRef.current.provider.isSynced + ")");
+      }
+    }
+  };
+
+  // Several drafts are written in one request and opened side by side; the
+  // document's draft is only replaced once one is applied
+  const generateDraftVariants = async (request: GenerateRequest) => {
+    setActionMessage(`Generating ${variantCount} drafts to compare...`);
+    window.scrollTo({ top: 0, behavior: "smooth" });
+    setIsGeneratingVariants(true);
+    try {
+      const result = await generateVariants(
+        request,
+        varyTone
+          ? TONE_VARIANTS.slice(0, variantCount).map((tone) => ({
+              label: tone.label,
+              instructions: request.instructions
+                ? `${request.instructions}\n\n${tone.instructions}`
+                : tone.instructions,
+            }))
+          : variantCount
+      );
+      const written = result.variants.filter(
+        (variant): variant is DraftVariant => !("error" in variant)
+      );
+      const failed = result.variants.filter(
+        (variant): variant is FailedVariant => "error" in variant
+      );
+      setVariants(written);
+      setIsVariantsOpen(true);
+      setActionMessage(
+        [
+          `${written.length} drafts generated. Pick one or combine their paragraphs.`,
+          ...failed.map((variant) => `${variant.label} failed: ${variant.error}`),
+        ].join(" ")
+      );
+    } catch (err) {
+      setActionMessage(`Generation failed: ${getErrorMessage(err)}`);
+    } finally {
+      setIsGeneratingVariants(false);
+    }
+  };
+
+  const handleApplyVariant = async (selection: VariantSelection) => {
+    if (!documentId || documentId === "draft") return;
+    if (
+      draftText.trim() &&
+      !window.confirm("Replace the current draft with the chosen text?")
+    ) {
+      return;
+    }
+
+    setIsApplyingVariant(true);
+    try {
+      const applied = await applyVariant(documentId, selection);
+      setDraftText(applied.draftText);
+      setCitations(applied.citations);
+      setActiveClaimIndex(null);
+      replaceSharedDraft(applied.draftText);
+      setIsVariantsOpen(false);
+      setActionMessage(
+        "variantId" in selection
+          ? "Draft replaced with the chosen variant."
+          : `Draft built from ${selection.paragraphs.length} selected paragraphs.`
+      );
+    } catch (err) {
+      setActionMessage(`Could not apply the draft: ${getErrorMessage(err)}`);
+    } finally {
+      setIsApplyingVariant(false);
+    }
+  };
+
+  // Put an accepted change in place of the original; the Y.js transaction
+  // touches only that span, so collaborators keep editing the rest
+  const applyPassageEdit = (edit: RefineEdit, near: number): boolean => {
+    const shared =
+      yjsRef.current && yjsRef.current.provider.ws?.readyState === WebSocket.OPEN
+        ? yjsRef.current
+        : null;
+    const current = shared ? shared.ytext.toString() : draftText;
+    const start = locateText(current, edit.original, near);
+    if (start === -1) {
+      return false;
+    }
+
+    if (shared) {
+      shared.ydoc.transact(() => {
+        shared.ytext.delete(start, edit.original.length);
+        shared.ytext.insert(start, edit.replacement);
+      }, null);
+    }
+    setDraftText(
+      current.slice(0, start) +
+        edit.replacement +
+        current.slice(start + edit.original.length)
+    );
+    return true;
+  };
+
+  // Freeze the draft and its Y.js state under a name on the version timeline
+  const handleSaveCheckpoint = async () => {
+    if (!documentId || documentId === "draft") return;
+    if (!yjsRef.current) {
+      showToast("Collaboration is not initialized yet.", {
+        variant: "warning",
+        duration: 3000,
+      });
+      return;
+    }
+    const name = window.prompt("Name this checkpoint", "")?.trim();
+    if (!name) return;
+
+    // The checkpoint takes the saved draft, so save edits not yet auto-saved
+    const text = yjsRef.current.ytext.toString();
+    try {
+      if (text !== lastSavedRef.current) {
+        await authApi.put(`/documents/${documentId}/draft`, {
+          draftText: text,
+        });
+        lastSavedRef.current = text;
+      }
+      const checkpoint = await createCheckpoint(documentId, name);
+      showToast(`Checkpoint "${checkpoint.name}" saved`, {
+        variant: "success",
+        duration: 3000,
+      });
+    } catch (err) {
+      showToast(`Could not save the checkpoint: ${getErrorMessage(err)}`, {
+        variant: "error",
+        duration: 5000,
+      });
+    }
+  };
+
+  const handleAcceptSuggestion = async (suggestion: DraftSuggestion) => {
+    if (!documentId) return;
+    setDecidingSuggestionId(suggestion.id);
+    try {
+      const { edit } = await acceptSuggestion(documentId, suggestion.id);
+      if (!applyPassageEdit(edit, edit.start)) {
+        setActionMessage(
+          "The change was accepted, but the text it changes was edited here. Reload to see the saved draft."
+        );
+      }
+    } catch (err) {
+      setActionMessage(`Could not accept the change: ${getErrorMessage(err)}`);
+    } finally {
+      setDecidingSuggestionId(null);
+      await loadSuggestions();
+    }
+  };
+
+  const handleRejectSuggestion = async (suggestion: DraftSuggestion) => {
+    if (!documentId) return;
+    setDecidingSuggestionId(suggestion.id);
+    try {
+      await rejectSuggestion(documentId, suggestion.id);
+    } catch (err) {
+      setActionMessage(`Could not reject the change: ${getErrorMessage(err)}`);
+    } finally {
+      setDecidingSuggestionId(null);
+      await loadSuggestions();
+    }
+  };
+
   const handleAction = async (type: "generate" | "refine" | "export") => {
     if (type === "generate") {
       if (!selectedTemplateId) {
@@ -1140,7 +1557,43 @@ const Editor: React.FC = () => {
         return;
       }
 
-      setActionMessage("Generating draft with AI...");
+      if (generationAbortRef.current || isGeneratingVariants) {
+        return;
+      }
+
+      const fillOnly = mergeOnly && selectedTemplateVariables.length > 0;
+      const values = Object.fromEntries(
+        enteredVariables
+          .filter((variable) => variableValues[variable.name]?.trim())
+          .map((variable) => {
+            const value = variableValues[variable.name].trim();
+            return [
+              variable.name,
+              variable.type === "list"
+                ? value
+                    .split("\n")
+                    .map((item) => item.trim())
+                    .filter(Boolean)
+                : value,
+            ];
+          })
+      );
+      const generateRequest: GenerateRequest = {
+        documentId,
+        templateId: selectedTemplateId,
+        instructions: generationInstructions || undefined,
+        documentType: selectedDocumentType,
+        ...(Object.keys(values).length > 0 && { variables: values }),
+        ...(fillOnly && { mergeOnly: true }),
+      };
+      if (variantCount > 1 && !fillOnly) {
+        await generateDraftVariants(generateRequest);
+        return;
+      }
+
+      setActionMessage(
+        fillOnly ? "Filling merge fields..." : "Generating draft with AI..."
+      );
       window.scrollTo({ top: 0, behavior: "smooth" });
       showToast(
         "AI is generating draft. Editing will be re-enabled shortly.",
@@ -1151,40 +1604,70 @@ const Editor: React.FC = () => {
         }
       );
 
+      // The draft is shown as the model writes it; cancelling puts the
+      // previous text back (the saved draft is only replaced on completion)
+      const previousDraft = draftText;
+      const abortController = new AbortController();
+      generationAbortRef.current = abortController;
+      setIsGenerating(true);
+
       try {
-        const response = await authApi.post(
-          "/documents/generate",
-          {
-            documentId,
-            templateId: selectedTemplateId,
-            instructions: generationInstructions || undefined,
+        let streamed = "";
+        const { draftText, missingFacts, missingFields, citations } =
+          await streamGeneration(
+          generateRequest,
+          (text) => {
+            if (!streamed && !fillOnly) {
+              setActionMessage("Generating draft with AI...");
+            }
+            streamed += text;
+            setDraftText(streamed);
           },
-          { timeout: 120000 } // 120s timeout to match Lambda
+          abortController.signal,
+          ({ completed, total }) => {
+            setActionMessage(
+              `Summarizing long records (${completed} of ${total} parts)...`
+            );
+          },
+          yjsRef.current?.provider.isConnected()
+            ? yjsRef.current.provider
+            : undefined
         );
-
-        const { draftText } = response.data;
         setDraftText(draftText);
+        setCitations(citations ?? null);
+        setActiveClaimIndex(null);
         
-        // Update Y.js with the new draft text so other users see the changes
-        // Update even if not fully synced - generation updates are authoritative
-        if (yjsRef.current && yjsRef.current.provider.ws?.readyState === WebSocket.OPEN) {
-          const { ytext, ydoc } = yjsRef.current;
-          // Replace entire Y.Text content with the new draft
-          ydoc.transact(() => {
-            const currentLength = ytext.length;
-            if (currentLength > 0) {
-              ytext.delete(0, currentLength);
-            }
-            if (draftText.length > 0) {
-              ytext.insert(0, draftText);
-            }
-          }, null);
-          if (import.meta.env.DEV) {
-            console.log("[Editor] Updated Y.js with generated draft text (isSynced: " + yjsRef.current.provider.isSynced + ")");
-          }
-        }
+        replaceSharedDraft(draftText);
         
-        setActionMessage("Draft generated successfully!");
+        const missingLabels = (missingFacts ?? []).map(
+          (fact) =>
+            documentTypes
+              .find((type) => type.id === selectedDocumentType)
+              ?.requiredFacts.find((required) => required.fact === fact)
+              ?.label ?? fact
+        );
+        const notes = [
+          missingLabels.length > 0 &&
+            `The confirmed case facts are missing ${missingLabels.join(", ")}.`,
+          (missingFields ?? []).length > 0 &&
+            `Required merge fields have no value: ${(missingFields ?? [])
+              .map((field) => field.label)
+              .join(", ")}.`,
+        ].filter(Boolean);
+        if (citations && citations.unsupportedCount > 0) {
+          notes.push(
+            `${citations.unsupportedCount} sentence${
+              citations.unsupportedCount === 1 ? " states" : "s state"
+            } figures not found in the records; see Citations.`
+          );
+        }
+        setActionMessage(
+          notes.length > 0
+            ? `Draft generated. ${notes.join(
+                " "
+              )} Check the draft for bracketed placeholders.`
+            : "Draft generated successfully!"
+        );
 
         // Refresh document to get updated status
         const docResponse = await authApi.get(`/documents/${documentId}`);
@@ -1201,8 +1684,15 @@ const Editor: React.FC = () => {
         };
         setDocument(docData.document);
       } catch (err) {
-        setActionMessage(`Generation failed: ${getErrorMessage(err)}`);
+        setDraftText(previousDraft);
+        setActionMessage(
+          abortController.signal.aborted
+            ? "Generation cancelled. The previous draft was kept."
+            : `Generation failed: ${getErrorMessage(err)}`
+        );
       } finally {
+        generationAbortRef.current = null;
+        setIsGenerating(false);
         dismissToastByKey(COLLAB_TOAST_KEYS.AI_OPERATION);
       }
     } else if (type === "refine") {
@@ -1218,7 +1708,10 @@ const Editor: React.FC = () => {
         return;
       }
 
-      setActionMessage("Refining draft with AI...");
+      const selection = refineSelectionOnly ? refineSelection : null;
+      setActionMessage(
+        selection ? "Refining the selected text with AI..." : "Refining draft with AI..."
+      );
       window.scrollTo({ top: 0, behavior: "smooth" });
       showToast(
         "AI is refining draft. Editing will be re-enabled shortly.",
@@ -1233,51 +1726,26 @@ const Editor: React.FC = () => {
         const response = await authApi.post("/ai/refine", {
           documentId,
           prompt: refinePrompt,
+          ...(selection && { selection }),
+          mode: "suggest",
         });
 
-        const { draftText } = response.data;
-        setDraftText(draftText);
-        
-        // Update Y.js with the refined draft text so other users see the changes
-        // Update even if not fully synced - refinement updates are authoritative
-        // Note: The refinement_complete event will also be broadcast, but updating
-        // locally ensures immediate UI update and sends the update to other users
-        if (yjsRef.current && yjsRef.current.provider.ws?.readyState === WebSocket.OPEN) {
-          const { ytext, ydoc } = yjsRef.current;
-          // Replace entire Y.Text content with the refined draft
-          ydoc.transact(() => {
-            const currentLength = ytext.length;
-            if (currentLength > 0) {
-              ytext.delete(0, currentLength);
-            }
-            if (draftText.length > 0) {
-              ytext.insert(0, draftText);
-            }
-          }, null);
-          if (import.meta.env.DEV) {
-            console.log("[Editor] Updated Y.js with refined draft text (isSynced: " + yjsRef.current.provider.isSynced + ")");
-          }
-        }
-        
+        // The refinement comes back as suggestions; the draft is unchanged
+        // until they are accepted
+        const { suggestions: suggested } = response.data as {
+          suggestions: RefineEdit[];
+        };
+        setRefineSelection(null);
+        await loadSuggestions();
+        setIsReviewingSuggestions(suggested.length > 0);
         setActionMessage(
-          "Draft refined successfully! View history to see all versions."
+          suggested.length === 0
+            ? "The refinement suggested no changes."
+            : `${suggested.length} ${
+                suggested.length === 1 ? "suggestion" : "suggestions"
+              } to review. Accept or reject each change in the draft.`
         );
 
-        // Refresh document to get updated timestamp
-        const docResponse = await authApi.get(`/documents/${documentId}`);
-        const docData = docResponse.data as {
-          document: {
-            id: string;
-            title: string;
-            extractedText: string;
-            draftText: string;
-            status: string;
-            createdAt: string;
-            updatedAt: string;
-          };
-        };
-        setDocument(docData.document);
-
         // Clear refinement prompt after success
         setRefinePrompt("");
       } catch (err) {
@@ -1298,6 +1766,23 @@ const Editor: React.FC = () => {
         return;
       }
 
+      const unsupportedFigures = locatedClaims.flatMap((claim) =>
+        claim.figures
+          .filter((figure) => !figure.supported)
+          .map((figure) => figure.text)
+      );
+      if (
+        unsupportedFigures.length > 0 &&
+        !window.confirm(
+          `The draft still states figures not found in the records: ${unsupportedFigures.join(
+            ", "
+          )}. Export anyway?`
+        )
+      ) {
+        setIsCitationsExpanded(true);
+        return;
+      }
+
       setActionMessage("Exporting document to Word format...");
       window.scrollTo({ top: 0, behavior: "smooth" });
 
@@ -1779,6 +2264,25 @@ const Editor: React.FC = () => {
               >
                 View history
               </button>
+              {documentId !== "draft" && (
+                <button
+                  type="button"
+                  onClick={() => void handleSaveCheckpoint()}
+                  title="Save the draft as it is now under a name"
+                  style={{
+                    borderRadius: "14px",
+                    border: "1px solid rgba(71, 85, 105, 0.5)",
+                    background: "rgba(15, 23, 42, 0.5)",
+                    padding: "6px 12px",
+                    fontSize: "13px",
+                    fontWeight: 500,
+                    color: "rgba(241, 245, 249, 0.9)",
+                    cursor: "pointer",
+                  }}
+                >
+                  Save checkpoint
+                </button>
+              )}
               {documentId !== "draft" && (
                 <button
                   type="button"
@@ -1898,7 +2402,11 @@ const Editor: React.FC = () => {
                   onChange={(event) => setRefinePrompt(event.target.value)}
                   rows={3}
                   style={formTextareaStyles}
-                  placeholder="Clarify tone, add citations, or request new sections."
+                  placeholder={
+                    refineSelection && refineSelectionOnly
+                      ? "How should the selected text change?"
+                      : "Clarify tone, add citations, or request new sections."
+                  }
                   onFocus={(e) => {
                     e.currentTarget.style.borderColor = "rgba(16, 185, 129, 0.8)";
                     e.currentTarget.style.boxShadow =
@@ -1909,6 +2417,24 @@ const Editor: React.FC = () => {
                     e.currentTarget.style.boxShadow = "none";
                   }}
                 />
+                {refineSelection && (
+                  <label style={labelStyles}>
+                    <input
+                      type="checkbox"
+                      checked={refineSelectionOnly}
+                      onChange={(event) =>
+                        setRefineSelectionOnly(event.target.checked)
+                      }
+                    />
+                    <span>
+                      Only the selected text (“
+                      {refineSelection.text.length > 60
+                        ? `${refineSelection.text.slice(0, 60).trim()}…`
+                        : refineSelection.text.trim()}
+                      ”)
+                    </span>
+                  </label>
+                )}
                 <button
                   type="submit"
                   style={buttonPrimaryStyles}
@@ -1937,8 +2463,42 @@ const Editor: React.FC = () => {
                   <p style={sectionDescriptionStyles}>
                     Choose a template to generate a draft.
                   </p>
+                  {document?.matter && (
+                    <p style={sectionDescriptionStyles}>
+                      Drafts use all {document.matter.documents.length} source
+                      files in matter “{document.matter.title}”:{" "}
+                      {document.matter.documents
+                        .map((source) => source.title)
+                        .join(", ")}
+                    </p>
+                  )}
                 </div>
                 <div style={controlsRowStyles}>
+                  {documentTypes.length > 0 && (
+                    <label style={labelStyles}>
+                      <span>Letter type</span>
+                      <select
+                        value={selectedDocumentType}
+                        onChange={(event) =>
+                          setSelectedDocumentType(
+                            event.target.value as DocumentTypeId
+                          )
+                        }
+                        title={
+                          documentTypes.find(
+                            (type) => type.id === selectedDocumentType
+                          )?.description
+                        }
+                        style={selectStyles}
+                      >
+                        {documentTypes.map((type) => (
+                          <option key={type.id} value={type.id}>
+                            {type.label}
+                          </option>
+                        ))}
+                      </select>
+                    </label>
+                  )}
                   <label style={labelStyles}>
                     <span>Template</span>
                     <select
@@ -1977,12 +2537,94 @@ const Editor: React.FC = () => {
                       )}
                     </select>
                   </label>
+                  {enteredVariables.map((variable) => (
+                    <label key={variable.name} style={labelStyles}>
+                      <span>
+                        {variable.label}
+                        {variable.required ? " *" : ""}
+                      </span>
+                      {variable.type === "list" ? (
+                        <textarea
+                          rows={2}
+                          value={variableValues[variable.name] ?? ""}
+                          placeholder="One item per line"
+                          onChange={(event) =>
+                            setVariableValues((current) => ({
+                              ...current,
+                              [variable.name]: event.target.value,
+                            }))
+                          }
+                          style={{ ...selectStyles, cursor: "text" }}
+                        />
+                      ) : (
+                        <input
+                          type={variable.type === "date" ? "date" : "text"}
+                          value={variableValues[variable.name] ?? ""}
+                          placeholder={
+                            variable.type === "money" ? "$0.00" : variable.name
+                          }
+                          onChange={(event) =>
+                            setVariableValues((current) => ({
+                              ...current,
+                              [variable.name]: event.target.value,
+                            }))
+                          }
+                          style={{ ...selectStyles, cursor: "text" }}
+                        />
+                      )}
+                    </label>
+                  ))}
+                  {selectedTemplateVariables.length > 0 && (
+                    <label style={labelStyles}>
+                      <input
+                        type="checkbox"
+                        checked={mergeOnly}
+                        onChange={(event) => setMergeOnly(event.target.checked)}
+                      />
+                      <span>Fill merge fields only (no AI)</span>
+                    </label>
+                  )}
+                  <label style={labelStyles}>
+                    <span>Drafts to compare</span>
+                    <select
+                      value={variantCount}
+                      onChange={(event) =>
+                        setVariantCount(Number(event.target.value))
+                      }
+                      style={selectStyles}
+                    >
+                      <option value={1}>One draft</option>
+                      <option value={2}>2 drafts side by side</option>
+                      <option value={3}>3 drafts side by side</option>
+                      <option value={4}>4 drafts side by side</option>
+                    </select>
+                  </label>
+                  {variantCount > 1 && (
+                    <label style={labelStyles}>
+                      <input
+                        type="checkbox"
+                        checked={varyTone}
+                        onChange={(event) => setVaryTone(event.target.checked)}
+                      />
+                      <span>
+                        Vary the tone (
+                        {TONE_VARIANTS.slice(0, variantCount)
+                          .map((tone) => tone.label)
+                          .join(", ")}
+                        )
+                      </span>
+                    </label>
+                  )}
                 </div>
                 <div style={buttonGroupStyles}>
                   <button
                     type="button"
                     style={buttonSecondaryStyles}
-                    onClick={() => handleAction("generate")}
+                    onClick={() =>
+                      isGenerating
+                        ? generationAbortRef.current?.abort()
+                        : handleAction("generate")
+                    }
                     onMouseEnter={(e) => {
                       e.currentTarget.style.borderColor =
                         "rgba(16, 185, 129, 0.8)";
@@ -1994,8 +2636,23 @@ const Editor: React.FC = () => {
                       e.currentTarget.style.color = "rgba(110, 231, 183, 0.9)";
                     }}
                   >
-                    Generate draft
+                    {isGenerating
+                      ? "Cancel generation"
+                      : isGeneratingVariants
+                      ? "Generating drafts…"
+                      : variantCount > 1
+                      ? `Generate ${variantCount} drafts`
+                      : "Generate draft"}
                   </button>
+                  {variants.length > 1 && (
+                    <button
+                      type="button"
+                      style={buttonSecondaryStyles}
+                      onClick={() => setIsVariantsOpen(true)}
+                    >
+                      Compare drafts ({variants.length})
+                    </button>
+                  )}
                   <button
                     type="button"
                     style={buttonPrimaryStyles}
@@ -2094,55 +2751,134 @@ const Editor: React.FC = () => {
                 >
                   Draft workspace
                 </label>
-                <textarea
-                  ref={textareaRef}
-                  id="draft"
-                  value={draftText}
-                  onChange={(event) => {
-                    // Skip if we're currently applying a remote update
-                    if (isApplyingRemoteUpdateRef.current) {
-                      return;
-                    }
-                    const newValue = event.target.value;
-                    setDraftText(newValue);
-                    
-                    // Always try to apply to Y.js if provider exists and WebSocket is open
-                    // The provider will handle whether to send based on isSynced internally
-                    if (yjsRef.current && yjsRef.current.provider.ws?.readyState === WebSocket.OPEN) {
-                      const provider = yjsRef.current.provider;
-                      applyDiffToYText(newValue);
-                      // Send typing indicator
-                      provider.sendPresence();
-                      // Clear previous timeout
-                      if (typingTimeoutRef.current) {
-                        clearTimeout(typingTimeoutRef.current);
+                {suggestions.length > 0 && (
+                  <div
+                    style={{
+                      display: "flex",
+                      justifyContent: "space-between",
+                      alignItems: "center",
+                      gap: "12px",
+                      marginBottom: "8px",
+                      padding: "8px 12px",
+                      borderRadius: "10px",
+                      border: "1px solid rgba(16, 185, 129, 0.35)",
+                      background: "rgba(6, 78, 59, 0.25)",
+                      fontSize: "13px",
+                      color: "rgba(167, 243, 208, 0.9)",
+                    }}
+                  >
+                    <span>
+                      {suggestions.length}{" "}
+                      {suggestions.length === 1 ? "suggestion" : "suggestions"}{" "}
+                      {canDecideSuggestions
+                        ? "to review"
+                        : "waiting for an editor to review"}
+                    </span>
+                    <button
+                      type="button"
+                      onClick={() =>
+                        setIsReviewingSuggestions((reviewing) => !reviewing)
                       }
-                      // Set timeout to stop typing indicator after 2 seconds of inactivity
-                      typingTimeoutRef.current = window.setTimeout(() => {
-                        // Typing stopped - presence will be updated on next activity
-                      }, 2000);
-                    }
-                  }}
-                  rows={25}
-                  style={{
-                    ...textareaStyles,
-                    flex: 1,
-                    minHeight: "500px",
-                    maxHeight: "none",
-                    maxWidth: "100%",
-                  }}
-                  onFocus={(e) => {
-                    e.currentTarget.style.borderColor =
-                      "rgba(16, 185, 129, 0.8)";
-                    e.currentTarget.style.boxShadow =
-                      "0 0 0 3px rgba(16, 185, 129, 0.2)";
-                  }}
-                  onBlur={(e) => {
-                    e.currentTarget.style.borderColor =
-                      "rgba(71, 85, 105, 0.5)";
-                    e.currentTarget.style.boxShadow = "none";
-                  }}
-                />
+                      style={{
+                        borderRadius: "8px",
+                        border: "1px solid rgba(16, 185, 129, 0.6)",
+                        background: "transparent",
+                        color: "rgba(110, 231, 183, 0.9)",
+                        padding: "4px 10px",
+                        fontSize: "12px",
+                        fontWeight: 600,
+                        cursor: "pointer",
+                      }}
+                    >
+                      {isReviewingSuggestions
+                        ? "Back to editing"
+                        : "Review suggestions inline"}
+                    </button>
+                  </div>
+                )}
+                {isReviewingSuggestions ? (
+                  <TrackedChanges
+                    draftText={draftText}
+                    suggestions={suggestions}
+                    canDecide={canDecideSuggestions}
+                    busyId={decidingSuggestionId}
+                    onAccept={handleAcceptSuggestion}
+                    onReject={handleRejectSuggestion}
+                  />
+                ) : (
+                  <textarea
+                    ref={textareaRef}
+                    id="draft"
+                    value={draftText}
+                    readOnly={isGenerating}
+                    onChange={(event) => {
+                      // Skip if we're currently applying a remote update
+                      if (isApplyingRemoteUpdateRef.current) {
+                        return;
+                      }
+                      const newValue = event.target.value;
+                      setDraftText(newValue);
+                      
+                      // Always try to apply to Y.js if provider exists and WebSocket is open
+                      // The provider will handle whether to send based on isSynced internally
+                      if (yjsRef.current && yjsRef.current.provider.ws?.readyState === WebSocket.OPEN) {
+                        const provider = yjsRef.current.provider;
+                        applyDiffToYText(newValue);
+                        // Send typing indicator
+                        provider.sendPresence();
+                        // Clear previous timeout
+                        if (typingTimeoutRef.current) {
+                          clearTimeout(typingTimeoutRef.current);
+                        }
+                        // Set timeout to stop typing indicator after 2 seconds of inactivity
+                        typingTimeoutRef.current = window.setTimeout(() => {
+                          // Typing stopped - presence will be updated on next activity
+                        }, 2000);
+                      }
+                    }}
+                    onSelect={(event) => {
+                      // Remember the selection so a refinement can be limited to it
+                      const { selectionStart, selectionEnd, value } =
+                        event.currentTarget;
+                      const text = value.slice(selectionStart, selectionEnd);
+                      setRefineSelection(
+                        text.trim()
+                          ? { start: selectionStart, end: selectionEnd, text }
+                          : null
+                      );
+                    }}
+                    onClick={(event) => {
+                      // Clicking a sentence shows the records it came from
+                      const caret = event.currentTarget.selectionStart;
+                      const index = locatedClaims.findIndex(
+                        (claim) => caret >= claim.start && caret <= claim.end
+                      );
+                      if (index !== -1) {
+                        setActiveClaimIndex(index);
+                        setIsCitationsExpanded(true);
+                      }
+                    }}
+                    rows={25}
+                    style={{
+                      ...textareaStyles,
+                      flex: 1,
+                      minHeight: "500px",
+                      maxHeight: "none",
+                      maxWidth: "100%",
+                    }}
+                    onFocus={(e) => {
+                      e.currentTarget.style.borderColor =
+                        "rgba(16, 185, 129, 0.8)";
+                      e.currentTarget.style.boxShadow =
+                        "0 0 0 3px rgba(16, 185, 129, 0.2)";
+                    }}
+                    onBlur={(e) => {
+                      e.currentTarget.style.borderColor =
+                        "rgba(71, 85, 105, 0.5)";
+                      e.currentTarget.style.boxShadow = "none";
+                    }}
+                  />
+                )}
                 <p
                   style={{
                     marginTop: "8px",
@@ -2278,6 +3014,216 @@ const Editor: React.FC = () => {
           </div>
           )}
         </aside>
+
+        {document && documentId !== "draft" && (
+          <aside style={cardStyles}>
+            <div style={{ display: "flex", justifyContent: "space-between", alignItems: "flex-start", marginBottom: "12px" }}>
+              <div>
+                <h2 style={sectionTitleStyles}>
+                  Extraction quality
+                  {document.extractionQuality?.warnings.length
+                    ? ` (${document.extractionQuality.warnings.length} warning${
+                        document.extractionQuality.warnings.length === 1 ? "" : "s"
+                      })`
+                    : ""}
+                </h2>
+                <p style={sectionDescriptionStyles}>
+                  How cleanly text was read from the source file. Re-extract
+                  with OCR or another parser and review the changes before
+                  they replace the extracted text.
+                </p>
+              </div>
+              <button
+                type="button"
+                onClick={() => setIsQualityExpanded(!isQualityExpanded)}
+                aria-label={isQualityExpanded ? "Collapse extraction quality" : "Expand extraction quality"}
+                style={{
+                  borderRadius: "8px",
+                  border: "1px solid rgba(71, 85, 105, 0.5)",
+                  background: "rgba(15, 23, 42, 0.5)",
+                  padding: "6px 12px",
+                  fontSize: "12px",
+                  fontWeight: 500,
+                  color: "rgba(241, 245, 249, 0.9)",
+                  cursor: "pointer",
+                }}
+              >
+                {isQualityExpanded ? "−" : "+"}
+              </button>
+            </div>
+            {/* Kept mounted while collapsed so a pending preview survives */}
+            <div style={{ display: isQualityExpanded ? "block" : "none" }}>
+              <ExtractionQualityPanel
+                documentId={document.id}
+                quality={document.extractionQuality ?? null}
+                onApplied={() => void handleReextractionApplied()}
+              />
+            </div>
+          </aside>
+        )}
+
+        {document && documentId !== "draft" && (
+          <aside style={cardStyles}>
+            <div style={{ display: "flex", justifyContent: "space-between", alignItems: "flex-start", marginBottom: "12px" }}>
+              <div>
+                <h2 style={sectionTitleStyles}>Case facts</h2>
+                <p style={sectionDescriptionStyles}>
+                  Parties, dates, injuries and amounts extracted from the
+                  source{document.matter ? "s in this matter" : ""}. Once
+                  confirmed, drafts are generated from these facts.
+                </p>
+              </div>
+              <button
+                type="button"
+                onClick={() => setIsCaseFactsExpanded(!isCaseFactsExpanded)}
+                aria-label={isCaseFactsExpanded ? "Collapse case facts" : "Expand case facts"}
+                style={{
+                  borderRadius: "8px",
+                  border: "1px solid rgba(71, 85, 105, 0.5)",
+                  background: "rgba(15, 23, 42, 0.5)",
+                  padding: "6px 12px",
+                  fontSize: "12px",
+                  fontWeight: 500,
+                  color: "rgba(241, 245, 249, 0.9)",
+                  cursor: "pointer",
+                }}
+              >
+                {isCaseFactsExpanded ? "−" : "+"}
+              </button>
+            </div>
+            {/* Kept mounted while collapsed so unsaved edits survive */}
+            <div style={{ display: isCaseFactsExpanded ? "block" : "none" }}>
+              <CaseFactsPanel key={extractionVersion} documentId={document.id} />
+            </div>
+          </aside>
+        )}
+
+        {document && documentId !== "draft" && (
+          <aside style={cardStyles}>
+            <div style={{ display: "flex", justifyContent: "space-between", alignItems: "flex-start", marginBottom: "12px" }}>
+              <div>
+                <h2 style={sectionTitleStyles}>
+                  Citations ({locatedClaims.filter((claim) => !claim.supported).length} unsupported)
+                </h2>
+                <p style={sectionDescriptionStyles}>
+                  Where each sentence of the generated draft comes from. Click a
+                  sentence in the draft to see its source.
+                </p>
+              </div>
+              <button
+                type="button"
+                onClick={() => setIsCitationsExpanded(!isCitationsExpanded)}
+                aria-label={isCitationsExpanded ? "Collapse citations" : "Expand citations"}
+                style={{
+                  borderRadius: "8px",
+                  border: "1px solid rgba(71, 85, 105, 0.5)",
+                  background: "rgba(15, 23, 42, 0.5)",
+                  padding: "6px 12px",
+                  fontSize: "12px",
+                  fontWeight: 500,
+                  color: "rgba(241, 245, 249, 0.9)",
+                  cursor: "pointer",
+                }}
+              >
+                {isCitationsExpanded ? "−" : "+"}
+              </button>
+            </div>
+            {isCitationsExpanded && (
+              <CitationsPanel
+                claims={locatedClaims}
+                activeIndex={activeClaimIndex}
+                onSelect={(index) => {
+                  setActiveClaimIndex(index);
+                  const claim = locatedClaims[index];
+                  textareaRef.current?.focus();
+                  textareaRef.current?.setSelectionRange(claim.start, claim.end);
+                }}
+              />
+            )}
+          </aside>
+        )}
+
+        {document && documentId !== "draft" && (
+          <aside style={cardStyles}>
+            <div style={{ display: "flex", justifyContent: "space-between", alignItems: "flex-start", marginBottom: "12px" }}>
+              <div>
+                <h2 style={sectionTitleStyles}>Medical specials</h2>
+                <p style={sectionDescriptionStyles}>
+                  Billing line items read from the bills
+                  {document.matter ? " in this matter" : ""}. Duplicates are
+                  flagged and left out of the totals.
+                </p>
+              </div>
+              <button
+                type="button"
+                onClick={() => setIsSpecialsExpanded(!isSpecialsExpanded)}
+                aria-label={isSpecialsExpanded ? "Collapse medical specials" : "Expand medical specials"}
+                style={{
+                  borderRadius: "8px",
+                  border: "1px solid rgba(71, 85, 105, 0.5)",
+                  background: "rgba(15, 23, 42, 0.5)",
+                  padding: "6px 12px",
+                  fontSize: "12px",
+                  fontWeight: 500,
+                  color: "rgba(241, 245, 249, 0.9)",
+                  cursor: "pointer",
+                }}
+              >
+                {isSpecialsExpanded ? "−" : "+"}
+              </button>
+            </div>
+            {/* Kept mounted while collapsed so unsaved edits survive */}
+            <div style={{ display: isSpecialsExpanded ? "block" : "none" }}>
+              <SpecialsLedgerPanel key={extractionVersion} documentId={document.id} />
+            </div>
+          </aside>
+        )}
+
+        {document && documentId !== "draft" && (
+          <aside style={cardStyles}>
+            <div style={{ display: "flex", justifyContent: "space-between", alignItems: "flex-start", marginBottom: "12px" }}>
+              <div>
+                <h2 style={sectionTitleStyles}>
+                  Sensitive identifiers ({(document.piiSpans ?? []).length})
+                </h2>
+                <p style={sectionDescriptionStyles}>
+                  SSNs, dates of birth, record and account numbers found in the
+                  source. The redaction policy applies to AI prompts and exports.
+                </p>
+              </div>
+              <button
+                type="button"
+                onClick={() => setIsPiiReviewExpanded(!isPiiReviewExpanded)}
+                aria-label={isPiiReviewExpanded ? "Collapse sensitive identifiers" : "Expand sensitive identifiers"}
+                style={{
+                  borderRadius: "8px",
+                  border: "1px solid rgba(71, 85, 105, 0.5)",
+                  background: "rgba(15, 23, 42, 0.5)",
+                  padding: "6px 12px",
+                  fontSize: "12px",
+                  fontWeight: 500,
+                  color: "rgba(241, 245, 249, 0.9)",
+                  cursor: "pointer",
+                }}
+              >
+                {isPiiReviewExpanded ? "−" : "+"}
+              </button>
+            </div>
+            {isPiiReviewExpanded && (
+              <PiiReviewPanel
+                documentId={document.id}
+                extractedText={document.extractedText}
+                piiSpans={document.piiSpans ?? []}
+                redactionPolicy={document.redactionPolicy ?? "tokenize"}
+                onUpdated={(settings) =>
+                  setDocument((current) =>
+                    current ? { ...current, ...settings } : current
+                  )
+                }
+              />
+            )}
+          </aside>
+        )}
       </main>
       {documentId && documentId !== "draft" && (
         <ShareModal
@@ -2286,6 +3232,13 @@ const Editor: React.FC = () => {
           onClose={() => setIsShareModalOpen(false)}
         />
       )}
+      <VariantsComparison
+        variants={variants}
+        isOpen={isVariantsOpen}
+        applying={isApplyingVariant}
+        onClose={() => setIsVariantsOpen(false)}
+        onApply={(selection) => void handleApplyVariant(selection)}
+      />
         <ToastContainer toasts={toasts} onDismiss={dismissToast} />
     </div>
     </CollaborationErrorBoundary>
@@ -1,15 +1,22 @@
 import axios from "axios";
 import { CSSProperties, useEffect, useState } from "react";
 import { Link, useParams, useNavigate } from "react-router-dom";
-import { authApi } from "../lib/auth";
-
-interface Refinement {
-  id: string;
-  prompt: string | null;
-  result: string;
-  createdAt: string;
-  isOriginal?: boolean;
-}
+import {
+  getVersionDiff,
+  getVersionTimeline,
+  restoreHunks,
+  restoreVersion,
+} from "../lib/api";
+import type { TimelineVersion, VersionDiff, VersionType } from "../lib/api";
+import { VersionDiffView } from "../components/VersionDiffView";
+
+const VERSION_TYPE_LABELS: Record<VersionType, string> = {
+  current: "Current",
+  generation: "AI draft",
+  refinement: "Refinement",
+  snapshot: "Snapshot",
+  checkpoint: "Checkpoint",
+};
 
 const getErrorMessage = (error: unknown): string => {
   if (axios.isAxiosError(error)) {
@@ -48,16 +55,24 @@ const History: React.FC = () => {
   const { id: documentId } = useParams<{ id: string }>();
   const navigate = useNavigate();
 
-  const [refinements, setRefinements] = useState<Refinement[]>([]);
+  const [versions, setVersions] = useState<TimelineVersion[]>([]);
+  const [canRestore, setCanRestore] = useState<boolean>(false);
   const [loading, setLoading] = useState<boolean>(true);
   const [error, setError] = useState<string | null>(null);
-  const [restoringId, setRestoringId] = useState<string | null>(null);
-  const [expandedIds, setExpandedIds] = useState<Set<string>>(new Set());
+  const [restoringRef, setRestoringRef] = useState<string | null>(null);
   const [showRestoreModal, setShowRestoreModal] = useState<boolean>(false);
-  const [pendingRestoreId, setPendingRestoreId] = useState<string | null>(null);
+  const [pendingRestoreRef, setPendingRestoreRef] = useState<string | null>(
+    null
+  );
+  // Word diff from one version to the current draft
+  const [comparingRef, setComparingRef] = useState<string | null>(null);
+  const [diff, setDiff] = useState<VersionDiff | null>(null);
+  const [diffError, setDiffError] = useState<string | null>(null);
+  const [isRestoringHunks, setIsRestoringHunks] = useState<boolean>(false);
+  const [diffMessage, setDiffMessage] = useState<string | null>(null);
 
   useEffect(() => {
-    const fetchRefinements = async () => {
+    const fetchVersions = async () => {
       if (!documentId) {
         setError("No document ID provided");
         setLoading(false);
@@ -67,11 +82,9 @@ const History: React.FC = () => {
       try {
         setLoading(true);
         setError(null);
-        const response = await authApi.get(
-          `/documents/${documentId}/refinements`
-        );
-        const data = response.data as { refinements: Refinement[] };
-        setRefinements(data.refinements || []);
+        const timeline = await getVersionTimeline(documentId);
+        setVersions(timeline.versions);
+        setCanRestore(timeline.canRestore);
       } catch (err) {
         setError(getErrorMessage(err));
       } finally {
@@ -79,32 +92,26 @@ const History: React.FC = () => {
       }
     };
 
-    void fetchRefinements();
+    void fetchVersions();
   }, [documentId]);
 
-  const handleRestoreClick = (refinementId: string) => {
-    setPendingRestoreId(refinementId);
+  const handleRestoreClick = (ref: string) => {
+    setPendingRestoreRef(ref);
     setShowRestoreModal(true);
   };
 
   const handleRestoreConfirm = async () => {
-    if (!documentId || !pendingRestoreId) {
+    if (!documentId || !pendingRestoreRef) {
       return;
     }
 
     setShowRestoreModal(false);
-    const refinementId = pendingRestoreId;
-    setPendingRestoreId(null);
+    const ref = pendingRestoreRef;
+    setPendingRestoreRef(null);
 
     try {
-      setRestoringId(refinementId);
-      console.log(
-        `Restoring refinement ${refinementId} for document ${documentId}`
-      );
-      const response = await authApi.post(`/documents/${documentId}/restore`, {
-        refinementId,
-      });
-      console.log("Restore response:", response.data);
+      setRestoringRef(ref);
+      await restoreVersion(documentId, ref);
 
       // Redirect back to editor
       navigate(`/documents/${documentId}`);
@@ -113,32 +120,61 @@ const History: React.FC = () => {
       const errorMessage = getErrorMessage(err);
       alert(`Failed to restore: ${errorMessage}`);
     } finally {
-      setRestoringId(null);
+      setRestoringRef(null);
     }
   };
 
   const handleRestoreCancel = () => {
     setShowRestoreModal(false);
-    setPendingRestoreId(null);
+    setPendingRestoreRef(null);
   };
 
-  const toggleExpand = (id: string) => {
-    const newExpanded = new Set(expandedIds);
-    if (newExpanded.has(id)) {
-      newExpanded.delete(id);
-    } else {
-      newExpanded.add(id);
+  const loadDiff = async (ref: string) => {
+    if (!documentId) return;
+    setDiff(null);
+    setDiffError(null);
+    try {
+      setDiff(await getVersionDiff(documentId, ref));
+    } catch (err) {
+      setDiffError(getErrorMessage(err));
     }
-    setExpandedIds(newExpanded);
   };
 
-  const truncateText = (text: string, maxLength: number = 300): string => {
-    if (text.length <= maxLength) {
-      return text;
+  const toggleCompare = (ref: string) => {
+    setDiffMessage(null);
+    if (comparingRef === ref) {
+      setComparingRef(null);
+      return;
     }
-    return text.substring(0, maxLength) + "...";
+    setComparingRef(ref);
+    void loadDiff(ref);
   };
 
+  const handleRestoreHunks = async (hunks: number[]) => {
+    if (!documentId || !comparingRef) return;
+    try {
+      setIsRestoringHunks(true);
+      const result = await restoreHunks(documentId, comparingRef, hunks);
+      setDiffMessage(
+        `${result.restored} ${
+          result.restored === 1 ? "change" : "changes"
+        } put back into the current draft.`
+      );
+      await loadDiff(comparingRef);
+    } catch (err) {
+      setDiffMessage(`Failed to restore: ${getErrorMessage(err)}`);
+    } finally {
+      setIsRestoringHunks(false);
+    }
+  };
+
+  const formatContributors = (version: TimelineVersion): string =>
+    version.contributors.length === 0
+      ? "Unknown"
+      : version.contributors
+          .map((contributor) => contributor.email ?? "Former member")
+          .join(", ");
+
   // Inline CSS styles matching theme
   const pageStyles: CSSProperties = {
     minHeight: "100vh",
@@ -401,27 +437,30 @@ const History: React.FC = () => {
     lineHeight: 1.6,
   };
 
-  const resultBoxStyles: CSSProperties = {
-    borderRadius: "14px",
-    background: "rgba(15, 23, 42, 0.4)",
-    padding: "12px",
-    fontSize: "14px",
-    color: "rgba(226, 232, 240, 0.9)",
-    lineHeight: 1.6,
-  };
+  const typeBadgeStyles = (type: VersionType): CSSProperties => ({
+    ...currentBadgeStyles,
+    marginLeft: 0,
+    marginRight: "8px",
+    border: "1px solid rgba(71, 85, 105, 0.5)",
+    background:
+      type === "checkpoint" ? "rgba(59, 130, 246, 0.15)" : "rgba(15, 23, 42, 0.6)",
+    color:
+      type === "checkpoint"
+        ? "rgba(191, 219, 254, 0.9)"
+        : "rgba(203, 213, 225, 0.85)",
+  });
 
-  const resultTextStyles: CSSProperties = {
-    whiteSpace: "pre-wrap" as const,
+  const labelStyles: CSSProperties = {
+    margin: "8px 0 4px",
+    fontSize: "16px",
+    fontWeight: 600,
+    color: "#f8fafc",
   };
 
-  const expandButtonStyles: CSSProperties = {
-    marginTop: "8px",
-    fontSize: "12px",
-    color: "#6ee7b7",
-    background: "none",
-    border: "none",
-    cursor: "pointer",
-    transition: "color 0.2s ease",
+  const contributorsStyles: CSSProperties = {
+    margin: 0,
+    fontSize: "13px",
+    color: "rgba(148, 163, 184, 0.85)",
   };
 
   return (
@@ -432,10 +471,12 @@ const History: React.FC = () => {
             style={{ display: "flex", flexDirection: "column", gap: "16px" }}
           >
             <div style={headerContentStyles}>
-              <p style={headerLabelStyles}>Refinement History</p>
+              <p style={headerLabelStyles}>Version History</p>
               <h1 style={headerTitleStyles}>Document Revisions</h1>
               <p style={headerSubtitleStyles}>
-                View and restore previous versions of your draft
+                AI drafts, refinements, collaborative snapshots and checkpoints.
+                Compare any of them with your draft and restore them, in whole
+                or in part
               </p>
             </div>
             <Link
@@ -450,6 +491,9 @@ const History: React.FC = () => {
             >
               ← Back to Editor
             </Link>
+            <Link to={`/documents/${documentId}/branches`} style={backLinkStyles}>
+              Checkpoints and branches →
+            </Link>
           </div>
         </div>
       </header>
@@ -459,13 +503,14 @@ const History: React.FC = () => {
 
         {loading ? (
           <div style={loadingStyles}>
-            <p style={loadingTextStyles}>Loading refinements...</p>
+            <p style={loadingTextStyles}>Loading versions...</p>
           </div>
-        ) : refinements.length === 0 ? (
+        ) : versions.length <= 1 ? (
           <div style={emptyStateStyles}>
-            <p style={emptyStateTitleStyles}>No refinements yet.</p>
+            <p style={emptyStateTitleStyles}>No earlier versions yet.</p>
             <p style={emptyStateTextStyles}>
-              Return to the editor to refine your draft.
+              Return to the editor to generate, refine or save a checkpoint of
+              your draft.
             </p>
             <Link
               to={`/documents/${documentId}`}
@@ -488,15 +533,12 @@ const History: React.FC = () => {
           <div style={timelineContainerStyles}>
             <div style={timelineLineStyles} />
             <div style={timelineListStyles}>
-              {refinements.map((refinement, index) => {
-                const isExpanded = expandedIds.has(refinement.id);
-                const isCurrent = index === 0; // First item is the newest/current version
-                const resultText = isExpanded
-                  ? refinement.result
-                  : truncateText(refinement.result, 300);
+              {versions.map((version) => {
+                const isCurrent = version.type === "current";
+                const isRestoring = restoringRef === version.ref;
 
                 return (
-                  <div key={refinement.id} style={timelineItemStyles}>
+                  <div key={version.ref} style={timelineItemStyles}>
                     <div style={timelineDotStyles}>
                       <div style={timelineDotInnerStyles} />
                     </div>
@@ -504,24 +546,47 @@ const History: React.FC = () => {
                       <div style={cardHeaderStyles}>
                         <div style={cardHeaderContentStyles}>
                           <p style={dateStyles}>
-                            {formatDate(refinement.createdAt)}
+                            {!isCurrent && (
+                              <span style={typeBadgeStyles(version.type)}>
+                                {VERSION_TYPE_LABELS[version.type]}
+                              </span>
+                            )}
+                            {formatDate(version.createdAt)}
                             {isCurrent && (
                               <span style={currentBadgeStyles}>Current</span>
                             )}
                           </p>
+                          <p style={labelStyles}>{version.label}</p>
+                          <p style={contributorsStyles}>
+                            {version.type === "checkpoint"
+                              ? "Saved by"
+                              : "By"}{" "}
+                            {formatContributors(version)}
+                          </p>
                         </div>
-                        {!isCurrent && (
+                        {!isCurrent && version.restorable && (
                           <button
                             type="button"
-                            onClick={() => handleRestoreClick(refinement.id)}
-                            disabled={restoringId === refinement.id}
+                            onClick={() => toggleCompare(version.ref)}
+                            style={restoreButtonStyles}
+                          >
+                            {comparingRef === version.ref
+                              ? "Hide changes"
+                              : "Compare with current"}
+                          </button>
+                        )}
+                        {!isCurrent && version.restorable && canRestore && (
+                          <button
+                            type="button"
+                            onClick={() => handleRestoreClick(version.ref)}
+                            disabled={isRestoring}
                             style={
-                              restoringId === refinement.id
+                              isRestoring
                                 ? restoreButtonDisabledStyles
                                 : restoreButtonStyles
                             }
                             onMouseEnter={(e) => {
-                              if (restoringId !== refinement.id) {
+                              if (!isRestoring) {
                                 e.currentTarget.style.borderColor =
                                   "rgba(16, 185, 129, 0.8)";
                                 e.currentTarget.style.background =
@@ -529,7 +594,7 @@ const History: React.FC = () => {
                               }
                             }}
                             onMouseLeave={(e) => {
-                              if (restoringId !== refinement.id) {
+                              if (!isRestoring) {
                                 e.currentTarget.style.borderColor =
                                   "rgba(16, 185, 129, 0.6)";
                                 e.currentTarget.style.background =
@@ -537,71 +602,43 @@ const History: React.FC = () => {
                               }
                             }}
                           >
-                            {restoringId === refinement.id
-                              ? "Restoring..."
-                              : "Restore this version"}
+                            {isRestoring ? "Restoring..." : "Restore this version"}
                           </button>
                         )}
                       </div>
 
-                      <div style={cardContentStyles}>
-                        {refinement.isOriginal ? (
+                      {!isCurrent && !version.restorable && (
+                        <p style={contributorsStyles}>
+                          The text of this version was not kept, so it cannot
+                          be compared or restored.
+                        </p>
+                      )}
+
+                      {comparingRef === version.ref && (
+                        <div style={cardContentStyles}>
                           <div>
-                            <p style={sectionTitleStyles}>Original Draft</p>
-                            <div style={resultBoxStyles}>
-                              <p style={resultTextStyles}>{resultText}</p>
-                              {refinement.result.length > 300 && (
-                                <button
-                                  type="button"
-                                  onClick={() => toggleExpand(refinement.id)}
-                                  style={expandButtonStyles}
-                                  onMouseEnter={(e) => {
-                                    e.currentTarget.style.color = "#34d399";
-                                  }}
-                                  onMouseLeave={(e) => {
-                                    e.currentTarget.style.color = "#6ee7b7";
-                                  }}
-                                >
-                                  {isExpanded ? "Show less" : "Show more"}
-                                </button>
-                              )}
-                            </div>
-                          </div>
-                        ) : (
-                          <>
-                            <div>
-                              <p style={sectionTitleStyles}>
-                                Refinement Request
-                              </p>
-                              <p style={promptBoxStyles}>
-                                {refinement.prompt || "No prompt provided"}
+                            <p style={sectionTitleStyles}>
+                              Changes since this version
+                            </p>
+                            {diffMessage && (
+                              <p style={promptBoxStyles}>{diffMessage}</p>
+                            )}
+                            {diffError ? (
+                              <p style={errorCardStyles}>{diffError}</p>
+                            ) : diff ? (
+                              <VersionDiffView
+                                diff={diff}
+                                restoring={isRestoringHunks}
+                                onRestore={handleRestoreHunks}
+                              />
+                            ) : (
+                              <p style={loadingTextStyles}>
+                                Comparing versions...
                               </p>
-                            </div>
-
-                            <div>
-                              <p style={sectionTitleStyles}>Refined Draft</p>
-                              <div style={resultBoxStyles}>
-                                <p style={resultTextStyles}>{resultText}</p>
-                                {refinement.result.length > 300 && (
-                                  <button
-                                    type="button"
-                                    onClick={() => toggleExpand(refinement.id)}
-                                    style={expandButtonStyles}
-                                    onMouseEnter={(e) => {
-                                      e.currentTarget.style.color = "#34d399";
-                                    }}
-                                    onMouseLeave={(e) => {
-                                      e.currentTarget.style.color = "#6ee7b7";
-                                    }}
-                                  >
-                                    {isExpanded ? "Show less" : "Show more"}
-                                  </button>
-                                )}
-                              </div>
-                            </div>
-                          </>
-                        )}
-                      </div>
+                            )}
+                          </div>
+                        </div>
+                      )}
                     </div>
                   </div>
                 );
@@ -663,8 +700,8 @@ const History: React.FC = () => {
                 marginBottom: "24px",
               }}
             >
-              This will replace your current draft with this version and remove
-              all newer versions. Continue?
+              This will replace your current draft with this version. Newer
+              versions stay in the history, so you can return to them. Continue?
             </p>
             <div
               style={{
@@ -2,11 +2,26 @@ import axios from "axios";
 import { CSSProperties, FormEvent, useEffect, useMemo, useState } from "react";
 import { Link, useNavigate, useParams } from "react-router-dom";
 import { authApi } from "../lib/auth";
+import {
+  BuiltinVariable,
+  TemplateVariable,
+  TemplateVariableType,
+  getMergeFields,
+} from "../lib/api";
+
+const VARIABLE_TYPES: TemplateVariableType[] = [
+  "text",
+  "date",
+  "money",
+  "number",
+  "list",
+];
 
 interface TemplatePayload {
   id: string;
   title: string;
   content: string;
+  variables: TemplateVariable[];
   isGlobal: boolean;
   ownerId: string | null;
   createdAt: string;
@@ -45,15 +60,24 @@ const TemplateEditor: React.FC = () => {
   const [error, setError] = useState<string | null>(null);
   const [title, setTitle] = useState<string>("");
   const [content, setContent] = useState<string>("");
+  const [variables, setVariables] = useState<TemplateVariable[]>([]);
+  const [builtins, setBuiltins] = useState<BuiltinVariable[]>([]);
   const [templateMeta, setTemplateMeta] = useState<Pick<
     TemplatePayload,
     "id" | "isGlobal" | "isOwner" | "createdAt" | "updatedAt"
   > | null>(null);
 
+  useEffect(() => {
+    getMergeFields()
+      .then(setBuiltins)
+      .catch((err) => console.error("Failed to load merge fields:", err));
+  }, []);
+
   useEffect(() => {
     if (isNew) {
       setTitle("");
       setContent("");
+      setVariables([]);
       setTemplateMeta(null);
       setLoading(false);
       return;
@@ -69,6 +93,7 @@ const TemplateEditor: React.FC = () => {
 
         setTitle(payload.title);
         setContent(payload.content);
+        setVariables(payload.variables ?? []);
         setTemplateMeta({
           id: payload.id,
           isGlobal: payload.isGlobal,
@@ -118,6 +143,7 @@ const TemplateEditor: React.FC = () => {
         await authApi.post("/templates", {
           title,
           content,
+          variables,
         });
       } else {
         const targetId = templateMeta?.id ?? params.id;
@@ -128,6 +154,7 @@ const TemplateEditor: React.FC = () => {
         await authApi.put(`/templates/${targetId}`, {
           title,
           content,
+          variables,
         });
       }
 
@@ -139,6 +166,34 @@ const TemplateEditor: React.FC = () => {
     }
   };
 
+  const updateVariable = (index: number, changes: Partial<TemplateVariable>) => {
+    setVariables((current) =>
+      current.map((variable, i) => {
+        if (i !== index) return variable;
+        const next = { ...variable, ...changes };
+        // Variables filled from the case file keep their type
+        const builtin = builtins.find((entry) => entry.name === next.name);
+        return builtin ? { ...next, type: builtin.type } : next;
+      })
+    );
+  };
+
+  const addVariable = (builtin?: BuiltinVariable) => {
+    setVariables((current) => [
+      ...current,
+      {
+        name: builtin?.name ?? "",
+        type: builtin?.type ?? "text",
+        label: builtin?.label ?? "",
+        required: false,
+      },
+    ]);
+  };
+
+  const undeclaredBuiltins = builtins.filter(
+    (builtin) => !variables.some((variable) => variable.name === builtin.name)
+  );
+
   // Inline CSS styles matching theme
   const pageStyles: CSSProperties = {
     minHeight: "100vh",
@@ -331,6 +386,24 @@ const TemplateEditor: React.FC = () => {
     color: "rgba(148, 163, 184, 0.8)",
   };
 
+  const variableRowStyles: CSSProperties = {
+    display: "grid",
+    gridTemplateColumns: "2fr 1fr 2fr auto auto",
+    alignItems: "center",
+    gap: "8px",
+    marginTop: "8px",
+  };
+
+  const chipStyles: CSSProperties = {
+    borderRadius: "999px",
+    border: "1px solid rgba(110, 231, 183, 0.4)",
+    background: "rgba(16, 185, 129, 0.1)",
+    color: "#6ee7b7",
+    padding: "4px 10px",
+    fontSize: "12px",
+    cursor: "pointer",
+  };
+
   const formFooterStyles: CSSProperties = {
     display: "flex",
     flexWrap: "wrap",
@@ -515,8 +588,135 @@ const TemplateEditor: React.FC = () => {
                 }}
               />
               <p style={helpTextStyles}>
-                For merge fields use bracketed notation, e.g. {"{client_name}"}{" "}
-                or {"{accident_date}"}.
+                Merge fields are filled in before the AI writes the draft:{" "}
+                {"{{claimant.name}}"}, {"{{incident.date|date:long}}"} (also
+                date:short, date:iso, money, upper, lower),{" "}
+                {"{{#if insurer.name}}…{{else}}…{{/if}}"} and{" "}
+                {"{{#each injuries}}- {{this}}{{/each}}"}. Declare every field
+                below.
+              </p>
+            </div>
+
+            <div>
+              <span style={labelStyles}>Merge field variables</span>
+              {variables.length === 0 && (
+                <p style={helpTextStyles}>
+                  No variables declared. Values missing at generation time
+                  appear as their label in brackets, e.g. [Insurer].
+                </p>
+              )}
+              {variables.map((variable, index) => (
+                <div key={index} style={variableRowStyles}>
+                  <input
+                    type="text"
+                    aria-label="Variable name"
+                    value={variable.name}
+                    disabled={!canEdit}
+                    list="builtin-variables"
+                    placeholder="claimant.name"
+                    onChange={(event) =>
+                      updateVariable(index, { name: event.target.value })
+                    }
+                    style={!canEdit ? inputDisabledStyles : inputStyles}
+                  />
+                  <select
+                    aria-label="Variable type"
+                    value={variable.type}
+                    disabled={
+                      !canEdit ||
+                      builtins.some((builtin) => builtin.name === variable.name)
+                    }
+                    onChange={(event) =>
+                      updateVariable(index, {
+                        type: event.target.value as TemplateVariableType,
+                      })
+                    }
+                    style={!canEdit ? inputDisabledStyles : inputStyles}
+                  >
+                    {VARIABLE_TYPES.map((type) => (
+                      <option key={type} value={type}>
+                        {type}
+                      </option>
+                    ))}
+                  </select>
+                  <input
+                    type="text"
+                    aria-label="Variable label"
+                    value={variable.label}
+                    disabled={!canEdit}
+                    placeholder="Label"
+                    onChange={(event) =>
+                      updateVariable(index, { label: event.target.value })
+                    }
+                    style={!canEdit ? inputDisabledStyles : inputStyles}
+                  />
+                  <label style={{ ...helpTextStyles, whiteSpace: "nowrap" }}>
+                    <input
+                      type="checkbox"
+                      checked={variable.required}
+                      disabled={!canEdit}
+                      onChange={(event) =>
+                        updateVariable(index, { required: event.target.checked })
+                      }
+                    />{" "}
+                    Required
+                  </label>
+                  {canEdit && (
+                    <button
+                      type="button"
+                      onClick={() =>
+                        setVariables((current) =>
+                          current.filter((_, i) => i !== index)
+                        )
+                      }
+                      style={{ ...chipStyles, marginTop: "8px" }}
+                    >
+                      Remove
+                    </button>
+                  )}
+                </div>
+              ))}
+              <datalist id="builtin-variables">
+                {builtins.map((builtin) => (
+                  <option key={builtin.name} value={builtin.name}>
+                    {builtin.label}
+                  </option>
+                ))}
+              </datalist>
+              {canEdit && (
+                <div
+                  style={{
+                    display: "flex",
+                    flexWrap: "wrap",
+                    gap: "8px",
+                    marginTop: "12px",
+                  }}
+                >
+                  <button
+                    type="button"
+                    onClick={() => addVariable()}
+                    style={chipStyles}
+                  >
+                    + Custom variable
+                  </button>
+                  {undeclaredBuiltins.map((builtin) => (
+                    <button
+                      key={builtin.name}
+                      type="button"
+                      title={`Filled from the case file (${builtin.type})`}
+                      onClick={() => addVariable(builtin)}
+                      style={chipStyles}
+                    >
+                      + {builtin.name}
+                    </button>
+                  ))}
+                </div>
+              )}
+              <p style={helpTextStyles}>
+                Variables such as claimant.name are filled from the confirmed
+                case facts and specials ledger; custom variables are entered
+                when a draft is generated. Items of specials.items have
+                provider, date, code, description, billed, paid and adjusted.
               </p>
             </div>
 
@@ -3,6 +3,7 @@ import {
   CSSProperties,
   ChangeEvent,
   FormEvent,
+  useEffect,
   useMemo,
   useState,
 } from "react";
@@ -15,6 +16,88 @@ type UploadPhase =
   | "extracting"
   | "ready";
 
+interface MatterOption {
+  id: string;
+  title: string;
+  documentCount: number;
+}
+
+type FileUploadStatus =
+  | "pending"
+  | "uploading"
+  | IngestJobPhase;
+
+// Server-side ingestion job phases, reported by GET /documents/ingest/jobs/:id
+type IngestJobPhase =
+  | "queued"
+  | "downloading"
+  | "extracting"
+  | "chunking"
+  | "done"
+  | "failed";
+
+interface ArchiveEntryStatus {
+  path: string;
+  status: "extracted" | "skipped" | "failed";
+  reason?: string;
+  extractedLength?: number;
+}
+
+interface FileProgress {
+  name: string;
+  status: FileUploadStatus;
+  message?: string;
+  progress?: number; // ingestion job progress (0-100)
+  entries?: ArchiveEntryStatus[]; // set for ZIP archives
+}
+
+interface IngestResult {
+  documentId: string;
+  extractedLength?: number;
+  entries?: ArchiveEntryStatus[];
+}
+
+interface IngestJob {
+  id: string;
+  phase: IngestJobPhase;
+  progress: number;
+  error: string | null;
+  result: (IngestResult & { archive?: boolean }) | null;
+}
+
+// Carries per-entry statuses when an archive job fails
+class IngestJobError extends Error {
+  entries?: ArchiveEntryStatus[];
+
+  constructor(message: string, entries?: ArchiveEntryStatus[]) {
+    super(message);
+    this.entries = entries;
+  }
+}
+
+const INGEST_POLL_INTERVAL_MS = 1000;
+
+const fileStatusLabels: Record<FileUploadStatus, string> = {
+  pending: "Waiting",
+  uploading: "Uploading",
+  queued: "Queued",
+  downloading: "Downloading",
+  extracting: "Extracting",
+  chunking: "Chunking",
+  done: "Extracted",
+  failed: "Failed",
+};
+
+const entryStatusLabels: Record<ArchiveEntryStatus["status"], string> = {
+  extracted: "Extracted",
+  skipped: "Skipped",
+  failed: "Failed",
+};
+
+// Matter select values that are not matter ids
+const NO_MATTER = "";
+const NEW_MATTER = "__new__";
+
 interface Step {
   label: string;
   key: UploadPhase;
@@ -24,8 +107,9 @@ interface Step {
 const steps: Step[] = [
   {
     key: "idle",
-    label: "Select File",
-    description: "Choose a PDF, DOCX, or TXT file from your device.",
+    label: "Select Files",
+    description:
+      "Choose one or more source files and, optionally, the matter they belong to.",
   },
   {
     key: "uploading",
@@ -67,9 +151,17 @@ const getErrorMessage = (error: unknown): string => {
   return "Something went wrong";
 };
 
+const wait = (ms: number) =>
+  new Promise<void>((resolve) => setTimeout(resolve, ms));
+
 const Upload: React.FC = () => {
   const navigate = useNavigate();
-  const [file, setFile] = useState<File | null>(null);
+  const [files, setFiles] = useState<File[]>([]);
+  const [matters, setMatters] = useState<MatterOption[]>([]);
+  const [matterChoice, setMatterChoice] = useState<string>(NO_MATTER);
+  const [newMatterTitle, setNewMatterTitle] = useState<string>("");
+  const [fileProgress, setFileProgress] = useState<FileProgress[]>([]);
+  const [firstDocumentId, setFirstDocumentId] = useState<string | null>(null);
   const [phase, setPhase] = useState<UploadPhase>("idle");
   const [error, setError] = useState<string | null>(null);
   const [isSubmitting, setIsSubmitting] = useState<boolean>(false);
@@ -80,75 +172,228 @@ const Upload: React.FC = () => {
       "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
       "application/msword",
       "text/plain",
+      "application/rtf",
+      "text/rtf",
+      "application/vnd.oasis.opendocument.text",
+      "text/html",
+      "message/rfc822",
+      "application/vnd.ms-outlook",
+      "application/zip",
+      "application/x-zip-compressed",
     ],
     []
   );
 
+  useEffect(() => {
+    const loadMatters = async () => {
+      try {
+        const response = await authApi.get("/matters");
+        setMatters((response.data as { matters: MatterOption[] }).matters);
+      } catch (err) {
+        // Matters are optional - uploading still works without them
+        console.error("Failed to load matters:", err);
+      }
+    };
+    loadMatters();
+  }, []);
+
   const handleFileChange = (event: ChangeEvent<HTMLInputElement>) => {
-    const selected = event.target.files?.[0] ?? null;
-    setFile(selected);
+    const selected = Array.from(event.target.files ?? []);
+    setFiles(selected);
     setError(null);
     setPhase("idle");
+    setFileProgress([]);
+    setFirstDocumentId(null);
+    // Several files only make sense grouped, so default them into a new matter
+    if (selected.length > 1 && matterChoice === NO_MATTER) {
+      setMatterChoice(NEW_MATTER);
+    }
+  };
+
+  const updateFileProgress = (index: number, update: Partial<FileProgress>) => {
+    setFileProgress((current) =>
+      current.map((entry, i) => (i === index ? { ...entry, ...update } : entry))
+    );
+  };
+
+  const uploadFile = async (
+    file: File,
+    index: number,
+    matterId: string | null
+  ): Promise<IngestResult> => {
+    const contentType = file.type || fallbackMime;
+
+    const uploadUrlResponse = await authApi.post("/documents/upload-url", {
+      contentType,
+      fileName: file.name,
+    });
+
+    const { uploadUrl, key } = uploadUrlResponse.data as {
+      uploadUrl: string;
+      key: string;
+    };
+
+    const uploadResult = await fetch(uploadUrl, {
+      method: "PUT",
+      headers: {
+        "Content-Type": contentType,
+      },
+      body: file,
+    });
+
+    if (!uploadResult.ok) {
+      throw new Error(
+        `Upload of ${file.name} failed with status ${uploadResult.status}. Please retry.`
+      );
+    }
+
+    setPhase("extracting");
+    updateFileProgress(index, { status: "queued", progress: 0 });
+
+    const ingestResponse = await authApi.post("/documents/ingest", {
+      key,
+      originalName: file.name,
+      mime: contentType ?? fallbackMime,
+      size: file.size,
+      ...(matterId && { matterId }),
+    });
+
+    const { jobId } = ingestResponse.data as { jobId: string };
+    return waitForIngestJob(jobId, index);
+  };
+
+  // Ingestion runs in the background; poll the job until it finishes
+  const waitForIngestJob = async (
+    jobId: string,
+    index: number
+  ): Promise<IngestResult> => {
+    for (;;) {
+      const response = await authApi.get(`/documents/ingest/jobs/${jobId}`);
+      const { job } = response.data as { job: IngestJob };
+
+      if (job.phase === "done" && job.result) {
+        return job.result;
+      }
+
+      if (job.phase === "failed") {
+        throw new IngestJobError(
+          job.error ?? "Ingestion failed",
+          job.result?.entries
+        );
+      }
+
+      updateFileProgress(index, { status: job.phase, progress: job.progress });
+      await wait(INGEST_POLL_INTERVAL_MS);
+    }
   };
 
   const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
     event.preventDefault();
 
-    if (!file) {
+    if (files.length === 0) {
       setError("Please choose a document to upload.");
       return;
     }
 
-    const contentType = file.type || fallbackMime;
-    if (file.type && !allowedTypes.includes(file.type)) {
+    const unsupported = files.find(
+      (file) => file.type && !allowedTypes.includes(file.type)
+    );
+    if (unsupported) {
       setError(
-        "Unsupported file type. Please upload a PDF, DOCX, DOC, or TXT."
+        `Unsupported file type (${unsupported.name}). Please upload a PDF, DOCX, DOC, TXT, RTF, ODT, HTML, EML, MSG, or ZIP.`
       );
       return;
     }
 
+    if (files.length > 1 && matterChoice === NO_MATTER) {
+      setError("Choose or create a matter to upload several files together.");
+      return;
+    }
+
+    if (matterChoice === NEW_MATTER && !newMatterTitle.trim()) {
+      setError("Please enter a name for the new matter.");
+      return;
+    }
+
     try {
       setIsSubmitting(true);
       setError(null);
       setPhase("uploading");
 
-      const uploadUrlResponse = await authApi.post("/documents/upload-url", {
-        contentType,
-        fileName: file.name,
-      });
-
-      const { uploadUrl, key } = uploadUrlResponse.data as {
-        uploadUrl: string;
-        key: string;
-      };
-
-      const uploadResult = await fetch(uploadUrl, {
-        method: "PUT",
-        headers: {
-          "Content-Type": contentType,
-        },
-        body: file,
-      });
-
-      if (!uploadResult.ok) {
-        throw new Error(
-          `Upload failed with status ${uploadResult.status}. Please retry.`
-        );
+      let matterId: string | null =
+        matterChoice === NO_MATTER || matterChoice === NEW_MATTER
+          ? null
+          : matterChoice;
+
+      if (matterChoice === NEW_MATTER) {
+        const matterResponse = await authApi.post("/matters", {
+          title: newMatterTitle.trim(),
+        });
+        matterId = (matterResponse.data as { matter: MatterOption }).matter.id;
       }
 
-      setPhase("extracting");
+      setFileProgress(
+        files.map((file) => ({ name: file.name, status: "pending" }))
+      );
 
-      const ingestResponse = await authApi.post("/documents/ingest", {
-        key,
-        originalName: file.name,
-        mime: contentType ?? fallbackMime,
-        size: file.size,
-      });
+      const documentIds: string[] = [];
+      let needsReview = false;
+
+      // Upload sequentially, carrying on past failures so every file gets a status
+      for (const [index, file] of files.entries()) {
+        setPhase("uploading");
+        updateFileProgress(index, { status: "uploading" });
+        try {
+          const result = await uploadFile(file, index, matterId);
+          documentIds.push(result.documentId);
+
+          const extractedCount = result.entries
+            ? result.entries.filter((entry) => entry.status === "extracted")
+                .length
+            : 1;
+          if (result.entries && extractedCount < result.entries.length) {
+            needsReview = true;
+          }
+          updateFileProgress(index, {
+            status: "done",
+            progress: 100,
+            message: result.entries
+              ? `${extractedCount} of ${result.entries.length} files extracted`
+              : `${(result.extractedLength ?? 0).toLocaleString()} characters extracted`,
+            entries: result.entries,
+          });
+        } catch (err) {
+          console.error(`Upload of ${file.name} failed:`, err);
+          needsReview = true;
+          const entries =
+            err instanceof IngestJobError
+              ? err.entries
+              : axios.isAxiosError(err)
+              ? (err.response?.data as { entries?: ArchiveEntryStatus[] })
+                  ?.entries
+              : undefined;
+          updateFileProgress(index, {
+            status: "failed",
+            message: getErrorMessage(err),
+            entries,
+          });
+        }
+      }
 
-      const { documentId } = ingestResponse.data as { documentId: string };
+      if (documentIds.length === 0) {
+        setError("None of the selected files could be extracted.");
+        setPhase("idle");
+        return;
+      }
 
       setPhase("ready");
-      navigate(`/documents/${documentId}`, { replace: true });
+      setFirstDocumentId(documentIds[0]);
+
+      // Leave skipped or failed files on screen; otherwise go straight to the editor.
+      // Generation from any document in a matter draws on all of its files.
+      if (!needsReview) {
+        navigate(`/documents/${documentIds[0]}`, { replace: true });
+      }
     } catch (err) {
       console.error("Upload flow failed:", err);
       setError(getErrorMessage(err));
@@ -158,6 +403,8 @@ const Upload: React.FC = () => {
     }
   };
 
+  const totalSize = files.reduce((sum, file) => sum + file.size, 0);
+
   // Inline CSS styles matching theme
   const pageStyles: CSSProperties = {
     minHeight: "100vh",
@@ -245,6 +492,18 @@ const Upload: React.FC = () => {
     marginBottom: "8px",
   };
 
+  const fieldStyles: CSSProperties = {
+    width: "100%",
+    boxSizing: "border-box",
+    borderRadius: "14px",
+    border: "1px solid rgba(71, 85, 105, 0.5)",
+    background: "rgba(15, 23, 42, 0.6)",
+    padding: "8px 12px",
+    fontSize: "14px",
+    color: "#f1f5f9",
+    outline: "none",
+  };
+
   const inputContainerStyles: CSSProperties = {
     marginTop: "8px",
     display: "flex",
@@ -427,6 +686,48 @@ const Upload: React.FC = () => {
     color: "rgba(148, 163, 184, 0.8)",
   };
 
+  const fileRowStyles: CSSProperties = {
+    ...statusItemStyles,
+    flexDirection: "column",
+    gap: "6px",
+    border: "1px solid rgba(71, 85, 105, 0.35)",
+  };
+
+  const fileRowHeaderStyles: CSSProperties = {
+    display: "flex",
+    justifyContent: "space-between",
+    gap: "12px",
+    width: "100%",
+  };
+
+  const fileStatusColors: Record<FileUploadStatus, string> = {
+    pending: "rgba(148, 163, 184, 0.8)",
+    uploading: "rgba(110, 231, 183, 0.9)",
+    queued: "rgba(148, 163, 184, 0.8)",
+    downloading: "rgba(110, 231, 183, 0.9)",
+    extracting: "rgba(110, 231, 183, 0.9)",
+    chunking: "rgba(110, 231, 183, 0.9)",
+    done: "#34d399",
+    failed: "rgba(252, 165, 165, 0.95)",
+  };
+
+  const entryStatusColors: Record<ArchiveEntryStatus["status"], string> = {
+    extracted: "#34d399",
+    skipped: "rgba(253, 230, 138, 0.9)",
+    failed: "rgba(252, 165, 165, 0.95)",
+  };
+
+  const entryListStyles: CSSProperties = {
+    listStyle: "none",
+    margin: 0,
+    padding: "0 0 0 12px",
+    display: "flex",
+    flexDirection: "column",
+    gap: "4px",
+    fontSize: "12px",
+    color: "rgba(203, 213, 225, 0.85)",
+  };
+
   return (
     <div style={pageStyles}>
       <header style={headerStyles}>
@@ -447,10 +748,11 @@ const Upload: React.FC = () => {
           >
             ← Back to Dashboard
           </button>
-          <h1 style={titleStyles}>Upload Document</h1>
+          <h1 style={titleStyles}>Upload Documents</h1>
           <p style={subtitleStyles}>
             Securely upload client materials to start drafting in the unified
-            editor. Supported formats: PDF, DOCX, DOC, TXT.
+            editor. Supported formats: PDF, DOCX, DOC, TXT, RTF, ODT,
+            HTML, EML, MSG, and ZIP archives of these.
           </p>
         </div>
       </header>
@@ -460,14 +762,15 @@ const Upload: React.FC = () => {
           <form onSubmit={handleSubmit} style={formStyles}>
             <div>
               <label htmlFor="document" style={labelStyles}>
-                Choose file
+                Choose files
               </label>
               <div style={inputContainerStyles}>
                 <div style={fileInputWrapperStyles}>
                   <input
                     id="document"
                     type="file"
-                    accept=".pdf,.docx,.doc,.txt"
+                    accept=".pdf,.docx,.doc,.txt,.rtf,.odt,.html,.htm,.eml,.msg,.zip"
+                    multiple
                     style={fileInputStyles}
                     onChange={handleFileChange}
                   />
@@ -488,36 +791,91 @@ const Upload: React.FC = () => {
                       e.currentTarget.style.color = "rgba(110, 231, 183, 0.9)";
                     }}
                   >
-                    Choose File
+                    Choose Files
                   </label>
                 </div>
-                {file && (
+                {files.length > 0 && (
                   <p style={fileNameDisplayStyles}>
-                    Selected: {file.name} ({(file.size / 1024).toFixed(1)} KB)
+                    Selected:{" "}
+                    {files
+                      .map(
+                        (file) =>
+                          `${file.name} (${(file.size / 1024).toFixed(1)} KB)`
+                      )
+                      .join(", ")}
                   </p>
                 )}
+                <div>
+                  <label htmlFor="matter" style={labelStyles}>
+                    Matter
+                  </label>
+                  <select
+                    id="matter"
+                    value={matterChoice}
+                    onChange={(event) => setMatterChoice(event.target.value)}
+                    disabled={isSubmitting}
+                    style={fieldStyles}
+                  >
+                    <option value={NO_MATTER}>No matter (single file)</option>
+                    <option value={NEW_MATTER}>+ New matter…</option>
+                    {matters.map((matter) => (
+                      <option key={matter.id} value={matter.id}>
+                        {matter.title} ({matter.documentCount} file
+                        {matter.documentCount === 1 ? "" : "s"})
+                      </option>
+                    ))}
+                  </select>
+                  {matterChoice === NEW_MATTER && (
+                    <input
+                      type="text"
+                      value={newMatterTitle}
+                      onChange={(event) =>
+                        setNewMatterTitle(event.target.value)
+                      }
+                      placeholder="e.g. Smith v. Acme Insurance"
+                      maxLength={255}
+                      disabled={isSubmitting}
+                      style={{ ...fieldStyles, marginTop: "8px" }}
+                    />
+                  )}
+                  <p style={helpTextStyles}>
+                    Drafts generated from a document in a matter draw on every
+                    file in that matter. ZIP archives are expanded into their
+                    own matter unless you pick one.
+                  </p>
+                </div>
                 <button
                   type="submit"
-                  disabled={!file || isSubmitting}
+                  disabled={files.length === 0 || isSubmitting}
                   style={
-                    !file || isSubmitting ? buttonDisabledStyles : buttonStyles
+                    files.length === 0 || isSubmitting
+                      ? buttonDisabledStyles
+                      : buttonStyles
                   }
                   onMouseEnter={(e) => {
-                    if (!(!file || isSubmitting)) {
+                    if (!(files.length === 0 || isSubmitting)) {
                       e.currentTarget.style.transform = "translateY(-2px)";
                       e.currentTarget.style.boxShadow =
                         "0 22px 35px -22px rgba(16, 185, 129, 0.65)";
                     }
                   }}
                   onMouseLeave={(e) => {
-                    if (!(!file || isSubmitting)) {
+                    if (!(files.length === 0 || isSubmitting)) {
                       e.currentTarget.style.transform = "translateY(0)";
                       e.currentTarget.style.boxShadow =
                         "0 18px 30px -20px rgba(16, 185, 129, 0.55)";
                     }
                   }}
                 >
-                  {isSubmitting ? "Uploading…" : "Start Upload"}
+                  {isSubmitting
+                    ? fileProgress.length > 1
+                      ? `Uploading ${
+                          fileProgress.filter(
+                            (entry) => entry.status !== "pending"
+                          ).length
+                        } of ${fileProgress.length}…`
+                      : "Uploading…"
+                    : "Start Upload"}
                 </button>
               </div>
               <p style={helpTextStyles}>
@@ -533,15 +891,20 @@ const Upload: React.FC = () => {
             ) : (
               <div style={infoCardStyles}>
                 <p style={infoTitleStyles}>
-                  {file
-                    ? `Ready to upload ${file.name} (${Math.round(
-                        file.size / 1024
+                  {files.length === 1
+                    ? `Ready to upload ${files[0].name} (${Math.round(
+                        files[0].size / 1024
+                      )} KB)`
+                    : files.length > 1
+                    ? `Ready to upload ${files.length} files (${Math.round(
+                        totalSize / 1024
                       )} KB)`
                     : "Select a document to begin the upload process."}
                 </p>
                 <p style={infoSubtextStyles}>
-                  You can navigate away after the upload completes; ingestion
-                  runs automatically.
+                  Extraction runs in the background; you can navigate away
+                  once the upload completes and the document will update when
+                  it is ready.
                 </p>
               </div>
             )}
@@ -577,6 +940,63 @@ const Upload: React.FC = () => {
             })}
           </ol>
         </section>
+
+        {fileProgress.length > 0 && (
+          <section style={statusSectionStyles}>
+            <h2 style={statusTitleStyles}>File status</h2>
+            <ul style={statusListStyles}>
+              {fileProgress.map((entry, index) => (
+                <li key={`${entry.name}-${index}`} style={fileRowStyles}>
+                  <div style={fileRowHeaderStyles}>
+                    <span style={statusLabelStyles}>{entry.name}</span>
+                    <span
+                      style={{
+                        fontSize: "12px",
+                        fontWeight: 600,
+                        color: fileStatusColors[entry.status],
+                      }}
+                    >
+                      {fileStatusLabels[entry.status]}
+                      {entry.progress !== undefined &&
+                        entry.status !== "done" &&
+                        entry.status !== "failed" &&
+                        ` · ${entry.progress}%`}
+                    </span>
+                  </div>
+                  {entry.message && (
+                    <p style={statusDescriptionStyles}>{entry.message}</p>
+                  )}
+                  {entry.entries && entry.entries.length > 0 && (
+                    <ul style={entryListStyles}>
+                      {entry.entries.map((archiveEntry) => (
+                        <li key={archiveEntry.path}>
+                          <span
+                            style={{ color: entryStatusColors[archiveEntry.status] }}
+                          >
+                            {entryStatusLabels[archiveEntry.status]}
+                          </span>{" "}
+                          {archiveEntry.path}
+                          {archiveEntry.reason && ` — ${archiveEntry.reason}`}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </li>
+              ))}
+            </ul>
+            {phase === "ready" && firstDocumentId && (
+              <button
+                type="button"
+                style={{ ...buttonStyles, marginTop: "16px" }}
+                onClick={() =>
+                  navigate(`/documents/${firstDocumentId}`, { replace: true })
+                }
+              >
+                Continue to editor
+              </button>
+            )}
+          </section>
+        )}
       </main>
     </div>
   );
@@ -186,6 +186,26 @@ else
     echo "  ✅ Function created"
 fi
 
+# Step 5b: Optional response streaming
+# With AI_RESPONSE_STREAMING=true the function runs the FastAPI app under the
+# Lambda Web Adapter in response_stream mode, so the API's streamed
+# invocations of /generate/stream receive the text as Bedrock writes it
+# (Mangum buffers the whole response)
+if [ "${AI_RESPONSE_STREAMING:-false}" = true ]; then
+    echo ""
+    echo "📡 Step 4b: Enabling response streaming (Lambda Web Adapter)..."
+    LWA_LAYER_ARN="arn:aws:lambda:${REGION}:753240598075:layer:LambdaAdapterLayerX86:24"
+    aws lambda update-function-configuration \
+        --function-name "$FUNCTION_NAME" \
+        --handler run.sh \
+        --layers "$LWA_LAYER_ARN" \
+        --environment "Variables={$ENV_VARS,AWS_LAMBDA_EXEC_WRAPPER=/opt/bootstrap,AWS_LWA_INVOKE_MODE=response_stream,PORT=8080}" \
+        --region "$REGION" \
+        > /dev/null
+    aws lambda wait function-updated --function-name "$FUNCTION_NAME" --region "$REGION"
+    echo "  ✅ Response streaming enabled"
+fi
+
 # Step 6: Get or create API Gateway HTTP API
 echo ""
 echo "🌐 Step 5: Creating API Gateway HTTP API..."
@@ -117,6 +117,8 @@ ENV_VARS="ENV=$ENV,REGION=$REGION,APP=$APP,S3_UPLOAD_BUCKET=${APP}-${ENV}-upload
 AI_FUNCTION_NAME="${APP}-${ENV}-ai"
 ENV_VARS="${ENV_VARS},AI_FUNCTION_NAME=${AI_FUNCTION_NAME}"
 
+# Timeout covers asynchronous ingestion jobs (self-invoked), not just HTTP
+# requests, which API Gateway caps at 29s anyway
 if aws lambda get-function --function-name "$FUNCTION_NAME" &>/dev/null; then
     echo "  Function exists, updating code..."
     aws lambda update-function-code \
@@ -133,7 +135,7 @@ if aws lambda get-function --function-name "$FUNCTION_NAME" &>/dev/null; then
     if [ "$HAS_VPC_CONFIG" = true ]; then
         aws lambda update-function-configuration \
             --function-name "$FUNCTION_NAME" \
-            --timeout 120 \
+            --timeout 900 \
             --memory-size 512 \
             --environment "Variables={$ENV_VARS}" \
             --vpc-config "SubnetIds=$SUBNET1_ID,$SUBNET2_ID,SecurityGroupIds=$SG_LAMBDA_ID" \
@@ -142,7 +144,7 @@ if aws lambda get-function --function-name "$FUNCTION_NAME" &>/dev/null; then
     else
         aws lambda update-function-configuration \
             --function-name "$FUNCTION_NAME" \
-            --timeout 120 \
+            --timeout 900 \
             --memory-size 512 \
             --environment "Variables={$ENV_VARS}" \
             --region "$REGION" \
@@ -158,7 +160,7 @@ else
             --role "$ROLE_ARN" \
             --handler index.handler \
             --zip-file "fileb://$ZIP_FILE" \
-            --timeout 120 \
+            --timeout 900 \
             --memory-size 512 \
             --environment "Variables={$ENV_VARS}" \
             --vpc-config "SubnetIds=$SUBNET1_ID,$SUBNET2_ID,SecurityGroupIds=$SG_LAMBDA_ID" \
@@ -172,7 +174,7 @@ else
             --role "$ROLE_ARN" \
             --handler index.handler \
             --zip-file "fileb://$ZIP_FILE" \
-            --timeout 120 \
+            --timeout 900 \
             --memory-size 512 \
             --environment "Variables={$ENV_VARS}" \
             --description "StenoAI API Lambda function" \